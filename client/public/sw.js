@@ -49,3 +49,44 @@ self.addEventListener('fetch', (event) => {
       .catch(() => caches.match(event.request).then((cached) => cached || caches.match('/')))
   );
 });
+
+// Push - show the message even when the app is closed
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (e) {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'CRM יהלום', {
+      body: data.body || '',
+      icon: '/favicon.svg',
+      dir: 'rtl',
+      lang: 'he',
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      // Critical alerts stay on screen until the user acts on them
+      requireInteraction: Boolean(data.critical),
+      vibrate: data.critical ? [300, 100, 300, 100, 300] : [200],
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+// Notification click - focus an open app window, or open one at the message's page
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => w.url.startsWith(self.location.origin));
+      if (open) {
+        return open.focus().then((w) => (w && 'navigate' in w ? w.navigate(url) : w));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -20,6 +20,7 @@ const Events = lazy(() => import('./pages/Events'));
 const EventDetails = lazy(() => import('./pages/EventDetails'));
 const Invoices = lazy(() => import('./pages/Invoices'));
 const Reports = lazy(() => import('./pages/Reports'));
+const Timesheets = lazy(() => import('./pages/Timesheets'));
 const Priority = lazy(() => import('./pages/Priority'));
 const Settings = lazy(() => import('./pages/Settings'));
 const Calendar = lazy(() => import('./pages/Calendar'));
@@ -31,6 +32,7 @@ const SitesMap = lazy(() => import('./pages/SitesMap'));
 const GuardTracking = lazy(() => import('./pages/GuardTracking'));
 const GuardPanel = lazy(() => import('./pages/GuardPanel'));
 const OpenShifts = lazy(() => import('./pages/OpenShifts'));
+const MySchedule = lazy(() => import('./pages/MySchedule'));
 const AutomationSettings = lazy(() => import('./pages/AutomationSettings'));
 const Contractors = lazy(() => import('./pages/Contractors'));
 const ContractorDetails = lazy(() => import('./pages/ContractorDetails'));
@@ -107,6 +109,7 @@ function App() {
             <Route path="weapons" element={<RoleRoute permission="page:weapons"><WeaponsEquipment /></RoleRoute>} />
             <Route path="invoices" element={<RoleRoute permission="page:invoices"><Invoices /></RoleRoute>} />
             <Route path="reports" element={<RoleRoute permission="page:reports"><Reports /></RoleRoute>} />
+            <Route path="timesheets" element={<RoleRoute permission="page:timesheets"><Timesheets /></RoleRoute>} />
             <Route path="priority" element={<RoleRoute permission="page:priority"><Priority /></RoleRoute>} />
             <Route path="users" element={<RoleRoute permission="page:users"><Users /></RoleRoute>} />
             <Route path="settings" element={<RoleRoute permission="page:settings"><Settings /></RoleRoute>} />
@@ -115,6 +118,7 @@ function App() {
             <Route path="guard-tracking" element={<RoleRoute permission="page:guard-tracking"><GuardTracking /></RoleRoute>} />
             <Route path="guard-panel" element={<GuardPanel />} />
             <Route path="open-shifts" element={<OpenShifts />} />
+            <Route path="my-schedule" element={<RoleRoute permission="page:my-schedule"><MySchedule /></RoleRoute>} />
             <Route path="contractors" element={<RoleRoute permission="page:contractors"><Contractors /></RoleRoute>} />
             <Route path="contractors/:id" element={<RoleRoute permission="page:contractors"><ContractorDetails /></RoleRoute>} />
             <Route path="profile" element={<Profile />} />
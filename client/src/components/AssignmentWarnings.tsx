@@ -0,0 +1,85 @@
+import { AlertTriangle, Ban, Clock, Shield, Award, CalendarClock, Scale, Moon } from 'lucide-react';
+import type { AssignmentIssue } from '../types';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const issueIcons: Record<string, typeof AlertTriangle> = {
+  overlap: Ban,
+  rest_period: Clock,
+  weekly_hours: CalendarClock,
+  weapon_license: Shield,
+  certification: Award,
+  certification_expiring: Award,
+  labor_daily_hours: Scale,
+  labor_overtime_cap: Scale,
+  labor_weekly_rest: Scale,
+  labor_night_rotation: Moon,
+};
+
+export function needsOverride(issues: AssignmentIssue[]): boolean {
+  return issues.some((i) => i.severity === 'error' && i.overridable);
+}
+
+export function isBlocked(issues: AssignmentIssue[]): boolean {
+  return issues.some((i) => i.severity === 'error' && !i.overridable);
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function AssignmentWarnings({
+  issues,
+  compact = false,
+}: {
+  issues: AssignmentIssue[];
+  compact?: boolean;
+}) {
+  if (issues.length === 0) return null;
+
+  if (compact) {
+    return (
+      <div className="flex flex-wrap gap-1 mt-1.5">
+        {issues.map((issue) => {
+          const Icon = issueIcons[issue.code] || AlertTriangle;
+          return (
+            <span
+              key={issue.message}
+              className={`inline-flex items-center gap-0.5 text-[10px] rounded-full px-1.5 py-0.5 ${
+                issue.severity === 'error'
+                  ? 'bg-red-50 text-red-700 border border-red-200'
+                  : 'bg-amber-50 text-amber-700 border border-amber-200'
+              }`}
+            >
+              <Icon className="w-2.5 h-2.5" />
+              {issue.message}
+            </span>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const hasErrors = issues.some((i) => i.severity === 'error');
+
+  return (
+    <div className={`rounded-xl p-3 border ${hasErrors ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <div className={`flex items-center gap-2 text-sm font-semibold mb-2 ${hasErrors ? 'text-red-700' : 'text-amber-700'}`}>
+        <AlertTriangle className="w-4 h-4" />
+        {isBlocked(issues) ? 'לא ניתן לשבץ' : hasErrors ? 'חריגות בשיבוץ' : 'אזהרות'}
+      </div>
+      <ul className="space-y-1.5">
+        {issues.map((issue) => {
+          const Icon = issueIcons[issue.code] || AlertTriangle;
+          return (
+            <li key={issue.message} className="flex items-start gap-2 text-sm">
+              <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-500' : 'text-amber-500'}`} />
+              <span className="text-gray-700 flex-1">{issue.message}</span>
+              {issue.severity === 'error' && !issue.overridable && (
+                <span className="badge-danger text-[10px]">חוסם</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
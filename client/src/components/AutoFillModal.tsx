@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, addDays } from 'date-fns';
+import { he } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+import { X, Wand2, Check, Loader2, AlertTriangle, Shield, RefreshCw } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface Proposal {
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string;
+  company_name?: string;
+  requires_weapon: boolean;
+  employee_id: string;
+  employee_name: string;
+  score: number;
+  reasons: string[];
+}
+
+interface UnfilledShift {
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string;
+  company_name?: string;
+  missing: number;
+}
+
+interface ProposalResponse {
+  week_start: string;
+  proposals: Proposal[];
+  unfilled: UnfilledShift[];
+  stats: { open_slots: number; filled: number };
+}
+
+type RowStatus = { state: 'pending' } | { state: 'done' } | { state: 'failed'; error: string };
+
+const rowKey = (p: Proposal) => `${p.shift_id}:${p.employee_id}`;
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function AutoFillModal({ weekStart, onClose }: { weekStart: Date; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const weekStartStr = format(weekStart, 'yyyy-MM-dd');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [statuses, setStatuses] = useState<Record<string, RowStatus>>({});
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const { data, isLoading, isError, refetch, isFetching } = useQuery<ProposalResponse>({
+    queryKey: ['auto-fill-proposal', weekStartStr],
+    queryFn: () => shiftsApi.getAutoFillProposal(weekStartStr).then((res) => res.data),
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  // Every fresh proposal starts fully selected
+  useEffect(() => {
+    if (!data) return;
+    setSelected(new Set((data.proposals || []).map(rowKey)));
+    setStatuses({});
+  }, [data]);
+
+  const proposals = data?.proposals || [];
+  const openRows = proposals.filter((p) => statuses[rowKey(p)]?.state !== 'done');
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Commit one by one through the regular assign endpoint so every row goes
+  // through the same server-side validation as a manual assignment.
+  const commit = async (rows: Proposal[]) => {
+    if (rows.length === 0) return;
+    setIsCommitting(true);
+    let ok = 0;
+    for (const row of rows) {
+      const key = rowKey(row);
+      setStatuses((prev) => ({ ...prev, [key]: { state: 'pending' } }));
+      try {
+        await shiftsApi.assign(row.shift_id, { employee_id: row.employee_id, role: 'guard' });
+        ok++;
+        setStatuses((prev) => ({ ...prev, [key]: { state: 'done' } }));
+      } catch (err) {
+        const message = (err as MutationError)?.response?.data?.error || 'שגיאה בשיבוץ';
+        setStatuses((prev) => ({ ...prev, [key]: { state: 'failed', error: message } }));
+      }
+    }
+    setIsCommitting(false);
+    queryClient.invalidateQueries({ queryKey: ['shifts'] });
+    if (ok === rows.length) toast.success(`${ok} שיבוצים אושרו`);
+    else toast.error(`${ok} מתוך ${rows.length} שיבוצים אושרו`);
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-3xl">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <Wand2 className="w-4 h-4 text-primary-600" />
+            </div>
+            מילוי אוטומטי לשבוע
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <p className="text-sm text-gray-500">
+              {format(weekStart, 'd MMMM', { locale: he })} - {format(addDays(weekStart, 6), 'd MMMM yyyy', { locale: he })}
+              {data && (
+                <span className="mr-2 text-gray-700 font-medium">
+                  · הוצעו {data.stats.filled} מתוך {data.stats.open_slots} מקומות פנויים
+                </span>
+              )}
+            </p>
+            <button
+              onClick={() => refetch()}
+              disabled={isFetching || isCommitting}
+              className="btn-secondary text-sm flex items-center gap-1.5"
+            >
+              <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+              חשב מחדש
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <SkeletonPulse key={i} className="h-12 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : isError ? (
+            <p className="text-sm text-red-600 text-center py-6">שגיאה בחישוב השיבוץ</p>
+          ) : proposals.length === 0 && (data?.unfilled.length || 0) === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">כל המשמרות בשבוע זה מאוישות</p>
+          ) : (
+            <>
+              {proposals.length > 0 && (
+                <div className="border border-gray-100 rounded-xl overflow-hidden max-h-[50vh] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-500 text-xs sticky top-0">
+                      <tr>
+                        <th className="p-2 w-8">
+                          <input
+                            type="checkbox"
+                            checked={openRows.length > 0 && openRows.every((p) => selected.has(rowKey(p)))}
+                            onChange={(e) =>
+                              setSelected(e.target.checked ? new Set(openRows.map(rowKey)) : new Set())
+                            }
+                            className="w-4 h-4 rounded border-gray-300"
+                          />
+                        </th>
+                        <th className="p-2 text-right">משמרת</th>
+                        <th className="p-2 text-right">עובד מוצע</th>
+                        <th className="p-2 text-right">נימוק</th>
+                        <th className="p-2 w-24"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {proposals.map((p) => {
+                        const key = rowKey(p);
+                        const status = statuses[key];
+                        return (
+                          <tr key={key} className="border-t border-gray-100">
+                            <td className="p-2 text-center">
+                              <input
+                                type="checkbox"
+                                checked={selected.has(key)}
+                                disabled={status?.state === 'done'}
+                                onChange={() => toggle(key)}
+                                className="w-4 h-4 rounded border-gray-300"
+                              />
+                            </td>
+                            <td className="p-2">
+                              <p className="font-medium text-gray-900">
+                                {format(new Date(p.date + 'T00:00:00'), 'EEE d/M', { locale: he })}{' '}
+                                <span className="font-mono text-gray-500">{p.start_time}-{p.end_time}</span>
+                              </p>
+                              <p className="text-xs text-gray-500 flex items-center gap-1">
+                                {p.company_name}{p.site_name ? ` - ${p.site_name}` : ''}
+                                {p.requires_weapon && <Shield className="w-3 h-3 text-amber-500" />}
+                              </p>
+                            </td>
+                            <td className="p-2 font-medium text-primary-700">{p.employee_name}</td>
+                            <td className="p-2">
+                              <div className="flex flex-wrap gap-1">
+                                {p.reasons.map((r) => (
+                                  <span key={r} className="text-[10px] rounded-full px-1.5 py-0.5 bg-gray-100 text-gray-600">
+                                    {r}
+                                  </span>
+                                ))}
+                              </div>
+                              {status?.state === 'failed' && (
+                                <p className="text-xs text-red-600 mt-1">{status.error}</p>
+                              )}
+                            </td>
+                            <td className="p-2 text-left">
+                              {status?.state === 'done' ? (
+                                <span className="badge-success">שובץ</span>
+                              ) : status?.state === 'pending' ? (
+                                <Loader2 className="w-4 h-4 animate-spin text-primary-500 inline" />
+                              ) : (
+                                <button
+                                  onClick={() => commit([p])}
+                                  disabled={isCommitting}
+                                  className="btn-success text-xs px-2 py-1 flex items-center gap-1"
+                                >
+                                  <Check className="w-3.5 h-3.5" />
+                                  אשר
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {(data?.unfilled.length || 0) > 0 && (
+                <div className="bg-warning-50 border border-warning-100 rounded-xl p-3">
+                  <p className="text-sm font-semibold text-warning-700 flex items-center gap-1.5 mb-1.5">
+                    <AlertTriangle className="w-4 h-4" />
+                    משמרות ללא מועמד מתאים
+                  </p>
+                  <ul className="text-xs text-gray-600 space-y-0.5">
+                    {data?.unfilled.map((u) => (
+                      <li key={u.shift_id}>
+                        {format(new Date(u.date + 'T00:00:00'), 'EEE d/M', { locale: he })} {u.start_time}-{u.end_time} ·{' '}
+                        {u.company_name}{u.site_name ? ` - ${u.site_name}` : ''} · חסרים {u.missing}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={() => commit(openRows.filter((p) => selected.has(rowKey(p))))}
+              disabled={isCommitting || openRows.every((p) => !selected.has(rowKey(p)))}
+              className="btn-primary flex-1 flex items-center justify-center gap-2"
+            >
+              {isCommitting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Check className="w-4 h-4" />
+              )}
+              אשר נבחרים ({openRows.filter((p) => selected.has(rowKey(p))).length})
+            </button>
+            <button type="button" onClick={onClose} className="btn-ghost">סגור</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
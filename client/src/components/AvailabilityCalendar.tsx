@@ -0,0 +1,386 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, addMonths, getDay, isBefore, startOfDay } from 'date-fns';
+import { he } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+import { CalendarDays, ChevronRight, ChevronLeft, Lock, Trash2, Send, Plus, Loader2 } from 'lucide-react';
+import { employeesApi } from '../services/api';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface AvailabilityDay {
+  day_of_week: number;
+  is_available: boolean | number;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+interface AvailabilityBlock {
+  id: string;
+  date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  reason?: string | null;
+  status: 'approved' | 'pending' | 'pending_removal';
+}
+
+interface MyAvailability {
+  month: string;
+  lock: { lock_day: number; lock_date: string; locked: boolean };
+  pattern: AvailabilityDay[];
+  pending_pattern: AvailabilityDay[] | null;
+  blocks: AvailabilityBlock[];
+  preferred_shift_types: string[];
+}
+
+export const DAY_NAMES = ['ראשון', 'שני', 'שלישי', 'רביעי', 'חמישי', 'שישי', 'שבת'];
+
+const shiftTypeLabels: Record<string, string> = {
+  morning: 'בוקר',
+  evening: 'ערב',
+  night: 'לילה',
+};
+
+const blockStatusClasses: Record<AvailabilityBlock['status'], string> = {
+  approved: 'bg-red-100 text-red-700',
+  pending: 'bg-amber-100 text-amber-700',
+  pending_removal: 'bg-red-50 text-red-400 line-through',
+};
+
+/** Fill all seven days so every row of the editor exists */
+function toWeekPattern(days: AvailabilityDay[]): AvailabilityDay[] {
+  return DAY_NAMES.map((_, day) => {
+    const found = days.find((d) => d.day_of_week === day);
+    return {
+      day_of_week: day,
+      is_available: found ? !!found.is_available : true,
+      start_time: found?.start_time || '',
+      end_time: found?.end_time || '',
+    };
+  });
+}
+
+export function formatAvailabilityDay(d: AvailabilityDay) {
+  if (!d.is_available) return 'לא זמין';
+  return d.start_time && d.end_time ? `${d.start_time}-${d.end_time}` : 'כל היום';
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function AvailabilityCalendar() {
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [blockForm, setBlockForm] = useState({ fullDay: true, start_time: '', end_time: '', reason: '' });
+  const [pattern, setPattern] = useState<AvailabilityDay[]>(() => toWeekPattern([]));
+  const monthStr = format(month, 'yyyy-MM');
+
+  const { data, isLoading } = useQuery<MyAvailability>({
+    queryKey: ['my-availability', monthStr],
+    queryFn: () => employeesApi.getMyAvailability(monthStr).then((res) => res.data),
+  });
+
+  // The editor starts from the pending request if there is one, else the approved pattern
+  useEffect(() => {
+    if (!data) return;
+    setPattern(toWeekPattern(data.pending_pattern ?? data.pattern));
+  }, [data]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['my-availability'] });
+
+  const addBlockMutation = useMutation({
+    mutationFn: (date: string) =>
+      employeesApi.addMyAvailabilityBlock({
+        date,
+        start_time: blockForm.fullDay ? undefined : blockForm.start_time,
+        end_time: blockForm.fullDay ? undefined : blockForm.end_time,
+        reason: blockForm.reason || undefined,
+      }),
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data?.message || 'התאריך נחסם');
+      setBlockForm({ fullDay: true, start_time: '', end_time: '', reason: '' });
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בחסימת תאריך');
+    },
+  });
+
+  const removeBlockMutation = useMutation({
+    mutationFn: (blockId: string) => employeesApi.removeMyAvailabilityBlock(blockId),
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data?.message || 'החסימה הוסרה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בהסרת חסימה');
+    },
+  });
+
+  const patternMutation = useMutation({
+    mutationFn: () =>
+      employeesApi.submitMyAvailabilityPattern(
+        pattern.map((d) => ({
+          day_of_week: d.day_of_week,
+          is_available: !!d.is_available,
+          start_time: d.is_available && d.start_time && d.end_time ? d.start_time : undefined,
+          end_time: d.is_available && d.start_time && d.end_time ? d.end_time : undefined,
+        }))
+      ),
+    onSuccess: () => {
+      invalidate();
+      toast.success('הזמינות השבועית נשלחה לאישור מנהל');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשליחת הזמינות');
+    },
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: (types: string[]) => employeesApi.setMyShiftPreferences(types),
+    onSuccess: () => invalidate(),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשמירת העדפות');
+    },
+  });
+
+  const togglePreference = (type: string) => {
+    const current = data?.preferred_shift_types || [];
+    preferencesMutation.mutate(
+      current.includes(type) ? current.filter((t) => t !== type) : [...current, type]
+    );
+  };
+
+  const updateDay = (day: number, changes: Partial<AvailabilityDay>) => {
+    setPattern((prev) => prev.map((d) => (d.day_of_week === day ? { ...d, ...changes } : d)));
+  };
+
+  const approvedPattern = toWeekPattern(data?.pattern || []);
+  const days = eachDayOfInterval({ start: month, end: endOfMonth(month) });
+  const today = startOfDay(new Date());
+  const blocksByDate: Record<string, AvailabilityBlock[]> = {};
+  for (const b of data?.blocks || []) {
+    (blocksByDate[b.date] ||= []).push(b);
+  }
+  const selectedBlocks = selectedDate ? blocksByDate[selectedDate] || [] : [];
+
+  return (
+    <div className="card">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-gradient-to-br from-primary-100 to-primary-50 rounded-xl flex items-center justify-center">
+          <CalendarDays className="w-5 h-5 text-primary-600" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900 font-heading">הזמינות שלי</h3>
+          <p className="text-sm text-gray-500">זמינות שבועית קבועה, חסימת תאריכים והעדפות משמרת</p>
+        </div>
+      </div>
+
+      {/* Month navigation */}
+      <div className="flex items-center justify-between mb-3">
+        <button onClick={() => { setMonth(addMonths(month, -1)); setSelectedDate(null); }} className="btn-icon">
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <span className="font-semibold text-gray-900">{format(month, 'MMMM yyyy', { locale: he })}</span>
+        <button onClick={() => { setMonth(addMonths(month, 1)); setSelectedDate(null); }} className="btn-icon">
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+      </div>
+
+      {data?.lock && (
+        <div
+          className={`text-xs rounded-lg px-3 py-2 mb-3 flex items-center gap-1.5 ${
+            data.lock.locked ? 'bg-amber-50 text-amber-700' : 'bg-gray-50 text-gray-500'
+          }`}
+        >
+          <Lock className="w-3.5 h-3.5" />
+          {data.lock.locked
+            ? 'החודש נעול - חסימות חדשות וביטולים דורשים אישור מנהל'
+            : `ניתן לעדכן חופשי עד ${format(new Date(data.lock.lock_date + 'T00:00:00'), 'd/M')}, לאחר מכן נדרש אישור מנהל`}
+        </div>
+      )}
+
+      {/* Month grid */}
+      {isLoading ? (
+        <Loader2 className="w-6 h-6 animate-spin text-primary-500 mx-auto my-8" />
+      ) : (
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {DAY_NAMES.map((name) => (
+            <div key={name} className="text-[11px] text-gray-400 font-medium py-1">{name.slice(0, 3)}</div>
+          ))}
+          {Array.from({ length: getDay(month) }).map((_, i) => <div key={`pad-${i}`} />)}
+          {days.map((day) => {
+            const dateStr = format(day, 'yyyy-MM-dd');
+            const isPast = isBefore(day, today);
+            const weekly = approvedPattern[getDay(day)];
+            const dayBlocks = blocksByDate[dateStr] || [];
+            return (
+              <button
+                key={dateStr}
+                onClick={() => setSelectedDate(dateStr)}
+                disabled={isPast}
+                className={`min-h-[52px] rounded-lg border p-1 text-right transition-colors disabled:opacity-40 ${
+                  selectedDate === dateStr ? 'border-primary-400 ring-1 ring-primary-200' : 'border-gray-100 hover:bg-gray-50'
+                } ${!weekly.is_available ? 'bg-gray-100' : ''}`}
+              >
+                <span className="text-xs font-medium text-gray-700">{format(day, 'd')}</span>
+                {dayBlocks.map((b) => (
+                  <span key={b.id} className={`block text-[9px] rounded px-0.5 mt-0.5 truncate ${blockStatusClasses[b.status]}`}>
+                    {b.start_time ? `${b.start_time}-${b.end_time}` : 'חסום'}
+                  </span>
+                ))}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Selected date */}
+      {selectedDate && (
+        <div className="mt-4 bg-gray-50 rounded-xl p-4 space-y-3">
+          <p className="font-medium text-gray-900">
+            {format(new Date(selectedDate + 'T00:00:00'), 'EEEE, d MMMM', { locale: he })}
+          </p>
+          {selectedBlocks.map((b) => (
+            <div key={b.id} className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                {b.start_time ? `${b.start_time}-${b.end_time}` : 'כל היום'}
+                {b.reason && <span className="text-gray-500"> · {b.reason}</span>}
+                {b.status === 'pending' && <span className="badge-warning mr-2">ממתין לאישור</span>}
+                {b.status === 'pending_removal' && <span className="badge-warning mr-2">ביטול ממתין לאישור</span>}
+              </span>
+              {b.status !== 'pending_removal' && (
+                <button
+                  onClick={() => removeBlockMutation.mutate(b.id)}
+                  disabled={removeBlockMutation.isPending}
+                  className="btn-icon text-red-500"
+                  title="הסר חסימה"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="flex items-center gap-1.5 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={blockForm.fullDay}
+                onChange={(e) => setBlockForm({ ...blockForm, fullDay: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-300"
+              />
+              כל היום
+            </label>
+            {!blockForm.fullDay && (
+              <>
+                <input
+                  type="time"
+                  value={blockForm.start_time}
+                  onChange={(e) => setBlockForm({ ...blockForm, start_time: e.target.value })}
+                  className="input w-28"
+                />
+                <input
+                  type="time"
+                  value={blockForm.end_time}
+                  onChange={(e) => setBlockForm({ ...blockForm, end_time: e.target.value })}
+                  className="input w-28"
+                />
+              </>
+            )}
+            <input
+              value={blockForm.reason}
+              onChange={(e) => setBlockForm({ ...blockForm, reason: e.target.value })}
+              placeholder="סיבה (לא חובה)"
+              className="input flex-1 min-w-[8rem]"
+            />
+            <button
+              onClick={() => addBlockMutation.mutate(selectedDate)}
+              disabled={addBlockMutation.isPending || (!blockForm.fullDay && (!blockForm.start_time || !blockForm.end_time))}
+              className="btn-secondary flex items-center gap-1.5"
+            >
+              <Plus className="w-4 h-4" />
+              חסום
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Weekly pattern */}
+      <div className="mt-6">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-semibold text-gray-700">זמינות שבועית קבועה</h4>
+          {data?.pending_pattern && <span className="badge-warning">ממתין לאישור מנהל</span>}
+        </div>
+        <div className="space-y-1.5">
+          {pattern.map((d) => (
+            <div key={d.day_of_week} className="flex items-center gap-2 text-sm">
+              <label className="flex items-center gap-1.5 w-24">
+                <input
+                  type="checkbox"
+                  checked={!!d.is_available}
+                  onChange={(e) => updateDay(d.day_of_week, { is_available: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-300"
+                />
+                {DAY_NAMES[d.day_of_week]}
+              </label>
+              {d.is_available ? (
+                <>
+                  <input
+                    type="time"
+                    value={d.start_time || ''}
+                    onChange={(e) => updateDay(d.day_of_week, { start_time: e.target.value })}
+                    className="input w-28 py-1"
+                  />
+                  <span className="text-gray-400">-</span>
+                  <input
+                    type="time"
+                    value={d.end_time || ''}
+                    onChange={(e) => updateDay(d.day_of_week, { end_time: e.target.value })}
+                    className="input w-28 py-1"
+                  />
+                  {!d.start_time && !d.end_time && <span className="text-xs text-gray-400">כל היום</span>}
+                </>
+              ) : (
+                <span className="text-xs text-gray-400">לא זמין</span>
+              )}
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => patternMutation.mutate()}
+          disabled={patternMutation.isPending}
+          className="btn-primary mt-3 flex items-center gap-2"
+        >
+          {patternMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          שלח לאישור
+        </button>
+      </div>
+
+      {/* Preferred shift types */}
+      <div className="mt-6">
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">סוגי משמרות מועדפים</h4>
+        <div className="flex gap-2">
+          {Object.entries(shiftTypeLabels).map(([type, label]) => {
+            const active = data?.preferred_shift_types.includes(type);
+            return (
+              <button
+                key={type}
+                onClick={() => togglePreference(type)}
+                disabled={preferencesMutation.isPending || !data}
+                className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                  active
+                    ? 'bg-primary-50 border-primary-300 text-primary-700'
+                    : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+import { X, CalendarDays, Check, Ban } from 'lucide-react';
+import { employeesApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import { DAY_NAMES, formatAvailabilityDay, type AvailabilityDay } from './AvailabilityCalendar';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface PatternRequest {
+  id: string;
+  employee_id: string;
+  employee_name: string;
+  pattern: AvailabilityDay[];
+  created_at: string;
+}
+
+interface BlockRequest {
+  id: string;
+  employee_id: string;
+  employee_name: string;
+  date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  reason?: string | null;
+  status: 'pending' | 'pending_removal';
+}
+
+interface AvailabilityRequests {
+  patterns: PatternRequest[];
+  blocks: BlockRequest[];
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function AvailabilityRequestsInbox({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<AvailabilityRequests>({
+    queryKey: ['availability-requests'],
+    queryFn: () => employeesApi.getAvailabilityRequests().then((res) => res.data),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, type, approve }: { id: string; type: 'pattern' | 'block'; approve: boolean }) =>
+      employeesApi.resolveAvailabilityRequest(id, type, approve),
+    onSuccess: (_res, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: ['availability-requests'] });
+      toast.success(approve ? 'הבקשה אושרה' : 'הבקשה נדחתה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בטיפול בבקשה');
+    },
+  });
+
+  const patterns = data?.patterns || [];
+  const blocks = data?.blocks || [];
+
+  const actions = (id: string, type: 'pattern' | 'block') => (
+    <div className="flex gap-1.5 flex-shrink-0">
+      <button
+        onClick={() => resolveMutation.mutate({ id, type, approve: true })}
+        disabled={resolveMutation.isPending}
+        className="btn-success text-xs px-2 py-1 flex items-center gap-1"
+      >
+        <Check className="w-3.5 h-3.5" />
+        אשר
+      </button>
+      <button
+        onClick={() => resolveMutation.mutate({ id, type, approve: false })}
+        disabled={resolveMutation.isPending}
+        className="btn-danger text-xs px-2 py-1 flex items-center gap-1"
+      >
+        <Ban className="w-3.5 h-3.5" />
+        דחה
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-2xl">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <CalendarDays className="w-4 h-4 text-primary-600" />
+            </div>
+            בקשות זמינות
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => <SkeletonPulse key={i} className="h-20 w-full rounded-xl" />)
+          ) : patterns.length === 0 && blocks.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">אין בקשות זמינות ממתינות</p>
+          ) : (
+            <>
+              {blocks.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">חסימות בחודש נעול</h3>
+                  <ul className="space-y-2">
+                    {blocks.map((b) => (
+                      <li key={b.id} className="border border-gray-100 rounded-xl p-3 flex items-center justify-between gap-3">
+                        <div className="text-sm">
+                          <p className="font-medium text-gray-900">
+                            {b.employee_name}
+                            <span className={`mr-2 ${b.status === 'pending_removal' ? 'badge-info' : 'badge-warning'}`}>
+                              {b.status === 'pending_removal' ? 'ביטול חסימה' : 'חסימה חדשה'}
+                            </span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {format(new Date(b.date + 'T00:00:00'), 'EEEE d/M', { locale: he })} ·{' '}
+                            {b.start_time ? `${b.start_time}-${b.end_time}` : 'כל היום'}
+                            {b.reason ? ` · ${b.reason}` : ''}
+                          </p>
+                        </div>
+                        {actions(b.id, 'block')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {patterns.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">שינויי זמינות שבועית</h3>
+                  <ul className="space-y-2">
+                    {patterns.map((p) => (
+                      <li key={p.id} className="border border-gray-100 rounded-xl p-3">
+                        <div className="flex items-center justify-between gap-3 mb-2">
+                          <p className="font-medium text-gray-900 text-sm">{p.employee_name}</p>
+                          {actions(p.id, 'pattern')}
+                        </div>
+                        <div className="grid grid-cols-7 gap-1 text-center">
+                          {DAY_NAMES.map((name, day) => {
+                            const d = p.pattern.find((x) => x.day_of_week === day);
+                            return (
+                              <div
+                                key={name}
+                                className={`rounded-lg p-1 text-[10px] ${d && !d.is_available ? 'bg-gray-100 text-gray-400' : 'bg-success-50 text-success-700'}`}
+                              >
+                                <p className="font-medium">{name.slice(0, 3)}</p>
+                                <p>{d ? formatAvailabilityDay(d) : 'כל היום'}</p>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
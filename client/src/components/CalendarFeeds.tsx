@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { CalendarPlus, CalendarClock, Copy, RotateCcw, Ban, Loader2 } from 'lucide-react';
+import { calendarApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import { parsePunchTime } from './PunchCorrectionModal';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface CalendarFeed {
+  id: string;
+  token: string;
+  path: string;
+  created_at: string;
+  last_accessed_at?: string | null;
+}
+
+interface SiteFeed {
+  site_id: string;
+  site_name: string;
+  company_name?: string | null;
+  token?: string | null;
+  path: string | null;
+  created_at?: string | null;
+  last_accessed_at?: string | null;
+  created_by_name?: string | null;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const feedUrl = (path: string) => `${window.location.origin}${path}`;
+const webcalUrl = (path: string) => feedUrl(path).replace(/^https?:/, 'webcal:');
+
+/** Server timestamps are UTC, in SQLite or PostgreSQL form; an unreadable one counts as never synced */
+function lastSynced(value?: string | null): string {
+  const date = parsePunchTime(value);
+  if (!date) return 'טרם סונכרן';
+  return `סונכרן ${formatDistanceToNow(date, { addSuffix: true, locale: he })}`;
+}
+
+async function copyFeedUrl(path: string) {
+  try {
+    await navigator.clipboard.writeText(feedUrl(path));
+    toast.success('הקישור הועתק');
+  } catch {
+    toast.error('לא ניתן להעתיק - סמן את הקישור והעתק ידנית');
+  }
+}
+
+function FeedLink({ path, lastAccessed }: { path: string; lastAccessed?: string | null }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          readOnly
+          dir="ltr"
+          value={feedUrl(path)}
+          onFocus={(e) => e.target.select()}
+          className="input text-xs font-mono flex-1"
+        />
+        <button onClick={() => copyFeedUrl(path)} className="btn-icon" title="העתק קישור">
+          <Copy className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex items-center justify-between text-xs">
+        <a href={webcalUrl(path)} className="text-primary-600 hover:underline flex items-center gap-1">
+          <CalendarPlus className="w-3.5 h-3.5" />
+          הוסף ליומן בטלפון
+        </a>
+        <span className="text-gray-400">{lastSynced(lastAccessed)}</span>
+      </div>
+    </div>
+  );
+}
+
+// ── Personal feed (Profile) ─────────────────────────────────────────────────
+
+export default function MyCalendarFeed() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<{ feed: CalendarFeed | null }>({
+    queryKey: ['calendar-feed'],
+    queryFn: () => calendarApi.getMyFeed().then((res) => res.data),
+  });
+
+  const onChanged = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+    toast.success(message);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => calendarApi.createMyFeed(),
+    onSuccess: (res) => onChanged(res.data.message || 'נוצר קישור יומן'),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה ביצירת קישור יומן');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => calendarApi.revokeMyFeed(),
+    onSuccess: (res) => onChanged(res.data.message || 'קישור היומן בוטל'),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בביטול קישור היומן');
+    },
+  });
+
+  const feed = data?.feed;
+  const isBusy = createMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <div className="card">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-gradient-to-br from-primary-100 to-primary-50 rounded-xl flex items-center justify-center">
+          <CalendarClock className="w-5 h-5 text-primary-600" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900 font-heading">המשמרות ביומן הטלפון</h3>
+          <p className="text-sm text-gray-500">קישור אישי שמסנכרן משמרות ואירועים לכל אפליקציית יומן</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <SkeletonPulse className="h-16 w-full rounded-lg" />
+      ) : feed ? (
+        <div className="space-y-4">
+          <FeedLink path={feed.path} lastAccessed={feed.last_accessed_at} />
+          <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+            הקישור אישי - כל מי שמחזיק בו רואה את המשמרות שלך. אם שיתפת אותו בטעות, צור קישור חדש.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                if (confirm('ליצור קישור חדש? הקישור הנוכחי יפסיק לעבוד ויש להוסיף את היומן מחדש.')) {
+                  createMutation.mutate();
+                }
+              }}
+              disabled={isBusy}
+              className="btn-secondary text-sm flex items-center gap-1.5"
+            >
+              {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              צור קישור חדש
+            </button>
+            <button
+              onClick={() => {
+                if (confirm('לבטל את קישור היומן? המשמרות יפסיקו להתעדכן ביומן.')) revokeMutation.mutate();
+              }}
+              disabled={isBusy}
+              className="btn-danger text-sm flex items-center gap-1.5"
+            >
+              <Ban className="w-4 h-4" />
+              בטל קישור
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={isBusy}
+          className="btn-primary text-sm flex items-center gap-2"
+        >
+          {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CalendarPlus className="w-4 h-4" />}
+          צור קישור ליומן
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ── Site feed (Customer sites) ──────────────────────────────────────────────
+
+export function SiteCalendarFeed({ siteId }: { siteId: string }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data } = useQuery<{ sites: SiteFeed[] }>({
+    queryKey: ['site-calendar-feeds'],
+    queryFn: () => calendarApi.getSiteFeeds().then((res) => res.data),
+    enabled: open,
+  });
+
+  const onChanged = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['site-calendar-feeds'] });
+    toast.success(message);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => calendarApi.createSiteFeed(siteId),
+    onSuccess: (res) => onChanged(res.data.message || 'נוצר קישור יומן לאתר'),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה ביצירת יומן לאתר');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => calendarApi.revokeSiteFeed(siteId),
+    onSuccess: (res) => onChanged(res.data.message || 'קישור היומן של האתר בוטל'),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בביטול יומן האתר');
+    },
+  });
+
+  const feed = data?.sites.find((s) => s.site_id === siteId);
+  const isBusy = createMutation.isPending || revokeMutation.isPending;
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="mt-2 text-xs text-primary-600 hover:underline flex items-center gap-1">
+        <CalendarClock className="w-3.5 h-3.5" />
+        יומן משמרות האתר
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-700">יומן משמרות האתר (ICS)</p>
+        <button onClick={() => setOpen(false)} className="text-xs text-gray-400 hover:text-gray-600">
+          סגור
+        </button>
+      </div>
+      {!data ? (
+        <SkeletonPulse className="h-10 w-full rounded-lg" />
+      ) : feed?.path ? (
+        <>
+          <FeedLink path={feed.path} lastAccessed={feed.last_accessed_at} />
+          {feed.created_by_name && <p className="text-xs text-gray-400">נוצר ע"י {feed.created_by_name}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                if (confirm('ליצור קישור חדש לאתר? הקישור הנוכחי יפסיק לעבוד.')) createMutation.mutate();
+              }}
+              disabled={isBusy}
+              className="btn-secondary text-xs flex items-center gap-1"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              קישור חדש
+            </button>
+            <button
+              onClick={() => revokeMutation.mutate()}
+              disabled={isBusy}
+              className="btn-danger text-xs flex items-center gap-1"
+            >
+              <Ban className="w-3.5 h-3.5" />
+              בטל
+            </button>
+          </div>
+        </>
+      ) : (
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={isBusy}
+          className="btn-primary text-xs flex items-center gap-1.5"
+        >
+          {createMutation.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CalendarPlus className="w-3.5 h-3.5" />}
+          צור קישור ליומן האתר
+        </button>
+      )}
+    </div>
+  );
+}
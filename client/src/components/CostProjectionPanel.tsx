@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, addDays } from 'date-fns';
+import { X, Coins, TrendingDown, AlertTriangle } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+type CostFlag = 'overtime' | 'high_rate' | 'missing_rate' | 'unfilled' | 'negative_margin';
+
+interface CostFigures {
+  labor_cost: number;
+  unfilled_cost: number;
+  total_cost: number;
+  revenue: number;
+  margin: number;
+  margin_pct: number | null;
+}
+
+interface ShiftCost extends CostFigures {
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string | null;
+  company_name?: string | null;
+  hours: number;
+  required: number;
+  assigned: number;
+  overtime_hours: number;
+  premium_hours: number;
+  flags: CostFlag[];
+}
+
+interface SiteCost extends CostFigures {
+  site_id: string | null;
+  site_name?: string | null;
+  company_name?: string | null;
+  hours: number;
+  shift_count: number;
+  flagged: number;
+}
+
+interface CostProjection {
+  shifts: ShiftCost[];
+  sites: SiteCost[];
+  totals: CostFigures & { hours: number; shift_count: number; flagged: number };
+  multipliers: Record<string, number>;
+}
+
+const flagMeta: Record<CostFlag, { label: string; className: string }> = {
+  overtime: { label: 'שעות נוספות', className: 'bg-amber-100 text-amber-700' },
+  high_rate: { label: 'תעריף גבוה', className: 'bg-orange-100 text-orange-700' },
+  missing_rate: { label: 'חסר תעריף', className: 'bg-gray-100 text-gray-600' },
+  unfilled: { label: 'לא מאויש', className: 'bg-blue-100 text-blue-700' },
+  negative_margin: { label: 'הפסד', className: 'bg-red-100 text-red-700' },
+};
+
+const money = (n: number) => `₪${Math.round(n || 0).toLocaleString()}`;
+
+function MarginBadge({ pct }: { pct: number | null }) {
+  if (pct === null) return <span className="text-gray-400">-</span>;
+  return (
+    <span className={`badge ${pct >= 30 ? 'badge-success' : pct >= 10 ? 'badge-warning' : 'badge-danger'}`}>
+      {pct}%
+    </span>
+  );
+}
+
+// ── Panel ───────────────────────────────────────────────────────────────────
+
+/** Projected labor cost vs contract revenue of the displayed week */
+export default function CostProjectionPanel({ weekStart, onClose }: { weekStart: Date; onClose: () => void }) {
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+  const startDate = format(weekStart, 'yyyy-MM-dd');
+  const endDate = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+
+  // Under the 'shifts' key so every roster change refreshes the projection
+  const { data, isLoading } = useQuery<CostProjection>({
+    queryKey: ['shifts', 'cost-projection', startDate],
+    queryFn: () => shiftsApi.getCostProjection({ start_date: startDate, end_date: endDate }).then((res) => res.data),
+  });
+
+  const shifts = [...(data?.shifts || [])]
+    .filter((s) => !flaggedOnly || s.flags.length > 0)
+    .sort((a, b) => a.margin - b.margin);
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="section-header mb-0">
+          <div className="section-header-icon">
+            <Coins className="w-4 h-4" />
+          </div>
+          <h2 className="section-header-title">עלות מול הכנסה לשבוע</h2>
+        </div>
+        <button onClick={onClose} className="btn-icon">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {Array.from({ length: 4 }).map((_, i) => <SkeletonPulse key={i} className="h-16 w-full" />)}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="p-3 bg-green-50 rounded-xl">
+              <p className="text-xs text-gray-500">הכנסה לפי חוזים</p>
+              <p className="text-xl font-bold font-heading text-green-700">{money(data.totals.revenue)}</p>
+            </div>
+            <div className="p-3 bg-red-50 rounded-xl">
+              <p className="text-xs text-gray-500">עלות שכר</p>
+              <p className="text-xl font-bold font-heading text-red-700">{money(data.totals.labor_cost)}</p>
+              {data.totals.unfilled_cost > 0 && (
+                <p className="text-xs text-gray-500">+ {money(data.totals.unfilled_cost)} לא מאויש</p>
+              )}
+            </div>
+            <div className={`p-3 rounded-xl ${data.totals.margin >= 0 ? 'bg-blue-50' : 'bg-red-50'}`}>
+              <p className="text-xs text-gray-500">רווח צפוי</p>
+              <p className={`text-xl font-bold font-heading ${data.totals.margin >= 0 ? 'text-blue-700' : 'text-red-700'}`}>
+                {money(data.totals.margin)}
+              </p>
+              <MarginBadge pct={data.totals.margin_pct} />
+            </div>
+            <div className="p-3 bg-amber-50 rounded-xl">
+              <p className="text-xs text-gray-500">משמרות מסומנות</p>
+              <p className="text-xl font-bold font-heading text-amber-700">
+                {data.totals.flagged}/{data.totals.shift_count}
+              </p>
+              <p className="text-xs text-gray-500">{data.totals.hours.toLocaleString()} שעות מאבטח</p>
+            </div>
+          </div>
+
+          {/* Per site */}
+          {data.sites.length > 0 && (
+            <div className="table-container">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>אתר</th>
+                    <th>משמרות</th>
+                    <th>הכנסה</th>
+                    <th>עלות</th>
+                    <th>רווח</th>
+                    <th>מרווח</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {data.sites.map((site) => (
+                    <tr key={site.site_id || 'none'}>
+                      <td className="font-medium">
+                        {site.site_name || 'ללא אתר'}
+                        {site.company_name && <span className="text-xs text-gray-400 block">{site.company_name}</span>}
+                      </td>
+                      <td>{site.shift_count}</td>
+                      <td className="text-green-600">{money(site.revenue)}</td>
+                      <td className="text-red-600">{money(site.total_cost)}</td>
+                      <td className={site.margin >= 0 ? 'text-green-700 font-bold' : 'text-red-700 font-bold'}>{money(site.margin)}</td>
+                      <td><MarginBadge pct={site.margin_pct} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Per shift, worst margin first */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-1.5">
+                <TrendingDown className="w-4 h-4 text-gray-400" />
+                משמרות לפי רווחיות
+              </h3>
+              <label className="flex items-center gap-2 text-xs text-gray-500 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={flaggedOnly}
+                  onChange={(e) => setFlaggedOnly(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300"
+                />
+                מסומנות בלבד
+              </label>
+            </div>
+            {shifts.length === 0 ? (
+              <p className="text-gray-400 text-center text-sm py-4">
+                {flaggedOnly ? 'אין משמרות חריגות השבוע' : 'אין משמרות השבוע'}
+              </p>
+            ) : (
+              <div className="space-y-1.5 max-h-80 overflow-y-auto">
+                {shifts.map((s) => (
+                  <div key={s.shift_id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-50 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {s.site_name || s.company_name || 'ללא אתר'}
+                        <span className="text-xs text-gray-500 font-normal mr-2">
+                          {format(new Date(s.date + 'T00:00:00'), 'dd/MM')} {s.start_time}-{s.end_time} · {s.assigned}/{s.required}
+                        </span>
+                      </p>
+                      {s.flags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-0.5">
+                          {s.flags.map((flag) => (
+                            <span key={flag} className={`text-[11px] px-1.5 py-0.5 rounded ${flagMeta[flag].className}`}>
+                              {flagMeta[flag].label}
+                              {flag === 'overtime' && ` ${s.overtime_hours}ש'`}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="text-left text-xs flex-shrink-0">
+                      <p className="text-gray-500">{money(s.revenue)} / {money(s.total_cost)}</p>
+                      <p className={`font-bold ${s.margin >= 0 ? 'text-green-700' : 'text-red-700'}`}>{money(s.margin)}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {data.totals.revenue === 0 && data.totals.shift_count > 0 && (
+            <p className="text-xs text-amber-600 flex items-center gap-1">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              לא נמצאו חוזים פעילים עם ערך חודשי או תעריף שעתי ללקוחות השבוע
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
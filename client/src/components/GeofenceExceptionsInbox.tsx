@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { X, MapPinOff, Check, Ban, Loader2, ExternalLink, FileText } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import { formatShiftSlot } from './ShiftSwapPanel';
+import { formatPunchTime } from './PunchCorrectionModal';
+import { exportTableToPDF } from '../utils/pdfExport';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface GeofenceException {
+  id: string;
+  assignment_id: string;
+  employee_id: string;
+  employee_name: string;
+  site_name?: string | null;
+  company_name?: string | null;
+  punch_type: 'check_in' | 'check_out';
+  reason: 'outside_zone' | 'no_location';
+  latitude?: number | null;
+  longitude?: number | null;
+  distance_meters?: number | null;
+  allowed_meters?: number | null;
+  status: 'pending' | 'approved' | 'rejected';
+  date: string;
+  start_time: string;
+  end_time: string;
+  punch_time?: string | null;
+}
+
+interface EmployeeZoneStats {
+  employee_id: string;
+  employee_name: string;
+  punches: number;
+  out_of_zone: number;
+  no_location: number;
+  pending: number;
+  approved: number;
+  rejected: number;
+  max_distance_meters: number | null;
+  exception_rate: number | null;
+}
+
+const punchLabels: Record<GeofenceException['punch_type'], string> = {
+  check_in: 'כניסה',
+  check_out: 'יציאה',
+};
+
+function describeLocation(ex: GeofenceException): string {
+  if (ex.reason === 'no_location') return 'ללא מיקום';
+  if (ex.distance_meters === null || ex.distance_meters === undefined) return 'מחוץ לגדר';
+  return ex.allowed_meters ? `${ex.distance_meters} מ' (מותר ${ex.allowed_meters})` : `${ex.distance_meters} מ' מהאתר`;
+}
+
+// ── Pending approvals ───────────────────────────────────────────────────────
+
+function PendingExceptions() {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [note, setNote] = useState('');
+
+  const { data, isLoading } = useQuery<{ exceptions: GeofenceException[] }>({
+    queryKey: ['geofence-exceptions', 'pending'],
+    queryFn: () => shiftsApi.getGeofenceExceptions({ status: 'pending' }).then((res) => res.data),
+  });
+  const exceptions = data?.exceptions || [];
+
+  const resolveMutation = useMutation({
+    mutationFn: (approve: boolean) => shiftsApi.resolveGeofenceExceptions([...selected], approve, note.trim() || undefined),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['geofence-exceptions'] });
+      setSelected(new Set());
+      setNote('');
+      toast.success(res.data.message || 'הדיווחים עודכנו');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בטיפול בחריגות');
+    },
+  });
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return <div className="space-y-2">{Array.from({ length: 3 }).map((_, i) => <SkeletonPulse key={i} className="h-16 w-full rounded-xl" />)}</div>;
+  }
+  if (exceptions.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-6">אין דיווחים ממתינים לאישור</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-gray-500 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={selected.size === exceptions.length}
+          onChange={() => setSelected(selected.size === exceptions.length ? new Set() : new Set(exceptions.map((e) => e.id)))}
+          className="w-4 h-4 rounded border-gray-300"
+        />
+        בחר הכל
+      </label>
+
+      {exceptions.map((ex) => (
+        <label
+          key={ex.id}
+          className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer ${selected.has(ex.id) ? 'border-primary-300 bg-primary-50' : 'border-gray-100 hover:bg-gray-50'}`}
+        >
+          <input
+            type="checkbox"
+            checked={selected.has(ex.id)}
+            onChange={() => toggle(ex.id)}
+            className="w-4 h-4 rounded border-gray-300 mt-1"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-medium text-sm text-gray-900">{ex.employee_name}</span>
+              <span className={ex.punch_type === 'check_in' ? 'badge-info' : 'badge-gray'}>{punchLabels[ex.punch_type]}</span>
+              <span className={ex.reason === 'no_location' ? 'badge-gray' : 'badge-warning'}>{describeLocation(ex)}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {ex.site_name || ex.company_name || 'ללא אתר'} · {formatShiftSlot(ex.date, ex.start_time, ex.end_time)}
+              {ex.punch_time && ` · דווח ${formatPunchTime(ex.punch_time)}`}
+            </p>
+          </div>
+          {ex.latitude != null && ex.longitude != null && (
+            <a
+              href={`https://www.google.com/maps?q=${ex.latitude},${ex.longitude}`}
+              target="_blank"
+              rel="noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              className="btn-icon"
+              title="הצג מיקום במפה"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+        </label>
+      ))}
+
+      <div className="border-t border-gray-100 pt-3 space-y-3">
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          className="input text-sm"
+          placeholder="הערה לעובד (אופציונלי)"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => resolveMutation.mutate(true)}
+            disabled={resolveMutation.isPending || selected.size === 0}
+            className="btn-success text-sm flex items-center gap-1.5"
+          >
+            {resolveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            אשר נבחרים ({selected.size})
+          </button>
+          <button
+            onClick={() => resolveMutation.mutate(false)}
+            disabled={resolveMutation.isPending || selected.size === 0}
+            className="btn-danger text-sm flex items-center gap-1.5"
+          >
+            <Ban className="w-4 h-4" />
+            דחה נבחרים
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ── Report per employee ─────────────────────────────────────────────────────
+
+function ZoneReport() {
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data, isLoading } = useQuery<{ employees: EmployeeZoneStats[] }>({
+    queryKey: ['geofence-exceptions', 'report', startDate, endDate],
+    queryFn: () => shiftsApi.getGeofenceReport({ start_date: startDate, end_date: endDate }).then((res) => res.data),
+    enabled: !!startDate && !!endDate,
+  });
+  const employees = (data?.employees || []).filter((e) => e.out_of_zone + e.no_location > 0);
+
+  const handleExport = () => {
+    exportTableToPDF({
+      title: 'דיווחי נוכחות מחוץ לאזור האתר',
+      subtitle: `${startDate} - ${endDate}`,
+      columns: [
+        { header: 'עובד', dataKey: 'employee_name' },
+        { header: 'דיווחים', dataKey: 'punches' },
+        { header: 'מחוץ לאזור', dataKey: 'out_of_zone' },
+        { header: 'ללא מיקום', dataKey: 'no_location' },
+        { header: 'אושרו', dataKey: 'approved' },
+        { header: 'נדחו', dataKey: 'rejected' },
+        { header: 'ממתינים', dataKey: 'pending' },
+        { header: 'מרחק מרבי (מ\')', dataKey: 'max_distance_meters' },
+        { header: '% חריגה', dataKey: 'exception_rate' },
+      ],
+      data: employees as unknown as Record<string, unknown>[],
+      filename: `out-of-zone-${startDate}-${endDate}.pdf`,
+      orientation: 'landscape',
+    }).catch(() => toast.error('שגיאה בהפקת הקובץ'));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-3 flex-wrap">
+        <div>
+          <label className="label">מתאריך</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="input" />
+        </div>
+        <div>
+          <label className="label">עד תאריך</label>
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="input" />
+        </div>
+        <button onClick={handleExport} disabled={employees.length === 0} className="btn-secondary text-sm flex items-center gap-1.5">
+          <FileText className="w-4 h-4" />
+          PDF
+        </button>
+      </div>
+
+      {isLoading ? (
+        <SkeletonPulse className="h-40 w-full rounded-xl" />
+      ) : employees.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-6">אין דיווחים מחוץ לאזור בתקופה זו</p>
+      ) : (
+        <div className="table-container">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>עובד</th>
+                <th>דיווחים</th>
+                <th>מחוץ לאזור</th>
+                <th>ללא מיקום</th>
+                <th>אושרו / נדחו / ממתינים</th>
+                <th>מרחק מרבי</th>
+                <th>% חריגה</th>
+              </tr>
+            </thead>
+            <tbody>
+              {employees.map((e) => (
+                <tr key={e.employee_id}>
+                  <td className="font-medium">{e.employee_name}</td>
+                  <td>{e.punches}</td>
+                  <td>{e.out_of_zone}</td>
+                  <td>{e.no_location}</td>
+                  <td>
+                    <span className="text-green-600">{e.approved}</span> / <span className="text-red-600">{e.rejected}</span> /{' '}
+                    <span className="text-amber-600">{e.pending}</span>
+                  </td>
+                  <td>{e.max_distance_meters !== null ? `${e.max_distance_meters.toLocaleString()} מ'` : '-'}</td>
+                  <td>
+                    {e.exception_rate !== null ? (
+                      <span className={`badge ${e.exception_rate >= 20 ? 'badge-danger' : e.exception_rate >= 5 ? 'badge-warning' : 'badge-gray'}`}>
+                        {e.exception_rate}%
+                      </span>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+/** Manager inbox for check-ins/outs made outside the site geofence */
+export default function GeofenceExceptionsInbox({ onClose }: { onClose: () => void }) {
+  const [tab, setTab] = useState<'pending' | 'report'>('pending');
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-3xl">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <MapPinOff className="w-4 h-4 text-primary-600" />
+            </div>
+            דיווחים מחוץ לאזור האתר
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-6 pt-4">
+          {([
+            ['pending', 'ממתינים לאישור'],
+            ['report', 'דוח לפי עובד'],
+          ] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium ${tab === id ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 max-h-[65vh] overflow-y-auto">
+          {tab === 'pending' ? <PendingExceptions /> : <ZoneReport />}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { MapPin, CheckCircle, AlertTriangle, UploadCloud, Loader2, FileWarning, ChevronDown, ChevronUp, ScanLine, X } from 'lucide-react';
+import { patrolsApi } from '../services/api';
+import { createAction } from '../utils/offlineQueue';
+import QrScanner from './QrScanner';
+import { parsePunchTime } from './PunchCorrectionModal';
+import type { OfflineQueue } from '../hooks/useOfflineQueue';
+import type { MutationError } from '../types';
+
+export interface FieldAssignment {
+  assignment_id: string;
+  shift_id: string;
+  employee_id: string;
+  site_id?: string | null;
+  customer_id?: string | null;
+}
+
+interface Checkpoint {
+  id: string;
+  name: string;
+  description?: string | null;
+  location_notes?: string | null;
+}
+
+interface PatrolLog {
+  id: string;
+  checkpoint_id: string;
+  status: string;
+  checked_at: string;
+}
+
+const INCIDENT_TYPES: Record<string, string> = {
+  suspicious_activity: 'פעילות חשודה',
+  trespassing: 'חדירה',
+  break_in: 'פריצה',
+  theft: 'גניבה',
+  vandalism: 'ונדליזם',
+  alarm: 'אזעקה',
+  fire: 'שריפה',
+  accident: 'תאונה',
+  injury: 'פגיעה',
+  violence: 'אלימות',
+  other: 'אחר',
+};
+
+const SEVERITY_LABELS: Record<string, string> = {
+  low: 'נמוך',
+  medium: 'בינוני',
+  high: 'גבוה',
+  critical: 'קריטי',
+};
+
+export function getLocation(): Promise<{ latitude: number; longitude: number } | null> {
+  if (!navigator.geolocation) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+}
+
+function formatClock(iso: string) {
+  return parsePunchTime(iso)?.toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' }) ?? '';
+}
+
+// ── Patrol checkpoints ──────────────────────────────────────────────────────
+
+// Prefix of the text printed in checkpoint labels (see the patrols route)
+const CHECKPOINT_QR_PREFIX = 'yahalom:checkpoint:';
+
+/**
+ * Checkpoint rounds for the current shift. A visit is logged only by scanning
+ * the checkpoint's label; the server checks it belongs to the shift's site.
+ * Scans made without signal wait on the device.
+ */
+export function PatrolCheckpoints({ assignment, queue }: { assignment: FieldAssignment; queue: OfflineQueue }) {
+  const [scanning, setScanning] = useState(false);
+  const [status, setStatus] = useState<'ok' | 'issue_found'>('ok');
+  const [observation, setObservation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: checkpointData } = useQuery<{ checkpoints: Checkpoint[] }>({
+    queryKey: ['site-checkpoints', assignment.site_id],
+    queryFn: () => patrolsApi.getCheckpoints(assignment.site_id!).then((res) => res.data),
+    enabled: !!assignment.site_id,
+  });
+
+  const { data: logData } = useQuery<{ logs: PatrolLog[] }>({
+    queryKey: ['patrols-shift', assignment.assignment_id],
+    queryFn: () => patrolsApi.getShiftLogs(assignment.assignment_id).then((res) => res.data),
+  });
+
+  const checkpoints = checkpointData?.checkpoints || [];
+  if (checkpoints.length === 0) return null;
+
+  const pendingScans = queue.pending.filter(
+    (a) => a.type === 'patrol_scan' && a.payload.shift_assignment_id === assignment.assignment_id
+  ).length;
+
+  const closeScanner = () => {
+    setScanning(false);
+    setStatus('ok');
+    setObservation('');
+  };
+
+  const handleScan = async (code: string) => {
+    if (!code.startsWith(CHECKPOINT_QR_PREFIX)) {
+      toast.error('הקוד שנסרק אינו תווית נקודת ביקורת');
+      return;
+    }
+    if (status === 'issue_found' && !observation.trim()) {
+      toast.error('יש לתאר את החריגה לפני הסריקה');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const location = await getLocation();
+      const result = await queue.submit(createAction('patrol_scan', {
+        code,
+        shift_assignment_id: assignment.assignment_id,
+        status,
+        observation: status === 'issue_found' ? observation.trim() : null,
+        ...location,
+      }));
+      if (result.queued) {
+        toast.success('הסריקה נשמרה במכשיר ותסונכרן כשהקליטה תחזור');
+      } else {
+        const log = result.data.log as { checkpoint_name?: string } | undefined;
+        toast.success(`${log?.checkpoint_name || 'נקודת הביקורת'} נרשמה`);
+      }
+      closeScanner();
+    } catch (err) {
+      toast.error((err as MutationError)?.response?.data?.error || 'שגיאה ברישום סריקה');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="section-header">
+        <div className="section-header-icon bg-gradient-to-br from-primary-100 to-primary-50">
+          <MapPin className="w-4 h-4 text-primary-600" />
+        </div>
+        <h3 className="section-header-title">נקודות ביקורת</h3>
+        {pendingScans > 0 && (
+          <span className="badge badge-warning flex items-center gap-1">
+            <UploadCloud className="w-3 h-3" />
+            {pendingScans}
+          </span>
+        )}
+        <button
+          onClick={() => (scanning ? closeScanner() : setScanning(true))}
+          className="btn-primary text-xs flex items-center gap-1.5 mr-auto"
+        >
+          {scanning ? <X className="w-3.5 h-3.5" /> : <ScanLine className="w-3.5 h-3.5" />}
+          {scanning ? 'סגור' : 'סרוק נקודה'}
+        </button>
+      </div>
+
+      {scanning && (
+        <div className="space-y-3 mb-4">
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => setStatus('ok')}
+              className={`${status === 'ok' ? 'btn-primary' : 'btn-secondary'} text-sm flex items-center justify-center gap-1.5`}
+            >
+              <CheckCircle className="w-4 h-4" />
+              תקין
+            </button>
+            <button
+              onClick={() => setStatus('issue_found')}
+              className={`${status === 'issue_found' ? 'btn-primary' : 'btn-secondary'} text-sm flex items-center justify-center gap-1.5`}
+            >
+              <AlertTriangle className="w-4 h-4" />
+              חריגה
+            </button>
+          </div>
+          {status === 'issue_found' && (
+            <textarea
+              value={observation}
+              onChange={(e) => setObservation(e.target.value)}
+              className="input text-sm"
+              rows={2}
+              placeholder="מה נמצא?"
+            />
+          )}
+          <div className="relative">
+            <QrScanner onScan={handleScan} paused={isSaving} />
+            {isSaving && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/40 rounded-xl">
+                <Loader2 className="w-10 h-10 animate-spin text-white" />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 text-center">כוונו את המצלמה לתווית ה-QR של נקודת הביקורת</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {checkpoints.map((checkpoint) => {
+          const log = logData?.logs.find((l) => l.checkpoint_id === checkpoint.id);
+          return (
+            <div key={checkpoint.id} className="flex items-center justify-between gap-2 p-3 rounded-xl border border-gray-100">
+              <div className="min-w-0">
+                <p className="font-medium text-sm text-gray-900">{checkpoint.name}</p>
+                {checkpoint.location_notes && <p className="text-xs text-gray-400 truncate">{checkpoint.location_notes}</p>}
+              </div>
+              {log ? (
+                <span className={`text-xs flex items-center gap-1 flex-shrink-0 ${log.status === 'ok' ? 'text-green-700' : 'text-amber-700'}`}>
+                  {log.status === 'ok' ? <CheckCircle className="w-3.5 h-3.5" /> : <AlertTriangle className="w-3.5 h-3.5" />}
+                  {formatClock(log.checked_at)}
+                </span>
+              ) : (
+                <span className="text-xs text-gray-400 flex-shrink-0">טרם נסרקה</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ── Incident report ─────────────────────────────────────────────────────────
+
+const EMPTY_REPORT = { title: '', incident_type: 'suspicious_activity', severity: 'medium', description: '' };
+
+/** Short incident report from the field; the full form stays on the incidents page */
+export function IncidentReportForm({ assignment, queue }: { assignment: FieldAssignment; queue: OfflineQueue }) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_REPORT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async () => {
+    setIsSaving(true);
+    try {
+      const now = new Date();
+      const location = await getLocation();
+      const result = await queue.submit(createAction('incident', {
+        ...form,
+        site_id: assignment.site_id,
+        customer_id: assignment.customer_id,
+        shift_id: assignment.shift_id,
+        reported_by: assignment.employee_id,
+        incident_date: `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`,
+        incident_time: now.toTimeString().slice(0, 5),
+        location_details: location ? `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}` : undefined,
+      }));
+      toast.success(result.queued ? 'הדיווח נשמר במכשיר ויישלח כשהקליטה תחזור' : 'האירוע דווח');
+      setForm(EMPTY_REPORT);
+      setOpen(false);
+    } catch (err) {
+      toast.error((err as MutationError)?.response?.data?.error || 'שגיאה בדיווח אירוע');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <button onClick={() => setOpen((v) => !v)} className="w-full section-header mb-0">
+        <div className="section-header-icon bg-gradient-to-br from-red-100 to-red-50">
+          <FileWarning className="w-4 h-4 text-red-500" />
+        </div>
+        <h3 className="section-header-title">דיווח אירוע</h3>
+        {open ? <ChevronUp className="w-4 h-4 text-gray-400 mr-auto" /> : <ChevronDown className="w-4 h-4 text-gray-400 mr-auto" />}
+      </button>
+
+      {open && (
+        <div className="space-y-3 mt-4">
+          <div>
+            <label className="label">כותרת</label>
+            <input
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className="input"
+              placeholder="מה קרה?"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="label">סוג</label>
+              <select
+                value={form.incident_type}
+                onChange={(e) => setForm({ ...form, incident_type: e.target.value })}
+                className="input"
+              >
+                {Object.entries(INCIDENT_TYPES).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">חומרה</label>
+              <select
+                value={form.severity}
+                onChange={(e) => setForm({ ...form, severity: e.target.value })}
+                className="input"
+              >
+                {Object.entries(SEVERITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="label">פירוט</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className="input"
+              rows={3}
+            />
+          </div>
+          <button
+            onClick={submit}
+            disabled={isSaving || !form.title.trim()}
+            className="btn-primary w-full flex items-center justify-center gap-2"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            שלח דיווח
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,12 +3,15 @@ import { useQuery } from '@tanstack/react-query';
 import { UserCheck, Star, Loader2, MapPin, AlertTriangle, Shield } from 'lucide-react';
 import { shiftsApi } from '../services/api';
 import { SkeletonPulse } from './Skeleton';
+import AssignmentWarnings from './AssignmentWarnings';
+import type { AssignmentIssue } from '../types';
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
 interface ScoreBreakdown {
   base: number;
   preferred: number;
+  shift_preference: number;
   geographic: number;
   performance: number;
   workload: number;
@@ -34,6 +37,7 @@ interface GuardSuggestion {
 }
 
 interface GuardSuggestionsProps {
+  shiftId?: string;
   date: string;
   startTime: string;
   endTime: string;
@@ -108,6 +112,7 @@ function renderStars(rating: number): string {
 const breakdownLabels: Record<string, string> = {
   base: 'בסיס',
   preferred: 'עובד מועדף',
+  shift_preference: 'העדפת סוג משמרת',
   geographic: 'קרבה גיאוגרפית',
   performance: 'ביצועים',
   workload: 'עומס עבודה',
@@ -155,6 +160,7 @@ function ScoreTooltip({ breakdown }: { breakdown: ScoreBreakdown }) {
 // ── Component ───────────────────────────────────────────────────────────────
 
 export default function GuardSuggestions({
+  shiftId,
   date,
   startTime,
   endTime,
@@ -195,6 +201,27 @@ export default function GuardSuggestions({
     staleTime: 30_000,
   });
 
+  const topIds = (suggestions || []).slice(0, 5).map((s) => s.employee_id);
+
+  // Compliance warnings for the shown suggestions (weekly hours, certifications...)
+  const { data: checkResults } = useQuery<Record<string, AssignmentIssue[]>>({
+    queryKey: ['assignment-check', shiftId, date, startTime, endTime, siteId, topIds.join(',')],
+    queryFn: async () => {
+      const res = await shiftsApi.checkAssignment({
+        shift_id: shiftId,
+        date,
+        start_time: startTime,
+        end_time: endTime,
+        requires_weapon: requiresWeapon,
+        site_id: siteId,
+        employee_ids: topIds,
+      });
+      return res.data?.results || {};
+    },
+    enabled: isReady && topIds.length > 0,
+    staleTime: 30_000,
+  });
+
   // Don't render anything until we have the minimum parameters
   if (!isReady) {
     return null;
@@ -365,6 +392,9 @@ export default function GuardSuggestions({
                   })}
                 </div>
               )}
+
+              {/* Compliance warnings */}
+              <AssignmentWarnings issues={checkResults?.[suggestion.employee_id] || []} compact />
             </div>
 
             {/* Assign button */}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, subDays, addDays } from 'date-fns';
+import { ClipboardList, AlertTriangle, KeyRound, UserCheck, StickyNote, Download, CheckCircle } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { formatPunchTime } from './PunchCorrectionModal';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface HandoverFields {
+  open_issues: string;
+  keys_equipment: string;
+  visitors_on_site: string;
+  notes: string;
+}
+
+export interface Handover {
+  id: string;
+  assignment_id: string;
+  open_issues?: string | null;
+  keys_equipment?: string | null;
+  visitors_on_site?: string | null;
+  notes?: string | null;
+  from_name?: string | null;
+  acknowledged_by_name?: string | null;
+  acknowledged_at?: string | null;
+  shift_date: string;
+  shift_start_time: string;
+  shift_end_time: string;
+  check_out_time?: string | null;
+  created_at: string;
+}
+
+export const EMPTY_HANDOVER: HandoverFields = { open_issues: '', keys_equipment: '', visitors_on_site: '', notes: '' };
+
+export const HANDOVER_FIELDS: { key: keyof HandoverFields; label: string; placeholder: string; icon: typeof AlertTriangle }[] = [
+  { key: 'open_issues', label: 'בעיות פתוחות', placeholder: 'תקלות, אירועים שלא הסתיימו, דברים לבדוק...', icon: AlertTriangle },
+  { key: 'keys_equipment', label: 'מפתחות וציוד שהועברו', placeholder: 'מפתחות, קשר, פנס, כרטיסי כניסה...', icon: KeyRound },
+  { key: 'visitors_on_site', label: 'מבקרים שעדיין באתר', placeholder: 'שם, חברה, היכן נמצאים...', icon: UserCheck },
+  { key: 'notes', label: 'הערות נוספות', placeholder: 'כל דבר שהשומר הבא צריך לדעת', icon: StickyNote },
+];
+
+// ── Handover Details ────────────────────────────────────────────────────────
+
+/** The filled-in fields of a handover */
+export function HandoverDetails({ handover }: { handover: Handover }) {
+  return (
+    <div className="space-y-2">
+      {HANDOVER_FIELDS.filter((f) => handover[f.key]).map((f) => {
+        const Icon = f.icon;
+        return (
+          <div key={f.key} className="flex items-start gap-2 text-sm">
+            <Icon className="w-4 h-4 text-gray-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-xs font-medium text-gray-500">{f.label}</p>
+              <p className="text-gray-800 whitespace-pre-line">{handover[f.key]}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ── Export ──────────────────────────────────────────────────────────────────
+
+function downloadHandoversFile(handovers: Handover[], siteName: string, filename: string) {
+  const cell = (val: unknown) => `"${String(val ?? '').replace(/"/g, '""')}"`;
+  const headers = ['אתר', 'תאריך', 'משמרת', 'שומר מוסר', 'שעת יציאה', ...HANDOVER_FIELDS.map((f) => f.label), 'שומר מקבל', 'אושר בשעה'];
+  const lines = [headers.map(cell).join(',')];
+  for (const h of handovers) {
+    lines.push([
+      siteName,
+      format(new Date(h.shift_date + 'T00:00:00'), 'dd/MM/yyyy'),
+      `${h.shift_start_time}-${h.shift_end_time}`,
+      h.from_name,
+      formatPunchTime(h.check_out_time || h.created_at, 'dd/MM HH:mm'),
+      ...HANDOVER_FIELDS.map((f) => h[f.key]),
+      h.acknowledged_by_name,
+      formatPunchTime(h.acknowledged_at, 'dd/MM HH:mm'),
+    ].map(cell).join(','));
+  }
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ── Site Chain ──────────────────────────────────────────────────────────────
+
+export default function HandoverLogView({ siteId, siteName, date }: { siteId: string; siteName?: string; date: string }) {
+  const [range, setRange] = useState(() => {
+    const center = new Date(date + 'T00:00:00');
+    return { start: format(subDays(center, 6), 'yyyy-MM-dd'), end: format(addDays(center, 1), 'yyyy-MM-dd') };
+  });
+
+  const { data, isLoading } = useQuery<{ handovers: Handover[] }>({
+    queryKey: ['site-handovers', siteId, range.start, range.end],
+    queryFn: () => shiftsApi.getSiteHandovers(siteId, { start_date: range.start, end_date: range.end }).then((res) => res.data),
+  });
+
+  const handovers = data?.handovers || [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="date"
+          value={range.start}
+          onChange={(e) => e.target.value && setRange({ ...range, start: e.target.value })}
+          className="input py-1 text-sm w-auto"
+        />
+        <span className="text-gray-400">עד</span>
+        <input
+          type="date"
+          value={range.end}
+          onChange={(e) => e.target.value && setRange({ ...range, end: e.target.value })}
+          className="input py-1 text-sm w-auto"
+        />
+        <button
+          onClick={() => downloadHandoversFile(handovers, siteName || '', `handovers-${range.start}-${range.end}.csv`)}
+          disabled={handovers.length === 0}
+          className="btn-secondary text-xs flex items-center gap-1 px-2 py-1 mr-auto disabled:opacity-50"
+        >
+          <Download className="w-3.5 h-3.5" />
+          ייצוא ללקוח
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary-500 border-t-transparent"></div>
+        </div>
+      ) : handovers.length === 0 ? (
+        <div className="text-center py-6">
+          <div className="w-12 h-12 rounded-full bg-gradient-to-br from-gray-100 to-gray-50 flex items-center justify-center mx-auto mb-2">
+            <ClipboardList className="w-6 h-6 text-gray-300" />
+          </div>
+          <p className="text-gray-400 text-sm font-heading">אין העברות משמרת בטווח זה</p>
+        </div>
+      ) : (
+        <ol className="relative border-r-2 border-gray-100 mr-2 space-y-3">
+          {handovers.map((h) => (
+            <li key={h.id} className="relative mr-4">
+              <span className="absolute -right-[23px] top-4 w-3 h-3 rounded-full bg-primary-400 border-2 border-white" />
+              <div className="card p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                  <span>
+                    <span className="font-medium text-gray-900 text-sm">{h.from_name}</span>
+                    {' · '}
+                    {format(new Date(h.shift_date + 'T00:00:00'), 'dd/MM')} {h.shift_start_time}-{h.shift_end_time}
+                  </span>
+                  <span>{formatPunchTime(h.check_out_time || h.created_at)}</span>
+                </div>
+                <HandoverDetails handover={h} />
+                {h.acknowledged_at ? (
+                  <p className="text-xs text-green-700 flex items-center gap-1">
+                    <CheckCircle className="w-3.5 h-3.5" />
+                    התקבל ע"י {h.acknowledged_by_name} ב-{formatPunchTime(h.acknowledged_at)}
+                  </p>
+                ) : (
+                  <p className="text-xs text-amber-600">טרם אושר ע"י השומר הבא</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -30,6 +30,8 @@ import {
   Zap,
   Briefcase,
   Database,
+  ClipboardCheck,
+  Wallet,
 } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
 import { usePermissions } from '../hooks/usePermissions';
@@ -37,16 +39,17 @@ import { dashboardApi } from '../services/api';
 import { clsx } from 'clsx';
 import SearchCommand from './SearchCommand';
 import NotificationCenter from './NotificationCenter';
+import SosAlertOverlay from './SosAlerts';
 import PageTransition from './PageTransition';
 import BottomNav from './BottomNav';
-// LocationReporter disabled - GPS only on check-in/check-out
-// import LocationReporter from './LocationReporter';
+import LocationReporter from './LocationReporter';
 
 const navigationGroups = [
   {
     label: 'ראשי',
     items: [
       { name: 'דשבורד', href: '/', icon: LayoutDashboard, permission: 'page:dashboard' },
+      { name: 'המשמרות והשכר שלי', href: '/my-schedule', icon: Wallet, permission: 'page:my-schedule' },
     ],
   },
   {
@@ -82,6 +85,7 @@ const navigationGroups = [
     items: [
       { name: 'חשבוניות', href: '/invoices', icon: Receipt, permission: 'page:invoices' },
       { name: 'דוחות', href: '/reports', icon: BarChart3, permission: 'page:reports' },
+      { name: 'דוחות נוכחות', href: '/timesheets', icon: ClipboardCheck, permission: 'page:timesheets' },
       { name: 'Priority', href: '/priority', icon: Database, permission: 'page:priority' },
     ],
   },
@@ -354,11 +358,14 @@ export default function Layout() {
       {/* Bottom Navigation - Mobile */}
       <BottomNav onMenuClick={() => setSidebarOpen(true)} />
 
+      {/* Panic alerts block the screen until a manager acknowledges them */}
+      {can('incidents:sos-respond') && <SosAlertOverlay />}
+
       {/* Search Command Palette */}
       <SearchCommand isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
 
-      {/* GPS Location Reporter - disabled, GPS only on check-in/check-out */}
-      {/* <LocationReporter /> */}
+      {/* Background GPS track while the guard is checked in */}
+      <LocationReporter />
     </div>
   );
 }
@@ -3,85 +3,203 @@ import { useQuery } from '@tanstack/react-query';
 import { Navigation } from 'lucide-react';
 import { shiftsApi } from '../services/api';
 import { useAuthStore } from '../stores/authStore';
+import { isNetworkError } from '../utils/offlineQueue';
+import type { MutationError } from '../types';
 
+// Fixes less accurate than this are noise on the tracking map
+const MAX_ACCURACY_METERS = 50;
+// Sampling: one point per interval, denser while the guard is on the move
+const MOVING_INTERVAL_MS = 15 * 1000;
+const STATIONARY_INTERVAL_MS = 2 * 60 * 1000;
+// Moved further than this (or faster than walking pace) since the last point
+const MOVING_DISTANCE_METERS = 25;
+const MOVING_SPEED_MPS = 1;
+// Low battery and not charging: sample half as often, without high-accuracy GPS
+const LOW_BATTERY_LEVEL = 0.2;
+// Upload buffered points this often, or as soon as this many are waiting
+const UPLOAD_INTERVAL_MS = 2 * 60 * 1000;
+const UPLOAD_BATCH_SIZE = 20;
+// Server limit per request, and the most points kept per assignment while offline
+const MAX_BATCH = 500;
+const MAX_BUFFERED = 2000;
+
+const BUFFER_KEY = 'yahalom-location-buffer';
+
+interface LocationPoint {
+  id: string;
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  recorded_at: string;
+}
+
+type LocationBuffer = Record<string, LocationPoint[]>;
+
+interface BatteryLike extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+// ── Buffer ──────────────────────────────────────────────────────────────────
+
+// Kept in localStorage so points survive a reload or the app being closed
+function readBuffer(): LocationBuffer {
+  try {
+    return JSON.parse(localStorage.getItem(BUFFER_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeBuffer(buffer: LocationBuffer) {
+  const entries = Object.entries(buffer).filter(([, points]) => points.length > 0);
+  if (entries.length === 0) localStorage.removeItem(BUFFER_KEY);
+  else localStorage.setItem(BUFFER_KEY, JSON.stringify(Object.fromEntries(entries)));
+}
+
+function bufferPoint(assignmentId: string, point: LocationPoint) {
+  const buffer = readBuffer();
+  buffer[assignmentId] = [...(buffer[assignmentId] || []), point].slice(-MAX_BUFFERED);
+  writeBuffer(buffer);
+  return buffer[assignmentId].length;
+}
+
+function removePoints(assignmentId: string, ids: Set<string> | null) {
+  const buffer = readBuffer();
+  buffer[assignmentId] = ids ? (buffer[assignmentId] || []).filter((p) => !ids.has(p.id)) : [];
+  writeBuffer(buffer);
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function distanceMeters(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) {
+  const rad = Math.PI / 180;
+  const dLat = (b.latitude - a.latitude) * rad;
+  const dLng = (b.longitude - a.longitude) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.latitude * rad) * Math.cos(b.latitude * rad) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+/** Battery saver state, where the Battery Status API exists (Chrome/Android) */
+function useLowBattery() {
+  const [lowBattery, setLowBattery] = useState(false);
+
+  useEffect(() => {
+    const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryLike> }).getBattery;
+    if (!getBattery) return;
+    let battery: BatteryLike | null = null;
+    const update = () => setLowBattery(!!battery && !battery.charging && battery.level <= LOW_BATTERY_LEVEL);
+
+    getBattery.call(navigator).then((b) => {
+      battery = b;
+      update();
+      b.addEventListener('levelchange', update);
+      b.addEventListener('chargingchange', update);
+    }).catch(() => {});
+
+    return () => {
+      battery?.removeEventListener('levelchange', update);
+      battery?.removeEventListener('chargingchange', update);
+    };
+  }, []);
+
+  return lowBattery;
+}
+
+/**
+ * Background GPS track of a checked-in guard. Positions come from
+ * watchPosition, are thinned out (inaccurate fixes dropped, a point every
+ * MOVING/STATIONARY interval) and buffered on the device, then uploaded in
+ * batches - so a patchy connection costs no points and no battery on retries.
+ */
 export default function LocationReporter() {
   const user = useAuthStore((s) => s.user);
-  const [isTracking, setIsTracking] = useState(false);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const lowBattery = useLowBattery();
+  const lastPoint = useRef<LocationPoint | null>(null);
+  const uploading = useRef(false);
 
-  // Check for active assignments (employee role only)
-  const { data: activeAssignment } = useQuery({
+  const { data } = useQuery({
     queryKey: ['my-active-assignment'],
-    queryFn: async () => {
-      // Get today's shifts for the current user
-      const today = new Date().toISOString().split('T')[0];
-      const res = await shiftsApi.getAll({ start_date: today, end_date: today });
-      const shifts = res.data?.shifts || res.data || [];
-      // Find a checked-in assignment for the current user
-      for (const shift of shifts) {
-        if (shift.assignments) {
-          const myAssignment = shift.assignments.find(
-            (a: { status: string; employee_id: string }) => a.status === 'checked_in' && a.employee_id === user?.employeeId
-          );
-          if (myAssignment) return myAssignment;
-        }
-      }
-      return null;
-    },
-    refetchInterval: 60000, // Check every minute
+    queryFn: () => shiftsApi.getMyActiveAssignment().then((res) => res.data),
+    refetchInterval: 60000,
     enabled: !!user?.employeeId, // Only for employees
   });
+  const assignmentId: string | null = data?.assignment?.status === 'checked_in' ? data.assignment.assignment_id : null;
 
-  const reportLocation = useCallback(async (assignmentId: string) => {
-    if (!navigator.geolocation) return;
-
+  // Upload everything buffered, including assignments already checked out
+  const flush = useCallback(async () => {
+    if (uploading.current || !navigator.onLine) return;
+    uploading.current = true;
     try {
-      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 15000,
-          maximumAge: 60000,
-        });
-      });
-
-      await shiftsApi.locationReport({
-        shift_assignment_id: assignmentId,
-        latitude: position.coords.latitude,
-        longitude: position.coords.longitude,
-        accuracy: position.coords.accuracy,
-      });
-    } catch (e) {
-      // Silent fail - location reporting is best-effort
-      console.warn('Location report failed:', e);
+      for (const [id, points] of Object.entries(readBuffer())) {
+        for (let i = 0; i < points.length; i += MAX_BATCH) {
+          const batch = points.slice(i, i + MAX_BATCH);
+          try {
+            await shiftsApi.locationReportBulk({ assignment_id: id, points: batch });
+            removePoints(id, new Set(batch.map((p) => p.id)));
+          } catch (err) {
+            const status = (err as MutationError)?.response?.status ?? 0;
+            if (isNetworkError(err) || status >= 500) return;
+            // Rejected (e.g. the assignment is gone) - retrying would never succeed
+            console.warn('Location upload rejected:', err);
+            removePoints(id, null);
+            break;
+          }
+        }
+      }
+    } finally {
+      uploading.current = false;
     }
   }, []);
 
   useEffect(() => {
-    if (activeAssignment?.id) {
-      setIsTracking(true);
-      // Report immediately
-      reportLocation(activeAssignment.id);
-      // Then every 5 minutes
-      intervalRef.current = setInterval(() => {
-        reportLocation(activeAssignment.id);
-      }, 5 * 60 * 1000);
-    } else {
-      setIsTracking(false);
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    }
-
+    if (!user?.employeeId) return;
+    flush();
+    const timer = setInterval(flush, UPLOAD_INTERVAL_MS);
+    window.addEventListener('online', flush);
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      clearInterval(timer);
+      window.removeEventListener('online', flush);
     };
-  }, [activeAssignment?.id, reportLocation]);
+  }, [user?.employeeId, flush]);
+
+  useEffect(() => {
+    lastPoint.current = null;
+  }, [assignmentId]);
+
+  useEffect(() => {
+    if (!assignmentId || !navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        const { latitude, longitude, accuracy, speed } = pos.coords;
+        if (accuracy > MAX_ACCURACY_METERS) return;
+
+        const last = lastPoint.current;
+        if (last) {
+          const moving = (speed ?? 0) >= MOVING_SPEED_MPS || distanceMeters(last, { latitude, longitude }) >= MOVING_DISTANCE_METERS;
+          const interval = (moving ? MOVING_INTERVAL_MS : STATIONARY_INTERVAL_MS) * (lowBattery ? 2 : 1);
+          if (pos.timestamp - new Date(last.recorded_at).getTime() < interval) return;
+        }
+
+        const point = {
+          id: crypto.randomUUID(),
+          latitude,
+          longitude,
+          accuracy: Math.round(accuracy),
+          recorded_at: new Date(pos.timestamp).toISOString(),
+        };
+        lastPoint.current = point;
+        if (bufferPoint(assignmentId, point) >= UPLOAD_BATCH_SIZE) flush();
+      },
+      (err) => console.warn('Location watch failed:', err.message),
+      { enableHighAccuracy: !lowBattery, maximumAge: 10000, timeout: 60000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [assignmentId, lowBattery, flush]);
 
-  if (!isTracking) return null;
+  if (!assignmentId) return null;
 
   return (
     <div className="fixed bottom-4 left-4 z-50 flex items-center gap-2 bg-green-500 text-white px-3 py-1.5 rounded-full shadow-lg text-xs font-medium animate-pulse">
@@ -12,6 +12,7 @@ import {
   Loader2,
   BellOff,
   VolumeX,
+  Siren,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { he } from 'date-fns/locale';
@@ -34,7 +35,7 @@ interface NotificationCenterProps {
   onClose: () => void;
 }
 
-type NotificationType = 'shift_reminder' | 'invoice_overdue' | 'contract_expiry' | 'lead_new' | 'general';
+type NotificationType = 'shift_reminder' | 'invoice_overdue' | 'contract_expiry' | 'lead_new' | 'sos' | 'general';
 
 const typeConfig: Record<
   NotificationType,
@@ -64,6 +65,12 @@ const typeConfig: Record<
     bg: 'bg-blue-50',
     borderAccent: 'border-r-primary-400',
   },
+  sos: {
+    icon: Siren,
+    color: 'text-red-600',
+    bg: 'bg-red-100',
+    borderAccent: 'border-r-red-500',
+  },
   general: {
     icon: Info,
     color: 'text-gray-600',
@@ -279,6 +286,11 @@ export default function NotificationCenter({ isOpen, onClose }: NotificationCent
           if (parsed.type === 'notification') {
             // Refetch notifications when a new one arrives
             queryClient.invalidateQueries({ queryKey: ['notifications'] });
+            // Panic alerts: bring up the blocking alert / the guard's acknowledgement now
+            if (parsed.data?.type === 'sos') {
+              queryClient.invalidateQueries({ queryKey: ['sos-active'] });
+              queryClient.invalidateQueries({ queryKey: ['sos-mine'] });
+            }
             // Show toast for the new notification
             if (parsed.data?.title) {
               toast(parsed.data.title, { icon: '\uD83D\uDD14', duration: 5000 });
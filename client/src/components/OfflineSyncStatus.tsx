@@ -0,0 +1,74 @@
+import { WifiOff, UploadCloud, RefreshCw, AlertTriangle, Trash2 } from 'lucide-react';
+import { QUEUED_ACTION_LABELS, type QueuedAction } from '../utils/offlineQueue';
+import type { OfflineQueue } from '../hooks/useOfflineQueue';
+
+function formatQueuedTime(iso: string) {
+  return new Date(iso).toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' });
+}
+
+function QueuedActionRow({ action, onDiscard }: { action: QueuedAction; onDiscard?: () => void }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <div className="min-w-0">
+        <span className="font-medium text-gray-800">{QUEUED_ACTION_LABELS[action.type]}</span>
+        <span className="text-gray-400"> · {formatQueuedTime(action.createdAt)}</span>
+        {action.error && <p className="text-xs text-red-600 truncate">{action.error}</p>}
+      </div>
+      {onDiscard ? (
+        <button onClick={onDiscard} className="btn-icon flex-shrink-0" title="מחק מהמכשיר">
+          <Trash2 className="w-4 h-4 text-red-500" />
+        </button>
+      ) : (
+        <span className="badge badge-warning flex-shrink-0">ממתין לסנכרון</span>
+      )}
+    </div>
+  );
+}
+
+/** Guard panel banner: no-signal indicator and the actions still waiting on the device */
+export default function OfflineSyncStatus({ queue }: { queue: OfflineQueue }) {
+  const { isOnline, pending, failed, isSyncing, sync, discard } = queue;
+
+  if (isOnline && pending.length === 0 && failed.length === 0) return null;
+
+  return (
+    <div className={`card border ${failed.length > 0 ? 'border-red-200' : 'border-amber-200 bg-amber-50/40'}`}>
+      <div className="section-header">
+        <div className="section-header-icon bg-gradient-to-br from-amber-100 to-amber-50">
+          {isOnline ? <UploadCloud className="w-4 h-4 text-amber-600" /> : <WifiOff className="w-4 h-4 text-amber-600" />}
+        </div>
+        <h3 className="section-header-title">{isOnline ? 'ממתין לסנכרון' : 'אין קליטה'}</h3>
+        {pending.length > 0 && <span className="badge badge-warning">{pending.length}</span>}
+        {isOnline && pending.length > 0 && (
+          <button onClick={sync} disabled={isSyncing} className="btn-icon mr-auto" title="סנכרן עכשיו">
+            <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+
+      {!isOnline && (
+        <p className="text-xs text-gray-500 mb-2">
+          פעולות נשמרות במכשיר עם השעה והמיקום המקוריים ויישלחו אוטומטית כשהקליטה תחזור
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {pending.map((action) => (
+          <QueuedActionRow key={action.id} action={action} />
+        ))}
+      </div>
+
+      {failed.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-red-100 space-y-2">
+          <p className="text-xs font-medium text-red-700 flex items-center gap-1">
+            <AlertTriangle className="w-3.5 h-3.5" />
+            נדחו על ידי השרת
+          </p>
+          {failed.map((action) => (
+            <QueuedActionRow key={action.id} action={action} onDiscard={() => discard(action.id)} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Settings2, ChevronUp, ChevronDown, Loader2 } from 'lucide-react';
+import { timesheetsApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface PayrollColumn {
+  key: string;
+  header: string;
+}
+
+export interface PayrollLayout {
+  delimiter: string;
+  columns: PayrollColumn[];
+}
+
+interface PayrollField {
+  key: string;
+  label: string;
+}
+
+const delimiters = [
+  { value: ',', label: 'פסיק (,)' },
+  { value: ';', label: 'נקודה-פסיק (;)' },
+  { value: '\t', label: 'טאב' },
+  { value: '|', label: 'קו אנכי (|)' },
+];
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function PayrollLayoutModal({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [delimiter, setDelimiter] = useState(',');
+  const [columns, setColumns] = useState<PayrollColumn[]>([]);
+
+  const { data, isLoading } = useQuery<{ layout: PayrollLayout; fields: PayrollField[] }>({
+    queryKey: ['payroll-layout'],
+    queryFn: () => timesheetsApi.getPayrollLayout().then((res) => res.data),
+  });
+
+  useEffect(() => {
+    if (data?.layout) {
+      setDelimiter(data.layout.delimiter);
+      setColumns(data.layout.columns);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => timesheetsApi.savePayrollLayout({ delimiter, columns }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payroll-layout'] });
+      toast.success('תבנית השכר נשמרה');
+      onClose();
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשמירת תבנית השכר');
+    },
+  });
+
+  const fields = data?.fields || [];
+  const unused = fields.filter((f) => !columns.some((c) => c.key === f.key));
+  const labelOf = (key: string) => fields.find((f) => f.key === key)?.label || key;
+
+  const move = (index: number, offset: number) => {
+    const next = [...columns];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setColumns(next);
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-xl">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <Settings2 className="w-4 h-4 text-primary-600" />
+            </div>
+            תבנית קובץ שכר
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          {isLoading ? (
+            Array.from({ length: 4 }).map((_, i) => <SkeletonPulse key={i} className="h-10 w-full" />)
+          ) : (
+            <>
+              <div>
+                <label className="label">מפריד עמודות</label>
+                <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className="input">
+                  {delimiters.map((d) => (
+                    <option key={d.value} value={d.value}>{d.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="label">עמודות (לפי הסדר בקובץ)</label>
+                <ul className="space-y-2">
+                  {columns.map((col, i) => (
+                    <li key={col.key} className="flex items-center gap-2 border border-gray-100 rounded-xl p-2">
+                      <div className="flex flex-col">
+                        <button onClick={() => move(i, -1)} disabled={i === 0} className="btn-icon p-0.5 disabled:opacity-30">
+                          <ChevronUp className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => move(i, 1)} disabled={i === columns.length - 1} className="btn-icon p-0.5 disabled:opacity-30">
+                          <ChevronDown className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      <span className="text-xs text-gray-500 w-28 flex-shrink-0">{labelOf(col.key)}</span>
+                      <input
+                        value={col.header}
+                        onChange={(e) => setColumns(columns.map((c) => (c.key === col.key ? { ...c, header: e.target.value } : c)))}
+                        className="input py-1.5 text-sm"
+                        placeholder="כותרת בקובץ"
+                      />
+                      <button onClick={() => setColumns(columns.filter((c) => c.key !== col.key))} className="btn-icon">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {unused.length > 0 && (
+                <div>
+                  <label className="label">הוספת עמודה</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {unused.map((f) => (
+                      <button
+                        key={f.key}
+                        onClick={() => setColumns([...columns, { key: f.key, header: f.label }])}
+                        className="px-2.5 py-1 rounded-lg text-xs bg-gray-100 text-gray-600 hover:bg-gray-200"
+                      >
+                        + {f.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={onClose} className="btn-secondary">ביטול</button>
+            <button
+              onClick={() => saveMutation.mutate()}
+              disabled={columns.length === 0 || saveMutation.isPending}
+              className="btn-primary flex items-center gap-2"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              שמור תבנית
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
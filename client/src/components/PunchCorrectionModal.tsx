@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { X, Pencil, History, Loader2 } from 'lucide-react';
+import { timesheetsApi } from '../services/api';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface PunchEntry {
+  assignment_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string | null;
+  check_in_time?: string | null;
+  check_out_time?: string | null;
+}
+
+interface PunchCorrection {
+  id: string;
+  field: 'check_in_time' | 'check_out_time';
+  old_value: string | null;
+  new_value: string | null;
+  reason: string;
+  corrected_by_name?: string | null;
+  created_at: string;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Punch times are stored as UTC: without a zone designator on SQLite,
+ * "YYYY-MM-DD HH:MM:SS.ffffff+00" on PostgreSQL
+ */
+export function parsePunchTime(value?: string | null): Date | null {
+  if (!value) return null;
+  const match = value.trim()
+    .match(/^(\d{4}-\d\d-\d\d)[T ](\d\d:\d\d(?::\d\d)?)(?:\.(\d+))?\s*(Z|[+-]\d\d(?::?\d\d)?)?$/i);
+  if (!match) return null;
+  const [, date, time, fraction = '', zone] = match;
+  // Date only parses milliseconds and ±HH:MM offsets
+  const millis = fraction ? `.${fraction.slice(0, 3).padEnd(3, '0')}` : '';
+  let offset = 'Z';
+  if (zone && zone.toUpperCase() !== 'Z') {
+    const digits = zone.slice(1).replace(':', '');
+    offset = `${zone[0]}${digits.slice(0, 2)}:${digits.slice(2) || '00'}`;
+  }
+  const d = new Date(`${date}T${time}${millis}${offset}`);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+export function formatPunchTime(value?: string | null, pattern = 'HH:mm'): string {
+  const d = parsePunchTime(value);
+  return d ? format(d, pattern) : '';
+}
+
+// Value for a datetime-local input: the punch, or the scheduled time when missing
+function toInputValue(value: string | null | undefined, date: string, time: string, nextDay = false): string {
+  const d = parsePunchTime(value);
+  if (d) return format(d, "yyyy-MM-dd'T'HH:mm");
+  const scheduled = new Date(`${date}T${time}`);
+  if (nextDay) scheduled.setDate(scheduled.getDate() + 1);
+  return format(scheduled, "yyyy-MM-dd'T'HH:mm");
+}
+
+/**
+ * Request value for one punch: omitted when untouched, null to clear a
+ * stored punch, otherwise the edited (or filled-in missing) time
+ */
+function punchChange(value: string, stored: string | null | undefined, initial: string): string | null | undefined {
+  if (stored && value === initial) return undefined;
+  if (!value) return stored ? null : undefined;
+  return new Date(value).toISOString();
+}
+
+const fieldLabels: Record<PunchCorrection['field'], string> = {
+  check_in_time: 'כניסה',
+  check_out_time: 'יציאה',
+};
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function PunchCorrectionModal({
+  entry,
+  employeeName,
+  onClose,
+}: {
+  entry: PunchEntry;
+  employeeName: string;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const crossesMidnight = entry.end_time <= entry.start_time;
+  const initialCheckIn = toInputValue(entry.check_in_time, entry.date, entry.start_time);
+  const initialCheckOut = toInputValue(entry.check_out_time, entry.date, entry.end_time, crossesMidnight);
+  const [checkIn, setCheckIn] = useState(initialCheckIn);
+  const [checkOut, setCheckOut] = useState(initialCheckOut);
+  const [reason, setReason] = useState('');
+
+  const { data: corrections = [] } = useQuery<PunchCorrection[]>({
+    queryKey: ['timesheet-corrections', entry.assignment_id],
+    queryFn: () => timesheetsApi.getCorrections(entry.assignment_id).then((res) => res.data.corrections),
+  });
+
+  const correctMutation = useMutation({
+    // Only send punches that were missing or edited, so untouched seconds are kept
+    mutationFn: () =>
+      timesheetsApi.correctPunch(entry.assignment_id, {
+        check_in_time: punchChange(checkIn, entry.check_in_time, initialCheckIn),
+        check_out_time: punchChange(checkOut, entry.check_out_time, initialCheckOut),
+        reason: reason.trim(),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets'] });
+      queryClient.invalidateQueries({ queryKey: ['timesheet-corrections', entry.assignment_id] });
+      toast.success('ההחתמה עודכנה');
+      onClose();
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בתיקון החתמה');
+    },
+  });
+
+  const isInvalid = !reason.trim() || !checkIn || (!!checkOut && new Date(checkOut) <= new Date(checkIn));
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-lg">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <Pencil className="w-4 h-4 text-primary-600" />
+            </div>
+            תיקון החתמה
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="bg-gray-50 rounded-xl p-3 text-sm">
+            <p className="font-medium text-gray-900">{employeeName}</p>
+            <p className="text-gray-500">
+              {format(new Date(entry.date + 'T00:00:00'), 'dd/MM/yyyy')} · {entry.start_time}-{entry.end_time}
+              {entry.site_name ? ` · ${entry.site_name}` : ''}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="label">כניסה</label>
+              <input type="datetime-local" value={checkIn} onChange={(e) => setCheckIn(e.target.value)} className="input" />
+            </div>
+            <div>
+              <label className="label">יציאה</label>
+              <input type="datetime-local" value={checkOut} onChange={(e) => setCheckOut(e.target.value)} className="input" />
+            </div>
+          </div>
+
+          <div>
+            <label className="label">סיבת התיקון *</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="input"
+              rows={2}
+              placeholder="לדוגמה: השומר שכח להחתים יציאה, אושר מול מנהל המשמרת"
+            />
+          </div>
+
+          {corrections.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-1.5">
+                <History className="w-4 h-4" />
+                תיקונים קודמים
+              </h3>
+              <ul className="space-y-1.5">
+                {corrections.map((c) => (
+                  <li key={c.id} className="text-xs text-gray-600 border border-gray-100 rounded-lg p-2">
+                    <span className="font-medium">{fieldLabels[c.field]}</span>:{' '}
+                    {formatPunchTime(c.old_value, 'dd/MM HH:mm') || 'חסר'} ← {formatPunchTime(c.new_value, 'dd/MM HH:mm') || 'חסר'}
+                    <span className="text-gray-400">
+                      {' '}· {c.reason} · {c.corrected_by_name || ''} {formatPunchTime(c.created_at, 'dd/MM HH:mm')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button onClick={onClose} className="btn-secondary">ביטול</button>
+            <button
+              onClick={() => correctMutation.mutate()}
+              disabled={isInvalid || correctMutation.isPending}
+              className="btn-primary flex items-center gap-2"
+            >
+              {correctMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              שמור תיקון
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { BellRing, BellOff, Send, Loader2, Smartphone } from 'lucide-react';
+import { pushApi } from '../services/api';
+import { useAuthStore } from '../stores/authStore';
+import { SkeletonPulse } from './Skeleton';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface PushDevice {
+  id: string;
+  endpoint: string;
+  user_agent?: string | null;
+  last_used_at?: string | null;
+  created_at: string;
+}
+
+interface PushSettings {
+  devices: PushDevice[];
+  preferences: Record<string, boolean>;
+  categories: { key: string; label: string }[];
+}
+
+// Shift categories only concern users with an employee profile
+const EMPLOYEE_CATEGORIES = ['shift_reminders', 'assignment_changes', 'open_shifts'];
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+// iOS exposes PushManager only to apps added to the home screen
+const pushSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+function urlBase64ToUint8Array(value: string) {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+async function currentSubscription() {
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+async function subscribeThisDevice() {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('לא ניתנה הרשאה להתראות - יש לאשר בהגדרות הדפדפן');
+  }
+  const { data } = await pushApi.getPublicKey();
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(data.publicKey),
+  });
+  return pushApi.subscribe(subscription.toJSON());
+}
+
+async function unsubscribeThisDevice() {
+  const subscription = await currentSubscription();
+  if (!subscription) return;
+  await pushApi.unsubscribe(subscription.endpoint);
+  await subscription.unsubscribe();
+}
+
+function deviceName(userAgent?: string | null) {
+  if (!userAgent) return 'מכשיר לא מזוהה';
+  if (/iPhone|iPad/.test(userAgent)) return 'iPhone / iPad';
+  if (/Android/.test(userAgent)) return 'Android';
+  if (/Windows/.test(userAgent)) return 'Windows';
+  if (/Mac OS/.test(userAgent)) return 'Mac';
+  return 'דפדפן';
+}
+
+function errorMessage(err: unknown, fallback: string) {
+  return (err as MutationError)?.response?.data?.error || (err as Error)?.message || fallback;
+}
+
+// ── Profile card ────────────────────────────────────────────────────────────
+
+/** Opt-in to push notifications on this device, and the categories to receive */
+export default function PushNotificationSettings() {
+  const queryClient = useQueryClient();
+  const user = useAuthStore((state) => state.user);
+  const supported = pushSupported();
+
+  const { data, isLoading } = useQuery<PushSettings>({
+    queryKey: ['push-settings'],
+    queryFn: () => pushApi.getSettings().then((res) => res.data),
+  });
+
+  const { data: endpoint } = useQuery({
+    queryKey: ['push-subscription'],
+    queryFn: () => currentSubscription().then((s) => s?.endpoint ?? null),
+    enabled: supported,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['push-settings'] });
+    queryClient.invalidateQueries({ queryKey: ['push-subscription'] });
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: subscribeThisDevice,
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data.message || 'התראות הופעלו במכשיר זה');
+    },
+    onError: (err) => toast.error(errorMessage(err, 'שגיאה בהפעלת התראות')),
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: unsubscribeThisDevice,
+    onSuccess: () => {
+      invalidate();
+      toast.success('התראות בוטלו במכשיר זה');
+    },
+    onError: (err) => toast.error(errorMessage(err, 'שגיאה בביטול התראות')),
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: (preferences: Record<string, boolean>) => pushApi.updatePreferences(preferences),
+    onSuccess: (res) => {
+      queryClient.setQueryData<PushSettings>(['push-settings'], (old) =>
+        old ? { ...old, preferences: res.data.preferences } : old
+      );
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשמירת הגדרות ההתראות');
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => pushApi.sendTest(),
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data.message || 'התראת בדיקה נשלחה');
+    },
+    onError: (err: MutationError) => {
+      invalidate();
+      toast.error(err?.response?.data?.error || 'שגיאה בשליחת התראת בדיקה');
+    },
+  });
+
+  const devices = data?.devices || [];
+  const thisDeviceOn = !!endpoint && devices.some((d) => d.endpoint === endpoint);
+  const categories = (data?.categories || []).filter(
+    (c) => user?.employeeId || !EMPLOYEE_CATEGORIES.includes(c.key)
+  );
+  const isBusy = subscribeMutation.isPending || unsubscribeMutation.isPending;
+
+  return (
+    <div className="card">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-gradient-to-br from-primary-100 to-primary-50 rounded-xl flex items-center justify-center">
+          <BellRing className="w-5 h-5 text-primary-600" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900 font-heading">התראות לטלפון</h3>
+          <p className="text-sm text-gray-500">תזכורות והתראות גם כשהאפליקציה סגורה</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <SkeletonPulse className="h-16 w-full rounded-lg" />
+      ) : (
+        <div className="space-y-4">
+          {!supported ? (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+              הדפדפן אינו תומך בהתראות. באייפון יש להוסיף את האפליקציה למסך הבית ולפתוח אותה משם.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {thisDeviceOn ? (
+                <button
+                  onClick={() => unsubscribeMutation.mutate()}
+                  disabled={isBusy}
+                  className="btn-secondary flex items-center gap-2"
+                >
+                  {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <BellOff className="w-4 h-4" />}
+                  כבה התראות במכשיר זה
+                </button>
+              ) : (
+                <button
+                  onClick={() => subscribeMutation.mutate()}
+                  disabled={isBusy}
+                  className="btn-primary flex items-center gap-2"
+                >
+                  {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <BellRing className="w-4 h-4" />}
+                  הפעל התראות במכשיר זה
+                </button>
+              )}
+              {devices.length > 0 && (
+                <button
+                  onClick={() => testMutation.mutate()}
+                  disabled={testMutation.isPending}
+                  className="btn-ghost flex items-center gap-2"
+                >
+                  {testMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  שלח התראת בדיקה
+                </button>
+              )}
+            </div>
+          )}
+
+          {devices.length > 0 && (
+            <>
+              <div className="space-y-1.5">
+                {categories.map((category) => (
+                  <label key={category.key} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={data?.preferences[category.key] ?? true}
+                      onChange={(e) => preferencesMutation.mutate({ [category.key]: e.target.checked })}
+                      disabled={preferencesMutation.isPending}
+                      className="rounded border-gray-300 text-primary-600"
+                    />
+                    {category.label}
+                  </label>
+                ))}
+              </div>
+
+              <div className="pt-3 border-t border-gray-100 space-y-1">
+                <p className="text-xs font-medium text-gray-500">מכשירים עם התראות</p>
+                {devices.map((device) => (
+                  <p key={device.id} className="text-xs text-gray-500 flex items-center gap-1.5">
+                    <Smartphone className="w-3.5 h-3.5" />
+                    {deviceName(device.user_agent)}
+                    {device.endpoint === endpoint && <span className="badge badge-info">מכשיר זה</span>}
+                  </p>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { CameraOff } from 'lucide-react';
+
+// Frames are scaled down before decoding; labels fill most of the frame anyway
+const MAX_FRAME_WIDTH = 640;
+// The same label stays in view for a while - report it once
+const REPEAT_SCAN_MS = 3000;
+
+// mediaDevices is missing outside secure contexts (plain http)
+const cameraSupported = () => typeof navigator.mediaDevices?.getUserMedia === 'function';
+
+function cameraErrorMessage(err: unknown): string {
+  const name = (err as { name?: string })?.name;
+  if (name === 'NotAllowedError') return 'אין הרשאה למצלמה - יש לאשר גישה בהגדרות הדפדפן';
+  if (name === 'NotFoundError') return 'לא נמצאה מצלמה במכשיר';
+  return 'לא ניתן להפעיל את המצלמה';
+}
+
+/** Rear-camera QR reader; calls onScan with the decoded text of each new code in view */
+export default function QrScanner({ onScan, paused = false }: { onScan: (text: string) => void; paused?: boolean }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [error, setError] = useState(cameraSupported() ? '' : 'המכשיר אינו תומך בסריקת קוד');
+
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    if (!cameraSupported()) return;
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    let last = { text: '', at: 0 };
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const tick = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (video && context && video.readyState === video.HAVE_ENOUGH_DATA && !pausedRef.current) {
+        const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+        const now = Date.now();
+        if (code?.data && (code.data !== last.text || now - last.at > REPEAT_SCAN_MS)) {
+          last = { text: code.data, at: now };
+          onScanRef.current(code.data);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        video.play().catch(() => {});
+        frame = requestAnimationFrame(tick);
+      })
+      .catch((err) => setError(cameraErrorMessage(err)));
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="aspect-square rounded-xl bg-gray-100 flex flex-col items-center justify-center gap-2 text-center p-6">
+        <CameraOff className="w-8 h-8 text-gray-400" />
+        <p className="text-sm text-gray-600">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative aspect-square rounded-xl overflow-hidden bg-black">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <div className="absolute inset-[15%] border-4 border-white/80 rounded-2xl pointer-events-none" />
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { ListChecks, Loader2, Plus, Trash2, Check, X } from 'lucide-react';
+import { sitesGlobalApi, shiftTemplatesApi, weaponsApi, equipmentApi } from '../services/api';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface ReadinessItem {
+  key: string;
+  label: string;
+}
+
+export interface ReadinessChecklist {
+  id: string | null;
+  source: 'template' | 'site' | 'default';
+  items: ReadinessItem[];
+  include_issued_items: boolean;
+}
+
+export interface ReadinessAnswer {
+  key: string;
+  label: string;
+  kind: 'item' | 'weapon' | 'equipment';
+  ok: boolean;
+  note?: string;
+  /** Weapons: the serial number the guard read off the weapon */
+  value?: string;
+  item_id?: string;
+}
+
+interface IssuedWeapon {
+  id: string;
+  weapon_type: string;
+  manufacturer?: string | null;
+  model?: string | null;
+  serial_number?: string | null;
+  status: string;
+}
+
+interface IssuedEquipment {
+  id: string;
+  item_name: string;
+  serial_number?: string | null;
+}
+
+interface CheckRow {
+  key: string;
+  label: string;
+  kind: ReadinessAnswer['kind'];
+  item_id?: string;
+  serial?: string | null;
+}
+
+const normalizeSerial = (value?: string | null) => (value || '').replace(/[\s-]/g, '').toUpperCase();
+
+// ── Guard form ──────────────────────────────────────────────────────────────
+
+/**
+ * Pre-shift checklist in the Guard Panel: the configured items plus the
+ * weapons and equipment issued to the guard. Reports the answers through
+ * onChange, or null until every row is answered.
+ */
+export function ReadinessCheckForm({
+  checklist,
+  employeeId,
+  onChange,
+}: {
+  checklist: ReadinessChecklist;
+  employeeId: string;
+  onChange: (answers: ReadinessAnswer[] | null) => void;
+}) {
+  const [states, setStates] = useState<Record<string, { ok?: boolean; note: string; value: string }>>({});
+
+  const { data: weaponsData, isLoading: weaponsLoading } = useQuery<{ weapons: IssuedWeapon[] }>({
+    queryKey: ['employee-weapons', employeeId],
+    queryFn: () => weaponsApi.getByEmployee(employeeId).then((res) => res.data),
+    enabled: checklist.include_issued_items,
+  });
+  const { data: equipmentData, isLoading: equipmentLoading } = useQuery<{ equipment: IssuedEquipment[] }>({
+    queryKey: ['employee-equipment', employeeId],
+    queryFn: () => equipmentApi.getByEmployee(employeeId).then((res) => res.data),
+    enabled: checklist.include_issued_items,
+  });
+
+  const rows = useMemo<CheckRow[]>(() => [
+    ...checklist.items.map((item) => ({ key: item.key, label: item.label, kind: 'item' as const })),
+    ...(checklist.include_issued_items ? weaponsData?.weapons || [] : [])
+      .filter((w) => w.status === 'assigned')
+      .map((w) => ({
+        key: `weapon_${w.id}`,
+        label: [w.weapon_type, w.manufacturer, w.model].filter(Boolean).join(' '),
+        kind: 'weapon' as const,
+        item_id: w.id,
+        serial: w.serial_number,
+      })),
+    ...(checklist.include_issued_items ? equipmentData?.equipment || [] : []).map((item) => ({
+      key: `equipment_${item.id}`,
+      label: item.serial_number ? `${item.item_name} (${item.serial_number})` : item.item_name,
+      kind: 'equipment' as const,
+      item_id: item.id,
+    })),
+  ], [checklist, weaponsData, equipmentData]);
+
+  useEffect(() => {
+    const answers: ReadinessAnswer[] = [];
+    for (const row of rows) {
+      const state = states[row.key];
+      if (state?.ok === undefined) return onChange(null);
+      if (row.kind === 'weapon' && state.ok && !state.value.trim()) return onChange(null);
+      answers.push({
+        key: row.key,
+        label: row.label,
+        kind: row.kind,
+        ok: row.kind === 'weapon' && state.ok && row.serial
+          ? normalizeSerial(state.value) === normalizeSerial(row.serial)
+          : state.ok,
+        note: state.note.trim() || undefined,
+        value: row.kind === 'weapon' ? state.value.trim() : undefined,
+        item_id: row.item_id,
+      });
+    }
+    onChange(answers);
+  }, [rows, states, onChange]);
+
+  const update = (key: string, patch: Partial<{ ok: boolean; note: string; value: string }>) =>
+    setStates((prev) => ({ ...prev, [key]: { ...(prev[key] || { note: '', value: '' }), ...patch } }));
+
+  if (checklist.include_issued_items && (weaponsLoading || equipmentLoading)) {
+    return (
+      <div className="card flex justify-center py-6">
+        <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="card space-y-3">
+      <div className="flex items-center gap-2">
+        <ListChecks className="w-5 h-5 text-primary-600" />
+        <h3 className="font-bold text-gray-900 font-heading">בדיקת כשירות לפני המשמרת</h3>
+      </div>
+      <p className="text-xs text-gray-500">סמן/י כל פריט. פריט חסר או תקול יועבר לאחראי המשמרת.</p>
+
+      {rows.map((row) => {
+        const state = states[row.key];
+        const serialMismatch = row.kind === 'weapon' && !!row.serial && !!state?.value.trim()
+          && normalizeSerial(state.value) !== normalizeSerial(row.serial);
+        return (
+          <div key={row.key} className="border-t border-gray-100 pt-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-900">
+                {row.kind === 'weapon' ? `נשק: ${row.label}` : row.label}
+              </span>
+              <div className="flex gap-1.5 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => update(row.key, { ok: true })}
+                  className={`btn-icon ${state?.ok === true ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-500'}`}
+                  aria-label="תקין"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update(row.key, { ok: false })}
+                  className={`btn-icon ${state?.ok === false ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-500'}`}
+                  aria-label="חסר או תקול"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {row.kind === 'weapon' && state?.ok && (
+              <>
+                <input
+                  value={state.value}
+                  onChange={(e) => update(row.key, { value: e.target.value })}
+                  className="input text-sm"
+                  placeholder="מספר סידורי כפי שמופיע על הנשק"
+                  dir="ltr"
+                />
+                {serialMismatch && (
+                  <p className="text-xs text-red-600">המספר אינו תואם לנשק שהונפק לך - הדבר ידווח לאחראי</p>
+                )}
+              </>
+            )}
+            {state?.ok === false && (
+              <input
+                value={state.note}
+                onChange={(e) => update(row.key, { note: e.target.value })}
+                className="input text-sm"
+                placeholder="מה חסר או תקול?"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ── Manager editor ──────────────────────────────────────────────────────────
+
+/**
+ * Checklist items of a site, or of a shift template (which then replaces the
+ * site's for shifts generated from it)
+ */
+export default function ReadinessChecklistEditor({ siteId, templateId }: { siteId?: string; templateId?: string }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<ReadinessItem[] | null>(null);
+  const [includeIssued, setIncludeIssued] = useState(true);
+  const [newLabel, setNewLabel] = useState('');
+  const queryKey = ['readiness-checklist', templateId ? 'template' : 'site', templateId || siteId];
+
+  const { data, isLoading } = useQuery<{ checklist: ReadinessChecklist }>({
+    queryKey,
+    queryFn: () => (templateId
+      ? shiftTemplatesApi.getReadinessChecklist(templateId)
+      : sitesGlobalApi.getReadinessChecklist(siteId!)
+    ).then((res) => res.data),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setItems(data.checklist.items);
+    setIncludeIssued(data.checklist.include_issued_items);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = { items: items || [], include_issued_items: includeIssued };
+      return templateId
+        ? shiftTemplatesApi.saveReadinessChecklist(templateId, payload)
+        : sitesGlobalApi.saveReadinessChecklist(siteId!, payload);
+    },
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success(res.data.message || 'רשימת הכשירות נשמרה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשמירת רשימת הכשירות');
+    },
+  });
+
+  const addItem = () => {
+    if (!newLabel.trim() || !items) return;
+    setItems([...items, { key: `item_${Date.now()}`, label: newLabel.trim() }]);
+    setNewLabel('');
+  };
+
+  if (!open) {
+    return (
+      <button type="button" onClick={() => setOpen(true)} className="mt-2 text-xs text-primary-600 hover:underline flex items-center gap-1">
+        <ListChecks className="w-3.5 h-3.5" />
+        בדיקת כשירות לפני משמרת
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-700">
+          בדיקת כשירות לפני משמרת
+          {data?.checklist.source === 'default' && ' · ברירת מחדל'}
+        </p>
+        <button type="button" onClick={() => setOpen(false)} className="text-xs text-gray-400 hover:text-gray-600">
+          סגור
+        </button>
+      </div>
+      {templateId && (
+        <p className="text-xs text-gray-400">רשימה שנשמרת לתבנית מחליפה את רשימת האתר במשמרות שנוצרות ממנה.</p>
+      )}
+
+      {isLoading || !items ? (
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      ) : (
+        <>
+          {items.map((item, i) => (
+            <div key={item.key} className="flex items-center gap-2">
+              <input
+                value={item.label}
+                onChange={(e) => setItems(items.map((it, j) => (j === i ? { ...it, label: e.target.value } : it)))}
+                className="input text-sm flex-1"
+              />
+              <button
+                type="button"
+                onClick={() => setItems(items.filter((_, j) => j !== i))}
+                className="btn-icon text-gray-400 hover:text-red-600"
+                aria-label="הסר פריט"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addItem();
+                }
+              }}
+              className="input text-sm flex-1"
+              placeholder="פריט חדש, למשל פנס תקין"
+            />
+            <button type="button" onClick={addItem} disabled={!newLabel.trim()} className="btn-icon text-primary-600" aria-label="הוסף פריט">
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeIssued}
+              onChange={(e) => setIncludeIssued(e.target.checked)}
+              className="w-4 h-4 text-primary-600 rounded border-gray-300 focus:ring-primary-500"
+            />
+            כולל נשק (אימות מספר סידורי) וציוד שהונפקו למאבטח
+          </label>
+          <button
+            type="button"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            className="btn-primary text-xs flex items-center gap-1.5"
+          >
+            {saveMutation.isPending && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            שמור רשימה
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { UserX, Phone, Send, Loader2, Settings, X, MapPin, Star } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { usePermissions } from '../hooks/usePermissions';
+import { SkeletonPulse } from './Skeleton';
+import type { AssignmentIssue, MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface ReplacementRequest {
+  id: string;
+  shift_id: string;
+  assignment_id: string;
+  employee_id: string;
+  employee_name: string;
+  phone?: string | null;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string | null;
+  site_address?: string | null;
+  company_name?: string | null;
+  created_at: string;
+}
+
+interface ShiftSuggestion {
+  employee_id: string;
+  employee_name: string;
+  phone?: string;
+  score: number;
+  reasons: string[];
+  distance_km?: number | null;
+  avg_rating?: number | null;
+}
+
+interface NoShowSettings {
+  late_after_minutes: number;
+  escalate_after_minutes: number;
+}
+
+function minutesSinceStart(request: ReplacementRequest): number {
+  return Math.max(0, Math.floor((Date.now() - new Date(`${request.date}T${request.start_time}`).getTime()) / 60000));
+}
+
+// ── Settings ────────────────────────────────────────────────────────────────
+
+function NoShowSettingsForm({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<NoShowSettings | null>(null);
+
+  const { data } = useQuery<NoShowSettings>({
+    queryKey: ['no-show-settings'],
+    queryFn: () => shiftsApi.getNoShowSettings().then((res) => res.data),
+  });
+  const values = draft || data;
+
+  const saveMutation = useMutation({
+    mutationFn: (settings: NoShowSettings) => shiftsApi.updateNoShowSettings(settings),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['no-show-settings'] });
+      toast.success(res.data.message || 'ההגדרות נשמרו');
+      onClose();
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשמירת ההגדרות');
+    },
+  });
+
+  if (!values) return <SkeletonPulse className="h-16 w-full rounded-xl mb-3" />;
+
+  return (
+    <div className="p-3.5 rounded-xl bg-gray-50 border border-gray-100 mb-3 space-y-2">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="label text-xs">תזכורת למאבטח אחרי (דקות)</label>
+          <input
+            type="number"
+            min={0}
+            value={values.late_after_minutes}
+            onChange={(e) => setDraft({ ...values, late_after_minutes: Number(e.target.value) })}
+            className="input text-sm"
+          />
+        </div>
+        <div>
+          <label className="label text-xs">הסלמה למנהלים אחרי (דקות)</label>
+          <input
+            type="number"
+            min={0}
+            value={values.escalate_after_minutes}
+            onChange={(e) => setDraft({ ...values, escalate_after_minutes: Number(e.target.value) })}
+            className="input text-sm"
+          />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => saveMutation.mutate(values)}
+          disabled={saveMutation.isPending}
+          className="btn-primary text-xs flex items-center gap-1.5"
+        >
+          {saveMutation.isPending && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          שמור
+        </button>
+        <button onClick={onClose} className="btn-secondary text-xs">
+          ביטול
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ── Single request ──────────────────────────────────────────────────────────
+
+function ReplacementRequestItem({ request }: { request: ReplacementRequest }) {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+
+  const { data, isLoading } = useQuery<{ suggestions: ShiftSuggestion[] }>({
+    queryKey: ['shift-suggestions', request.shift_id],
+    queryFn: () => shiftsApi.getShiftSuggestions(request.shift_id).then((res) => res.data),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['replacement-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-operations'] });
+    queryClient.invalidateQueries({ queryKey: ['shifts'] });
+  };
+
+  // Same flow as the roster board: a 409 lists the broken rules and asks for a reason
+  const askOverrideReason = (err: MutationError): string | null => {
+    if (err?.response?.status !== 409 || !can('shifts:override')) return null;
+    const issues = (err.response.data?.issues as AssignmentIssue[] | undefined) || [];
+    const reason = prompt(`${issues.map((i) => `• ${i.message}`).join('\n')}\n\nסיבת אישור חריגה:`);
+    return reason?.trim() || null;
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: ({ employeeId, overrideReason }: { employeeId: string; overrideReason?: string }) =>
+      shiftsApi.assignReplacement(request.id, employeeId, overrideReason),
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data.message || 'המחליף שובץ ועודכן');
+    },
+    onError: (err: MutationError, vars) => {
+      const reason = askOverrideReason(err);
+      if (reason) {
+        assignMutation.mutate({ ...vars, overrideReason: reason });
+        return;
+      }
+      toast.error(err?.response?.data?.error || 'שגיאה בשיבוץ מחליף');
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: () => shiftsApi.dismissReplacement(request.id),
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data.message || 'בקשת ההחלפה נסגרה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בסגירת הבקשה');
+    },
+  });
+
+  const suggestions = data?.suggestions || [];
+
+  return (
+    <div className="p-3.5 rounded-xl bg-red-50/40 border border-red-100">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium text-sm text-gray-900">
+            {request.site_name || request.company_name} · {request.start_time} - {request.end_time}
+          </p>
+          <p className="text-xs text-red-600 mt-0.5">
+            {request.employee_name} לא הגיע/ה · {minutesSinceStart(request)} דקות מתחילת המשמרת
+          </p>
+          {request.site_address && (
+            <p className="text-xs text-gray-400 mt-0.5 flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              {request.site_address}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-1.5 flex-shrink-0">
+          {request.phone && (
+            <a
+              href={`tel:${request.phone}`}
+              className="w-8 h-8 rounded-lg bg-red-50 hover:bg-red-100 flex items-center justify-center transition-colors"
+              title="התקשר למאבטח"
+            >
+              <Phone className="w-3.5 h-3.5 text-red-600" />
+            </a>
+          )}
+          <button
+            onClick={() => dismissMutation.mutate()}
+            disabled={dismissMutation.isPending}
+            className="w-8 h-8 rounded-lg hover:bg-gray-100 flex items-center justify-center transition-colors"
+            title="סגור בקשה ללא מחליף"
+          >
+            <X className="w-3.5 h-3.5 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-3 space-y-1.5">
+        {isLoading ? (
+          Array.from({ length: 2 }).map((_, i) => <SkeletonPulse key={i} className="h-10 w-full rounded-lg" />)
+        ) : suggestions.length === 0 ? (
+          <p className="text-xs text-gray-400">אין מאבטחים פנויים מתאימים</p>
+        ) : (
+          suggestions.map((s) => (
+            <div key={s.employee_id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-white border border-gray-100">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+                  {s.employee_name}
+                  <span className="text-xs font-bold text-primary-600">{s.score}</span>
+                  {s.avg_rating && (
+                    <span className="text-xs text-amber-600 flex items-center gap-0.5">
+                      <Star className="w-3 h-3" />
+                      {s.avg_rating}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 truncate">{s.reasons.slice(0, 2).join(' · ')}</p>
+              </div>
+              <button
+                onClick={() => assignMutation.mutate({ employeeId: s.employee_id })}
+                disabled={assignMutation.isPending}
+                className="btn-primary text-xs flex items-center gap-1.5 flex-shrink-0"
+              >
+                {assignMutation.isPending && assignMutation.variables?.employeeId === s.employee_id ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <Send className="w-3.5 h-3.5" />
+                )}
+                שבץ ועדכן
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ── Card ────────────────────────────────────────────────────────────────────
+
+/** Operations dashboard card: no-shows escalated by the scheduler, with suggested replacements */
+export default function ReplacementRequests() {
+  const [showSettings, setShowSettings] = useState(false);
+
+  const { data } = useQuery<{ requests: ReplacementRequest[] }>({
+    queryKey: ['replacement-requests'],
+    queryFn: () => shiftsApi.getReplacementRequests().then((res) => res.data),
+    refetchInterval: 60000,
+  });
+
+  const requests = data?.requests || [];
+  if (requests.length === 0 && !showSettings) {
+    return (
+      <div className="flex justify-end -mb-3">
+        <button
+          onClick={() => setShowSettings(true)}
+          className="text-xs text-gray-400 hover:text-gray-600 flex items-center gap-1"
+        >
+          <Settings className="w-3.5 h-3.5" />
+          הגדרות איחור ואי-הגעה
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`card ${requests.length > 0 ? 'ring-2 ring-red-200' : ''}`}>
+      <div className="section-header">
+        <div className="section-header-icon bg-gradient-to-br from-red-100 to-red-50">
+          <UserX className="w-4 h-4 text-red-500" />
+        </div>
+        <h3 className="section-header-title">נדרש מחליף</h3>
+        {requests.length > 0 && <span className="badge badge-danger">{requests.length}</span>}
+        <button
+          onClick={() => setShowSettings((v) => !v)}
+          className="btn-icon mr-auto"
+          title="הגדרות איחור ואי-הגעה"
+        >
+          <Settings className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showSettings && <NoShowSettingsForm onClose={() => setShowSettings(false)} />}
+
+      {requests.length > 0 ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+          {requests.map((request) => (
+            <ReplacementRequestItem key={request.id} request={request} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 text-center py-4">אין בקשות החלפה פתוחות</p>
+      )}
+    </div>
+  );
+}
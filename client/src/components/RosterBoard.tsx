@@ -0,0 +1,427 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, addDays } from 'date-fns';
+import { he } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+import { Search, Users, Shield, AlertTriangle, GripVertical, X } from 'lucide-react';
+import { shiftsApi, employeesApi } from '../services/api';
+import { usePermissions } from '../hooks/usePermissions';
+import type { AssignmentIssue, MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface RosterAssignment {
+  id: string;
+  shift_id: string;
+  employee_id: string;
+  employee_name: string;
+  role: string;
+  status: string;
+}
+
+export interface RosterShift {
+  id: string;
+  site_id?: string | null;
+  customer_id?: string | null;
+  company_name?: string;
+  site_name?: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  required_employees: number;
+  requires_weapon: boolean | number;
+  status: string;
+  assignments?: RosterAssignment[];
+}
+
+interface RosterEmployee {
+  id: string;
+  first_name: string;
+  last_name: string;
+  has_weapon_license?: boolean | number;
+}
+
+type DragItem =
+  | { kind: 'employee'; employeeId: string }
+  | { kind: 'assignment'; employeeId: string; assignmentId: string; fromShiftId: string };
+
+interface Conflict {
+  label: string;
+  blocking: boolean;
+}
+
+interface RosterBoardProps {
+  weekStart: Date;
+  shifts: RosterShift[];
+  onOpenShift: (shiftId: string) => void;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+// Shifts whose end time is not after the start time end on the following day
+function shiftRange(s: RosterShift): [number, number] {
+  const start = new Date(`${s.date}T${s.start_time}`).getTime();
+  let end = new Date(`${s.date}T${s.end_time}`).getTime();
+  if (end <= start) end += 24 * 60 * 60 * 1000;
+  return [start, end];
+}
+
+// Quick preview; the server runs the full rule check on assign
+function overlaps(a: RosterShift, b: RosterShift): boolean {
+  const [aStart, aEnd] = shiftRange(a);
+  const [bStart, bEnd] = shiftRange(b);
+  return aStart < bEnd && aEnd > bStart;
+}
+
+function getConflicts(
+  item: DragItem,
+  target: RosterShift,
+  shifts: RosterShift[],
+  employee?: RosterEmployee
+): Conflict[] {
+  const conflicts: Conflict[] = [];
+  const assignments = target.assignments || [];
+
+  if (item.kind === 'assignment' && item.fromShiftId === target.id) return conflicts;
+
+  if (assignments.some((a) => a.employee_id === item.employeeId)) {
+    conflicts.push({ label: 'כבר משובץ', blocking: true });
+    return conflicts;
+  }
+
+  const clash = shifts.find(
+    (s) =>
+      s.id !== target.id &&
+      !(item.kind === 'assignment' && s.id === item.fromShiftId) &&
+      overlaps(s, target) &&
+      (s.assignments || []).some((a) => a.employee_id === item.employeeId)
+  );
+  if (clash) {
+    conflicts.push({ label: `חופף ל${clash.site_name || clash.company_name || 'משמרת'}`, blocking: true });
+  }
+
+  if (target.requires_weapon && employee && !employee.has_weapon_license) {
+    conflicts.push({ label: 'ללא רישיון נשק', blocking: false });
+  }
+
+  if (assignments.length >= target.required_employees) {
+    conflicts.push({ label: 'מאויש במלואו', blocking: false });
+  }
+
+  return conflicts;
+}
+
+function staffingClasses(assigned: number, required: number): string {
+  if (assigned > required) return 'bg-warning-50/80 border border-warning-100 border-r-4 border-r-warning-300';
+  if (assigned === required) return 'bg-success-50/80 border border-success-100 border-r-4 border-r-success-300';
+  if (assigned > 0) return 'bg-warning-50/80 border border-warning-100 border-r-4 border-r-warning-300';
+  return 'bg-danger-50/80 border border-danger-100 border-r-4 border-r-danger-300';
+}
+
+function staffingLabel(assigned: number, required: number): string {
+  if (assigned > required) return `+${assigned - required} עודף`;
+  if (assigned < required) return `חסרים ${required - assigned}`;
+  return 'מאויש';
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function RosterBoard({ weekStart, shifts, onOpenShift }: RosterBoardProps) {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [search, setSearch] = useState('');
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [hoverShiftId, setHoverShiftId] = useState<string | null>(null);
+
+  const { data: employeesData } = useQuery({
+    queryKey: ['employees-active'],
+    queryFn: () => employeesApi.getAll({ status: 'active', limit: 200 }).then((res) => res.data),
+  });
+
+  const employees: RosterEmployee[] = employeesData?.employees ?? [];
+  const employeeMap = useMemo(() => new Map(employees.map((e) => [e.id, e])), [employees]);
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  // Rows: one per site that has shifts this week
+  const rows = useMemo(() => {
+    const map = new Map<string, { key: string; site_name: string; company_name: string }>();
+    for (const s of shifts) {
+      const key = s.site_id || `customer:${s.customer_id || ''}`;
+      if (!map.has(key)) {
+        map.set(key, { key, site_name: s.site_name || 'ללא אתר', company_name: s.company_name || '' });
+      }
+    }
+    return [...map.values()].sort((a, b) =>
+      `${a.company_name} ${a.site_name}`.localeCompare(`${b.company_name} ${b.site_name}`, 'he')
+    );
+  }, [shifts]);
+
+  const shiftCountByEmployee = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const s of shifts) {
+      for (const a of s.assignments || []) {
+        counts[a.employee_id] = (counts[a.employee_id] || 0) + 1;
+      }
+    }
+    return counts;
+  }, [shifts]);
+
+  const filteredEmployees = employees.filter((e) =>
+    `${e.first_name} ${e.last_name}`.includes(search.trim())
+  );
+
+  // The server answers 409 with the rule violations when a manager override is
+  // needed; ask for a reason and let the caller retry with it.
+  const askOverrideReason = (err: MutationError): string | null => {
+    if (err?.response?.status !== 409 || !can('shifts:override')) return null;
+    const issues = (err.response.data?.issues as AssignmentIssue[] | undefined) || [];
+    const reason = prompt(`${issues.map((i) => `• ${i.message}`).join('\n')}\n\nסיבת אישור חריגה:`);
+    return reason?.trim() || null;
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: ({ shiftId, employeeId, overrideReason }: { shiftId: string; employeeId: string; overrideReason?: string }) =>
+      shiftsApi.assign(shiftId, { employee_id: employeeId, role: 'guard', override_reason: overrideReason }),
+    onSuccess: (_res, vars) => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-detail', vars.shiftId] });
+      toast.success('העובד שובץ בהצלחה');
+    },
+    onError: (err: MutationError, vars) => {
+      const reason = askOverrideReason(err);
+      if (reason) {
+        assignMutation.mutate({ ...vars, overrideReason: reason });
+        return;
+      }
+      toast.error(err?.response?.data?.error || 'שגיאה בשיבוץ העובד');
+    },
+  });
+
+  // The server moves the assignment in one step, keeping its role and punches
+  const moveMutation = useMutation({
+    mutationFn: ({ item, toShiftId, overrideReason }: { item: Extract<DragItem, { kind: 'assignment' }>; toShiftId: string; overrideReason?: string }) =>
+      shiftsApi.moveAssignment(item.fromShiftId, item.assignmentId, { to_shift_id: toShiftId, override_reason: overrideReason }),
+    onSuccess: (_res, vars) => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-detail', vars.item.fromShiftId] });
+      queryClient.invalidateQueries({ queryKey: ['shift-detail', vars.toShiftId] });
+      toast.success('השיבוץ הועבר');
+    },
+    onError: (err: MutationError, vars) => {
+      const reason = askOverrideReason(err);
+      if (reason) {
+        moveMutation.mutate({ ...vars, overrideReason: reason });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      toast.error(err?.response?.data?.error || 'שגיאה בהעברת השיבוץ');
+    },
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: ({ shiftId, assignmentId }: { shiftId: string; assignmentId: string }) =>
+      shiftsApi.unassign(shiftId, assignmentId),
+    onSuccess: (_res, vars) => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-detail', vars.shiftId] });
+      toast.success('העובד הוסר מהמשמרת');
+    },
+    onError: () => toast.error('שגיאה בהסרת העובד'),
+  });
+
+  const isBusy = assignMutation.isPending || moveMutation.isPending || unassignMutation.isPending;
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', item.employeeId);
+    setDragItem(item);
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setHoverShiftId(null);
+  };
+
+  const handleDrop = (target: RosterShift) => {
+    const item = dragItem;
+    endDrag();
+    if (!item || isBusy) return;
+    if (item.kind === 'assignment' && item.fromShiftId === target.id) return;
+
+    const conflicts = getConflicts(item, target, shifts, employeeMap.get(item.employeeId));
+    const blocking = conflicts.find((c) => c.blocking);
+    if (blocking) {
+      toast.error(blocking.label);
+      return;
+    }
+    if (conflicts.length > 0 && !confirm(`${conflicts.map((c) => c.label).join(', ')}. לשבץ בכל זאת?`)) {
+      return;
+    }
+
+    if (item.kind === 'employee') {
+      assignMutation.mutate({ shiftId: target.id, employeeId: item.employeeId });
+    } else {
+      moveMutation.mutate({ item, toShiftId: target.id });
+    }
+  };
+
+  const shiftsFor = (rowKey: string, dateStr: string) =>
+    shifts.filter((s) => (s.site_id || `customer:${s.customer_id || ''}`) === rowKey && s.date === dateStr);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4">
+      {/* Employees panel */}
+      <div className="card !p-3 lg:w-60 flex-shrink-0 lg:max-h-[75vh] flex flex-col">
+        <div className="flex items-center gap-2 mb-3">
+          <Users className="w-4 h-4 text-primary-600" />
+          <h3 className="text-sm font-semibold text-gray-900">עובדים</h3>
+          <span className="text-xs text-gray-400">({employees.length})</span>
+        </div>
+        <div className="relative mb-3">
+          <Search className="w-4 h-4 text-gray-400 absolute right-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="חיפוש עובד..."
+            className="input !pr-9 text-sm"
+          />
+        </div>
+        <div className="flex lg:flex-col gap-1.5 overflow-x-auto lg:overflow-y-auto">
+          {filteredEmployees.map((emp) => (
+            <div
+              key={emp.id}
+              draggable
+              onDragStart={(e) => startDrag(e, { kind: 'employee', employeeId: emp.id })}
+              onDragEnd={endDrag}
+              className="flex items-center gap-1.5 px-2 py-1.5 rounded-lg bg-gray-50 hover:bg-primary-50 border border-gray-100 text-xs cursor-grab active:cursor-grabbing flex-shrink-0"
+            >
+              <GripVertical className="w-3.5 h-3.5 text-gray-300" />
+              <span className="flex-1 truncate text-gray-800">{emp.first_name} {emp.last_name}</span>
+              {!!emp.has_weapon_license && <Shield className="w-3 h-3 text-amber-500" />}
+              <span className="text-gray-400 font-mono">{shiftCountByEmployee[emp.id] || 0}</span>
+            </div>
+          ))}
+          {filteredEmployees.length === 0 && (
+            <p className="text-xs text-gray-400 text-center py-4">לא נמצאו עובדים</p>
+          )}
+        </div>
+      </div>
+
+      {/* Board */}
+      <div className="card !p-0 flex-1 overflow-x-auto">
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-12">אין משמרות בשבוע זה</p>
+        ) : (
+          <table className="w-full text-xs border-collapse min-w-[900px]">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="p-2 text-right font-semibold text-gray-600 w-40 sticky right-0 bg-gray-50">אתר</th>
+                {days.map((day) => (
+                  <th key={day.toISOString()} className="p-2 text-center font-medium text-gray-500">
+                    <div>{format(day, 'EEEE', { locale: he })}</div>
+                    <div className="text-gray-900 font-bold">{format(day, 'd/M')}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.key} className="border-t border-gray-100 align-top">
+                  <td className="p-2 sticky right-0 bg-white">
+                    <p className="font-medium text-gray-900 truncate">{row.site_name}</p>
+                    <p className="text-gray-400 truncate">{row.company_name}</p>
+                  </td>
+                  {days.map((day) => {
+                    const dateStr = format(day, 'yyyy-MM-dd');
+                    return (
+                      <td key={dateStr} className="p-1.5 space-y-1.5 min-w-[120px]">
+                        {shiftsFor(row.key, dateStr).map((shift) => {
+                          const assignments = shift.assignments || [];
+                          const conflicts = dragItem
+                            ? getConflicts(dragItem, shift, shifts, employeeMap.get(dragItem.employeeId))
+                            : [];
+                          const hasBlocking = conflicts.some((c) => c.blocking);
+                          const isHover = hoverShiftId === shift.id;
+                          return (
+                            <div
+                              key={shift.id}
+                              onDragOver={(e) => {
+                                if (!dragItem) return;
+                                e.preventDefault();
+                                e.dataTransfer.dropEffect = hasBlocking ? 'none' : 'move';
+                                if (hoverShiftId !== shift.id) setHoverShiftId(shift.id);
+                              }}
+                              onDragLeave={() => isHover && setHoverShiftId(null)}
+                              onDrop={(e) => {
+                                e.preventDefault();
+                                handleDrop(shift);
+                              }}
+                              className={`p-1.5 rounded-lg transition-all ${staffingClasses(assignments.length, shift.required_employees)} ${
+                                isHover ? (hasBlocking ? 'ring-2 ring-danger-400' : 'ring-2 ring-primary-400') : ''
+                              }`}
+                            >
+                              <button
+                                onClick={() => onOpenShift(shift.id)}
+                                className="w-full flex items-center justify-between gap-1 text-gray-700 hover:text-primary-700"
+                              >
+                                <span className="font-mono">{shift.start_time}-{shift.end_time}</span>
+                                {!!shift.requires_weapon && <Shield className="w-3 h-3 text-amber-500" />}
+                              </button>
+                              <p className="text-[10px] text-gray-500 mt-0.5">
+                                {assignments.length}/{shift.required_employees} · {staffingLabel(assignments.length, shift.required_employees)}
+                              </p>
+
+                              <div className="mt-1 space-y-1">
+                                {assignments.map((a) => (
+                                  <div
+                                    key={a.id}
+                                    draggable
+                                    onDragStart={(e) =>
+                                      startDrag(e, { kind: 'assignment', employeeId: a.employee_id, assignmentId: a.id, fromShiftId: shift.id })
+                                    }
+                                    onDragEnd={endDrag}
+                                    className="group flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/80 border border-gray-200 cursor-grab active:cursor-grabbing"
+                                  >
+                                    <span className="flex-1 truncate">{a.employee_name}</span>
+                                    <button
+                                      onClick={() => unassignMutation.mutate({ shiftId: shift.id, assignmentId: a.id })}
+                                      className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                                      title="הסר מהמשמרת"
+                                    >
+                                      <X className="w-3 h-3" />
+                                    </button>
+                                  </div>
+                                ))}
+                              </div>
+
+                              {conflicts.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {conflicts.map((c) => (
+                                    <span
+                                      key={c.label}
+                                      className={`inline-flex items-center gap-0.5 text-[10px] rounded-full px-1.5 py-0.5 ${
+                                        c.blocking ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                                      }`}
+                                    >
+                                      <AlertTriangle className="w-2.5 h-2.5" />
+                                      {c.label}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
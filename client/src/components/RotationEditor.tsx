@@ -0,0 +1,351 @@
+import { useQuery } from '@tanstack/react-query';
+import { format, addDays } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { Plus, X, Users, Clock, RefreshCw } from 'lucide-react';
+import { employeesApi } from '../services/api';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface RotationCrew {
+  key: string;
+  name: string;
+  employee_ids: string[];
+}
+
+export interface RotationSlot {
+  key: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface Rotation {
+  anchor_date: string;
+  cycle_days: number;
+  crews: RotationCrew[];
+  slots: RotationSlot[];
+  /** Crew key (or null) per slot, per day of the cycle */
+  schedule: (string | null)[][];
+}
+
+interface RotationEmployee {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+// ── Presets ─────────────────────────────────────────────────────────────────
+
+const CREW_KEYS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+const CREW_LABELS = ['א', 'ב', 'ג', 'ד', 'ה', 'ו', 'ז', 'ח'];
+const CREW_COLORS = [
+  'bg-blue-100 text-blue-800',
+  'bg-emerald-100 text-emerald-800',
+  'bg-amber-100 text-amber-800',
+  'bg-purple-100 text-purple-800',
+  'bg-rose-100 text-rose-800',
+  'bg-cyan-100 text-cyan-800',
+  'bg-lime-100 text-lime-800',
+  'bg-orange-100 text-orange-800',
+];
+
+const DAY_SLOT: RotationSlot = { key: 'day', name: 'יום', start_time: '07:00', end_time: '19:00' };
+const NIGHT_SLOT: RotationSlot = { key: 'night', name: 'לילה', start_time: '19:00', end_time: '07:00' };
+
+const crews = (count: number): RotationCrew[] =>
+  CREW_KEYS.slice(0, count).map((key, i) => ({ key, name: `צוות ${CREW_LABELS[i]}`, employee_ids: [] }));
+
+// Panama (2-2-3): days of the 14-day cycle the first crew of each slot works
+const PANAMA_ON = new Set([0, 1, 4, 5, 6, 9, 10]);
+
+export const ROTATION_PRESETS: { key: string; label: string; build: (anchor: string) => Rotation }[] = [
+  {
+    key: '4on4off',
+    label: '4 עבודה / 4 מנוחה',
+    build: (anchor) => ({
+      anchor_date: anchor,
+      cycle_days: 8,
+      crews: crews(4),
+      slots: [DAY_SLOT, NIGHT_SLOT],
+      schedule: Array.from({ length: 8 }, (_, d) => (d < 4 ? ['A', 'B'] : ['C', 'D'])),
+    }),
+  },
+  {
+    key: '223',
+    label: '2-2-3',
+    build: (anchor) => ({
+      anchor_date: anchor,
+      cycle_days: 14,
+      crews: crews(4),
+      slots: [DAY_SLOT, NIGHT_SLOT],
+      schedule: Array.from({ length: 14 }, (_, d) => (PANAMA_ON.has(d) ? ['A', 'B'] : ['C', 'D'])),
+    }),
+  },
+  {
+    key: 'day_night',
+    label: 'יום/לילה מתחלף שבועי',
+    build: (anchor) => ({
+      anchor_date: anchor,
+      cycle_days: 14,
+      crews: crews(2),
+      slots: [DAY_SLOT, NIGHT_SLOT],
+      schedule: Array.from({ length: 14 }, (_, d) => (d < 7 ? ['A', 'B'] : ['B', 'A'])),
+    }),
+  },
+];
+
+export function parseRotation(raw: unknown): Rotation | null {
+  if (!raw) return null;
+  try {
+    return (typeof raw === 'string' ? JSON.parse(raw) : raw) as Rotation;
+  } catch {
+    return null;
+  }
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function RotationEditor({
+  value,
+  onChange,
+}: {
+  value: Rotation;
+  onChange: (rotation: Rotation) => void;
+}) {
+  const { data: employeesData } = useQuery({
+    queryKey: ['employees-active'],
+    queryFn: () => employeesApi.getAll({ status: 'active', limit: 200 }).then((res) => res.data),
+  });
+  const employees: RotationEmployee[] = employeesData?.employees ?? [];
+  const employeeName = (id: string) => {
+    const e = employees.find((x) => x.id === id);
+    return e ? `${e.first_name} ${e.last_name}` : '...';
+  };
+
+  const crewIndex = (key: string | null) => value.crews.findIndex((c) => c.key === key);
+
+  const setCycleDays = (days: number) => {
+    const cycleDays = Math.min(Math.max(days || 1, 1), 56);
+    const schedule = Array.from({ length: cycleDays }, (_, d) => value.schedule[d] || value.slots.map(() => null));
+    onChange({ ...value, cycle_days: cycleDays, schedule });
+  };
+
+  const updateCrew = (key: string, patch: Partial<RotationCrew>) =>
+    onChange({ ...value, crews: value.crews.map((c) => (c.key === key ? { ...c, ...patch } : c)) });
+
+  const addCrew = () => {
+    const i = CREW_KEYS.findIndex((k) => !value.crews.some((c) => c.key === k));
+    if (i === -1) return;
+    onChange({ ...value, crews: [...value.crews, { key: CREW_KEYS[i], name: `צוות ${CREW_LABELS[i]}`, employee_ids: [] }] });
+  };
+
+  const removeCrew = (key: string) =>
+    onChange({
+      ...value,
+      crews: value.crews.filter((c) => c.key !== key),
+      schedule: value.schedule.map((row) => row.map((k) => (k === key ? null : k))),
+    });
+
+  const updateSlot = (index: number, patch: Partial<RotationSlot>) =>
+    onChange({ ...value, slots: value.slots.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+
+  const addSlot = () =>
+    onChange({
+      ...value,
+      slots: [...value.slots, { key: `slot-${Date.now()}`, name: '', start_time: '08:00', end_time: '16:00' }],
+      schedule: value.schedule.map((row) => [...row, null]),
+    });
+
+  const removeSlot = (index: number) =>
+    onChange({
+      ...value,
+      slots: value.slots.filter((_, i) => i !== index),
+      schedule: value.schedule.map((row) => row.filter((_, i) => i !== index)),
+    });
+
+  const setCell = (day: number, slot: number, crewKey: string | null) =>
+    onChange({
+      ...value,
+      schedule: value.schedule.map((row, d) => (d === day ? row.map((k, s) => (s === slot ? crewKey : k)) : row)),
+    });
+
+  const anchor = new Date(value.anchor_date + 'T00:00:00');
+
+  return (
+    <div className="space-y-4">
+      {/* Presets */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-500 flex items-center gap-1">
+          <RefreshCw className="w-3.5 h-3.5" />
+          תבנית מוכנה:
+        </span>
+        {ROTATION_PRESETS.map((p) => (
+          <button
+            key={p.key}
+            type="button"
+            onClick={() => onChange(p.build(value.anchor_date))}
+            className="px-2.5 py-1 rounded-lg text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="label">תאריך עוגן (יום 1 בסבב) *</label>
+          <input
+            type="date"
+            value={value.anchor_date}
+            onChange={(e) => e.target.value && onChange({ ...value, anchor_date: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="label">אורך סבב (ימים)</label>
+          <input
+            type="number"
+            min="1"
+            max="56"
+            value={value.cycle_days}
+            onChange={(e) => setCycleDays(parseInt(e.target.value))}
+            className="input"
+          />
+        </div>
+      </div>
+
+      {/* Slots */}
+      <div>
+        <label className="label flex items-center gap-1">
+          <Clock className="w-3.5 h-3.5" />
+          משמרות ביום
+        </label>
+        <div className="space-y-2">
+          {value.slots.map((slot, i) => (
+            <div key={slot.key} className="flex items-center gap-2">
+              <input
+                value={slot.name}
+                onChange={(e) => updateSlot(i, { name: e.target.value })}
+                className="input py-1.5 text-sm"
+                placeholder="שם (לדוג׳ יום)"
+              />
+              <input type="time" value={slot.start_time} onChange={(e) => updateSlot(i, { start_time: e.target.value })} className="input py-1.5 text-sm w-28" />
+              <input type="time" value={slot.end_time} onChange={(e) => updateSlot(i, { end_time: e.target.value })} className="input py-1.5 text-sm w-28" />
+              <button type="button" onClick={() => removeSlot(i)} disabled={value.slots.length === 1} className="btn-icon disabled:opacity-30">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={addSlot} className="text-xs text-primary-600 hover:text-primary-700 flex items-center gap-1">
+            <Plus className="w-3.5 h-3.5" />
+            הוסף משמרת
+          </button>
+        </div>
+      </div>
+
+      {/* Crews */}
+      <div>
+        <label className="label flex items-center gap-1">
+          <Users className="w-3.5 h-3.5" />
+          צוותים
+        </label>
+        <div className="space-y-2">
+          {value.crews.map((crew, i) => (
+            <div key={crew.key} className="border border-gray-100 rounded-xl p-2.5 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className={`px-2 py-0.5 rounded-md text-xs font-bold ${CREW_COLORS[i % CREW_COLORS.length]}`}>{crew.key}</span>
+                <input
+                  value={crew.name}
+                  onChange={(e) => updateCrew(crew.key, { name: e.target.value })}
+                  className="input py-1.5 text-sm"
+                  placeholder="שם הצוות"
+                />
+                <button type="button" onClick={() => removeCrew(crew.key)} disabled={value.crews.length === 1} className="btn-icon disabled:opacity-30">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {crew.employee_ids.map((id) => (
+                  <span key={id} className="badge-gray flex items-center gap-1">
+                    {employeeName(id)}
+                    <button
+                      type="button"
+                      onClick={() => updateCrew(crew.key, { employee_ids: crew.employee_ids.filter((x) => x !== id) })}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && updateCrew(crew.key, { employee_ids: [...crew.employee_ids, e.target.value] })}
+                  className="input py-1 text-xs w-40"
+                >
+                  <option value="">+ הוסף עובד...</option>
+                  {employees
+                    .filter((e) => !value.crews.some((c) => c.employee_ids.includes(e.id)))
+                    .map((e) => (
+                      <option key={e.id} value={e.id}>{e.first_name} {e.last_name}</option>
+                    ))}
+                </select>
+              </div>
+            </div>
+          ))}
+          {value.crews.length < CREW_KEYS.length && (
+            <button type="button" onClick={addCrew} className="text-xs text-primary-600 hover:text-primary-700 flex items-center gap-1">
+              <Plus className="w-3.5 h-3.5" />
+              הוסף צוות
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Cycle grid */}
+      <div>
+        <label className="label">לוח הסבב</label>
+        <div className="max-h-64 overflow-y-auto border border-gray-100 rounded-xl">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-50">
+              <tr className="text-gray-500">
+                <th className="text-right py-1.5 px-2 font-medium">יום בסבב</th>
+                {value.slots.map((slot) => (
+                  <th key={slot.key} className="text-right py-1.5 px-2 font-medium">
+                    {slot.name || `${slot.start_time}-${slot.end_time}`}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {value.schedule.map((row, day) => (
+                <tr key={day}>
+                  <td className="py-1 px-2 text-gray-600 whitespace-nowrap">
+                    {day + 1}
+                    <span className="text-gray-400"> · {format(addDays(anchor, day), 'EEE d/M', { locale: he })}</span>
+                  </td>
+                  {row.map((crewKey, slot) => {
+                    const ci = crewIndex(crewKey);
+                    return (
+                      <td key={slot} className="py-1 px-2">
+                        <select
+                          value={crewKey || ''}
+                          onChange={(e) => setCell(day, slot, e.target.value || null)}
+                          className={`rounded-md border-0 text-xs py-1 px-1.5 ${ci >= 0 ? CREW_COLORS[ci % CREW_COLORS.length] : 'bg-gray-50 text-gray-400'}`}
+                        >
+                          <option value="">—</option>
+                          {value.crews.map((c) => (
+                            <option key={c.key} value={c.key}>{c.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">הסבב חוזר על עצמו מתאריך העוגן, גם לאחור וגם קדימה.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,468 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { GoogleMap, Marker, Polyline, InfoWindow } from '@react-google-maps/api';
+import { format } from 'date-fns';
+import { ArrowRight, Play, Pause, RotateCcw, History, MapPin, QrCode, Clock, Loader2 } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { parsePunchTime, formatPunchTime } from './PunchCorrectionModal';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface ReplayAssignmentRow {
+  assignment_id: string;
+  status: string;
+  employee_name: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string | null;
+  company_name?: string | null;
+  check_in_time: string;
+  check_out_time?: string | null;
+  point_count: number;
+  scan_count: number;
+}
+
+interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  recorded_at: string;
+}
+
+interface CheckpointScan {
+  id: string;
+  checkpoint_name?: string | null;
+  status: string;
+  observation?: string | null;
+  method?: string | null;
+  checked_at: string;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+interface Stop {
+  latitude: number;
+  longitude: number;
+  started_at: string;
+  ended_at: string;
+  minutes: number;
+}
+
+interface Replay {
+  assignment: {
+    assignment_id: string;
+    employee_name: string;
+    date: string;
+    start_time: string;
+    end_time: string;
+    site_name?: string | null;
+    company_name?: string | null;
+    site_latitude?: number | null;
+    site_longitude?: number | null;
+    check_in_time?: string | null;
+    check_out_time?: string | null;
+  };
+  points: TrackPoint[];
+  scans: CheckpointScan[];
+  stops: Stop[];
+}
+
+type Selection = { kind: 'scan'; scan: CheckpointScan } | { kind: 'stop'; stop: Stop } | null;
+
+// Playback speeds: shift minutes per real second
+const SPEEDS = [1, 5, 15, 30];
+const TICK_MS = 200;
+
+const mapContainerStyle = { width: '100%', height: '100%' };
+const defaultCenter = { lat: 31.5, lng: 34.8 };
+
+const svgIcon = (svg: string, size: number) => ({
+  url: 'data:image/svg+xml,' + encodeURIComponent(svg),
+  scaledSize: { width: size, height: size } as google.maps.Size,
+  anchor: { x: size / 2, y: size / 2 } as google.maps.Point,
+});
+
+const guardIcon = svgIcon('<svg xmlns="http://www.w3.org/2000/svg" width="28" height="28"><circle cx="14" cy="14" r="11" fill="#2563EB" stroke="white" stroke-width="3"/></svg>', 28);
+const siteIcon = svgIcon('<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20"><circle cx="10" cy="10" r="8" fill="#9CA3AF" stroke="white" stroke-width="2"/></svg>', 20);
+const stopIcon = svgIcon('<svg xmlns="http://www.w3.org/2000/svg" width="26" height="26"><circle cx="13" cy="13" r="11" fill="#F59E0B" fill-opacity="0.85" stroke="white" stroke-width="2"/><rect x="9" y="8" width="3" height="10" fill="white"/><rect x="14" y="8" width="3" height="10" fill="white"/></svg>', 26);
+
+function scanIcon(issue: boolean, reached: boolean) {
+  const color = issue ? '#DC2626' : '#16A34A';
+  return svgIcon(`<svg xmlns="http://www.w3.org/2000/svg" width="22" height="22"><rect x="3" y="3" width="16" height="16" rx="3" fill="${color}" fill-opacity="${reached ? 1 : 0.35}" stroke="white" stroke-width="2"/></svg>`, 22);
+}
+
+const timeOf = (value?: string | null) => parsePunchTime(value)?.getTime() ?? NaN;
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} דקות`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} ש' ו-${rest} דק'` : `${hours} שעות`;
+}
+
+/** Guard position at a moment: interpolated between the two surrounding points */
+function positionAt(points: TrackPoint[], times: number[], at: number) {
+  if (points.length === 0 || at < times[0]) return null;
+  let i = 0;
+  while (i + 1 < times.length && times[i + 1] <= at) i++;
+  const a = points[i];
+  const b = points[i + 1];
+  if (!b) return { lat: a.latitude, lng: a.longitude, index: i };
+  const f = (at - times[i]) / (times[i + 1] - times[i] || 1);
+  return {
+    lat: a.latitude + (b.latitude - a.latitude) * f,
+    lng: a.longitude + (b.longitude - a.longitude) * f,
+    index: i,
+  };
+}
+
+// ── Shift picker ────────────────────────────────────────────────────────────
+
+function ReplayAssignmentList({ onSelect }: { onSelect: (assignmentId: string) => void }) {
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  const { data, isLoading } = useQuery<{ assignments: ReplayAssignmentRow[] }>({
+    queryKey: ['replay-assignments', date],
+    queryFn: () => shiftsApi.getReplayAssignments(date).then((res) => res.data),
+    enabled: !!date,
+  });
+  const assignments = data?.assignments || [];
+
+  return (
+    <>
+      <div className="p-3 border-b border-gray-100">
+        <label className="label">תאריך המשמרת</label>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="input text-sm" />
+      </div>
+      {isLoading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+        </div>
+      ) : assignments.length === 0 ? (
+        <p className="p-8 text-center text-sm text-gray-400">אין משמרות עם כניסה בתאריך זה</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {assignments.map((a) => (
+            <button
+              key={a.assignment_id}
+              onClick={() => onSelect(a.assignment_id)}
+              className="w-full text-right p-3 hover:bg-gray-50 transition-colors"
+            >
+              <p className="font-medium text-sm text-gray-900">{a.employee_name}</p>
+              <p className="text-xs text-gray-500 mt-1">{a.site_name || a.company_name} · {a.start_time}-{a.end_time}</p>
+              <p className="text-xs text-gray-400 mt-1">
+                {a.point_count} נקודות מיקום · {a.scan_count} סריקות
+                {a.status === 'checked_in' && ' · במשמרת'}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+// ── Replay ──────────────────────────────────────────────────────────────────
+
+/**
+ * Replay of a guard's shift on the map: the track drawn up to the slider
+ * time, checkpoint scans from the patrol log, and the places the guard
+ * stayed in one spot. Starts on the given assignment, or on a day's list.
+ */
+export default function RouteReplay({ assignmentId, onClose }: { assignmentId: string | null; onClose: () => void }) {
+  const [selectedId, setSelectedId] = useState<string | null>(assignmentId);
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [current, setCurrent] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1]);
+  const [selection, setSelection] = useState<Selection>(null);
+
+  const { data: replay, isLoading } = useQuery<Replay>({
+    queryKey: ['route-replay', selectedId],
+    queryFn: () => shiftsApi.getRouteReplay(selectedId!).then((res) => res.data),
+    enabled: !!selectedId,
+  });
+
+  const points = useMemo(() => replay?.points ?? [], [replay]);
+  const times = useMemo(() => points.map((p) => timeOf(p.recorded_at)), [points]);
+
+  // The slider spans the check-in to the check-out, or the track when wider
+  const [start, end] = useMemo(() => {
+    if (!replay) return [0, 0];
+    const from = Math.min(...[timeOf(replay.assignment.check_in_time), times[0]].filter(Number.isFinite));
+    const until = Math.max(...[timeOf(replay.assignment.check_out_time), times[times.length - 1]].filter(Number.isFinite));
+    return Number.isFinite(from) && Number.isFinite(until) ? [from, Math.max(from, until)] : [0, 0];
+  }, [replay, times]);
+
+  useEffect(() => {
+    setCurrent(start);
+    setPlaying(false);
+    setSelection(null);
+  }, [start, selectedId]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setInterval(() => {
+      setCurrent((t) => {
+        const next = t + TICK_MS * speed * 60;
+        if (next >= end) {
+          setPlaying(false);
+          return end;
+        }
+        return next;
+      });
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, speed, end]);
+
+  // Frame the whole track when a shift is loaded
+  useEffect(() => {
+    if (!map || !replay) return;
+    const bounds = new google.maps.LatLngBounds();
+    points.forEach((p) => bounds.extend({ lat: p.latitude, lng: p.longitude }));
+    replay.scans.forEach((s) => s.latitude != null && s.longitude != null && bounds.extend({ lat: s.latitude, lng: s.longitude }));
+    if (replay.assignment.site_latitude != null && replay.assignment.site_longitude != null) {
+      bounds.extend({ lat: replay.assignment.site_latitude, lng: replay.assignment.site_longitude });
+    }
+    if (!bounds.isEmpty()) map.fitBounds(bounds, 60);
+  }, [map, replay, points]);
+
+  const position = positionAt(points, times, current);
+  const walked = position
+    ? [...points.slice(0, position.index + 1).map((p) => ({ lat: p.latitude, lng: p.longitude })), { lat: position.lat, lng: position.lng }]
+    : [];
+  const fullPath = useMemo(() => points.map((p) => ({ lat: p.latitude, lng: p.longitude })), [points]);
+  const locatedScans = (replay?.scans || []).filter((s) => s.latitude != null && s.longitude != null);
+
+  const jumpTo = (value?: string | null) => {
+    const t = timeOf(value);
+    if (Number.isFinite(t)) {
+      setCurrent(Math.min(Math.max(t, start), end));
+      setPlaying(false);
+    }
+  };
+
+  const togglePlay = () => {
+    if (!playing && current >= end) setCurrent(start);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="h-[calc(100vh-4rem)] flex">
+      {/* Sidebar */}
+      <div className="w-80 bg-white border-l border-gray-200 overflow-y-auto flex-shrink-0">
+        <div className="p-4 border-b border-gray-200">
+          <button onClick={selectedId ? () => setSelectedId(null) : onClose} className="text-xs text-primary-600 hover:underline flex items-center gap-1 mb-2">
+            <ArrowRight className="w-3.5 h-3.5" />
+            {selectedId ? 'בחירת משמרת אחרת' : 'חזרה למעקב חי'}
+          </button>
+          <h2 className="text-lg font-bold text-gray-900 font-heading flex items-center gap-2">
+            <History className="w-5 h-5 text-primary-600" />
+            שחזור מסלול
+          </h2>
+          {replay && selectedId && (
+            <p className="text-sm text-gray-500 mt-1">
+              {replay.assignment.employee_name} · {replay.assignment.site_name || replay.assignment.company_name}
+              <br />
+              {format(new Date(`${replay.assignment.date}T00:00:00`), 'dd/MM/yyyy')} · {replay.assignment.start_time}-{replay.assignment.end_time}
+            </p>
+          )}
+        </div>
+
+        {!selectedId ? (
+          <ReplayAssignmentList onSelect={setSelectedId} />
+        ) : isLoading || !replay ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+          </div>
+        ) : (
+          <>
+            {/* Timeline */}
+            <div className="p-4 border-b border-gray-100 space-y-3">
+              {end > start ? (
+                <>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>{format(new Date(start), 'HH:mm')}</span>
+                    <span className="text-base font-bold text-gray-900" dir="ltr">{format(new Date(current), 'HH:mm:ss')}</span>
+                    <span>{format(new Date(end), 'HH:mm')}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={start}
+                    max={end}
+                    step={1000}
+                    value={current}
+                    onChange={(e) => {
+                      setCurrent(Number(e.target.value));
+                      setPlaying(false);
+                    }}
+                    className="w-full accent-primary-600"
+                  />
+                  <div className="flex items-center gap-2">
+                    <button onClick={togglePlay} className="btn-primary flex items-center gap-1.5 text-sm">
+                      {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                      {playing ? 'עצור' : 'נגן'}
+                    </button>
+                    <button onClick={() => jumpTo(replay.assignment.check_in_time)} className="btn-icon" title="לתחילת המשמרת">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className="input text-sm py-1 w-auto mr-auto">
+                      {SPEEDS.map((s) => (
+                        <option key={s} value={s}>{s} דק' לשנייה</option>
+                      ))}
+                    </select>
+                  </div>
+                </>
+              ) : null}
+              {points.length === 0 && (
+                <p className="text-xs text-gray-400">לא נרשמו נקודות מיקום במשמרת זו</p>
+              )}
+            </div>
+
+            {/* Stationary periods */}
+            <div className="p-4 border-b border-gray-100">
+              <p className="text-sm font-medium text-gray-900 mb-2">עצירות ({replay.stops.length})</p>
+              {replay.stops.length === 0 ? (
+                <p className="text-xs text-gray-400">לא זוהו שהיות ממושכות בנקודה אחת</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {replay.stops.map((stop) => (
+                    <button
+                      key={stop.started_at}
+                      onClick={() => {
+                        jumpTo(stop.started_at);
+                        setSelection({ kind: 'stop', stop });
+                      }}
+                      className="w-full text-right text-xs p-2 rounded-lg bg-amber-50 hover:bg-amber-100 transition-colors"
+                    >
+                      <span className="font-medium text-amber-800">שהה {formatDuration(stop.minutes)} בנקודה אחת</span>
+                      <span className="block text-gray-500 mt-0.5">
+                        {formatPunchTime(stop.started_at)}-{formatPunchTime(stop.ended_at)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Checkpoint scans */}
+            <div className="p-4">
+              <p className="text-sm font-medium text-gray-900 mb-2">סריקות נקודות ביקורת ({replay.scans.length})</p>
+              {replay.scans.length === 0 ? (
+                <p className="text-xs text-gray-400">לא נסרקו נקודות ביקורת</p>
+              ) : (
+                <div className="space-y-1">
+                  {replay.scans.map((scan) => (
+                    <button
+                      key={scan.id}
+                      onClick={() => {
+                        jumpTo(scan.checked_at);
+                        setSelection({ kind: 'scan', scan });
+                      }}
+                      className="w-full flex items-center justify-between gap-2 text-xs p-1.5 rounded hover:bg-gray-50"
+                    >
+                      <span className="flex items-center gap-1.5 text-gray-900">
+                        <QrCode className={`w-3.5 h-3.5 ${scan.status === 'issue_found' ? 'text-red-600' : 'text-green-600'}`} />
+                        {scan.checkpoint_name || 'נקודת ביקורת'}
+                      </span>
+                      <span className={timeOf(scan.checked_at) <= current ? 'text-gray-700' : 'text-gray-400'}>
+                        {formatPunchTime(scan.checked_at)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Map */}
+      <div className="flex-1 relative">
+        <GoogleMap
+          mapContainerStyle={mapContainerStyle}
+          center={defaultCenter}
+          zoom={8}
+          onLoad={setMap}
+          onUnmount={() => setMap(null)}
+          options={{ gestureHandling: 'greedy' }}
+        >
+          {replay && selectedId && (
+            <>
+              {replay.assignment.site_latitude != null && replay.assignment.site_longitude != null && (
+                <Marker
+                  position={{ lat: replay.assignment.site_latitude, lng: replay.assignment.site_longitude }}
+                  title={replay.assignment.site_name || undefined}
+                  icon={siteIcon}
+                />
+              )}
+
+              {/* Whole shift faint, the part walked so far solid */}
+              <Polyline path={fullPath} options={{ strokeColor: '#93C5FD', strokeOpacity: 0.6, strokeWeight: 3 }} />
+              <Polyline path={walked} options={{ strokeColor: '#2563EB', strokeOpacity: 0.9, strokeWeight: 4 }} />
+
+              {replay.stops.map((stop) => (
+                <Marker
+                  key={`stop-${stop.started_at}`}
+                  position={{ lat: stop.latitude, lng: stop.longitude }}
+                  onClick={() => setSelection({ kind: 'stop', stop })}
+                  title={`שהה ${formatDuration(stop.minutes)}`}
+                  icon={stopIcon}
+                />
+              ))}
+
+              {locatedScans.map((scan) => (
+                <Marker
+                  key={`scan-${scan.id}`}
+                  position={{ lat: scan.latitude!, lng: scan.longitude! }}
+                  onClick={() => setSelection({ kind: 'scan', scan })}
+                  title={scan.checkpoint_name || undefined}
+                  icon={scanIcon(scan.status === 'issue_found', timeOf(scan.checked_at) <= current)}
+                />
+              ))}
+
+              {position && (
+                <Marker position={{ lat: position.lat, lng: position.lng }} icon={guardIcon} zIndex={1000} title={replay.assignment.employee_name} />
+              )}
+
+              {selection?.kind === 'stop' && (
+                <InfoWindow
+                  position={{ lat: selection.stop.latitude, lng: selection.stop.longitude }}
+                  onCloseClick={() => setSelection(null)}
+                >
+                  <div className="p-2 min-w-[160px]" dir="rtl">
+                    <p className="font-bold text-gray-900 flex items-center gap-1">
+                      <MapPin className="w-4 h-4 text-amber-600" />
+                      שהה {formatDuration(selection.stop.minutes)} בנקודה אחת
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {formatPunchTime(selection.stop.started_at)}-{formatPunchTime(selection.stop.ended_at)}
+                    </p>
+                  </div>
+                </InfoWindow>
+              )}
+              {selection?.kind === 'scan' && selection.scan.latitude != null && selection.scan.longitude != null && (
+                <InfoWindow
+                  position={{ lat: selection.scan.latitude, lng: selection.scan.longitude }}
+                  onCloseClick={() => setSelection(null)}
+                >
+                  <div className="p-2 min-w-[160px]" dir="rtl">
+                    <p className="font-bold text-gray-900">{selection.scan.checkpoint_name || 'נקודת ביקורת'}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatPunchTime(selection.scan.checked_at, 'HH:mm:ss')}
+                      {selection.scan.method === 'qr' && ' · סריקת QR'}
+                    </p>
+                    {selection.scan.status === 'issue_found' && (
+                      <p className="text-xs text-red-600 mt-1">{selection.scan.observation || 'דווחה תקלה'}</p>
+                    )}
+                  </div>
+                </InfoWindow>
+              )}
+            </>
+          )}
+        </GoogleMap>
+      </div>
+    </div>
+  );
+}
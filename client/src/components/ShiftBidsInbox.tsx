@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, Hand, Check, Ban, Loader2, SlidersHorizontal, Trophy } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import AssignmentWarnings, { needsOverride, isBlocked } from './AssignmentWarnings';
+import { formatShiftSlot } from './ShiftSwapPanel';
+import type { AssignmentIssue, MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+type BidRule = 'seniority' | 'hours_deficit' | 'rating' | 'proximity';
+
+interface RankedBid {
+  id: string;
+  employee_id: string;
+  employee_name: string;
+  note?: string | null;
+  score: number;
+  rank: number;
+  factors: Record<BidRule, number>;
+  seniority_years: number;
+  week_hours: number;
+  avg_rating: number | null;
+  distance_km: number | null;
+  issues: AssignmentIssue[];
+}
+
+interface BiddedShift {
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string | null;
+  company_name?: string | null;
+  required_employees: number;
+  assigned_count: number;
+  slots_available: number;
+  bids: RankedBid[];
+}
+
+interface BiddingSettings {
+  mode: 'first_come' | 'bidding';
+  weights: Record<BidRule, number>;
+}
+
+const ruleLabels: Record<BidRule, string> = {
+  seniority: 'ותק',
+  hours_deficit: 'חוסר בשעות השבוע',
+  rating: 'דירוג',
+  proximity: 'קרבה לאתר',
+};
+
+/** Top-ranked bidders that fit the open slots and are not hard-blocked */
+function defaultWinners(shifts: BiddedShift[]): Set<string> {
+  const winners = new Set<string>();
+  for (const shift of shifts) {
+    shift.bids
+      .filter((b) => !isBlocked(b.issues))
+      .slice(0, shift.slots_available)
+      .forEach((b) => winners.add(b.id));
+  }
+  return winners;
+}
+
+// ── Settings ────────────────────────────────────────────────────────────────
+
+function BiddingSettingsPanel({ settings }: { settings: BiddingSettings }) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState(settings.mode);
+  const [weights, setWeights] = useState(settings.weights);
+
+  const saveMutation = useMutation({
+    mutationFn: () => shiftsApi.updateBiddingSettings({ mode, weights }),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['bidding-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['shift-bids'] });
+      toast.success(res.data.message || 'ההגדרות נשמרו');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשמירת ההגדרות');
+    },
+  });
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-4 space-y-3">
+      <div>
+        <label className="label">אופן שיבוץ למשמרות פתוחות</label>
+        <select value={mode} onChange={(e) => setMode(e.target.value as BiddingSettings['mode'])} className="input">
+          <option value="first_come">כל הקודם זוכה - שיבוץ מיידי</option>
+          <option value="bidding">הגשת מועמדות - אישור מנהל</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {(Object.keys(ruleLabels) as BidRule[]).map((rule) => (
+          <div key={rule}>
+            <label className="label flex justify-between">
+              <span>{ruleLabels[rule]}</span>
+              <span className="text-gray-400">משקל {weights[rule]}</span>
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="5"
+              step="1"
+              value={weights[rule]}
+              onChange={(e) => setWeights({ ...weights, [rule]: Number(e.target.value) })}
+              className="w-full accent-primary-600"
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending}
+        className="btn-primary text-sm flex items-center gap-2"
+      >
+        {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+        שמור הגדרות
+      </button>
+    </div>
+  );
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function ShiftBidsInbox({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [note, setNote] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
+
+  const { data, isLoading } = useQuery<{ shifts: BiddedShift[] }>({
+    queryKey: ['shift-bids'],
+    queryFn: () => shiftsApi.getBids().then((res) => res.data),
+  });
+
+  const { data: settings } = useQuery<BiddingSettings>({
+    queryKey: ['bidding-settings'],
+    queryFn: () => shiftsApi.getBiddingSettings().then((res) => res.data),
+  });
+
+  // Every fresh ranking starts with the top bidders selected
+  useEffect(() => {
+    if (data) setSelected(defaultWinners(data.shifts));
+  }, [data]);
+
+  const shifts = data?.shifts || [];
+  const selectedBids = shifts.flatMap((s) => s.bids).filter((b) => selected.has(b.id));
+  const selectedIssues = selectedBids.flatMap((b) => b.issues);
+
+  const onResolved = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['shift-bids'] });
+    queryClient.invalidateQueries({ queryKey: ['shifts'] });
+    toast.success(message);
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: () => shiftsApi.approveBids([...selected], note.trim() || undefined),
+    onSuccess: (res) => {
+      onResolved(res.data.message || 'הבקשות אושרו');
+      for (const failure of res.data.failed || []) {
+        toast.error(`${failure.employee_name || ''}: ${failure.error}`);
+      }
+      setNote('');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה באישור הבקשות');
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: () => shiftsApi.rejectBids([...selected]),
+    onSuccess: (res) => onResolved(res.data.message || 'הבקשות נדחו'),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בדחיית הבקשות');
+    },
+  });
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const isBusy = approveMutation.isPending || rejectMutation.isPending;
+  const approveDisabled =
+    isBusy || selected.size === 0 || isBlocked(selectedIssues) || (needsOverride(selectedIssues) && !note.trim());
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-3xl">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <Hand className="w-4 h-4 text-primary-600" />
+            </div>
+            מועמדויות למשמרות פתוחות
+          </h2>
+          <div className="flex items-center gap-1">
+            <button onClick={() => setShowSettings(!showSettings)} className="btn-icon" title="כללי דירוג">
+              <SlidersHorizontal className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="btn-icon">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[65vh] overflow-y-auto">
+          {showSettings && settings && <BiddingSettingsPanel settings={settings} />}
+          {settings?.mode === 'first_come' && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+              המשמרות הפתוחות במצב "כל הקודם זוכה" - עובדים משתבצים מיד ולא מגישים מועמדות.
+            </p>
+          )}
+
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => <SkeletonPulse key={i} className="h-28 w-full rounded-xl" />)
+          ) : shifts.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">אין מועמדויות ממתינות</p>
+          ) : (
+            shifts.map((shift) => (
+              <div key={shift.shift_id} className="border border-gray-100 rounded-xl p-4 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{shift.site_name || shift.company_name || 'ללא אתר'}</p>
+                    <p className="text-xs text-gray-500">{formatShiftSlot(shift.date, shift.start_time, shift.end_time)}</p>
+                  </div>
+                  <span className={shift.slots_available > 0 ? 'badge-info' : 'badge-gray'}>
+                    {shift.slots_available} מקומות פנויים
+                  </span>
+                </div>
+
+                {shift.bids.map((bid) => (
+                  <label
+                    key={bid.id}
+                    className={`flex items-start gap-3 p-2 rounded-lg cursor-pointer ${selected.has(bid.id) ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(bid.id)}
+                      onChange={() => toggle(bid.id)}
+                      className="w-4 h-4 rounded border-gray-300 mt-1"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        {bid.rank === 1 && <Trophy className="w-3.5 h-3.5 text-amber-500" />}
+                        <span className="font-medium text-sm text-gray-900">{bid.employee_name}</span>
+                        <span className="text-xs text-gray-400">#{bid.rank}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        ותק {bid.seniority_years} שנים · {bid.week_hours} ש' השבוע
+                        {bid.avg_rating !== null && ` · דירוג ${bid.avg_rating}`}
+                        {bid.distance_km !== null && ` · ${bid.distance_km} ק"מ`}
+                      </p>
+                      {bid.note && <p className="text-xs text-gray-600 mt-1">"{bid.note}"</p>}
+                      <AssignmentWarnings issues={bid.issues} compact />
+                    </div>
+                    <div className="w-16 flex-shrink-0 text-left">
+                      <p className="text-sm font-bold text-gray-900">{bid.score}</p>
+                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-primary-500" style={{ width: `${bid.score}%` }} />
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+
+        {shifts.length > 0 && (
+          <div className="border-t border-gray-100 p-4 space-y-3">
+            {needsOverride(selectedIssues) && (
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                className="input text-sm"
+                placeholder="נימוק לאישור חריגה (חובה)"
+              />
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => approveMutation.mutate()}
+                disabled={approveDisabled}
+                className="btn-success text-sm flex items-center gap-1.5"
+              >
+                {approveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                אשר נבחרים ({selected.size})
+              </button>
+              <button
+                onClick={() => rejectMutation.mutate()}
+                disabled={isBusy || selected.size === 0}
+                className="btn-danger text-sm flex items-center gap-1.5"
+              >
+                <Ban className="w-4 h-4" />
+                דחה נבחרים
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
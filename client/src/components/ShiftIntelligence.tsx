@@ -14,9 +14,15 @@ import {
   Shield,
   MapPin,
   Zap,
+  Scale,
 } from 'lucide-react';
 import { intelligenceApi } from '../services/api';
 import { SkeletonPulse } from './Skeleton';
+import WorkHoursCompliancePanel, {
+  compliancePeriodRange,
+  type ComplianceReport,
+  type CompliancePeriod,
+} from './WorkHoursCompliancePanel';
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
@@ -147,6 +153,7 @@ function getRiskLabel(level: string): string {
 export default function ShiftIntelligence() {
   const queryClient = useQueryClient();
   const [activeSection, setActiveSection] = useState<string | null>(null);
+  const [compliancePeriod, setCompliancePeriod] = useState<CompliancePeriod>('this_week');
 
   // Fetch latest insights
   const { data: insightsData, isLoading: insightsLoading } = useQuery({
@@ -184,6 +191,16 @@ export default function ShiftIntelligence() {
     },
   });
 
+  // Fetch work hours law compliance
+  const complianceRange = compliancePeriodRange(compliancePeriod);
+  const { data: complianceData, isLoading: complianceLoading } = useQuery({
+    queryKey: ['intelligence-compliance', complianceRange.start_date, complianceRange.end_date],
+    queryFn: async () => {
+      const res = await intelligenceApi.getCompliance(complianceRange);
+      return res.data?.compliance as ComplianceReport;
+    },
+  });
+
   // Generate insights mutation
   const generateMutation = useMutation({
     mutationFn: () => intelligenceApi.generateInsights(),
@@ -193,6 +210,7 @@ export default function ShiftIntelligence() {
       queryClient.invalidateQueries({ queryKey: ['intelligence-heatmap'] });
       queryClient.invalidateQueries({ queryKey: ['intelligence-fatigue'] });
       queryClient.invalidateQueries({ queryKey: ['intelligence-staffing'] });
+      queryClient.invalidateQueries({ queryKey: ['intelligence-compliance'] });
     },
     onError: () => {
       toast.error('\u05E9\u05D2\u05D9\u05D0\u05D4 \u05D1\u05D9\u05E6\u05D9\u05E8\u05EA \u05E0\u05D9\u05EA\u05D5\u05D7'); // שגיאה ביצירת ניתוח
@@ -239,7 +257,7 @@ export default function ShiftIntelligence() {
       </div>
 
       {/* ── Summary Cards ───────────────────────────────────────────── */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
         {/* Shortage Sites */}
         <div
           className="card cursor-pointer hover:shadow-md transition-shadow border-r-4 border-r-amber-400"
@@ -343,6 +361,31 @@ export default function ShiftIntelligence() {
             </div>
           </div>
         </div>
+
+        {/* Work Hours Law */}
+        <div
+          className="card cursor-pointer hover:shadow-md transition-shadow border-r-4 border-r-rose-400"
+          onClick={() => setActiveSection(activeSection === 'compliance' ? null : 'compliance')}
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-rose-50 rounded-lg flex items-center justify-center">
+              <Scale className="w-5 h-5 text-rose-600" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-900">
+                {complianceLoading ? (
+                  <SkeletonPulse className="h-7 w-10" />
+                ) : (
+                  (complianceData?.summary.employees_with_violations ?? 0).toLocaleString('he-IL')
+                )}
+              </p>
+              <p className="text-xs text-gray-500">
+                {'\u05E2\u05D5\u05D1\u05D3\u05D9\u05DD \u05D1\u05D7\u05E8\u05D9\u05D2\u05EA \u05D7\u05D5\u05E7 \u05E9\u05E2\u05D5\u05EA'}
+                {/* עובדים בחריגת חוק שעות */}
+              </p>
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* ── Shortage Heatmap ────────────────────────────────────────── */}
@@ -576,6 +619,16 @@ export default function ShiftIntelligence() {
         </div>
       )}
 
+      {/* ── Work Hours Law Compliance ───────────────────────────────── */}
+      {(activeSection === 'compliance' || activeSection === null) && (
+        <WorkHoursCompliancePanel
+          report={complianceData}
+          isLoading={complianceLoading}
+          period={compliancePeriod}
+          onPeriodChange={setCompliancePeriod}
+        />
+      )}
+
       {/* ── Optimal Staffing Suggestions ────────────────────────────── */}
       {(activeSection === 'staffing' || activeSection === null) && (
         <div className="card">
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { X, History, Undo2, Trash2, Copy, FileText, Loader2 } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface ShiftOperationBatch {
+  id: string;
+  operation: 'bulk_delete' | 'copy_week' | 'generate_from_template';
+  description: string;
+  shift_count: number;
+  assignment_count: number;
+  created_at: string;
+  created_by_name?: string | null;
+  undone_at?: string | null;
+  undone_by_name?: string | null;
+  undo_expires_at: string;
+  can_undo: boolean;
+}
+
+const operationMeta: Record<ShiftOperationBatch['operation'], { label: string; icon: typeof Trash2; color: string }> = {
+  bulk_delete: { label: 'מחיקה מרובה', icon: Trash2, color: 'text-red-500 bg-red-50' },
+  copy_week: { label: 'העתקת שבוע', icon: Copy, color: 'text-blue-500 bg-blue-50' },
+  generate_from_template: { label: 'יצירה מתבנית', icon: FileText, color: 'text-emerald-500 bg-emerald-50' },
+};
+
+// ── Undo ────────────────────────────────────────────────────────────────────
+
+async function undoBatch(batchId: string, queryClient: QueryClient) {
+  try {
+    const res = await shiftsApi.undoOperation(batchId);
+    queryClient.invalidateQueries({ queryKey: ['shifts'] });
+    queryClient.invalidateQueries({ queryKey: ['shift-operations'] });
+    toast.success(res.data.message || 'הפעולה בוטלה');
+  } catch (err) {
+    toast.error((err as MutationError)?.response?.data?.error || 'שגיאה בביטול הפעולה');
+  }
+}
+
+/** Success toast for a bulk operation, with an undo button when the server recorded a batch */
+export function showUndoToast(message: string, batchId: string | undefined, queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['shift-operations'] });
+  if (!batchId) {
+    toast.success(message);
+    return;
+  }
+  toast.success(
+    (t) => (
+      <span className="flex items-center gap-3">
+        {message}
+        <button
+          onClick={() => {
+            toast.dismiss(t.id);
+            undoBatch(batchId, queryClient);
+          }}
+          className="text-primary-600 font-semibold flex items-center gap-1 hover:text-primary-700"
+        >
+          <Undo2 className="w-3.5 h-3.5" />
+          בטל
+        </button>
+      </span>
+    ),
+    { duration: 10000 }
+  );
+}
+
+// ── Drawer ──────────────────────────────────────────────────────────────────
+
+export default function ShiftOperationsDrawer({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [windowMinutes, setWindowMinutes] = useState('');
+
+  const { data, isLoading } = useQuery<{ batches: ShiftOperationBatch[]; undo_window_minutes: number }>({
+    queryKey: ['shift-operations'],
+    queryFn: () => shiftsApi.getOperations().then((res) => res.data),
+    refetchInterval: 60000,
+  });
+
+  useEffect(() => {
+    if (data) setWindowMinutes(String(data.undo_window_minutes));
+  }, [data?.undo_window_minutes]);
+
+  const windowMutation = useMutation({
+    mutationFn: () => shiftsApi.setUndoWindow(parseInt(windowMinutes)),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['shift-operations'] });
+      toast.success(res.data.message || 'חלון הביטול עודכן');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בעדכון חלון הביטול');
+    },
+  });
+
+  const handleUndo = async (batch: ShiftOperationBatch) => {
+    if (!confirm(`לבטל את הפעולה "${batch.description}"?`)) return;
+    setUndoingId(batch.id);
+    await undoBatch(batch.id, queryClient);
+    setUndoingId(null);
+  };
+
+  const batches = data?.batches || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative w-full max-w-md bg-white h-full shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <History className="w-4 h-4 text-primary-600" />
+            </div>
+            היסטוריית פעולות
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading ? (
+            Array.from({ length: 4 }).map((_, i) => <SkeletonPulse key={i} className="h-16 w-full" />)
+          ) : batches.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">אין פעולות מרובות להצגה</p>
+          ) : (
+            batches.map((batch) => {
+              const meta = operationMeta[batch.operation] || operationMeta.bulk_delete;
+              const Icon = meta.icon;
+              return (
+                <div key={batch.id} className={`border border-gray-100 rounded-xl p-3 ${batch.undone_at ? 'opacity-60' : ''}`}>
+                  <div className="flex items-start gap-3">
+                    <div className={`w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 ${meta.color}`}>
+                      <Icon className="w-4 h-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{batch.description}</p>
+                      <p className="text-xs text-gray-500">
+                        {meta.label} · {format(new Date(batch.created_at), 'dd/MM HH:mm')}
+                        {batch.created_by_name ? ` · ${batch.created_by_name}` : ''}
+                      </p>
+                      {batch.undone_at ? (
+                        <p className="text-xs text-gray-400 mt-0.5">
+                          בוטל {format(new Date(batch.undone_at), 'dd/MM HH:mm')}
+                          {batch.undone_by_name ? ` ע"י ${batch.undone_by_name}` : ''}
+                        </p>
+                      ) : batch.can_undo ? (
+                        <p className="text-xs text-gray-400 mt-0.5">
+                          ניתן לבטל עד {format(new Date(batch.undo_expires_at), 'HH:mm')}
+                        </p>
+                      ) : null}
+                    </div>
+                    {batch.can_undo && (
+                      <button
+                        onClick={() => handleUndo(batch)}
+                        disabled={undoingId === batch.id}
+                        className="btn-secondary text-xs flex items-center gap-1 px-2 py-1"
+                      >
+                        {undoingId === batch.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Undo2 className="w-3.5 h-3.5" />}
+                        בטל
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 p-4">
+          <label className="label">חלון ביטול (דקות)</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="1"
+              value={windowMinutes}
+              onChange={(e) => setWindowMinutes(e.target.value)}
+              className="input"
+            />
+            <button
+              onClick={() => windowMutation.mutate()}
+              disabled={!(parseInt(windowMinutes) > 0) || windowMutation.isPending}
+              className="btn-primary flex items-center gap-2"
+            >
+              {windowMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              שמור
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
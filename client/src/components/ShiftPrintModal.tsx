@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, addDays, isSameWeek } from 'date-fns';
+import { he } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+import { X, Printer, Loader2, CalendarDays, ClipboardSignature } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import {
+  exportWeeklyRosterPDF,
+  exportSignInSheetPDF,
+  type PrintableShift,
+  type PrintableSite,
+} from '../utils/pdfExport';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface WeekShift extends PrintableShift {
+  id: string;
+  site_id?: string | null;
+  site_name?: string | null;
+  site_address?: string | null;
+  company_name?: string | null;
+}
+
+type DocumentType = 'roster' | 'sign-in';
+
+interface SiteOption extends PrintableSite {
+  id: string;
+}
+
+/** Sites that have shifts in the displayed week */
+function sitesOf(shifts: WeekShift[]): SiteOption[] {
+  const sites = new Map<string, SiteOption>();
+  for (const s of shifts) {
+    if (!s.site_id || sites.has(s.site_id)) continue;
+    sites.set(s.site_id, {
+      id: s.site_id,
+      name: s.site_name || 'ללא שם',
+      company_name: s.company_name,
+      address: s.site_address,
+    });
+  }
+  return [...sites.values()].sort((a, b) => `${a.company_name}${a.name}`.localeCompare(`${b.company_name}${b.name}`, 'he'));
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+/** Printable per-site documents for the displayed week: booth roster and daily sign-in sheet */
+export default function ShiftPrintModal({ weekStart, onClose }: { weekStart: Date; onClose: () => void }) {
+  const weekStartStr = format(weekStart, 'yyyy-MM-dd');
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const [documentType, setDocumentType] = useState<DocumentType>('roster');
+  const [siteId, setSiteId] = useState('');
+  const [date, setDate] = useState(() =>
+    format(isSameWeek(new Date(), weekStart, { weekStartsOn: 0 }) ? new Date() : weekStart, 'yyyy-MM-dd')
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Same key as the week view, so this is normally served from cache
+  const { data, isLoading } = useQuery<{ shifts: WeekShift[] }>({
+    queryKey: ['shifts', weekStartStr],
+    queryFn: () =>
+      shiftsApi
+        .getAll({ start_date: weekStartStr, end_date: format(addDays(weekStart, 6), 'yyyy-MM-dd') })
+        .then((res) => res.data),
+  });
+
+  const sites = sitesOf(data?.shifts || []);
+  const site = sites.find((s) => s.id === siteId) || sites[0];
+  const siteShifts = (data?.shifts || []).filter((s) => s.site_id === site?.id);
+
+  const handleGenerate = async () => {
+    if (!site) return;
+    setIsGenerating(true);
+    try {
+      if (documentType === 'roster') {
+        await exportWeeklyRosterPDF(site, weekStart, siteShifts);
+      } else {
+        await exportSignInSheetPDF(site, date, siteShifts);
+      }
+    } catch (err) {
+      console.error('PDF export failed:', err);
+      toast.error('שגיאה בהפקת הקובץ');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const documentOptions: { id: DocumentType; label: string; hint: string; icon: typeof CalendarDays }[] = [
+    { id: 'roster', label: 'סידור שבועי', hint: 'לתליה בעמדת השמירה', icon: CalendarDays },
+    { id: 'sign-in', label: 'דף נוכחות יומי', hint: 'שמות, שעות וחתימות', icon: ClipboardSignature },
+  ];
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <Printer className="w-4 h-4 text-primary-600" />
+            </div>
+            הדפסת מסמכי אתר
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {documentOptions.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setDocumentType(option.id)}
+                className={`p-3 rounded-xl border text-right transition-colors ${
+                  documentType === option.id ? 'border-primary-400 bg-primary-50' : 'border-gray-100 hover:bg-gray-50'
+                }`}
+              >
+                <option.icon className="w-5 h-5 text-primary-600 mb-1" />
+                <p className="font-medium text-sm text-gray-900">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.hint}</p>
+              </button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <SkeletonPulse className="h-10 w-full rounded-lg" />
+          ) : sites.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">אין משמרות באתרים בשבוע זה</p>
+          ) : (
+            <div>
+              <label className="label">אתר</label>
+              <select value={site?.id || ''} onChange={(e) => setSiteId(e.target.value)} className="input">
+                {sites.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.company_name ? `${s.company_name} - ${s.name}` : s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {documentType === 'sign-in' && sites.length > 0 && (
+            <div>
+              <label className="label">יום</label>
+              <select value={date} onChange={(e) => setDate(e.target.value)} className="input">
+                {days.map((day) => (
+                  <option key={day.toISOString()} value={format(day, 'yyyy-MM-dd')}>
+                    {format(day, 'EEEE d/M', { locale: he })}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-100">
+          <button
+            onClick={handleGenerate}
+            disabled={!site || isGenerating}
+            className="btn-primary flex-1 flex items-center justify-center gap-2"
+          >
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Printer className="w-4 h-4" />}
+            הפק PDF
+          </button>
+          <button onClick={onClose} className="btn-secondary">
+            ביטול
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
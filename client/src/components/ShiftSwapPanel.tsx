@@ -0,0 +1,343 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+import { ArrowLeftRight, X, Loader2, Shield, Send } from 'lucide-react';
+import { shiftsApi } from '../services/api';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface UpcomingShift {
+  assignment_id: string;
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  requires_weapon: boolean;
+  site_name?: string;
+  company_name?: string;
+}
+
+interface ColleagueShift {
+  shift_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string;
+}
+
+interface Colleague {
+  id: string;
+  name: string;
+  has_weapon_license: boolean;
+  upcoming_shifts: ColleagueShift[];
+}
+
+export interface SwapRequest {
+  id: string;
+  shift_id: string;
+  swap_type: 'offer' | 'trade';
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reason?: string;
+  resolution_note?: string;
+  requester_id: string;
+  requester_name: string;
+  target_employee_id?: string;
+  target_name?: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  site_name?: string;
+  target_shift_id?: string;
+  target_date?: string;
+  target_start_time?: string;
+  target_end_time?: string;
+  target_site_name?: string;
+  created_at: string;
+  is_mine?: boolean;
+}
+
+export const swapStatusLabels: Record<SwapRequest['status'], { label: string; className: string }> = {
+  pending: { label: 'ממתין לאישור', className: 'badge-warning' },
+  approved: { label: 'אושר', className: 'badge-success' },
+  rejected: { label: 'נדחה', className: 'badge-danger' },
+  cancelled: { label: 'בוטל', className: 'badge-gray' },
+};
+
+export function formatShiftSlot(date?: string, start?: string, end?: string) {
+  if (!date) return '';
+  return `${format(new Date(date + 'T00:00:00'), 'EEE d/M', { locale: he })} ${start?.slice(0, 5)}-${end?.slice(0, 5)}`;
+}
+
+// ── Request Modal ───────────────────────────────────────────────────────────
+
+function SwapRequestModal({ shift, onClose }: { shift: UpcomingShift; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<'offer' | 'trade'>('offer');
+  const [colleagueId, setColleagueId] = useState('');
+  const [targetShiftId, setTargetShiftId] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data, isLoading } = useQuery<{ colleagues: Colleague[] }>({
+    queryKey: ['swap-candidates', shift.shift_id],
+    queryFn: () => shiftsApi.getSwapCandidates(shift.shift_id).then((res) => res.data),
+  });
+
+  const colleagues = (data?.colleagues || []).filter(
+    (c) => !shift.requires_weapon || c.has_weapon_license
+  );
+  const colleague = colleagues.find((c) => c.id === colleagueId);
+
+  const submitMutation = useMutation({
+    mutationFn: () =>
+      shiftsApi.createSwapRequest({
+        shift_id: shift.shift_id,
+        target_employee_id: colleagueId || undefined,
+        target_shift_id: mode === 'trade' ? targetShiftId : undefined,
+        reason,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-swap-requests'] });
+      toast.success('בקשת ההחלפה נשלחה לאישור מנהל');
+      onClose();
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשליחת בקשת החלפה');
+    },
+  });
+
+  const canSubmit = mode === 'offer' || (colleagueId && targetShiftId);
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5 text-primary-600" />
+            בקשת החלפה
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="bg-gray-50 rounded-lg p-3 text-sm">
+            <p className="font-medium text-gray-900">{formatShiftSlot(shift.date, shift.start_time, shift.end_time)}</p>
+            <p className="text-gray-500 flex items-center gap-1">
+              {shift.company_name}{shift.site_name ? ` - ${shift.site_name}` : ''}
+              {shift.requires_weapon && <Shield className="w-3 h-3 text-amber-500" />}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              ['offer', 'מסירת משמרת'],
+              ['trade', 'החלפה הדדית'],
+            ] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => {
+                  setMode(value);
+                  setTargetShiftId('');
+                }}
+                className={`py-2 rounded-lg text-sm font-medium border transition-colors ${
+                  mode === value
+                    ? 'bg-primary-50 border-primary-300 text-primary-700'
+                    : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="label">{mode === 'offer' ? 'עמית (לא חובה)' : 'עמית'}</label>
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-primary-500" />
+            ) : (
+              <select
+                value={colleagueId}
+                onChange={(e) => {
+                  setColleagueId(e.target.value);
+                  setTargetShiftId('');
+                }}
+                className="input"
+              >
+                <option value="">{mode === 'offer' ? 'כל עמית שהמנהל יבחר' : 'בחר עמית'}</option>
+                {colleagues.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            )}
+            {shift.requires_weapon && (
+              <p className="text-xs text-gray-400 mt-1">מוצגים רק עמיתים בעלי רישיון נשק</p>
+            )}
+          </div>
+
+          {mode === 'trade' && colleague && (
+            <div>
+              <label className="label">משמרת של {colleague.name} בתמורה</label>
+              {colleague.upcoming_shifts.length === 0 ? (
+                <p className="text-sm text-gray-400">אין לעמית משמרות קרובות</p>
+              ) : (
+                <select value={targetShiftId} onChange={(e) => setTargetShiftId(e.target.value)} className="input">
+                  <option value="">בחר משמרת</option>
+                  {colleague.upcoming_shifts.map((s) => (
+                    <option key={s.shift_id} value={s.shift_id}>
+                      {formatShiftSlot(s.date, s.start_time, s.end_time)}{s.site_name ? ` · ${s.site_name}` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="label">סיבה</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              className="input"
+              placeholder="למשל: אירוע משפחתי"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={() => submitMutation.mutate()}
+              disabled={!canSubmit || submitMutation.isPending}
+              className="btn-primary flex-1 flex items-center justify-center gap-2"
+            >
+              {submitMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              שלח לאישור
+            </button>
+            <button type="button" onClick={onClose} className="btn-ghost">ביטול</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function ShiftSwapPanel() {
+  const queryClient = useQueryClient();
+  const [swapShift, setSwapShift] = useState<UpcomingShift | null>(null);
+
+  const { data: upcomingData, isLoading } = useQuery<{ shifts: UpcomingShift[] }>({
+    queryKey: ['my-upcoming-shifts'],
+    queryFn: () => shiftsApi.getMyUpcoming().then((res) => res.data),
+  });
+
+  const { data: requestsData } = useQuery<{ swap_requests: SwapRequest[] }>({
+    queryKey: ['my-swap-requests'],
+    queryFn: () => shiftsApi.getMySwapRequests().then((res) => res.data),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (requestId: string) => shiftsApi.cancelSwapRequest(requestId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-swap-requests'] });
+      toast.success('הבקשה בוטלה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בביטול הבקשה');
+    },
+  });
+
+  const shifts = upcomingData?.shifts || [];
+  const requests = requestsData?.swap_requests || [];
+  const pendingShiftIds = new Set(
+    requests.filter((r) => r.is_mine && r.status === 'pending').map((r) => r.shift_id)
+  );
+
+  return (
+    <div className="card">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="w-10 h-10 bg-gradient-to-br from-primary-100 to-primary-50 rounded-xl flex items-center justify-center">
+          <ArrowLeftRight className="w-5 h-5 text-primary-600" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-gray-900 font-heading">החלפת משמרות</h3>
+          <p className="text-sm text-gray-500">מסירת משמרת או החלפה הדדית עם עמית, באישור מנהל</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-6 h-6 animate-spin text-primary-500 mx-auto" />
+      ) : shifts.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">אין משמרות מתוכננות ב-30 הימים הקרובים</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {shifts.map((s) => (
+            <li key={s.assignment_id} className="py-2.5 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{formatShiftSlot(s.date, s.start_time, s.end_time)}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {s.company_name}{s.site_name ? ` - ${s.site_name}` : ''}
+                </p>
+              </div>
+              {pendingShiftIds.has(s.shift_id) ? (
+                <span className="badge-warning text-xs">ממתין</span>
+              ) : (
+                <button onClick={() => setSwapShift(s)} className="btn-secondary text-xs px-3 py-1.5">
+                  החלפה
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {requests.length > 0 && (
+        <div className="mt-5">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">הבקשות שלי</h4>
+          <ul className="space-y-2">
+            {requests.map((r) => {
+              const status = swapStatusLabels[r.status];
+              return (
+                <li key={r.id} className="bg-gray-50 rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900">
+                      {r.is_mine
+                        ? r.swap_type === 'trade'
+                          ? `החלפה עם ${r.target_name}`
+                          : r.target_name ? `מסירה ל${r.target_name}` : 'מסירת משמרת'
+                        : `${r.requester_name} מבקש/ת ${r.swap_type === 'trade' ? 'החלפה איתך' : 'למסור לך משמרת'}`}
+                    </span>
+                    <span className={`${status.className} text-xs`}>{status.label}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatShiftSlot(r.date, r.start_time, r.end_time)}{r.site_name ? ` · ${r.site_name}` : ''}
+                    {r.target_shift_id && (
+                      <> ⇄ {formatShiftSlot(r.target_date, r.target_start_time, r.target_end_time)}{r.target_site_name ? ` · ${r.target_site_name}` : ''}</>
+                    )}
+                  </p>
+                  {r.resolution_note && <p className="text-xs text-gray-600 mt-1">הערת מנהל: {r.resolution_note}</p>}
+                  {r.is_mine && r.status === 'pending' && (
+                    <button
+                      onClick={() => cancelMutation.mutate(r.id)}
+                      disabled={cancelMutation.isPending}
+                      className="text-xs text-red-600 hover:underline mt-1"
+                    >
+                      בטל בקשה
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {swapShift && <SwapRequestModal shift={swapShift} onClose={() => setSwapShift(null)} />}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { X, Copy, Calendar, Check } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { shiftTemplatesApi, customersApi, sitesApi } from '../services/api';
+import { showUndoToast } from './ShiftOperationsDrawer';
+import RotationEditor, { ROTATION_PRESETS, parseRotation, type Rotation } from './RotationEditor';
+import ReadinessChecklistEditor from './ReadinessChecklist';
 
 interface ShiftTemplateModalProps {
   template?: Record<string, unknown> | null;
@@ -43,6 +47,7 @@ export default function ShiftTemplateModal({ template, onClose }: ShiftTemplateM
     shift_type: (template?.shift_type as string) || 'regular',
     default_notes: (template?.default_notes as string) || '',
   });
+  const [rotation, setRotation] = useState<Rotation | null>(() => parseRotation(template?.rotation));
 
   const { data: customersData } = useQuery({
     queryKey: ['customers-list'],
@@ -69,8 +74,19 @@ export default function ShiftTemplateModal({ template, onClose }: ShiftTemplateM
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!form.name.trim()) return toast.error('נא להזין שם לתבנית');
+    if (rotation) {
+      if (rotation.crews.some((c) => !c.name.trim())) return toast.error('נא להזין שם לכל צוות');
+      if (!rotation.schedule.some((row) => row.some(Boolean))) return toast.error('נא לשבץ צוותים בלוח הסבב');
+      // The first slot stands in for the template's own hours in lists and legacy views
+      return saveMutation.mutate({
+        ...form,
+        start_time: rotation.slots[0].start_time,
+        end_time: rotation.slots[0].end_time,
+        rotation,
+      });
+    }
     if (form.days_of_week.length === 0) return toast.error('נא לבחור ימים בשבוע');
-    saveMutation.mutate(form);
+    saveMutation.mutate({ ...form, rotation: null });
   };
 
   const toggleDay = (day: number) => {
@@ -84,7 +100,7 @@ export default function ShiftTemplateModal({ template, onClose }: ShiftTemplateM
 
   return (
     <div className="modal-backdrop">
-      <div className="modal-content max-w-lg max-h-[90vh] overflow-y-auto">
+      <div className={`modal-content ${rotation ? 'max-w-3xl' : 'max-w-lg'} max-h-[90vh] overflow-y-auto`}>
         <div className="flex items-center justify-between p-6 border-b border-gray-100">
           <h2 className="text-xl font-bold font-heading">{isEditing ? 'עריכת תבנית' : 'תבנית משמרת חדשה'}</h2>
           <button onClick={onClose} className="btn-icon">
@@ -103,6 +119,23 @@ export default function ShiftTemplateModal({ template, onClose }: ShiftTemplateM
             />
           </div>
 
+          <div className="flex gap-1 bg-gray-100 rounded-xl p-1">
+            <button
+              type="button"
+              onClick={() => setRotation(null)}
+              className={`flex-1 py-1.5 rounded-lg text-sm font-medium transition-all ${!rotation ? 'bg-white shadow-sm text-primary-700' : 'text-gray-600'}`}
+            >
+              שבועי קבוע
+            </button>
+            <button
+              type="button"
+              onClick={() => rotation || setRotation(ROTATION_PRESETS[0].build(format(new Date(), 'yyyy-MM-dd')))}
+              className={`flex-1 py-1.5 rounded-lg text-sm font-medium transition-all ${rotation ? 'bg-white shadow-sm text-primary-700' : 'text-gray-600'}`}
+            >
+              סבב צוותים
+            </button>
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="label">לקוח</label>
@@ -133,27 +166,31 @@ export default function ShiftTemplateModal({ template, onClose }: ShiftTemplateM
             </div>
           </div>
 
-          <div className="grid grid-cols-3 gap-4">
-            <div>
-              <label className="label">שעת התחלה *</label>
-              <input
-                type="time"
-                value={form.start_time}
-                onChange={(e) => setForm({ ...form, start_time: e.target.value })}
-                className="input"
-              />
-            </div>
+          <div className={`grid ${rotation ? 'grid-cols-1' : 'grid-cols-3'} gap-4`}>
+            {!rotation && (
+              <>
+                <div>
+                  <label className="label">שעת התחלה *</label>
+                  <input
+                    type="time"
+                    value={form.start_time}
+                    onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="label">שעת סיום *</label>
+                  <input
+                    type="time"
+                    value={form.end_time}
+                    onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                    className="input"
+                  />
+                </div>
+              </>
+            )}
             <div>
-              <label className="label">שעת סיום *</label>
-              <input
-                type="time"
-                value={form.end_time}
-                onChange={(e) => setForm({ ...form, end_time: e.target.value })}
-                className="input"
-              />
-            </div>
-            <div>
-              <label className="label">עובדים נדרשים</label>
+              <label className="label">{rotation ? 'עובדים נדרשים למשמרת (לפחות גודל הצוות)' : 'עובדים נדרשים'}</label>
               <input
                 type="number"
                 min="1"
@@ -177,26 +214,30 @@ export default function ShiftTemplateModal({ template, onClose }: ShiftTemplateM
             </select>
           </div>
 
-          {/* Days of Week */}
-          <div>
-            <label className="label">ימים בשבוע *</label>
-            <div className="flex flex-wrap gap-2 mt-1">
-              {DAYS_OF_WEEK.map((day) => (
-                <button
-                  key={day.value}
-                  type="button"
-                  onClick={() => toggleDay(day.value)}
-                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-                    form.days_of_week.includes(day.value)
-                      ? 'bg-gradient-to-br from-primary-500 to-primary-600 text-white shadow-sm'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
-                >
-                  {day.label}
-                </button>
-              ))}
+          {/* Days of Week, or the crew cycle for rotation templates */}
+          {rotation ? (
+            <RotationEditor value={rotation} onChange={setRotation} />
+          ) : (
+            <div>
+              <label className="label">ימים בשבוע *</label>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {DAYS_OF_WEEK.map((day) => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => toggleDay(day.value)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                      form.days_of_week.includes(day.value)
+                        ? 'bg-gradient-to-br from-primary-500 to-primary-600 text-white shadow-sm'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Requirements */}
           <div className="flex items-center gap-6">
@@ -230,6 +271,8 @@ export default function ShiftTemplateModal({ template, onClose }: ShiftTemplateM
             />
           </div>
 
+          {isEditing && <ReadinessChecklistEditor templateId={template!.id as string} />}
+
           <div className="flex gap-3 pt-2">
             <button type="submit" disabled={saveMutation.isPending} className="btn-primary flex-1">
               {saveMutation.isPending ? 'שומר...' : isEditing ? 'עדכן תבנית' : 'צור תבנית'}
@@ -260,7 +303,7 @@ export function GenerateFromTemplateModal({
     mutationFn: () => shiftTemplatesApi.generate(templateId, startDate, endDate),
     onSuccess: (res) => {
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
-      toast.success(res.data.message || 'משמרות נוצרו בהצלחה');
+      showUndoToast(res.data.message || 'משמרות נוצרו בהצלחה', res.data.batch_id, queryClient);
       onClose();
     },
     onError: () => toast.error('שגיאה ביצירת משמרות מתבנית'),
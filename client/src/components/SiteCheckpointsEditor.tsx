@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { QrCode, Plus, Trash2, RefreshCw, Printer, Loader2 } from 'lucide-react';
+import { patrolsApi } from '../services/api';
+import { exportCheckpointLabelsPDF, type CheckpointLabel, type PrintableSite } from '../utils/pdfExport';
+import type { MutationError } from '../types';
+
+interface Checkpoint {
+  id: string;
+  name: string;
+  location_notes?: string | null;
+}
+
+/** Patrol checkpoints of a site and their printable QR labels */
+export default function SiteCheckpointsEditor({ site }: { site: PrintableSite & { id: string } }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState({ name: '', location_notes: '' });
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const { data, isLoading } = useQuery<{ checkpoints: Checkpoint[] }>({
+    queryKey: ['site-checkpoints', site.id],
+    queryFn: () => patrolsApi.getCheckpoints(site.id).then((res) => res.data),
+    enabled: open,
+  });
+  const checkpoints = data?.checkpoints || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['site-checkpoints', site.id] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      patrolsApi.createCheckpoint(site.id, {
+        name: form.name.trim(),
+        location_notes: form.location_notes.trim() || null,
+        sort_order: checkpoints.length,
+      }),
+    onSuccess: () => {
+      invalidate();
+      setForm({ name: '', location_notes: '' });
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה ביצירת נקודת ביקורת');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => patrolsApi.deleteCheckpoint(id),
+    onSuccess: () => invalidate(),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה במחיקת נקודת ביקורת');
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (id: string) => patrolsApi.regenerateCheckpointCode(id),
+    onSuccess: (res) => toast.success(res.data.message || 'הופק קוד חדש'),
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בהפקת קוד חדש');
+    },
+  });
+
+  const printLabels = async () => {
+    setIsPrinting(true);
+    try {
+      const res = await patrolsApi.getCheckpointLabels(site.id);
+      await exportCheckpointLabelsPDF(site, res.data.labels as CheckpointLabel[]);
+    } catch (err) {
+      toast.error((err as MutationError)?.response?.data?.error || 'שגיאה בהפקת תוויות QR');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="mt-2 text-xs text-primary-600 hover:underline flex items-center gap-1">
+        <QrCode className="w-3.5 h-3.5" />
+        נקודות ביקורת ותוויות QR
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-700">נקודות ביקורת לסיור</p>
+        <button onClick={() => setOpen(false)} className="text-xs text-gray-400 hover:text-gray-600">
+          סגור
+        </button>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      ) : checkpoints.length === 0 ? (
+        <p className="text-xs text-gray-400">אין נקודות ביקורת באתר</p>
+      ) : (
+        <div className="space-y-1">
+          {checkpoints.map((checkpoint) => (
+            <div key={checkpoint.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-white border border-gray-100">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900">{checkpoint.name}</p>
+                {checkpoint.location_notes && <p className="text-xs text-gray-400 truncate">{checkpoint.location_notes}</p>}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => {
+                    if (confirm(`להפיק קוד חדש ל"${checkpoint.name}"? התווית המודפסת תפסיק לעבוד.`)) {
+                      regenerateMutation.mutate(checkpoint.id);
+                    }
+                  }}
+                  disabled={regenerateMutation.isPending}
+                  className="btn-icon"
+                  title="הפק קוד חדש (תווית אבדה או הועתקה)"
+                >
+                  <RefreshCw className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`למחוק את "${checkpoint.name}"?`)) deleteMutation.mutate(checkpoint.id);
+                  }}
+                  disabled={deleteMutation.isPending}
+                  className="btn-icon"
+                  title="מחק"
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-red-500" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          className="input text-sm"
+          placeholder="שם הנקודה"
+        />
+        <input
+          value={form.location_notes}
+          onChange={(e) => setForm({ ...form, location_notes: e.target.value })}
+          className="input text-sm"
+          placeholder="היכן ממוקמת (לא חובה)"
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !form.name.trim()}
+          className="btn-secondary text-xs flex items-center gap-1.5"
+        >
+          {createMutation.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />}
+          הוסף נקודה
+        </button>
+        <button
+          onClick={printLabels}
+          disabled={isPrinting || checkpoints.length === 0}
+          className="btn-primary text-xs flex items-center gap-1.5"
+        >
+          {isPrinting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Printer className="w-3.5 h-3.5" />}
+          הדפס תוויות QR
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Locate, Loader2 } from 'lucide-react';
+import { sitesApi } from '../services/api';
+import type { MutationError } from '../types';
+
+// Server-side radius when a site has coordinates but no geofence of its own
+const DEFAULT_RADIUS_METERS = 1000;
+
+export interface GeofenceSite {
+  id: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  geofence_radius_meters?: number | null;
+  geofence_polygon?: string | null;
+}
+
+function parsePolygon(value?: string | null): [number, number][] {
+  if (!value) return [];
+  try {
+    const points = JSON.parse(value);
+    return Array.isArray(points) ? points : [];
+  } catch {
+    return [];
+  }
+}
+
+/** "lat, lng" per line; null when a line is not a coordinate pair */
+function parsePolygonText(text: string): [number, number][] | null {
+  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean);
+  const points: [number, number][] = [];
+  for (const line of lines) {
+    const [lat, lng] = line.split(/[,\s]+/).map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+    points.push([lat, lng]);
+  }
+  return points;
+}
+
+function describeFence(site: GeofenceSite): string {
+  const polygon = parsePolygon(site.geofence_polygon);
+  if (polygon.length >= 3) return `פוליגון (${polygon.length} נקודות)`;
+  if (site.latitude == null || site.longitude == null) return 'ללא קואורדינטות - אין בדיקת מיקום';
+  return site.geofence_radius_meters ? `רדיוס ${site.geofence_radius_meters} מ'` : `רדיוס ברירת מחדל ${DEFAULT_RADIUS_METERS} מ'`;
+}
+
+/** Check-in geofence of a site: a radius around its coordinates or a polygon */
+export default function SiteGeofenceEditor({ customerId, site }: { customerId: string; site: GeofenceSite }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [radius, setRadius] = useState(site.geofence_radius_meters ? String(site.geofence_radius_meters) : '');
+  const [polygonText, setPolygonText] = useState(
+    parsePolygon(site.geofence_polygon).map(([lat, lng]) => `${lat}, ${lng}`).join('\n')
+  );
+
+  const polygon = parsePolygonText(polygonText);
+  const polygonInvalid = polygon === null || (polygon.length > 0 && polygon.length < 3);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      sitesApi.setGeofence(customerId, site.id, {
+        geofence_radius_meters: radius ? Number(radius) : null,
+        geofence_polygon: polygon && polygon.length >= 3 ? polygon : null,
+      }),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['customer', customerId] });
+      toast.success(res.data.message || 'גדר האתר עודכנה');
+      setOpen(false);
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בעדכון גדר האתר');
+    },
+  });
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="mt-2 text-xs text-primary-600 hover:underline flex items-center gap-1">
+        <Locate className="w-3.5 h-3.5" />
+        גדר נוכחות: {describeFence(site)}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-700">גדר נוכחות לצ'ק-אין</p>
+        <button onClick={() => setOpen(false)} className="text-xs text-gray-400 hover:text-gray-600">
+          סגור
+        </button>
+      </div>
+      <div>
+        <label className="label text-xs">רדיוס מהאתר (מטרים)</label>
+        <input
+          type="number"
+          min="10"
+          value={radius}
+          onChange={(e) => setRadius(e.target.value)}
+          className="input text-sm"
+          placeholder={`ברירת מחדל ${DEFAULT_RADIUS_METERS}`}
+        />
+      </div>
+      <div>
+        <label className="label text-xs">פוליגון - נקודה בכל שורה: קו רוחב, קו אורך (גובר על הרדיוס)</label>
+        <textarea
+          dir="ltr"
+          rows={4}
+          value={polygonText}
+          onChange={(e) => setPolygonText(e.target.value)}
+          className="input text-xs font-mono"
+          placeholder={'32.0853, 34.7818\n32.0860, 34.7830\n32.0845, 34.7835'}
+        />
+        {polygonInvalid && <p className="text-xs text-red-600 mt-1">נדרשות לפחות 3 נקודות תקינות</p>}
+      </div>
+      <p className="text-xs text-gray-500">צ'ק-אין מחוץ לגדר או ללא מיקום יירשם וימתין לאישור מנהל.</p>
+      <button
+        onClick={() => saveMutation.mutate()}
+        disabled={saveMutation.isPending || polygonInvalid}
+        className="btn-primary text-xs flex items-center gap-1.5"
+      >
+        {saveMutation.isPending && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+        שמור גדר
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { ScrollText, Loader2, CheckCircle, Clock, Send } from 'lucide-react';
+import { sitesGlobalApi } from '../services/api';
+import { formatPunchTime } from './PunchCorrectionModal';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface PostOrder {
+  id: string;
+  version: number;
+  title?: string | null;
+  content: string;
+  change_summary?: string | null;
+  created_at: string;
+  /** Guard view: when this guard acknowledged the version, null while pending */
+  acknowledged_at?: string | null;
+}
+
+interface PostOrderVersion extends PostOrder {
+  created_by_name?: string | null;
+  acknowledged_count: number;
+}
+
+interface AcknowledgementRow {
+  employee_id: string;
+  employee_name: string;
+  phone?: string | null;
+  next_shift_date?: string | null;
+  acknowledged_at?: string | null;
+  last_acknowledged_version?: number | null;
+}
+
+interface AcknowledgementStatus {
+  post_order: PostOrder | null;
+  acknowledged: AcknowledgementRow[];
+  pending: AcknowledgementRow[];
+}
+
+// ── Guard view ──────────────────────────────────────────────────────────────
+
+/**
+ * Site post orders as the guard reads them in the Guard Panel. Pending
+ * versions are shown in full with the confirm button; acknowledged ones
+ * collapse to a link for re-reading.
+ */
+export function PostOrderCard({
+  postOrder,
+  confirmLabel,
+  onConfirm,
+  isPending = false,
+}: {
+  postOrder: PostOrder;
+  confirmLabel: string;
+  onConfirm?: () => void;
+  isPending?: boolean;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const needsAck = !postOrder.acknowledged_at && !!onConfirm;
+
+  if (!needsAck && !expanded) {
+    return (
+      <button
+        onClick={() => setExpanded(true)}
+        className="w-full text-sm text-primary-600 hover:underline flex items-center justify-center gap-1.5"
+      >
+        <ScrollText className="w-4 h-4" />
+        הוראות האתר (גרסה {postOrder.version})
+      </button>
+    );
+  }
+
+  return (
+    <div className={`card border ${needsAck ? 'border-amber-200 bg-amber-50/40' : 'border-gray-100'}`}>
+      <div className="flex items-center gap-2 mb-3">
+        <ScrollText className="w-5 h-5 text-amber-600" />
+        <div>
+          <h3 className="font-bold text-gray-900 font-heading">{postOrder.title || 'הוראות האתר'}</h3>
+          <p className="text-xs text-gray-500">
+            גרסה {postOrder.version} · עודכן {formatPunchTime(postOrder.created_at, 'dd/MM/yyyy')}
+          </p>
+        </div>
+      </div>
+
+      {needsAck && postOrder.version > 1 && (
+        <p className="text-sm text-amber-800 bg-amber-100/60 rounded-lg px-3 py-2 mb-3">
+          ההוראות עודכנו מאז שאישרת אותן
+          {postOrder.change_summary && `: ${postOrder.change_summary}`}
+        </p>
+      )}
+
+      <div className="text-sm text-gray-800 whitespace-pre-wrap max-h-80 overflow-y-auto">{postOrder.content}</div>
+
+      {needsAck ? (
+        <button
+          onClick={onConfirm}
+          disabled={isPending}
+          className="btn-primary w-full mt-3 flex items-center justify-center gap-2"
+        >
+          {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+          {confirmLabel}
+        </button>
+      ) : (
+        <button onClick={() => setExpanded(false)} className="btn-ghost w-full mt-3 text-sm">
+          סגור
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ── Manager editor ──────────────────────────────────────────────────────────
+
+function AcknowledgementList({ siteId }: { siteId: string }) {
+  const { data, isLoading } = useQuery<AcknowledgementStatus>({
+    queryKey: ['post-order-acks', siteId],
+    queryFn: () => sitesGlobalApi.getPostOrderAcknowledgements(siteId).then((res) => res.data),
+  });
+
+  if (isLoading) return <Loader2 className="w-4 h-4 animate-spin text-gray-400" />;
+  if (!data?.post_order) return null;
+  if (data.acknowledged.length + data.pending.length === 0) {
+    return <p className="text-xs text-gray-400">אין מאבטחים ששובצו באתר בחודש האחרון או הקרוב</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-gray-700">
+        אישרו את גרסה {data.post_order.version}: {data.acknowledged.length} מתוך {data.acknowledged.length + data.pending.length}
+      </p>
+      {data.pending.map((row) => (
+        <div key={row.employee_id} className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-gray-900">{row.employee_name}</span>
+          <span className="flex items-center gap-1 text-amber-700">
+            <Clock className="w-3 h-3" />
+            {row.last_acknowledged_version ? `אישר גרסה ${row.last_acknowledged_version}` : 'טרם אישר'}
+            {row.next_shift_date && ` · משמרת הבאה ${format(new Date(`${row.next_shift_date}T00:00:00`), 'd/M')}`}
+          </span>
+        </div>
+      ))}
+      {data.acknowledged.map((row) => (
+        <div key={row.employee_id} className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-gray-900">{row.employee_name}</span>
+          <span className="flex items-center gap-1 text-green-700">
+            <CheckCircle className="w-3 h-3" />
+            {formatPunchTime(row.acknowledged_at!, 'dd/MM HH:mm')}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Versioned post orders of a site and who has acknowledged the current version */
+export default function SitePostOrdersEditor({ siteId }: { siteId: string }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ title: '', content: '', change_summary: '' });
+
+  const { data, isLoading } = useQuery<{ versions: PostOrderVersion[] }>({
+    queryKey: ['post-orders', siteId],
+    queryFn: () => sitesGlobalApi.getPostOrders(siteId).then((res) => res.data),
+    enabled: open,
+  });
+  const versions = data?.versions || [];
+  const current = versions[0];
+
+  const publishMutation = useMutation({
+    mutationFn: () =>
+      sitesGlobalApi.publishPostOrder(siteId, {
+        title: form.title.trim() || undefined,
+        content: form.content,
+        change_summary: form.change_summary.trim() || undefined,
+      }),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['post-orders', siteId] });
+      queryClient.invalidateQueries({ queryKey: ['post-order-acks', siteId] });
+      toast.success(res.data.message || 'הוראות האתר פורסמו');
+      setEditing(false);
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בפרסום הוראות האתר');
+    },
+  });
+
+  const startEditing = () => {
+    setForm({ title: current?.title || '', content: current?.content || '', change_summary: '' });
+    setEditing(true);
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="mt-2 text-xs text-primary-600 hover:underline flex items-center gap-1">
+        <ScrollText className="w-3.5 h-3.5" />
+        הוראות אתר ואישורי מאבטחים
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-700">
+          הוראות האתר{current && ` · גרסה ${current.version} מ-${formatPunchTime(current.created_at, 'dd/MM/yyyy')}`}
+        </p>
+        <button onClick={() => setOpen(false)} className="text-xs text-gray-400 hover:text-gray-600">
+          סגור
+        </button>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      ) : editing ? (
+        <div className="space-y-2">
+          <input
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            className="input text-sm"
+            placeholder="כותרת (לא חובה)"
+          />
+          <textarea
+            value={form.content}
+            onChange={(e) => setForm({ ...form, content: e.target.value })}
+            className="input text-sm"
+            rows={8}
+            placeholder={'נהלי כניסה, אנשי קשר לחירום, דרישות סיור...'}
+          />
+          {current && (
+            <input
+              value={form.change_summary}
+              onChange={(e) => setForm({ ...form, change_summary: e.target.value })}
+              className="input text-sm"
+              placeholder="מה השתנה? (יוצג למאבטחים)"
+            />
+          )}
+          <p className="text-xs text-gray-400">פרסום גרסה חדשה מחייב כל מאבטח לאשר אותה בכניסה הבאה למשמרת באתר.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => publishMutation.mutate()}
+              disabled={publishMutation.isPending || !form.content.trim()}
+              className="btn-primary text-xs flex items-center gap-1.5"
+            >
+              {publishMutation.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+              פרסם גרסה {(current?.version || 0) + 1}
+            </button>
+            <button onClick={() => setEditing(false)} className="btn-secondary text-xs">
+              ביטול
+            </button>
+          </div>
+        </div>
+      ) : current ? (
+        <>
+          <div className="p-2 rounded-lg bg-white border border-gray-100 text-sm text-gray-800 whitespace-pre-wrap max-h-48 overflow-y-auto">
+            {current.content}
+          </div>
+          <AcknowledgementList siteId={siteId} />
+          <div className="flex items-center justify-between">
+            <button onClick={startEditing} className="btn-secondary text-xs">
+              עדכן הוראות
+            </button>
+            {versions.length > 1 && (
+              <span className="text-xs text-gray-400">{versions.length} גרסאות</span>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-400">לאתר אין הוראות כתובות</p>
+          <button onClick={startEditing} className="btn-secondary text-xs">
+            כתוב הוראות
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Siren, Phone, MapPin, Loader2, Settings, CheckCircle, Navigation } from 'lucide-react';
+import { incidentsApi } from '../services/api';
+import { parsePunchTime } from './PunchCorrectionModal';
+import { SkeletonPulse } from './Skeleton';
+import type { MutationError, SosAlert } from '../types';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function formatClock(value: string) {
+  return parsePunchTime(value)?.toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' }) ?? '';
+}
+
+function mapUrl(alert: SosAlert) {
+  return alert.latitude != null && alert.longitude != null
+    ? `https://www.google.com/maps/search/?api=1&query=${alert.latitude},${alert.longitude}`
+    : null;
+}
+
+function placeOf(alert: SosAlert) {
+  return alert.site_name || alert.company_name || 'ללא משמרת פעילה';
+}
+
+function useActiveSos() {
+  return useQuery<{ alerts: SosAlert[] }>({
+    queryKey: ['sos-active'],
+    queryFn: () => incidentsApi.getActiveSos().then((res) => res.data),
+    refetchInterval: 15000,
+  });
+}
+
+function useInvalidateSos() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['sos-active'] });
+    queryClient.invalidateQueries({ queryKey: ['active-guards'] });
+  };
+}
+
+// ── Blocking alert ──────────────────────────────────────────────────────────
+
+function SosAlertItem({ alert }: { alert: SosAlert }) {
+  const invalidate = useInvalidateSos();
+  const [message, setMessage] = useState('');
+  const map = mapUrl(alert);
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: () => incidentsApi.acknowledgeSos(alert.id, message),
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data.message || 'המאבטח עודכן שעזרה בדרך');
+    },
+    onError: (err: MutationError) => {
+      invalidate();
+      toast.error(err?.response?.data?.error || 'שגיאה באישור הקריאה');
+    },
+  });
+
+  return (
+    <div className="p-4 rounded-xl bg-white border-2 border-red-200 space-y-3">
+      <div>
+        <p className="text-lg font-bold text-gray-900">{alert.employee_name}</p>
+        <p className="text-sm text-gray-600">
+          {placeOf(alert)}
+          {alert.site_address && ` · ${alert.site_address}`}
+        </p>
+        <p className="text-xs text-red-600 mt-0.5">
+          נשלחה ב-{formatClock(alert.created_at)}
+          {alert.location_updated_at && ` · מיקום עודכן ב-${formatClock(alert.location_updated_at)}`}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {alert.employee_phone && (
+          <a href={`tel:${alert.employee_phone}`} className="btn-secondary text-sm flex-1 flex items-center justify-center gap-1.5">
+            <Phone className="w-4 h-4" />
+            התקשר
+          </a>
+        )}
+        {map && (
+          <a href={map} target="_blank" rel="noreferrer" className="btn-secondary text-sm flex-1 flex items-center justify-center gap-1.5">
+            <MapPin className="w-4 h-4" />
+            מיקום
+          </a>
+        )}
+      </div>
+      <input
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        className="input text-sm"
+        placeholder="הודעה למאבטח (לא חובה) - למשל: ניידת בדרך, 5 דקות"
+      />
+      <button
+        onClick={() => acknowledgeMutation.mutate()}
+        disabled={acknowledgeMutation.isPending}
+        className="w-full py-3 rounded-xl bg-red-600 hover:bg-red-700 text-white font-bold flex items-center justify-center gap-2"
+      >
+        {acknowledgeMutation.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : <CheckCircle className="w-5 h-5" />}
+        קיבלתי - עזרה בדרך
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Full-screen alert for managers while any panic alert is unacknowledged.
+ * It cannot be dismissed - only acknowledged, which tells the guard help is coming.
+ */
+export default function SosAlertOverlay() {
+  const { data } = useActiveSos();
+  const pending = (data?.alerts || []).filter((a) => a.status === 'active');
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-red-900/80 backdrop-blur-sm flex items-center justify-center p-4" dir="rtl">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto rounded-2xl bg-red-50 p-5 shadow-2xl space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-full bg-red-600 flex items-center justify-center animate-pulse">
+            <Siren className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-red-800 font-heading">קריאת מצוקה</h2>
+            <p className="text-sm text-red-700">
+              {pending.length > 1 ? `${pending.length} מאבטחים זקוקים לעזרה` : 'מאבטח זקוק לעזרה'}
+            </p>
+          </div>
+        </div>
+        {pending.map((alert) => (
+          <SosAlertItem key={alert.id} alert={alert} />
+        ))}
+        <Link to="/guard-tracking" className="btn-ghost w-full flex items-center justify-center gap-1.5 text-sm">
+          <Navigation className="w-4 h-4" />
+          פתח במפת המעקב
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+// ── On-call settings ────────────────────────────────────────────────────────
+
+function OnCallSettingsForm({ onClose }: { onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const { data } = useQuery<{ on_call_phones: string[] }>({
+    queryKey: ['sos-settings'],
+    queryFn: () => incidentsApi.getSosSettings().then((res) => res.data),
+  });
+  const text = draft ?? data?.on_call_phones.join('\n');
+
+  const saveMutation = useMutation({
+    mutationFn: (phones: string[]) => incidentsApi.updateSosSettings({ on_call_phones: phones }),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['sos-settings'] });
+      toast.success(res.data.message || 'רשימת הכוננות עודכנה');
+      onClose();
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשמירת רשימת הכוננות');
+    },
+  });
+
+  if (text === undefined) return <SkeletonPulse className="h-16 w-full rounded-xl mb-3" />;
+
+  return (
+    <div className="p-3.5 rounded-xl bg-gray-50 border border-gray-100 mb-3 space-y-2">
+      <label className="label text-xs">טלפונים לכוננות - מספר בכל שורה (ריק = טלפוני המנהלים)</label>
+      <textarea
+        dir="ltr"
+        rows={3}
+        value={text}
+        onChange={(e) => setDraft(e.target.value)}
+        className="input text-sm font-mono"
+        placeholder={'0501234567\n0527654321'}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => saveMutation.mutate(text.split('\n').map((p) => p.trim()).filter(Boolean))}
+          disabled={saveMutation.isPending}
+          className="btn-primary text-xs flex items-center gap-1.5"
+        >
+          {saveMutation.isPending && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          שמור
+        </button>
+        <button onClick={onClose} className="btn-secondary text-xs">
+          ביטול
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ── Dashboard card ──────────────────────────────────────────────────────────
+
+/** Operations dashboard card: acknowledged alerts still open, to be closed once handled */
+export function SosAlertsCard() {
+  const invalidate = useInvalidateSos();
+  const [showSettings, setShowSettings] = useState(false);
+  const { data } = useActiveSos();
+  const alerts = data?.alerts || [];
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, resolution }: { id: string; resolution: string }) => incidentsApi.resolveSos(id, resolution),
+    onSuccess: (res) => {
+      invalidate();
+      toast.success(res.data.message || 'קריאת המצוקה נסגרה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בסגירת הקריאה');
+    },
+  });
+
+  const resolve = (alert: SosAlert) => {
+    const resolution = prompt(`סיכום הטיפול בקריאה של ${alert.employee_name}:`);
+    if (resolution === null) return;
+    resolveMutation.mutate({ id: alert.id, resolution });
+  };
+
+  if (alerts.length === 0 && !showSettings) {
+    return (
+      <div className="flex justify-end -mb-3">
+        <button
+          onClick={() => setShowSettings(true)}
+          className="text-xs text-gray-400 hover:text-gray-600 flex items-center gap-1"
+        >
+          <Settings className="w-3.5 h-3.5" />
+          כוננות לקריאות מצוקה
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`card ${alerts.length > 0 ? 'ring-2 ring-red-300' : ''}`}>
+      <div className="section-header">
+        <div className="section-header-icon bg-gradient-to-br from-red-100 to-red-50">
+          <Siren className="w-4 h-4 text-red-500" />
+        </div>
+        <h3 className="section-header-title">קריאות מצוקה פתוחות</h3>
+        {alerts.length > 0 && <span className="badge badge-danger">{alerts.length}</span>}
+        <button
+          onClick={() => setShowSettings((v) => !v)}
+          className="btn-icon mr-auto"
+          title="כוננות לקריאות מצוקה"
+        >
+          <Settings className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showSettings && <OnCallSettingsForm onClose={() => setShowSettings(false)} />}
+
+      {alerts.length > 0 ? (
+        <div className="space-y-2">
+          {alerts.map((alert) => {
+            const map = mapUrl(alert);
+            return (
+              <div key={alert.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-red-50/40 border border-red-100">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm text-gray-900">
+                    {alert.employee_name} · {placeOf(alert)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatClock(alert.created_at)}
+                    {alert.status === 'acknowledged'
+                      ? ` · אושר ע"י ${alert.acknowledged_by_name}`
+                      : ' · ממתין לאישור'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1.5 flex-shrink-0">
+                  {map && (
+                    <a href={map} target="_blank" rel="noreferrer" className="btn-icon" title="מיקום אחרון">
+                      <MapPin className="w-4 h-4 text-red-600" />
+                    </a>
+                  )}
+                  <button
+                    onClick={() => resolve(alert)}
+                    disabled={resolveMutation.isPending}
+                    className="btn-secondary text-xs"
+                  >
+                    סגור קריאה
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 text-center py-4">אין קריאות מצוקה פתוחות</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { Siren, Phone, CheckCircle, Loader2, Navigation } from 'lucide-react';
+import { incidentsApi } from '../services/api';
+import { parsePunchTime } from './PunchCorrectionModal';
+import { isNetworkError } from '../utils/offlineQueue';
+import type { MutationError, SosAlert } from '../types';
+
+// Press and hold this long to raise the alarm - a pocket tap must not
+const HOLD_MS = 2000;
+// Location updates while an alert is open
+const LOCATION_INTERVAL_MS = 10000;
+const EMERGENCY_NUMBER = '100';
+
+/** Last known position right away; the live stream follows once the alert is open */
+function quickLocation(): Promise<{ latitude: number; longitude: number; accuracy: number } | null> {
+  if (!navigator.geolocation) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ latitude: pos.coords.latitude, longitude: pos.coords.longitude, accuracy: pos.coords.accuracy }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 3000, maximumAge: 300000 }
+    );
+  });
+}
+
+function formatClock(value: string) {
+  return parsePunchTime(value)?.toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' }) ?? '';
+}
+
+/** Stream the guard's position to the open alert until it is resolved */
+function useSosLocationStream(alertId: string | null) {
+  const lastSent = useRef(0);
+
+  useEffect(() => {
+    if (!alertId || !navigator.geolocation) return;
+    lastSent.current = 0;
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        if (Date.now() - lastSent.current < LOCATION_INTERVAL_MS) return;
+        lastSent.current = Date.now();
+        incidentsApi
+          .reportSosLocation(alertId, {
+            latitude: pos.coords.latitude,
+            longitude: pos.coords.longitude,
+            accuracy: pos.coords.accuracy,
+          })
+          .catch((err) => console.warn('SOS location report failed:', err));
+      },
+      () => {},
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [alertId]);
+}
+
+/** Long-press panic button of the Guard Panel, with the alert's acknowledgement state */
+export default function SosButton({ assignmentId }: { assignmentId?: string | null }) {
+  const queryClient = useQueryClient();
+  const [holding, setHolding] = useState(false);
+  const [unreachable, setUnreachable] = useState(false);
+  const holdTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const { data } = useQuery<{ alert: SosAlert | null }>({
+    queryKey: ['sos-mine'],
+    queryFn: () => incidentsApi.getMySos().then((res) => res.data),
+    refetchInterval: (query) => (query.state.data?.alert?.status === 'resolved' || !query.state.data?.alert ? false : 10000),
+  });
+  const alert = data?.alert ?? null;
+  const isOpen = alert?.status === 'active' || alert?.status === 'acknowledged';
+
+  useSosLocationStream(isOpen ? alert!.id : null);
+
+  const triggerMutation = useMutation({
+    mutationFn: async () => {
+      const location = await quickLocation();
+      return incidentsApi.triggerSos({ assignment_id: assignmentId, ...location }, crypto.randomUUID());
+    },
+    onSuccess: (res) => {
+      setUnreachable(false);
+      queryClient.setQueryData(['sos-mine'], { alert: res.data.alert });
+      navigator.vibrate?.([200, 100, 200]);
+      toast.success(res.data.message || 'קריאת המצוקה נשלחה');
+    },
+    onError: (err: MutationError) => {
+      if (isNetworkError(err)) {
+        setUnreachable(true);
+        return;
+      }
+      toast.error(err?.response?.data?.error || 'שגיאה בשליחת קריאת מצוקה');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (alertId: string) => incidentsApi.resolveSos(alertId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sos-mine'] });
+      toast.success('קריאת המצוקה בוטלה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בביטול הקריאה');
+    },
+  });
+
+  const startHold = () => {
+    if (triggerMutation.isPending) return;
+    setHolding(true);
+    holdTimer.current = setTimeout(() => {
+      setHolding(false);
+      triggerMutation.mutate();
+    }, HOLD_MS);
+  };
+
+  const endHold = () => {
+    setHolding(false);
+    if (holdTimer.current) {
+      clearTimeout(holdTimer.current);
+      holdTimer.current = null;
+    }
+  };
+
+  useEffect(() => endHold, []);
+
+  const emergencyCall = (
+    <a
+      href={`tel:${EMERGENCY_NUMBER}`}
+      className="btn-secondary w-full flex items-center justify-center gap-2"
+    >
+      <Phone className="w-4 h-4" />
+      חיוג למשטרה {EMERGENCY_NUMBER}
+    </a>
+  );
+
+  if (isOpen) {
+    const acknowledged = alert!.status === 'acknowledged';
+    return (
+      <div className={`card border-2 space-y-3 ${acknowledged ? 'border-green-300 bg-green-50/60' : 'border-red-300 bg-red-50/60'}`}>
+        <div className="flex items-center gap-3">
+          <div className={`w-12 h-12 rounded-full flex items-center justify-center ${acknowledged ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}>
+            {acknowledged ? <CheckCircle className="w-6 h-6 text-white" /> : <Siren className="w-6 h-6 text-white" />}
+          </div>
+          <div>
+            <h3 className={`font-bold font-heading ${acknowledged ? 'text-green-800' : 'text-red-800'}`}>
+              {acknowledged ? 'עזרה בדרך' : 'קריאת מצוקה נשלחה'}
+            </h3>
+            <p className="text-sm text-gray-600">
+              {acknowledged
+                ? `${alert!.acknowledged_by_name} קיבל/ה את הקריאה ב-${formatClock(alert!.acknowledged_at!)}`
+                : `נשלחה ב-${formatClock(alert!.created_at)} · ממתין לאישור מנהל`}
+            </p>
+          </div>
+        </div>
+        {acknowledged && alert!.acknowledge_message && (
+          <p className="text-sm font-medium text-green-900 bg-white rounded-lg px-3 py-2">{alert!.acknowledge_message}</p>
+        )}
+        <p className="text-xs text-gray-500 flex items-center gap-1">
+          <Navigation className="w-3.5 h-3.5" />
+          המיקום שלך משודר למוקד עד לסגירת הקריאה
+        </p>
+        {emergencyCall}
+        {!acknowledged && (
+          <button
+            onClick={() => {
+              if (confirm('לבטל את קריאת המצוקה? (התראת שווא)')) cancelMutation.mutate(alert!.id);
+            }}
+            disabled={cancelMutation.isPending}
+            className="btn-ghost w-full text-sm"
+          >
+            ביטול - התראת שווא
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {alert?.status === 'resolved' && (
+        <p className="text-xs text-gray-500 text-center">
+          קריאת המצוקה נסגרה{alert.resolution ? `: ${alert.resolution}` : ''}
+        </p>
+      )}
+      <button
+        onPointerDown={startHold}
+        onPointerUp={endHold}
+        onPointerLeave={endHold}
+        onPointerCancel={endHold}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={triggerMutation.isPending}
+        className="relative w-full py-5 rounded-2xl overflow-hidden text-white text-xl font-bold bg-red-600 active:bg-red-700 disabled:opacity-70 shadow-lg select-none touch-none flex items-center justify-center gap-3"
+      >
+        <span
+          className="absolute inset-y-0 right-0 bg-red-900/40"
+          style={{ width: holding ? '100%' : '0%', transition: holding ? `width ${HOLD_MS}ms linear` : 'none' }}
+        />
+        <span className="relative flex items-center gap-3">
+          {triggerMutation.isPending ? <Loader2 className="w-7 h-7 animate-spin" /> : <Siren className="w-7 h-7" />}
+          {holding ? 'המשך ללחוץ...' : 'SOS - לחיצה ארוכה'}
+        </span>
+      </button>
+      {unreachable && (
+        <div className="card border border-red-200 space-y-2">
+          <p className="text-sm text-red-700 font-medium">אין קליטה - הקריאה לא נשלחה. התקשר/י ישירות:</p>
+          {emergencyCall}
+        </div>
+      )}
+    </div>
+  );
+}
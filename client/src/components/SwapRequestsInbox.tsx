@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { X, ArrowLeftRight, Check, Ban, Loader2 } from 'lucide-react';
+import { shiftsApi, employeesApi } from '../services/api';
+import { SkeletonPulse } from './Skeleton';
+import AssignmentWarnings, { needsOverride, isBlocked } from './AssignmentWarnings';
+import { formatShiftSlot, type SwapRequest } from './ShiftSwapPanel';
+import type { AssignmentIssue, MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface PendingSwapRequest extends SwapRequest {
+  eligibility?: { target: AssignmentIssue[]; requester: AssignmentIssue[] };
+}
+
+interface ActiveEmployee {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+// ── Request Card ────────────────────────────────────────────────────────────
+
+function SwapRequestCard({ request, employees }: { request: PendingSwapRequest; employees: ActiveEmployee[] }) {
+  const queryClient = useQueryClient();
+  const [replacementId, setReplacementId] = useState('');
+  const [note, setNote] = useState('');
+
+  // Open offers are filled by a replacement the manager picks here
+  const isOpenOffer = !request.target_employee_id;
+
+  const { data: checkData, isFetching: isChecking } = useQuery({
+    queryKey: ['assignment-check', request.shift_id, replacementId],
+    queryFn: () =>
+      shiftsApi.checkAssignment({ shift_id: request.shift_id, employee_ids: [replacementId] }).then((res) => res.data),
+    enabled: isOpenOffer && !!replacementId,
+  });
+
+  const targetIssues: AssignmentIssue[] = isOpenOffer
+    ? (replacementId ? checkData?.results?.[replacementId] ?? [] : [])
+    : request.eligibility?.target ?? [];
+  const requesterIssues: AssignmentIssue[] = request.eligibility?.requester ?? [];
+  const allIssues = [...targetIssues, ...requesterIssues];
+  const replacement = employees.find((e) => e.id === replacementId);
+  const incomingName = isOpenOffer
+    ? replacement && `${replacement.first_name} ${replacement.last_name}`
+    : request.target_name;
+
+  const resolveMutation = useMutation({
+    mutationFn: (approve: boolean) =>
+      shiftsApi.resolveSwapRequest(request.id, approve, {
+        replacement_employee_id: isOpenOffer && replacementId ? replacementId : undefined,
+        note: note.trim() || undefined,
+      }),
+    onSuccess: (_res, approve) => {
+      queryClient.invalidateQueries({ queryKey: ['swap-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      toast.success(approve ? 'ההחלפה אושרה' : 'הבקשה נדחתה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בטיפול בבקשה');
+    },
+  });
+
+  const approveDisabled =
+    resolveMutation.isPending ||
+    (isOpenOffer && (!replacementId || isChecking)) ||
+    isBlocked(allIssues) ||
+    (needsOverride(allIssues) && !note.trim());
+
+  return (
+    <div className="border border-gray-100 rounded-xl p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="font-medium text-gray-900">
+            {request.requester_name}
+            <span className="text-gray-400 mx-1.5">→</span>
+            {request.target_name || 'מחליף לבחירת מנהל'}
+          </p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {formatShiftSlot(request.date, request.start_time, request.end_time)}
+            {request.site_name ? ` · ${request.site_name}` : ''}
+          </p>
+          {request.swap_type === 'trade' && (
+            <p className="text-xs text-gray-500">
+              בתמורה: {formatShiftSlot(request.target_date, request.target_start_time, request.target_end_time)}
+              {request.target_site_name ? ` · ${request.target_site_name}` : ''}
+            </p>
+          )}
+        </div>
+        <span className={request.swap_type === 'trade' ? 'badge-info' : 'badge-gray'}>
+          {request.swap_type === 'trade' ? 'החלפה הדדית' : 'מסירה'}
+        </span>
+      </div>
+
+      {request.reason && <p className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2">{request.reason}</p>}
+
+      {isOpenOffer && (
+        <div>
+          <label className="label">עובד מחליף</label>
+          <select value={replacementId} onChange={(e) => setReplacementId(e.target.value)} className="input">
+            <option value="">בחר עובד</option>
+            {employees
+              .filter((e) => e.id !== request.requester_id)
+              .map((e) => (
+                <option key={e.id} value={e.id}>{e.first_name} {e.last_name}</option>
+              ))}
+          </select>
+        </div>
+      )}
+
+      {targetIssues.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">{incomingName} במשמרת המבוקשת</p>
+          <AssignmentWarnings issues={targetIssues} />
+        </div>
+      )}
+      {requesterIssues.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">{request.requester_name} במשמרת בתמורה</p>
+          <AssignmentWarnings issues={requesterIssues} />
+        </div>
+      )}
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        className="input text-sm"
+        placeholder={needsOverride(allIssues) ? 'נימוק לאישור חריגה (חובה)' : 'הערה לעובדים (לא חובה)'}
+      />
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => resolveMutation.mutate(true)}
+          disabled={approveDisabled}
+          className="btn-success text-sm flex items-center gap-1.5"
+        >
+          {resolveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+          אשר
+        </button>
+        <button
+          onClick={() => resolveMutation.mutate(false)}
+          disabled={resolveMutation.isPending}
+          className="btn-danger text-sm flex items-center gap-1.5"
+        >
+          <Ban className="w-4 h-4" />
+          דחה
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function SwapRequestsInbox({ onClose }: { onClose: () => void }) {
+  const { data, isLoading } = useQuery<{ swap_requests: PendingSwapRequest[] }>({
+    queryKey: ['swap-requests', 'pending'],
+    queryFn: () => shiftsApi.getSwapRequests({ status: 'pending' }).then((res) => res.data),
+  });
+
+  const { data: employeesData } = useQuery({
+    queryKey: ['employees-active'],
+    queryFn: () => employeesApi.getAll({ status: 'active', limit: 200 }).then((res) => res.data),
+  });
+
+  const requests = data?.swap_requests || [];
+  const employees: ActiveEmployee[] = employeesData?.employees ?? [];
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content w-full max-w-2xl">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h2 className="text-xl font-bold font-heading flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-primary-100 to-primary-50 flex items-center justify-center">
+              <ArrowLeftRight className="w-4 h-4 text-primary-600" />
+            </div>
+            בקשות החלפה
+          </h2>
+          <button onClick={onClose} className="btn-icon">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 max-h-[70vh] overflow-y-auto">
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => <SkeletonPulse key={i} className="h-28 w-full rounded-xl" />)
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">אין בקשות החלפה ממתינות</p>
+          ) : (
+            requests.map((r) => <SwapRequestCard key={r.id} request={r} employees={employees} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
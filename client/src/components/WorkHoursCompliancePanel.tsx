@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { format, startOfWeek, endOfWeek, addWeeks, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { Scale, Users, ShieldCheck, Moon, ChevronDown, ChevronUp } from 'lucide-react';
+import { SkeletonPulse } from './Skeleton';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface ComplianceViolation {
+  code: 'daily_hours' | 'overtime_cap' | 'weekly_rest' | 'night_rotation';
+  severity: 'error' | 'warning';
+  date: string;
+  message: string;
+}
+
+export interface ComplianceWeek {
+  week_start: string;
+  total_hours: number;
+  overtime_hours: number;
+  night_shifts: number;
+  longest_rest_hours: number;
+  violations: ComplianceViolation[];
+}
+
+export interface EmployeeCompliance {
+  employee_id: string;
+  employee_name: string;
+  weeks: ComplianceWeek[];
+  violations: ComplianceViolation[];
+  total_hours: number;
+  overtime_hours: number;
+  night_shifts: number;
+}
+
+export interface ComplianceReport {
+  start_date: string;
+  end_date: string;
+  employees: EmployeeCompliance[];
+  summary: {
+    employees_checked: number;
+    employees_with_violations: number;
+    violations: number;
+  };
+}
+
+export type CompliancePeriod = 'this_week' | 'next_week' | 'this_month' | 'last_month';
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const periodLabels: Record<CompliancePeriod, string> = {
+  this_week: 'השבוע',
+  next_week: 'שבוע הבא',
+  this_month: 'החודש',
+  last_month: 'חודש קודם',
+};
+
+const violationLabels: Record<ComplianceViolation['code'], string> = {
+  daily_hours: 'שעות ביום',
+  overtime_cap: 'שעות נוספות',
+  weekly_rest: 'מנוחה שבועית',
+  night_rotation: 'לילות ברצף',
+};
+
+export function compliancePeriodRange(period: CompliancePeriod): { start_date: string; end_date: string } {
+  const now = new Date();
+  let start: Date;
+  let end: Date;
+  switch (period) {
+    case 'next_week':
+      start = startOfWeek(addWeeks(now, 1));
+      end = endOfWeek(start);
+      break;
+    case 'this_month':
+      start = startOfMonth(now);
+      end = endOfMonth(now);
+      break;
+    case 'last_month':
+      start = startOfMonth(subMonths(now, 1));
+      end = endOfMonth(start);
+      break;
+    default:
+      start = startOfWeek(now);
+      end = endOfWeek(now);
+  }
+  return { start_date: format(start, 'yyyy-MM-dd'), end_date: format(end, 'yyyy-MM-dd') };
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function WorkHoursCompliancePanel({
+  report,
+  isLoading,
+  period,
+  onPeriodChange,
+}: {
+  report: ComplianceReport | undefined;
+  isLoading: boolean;
+  period: CompliancePeriod;
+  onPeriodChange: (period: CompliancePeriod) => void;
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const violating = report?.employees.filter((e) => e.violations.length > 0) || [];
+  const compliant = (report?.employees.length || 0) - violating.length;
+
+  return (
+    <div className="card">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 bg-gradient-to-br from-rose-100 to-rose-50 rounded-lg flex items-center justify-center">
+            <Scale className="w-4 h-4 text-rose-600" />
+          </div>
+          <h3 className="font-semibold text-gray-900 font-heading">חוק שעות עבודה ומנוחה</h3>
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(periodLabels) as CompliancePeriod[]).map((p) => (
+            <button
+              key={p}
+              onClick={() => onPeriodChange(p)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                period === p ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {periodLabels[p]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <SkeletonPulse key={i} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : violating.length === 0 ? (
+        <div className="text-center py-8 text-gray-400">
+          <ShieldCheck className="w-10 h-10 mx-auto mb-2 opacity-40" />
+          <p className="text-sm">אין חריגות בתקופה זו</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {violating.map((emp) => {
+            const errors = emp.violations.filter((v) => v.severity === 'error').length;
+            const isOpen = expanded === emp.employee_id;
+            return (
+              <div
+                key={emp.employee_id}
+                className={`rounded-xl border ${errors > 0 ? 'border-red-200 bg-red-50/30' : 'border-amber-200 bg-amber-50/30'}`}
+              >
+                <button
+                  onClick={() => setExpanded(isOpen ? null : emp.employee_id)}
+                  className="w-full flex items-center justify-between gap-3 p-3 text-right"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Users className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    <span className="font-medium text-gray-900 text-sm truncate">{emp.employee_name}</span>
+                    <div className="hidden sm:flex flex-wrap gap-1">
+                      {[...new Set(emp.violations.map((v) => v.code))].map((code) => (
+                        <span
+                          key={code}
+                          className={emp.violations.some((v) => v.code === code && v.severity === 'error') ? 'badge-danger' : 'badge-warning'}
+                        >
+                          {violationLabels[code]}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4 text-xs text-gray-500 flex-shrink-0">
+                    <span>{emp.total_hours.toLocaleString('he-IL')} ש׳</span>
+                    <span>{emp.overtime_hours.toLocaleString('he-IL')} נוספות</span>
+                    <span className="flex items-center gap-1">
+                      <Moon className="w-3 h-3" />
+                      {emp.night_shifts}
+                    </span>
+                    {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </div>
+                </button>
+
+                {isOpen && (
+                  <div className="px-3 pb-3 space-y-3">
+                    <ul className="space-y-1">
+                      {emp.violations.map((v, i) => (
+                        <li
+                          key={`${v.code}-${v.date}-${i}`}
+                          className={`text-xs ${v.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+                        >
+                          • {v.message}
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="table-container">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="border-b border-gray-200 text-gray-500">
+                            <th className="text-right py-2 px-2 font-medium">שבוע</th>
+                            <th className="text-right py-2 px-2 font-medium">שעות</th>
+                            <th className="text-right py-2 px-2 font-medium">נוספות</th>
+                            <th className="text-right py-2 px-2 font-medium">לילות</th>
+                            <th className="text-right py-2 px-2 font-medium">מנוחה רצופה</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {emp.weeks.map((w) => (
+                            <tr key={w.week_start}>
+                              <td className="py-2 px-2 text-gray-700">{format(new Date(w.week_start + 'T00:00:00'), 'd/M')}</td>
+                              <td className="py-2 px-2 text-gray-700">{w.total_hours.toLocaleString('he-IL')}</td>
+                              <td className="py-2 px-2 text-gray-700">{w.overtime_hours.toLocaleString('he-IL')}</td>
+                              <td className="py-2 px-2 text-gray-700">{w.night_shifts}</td>
+                              <td className={`py-2 px-2 ${w.violations.some((v) => v.code === 'weekly_rest') ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                                {w.longest_rest_hours.toLocaleString('he-IL')}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!isLoading && report && compliant > 0 && (
+        <p className="text-xs text-gray-400 mt-3">{compliant} עובדים נוספים עומדים בדרישות החוק בתקופה זו</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useOnlineStatus } from './useOnlineStatus';
+import {
+  listQueuedActions,
+  enqueueAction,
+  discardQueuedAction,
+  onQueueChange,
+  sendAction,
+  syncQueuedActions,
+  isNetworkError,
+  type QueuedAction,
+} from '../utils/offlineQueue';
+
+// Retry interval while actions are waiting and the device claims to be online
+// (basements often report a connection that carries no data)
+const RETRY_INTERVAL_MS = 30000;
+
+export type SubmitResult =
+  | { queued: false; data: Record<string, unknown> }
+  | { queued: true; data: null };
+
+export function useOfflineQueue() {
+  const isOnline = useOnlineStatus();
+  const queryClient = useQueryClient();
+  const [actions, setActions] = useState<QueuedAction[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(() => {
+    listQueuedActions()
+      .then(setActions)
+      .catch(() => setActions([]));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return onQueueChange(refresh);
+  }, [refresh]);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const { synced, failed } = await syncQueuedActions();
+      if (synced > 0) {
+        queryClient.invalidateQueries({ queryKey: ['my-active-assignment'] });
+        queryClient.invalidateQueries({ queryKey: ['patrols-shift'] });
+        toast.success(`${synced} פעולות שנשמרו במכשיר סונכרנו`);
+      }
+      if (failed > 0) toast.error(`${failed} פעולות נדחו בסנכרון`);
+    } catch (err) {
+      console.error('Offline sync failed:', err);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient]);
+
+  const pending = actions.filter((a) => !a.error);
+  const failed = actions.filter((a) => a.error);
+
+  // Replay when connectivity returns and keep retrying while something waits
+  useEffect(() => {
+    if (!isOnline || pending.length === 0) return;
+    sync();
+    const interval = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOnline, pending.length, sync]);
+
+  /**
+   * Send the action now, or keep it on the device when there is no signal.
+   * Server rejections are thrown as usual so the caller shows the error.
+   */
+  const submit = useCallback(async (action: QueuedAction): Promise<SubmitResult> => {
+    if (navigator.onLine) {
+      try {
+        const res = await sendAction(action);
+        return { queued: false, data: res.data };
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+    await enqueueAction(action);
+    return { queued: true, data: null };
+  }, []);
+
+  return { isOnline, pending, failed, isSyncing, sync, submit, discard: discardQueuedAction };
+}
+
+export type OfflineQueue = ReturnType<typeof useOfflineQueue>;
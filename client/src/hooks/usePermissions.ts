@@ -16,6 +16,7 @@ const permissions: Record<string, UserRole[]> = {
   'page:weapons': ['admin', 'manager', 'employee'],
   'page:invoices': ['admin', 'manager'],
   'page:reports': ['admin', 'manager'],
+  'page:timesheets': ['admin', 'manager'],
   // נתונים פיננסיים גולמיים — תואם ל-requireManager בצד השרת (src/routes/priority.js).
   // שתי השכבות חייבות להסכים: ההסתרה בתפריט היא נוחות, האכיפה היא בשרת.
   'page:priority': ['admin', 'manager'],
@@ -23,6 +24,7 @@ const permissions: Record<string, UserRole[]> = {
   'page:guard-tracking': ['admin', 'manager'],
   'page:guard-panel': ['admin', 'manager', 'employee'],
   'page:open-shifts': ['admin', 'manager', 'employee'],
+  'page:my-schedule': ['employee'],
   'page:users': ['admin'],
   'page:settings': ['admin'],
   'page:profile': ['admin', 'manager', 'employee'],
@@ -54,6 +56,7 @@ const permissions: Record<string, UserRole[]> = {
   'shifts:edit': ['admin', 'manager'],
   'shifts:delete': ['admin', 'manager'],
   'shifts:assign': ['admin', 'manager'],
+  'shifts:override': ['admin', 'manager'],
   'shifts:checkin': ['admin', 'manager', 'employee'],
 
   // Actions - Events
@@ -64,6 +67,7 @@ const permissions: Record<string, UserRole[]> = {
 
   // Actions - Incidents
   'incidents:create': ['admin', 'manager', 'employee'],
+  'incidents:sos-respond': ['admin', 'manager'],
   'incidents:edit': ['admin', 'manager'],
   'incidents:resolve': ['admin', 'manager'],
 
@@ -77,6 +81,9 @@ const permissions: Record<string, UserRole[]> = {
   'weapons:manage': ['admin', 'manager'],
   'equipment:manage': ['admin', 'manager'],
 
+  // Actions - Timesheets
+  'timesheets:unlock': ['admin'],
+
   // Actions - Reports
   'reports:view': ['admin', 'manager'],
   'reports:export': ['admin', 'manager'],
@@ -23,6 +23,12 @@ import WhatsAppButton from '../components/WhatsAppButton';
 import ActivityLog from '../components/ActivityLog';
 import EmailComposeModal from '../components/EmailComposeModal';
 import DocumentManager from '../components/DocumentManager';
+import { SiteCalendarFeed } from '../components/CalendarFeeds';
+import SiteGeofenceEditor, { type GeofenceSite } from '../components/SiteGeofenceEditor';
+import SiteCheckpointsEditor from '../components/SiteCheckpointsEditor';
+import SitePostOrdersEditor from '../components/SitePostOrders';
+import ReadinessChecklistEditor from '../components/ReadinessChecklist';
+import { usePermissions } from '../hooks/usePermissions';
 
 const SERVICE_TYPE_OPTIONS = [
   { value: 'regular', label: 'שמירה רגילה' },
@@ -37,6 +43,25 @@ const PAYMENT_TERMS_OPTIONS = [
   { value: 'immediate', label: 'מיידי' },
 ];
 
+// Certification types (as on the employee's certifications) a site can require
+const SITE_CERTIFICATION_OPTIONS = [
+  { value: 'firearm_license', label: 'רישיון נשק' },
+  { value: 'security_officer', label: 'קצין ביטחון' },
+  { value: 'first_aid', label: 'עזרה ראשונה' },
+  { value: 'fire_safety', label: 'בטיחות אש' },
+  { value: 'driving_license', label: 'רישיון נהיגה' },
+  { value: 'guard_license', label: 'רישיון שמירה' },
+];
+
+const parseCertifications = (value?: string | null): string[] => {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
 const STATUS_OPTIONS = [
   { value: 'active', label: 'פעיל' },
   { value: 'inactive', label: 'לא פעיל' },
@@ -58,6 +83,7 @@ export default function CustomerDetails() {
   const { id } = useParams();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { isAdmin } = usePermissions();
 
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -78,9 +104,12 @@ export default function CustomerDetails() {
     notes: '',
   });
 
-  const [siteForm, setSiteForm] = useState({ name: '', address: '', city: '', requirements: '', requires_weapon: false, notes: '' });
+  const [siteForm, setSiteForm] = useState<{
+    name: string; address: string; city: string; requirements: string;
+    requires_weapon: boolean; notes: string; required_certifications: string[];
+  }>({ name: '', address: '', city: '', requirements: '', requires_weapon: false, notes: '', required_certifications: [] });
   const [contactForm, setContactForm] = useState({ name: '', role: '', phone: '', email: '', is_primary: false });
-  const [contractForm, setContractForm] = useState({ start_date: '', end_date: '', monthly_value: '', terms: '' });
+  const [contractForm, setContractForm] = useState({ start_date: '', end_date: '', monthly_value: '', hourly_rate: '', terms: '' });
 
   const { data, isLoading } = useQuery({
     queryKey: ['customer', id],
@@ -136,7 +165,7 @@ export default function CustomerDetails() {
       queryClient.invalidateQueries({ queryKey: ['customer', id] });
       toast.success('אתר נוסף בהצלחה');
       setShowSiteForm(false);
-      setSiteForm({ name: '', address: '', city: '', requirements: '', requires_weapon: false, notes: '' });
+      setSiteForm({ name: '', address: '', city: '', requirements: '', requires_weapon: false, notes: '', required_certifications: [] });
     },
     onError: () => toast.error('שגיאה בהוספת אתר'),
   });
@@ -158,7 +187,7 @@ export default function CustomerDetails() {
       queryClient.invalidateQueries({ queryKey: ['customer', id] });
       toast.success('חוזה נוסף בהצלחה');
       setShowContractForm(false);
-      setContractForm({ start_date: '', end_date: '', monthly_value: '', terms: '' });
+      setContractForm({ start_date: '', end_date: '', monthly_value: '', hourly_rate: '', terms: '' });
     },
     onError: () => toast.error('שגיאה בהוספת חוזה'),
   });
@@ -445,6 +474,27 @@ export default function CustomerDetails() {
                       <span>דורש נשק</span>
                     </label>
                   </div>
+                  <div className="col-span-2">
+                    <label className="label">הסמכות נדרשות</label>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {SITE_CERTIFICATION_OPTIONS.map((opt) => (
+                        <label key={opt.value} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={siteForm.required_certifications.includes(opt.value)}
+                            onChange={(e) => setSiteForm({
+                              ...siteForm,
+                              required_certifications: e.target.checked
+                                ? [...siteForm.required_certifications, opt.value]
+                                : siteForm.required_certifications.filter((c) => c !== opt.value),
+                            })}
+                            className="w-4 h-4 text-primary-600 rounded"
+                          />
+                          <span>{opt.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
                 </div>
                 <button type="submit" disabled={addSiteMutation.isPending || !siteForm.name || !siteForm.address} className="btn-primary text-sm">
                   {addSiteMutation.isPending ? 'שומר...' : 'שמור אתר'}
@@ -453,11 +503,11 @@ export default function CustomerDetails() {
             )}
             {data?.sites?.length > 0 ? (
               <div className="space-y-3">
-                {data.sites.map((site: {
-                  id: string;
+                {data.sites.map((site: GeofenceSite & {
                   name: string;
                   address: string;
                   requires_weapon: boolean;
+                  required_certifications?: string | null;
                 }) => (
                   <div key={site.id} className="p-3 bg-gray-50 rounded-lg">
                     <div className="flex items-center justify-between">
@@ -465,10 +515,24 @@ export default function CustomerDetails() {
                         <p className="font-medium">{site.name}</p>
                         <p className="text-sm text-gray-500">{site.address}</p>
                       </div>
-                      {site.requires_weapon && (
-                        <span className="badge badge-warning">דורש נשק</span>
-                      )}
+                      <div className="flex flex-wrap justify-end gap-1">
+                        {site.requires_weapon && (
+                          <span className="badge badge-warning">דורש נשק</span>
+                        )}
+                        {parseCertifications(site.required_certifications).map((cert) => (
+                          <span key={cert} className="badge badge-info">
+                            {SITE_CERTIFICATION_OPTIONS.find((o) => o.value === cert)?.label || cert}
+                          </span>
+                        ))}
+                      </div>
                     </div>
+                    <SiteGeofenceEditor customerId={id!} site={site} />
+                    {isAdmin && (
+                      <SiteCheckpointsEditor site={{ ...site, company_name: customer?.company_name }} />
+                    )}
+                    <SitePostOrdersEditor siteId={site.id} />
+                    <ReadinessChecklistEditor siteId={site.id} />
+                    <SiteCalendarFeed siteId={site.id} />
                   </div>
                 ))}
               </div>
@@ -487,7 +551,7 @@ export default function CustomerDetails() {
               </button>
             </div>
             {showContractForm && (
-              <form onSubmit={(e) => { e.preventDefault(); addContractMutation.mutate({...contractForm, monthly_value: Number(contractForm.monthly_value)}); }} className="mb-4 p-4 bg-yellow-50 rounded-lg space-y-3">
+              <form onSubmit={(e) => { e.preventDefault(); addContractMutation.mutate({...contractForm, monthly_value: Number(contractForm.monthly_value), hourly_rate: contractForm.hourly_rate ? Number(contractForm.hourly_rate) : null}); }} className="mb-4 p-4 bg-yellow-50 rounded-lg space-y-3">
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                   <div>
                     <label className="label">תאריך התחלה *</label>
@@ -501,6 +565,10 @@ export default function CustomerDetails() {
                     <label className="label">ערך חודשי (₪)</label>
                     <input type="number" value={contractForm.monthly_value} onChange={(e) => setContractForm({...contractForm, monthly_value: e.target.value})} className="input" dir="ltr" />
                   </div>
+                  <div>
+                    <label className="label">תעריף לשעת מאבטח (₪)</label>
+                    <input type="number" step="0.01" value={contractForm.hourly_rate} onChange={(e) => setContractForm({...contractForm, hourly_rate: e.target.value})} className="input" dir="ltr" placeholder="ללא - לפי ערך חודשי" />
+                  </div>
                   <div>
                     <label className="label">תנאים</label>
                     <input value={contractForm.terms} onChange={(e) => setContractForm({...contractForm, terms: e.target.value})} className="input" />
@@ -518,6 +586,7 @@ export default function CustomerDetails() {
                   start_date: string;
                   end_date: string;
                   monthly_value: number;
+                  hourly_rate?: number | null;
                   status: string;
                 }) => (
                   <div key={contract.id} className="p-3 bg-gray-50 rounded-lg">
@@ -530,6 +599,7 @@ export default function CustomerDetails() {
                           </p>
                           <p className="text-sm text-gray-500">
                             ₪{contract.monthly_value?.toLocaleString()}/חודש
+                            {contract.hourly_rate ? ` · ₪${contract.hourly_rate}/שעת מאבטח` : ''}
                           </p>
                         </div>
                       </div>
@@ -28,6 +28,8 @@ import { dashboardApi, shiftsApi } from '../services/api';
 import type { Shift, Event, Equipment, Incident, Invoice, Site, Employee, Certification } from '../types';
 import { QuickLeadModal, QuickShiftModal, QuickInvoiceModal, QuickIncidentModal } from '../components/QuickActionModals';
 import { SkeletonPulse, SkeletonStatCard, SkeletonCard } from '../components/Skeleton';
+import ReplacementRequests from '../components/ReplacementRequests';
+import { SosAlertsCard } from '../components/SosAlerts';
 import { usePermissions } from '../hooks/usePermissions';
 import { useAuthStore } from '../stores/authStore';
 import {
@@ -334,9 +336,13 @@ function EmployeeView({ data }: { data: DashboardEmployeeData }) {
       const res = await shiftsApi.checkOut(assignmentId, loc || {});
       return res.data;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['dashboard-employee'] });
       queryClient.invalidateQueries({ queryKey: ['my-active-assignment'] });
+      if (data?.location_warning) {
+        setLocationWarning(data.location_warning);
+        setTimeout(() => setLocationWarning(null), 8000);
+      }
     },
   });
 
@@ -675,6 +681,12 @@ function OperationsView({ data }: { data: DashboardOpsData }) {
         </div>
       )}
 
+      {/* Panic alerts still open after a manager acknowledged them */}
+      <SosAlertsCard />
+
+      {/* No-shows escalated by the scheduler, waiting for a replacement */}
+      <ReplacementRequests />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Guards Not Checked In */}
         <div className="card">
@@ -5,11 +5,12 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
-import { Search, UserCircle, Phone, Shield, Plus, X, Trash2, UserPlus } from 'lucide-react';
+import { Search, UserCircle, Phone, Shield, Plus, X, Trash2, UserPlus, CalendarDays } from 'lucide-react';
 import { employeesApi } from '../services/api';
 import { SkeletonPulse, SkeletonGrid } from '../components/Skeleton';
 import { usePermissions } from '../hooks/usePermissions';
 import { WhatsAppIcon } from '../components/WhatsAppButton';
+import AvailabilityRequestsInbox from '../components/AvailabilityRequestsInbox';
 import type { MutationError } from '../types';
 
 const employeeSchema = z.object({
@@ -38,6 +39,7 @@ type EmployeeForm = z.infer<typeof employeeSchema>;
 export default function Employees() {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [showAvailabilityInbox, setShowAvailabilityInbox] = useState(false);
   const queryClient = useQueryClient();
 
   const { data, isLoading } = useQuery({
@@ -94,6 +96,15 @@ export default function Employees() {
 
   const { can } = usePermissions();
 
+  // Pending guard availability changes for the inbox badge
+  const { data: availabilityRequests } = useQuery({
+    queryKey: ['availability-requests'],
+    queryFn: () => employeesApi.getAvailabilityRequests().then((res) => res.data),
+    enabled: can('employees:edit'),
+  });
+  const pendingAvailability: number =
+    (availabilityRequests?.patterns?.length ?? 0) + (availabilityRequests?.blocks?.length ?? 0);
+
   const onSubmit = (data: EmployeeForm) => {
     createMutation.mutate(data);
   };
@@ -105,14 +116,25 @@ export default function Employees() {
           <h1 className="page-title">עובדים</h1>
           <p className="page-subtitle">ניהול עובדים ומסמכים</p>
         </div>
-        {can('employees:create') && (
-          <button onClick={() => setIsModalOpen(true)} className="btn-primary flex items-center gap-2">
-            <Plus className="w-4 h-4" />
-            עובד חדש
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          {can('employees:edit') && (
+            <button onClick={() => setShowAvailabilityInbox(true)} className="btn-secondary flex items-center gap-2">
+              <CalendarDays className="w-4 h-4" />
+              בקשות זמינות
+              {pendingAvailability > 0 && <span className="badge-warning">{pendingAvailability}</span>}
+            </button>
+          )}
+          {can('employees:create') && (
+            <button onClick={() => setIsModalOpen(true)} className="btn-primary flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              עובד חדש
+            </button>
+          )}
+        </div>
       </div>
 
+      {showAvailabilityInbox && <AvailabilityRequestsInbox onClose={() => setShowAvailabilityInbox(false)} />}
+
       <div className="relative">
         <Search className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
         <input
@@ -1,21 +1,20 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Shield, LogIn, LogOut, MapPin, Clock, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
-import { shiftsApi } from '../services/api';
+import { Shield, LogIn, LogOut, MapPin, Clock, AlertTriangle, CheckCircle, Loader2, ClipboardList, UploadCloud } from 'lucide-react';
+import { shiftsApi, sitesGlobalApi } from '../services/api';
 import toast from 'react-hot-toast';
+import ShiftSwapPanel from '../components/ShiftSwapPanel';
+import OfflineSyncStatus from '../components/OfflineSyncStatus';
+import SosButton from '../components/SosButton';
+import { PatrolCheckpoints, IncidentReportForm, getLocation } from '../components/GuardFieldReports';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { createAction } from '../utils/offlineQueue';
+import { HandoverDetails, HANDOVER_FIELDS, EMPTY_HANDOVER, type Handover, type HandoverFields } from '../components/HandoverLog';
+import { formatPunchTime } from '../components/PunchCorrectionModal';
+import { PostOrderCard, type PostOrder } from '../components/SitePostOrders';
+import { ReadinessCheckForm, type ReadinessChecklist, type ReadinessAnswer } from '../components/ReadinessChecklist';
 import type { MutationError } from '../types';
 
-function getLocation(): Promise<{ latitude: number; longitude: number } | null> {
-  if (!navigator.geolocation) return Promise.resolve(null);
-  return new Promise((resolve) => {
-    navigator.geolocation.getCurrentPosition(
-      (pos) => resolve({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
-      () => resolve(null),
-      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
-    );
-  });
-}
-
 function formatTime(timeStr: string) {
   if (!timeStr) return '';
   return timeStr.slice(0, 5);
@@ -53,7 +52,15 @@ function ElapsedTimer({ checkInTime }: { checkInTime: string }) {
 
 export default function GuardPanel() {
   const queryClient = useQueryClient();
+  const queue = useOfflineQueue();
   const [locationWarning, setLocationWarning] = useState('');
+  const [showHandoverForm, setShowHandoverForm] = useState(false);
+  const [handoverForm, setHandoverForm] = useState<HandoverFields>(EMPTY_HANDOVER);
+  // Post order version the guard confirmed reading, sent along with the check-in
+  const [postOrderRead, setPostOrderRead] = useState<string | null>(null);
+  // Pre-shift readiness checklist, answered before the check-in is sent
+  const [showReadinessForm, setShowReadinessForm] = useState(false);
+  const [readinessAnswers, setReadinessAnswers] = useState<ReadinessAnswer[] | null>(null);
 
   const { data, isLoading } = useQuery({
     queryKey: ['my-active-assignment'],
@@ -62,23 +69,38 @@ export default function GuardPanel() {
   });
 
   const assignment = data?.assignment;
+  const incomingHandover: Handover | null = data?.handover ?? null;
+  const postOrder: PostOrder | null = data?.post_order ?? null;
+  const postOrderPending = !!postOrder && !postOrder.acknowledged_at && postOrderRead !== postOrder.id;
+  const readiness: ReadinessChecklist | null = data?.readiness ?? null;
 
   const checkInMutation = useMutation({
     mutationFn: async (assignmentId: string) => {
       const location = await getLocation();
-      return shiftsApi.checkIn(assignmentId, location || undefined);
+      const post_order_id = postOrder && postOrderRead === postOrder.id ? postOrder.id : undefined;
+      const readinessCheck = showReadinessForm && readinessAnswers ? { answers: readinessAnswers } : undefined;
+      return queue.submit(createAction('check_in', { ...location, post_order_id, readiness: readinessCheck }, assignmentId));
     },
-    onSuccess: (res) => {
+    onSuccess: ({ queued, data }) => {
+      setShowReadinessForm(false);
+      setReadinessAnswers(null);
+      if (queued) {
+        toast.success('אין קליטה - הצ\'ק-אין נשמר במכשיר ויסונכרן אוטומטית');
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['my-active-assignment'] });
-      const data = res.data;
-      if (data?.warning) {
-        setLocationWarning(data.warning);
+      if (data?.location_warning) {
+        setLocationWarning(data.location_warning as string);
         toast.success('צ\'ק-אין בוצע בהצלחה (עם אזהרת מיקום)');
       } else {
         toast.success('צ\'ק-אין בוצע בהצלחה!');
       }
     },
     onError: (err: MutationError) => {
+      // The post orders were revised since the panel loaded them
+      if (err?.response?.data?.requires_post_order) {
+        queryClient.invalidateQueries({ queryKey: ['my-active-assignment'] });
+      }
       toast.error(err?.response?.data?.error || 'שגיאה בצ\'ק-אין');
     },
   });
@@ -86,10 +108,17 @@ export default function GuardPanel() {
   const checkOutMutation = useMutation({
     mutationFn: async (assignmentId: string) => {
       const location = await getLocation();
-      return shiftsApi.checkOut(assignmentId, location || undefined);
+      return queue.submit(createAction('check_out', { ...location, handover: handoverForm }, assignmentId));
     },
-    onSuccess: () => {
+    onSuccess: ({ queued, data }) => {
+      setShowHandoverForm(false);
+      setHandoverForm(EMPTY_HANDOVER);
+      if (queued) {
+        toast.success('אין קליטה - הצ\'ק-אאוט נשמר במכשיר ויסונכרן אוטומטית');
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['my-active-assignment'] });
+      if (data?.location_warning) setLocationWarning(data.location_warning as string);
       toast.success('צ\'ק-אאוט בוצע בהצלחה!');
     },
     onError: (err: MutationError) => {
@@ -97,6 +126,27 @@ export default function GuardPanel() {
     },
   });
 
+  const acknowledgeMutation = useMutation({
+    mutationFn: (handoverId: string) => shiftsApi.acknowledgeHandover(handoverId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-active-assignment'] });
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה באישור העברת המשמרת');
+    },
+  });
+
+  const postOrderMutation = useMutation({
+    mutationFn: ({ postOrderId, assignmentId }: { postOrderId: string; assignmentId: string }) =>
+      sitesGlobalApi.acknowledgePostOrder(postOrderId, assignmentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-active-assignment'] });
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה באישור הוראות האתר');
+    },
+  });
+
   const isActionLoading = checkInMutation.isPending || checkOutMutation.isPending;
 
   // Clear location warning after 10 seconds
@@ -118,7 +168,9 @@ export default function GuardPanel() {
   // No active assignment
   if (!assignment) {
     return (
-      <div className="max-w-md mx-auto mt-12">
+      <div className="max-w-md mx-auto mt-12 space-y-6">
+        <OfflineSyncStatus queue={queue} />
+        <SosButton />
         <div className="card text-center py-16 px-8">
           <div className="w-20 h-20 bg-gradient-to-br from-gray-100 to-gray-50 rounded-full flex items-center justify-center mx-auto mb-6">
             <Shield className="w-10 h-10 text-gray-400" />
@@ -126,15 +178,27 @@ export default function GuardPanel() {
           <h2 className="text-xl font-bold text-gray-900 mb-2 font-heading">אין משמרת פעילה</h2>
           <p className="text-gray-500">אין לך משמרת מתוכננת להיום, או שהמשמרת טרם שובצה.</p>
         </div>
+        <ShiftSwapPanel />
       </div>
     );
   }
 
-  const isCheckedIn = assignment.status === 'checked_in';
-  const isAssigned = assignment.status === 'assigned';
+  // Punches still waiting on the device take precedence over the server status
+  const queuedPunch = (type: 'check_in' | 'check_out') =>
+    queue.pending.find((a) => a.type === type && a.assignmentId === assignment.assignment_id);
+  const pendingCheckIn = queuedPunch('check_in');
+  const pendingCheckOut = queuedPunch('check_out');
+  const isCheckedIn = (assignment.status === 'checked_in' || !!pendingCheckIn) && !pendingCheckOut;
+  const isAssigned = ['assigned', 'no_show'].includes(assignment.status) && !pendingCheckIn;
+  const checkInTime: string | null = assignment.check_in_time || pendingCheckIn?.createdAt || null;
 
   return (
     <div className="max-w-md mx-auto mt-8 space-y-6">
+      <OfflineSyncStatus queue={queue} />
+
+      {/* Panic button - always first so it is reachable without scrolling */}
+      <SosButton assignmentId={assignment.assignment_id} />
+
       {/* Shift info card */}
       <div className="card">
         <div className="flex items-center gap-3 mb-4">
@@ -163,20 +227,80 @@ export default function GuardPanel() {
             <span>{formatTime(assignment.start_time)} - {formatTime(assignment.end_time)}</span>
           </div>
 
-          {isCheckedIn && assignment.check_in_time && (
-            <div className="flex items-center gap-2 text-green-700">
-              <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
-              <span>נכנסת ב-{new Date(assignment.check_in_time).toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' })}</span>
+          {isCheckedIn && checkInTime && (
+            <div className={`flex items-center gap-2 ${pendingCheckIn ? 'text-amber-700' : 'text-green-700'}`}>
+              {pendingCheckIn ? (
+                <UploadCloud className="w-4 h-4 text-amber-500 flex-shrink-0" />
+              ) : (
+                <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+              )}
+              <span>
+                נכנסת ב-{new Date(checkInTime).toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' })}
+                {pendingCheckIn && ' · ממתין לסנכרון'}
+              </span>
+            </div>
+          )}
+
+          {pendingCheckOut && (
+            <div className="flex items-center gap-2 text-amber-700">
+              <UploadCloud className="w-4 h-4 text-amber-500 flex-shrink-0" />
+              <span>
+                המשמרת הסתיימה ב-{new Date(pendingCheckOut.createdAt).toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' })} · ממתין לסנכרון
+              </span>
+            </div>
+          )}
+
+          {isCheckedIn && assignment.check_in_approval === 'pending' && (
+            <div className="flex items-center gap-2 text-amber-700">
+              <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+              <span>הכניסה נרשמה מחוץ לאזור האתר וממתינה לאישור מנהל</span>
+            </div>
+          )}
+          {isCheckedIn && assignment.check_in_approval === 'rejected' && (
+            <div className="flex items-center gap-2 text-red-700">
+              <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+              <span>המנהל דחה את דיווח הכניסה מחוץ לאזור האתר</span>
             </div>
           )}
         </div>
       </div>
 
       {/* Timer (when checked in) */}
-      {isCheckedIn && assignment.check_in_time && (
+      {isCheckedIn && checkInTime && (
         <div className="card text-center py-6">
           <p className="text-sm text-gray-500 mb-2">זמן במשמרת</p>
-          <ElapsedTimer checkInTime={assignment.check_in_time} />
+          <ElapsedTimer checkInTime={checkInTime} />
+        </div>
+      )}
+
+      {/* Handover from the previous guard at the site */}
+      {isCheckedIn && incomingHandover && (
+        <div className={`card border ${incomingHandover.acknowledged_at ? 'border-gray-100' : 'border-amber-200 bg-amber-50/40'}`}>
+          <div className="flex items-center gap-2 mb-3">
+            <ClipboardList className="w-5 h-5 text-amber-600" />
+            <div>
+              <h3 className="font-bold text-gray-900 font-heading">העברת משמרת</h3>
+              <p className="text-xs text-gray-500">
+                מ{incomingHandover.from_name} · {formatPunchTime(incomingHandover.created_at)}
+              </p>
+            </div>
+          </div>
+          <HandoverDetails handover={incomingHandover} />
+          {incomingHandover.acknowledged_at ? (
+            <p className="text-xs text-green-700 flex items-center gap-1 mt-3">
+              <CheckCircle className="w-3.5 h-3.5" />
+              אושר ע"י {incomingHandover.acknowledged_by_name}
+            </p>
+          ) : (
+            <button
+              onClick={() => acknowledgeMutation.mutate(incomingHandover.id)}
+              disabled={acknowledgeMutation.isPending}
+              className="btn-primary w-full mt-3 flex items-center justify-center gap-2"
+            >
+              {acknowledgeMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+              קראתי וקיבלתי את המשמרת
+            </button>
+          )}
         </div>
       )}
 
@@ -188,11 +312,40 @@ export default function GuardPanel() {
         </div>
       )}
 
+      {/* Site post orders: read and confirmed before the check-in, and again after a revision */}
+      {postOrder && isAssigned && (
+        <PostOrderCard
+          postOrder={postOrder}
+          confirmLabel="קראתי ואני מתחייב/ת לפעול לפי ההוראות"
+          onConfirm={postOrderPending ? () => setPostOrderRead(postOrder.id) : undefined}
+        />
+      )}
+      {postOrder && isCheckedIn && (
+        <PostOrderCard
+          postOrder={postOrder}
+          confirmLabel="קראתי את ההוראות המעודכנות"
+          onConfirm={() => postOrderMutation.mutate({ postOrderId: postOrder.id, assignmentId: assignment.assignment_id })}
+          isPending={postOrderMutation.isPending}
+        />
+      )}
+
+      {/* Readiness checklist (uniform, radio, issued weapon and equipment), answered before checking in */}
+      {isAssigned && showReadinessForm && readiness && (
+        <>
+          <ReadinessCheckForm checklist={readiness} employeeId={assignment.employee_id} onChange={setReadinessAnswers} />
+          <button onClick={() => setShowReadinessForm(false)} className="btn-ghost w-full">
+            חזרה
+          </button>
+        </>
+      )}
+
       {/* Big action button */}
       {isAssigned && (
         <button
-          onClick={() => checkInMutation.mutate(assignment.assignment_id)}
-          disabled={isActionLoading}
+          onClick={() => (readiness && !showReadinessForm
+            ? setShowReadinessForm(true)
+            : checkInMutation.mutate(assignment.assignment_id))}
+          disabled={isActionLoading || postOrderPending || (showReadinessForm && !readinessAnswers)}
           className="w-full py-6 rounded-2xl text-white text-2xl font-bold bg-green-500 hover:bg-green-600 active:bg-green-700 disabled:opacity-50 transition-all shadow-lg flex items-center justify-center gap-3"
         >
           {isActionLoading ? (
@@ -206,9 +359,41 @@ export default function GuardPanel() {
         </button>
       )}
 
+      {isCheckedIn && !showHandoverForm && (
+        <>
+          <PatrolCheckpoints assignment={assignment} queue={queue} />
+          <IncidentReportForm assignment={assignment} queue={queue} />
+        </>
+      )}
+
+      {/* Handover note for the next guard, filled in before checking out */}
+      {isCheckedIn && showHandoverForm && (
+        <div className="card space-y-3">
+          <div className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-primary-600" />
+            <h3 className="font-bold text-gray-900 font-heading">העברת משמרת לשומר הבא</h3>
+          </div>
+          {HANDOVER_FIELDS.map((f) => (
+            <div key={f.key}>
+              <label className="label">{f.label}</label>
+              <textarea
+                value={handoverForm[f.key]}
+                onChange={(e) => setHandoverForm({ ...handoverForm, [f.key]: e.target.value })}
+                className="input"
+                rows={2}
+                placeholder={f.placeholder}
+              />
+            </div>
+          ))}
+          <button onClick={() => setShowHandoverForm(false)} className="btn-ghost w-full">
+            חזרה למשמרת
+          </button>
+        </div>
+      )}
+
       {isCheckedIn && (
         <button
-          onClick={() => checkOutMutation.mutate(assignment.assignment_id)}
+          onClick={() => (showHandoverForm ? checkOutMutation.mutate(assignment.assignment_id) : setShowHandoverForm(true))}
           disabled={isActionLoading}
           className="w-full py-6 rounded-2xl text-white text-2xl font-bold bg-orange-500 hover:bg-orange-600 active:bg-orange-700 disabled:opacity-50 transition-all shadow-lg flex items-center justify-center gap-3"
         >
@@ -217,7 +402,7 @@ export default function GuardPanel() {
           ) : (
             <>
               <LogOut className="w-8 h-8" />
-              צ'ק-אאוט
+              {showHandoverForm ? 'סיום משמרת' : 'צ\'ק-אאוט'}
             </>
           )}
         </button>
@@ -227,6 +412,8 @@ export default function GuardPanel() {
       <p className="text-center text-xs text-gray-400">
         המערכת תבקש את המיקום שלך לצורך אימות
       </p>
+
+      <ShiftSwapPanel />
     </div>
   );
 }
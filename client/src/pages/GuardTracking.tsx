@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { GoogleMap, Marker, InfoWindow } from '@react-google-maps/api';
-import { Navigation, User, Clock, MapPin, AlertCircle } from 'lucide-react';
+import { Navigation, User, Clock, MapPin, AlertCircle, Siren, Phone, History } from 'lucide-react';
 import GoogleMapProvider from '../components/GoogleMapProvider';
-import { shiftsApi, sitesGlobalApi } from '../services/api';
-import type { Site } from '../types';
+import RouteReplay from '../components/RouteReplay';
+import { shiftsApi, sitesGlobalApi, incidentsApi } from '../services/api';
+import type { Site, SosAlert } from '../types';
 
 interface ActiveGuard {
   assignment_id: string;
@@ -47,8 +48,16 @@ function getGuardIcon(isRecent: boolean) {
   };
 }
 
+const sosIcon = {
+  url: 'data:image/svg+xml,' + encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" width="44" height="44"><circle cx="22" cy="22" r="20" fill="%23DC2626" fill-opacity="0.3"/><circle cx="22" cy="22" r="13" fill="%23DC2626" stroke="white" stroke-width="3"/><text x="22" y="27" text-anchor="middle" fill="white" font-size="13" font-weight="bold">!</text></svg>'),
+  scaledSize: { width: 44, height: 44 } as google.maps.Size,
+};
+
 function GuardTrackingContent() {
   const [selectedGuard, setSelectedGuard] = useState<ActiveGuard | null>(null);
+  const [selectedSos, setSelectedSos] = useState<SosAlert | null>(null);
+  // Route replay: undefined = live tracking, null = picking a shift, id = replaying it
+  const [replayId, setReplayId] = useState<string | null | undefined>(undefined);
 
   const { data: guards = [], isLoading } = useQuery({
     queryKey: ['active-guards'],
@@ -61,7 +70,22 @@ function GuardTrackingContent() {
     queryFn: () => sitesGlobalApi.getWithCoordinates().then(res => res.data),
   });
 
-  const guardsWithLocation = guards.filter((g: ActiveGuard) => g.latitude && g.longitude);
+  // Open panic alerts, with the location the guard keeps streaming
+  const { data: sosData } = useQuery<{ alerts: SosAlert[] }>({
+    queryKey: ['sos-active'],
+    queryFn: () => incidentsApi.getActiveSos().then((res) => res.data),
+    refetchInterval: 15000,
+  });
+  const sosAlerts = sosData?.alerts || [];
+  const sosWithLocation = sosAlerts.filter((a) => a.latitude != null && a.longitude != null);
+  // A guard with a located alert is shown by the alert marker instead
+  const sosAssignments = new Set(sosWithLocation.map((a) => a.assignment_id).filter(Boolean));
+
+  const guardsWithLocation = guards.filter((g: ActiveGuard) => g.latitude && g.longitude && !sosAssignments.has(g.assignment_id));
+
+  if (replayId !== undefined) {
+    return <RouteReplay assignmentId={replayId} onClose={() => setReplayId(undefined)} />;
+  }
 
   return (
     <div className="h-[calc(100vh-4rem)] flex">
@@ -72,11 +96,40 @@ function GuardTrackingContent() {
             <Navigation className="w-5 h-5 text-primary-600" />
             מעקב שומרים
           </h2>
-          <p className="text-sm text-gray-500 mt-1">
-            {guards.length} שומרים פעילים
-          </p>
+          <div className="flex items-center justify-between mt-1">
+            <p className="text-sm text-gray-500">
+              {guards.length} שומרים פעילים
+            </p>
+            <button onClick={() => setReplayId(null)} className="text-xs text-primary-600 hover:underline flex items-center gap-1">
+              <History className="w-3.5 h-3.5" />
+              שחזור מסלול
+            </button>
+          </div>
         </div>
 
+        {sosAlerts.length > 0 && (
+          <div className="p-3 border-b border-red-200 bg-red-50 space-y-2">
+            <p className="text-sm font-bold text-red-700 flex items-center gap-1.5">
+              <Siren className="w-4 h-4" />
+              קריאות מצוקה ({sosAlerts.length})
+            </p>
+            {sosAlerts.map((alert) => (
+              <button
+                key={alert.id}
+                onClick={() => setSelectedSos(alert)}
+                className="w-full text-right p-2 rounded-lg bg-white border border-red-100 hover:border-red-300 transition-colors"
+              >
+                <p className="font-medium text-sm text-gray-900">{alert.employee_name}</p>
+                <p className="text-xs text-gray-500">{alert.site_name || alert.company_name || 'ללא משמרת פעילה'}</p>
+                <p className="text-xs text-red-600 mt-0.5">
+                  {alert.status === 'acknowledged' ? `אושר ע"י ${alert.acknowledged_by_name}` : 'ממתין לאישור'}
+                  {alert.latitude == null && ' · אין מיקום'}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+
         {isLoading ? (
           <div className="flex items-center justify-center p-8">
             <div className="animate-spin rounded-full h-6 w-6 border-2 border-primary-600 border-t-transparent"></div>
@@ -156,6 +209,45 @@ function GuardTrackingContent() {
             );
           })}
 
+          {/* Panic alerts on top of everything */}
+          {sosWithLocation.map((alert) => (
+            <Marker
+              key={`sos-${alert.id}`}
+              position={{ lat: alert.latitude!, lng: alert.longitude! }}
+              onClick={() => setSelectedSos(alert)}
+              title={`SOS - ${alert.employee_name}`}
+              icon={sosIcon}
+              zIndex={1000}
+            />
+          ))}
+
+          {selectedSos && selectedSos.latitude != null && selectedSos.longitude != null && (
+            <InfoWindow
+              position={{ lat: selectedSos.latitude, lng: selectedSos.longitude }}
+              onCloseClick={() => setSelectedSos(null)}
+            >
+              <div className="p-2 min-w-[180px]" dir="rtl">
+                <h3 className="font-bold text-red-700 flex items-center gap-1">
+                  <Siren className="w-4 h-4" />
+                  {selectedSos.employee_name}
+                </h3>
+                <p className="text-sm text-gray-600">{selectedSos.site_name || selectedSos.company_name}</p>
+                {selectedSos.employee_phone && (
+                  <a href={`tel:${selectedSos.employee_phone}`} className="text-xs text-primary-600 flex items-center gap-1 mt-1">
+                    <Phone className="w-3 h-3" />
+                    {selectedSos.employee_phone}
+                  </a>
+                )}
+                {selectedSos.location_updated_at && (
+                  <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    מיקום לפני {minutesAgo(selectedSos.location_updated_at)} דקות
+                  </p>
+                )}
+              </div>
+            </InfoWindow>
+          )}
+
           {selectedGuard && selectedGuard.latitude && selectedGuard.longitude && (
             <InfoWindow
               position={{ lat: selectedGuard.latitude, lng: selectedGuard.longitude }}
@@ -171,6 +263,13 @@ function GuardTrackingContent() {
                     עדכון לפני {minutesAgo(selectedGuard.recorded_at)} דקות
                   </p>
                 )}
+                <button
+                  onClick={() => setReplayId(selectedGuard.assignment_id)}
+                  className="text-xs text-primary-600 hover:underline flex items-center gap-1 mt-2"
+                >
+                  <History className="w-3 h-3" />
+                  שחזור המסלול במשמרת
+                </button>
               </div>
             </InfoWindow>
           )}
@@ -28,6 +28,7 @@ const incidentTypes: Record<string, string> = {
   alarm: 'אזעקה',
   fire: 'שריפה',
   violence: 'אלימות',
+  sos: 'קריאת מצוקה',
   other: 'אחר',
 };
 
@@ -311,7 +312,8 @@ export default function Incidents() {
                 <div>
                   <label className="label">סוג אירוע *</label>
                   <select value={formData.incident_type} onChange={e => setFormData({...formData, incident_type: e.target.value})} className="input w-full">
-                    {Object.entries(incidentTypes).map(([k, v]) => <option key={k} value={k}>{v}</option>)}
+                    {/* SOS incidents are opened only by the guard's panic button */}
+                    {Object.entries(incidentTypes).filter(([k]) => k !== 'sos').map(([k, v]) => <option key={k} value={k}>{v}</option>)}
                   </select>
                 </div>
                 <div>
@@ -0,0 +1,391 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { format, addMonths, subMonths, differenceInCalendarDays, isSameMonth } from 'date-fns';
+import { he } from 'date-fns/locale';
+import {
+  CalendarCheck,
+  CalendarPlus,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  MapPin,
+  PartyPopper,
+  Repeat,
+  ShieldAlert,
+  UserX,
+  Wallet,
+} from 'lucide-react';
+import { employeesApi, shiftsApi } from '../services/api';
+import { useAuthStore } from '../stores/authStore';
+import { SkeletonPulse } from '../components/Skeleton';
+import { formatShiftSlot, type SwapRequest } from '../components/ShiftSwapPanel';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface ScheduleShift {
+  assignment_id: string;
+  shift_id: string;
+  status: string;
+  role?: string | null;
+  date: string;
+  start_time: string;
+  end_time: string;
+  requires_weapon?: number | boolean;
+  site_name?: string | null;
+  site_address?: string | null;
+  company_name?: string | null;
+}
+
+interface ScheduleEvent {
+  assignment_id: string;
+  event_id: string;
+  event_name: string;
+  role?: string | null;
+  event_date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  location?: string | null;
+}
+
+interface ExpiryReminder {
+  id: string;
+  kind: 'certification' | 'weapon_license' | 'weapon';
+  name: string;
+  expiry_date: string;
+}
+
+interface MySchedule {
+  employee_id: string;
+  shifts: ScheduleShift[];
+  events: ScheduleEvent[];
+  expiries: ExpiryReminder[];
+}
+
+interface PayLine {
+  bucket: 'regular' | 'overtime_125' | 'overtime_150' | 'night_premium' | 'shabbat_premium';
+  hours: number;
+  multiplier: number;
+  amount: number;
+}
+
+interface MonthHours {
+  summary: { total_hours: number | null; days_worked: number };
+  pay: { hourly_rate: number; lines: PayLine[]; total: number } | null;
+}
+
+type AgendaItem =
+  | { kind: 'shift'; key: string; date: string; start?: string | null; shift: ScheduleShift }
+  | { kind: 'event'; key: string; date: string; start?: string | null; event: ScheduleEvent };
+
+const payBucketLabels: Record<PayLine['bucket'], string> = {
+  regular: 'שעות רגילות',
+  overtime_125: 'שעות נוספות 125%',
+  overtime_150: 'שעות נוספות 150%',
+  night_premium: 'תוספת לילה',
+  shabbat_premium: 'תוספת שבת/חג',
+};
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function daysUntil(date: string) {
+  return differenceInCalendarDays(new Date(date + 'T00:00:00'), new Date());
+}
+
+function expiryLabel(date: string) {
+  const days = daysUntil(date);
+  if (days < 0) return { text: `פג לפני ${-days} ימים`, className: 'badge-danger' };
+  if (days === 0) return { text: 'פג היום', className: 'badge-danger' };
+  return { text: `בעוד ${days} ימים`, className: days <= 14 ? 'badge-danger' : 'badge-warning' };
+}
+
+function dayLabel(date: string) {
+  const days = daysUntil(date);
+  if (days === 0) return 'היום';
+  if (days === 1) return 'מחר';
+  return format(new Date(date + 'T00:00:00'), 'EEEE d/M', { locale: he });
+}
+
+const formatTime = (time?: string | null) => time?.slice(0, 5) || '';
+
+const formatMoney = (amount: number) => `₪${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+// ── Page ────────────────────────────────────────────────────────────────────
+
+/** Guard home: upcoming assignments, this month's hours and pay, and things needing attention */
+export default function MySchedule() {
+  const employeeId = useAuthStore((state) => state.user?.employeeId);
+  const [monthDate, setMonthDate] = useState(new Date());
+
+  const { data: schedule, isLoading } = useQuery<MySchedule>({
+    queryKey: ['my-schedule'],
+    queryFn: () => employeesApi.getMySchedule().then((res) => res.data),
+    enabled: !!employeeId,
+  });
+
+  const { data: hours, isLoading: hoursLoading } = useQuery<MonthHours>({
+    queryKey: ['my-hours', employeeId, format(monthDate, 'yyyy-MM')],
+    queryFn: () =>
+      employeesApi
+        .getHours(employeeId!, monthDate.getFullYear(), monthDate.getMonth() + 1)
+        .then((res) => res.data),
+    enabled: !!employeeId,
+  });
+
+  const { data: swaps } = useQuery<{ swap_requests: SwapRequest[] }>({
+    queryKey: ['my-swap-requests'],
+    queryFn: () => shiftsApi.getMySwapRequests().then((res) => res.data),
+    enabled: !!employeeId,
+  });
+
+  const { data: openShifts } = useQuery<{ shifts: { shift_id: string; my_bid_status?: string | null }[] }>({
+    queryKey: ['open-shifts'],
+    queryFn: () => shiftsApi.getOpen().then((res) => res.data),
+    enabled: !!employeeId,
+  });
+
+  if (!employeeId) {
+    return (
+      <div className="card text-center py-16 px-8">
+        <div className="w-20 h-20 bg-gradient-to-br from-gray-100 to-gray-50 rounded-full flex items-center justify-center mx-auto mb-6">
+          <UserX className="w-10 h-10 text-gray-400" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-2 font-heading">אין פרופיל עובד</h2>
+        <p className="text-gray-500">המשתמש אינו מקושר לעובד. פנה למנהל המערכת.</p>
+      </div>
+    );
+  }
+
+  const agenda: AgendaItem[] = [
+    ...(schedule?.shifts || []).map((shift) => ({
+      kind: 'shift' as const, key: `s-${shift.assignment_id}`, date: shift.date, start: shift.start_time, shift,
+    })),
+    ...(schedule?.events || []).map((event) => ({
+      kind: 'event' as const, key: `e-${event.assignment_id}`, date: event.event_date, start: event.start_time, event,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || (a.start || '').localeCompare(b.start || ''));
+
+  const pendingSwaps = (swaps?.swap_requests || []).filter((s) => s.status === 'pending');
+  const open = openShifts?.shifts || [];
+  const pendingBids = open.filter((s) => s.my_bid_status === 'pending').length;
+  const expiries = schedule?.expiries || [];
+  const isCurrentMonth = isSameMonth(monthDate, new Date());
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <h1 className="page-title">המשמרות והשכר שלי</h1>
+        <p className="page-subtitle">משמרות קרובות, שעות החודש והערכת שכר</p>
+      </div>
+
+      {/* Expiry reminders */}
+      {expiries.length > 0 && (
+        <div className="card ring-2 ring-amber-200">
+          <div className="section-header">
+            <div className="section-header-icon bg-gradient-to-br from-amber-100 to-amber-50">
+              <ShieldAlert className="w-4 h-4 text-amber-600" />
+            </div>
+            <h3 className="section-header-title">הסמכות ורישיונות לחידוש</h3>
+          </div>
+          <div className="space-y-2">
+            {expiries.map((item) => {
+              const label = expiryLabel(item.expiry_date);
+              return (
+                <div key={`${item.kind}-${item.id}`} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-gray-900">{item.name}</span>
+                  <span className="flex items-center gap-2 text-gray-500">
+                    {format(new Date(item.expiry_date + 'T00:00:00'), 'dd/MM/yyyy')}
+                    <span className={`badge ${label.className}`}>{label.text}</span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Pending offers */}
+      {(pendingSwaps.length > 0 || open.length > 0) && (
+        <div className="card">
+          <div className="section-header">
+            <div className="section-header-icon bg-gradient-to-br from-primary-100 to-primary-50">
+              <Repeat className="w-4 h-4 text-primary-600" />
+            </div>
+            <h3 className="section-header-title">הצעות ובקשות ממתינות</h3>
+          </div>
+          <div className="space-y-2">
+            {pendingSwaps.map((swap) => (
+              <div key={swap.id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-gray-50 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {swap.is_mine
+                      ? swap.swap_type === 'trade' ? `בקשת החלפה מול ${swap.target_name}` : 'מסירת משמרת'
+                      : `${swap.requester_name} מציע/ה לך משמרת`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatShiftSlot(swap.date, swap.start_time, swap.end_time)}
+                    {swap.site_name && ` · ${swap.site_name}`}
+                  </p>
+                </div>
+                <span className="badge badge-warning flex-shrink-0">ממתין לאישור מנהל</span>
+              </div>
+            ))}
+            {open.length > 0 && (
+              <Link
+                to="/open-shifts"
+                className="flex items-center justify-between gap-3 p-3 rounded-xl bg-primary-50/60 text-sm hover:bg-primary-50"
+              >
+                <span className="flex items-center gap-2 font-medium text-primary-700">
+                  <CalendarPlus className="w-4 h-4" />
+                  {open.length} משמרות פתוחות לשיבוץ
+                  {pendingBids > 0 && ` · ${pendingBids} בקשות שלך ממתינות`}
+                </span>
+                <ChevronLeft className="w-4 h-4 text-primary-500" />
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Upcoming shifts and events */}
+        <div className="card">
+          <div className="section-header">
+            <div className="section-header-icon bg-gradient-to-br from-emerald-100 to-emerald-50">
+              <CalendarCheck className="w-4 h-4 text-emerald-600" />
+            </div>
+            <h3 className="section-header-title">המשמרות הקרובות שלי</h3>
+            {agenda.length > 0 && <span className="badge badge-gray">{agenda.length}</span>}
+          </div>
+          {isLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <SkeletonPulse key={i} className="h-14 w-full rounded-xl" />
+              ))}
+            </div>
+          ) : agenda.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">אין משמרות מתוכננות ב-30 הימים הקרובים</p>
+          ) : (
+            <div className="space-y-2">
+              {agenda.map((item) => (
+                <div key={item.key} className="flex items-start gap-3 p-3 rounded-xl border border-gray-100">
+                  <div className="w-16 flex-shrink-0 text-xs font-medium text-gray-500 pt-0.5">{dayLabel(item.date)}</div>
+                  {item.kind === 'shift' ? (
+                    <div className="min-w-0 text-sm">
+                      <p className="font-medium text-gray-900">
+                        {item.shift.site_name || item.shift.company_name}
+                        {item.shift.status === 'checked_in' && <span className="badge badge-success mr-2">במשמרת</span>}
+                      </p>
+                      <p className="text-xs text-gray-500 flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatTime(item.shift.start_time)}-{formatTime(item.shift.end_time)}
+                        {item.shift.role && ` · ${item.shift.role}`}
+                      </p>
+                      {item.shift.site_address && (
+                        <p className="text-xs text-gray-400 flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {item.shift.site_address}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="min-w-0 text-sm">
+                      <p className="font-medium text-gray-900 flex items-center gap-1.5">
+                        <PartyPopper className="w-3.5 h-3.5 text-purple-500" />
+                        {item.event.event_name}
+                      </p>
+                      <p className="text-xs text-gray-500 flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {formatTime(item.event.start_time)}-{formatTime(item.event.end_time)}
+                        {item.event.role && ` · ${item.event.role}`}
+                      </p>
+                      {item.event.location && (
+                        <p className="text-xs text-gray-400 flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {item.event.location}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Hours and estimated pay */}
+        <div className="card">
+          <div className="section-header">
+            <div className="section-header-icon bg-gradient-to-br from-primary-100 to-primary-50">
+              <Wallet className="w-4 h-4 text-primary-600" />
+            </div>
+            <h3 className="section-header-title">שעות ושכר</h3>
+            <div className="flex items-center gap-1 mr-auto">
+              <button onClick={() => setMonthDate(subMonths(monthDate, 1))} className="btn-icon">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <span className="text-sm font-medium text-gray-700 w-24 text-center">
+                {format(monthDate, 'MMMM yyyy', { locale: he })}
+              </span>
+              <button
+                onClick={() => setMonthDate(addMonths(monthDate, 1))}
+                disabled={isCurrentMonth}
+                className="btn-icon disabled:opacity-30"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {hoursLoading ? (
+            <SkeletonPulse className="h-40 w-full rounded-xl" />
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-3 rounded-xl bg-gray-50">
+                  <p className="text-2xl font-bold text-gray-900">{Number(hours?.summary.total_hours || 0).toFixed(1)}</p>
+                  <p className="text-xs text-gray-500">שעות עבודה</p>
+                </div>
+                <div className="p-3 rounded-xl bg-gray-50">
+                  <p className="text-2xl font-bold text-gray-900">{hours?.summary.days_worked || 0}</p>
+                  <p className="text-xs text-gray-500">ימי עבודה</p>
+                </div>
+              </div>
+
+              {hours?.pay ? (
+                <div>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {hours.pay.lines.filter((line) => line.hours > 0).map((line) => (
+                        <tr key={line.bucket} className="border-b border-gray-50">
+                          <td className="py-1.5 text-gray-700">{payBucketLabels[line.bucket]}</td>
+                          <td className="py-1.5 text-gray-500 text-xs">
+                            {line.hours} ש׳ × {Math.round(line.multiplier * 100)}%
+                          </td>
+                          <td className="py-1.5 text-left font-medium text-gray-900">{formatMoney(line.amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr>
+                        <td className="pt-2 font-bold text-gray-900">סה"כ ברוטו משוער</td>
+                        <td className="pt-2 text-xs text-gray-500">תעריף {formatMoney(hours.pay.hourly_rate)}/ש׳</td>
+                        <td className="pt-2 text-left font-bold text-gray-900">{formatMoney(hours.pay.total)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                  <p className="text-xs text-gray-400 mt-3">
+                    הערכה לפי החתמות הנוכחות בלבד, לפני ניכויים. הסכום הקובע הוא בתלוש השכר.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400 text-center py-4">אין שעות מדווחות בחודש זה</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { CalendarPlus, MapPin, Clock, Users, Loader2, CalendarX } from 'lucide-react';
+import { CalendarPlus, MapPin, Clock, Users, Loader2, CalendarX, Hand, Hourglass, XCircle } from 'lucide-react';
 import { shiftsApi } from '../services/api';
 import toast from 'react-hot-toast';
 import type { MutationError } from '../types';
@@ -16,6 +16,7 @@ interface OpenShift {
   required_employees: number;
   assigned_count: number;
   slots_available: number;
+  my_bid_status?: 'pending' | 'approved' | 'rejected' | 'withdrawn' | null;
 }
 
 function formatTime(timeStr: string) {
@@ -72,7 +73,34 @@ export default function OpenShifts() {
     },
   });
 
+  const bidMutation = useMutation({
+    mutationFn: (shiftId: string) => shiftsApi.placeBid(shiftId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['open-shifts'] });
+      toast.success('הבקשה נשלחה לאישור מנהל');
+      setConfirmingShift(null);
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בהגשת הבקשה');
+      setConfirmingShift(null);
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (shiftId: string) => shiftsApi.withdrawBid(shiftId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['open-shifts'] });
+      toast.success('הבקשה בוטלה');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בביטול הבקשה');
+    },
+  });
+
   const shifts: OpenShift[] = data?.shifts || [];
+  // In bidding mode guards raise a hand and a manager picks who gets the shift
+  const isBidding = data?.mode === 'bidding';
+  const confirmMutation = isBidding ? bidMutation : selfAssignMutation;
 
   // Group shifts by date
   const shiftsByDate: Record<string, OpenShift[]> = {};
@@ -95,7 +123,11 @@ export default function OpenShifts() {
       {/* Header */}
       <div className="page-header">
         <h1 className="page-title">משמרות פתוחות</h1>
-        <p className="page-subtitle">משמרות שחסר בהן כוח אדם - הירשם כדי להשתבץ</p>
+        <p className="page-subtitle">
+          {isBidding
+            ? 'משמרות שחסר בהן כוח אדם - הרם יד והמנהל יבחר מבין המועמדים'
+            : 'משמרות שחסר בהן כוח אדם - הירשם כדי להשתבץ'}
+        </p>
       </div>
 
       {shifts.length === 0 ? (
@@ -153,16 +185,33 @@ export default function OpenShifts() {
 
                       {/* Action button */}
                       <div className="pt-2">
-                        {confirmingShift === shift.shift_id ? (
+                        {isBidding && shift.my_bid_status === 'pending' ? (
+                          <div className="flex items-center gap-2">
+                            <span className="flex-1 flex items-center justify-center gap-1.5 text-sm text-amber-700 bg-amber-50 rounded-lg py-2">
+                              <Hourglass className="w-4 h-4" />
+                              ממתין לאישור מנהל
+                            </span>
+                            <button
+                              onClick={() => withdrawMutation.mutate(shift.shift_id)}
+                              disabled={withdrawMutation.isPending}
+                              className="btn-secondary text-sm py-2 flex items-center gap-1"
+                            >
+                              <XCircle className="w-4 h-4" />
+                              בטל
+                            </button>
+                          </div>
+                        ) : confirmingShift === shift.shift_id ? (
                           <div className="space-y-2">
-                            <p className="text-sm text-gray-600 text-center">האם להירשם למשמרת זו?</p>
+                            <p className="text-sm text-gray-600 text-center">
+                              {isBidding ? 'להגיש מועמדות למשמרת זו?' : 'האם להירשם למשמרת זו?'}
+                            </p>
                             <div className="flex gap-2">
                               <button
-                                onClick={() => selfAssignMutation.mutate(shift.shift_id)}
-                                disabled={selfAssignMutation.isPending}
+                                onClick={() => confirmMutation.mutate(shift.shift_id)}
+                                disabled={confirmMutation.isPending}
                                 className="flex-1 btn-success text-sm py-2 flex items-center justify-center gap-1"
                               >
-                                {selfAssignMutation.isPending ? (
+                                {confirmMutation.isPending ? (
                                   <Loader2 className="w-4 h-4 animate-spin" />
                                 ) : (
                                   'אישור'
@@ -170,7 +219,7 @@ export default function OpenShifts() {
                               </button>
                               <button
                                 onClick={() => setConfirmingShift(null)}
-                                disabled={selfAssignMutation.isPending}
+                                disabled={confirmMutation.isPending}
                                 className="flex-1 btn-secondary text-sm py-2"
                               >
                                 ביטול
@@ -182,8 +231,8 @@ export default function OpenShifts() {
                             onClick={() => setConfirmingShift(shift.shift_id)}
                             className="w-full btn-success text-sm py-2.5 flex items-center justify-center gap-2"
                           >
-                            <CalendarPlus className="w-4 h-4" />
-                            הירשם למשמרת
+                            {isBidding ? <Hand className="w-4 h-4" /> : <CalendarPlus className="w-4 h-4" />}
+                            {isBidding ? (shift.my_bid_status === 'rejected' ? 'הגש מועמדות שוב' : 'הרם יד') : 'הירשם למשמרת'}
                           </button>
                         )}
                       </div>
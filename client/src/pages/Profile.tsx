@@ -7,6 +7,10 @@ import toast from 'react-hot-toast';
 import { User, Mail, Shield, Lock, Eye, EyeOff, KeyRound } from 'lucide-react';
 import { authApi } from '../services/api';
 import { useAuthStore } from '../stores/authStore';
+import ShiftSwapPanel from '../components/ShiftSwapPanel';
+import AvailabilityCalendar from '../components/AvailabilityCalendar';
+import MyCalendarFeed from '../components/CalendarFeeds';
+import PushNotificationSettings from '../components/PushNotificationSettings';
 
 // Role labels in Hebrew
 const roleLabels: Record<string, string> = {
@@ -136,6 +140,14 @@ export default function Profile() {
         </div>
       </div>
 
+      {/* Shift swaps, availability and calendar feed (employees only) */}
+      {user.employeeId && <ShiftSwapPanel />}
+      {user.employeeId && <AvailabilityCalendar />}
+      {user.employeeId && <MyCalendarFeed />}
+
+      {/* Push notifications on this device */}
+      <PushNotificationSettings />
+
       {/* Change Password Card */}
       <div className="card">
         <div className="flex items-center gap-3 mb-6">
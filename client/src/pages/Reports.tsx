@@ -29,6 +29,7 @@ import {
 } from 'recharts';
 import { reportsApi, performanceApi, incidentsApi } from '../services/api';
 import { FileText } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { exportTableToPDF } from '../utils/pdfExport';
 
 const COLORS = ['#0ea5e9', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6'];
@@ -155,15 +156,17 @@ export default function Reports() {
 
   const handlePDFExport = () => {
     const today = new Date().toLocaleDateString('he-IL');
+    const exportPDF = (options: Parameters<typeof exportTableToPDF>[0]) =>
+      exportTableToPDF(options).catch(() => toast.error('שגיאה בהפקת הקובץ'));
     switch (activeTab) {
       case 'sales':
         if (salesData?.leadsBySource) {
-          exportTableToPDF({
-            title: 'Yahalom CRM - Sales Report',
+          exportPDF({
+            title: 'דוח מכירות לפי מקור',
             subtitle: today,
             columns: [
-              { header: 'Source', dataKey: 'source' },
-              { header: 'Count', dataKey: 'count' },
+              { header: 'מקור', dataKey: 'source' },
+              { header: 'כמות', dataKey: 'count' },
             ],
             data: salesData.leadsBySource,
             filename: 'sales-report.pdf',
@@ -172,12 +175,12 @@ export default function Reports() {
         break;
       case 'customers':
         if (customersData?.revenueByCustomer) {
-          exportTableToPDF({
-            title: 'Yahalom CRM - Customers Revenue',
+          exportPDF({
+            title: 'הכנסות לפי לקוח',
             subtitle: today,
             columns: [
-              { header: 'Company', dataKey: 'company_name' },
-              { header: 'Revenue', dataKey: 'total_revenue' },
+              { header: 'חברה', dataKey: 'company_name' },
+              { header: 'הכנסות', dataKey: 'total_revenue' },
             ],
             data: customersData.revenueByCustomer,
             filename: 'customers-revenue.pdf',
@@ -186,14 +189,14 @@ export default function Reports() {
         break;
       case 'employees':
         if (employeesData?.hoursBreakdown) {
-          exportTableToPDF({
-            title: 'Yahalom CRM - Employee Hours',
+          exportPDF({
+            title: 'שעות עובדים',
             subtitle: today,
             columns: [
-              { header: 'Employee', dataKey: 'name' },
-              { header: 'Total Hours', dataKey: 'total_hours' },
-              { header: 'Days Worked', dataKey: 'days_worked' },
-              { header: 'Saturday Hours', dataKey: 'saturday_hours' },
+              { header: 'עובד', dataKey: 'name' },
+              { header: 'שעות', dataKey: 'total_hours' },
+              { header: 'ימי עבודה', dataKey: 'days_worked' },
+              { header: 'שעות שבת', dataKey: 'saturday_hours' },
             ],
             data: employeesData.hoursBreakdown,
             filename: 'employees-hours.pdf',
@@ -203,13 +206,13 @@ export default function Reports() {
         break;
       case 'financial':
         if (financialData?.revenueByCustomer) {
-          exportTableToPDF({
-            title: 'Yahalom CRM - Financial Report',
+          exportPDF({
+            title: 'דוח כספי',
             subtitle: today,
             columns: [
-              { header: 'Customer', dataKey: 'company_name' },
-              { header: 'Paid', dataKey: 'paid' },
-              { header: 'Pending', dataKey: 'pending' },
+              { header: 'לקוח', dataKey: 'company_name' },
+              { header: 'שולם', dataKey: 'paid' },
+              { header: 'ממתין', dataKey: 'pending' },
             ],
             data: financialData.revenueByCustomer,
             filename: 'financial-report.pdf',
@@ -218,16 +221,16 @@ export default function Reports() {
         break;
       case 'profitloss':
         if (profitLossData?.customerProfitability) {
-          exportTableToPDF({
-            title: 'Yahalom CRM - Profit & Loss',
+          exportPDF({
+            title: 'רווח והפסד לפי לקוח',
             subtitle: today,
             columns: [
-              { header: 'Customer', dataKey: 'company_name' },
-              { header: 'Revenue', dataKey: 'revenue' },
-              { header: 'Labor Cost', dataKey: 'labor_cost' },
-              { header: 'Profit', dataKey: 'profit' },
-              { header: 'Margin %', dataKey: 'margin' },
-              { header: 'Hours', dataKey: 'hours' },
+              { header: 'לקוח', dataKey: 'company_name' },
+              { header: 'הכנסות', dataKey: 'revenue' },
+              { header: 'עלות עבודה', dataKey: 'labor_cost' },
+              { header: 'רווח', dataKey: 'profit' },
+              { header: 'מרווח %', dataKey: 'margin' },
+              { header: 'שעות', dataKey: 'hours' },
             ],
             data: profitLossData.customerProfitability,
             filename: 'profit-loss.pdf',
@@ -237,16 +240,16 @@ export default function Reports() {
         break;
       case 'performance':
         if (rankingsData?.rankings) {
-          exportTableToPDF({
-            title: 'Yahalom CRM - Guard Performance',
+          exportPDF({
+            title: 'ביצועי מאבטחים',
             subtitle: today,
             columns: [
-              { header: 'First Name', dataKey: 'first_name' },
-              { header: 'Last Name', dataKey: 'last_name' },
-              { header: 'Avg Rating', dataKey: 'avg_rating' },
-              { header: 'Total Ratings', dataKey: 'total_ratings' },
-              { header: 'Shifts Done', dataKey: 'shifts_completed' },
-              { header: 'Total Shifts', dataKey: 'shifts_total' },
+              { header: 'שם פרטי', dataKey: 'first_name' },
+              { header: 'שם משפחה', dataKey: 'last_name' },
+              { header: 'דירוג ממוצע', dataKey: 'avg_rating' },
+              { header: 'דירוגים', dataKey: 'total_ratings' },
+              { header: 'משמרות הושלמו', dataKey: 'shifts_completed' },
+              { header: 'סה"כ משמרות', dataKey: 'shifts_total' },
             ],
             data: rankingsData.rankings,
             filename: 'guard-performance.pdf',
@@ -663,6 +666,52 @@ export default function Reports() {
               <p className="text-gray-400 text-center py-8">אין נתוני רווחיות</p>
             )}
           </div>
+
+          {/* Roster projection: scheduled shifts vs contract rates */}
+          <div className="card">
+            <h3 className="text-lg font-semibold mb-1 font-heading">תחזית לפי סידור העבודה</h3>
+            <p className="text-sm text-gray-500 mb-4">עלות שכר משוערת (כולל שעות נוספות, לילה, שבת וחג ומשמרות לא מאוישות) מול תעריפי החוזים</p>
+            <div className="table-container">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>חודש</th>
+                    <th>הכנסה לפי חוזה</th>
+                    <th>עלות שכר</th>
+                    <th>לא מאויש</th>
+                    <th>רווח צפוי</th>
+                    <th>מרווח</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {(profitLossData.projection?.monthly || []).map((m: {
+                    month: string; revenue: number; labor_cost: number; unfilled_cost: number;
+                    margin: number; margin_pct: number | null;
+                  }) => (
+                    <tr key={m.month}>
+                      <td className="font-medium">{m.month}</td>
+                      <td className="text-green-600">₪{(m.revenue || 0).toLocaleString()}</td>
+                      <td className="text-red-600">₪{(m.labor_cost || 0).toLocaleString()}</td>
+                      <td className="text-orange-600">₪{(m.unfilled_cost || 0).toLocaleString()}</td>
+                      <td className={m.margin >= 0 ? 'text-green-700 font-bold' : 'text-red-700 font-bold'}>
+                        ₪{(m.margin || 0).toLocaleString()}
+                      </td>
+                      <td>
+                        {m.margin_pct === null ? '-' : (
+                          <span className={`badge ${m.margin_pct >= 30 ? 'badge-success' : m.margin_pct >= 10 ? 'badge-warning' : 'badge-danger'}`}>
+                            {m.margin_pct}%
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {!profitLossData.projection?.monthly?.length && (
+              <p className="text-gray-400 text-center py-8">אין משמרות מתוכננות</p>
+            )}
+          </div>
         </div>
       )}
 
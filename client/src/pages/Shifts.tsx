@@ -6,15 +6,28 @@ import { z } from 'zod';
 import { format, startOfWeek, addDays } from 'date-fns';
 import { he } from 'date-fns/locale';
 import toast from 'react-hot-toast';
-import { ChevronRight, ChevronLeft, Users, Plus, X, Clock, MapPin, Shield, Car, Trash2, UserPlus, AlertTriangle, MessageCircle, Send, Copy, FileText, LogIn, LogOut, Check } from 'lucide-react';
+import { ChevronRight, ChevronLeft, Users, Plus, X, Clock, MapPin, Shield, Car, Trash2, UserPlus, AlertTriangle, MessageCircle, Send, Copy, FileText, LogIn, LogOut, Check, LayoutGrid, CalendarDays, Wand2, ArrowLeftRight, Pencil, RefreshCw, History, ClipboardList, Coins, Hand, Printer, MapPinOff } from 'lucide-react';
 import { shiftsApi, customersApi, sitesApi, employeesApi, shiftTemplatesApi } from '../services/api';
 import { SkeletonPulse } from '../components/Skeleton';
 import ShiftTemplateModal, { GenerateFromTemplateModal } from '../components/ShiftTemplateModal';
+import { parseRotation } from '../components/RotationEditor';
+import ShiftOperationsDrawer, { showUndoToast } from '../components/ShiftOperationsDrawer';
+import HandoverLogView from '../components/HandoverLog';
 import PatrolLogView from '../components/PatrolLogView';
 import { usePermissions } from '../hooks/usePermissions';
 import { openWhatsApp, formatPhoneForWhatsApp } from '../components/WhatsAppButton';
 import { useBulkSelection } from '../hooks/useBulkSelection';
 import BulkActionBar from '../components/BulkActionBar';
+import RosterBoard, { type RosterShift } from '../components/RosterBoard';
+import AssignmentWarnings, { needsOverride, isBlocked } from '../components/AssignmentWarnings';
+import GuardSuggestions from '../components/GuardSuggestions';
+import AutoFillModal from '../components/AutoFillModal';
+import CostProjectionPanel from '../components/CostProjectionPanel';
+import SwapRequestsInbox from '../components/SwapRequestsInbox';
+import ShiftBidsInbox from '../components/ShiftBidsInbox';
+import ShiftPrintModal from '../components/ShiftPrintModal';
+import GeofenceExceptionsInbox from '../components/GeofenceExceptionsInbox';
+import type { AssignmentIssue, MutationError } from '../types';
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
@@ -29,6 +42,9 @@ interface ShiftAssignment {
   check_out_time?: string;
   check_in_distance_meters?: number;
   check_out_distance_meters?: number;
+  /** Pre-shift readiness checklist: items reported missing or faulty, null when not filled in */
+  readiness_failed_count?: number | null;
+  readiness_answers?: string | null;
 }
 
 interface ShiftSummary {
@@ -100,6 +116,16 @@ function getLocation(): Promise<{ latitude: number; longitude: number } | null>
   });
 }
 
+/** Failed readiness items of an assignment, for the badge tooltip */
+function failedReadinessItems(assignment: ShiftAssignment): string {
+  try {
+    const answers: { label: string; ok: boolean; note?: string | null }[] = JSON.parse(assignment.readiness_answers || '[]');
+    return answers.filter((a) => !a.ok).map((a) => (a.note ? `${a.label} (${a.note})` : a.label)).join('\n');
+  } catch {
+    return '';
+  }
+}
+
 // ── Shift Detail Modal Component ────────────────────────────────────────────
 
 function ShiftDetailModal({
@@ -113,6 +139,7 @@ function ShiftDetailModal({
   const { can } = usePermissions();
   const [assignRole, setAssignRole] = useState('מאבטח');
   const [selectedEmployeeId, setSelectedEmployeeId] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   // Fetch shift details (includes assignments)
@@ -132,19 +159,31 @@ function ShiftDetailModal({
 
   const employees: Employee[] = employeesData?.employees ?? [];
 
+  // Pre-assignment validation for the selected employee
+  const { data: checkData } = useQuery({
+    queryKey: ['assignment-check', shiftId, selectedEmployeeId],
+    queryFn: () =>
+      shiftsApi.checkAssignment({ shift_id: shiftId, employee_ids: [selectedEmployeeId] }).then((res) => res.data),
+    enabled: !!selectedEmployeeId && can('shifts:assign'),
+  });
+
+  const assignIssues: AssignmentIssue[] = selectedEmployeeId ? checkData?.results?.[selectedEmployeeId] ?? [] : [];
+
   // Assign employee mutation
   const assignMutation = useMutation({
-    mutationFn: (data: { employee_id: string; role: string }) =>
+    mutationFn: (data: { employee_id: string; role: string; override_reason?: string }) =>
       shiftsApi.assign(shiftId, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['shift-detail', shiftId] });
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['assignment-check'] });
       toast.success('העובד שובץ בהצלחה');
       setSelectedEmployeeId('');
       setAssignRole('מאבטח');
+      setOverrideReason('');
     },
-    onError: () => {
-      toast.error('שגיאה בשיבוץ העובד');
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בשיבוץ העובד');
     },
   });
 
@@ -235,7 +274,25 @@ function ShiftDetailModal({
       toast.error('נא לבחור עובד');
       return;
     }
-    assignMutation.mutate({ employee_id: selectedEmployeeId, role: assignRole });
+    if (isBlocked(assignIssues)) {
+      toast.error('לא ניתן לשבץ את העובד למשמרת זו');
+      return;
+    }
+    if (needsOverride(assignIssues)) {
+      if (!can('shifts:override')) {
+        toast.error('השיבוץ דורש אישור חריגה של מנהל');
+        return;
+      }
+      if (!overrideReason.trim()) {
+        toast.error('נא לפרט סיבה לאישור החריגה');
+        return;
+      }
+    }
+    assignMutation.mutate({
+      employee_id: selectedEmployeeId,
+      role: assignRole,
+      override_reason: needsOverride(assignIssues) ? overrideReason.trim() : undefined,
+    });
   };
 
   const handleDelete = () => {
@@ -359,6 +416,15 @@ function ShiftDetailModal({
                       </div>
                       <div className="flex items-center gap-2">
                         {getStatusBadge(assignment.status)}
+                        {assignment.readiness_failed_count != null && (
+                          assignment.readiness_failed_count > 0 ? (
+                            <span className="badge badge-danger" title={failedReadinessItems(assignment)}>
+                              כשירות: {assignment.readiness_failed_count} חוסרים
+                            </span>
+                          ) : (
+                            <span className="badge badge-success">כשירות תקינה</span>
+                          )
+                        )}
                         {/* Check-in/out buttons for today's shifts */}
                         {isToday && assignment.status === 'assigned' && (
                           <button
@@ -459,6 +525,19 @@ function ShiftDetailModal({
               </div>
             )}
 
+            {/* Handover Chain Section */}
+            {shift.site_id && can('shifts:assign') && (
+              <div className="border-t pt-4">
+                <div className="section-header mb-3">
+                  <div className="section-header-icon">
+                    <ClipboardList className="w-4 h-4" />
+                  </div>
+                  <h3 className="section-header-title">יומן העברת משמרות באתר</h3>
+                </div>
+                <HandoverLogView siteId={shift.site_id} siteName={shift.site_name} date={shift.date} />
+              </div>
+            )}
+
             {/* Assign Employee Section */}
             {can('shifts:assign') && (
               <div className="border-t pt-4">
@@ -468,12 +547,29 @@ function ShiftDetailModal({
                   </div>
                   <h3 className="section-header-title">שבץ עובד</h3>
                 </div>
+                <div className="mb-4">
+                  <GuardSuggestions
+                    shiftId={shiftId}
+                    date={shift.date}
+                    startTime={shift.start_time}
+                    endTime={shift.end_time}
+                    requiresWeapon={!!shift.requires_weapon}
+                    siteId={shift.site_id}
+                    onAssign={(employeeId) => {
+                      setSelectedEmployeeId(employeeId);
+                      setOverrideReason('');
+                    }}
+                  />
+                </div>
                 <div className="flex gap-3 items-end">
                   <div className="flex-1">
                     <label className="label">עובד</label>
                     <select
                       value={selectedEmployeeId}
-                      onChange={(e) => setSelectedEmployeeId(e.target.value)}
+                      onChange={(e) => {
+                        setSelectedEmployeeId(e.target.value);
+                        setOverrideReason('');
+                      }}
                       className="input"
                     >
                       <option value="">בחר עובד...</option>
@@ -499,9 +595,26 @@ function ShiftDetailModal({
                     disabled={assignMutation.isPending || !selectedEmployeeId}
                     className="btn-primary whitespace-nowrap"
                   >
-                    {assignMutation.isPending ? 'משבץ...' : 'שבץ'}
+                    {assignMutation.isPending ? 'משבץ...' : needsOverride(assignIssues) ? 'שבץ בחריגה' : 'שבץ'}
                   </button>
                 </div>
+                {assignIssues.length > 0 && (
+                  <div className="mt-3 space-y-3">
+                    <AssignmentWarnings issues={assignIssues} />
+                    {needsOverride(assignIssues) && !isBlocked(assignIssues) && can('shifts:override') && (
+                      <div>
+                        <label className="label">סיבת אישור חריגה *</label>
+                        <textarea
+                          value={overrideReason}
+                          onChange={(e) => setOverrideReason(e.target.value)}
+                          className="input min-h-[60px]"
+                          placeholder="לדוגמה: החלפה דחופה, אין מאבטח זמין אחר"
+                        />
+                        <p className="text-xs text-gray-400 mt-1">הסיבה תירשם ביומן הפעילות</p>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             )}
 
@@ -564,7 +677,16 @@ export default function Shifts() {
   const [selectedCustomer, setSelectedCustomer] = useState<string>('');
   const [showTemplates, setShowTemplates] = useState(false);
   const [showTemplateModal, setShowTemplateModal] = useState(false);
+  const [editTemplate, setEditTemplate] = useState<Record<string, unknown> | null>(null);
   const [generateTemplate, setGenerateTemplate] = useState<{ id: string; name: string } | null>(null);
+  const [viewMode, setViewMode] = useState<'week' | 'roster'>('week');
+  const [showAutoFill, setShowAutoFill] = useState(false);
+  const [showSwapInbox, setShowSwapInbox] = useState(false);
+  const [showBidsInbox, setShowBidsInbox] = useState(false);
+  const [showOperations, setShowOperations] = useState(false);
+  const [showCosts, setShowCosts] = useState(false);
+  const [showPrint, setShowPrint] = useState(false);
+  const [showGeofenceInbox, setShowGeofenceInbox] = useState(false);
   const weekStart = startOfWeek(currentDate, { weekStartsOn: 0 });
   const queryClient = useQueryClient();
   const { can } = usePermissions();
@@ -581,6 +703,33 @@ export default function Shifts() {
         .then((res) => res.data),
   });
 
+  // Pending swap requests for the inbox badge
+  const { data: swapData } = useQuery({
+    queryKey: ['swap-requests', 'pending'],
+    queryFn: () => shiftsApi.getSwapRequests({ status: 'pending' }).then((res) => res.data),
+    enabled: can('shifts:assign'),
+  });
+  const pendingSwaps: number = swapData?.swap_requests?.length ?? 0;
+
+  // Pending open-shift bids for the inbox badge
+  const { data: bidsData } = useQuery({
+    queryKey: ['shift-bids'],
+    queryFn: () => shiftsApi.getBids().then((res) => res.data),
+    enabled: can('shifts:assign'),
+  });
+  const pendingBids: number = (bidsData?.shifts ?? []).reduce(
+    (sum: number, s: { bids: unknown[] }) => sum + s.bids.length,
+    0
+  );
+
+  // Out-of-zone check-ins/outs awaiting approval, for the inbox badge
+  const { data: geofenceData } = useQuery({
+    queryKey: ['geofence-exceptions', 'pending'],
+    queryFn: () => shiftsApi.getGeofenceExceptions({ status: 'pending' }).then((res) => res.data),
+    enabled: can('shifts:assign'),
+  });
+  const pendingGeofence: number = geofenceData?.exceptions?.length ?? 0;
+
   // Fetch customers for dropdown
   const { data: customersData } = useQuery({
     queryKey: ['customers-list'],
@@ -642,7 +791,7 @@ export default function Shifts() {
     onSuccess: (res) => {
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
       clearSelection();
-      toast.success(res.data.message || 'משמרות נמחקו');
+      showUndoToast(res.data.message || 'משמרות נמחקו', res.data.batch_id, queryClient);
     },
     onError: () => toast.error('שגיאה במחיקת משמרות'),
   });
@@ -687,7 +836,25 @@ export default function Shifts() {
           <p className="page-subtitle">לוח משמרות שבועי</p>
         </div>
         <div className="flex items-center gap-2">
-          {allShifts.length > 0 && can('shifts:delete') && (
+          {can('shifts:assign') && (
+            <div className="flex rounded-xl bg-gray-100 p-1">
+              <button
+                onClick={() => setViewMode('week')}
+                className={`px-3 py-1.5 rounded-lg text-sm flex items-center gap-1.5 transition-colors ${viewMode === 'week' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}
+              >
+                <CalendarDays className="w-4 h-4" />
+                שבועי
+              </button>
+              <button
+                onClick={() => setViewMode('roster')}
+                className={`px-3 py-1.5 rounded-lg text-sm flex items-center gap-1.5 transition-colors ${viewMode === 'roster' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'}`}
+              >
+                <LayoutGrid className="w-4 h-4" />
+                לוח שיבוץ
+              </button>
+            </div>
+          )}
+          {viewMode === 'week' && allShifts.length > 0 && can('shifts:delete') && (
             <label className="flex items-center gap-2 text-sm text-gray-500 cursor-pointer select-none">
               <input
                 type="checkbox"
@@ -698,6 +865,51 @@ export default function Shifts() {
               בחר הכל
             </label>
           )}
+          {can('shifts:assign') && (
+            <button onClick={() => setShowSwapInbox(true)} className="btn-secondary flex items-center gap-2">
+              <ArrowLeftRight className="w-4 h-4" />
+              בקשות החלפה
+              {pendingSwaps > 0 && <span className="badge-warning">{pendingSwaps}</span>}
+            </button>
+          )}
+          {can('shifts:assign') && (
+            <button onClick={() => setShowBidsInbox(true)} className="btn-secondary flex items-center gap-2">
+              <Hand className="w-4 h-4" />
+              מועמדויות
+              {pendingBids > 0 && <span className="badge-warning">{pendingBids}</span>}
+            </button>
+          )}
+          {can('shifts:assign') && (
+            <button onClick={() => setShowGeofenceInbox(true)} className="btn-secondary flex items-center gap-2">
+              <MapPinOff className="w-4 h-4" />
+              חריגות מיקום
+              {pendingGeofence > 0 && <span className="badge-warning">{pendingGeofence}</span>}
+            </button>
+          )}
+          {can('shifts:assign') && (
+            <button onClick={() => setShowAutoFill(true)} className="btn-secondary flex items-center gap-2">
+              <Wand2 className="w-4 h-4" />
+              מילוי אוטומטי
+            </button>
+          )}
+          {can('shifts:assign') && (
+            <button onClick={() => setShowCosts(!showCosts)} className="btn-secondary flex items-center gap-2">
+              <Coins className="w-4 h-4" />
+              עלויות
+            </button>
+          )}
+          {can('shifts:assign') && (
+            <button onClick={() => setShowPrint(true)} className="btn-secondary flex items-center gap-2">
+              <Printer className="w-4 h-4" />
+              הדפסה
+            </button>
+          )}
+          {can('shifts:delete') && (
+            <button onClick={() => setShowOperations(true)} className="btn-secondary flex items-center gap-2" title="היסטוריית פעולות">
+              <History className="w-4 h-4" />
+              היסטוריה
+            </button>
+          )}
           {can('shifts:create') && (
             <button onClick={() => setShowTemplates(!showTemplates)} className="btn-secondary flex items-center gap-2">
               <FileText className="w-4 h-4" />
@@ -725,9 +937,10 @@ export default function Shifts() {
           </div>
           {templatesData?.templates?.length > 0 ? (
             <div className="space-y-2">
-              {templatesData.templates.map((tmpl: { id: string; name: string; company_name?: string; site_name?: string; start_time: string; end_time: string; days_of_week: string; required_employees: number; is_active: number }) => {
+              {templatesData.templates.map((tmpl: { id: string; name: string; company_name?: string; site_name?: string; start_time: string; end_time: string; days_of_week: string; required_employees: number; is_active: number; rotation?: string | null }) => {
                 const days = typeof tmpl.days_of_week === 'string' ? JSON.parse(tmpl.days_of_week) : tmpl.days_of_week;
                 const dayNames = ['א', 'ב', 'ג', 'ד', 'ה', 'ו', 'ש'];
+                const rotation = parseRotation(tmpl.rotation);
                 return (
                   <div key={tmpl.id} className={`flex items-center justify-between p-3 rounded-lg ${tmpl.is_active ? 'bg-primary-50 border border-primary-200' : 'bg-gray-50'}`}>
                     <div>
@@ -735,12 +948,20 @@ export default function Shifts() {
                       <p className="text-sm text-gray-500">
                         {tmpl.company_name && `${tmpl.company_name} `}
                         {tmpl.site_name && `- ${tmpl.site_name} `}
-                        | {tmpl.start_time}-{tmpl.end_time}
+                        | {rotation ? rotation.slots.map((s) => `${s.start_time}-${s.end_time}`).join(', ') : `${tmpl.start_time}-${tmpl.end_time}`}
                         | {tmpl.required_employees} עובדים
                       </p>
-                      <p className="text-xs text-gray-400 mt-1">
-                        ימים: {(days || []).map((d: number) => dayNames[d]).join(', ')}
-                      </p>
+                      {rotation ? (
+                        <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                          <RefreshCw className="w-3 h-3" />
+                          סבב {rotation.cycle_days} ימים מ-{format(new Date(rotation.anchor_date + 'T00:00:00'), 'dd/MM/yyyy')}
+                          {' | '}צוותים: {rotation.crews.map((c) => `${c.name} (${c.employee_ids.length})`).join(', ')}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-400 mt-1">
+                          ימים: {(days || []).map((d: number) => dayNames[d]).join(', ')}
+                        </p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <button
@@ -750,6 +971,13 @@ export default function Shifts() {
                         <Copy className="w-3.5 h-3.5" />
                         צור משמרות
                       </button>
+                      <button
+                        onClick={() => setEditTemplate(tmpl)}
+                        className="text-gray-400 hover:text-primary-600 p-1"
+                        title="עריכת תבנית"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => deleteTemplateMutation.mutate(tmpl.id)}
                         className="text-red-400 hover:text-red-600 p-1"
@@ -771,6 +999,9 @@ export default function Shifts() {
       {showTemplateModal && (
         <ShiftTemplateModal onClose={() => setShowTemplateModal(false)} />
       )}
+      {editTemplate && (
+        <ShiftTemplateModal template={editTemplate} onClose={() => setEditTemplate(null)} />
+      )}
       {generateTemplate && (
         <GenerateFromTemplateModal
           templateId={generateTemplate.id}
@@ -779,6 +1010,20 @@ export default function Shifts() {
         />
       )}
 
+      {showAutoFill && (
+        <AutoFillModal weekStart={weekStart} onClose={() => setShowAutoFill(false)} />
+      )}
+
+      {showSwapInbox && <SwapRequestsInbox onClose={() => setShowSwapInbox(false)} />}
+
+      {showBidsInbox && <ShiftBidsInbox onClose={() => setShowBidsInbox(false)} />}
+
+      {showGeofenceInbox && <GeofenceExceptionsInbox onClose={() => setShowGeofenceInbox(false)} />}
+
+      {showOperations && <ShiftOperationsDrawer onClose={() => setShowOperations(false)} />}
+
+      {showPrint && <ShiftPrintModal weekStart={weekStart} onClose={() => setShowPrint(false)} />}
+
       {/* Week navigation */}
       <div className="card !p-4">
         <div className="flex items-center justify-between">
@@ -801,6 +1046,8 @@ export default function Shifts() {
         </div>
       </div>
 
+      {showCosts && <CostProjectionPanel weekStart={weekStart} onClose={() => setShowCosts(false)} />}
+
       {isLoading ? (
         <div className="space-y-6">
           <div className="flex items-center justify-between">
@@ -825,6 +1072,12 @@ export default function Shifts() {
             ))}
           </div>
         </div>
+      ) : viewMode === 'roster' ? (
+        <RosterBoard
+          weekStart={weekStart}
+          shifts={(data?.shifts || []) as RosterShift[]}
+          onOpenShift={setSelectedShiftId}
+        />
       ) : (
         <div className="flex overflow-x-auto snap-x snap-mandatory gap-3 pb-2 md:grid md:grid-cols-7 md:overflow-visible md:snap-none md:pb-0">
           {days.map((day) => {
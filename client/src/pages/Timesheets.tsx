@@ -0,0 +1,404 @@
+import { useState, Fragment } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, addMonths, subMonths } from 'date-fns';
+import { he } from 'date-fns/locale';
+import toast from 'react-hot-toast';
+import {
+  ClipboardCheck,
+  ChevronRight,
+  ChevronLeft,
+  ChevronDown,
+  ChevronUp,
+  Lock,
+  Unlock,
+  FileSpreadsheet,
+  Settings2,
+  AlertTriangle,
+  Clock,
+  Users,
+  Pencil,
+} from 'lucide-react';
+import { timesheetsApi } from '../services/api';
+import { usePermissions } from '../hooks/usePermissions';
+import { SkeletonPulse } from '../components/Skeleton';
+import PunchCorrectionModal, { formatPunchTime, type PunchEntry } from '../components/PunchCorrectionModal';
+import PayrollLayoutModal, { type PayrollLayout } from '../components/PayrollLayoutModal';
+import type { MutationError } from '../types';
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface HourBuckets {
+  total_hours: number;
+  regular_hours: number;
+  overtime_125_hours: number;
+  overtime_150_hours: number;
+  night_hours: number;
+  shabbat_hours: number;
+}
+
+interface TimesheetEntry extends PunchEntry {
+  employee_id: string;
+  shift_id: string;
+  status: string;
+  corrected: boolean;
+  missing: ('check_in' | 'check_out')[];
+  buckets: HourBuckets;
+}
+
+interface EmployeeTimesheet {
+  employee_id: string;
+  full_name: string;
+  id_number: string;
+  totals: HourBuckets;
+  days_worked: number;
+  missing_punches: number;
+  entries: TimesheetEntry[];
+}
+
+interface TimesheetMonth {
+  month: string;
+  lock: { locked: boolean; locked_at?: string; locked_by_name?: string };
+  employees: EmployeeTimesheet[];
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+const bucketColumns: { key: keyof HourBuckets; label: string }[] = [
+  { key: 'total_hours', label: 'סה"כ' },
+  { key: 'regular_hours', label: 'רגילות' },
+  { key: 'overtime_125_hours', label: '125%' },
+  { key: 'overtime_150_hours', label: '150%' },
+  { key: 'night_hours', label: 'לילה' },
+  { key: 'shabbat_hours', label: 'שבת/חג' },
+];
+
+function downloadPayrollFile(rows: Record<string, unknown>[], layout: PayrollLayout, filename: string) {
+  const cell = (val: unknown) => `"${String(val ?? '').replace(/"/g, '""')}"`;
+  const lines = [layout.columns.map((c) => cell(c.header)).join(layout.delimiter)];
+  for (const row of rows) {
+    lines.push(layout.columns.map((c) => cell(row[c.key])).join(layout.delimiter));
+  }
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ── Component ───────────────────────────────────────────────────────────────
+
+export default function Timesheets() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [monthDate, setMonthDate] = useState(() => subMonths(new Date(), 1));
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [onlyMissing, setOnlyMissing] = useState(false);
+  const [correcting, setCorrecting] = useState<{ entry: TimesheetEntry; employeeName: string } | null>(null);
+  const [showLayout, setShowLayout] = useState(false);
+
+  const month = format(monthDate, 'yyyy-MM');
+
+  const { data, isLoading } = useQuery<TimesheetMonth>({
+    queryKey: ['timesheets', month],
+    queryFn: () => timesheetsApi.getMonth(month).then((res) => res.data),
+  });
+
+  const lockMutation = useMutation({
+    mutationFn: (force: boolean) => timesheetsApi.lock(month, force),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', month] });
+      toast.success('החודש ננעל');
+    },
+    onError: (err: MutationError, force) => {
+      const message = err?.response?.data?.error || 'שגיאה בנעילת החודש';
+      if (!force && err?.response?.status === 409) {
+        if (confirm(`${message}. לנעול בכל זאת?`)) lockMutation.mutate(true);
+        return;
+      }
+      toast.error(message);
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: () => timesheetsApi.unlock(month),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['timesheets', month] });
+      toast.success('החודש נפתח לתיקונים');
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בפתיחת החודש');
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: () => timesheetsApi.getPayroll(month).then((res) => res.data),
+    onSuccess: (payroll: { rows: Record<string, unknown>[]; layout: PayrollLayout; locked: boolean }) => {
+      if (payroll.rows.length === 0) {
+        toast.error('אין נתוני שכר לחודש זה');
+        return;
+      }
+      downloadPayrollFile(payroll.rows, payroll.layout, `payroll-${month}.csv`);
+      if (!payroll.locked) toast('החודש טרם ננעל - הנתונים עשויים להשתנות', { icon: '⚠️' });
+    },
+    onError: (err: MutationError) => {
+      toast.error(err?.response?.data?.error || 'שגיאה בהפקת קובץ שכר');
+    },
+  });
+
+  const employees = data?.employees || [];
+  const visible = onlyMissing ? employees.filter((e) => e.missing_punches > 0) : employees;
+  const locked = !!data?.lock.locked;
+  const totalHours = employees.reduce((s, e) => s + e.totals.total_hours, 0);
+  const totalMissing = employees.reduce((s, e) => s + e.missing_punches, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="page-header">
+        <div>
+          <h1 className="page-title">דוחות נוכחות</h1>
+          <p className="page-subtitle">בקרת החתמות חודשית, נעילת חודש והפקת קובץ שכר</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => setShowLayout(true)} className="btn-secondary flex items-center gap-2">
+            <Settings2 className="w-4 h-4" />
+            תבנית שכר
+          </button>
+          <button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+            className="btn-secondary flex items-center gap-2"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            ייצוא לשכר
+          </button>
+          {locked ? (
+            can('timesheets:unlock') && (
+              <button
+                onClick={() => unlockMutation.mutate()}
+                disabled={unlockMutation.isPending}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <Unlock className="w-4 h-4" />
+                פתח חודש
+              </button>
+            )
+          ) : (
+            <button
+              onClick={() => {
+                if (confirm(`לנעול את ${format(monthDate, 'MMMM yyyy', { locale: he })}? לאחר הנעילה לא ניתן לתקן החתמות.`)) {
+                  lockMutation.mutate(false);
+                }
+              }}
+              disabled={lockMutation.isPending || isLoading}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Lock className="w-4 h-4" />
+              נעל חודש
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Month navigation */}
+      <div className="card flex items-center justify-between">
+        <button onClick={() => setMonthDate(subMonths(monthDate, 1))} className="btn-icon">
+          <ChevronRight className="w-5 h-5" />
+        </button>
+        <div className="text-center">
+          <p className="font-bold text-gray-900 font-heading">{format(monthDate, 'MMMM yyyy', { locale: he })}</p>
+          {locked ? (
+            <p className="text-xs text-gray-500 flex items-center justify-center gap-1">
+              <Lock className="w-3 h-3" />
+              ננעל{data?.lock.locked_by_name ? ` ע"י ${data.lock.locked_by_name}` : ''}
+              {data?.lock.locked_at ? ` · ${formatPunchTime(data.lock.locked_at, 'dd/MM/yyyy')}` : ''}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500">פתוח לתיקונים</p>
+          )}
+        </div>
+        <button onClick={() => setMonthDate(addMonths(monthDate, 1))} className="btn-icon">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="card flex items-center gap-3">
+          <div className="w-10 h-10 bg-primary-50 rounded-lg flex items-center justify-center">
+            <Users className="w-5 h-5 text-primary-600" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-gray-900">{employees.length}</p>
+            <p className="text-xs text-gray-500">עובדים בחודש</p>
+          </div>
+        </div>
+        <div className="card flex items-center gap-3">
+          <div className="w-10 h-10 bg-emerald-50 rounded-lg flex items-center justify-center">
+            <Clock className="w-5 h-5 text-emerald-600" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-gray-900">{totalHours.toLocaleString('he-IL', { maximumFractionDigits: 1 })}</p>
+            <p className="text-xs text-gray-500">שעות עבודה</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setOnlyMissing(!onlyMissing)}
+          className={`card flex items-center gap-3 text-right transition-shadow hover:shadow-md ${onlyMissing ? 'ring-2 ring-amber-300' : ''}`}
+        >
+          <div className="w-10 h-10 bg-amber-50 rounded-lg flex items-center justify-center">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-gray-900">{totalMissing}</p>
+            <p className="text-xs text-gray-500">החתמות חסרות{onlyMissing ? ' (מסונן)' : ''}</p>
+          </div>
+        </button>
+      </div>
+
+      {/* Employees */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <SkeletonPulse key={i} className="h-14 w-full rounded-xl" />
+          ))}
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="card text-center py-12 text-gray-400">
+          <ClipboardCheck className="w-10 h-10 mx-auto mb-2 opacity-40" />
+          <p className="text-sm">{onlyMissing ? 'אין החתמות חסרות בחודש זה' : 'אין משמרות בחודש זה'}</p>
+        </div>
+      ) : (
+        <div className="card p-0 overflow-hidden">
+          <div className="table-container">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-500 bg-gray-50">
+                  <th className="text-right py-3 px-3 font-medium">עובד</th>
+                  <th className="text-right py-3 px-3 font-medium">ימים</th>
+                  {bucketColumns.map((c) => (
+                    <th key={c.key} className="text-right py-3 px-3 font-medium">{c.label}</th>
+                  ))}
+                  <th className="text-right py-3 px-3 font-medium">חסרות</th>
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visible.map((emp) => {
+                  const isOpen = expanded === emp.employee_id;
+                  return (
+                    <Fragment key={emp.employee_id}>
+                      <tr
+                        onClick={() => setExpanded(isOpen ? null : emp.employee_id)}
+                        className="hover:bg-gray-50 cursor-pointer transition-colors"
+                      >
+                        <td className="py-3 px-3">
+                          <p className="font-medium text-gray-900">{emp.full_name}</p>
+                          <p className="text-xs text-gray-400">{emp.id_number}</p>
+                        </td>
+                        <td className="py-3 px-3 text-gray-700">{emp.days_worked}</td>
+                        {bucketColumns.map((c) => (
+                          <td key={c.key} className="py-3 px-3 text-gray-700">
+                            {emp.totals[c.key].toLocaleString('he-IL')}
+                          </td>
+                        ))}
+                        <td className="py-3 px-3">
+                          {emp.missing_punches > 0 ? (
+                            <span className="badge-warning">{emp.missing_punches}</span>
+                          ) : (
+                            <span className="text-gray-300">-</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-3 text-gray-400">
+                          {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        </td>
+                      </tr>
+                      {isOpen && (
+                        <tr>
+                          <td colSpan={bucketColumns.length + 4} className="bg-gray-50/60 px-3 py-3">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-gray-500">
+                                  <th className="text-right py-1.5 px-2 font-medium">תאריך</th>
+                                  <th className="text-right py-1.5 px-2 font-medium">אתר</th>
+                                  <th className="text-right py-1.5 px-2 font-medium">מתוכנן</th>
+                                  <th className="text-right py-1.5 px-2 font-medium">כניסה</th>
+                                  <th className="text-right py-1.5 px-2 font-medium">יציאה</th>
+                                  <th className="text-right py-1.5 px-2 font-medium">שעות</th>
+                                  <th className="text-right py-1.5 px-2 font-medium">125% / 150%</th>
+                                  <th className="w-16" />
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y divide-gray-100">
+                                {emp.entries.map((entry) => (
+                                  <tr key={entry.assignment_id} className={entry.missing.length > 0 ? 'bg-amber-50/60' : ''}>
+                                    <td className="py-1.5 px-2 text-gray-700">
+                                      {format(new Date(entry.date + 'T00:00:00'), 'EEE d/M', { locale: he })}
+                                    </td>
+                                    <td className="py-1.5 px-2 text-gray-700">{entry.site_name || '-'}</td>
+                                    <td className="py-1.5 px-2 text-gray-500">{entry.start_time}-{entry.end_time}</td>
+                                    <td className="py-1.5 px-2">
+                                      {entry.missing.includes('check_in') ? (
+                                        <span className="badge-warning">חסר</span>
+                                      ) : (
+                                        formatPunchTime(entry.check_in_time) || '-'
+                                      )}
+                                    </td>
+                                    <td className="py-1.5 px-2">
+                                      {entry.missing.includes('check_out') ? (
+                                        <span className="badge-warning">חסר</span>
+                                      ) : (
+                                        formatPunchTime(entry.check_out_time) || '-'
+                                      )}
+                                    </td>
+                                    <td className="py-1.5 px-2 text-gray-700">
+                                      {entry.status === 'no_show' ? (
+                                        <span className="badge-danger">לא הגיע</span>
+                                      ) : (
+                                        entry.buckets.total_hours.toLocaleString('he-IL')
+                                      )}
+                                      {entry.corrected && <span className="badge-info mr-1">תוקן</span>}
+                                    </td>
+                                    <td className="py-1.5 px-2 text-gray-500">
+                                      {entry.buckets.overtime_125_hours} / {entry.buckets.overtime_150_hours}
+                                    </td>
+                                    <td className="py-1.5 px-2">
+                                      {!locked && (
+                                        <button
+                                          onClick={() => setCorrecting({ entry, employeeName: emp.full_name })}
+                                          className="btn-ghost text-xs px-2 py-1 flex items-center gap-1"
+                                        >
+                                          <Pencil className="w-3 h-3" />
+                                          תקן
+                                        </button>
+                                      )}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {correcting && (
+        <PunchCorrectionModal
+          entry={correcting.entry}
+          employeeName={correcting.employeeName}
+          onClose={() => setCorrecting(null)}
+        />
+      )}
+      {showLayout && <PayrollLayoutModal onClose={() => setShowLayout(false)} />}
+    </div>
+  );
+}
@@ -37,9 +37,9 @@ api.interceptors.response.use(
       toast.error('שגיאת שרת — נסה שוב מאוחר יותר');
     }
 
-    // Retry once on network error
-    if (!error.response && !error._retried) {
-      error._retried = true;
+    // Retry once on network error (flag the config: each retry rejects with a new error)
+    if (!error.response && error.config && !error.config._retried) {
+      error.config._retried = true;
       return api.request(error.config);
     }
 
@@ -47,6 +47,10 @@ api.interceptors.response.use(
   }
 );
 
+// Actions the guard app may replay after being offline carry a per-action key
+// so the server applies them once (see utils/offlineQueue)
+const withIdempotencyKey = (key?: string) => (key ? { headers: { 'Idempotency-Key': key } } : undefined);
+
 // Auth
 export const authApi = {
   login: (email: string, password: string) =>
@@ -119,6 +123,18 @@ export const employeesApi = {
     api.post(`/employees/${employeeId}/availability`, { availability }),
   getAvailable: (date: string, params?: Record<string, unknown>) =>
     api.get(`/employees/available/${date}`, { params }),
+  getMyAvailability: (month: string) => api.get('/employees/me/availability', { params: { month } }),
+  submitMyAvailabilityPattern: (availability: unknown[]) =>
+    api.put('/employees/me/availability/pattern', { availability }),
+  setMyShiftPreferences: (types: string[]) =>
+    api.put('/employees/me/availability/preferences', { preferred_shift_types: types }),
+  addMyAvailabilityBlock: (data: { date: string; start_time?: string; end_time?: string; reason?: string }) =>
+    api.post('/employees/me/availability/blocks', data),
+  removeMyAvailabilityBlock: (blockId: string) => api.delete(`/employees/me/availability/blocks/${blockId}`),
+  getAvailabilityRequests: () => api.get('/employees/availability-requests'),
+  resolveAvailabilityRequest: (requestId: string, type: 'pattern' | 'block', approve: boolean) =>
+    api.post(`/employees/availability-requests/${requestId}/resolve`, { type, approve }),
+  getMySchedule: () => api.get('/employees/me/schedule'),
   getHours: (id: string, year: number, month: number) =>
     api.get(`/employees/${id}/hours/${year}/${month}`),
 };
@@ -136,6 +152,11 @@ export const sitesApi = {
     api.post(`/customers/${customerId}/sites/${siteId}/geocode`),
   setCoordinates: (customerId: string, siteId: string, data: { latitude: number; longitude: number }) =>
     api.patch(`/customers/${customerId}/sites/${siteId}/coordinates`, data),
+  setGeofence: (
+    customerId: string,
+    siteId: string,
+    data: { geofence_radius_meters: number | null; geofence_polygon: [number, number][] | null }
+  ) => api.patch(`/customers/${customerId}/sites/${siteId}/geofence`, data),
 };
 
 // Sites (global - for map)
@@ -143,6 +164,15 @@ export const sitesGlobalApi = {
   getAll: () => api.get('/sites'),
   getWithCoordinates: () => api.get('/sites/with-coordinates'),
   geocodeAll: () => api.post('/sites/geocode-all'),
+  getPostOrders: (siteId: string) => api.get(`/sites/${siteId}/post-orders`),
+  publishPostOrder: (siteId: string, data: { title?: string; content: string; change_summary?: string }) =>
+    api.post(`/sites/${siteId}/post-orders`, data),
+  getPostOrderAcknowledgements: (siteId: string) => api.get(`/sites/${siteId}/post-orders/acknowledgements`),
+  acknowledgePostOrder: (postOrderId: string, assignmentId?: string) =>
+    api.post(`/sites/post-orders/${postOrderId}/acknowledge`, { assignment_id: assignmentId }),
+  getReadinessChecklist: (siteId: string) => api.get(`/sites/${siteId}/readiness-checklist`),
+  saveReadinessChecklist: (siteId: string, data: { items: { key?: string; label: string }[]; include_issued_items: boolean }) =>
+    api.put(`/sites/${siteId}/readiness-checklist`, data),
 };
 
 // Maps
@@ -161,32 +191,76 @@ export const shiftsApi = {
     api.post(`/shifts/${shiftId}/assign`, data),
   unassign: (shiftId: string, assignmentId: string) =>
     api.delete(`/shifts/${shiftId}/assign/${assignmentId}`),
-  checkIn: (assignmentId: string, data?: Record<string, unknown>) =>
-    api.post(`/shifts/check-in/${assignmentId}`, data),
-  checkOut: (assignmentId: string, data?: Record<string, unknown>) =>
-    api.post(`/shifts/check-out/${assignmentId}`, data),
+  moveAssignment: (shiftId: string, assignmentId: string, data: { to_shift_id: string; override_reason?: string }) =>
+    api.post(`/shifts/${shiftId}/assign/${assignmentId}/move`, data),
+  checkIn: (assignmentId: string, data?: Record<string, unknown>, idempotencyKey?: string) =>
+    api.post(`/shifts/check-in/${assignmentId}`, data, withIdempotencyKey(idempotencyKey)),
+  checkOut: (assignmentId: string, data?: Record<string, unknown>, idempotencyKey?: string) =>
+    api.post(`/shifts/check-out/${assignmentId}`, data, withIdempotencyKey(idempotencyKey)),
   getTodaySummary: () => api.get('/shifts/summary/today'),
   update: (id: string, data: Record<string, unknown>) => api.patch(`/shifts/${id}`, data),
   locationReport: (data: { shift_assignment_id: string; latitude: number; longitude: number; accuracy?: number }) =>
     api.post('/shifts/location-report', data),
+  locationReportBulk: (data: {
+    assignment_id: string;
+    points: { id: string; latitude: number; longitude: number; accuracy: number; recorded_at: string }[];
+  }) => api.post('/shifts/location-report/bulk', data),
   getActiveGuards: () => api.get('/shifts/active-guards'),
   getGuardLocationHistory: (assignmentId: string) => api.get(`/shifts/guard-location-history/${assignmentId}`),
+  getReplayAssignments: (date: string) => api.get('/shifts/replay-assignments', { params: { date } }),
+  getRouteReplay: (assignmentId: string) => api.get(`/shifts/replay/${assignmentId}`),
   getMyActiveAssignment: () => api.get('/shifts/my-active-assignment'),
+  getMyUpcoming: () => api.get('/shifts/my-upcoming'),
   getOpen: () => api.get('/shifts/open'),
   selfAssign: (shiftId: string) => api.post(`/shifts/${shiftId}/self-assign`),
+  placeBid: (shiftId: string, note?: string) => api.post(`/shifts/${shiftId}/bid`, { note }),
+  withdrawBid: (shiftId: string) => api.delete(`/shifts/${shiftId}/bid`),
+  getBids: () => api.get('/shifts/bids'),
+  approveBids: (bidIds: string[], note?: string) => api.post('/shifts/bids/approve', { bid_ids: bidIds, note }),
+  rejectBids: (bidIds: string[]) => api.post('/shifts/bids/reject', { bid_ids: bidIds }),
+  getBiddingSettings: () => api.get('/shifts/bidding/settings'),
+  updateBiddingSettings: (data: { mode?: string; weights?: Record<string, number> }) =>
+    api.put('/shifts/bidding/settings', data),
+  getGeofenceExceptions: (params?: Record<string, unknown>) => api.get('/shifts/geofence-exceptions', { params }),
+  getGeofenceReport: (params?: { start_date?: string; end_date?: string }) =>
+    api.get('/shifts/geofence-exceptions/report', { params }),
+  resolveGeofenceExceptions: (exceptionIds: string[], approve: boolean, note?: string) =>
+    api.post('/shifts/geofence-exceptions/resolve', { exception_ids: exceptionIds, approve, note }),
+  getNoShowSettings: () => api.get('/shifts/no-show/settings'),
+  updateNoShowSettings: (data: { late_after_minutes: number; escalate_after_minutes: number }) =>
+    api.put('/shifts/no-show/settings', data),
+  getReplacementRequests: () => api.get('/shifts/replacements'),
+  assignReplacement: (requestId: string, employeeId: string, overrideReason?: string) =>
+    api.post(`/shifts/replacements/${requestId}/assign`, { employee_id: employeeId, override_reason: overrideReason }),
+  dismissReplacement: (requestId: string) => api.post(`/shifts/replacements/${requestId}/dismiss`),
   getGuardSuggestions: (params: { date: string; start_time: string; end_time: string; requires_weapon?: boolean; site_id?: string; template_id?: string }) =>
     api.get('/shifts/suggestions/guards', { params }),
   getShiftSuggestions: (shiftId: string) => api.get(`/shifts/${shiftId}/suggestions`),
+  checkAssignment: (data: { shift_id?: string; date?: string; start_time?: string; end_time?: string; requires_weapon?: boolean; site_id?: string; employee_ids: string[] }) =>
+    api.post('/shifts/assignment-check', data),
+  getAutoFillProposal: (weekStart: string) =>
+    api.get('/shifts/auto-fill/proposal', { params: { week_start: weekStart } }),
+  getCostProjection: (params: { start_date: string; end_date: string }) =>
+    api.get('/shifts/cost-projection', { params }),
   bulkApprove: (ids: string[]) => api.post('/shifts/bulk-approve', { shift_ids: ids }),
   bulkDelete: (ids: string[]) => api.post('/shifts/bulk-delete', { shift_ids: ids }),
   copyWeek: (sourceWeekStart: string, targetWeekStart: string) =>
     api.post('/shifts/copy-week', { source_week_start: sourceWeekStart, target_week_start: targetWeekStart }),
   generateFromTemplate: (templateId: string, weekStart: string) =>
     api.post(`/shifts/generate-from-template/${templateId}`, { week_start: weekStart }),
-  getSwapRequests: () => api.get('/shifts/swap-requests'),
+  getOperations: () => api.get('/shifts/operations'),
+  undoOperation: (batchId: string) => api.post(`/shifts/operations/${batchId}/undo`),
+  setUndoWindow: (minutes: number) => api.put('/shifts/operations/undo-window', { minutes }),
+  acknowledgeHandover: (handoverId: string) => api.post(`/shifts/handovers/${handoverId}/acknowledge`),
+  getSiteHandovers: (siteId: string, params?: { start_date?: string; end_date?: string }) =>
+    api.get(`/shifts/handovers/site/${siteId}`, { params }),
+  getSwapRequests: (params?: { status?: string }) => api.get('/shifts/swap-requests', { params }),
+  getMySwapRequests: () => api.get('/shifts/swap-requests/mine'),
+  getSwapCandidates: (shiftId: string) => api.get(`/shifts/swap-candidates/${shiftId}`),
   createSwapRequest: (data: Record<string, unknown>) => api.post('/shifts/swap-request', data),
-  resolveSwapRequest: (requestId: string, approve: boolean) =>
-    api.post(`/shifts/swap-requests/${requestId}/resolve`, { approve }),
+  cancelSwapRequest: (requestId: string) => api.post(`/shifts/swap-requests/${requestId}/cancel`),
+  resolveSwapRequest: (requestId: string, approve: boolean, data?: { replacement_employee_id?: string; note?: string }) =>
+    api.post(`/shifts/swap-requests/${requestId}/resolve`, { approve, ...data }),
 };
 
 // Events
@@ -281,13 +355,27 @@ export const usersApi = {
 export const incidentsApi = {
   getAll: (params?: Record<string, unknown>) => api.get('/incidents', { params }),
   getOne: (id: string) => api.get(`/incidents/${id}`),
-  create: (data: Record<string, unknown>) => api.post('/incidents', data),
+  create: (data: Record<string, unknown>, idempotencyKey?: string) =>
+    api.post('/incidents', data, withIdempotencyKey(idempotencyKey)),
   update: (id: string, data: Record<string, unknown>) => api.put(`/incidents/${id}`, data),
   getStats: () => api.get('/incidents/stats'),
   addUpdate: (id: string, update_text: string) =>
     api.post(`/incidents/${id}/updates`, { update_text }),
   resolve: (id: string, resolution: string) =>
     api.patch(`/incidents/${id}/resolve`, { resolution }),
+  // SOS / panic button
+  triggerSos: (data: Record<string, unknown>, idempotencyKey?: string) =>
+    api.post('/incidents/sos', data, withIdempotencyKey(idempotencyKey)),
+  getMySos: () => api.get('/incidents/sos/mine'),
+  reportSosLocation: (alertId: string, data: { latitude: number; longitude: number; accuracy?: number }) =>
+    api.post(`/incidents/sos/${alertId}/location`, data),
+  getActiveSos: () => api.get('/incidents/sos/active'),
+  acknowledgeSos: (alertId: string, message?: string) =>
+    api.post(`/incidents/sos/${alertId}/acknowledge`, { message }),
+  resolveSos: (alertId: string, resolution?: string) =>
+    api.post(`/incidents/sos/${alertId}/resolve`, { resolution }),
+  getSosSettings: () => api.get('/incidents/sos/settings'),
+  updateSosSettings: (data: { on_call_phones: string[] }) => api.put('/incidents/sos/settings', data),
 };
 
 // Certifications
@@ -322,6 +410,9 @@ export const shiftTemplatesApi = {
     api.post(`/shift-templates/${id}/generate`, { start_date, end_date }),
   toggleAutoGenerate: (id: string, auto_generate: boolean) =>
     api.patch(`/shift-templates/${id}/auto-generate`, { auto_generate }),
+  getReadinessChecklist: (id: string) => api.get(`/shift-templates/${id}/readiness-checklist`),
+  saveReadinessChecklist: (id: string, data: { items: { key?: string; label: string }[]; include_issued_items: boolean }) =>
+    api.put(`/shift-templates/${id}/readiness-checklist`, data),
 };
 
 // Automation
@@ -365,6 +456,8 @@ export const intelligenceApi = {
   getInsights: () => api.get('/automation/intelligence/insights'),
   generateInsights: () => api.post('/automation/intelligence/generate'),
   getHeatmap: () => api.get('/automation/intelligence/heatmap'),
+  getCompliance: (params: { start_date: string; end_date: string }) =>
+    api.get('/automation/intelligence/compliance', { params }),
 };
 
 // Calendar Exceptions (Holidays / Blackouts)
@@ -389,7 +482,12 @@ export const patrolsApi = {
   updateCheckpoint: (id: string, data: Record<string, unknown>) =>
     api.put(`/patrols/checkpoints/${id}`, data),
   deleteCheckpoint: (id: string) => api.delete(`/patrols/checkpoints/${id}`),
-  log: (data: Record<string, unknown>) => api.post('/patrols/log', data),
+  getCheckpointLabels: (siteId: string) => api.get(`/patrols/sites/${siteId}/checkpoints/labels`),
+  regenerateCheckpointCode: (id: string) => api.post(`/patrols/checkpoints/${id}/regenerate-code`),
+  log: (data: Record<string, unknown>, idempotencyKey?: string) =>
+    api.post('/patrols/log', data, withIdempotencyKey(idempotencyKey)),
+  scan: (data: Record<string, unknown>, idempotencyKey?: string) =>
+    api.post('/patrols/scan', data, withIdempotencyKey(idempotencyKey)),
   getShiftLogs: (assignmentId: string) => api.get(`/patrols/shift/${assignmentId}`),
   getSiteToday: (siteId: string) => api.get(`/patrols/site/${siteId}/today`),
   getStats: (params?: Record<string, unknown>) => api.get('/patrols/stats', { params }),
@@ -457,6 +555,39 @@ export const alertsApi = {
     api.get('/automation/alerts/escalations', { params: { limit } }),
 };
 
+// Timesheets (monthly punch review and payroll export)
+export const timesheetsApi = {
+  getMonth: (month: string) => api.get(`/timesheets/${month}`),
+  correctPunch: (assignmentId: string, data: { check_in_time?: string | null; check_out_time?: string | null; reason: string }) =>
+    api.patch(`/timesheets/assignments/${assignmentId}`, data),
+  getCorrections: (assignmentId: string) => api.get(`/timesheets/assignments/${assignmentId}/corrections`),
+  lock: (month: string, force = false) => api.post(`/timesheets/${month}/lock`, { force }),
+  unlock: (month: string) => api.delete(`/timesheets/${month}/lock`),
+  getPayroll: (month: string) => api.get(`/timesheets/${month}/payroll`),
+  getPayrollLayout: () => api.get('/timesheets/payroll-layout'),
+  savePayrollLayout: (layout: { delimiter: string; columns: { key: string; header: string }[] }) =>
+    api.put('/timesheets/payroll-layout', layout),
+};
+
+// ICS subscription feeds — the secret token in the URL is the only credential
+export const calendarApi = {
+  getMyFeed: () => api.get('/calendar/my-feed'),
+  createMyFeed: () => api.post('/calendar/my-feed'),
+  revokeMyFeed: () => api.delete('/calendar/my-feed'),
+  getSiteFeeds: () => api.get('/calendar/site-feeds'),
+  createSiteFeed: (siteId: string) => api.post(`/calendar/site-feeds/${siteId}`),
+  revokeSiteFeed: (siteId: string) => api.delete(`/calendar/site-feeds/${siteId}`),
+};
+
+export const pushApi = {
+  getPublicKey: () => api.get('/push/vapid-public-key'),
+  getSettings: () => api.get('/push/settings'),
+  updatePreferences: (data: Record<string, boolean>) => api.put('/push/preferences', data),
+  subscribe: (subscription: PushSubscriptionJSON) => api.post('/push/subscriptions', subscription),
+  unsubscribe: (endpoint: string) => api.delete('/push/subscriptions', { data: { endpoint } }),
+  sendTest: () => api.post('/push/test'),
+};
+
 // Priority (ERP) — קריאה בלבד מהמראה. השרת מתווך: הדפדפן לא מחזיק קרדנציאלים
 // של Supabase, ולא פונה ל-Priority ישירות (קריאות API נספרות במכסת טרנזקציות).
 export const priorityApi = {
@@ -57,6 +57,8 @@ export interface Site {
   latitude?: number;
   longitude?: number;
   requires_weapon?: boolean;
+  /** JSON array of certification types a guard must hold */
+  required_certifications?: string | null;
   required_guards?: number;
   notes?: string;
   status?: string;
@@ -80,6 +82,17 @@ export interface Shift {
   updated_at?: string;
 }
 
+// Returned by the shift assign route / assignment-check when a rule is broken
+export interface AssignmentIssue {
+  code:
+    | 'overlap' | 'rest_period' | 'weekly_hours' | 'weapon_license' | 'certification' | 'certification_expiring'
+    | 'labor_daily_hours' | 'labor_overtime_cap' | 'labor_weekly_rest' | 'labor_night_rotation'
+    | string;
+  severity: 'error' | 'warning';
+  message: string;
+  overridable: boolean;
+}
+
 export interface Event {
   id: string;
   event_name?: string;
@@ -138,6 +151,29 @@ export interface Incident {
   updated_at?: string;
 }
 
+/** Panic button alert raised from the Guard Panel */
+export interface SosAlert {
+  id: string;
+  employee_id: string;
+  employee_name: string;
+  employee_phone?: string | null;
+  assignment_id?: string | null;
+  incident_id?: string | null;
+  status: 'active' | 'acknowledged' | 'resolved';
+  latitude?: number | null;
+  longitude?: number | null;
+  location_updated_at?: string | null;
+  site_name?: string | null;
+  site_address?: string | null;
+  company_name?: string | null;
+  acknowledged_by_name?: string | null;
+  acknowledged_at?: string | null;
+  acknowledge_message?: string | null;
+  resolved_at?: string | null;
+  resolution?: string | null;
+  created_at: string;
+}
+
 export interface Invoice {
   id: string;
   invoice_number?: string;
@@ -0,0 +1,163 @@
+/**
+ * Offline action queue for the guard app
+ * Punches, patrol checkpoint scans and incident reports made without signal are
+ * kept in IndexedDB with the time and GPS of the moment they were made, and
+ * replayed when connectivity returns. Every action carries its own id as an
+ * Idempotency-Key, so a replay whose response got lost is never applied twice.
+ */
+import { shiftsApi, patrolsApi, incidentsApi } from '../services/api';
+
+export type QueuedActionType = 'check_in' | 'check_out' | 'patrol_scan' | 'incident';
+
+export interface QueuedAction {
+  id: string;
+  type: QueuedActionType;
+  assignmentId?: string;
+  payload: Record<string, unknown>;
+  createdAt: string;
+  attempts: number;
+  /** Set when the server rejected the action; it stays until the guard discards it */
+  error?: string;
+}
+
+export const QUEUED_ACTION_LABELS: Record<QueuedActionType, string> = {
+  check_in: "צ'ק-אין",
+  check_out: "צ'ק-אאוט",
+  patrol_scan: 'סריקת נקודת ביקורת',
+  incident: 'דיווח אירוע',
+};
+
+const DB_NAME = 'yahalom-offline';
+const STORE = 'actions';
+const CHANGE_EVENT = 'offline-queue-changed';
+
+// ── IndexedDB ───────────────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+// ── Queue ───────────────────────────────────────────────────────────────────
+
+/** All queued actions, oldest first */
+export async function listQueuedActions(): Promise<QueuedAction[]> {
+  const actions = await withStore<QueuedAction[]>('readonly', (store) => store.getAll());
+  return actions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function enqueueAction(action: QueuedAction): Promise<void> {
+  await withStore('readwrite', (store) => store.put(action));
+  notifyChange();
+}
+
+export async function discardQueuedAction(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+  notifyChange();
+}
+
+export function onQueueChange(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+/**
+ * New action stamped with the current time. Its id doubles as the
+ * Idempotency-Key for the first attempt and every replay.
+ */
+export function createAction(type: QueuedActionType, payload: Record<string, unknown>, assignmentId?: string): QueuedAction {
+  const createdAt = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    type,
+    assignmentId,
+    payload: { ...payload, recorded_at: createdAt },
+    createdAt,
+    attempts: 0,
+  };
+}
+
+export function sendAction(action: QueuedAction) {
+  switch (action.type) {
+    case 'check_in':
+      return shiftsApi.checkIn(action.assignmentId!, action.payload, action.id);
+    case 'check_out':
+      return shiftsApi.checkOut(action.assignmentId!, action.payload, action.id);
+    case 'patrol_scan':
+      return patrolsApi.scan(action.payload, action.id);
+    case 'incident':
+      return incidentsApi.create(action.payload, action.id);
+  }
+}
+
+/** No response at all: offline, DNS failure, timeout - worth queueing and retrying */
+export function isNetworkError(err: unknown): boolean {
+  return !!err && typeof err === 'object' && !(err as { response?: unknown }).response;
+}
+
+let syncing: Promise<{ synced: number; failed: number }> | null = null;
+
+/**
+ * Replay queued actions in the order they were made. Stops at the first
+ * network error (still offline); an action the server rejects is kept with
+ * the error so the guard sees it, and the rest carry on.
+ */
+export function syncQueuedActions(): Promise<{ synced: number; failed: number }> {
+  if (!syncing) {
+    syncing = (async () => {
+      let synced = 0;
+      let failed = 0;
+      for (const action of await listQueuedActions()) {
+        if (action.error) continue;
+        try {
+          await sendAction(action);
+          await withStore('readwrite', (store) => store.delete(action.id));
+          synced++;
+        } catch (err) {
+          if (isNetworkError(err)) break;
+          const response = (err as { response: { status: number; data?: { error?: string; in_progress?: boolean } } }).response;
+          // Server trouble or a logged-out session: keep everything for the next round
+          if (response.status >= 500 || response.status === 401) break;
+          // Another tab is replaying the same action right now
+          if (response.data?.in_progress) continue;
+          await withStore('readwrite', (store) =>
+            store.put({ ...action, attempts: action.attempts + 1, error: response.data?.error || `שגיאה ${response.status}` })
+          );
+          failed++;
+        }
+      }
+      notifyChange();
+      return { synced, failed };
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
@@ -1,5 +1,109 @@
 import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import autoTable, { type RowInput } from 'jspdf-autotable';
+import { format, addDays } from 'date-fns';
+import { he } from 'date-fns/locale';
+import QRCode from 'qrcode';
+
+// ── Hebrew documents ────────────────────────────────────────────────────────
+
+const FONT_FAMILY = 'DejaVuSans';
+const FONT_FILES = {
+  normal: '/fonts/DejaVuSans.ttf',
+  bold: '/fonts/DejaVuSans-Bold.ttf',
+};
+type FontStyle = keyof typeof FONT_FILES;
+
+const COMPANY_NAME = 'צוות יהלום';
+const PRIMARY_COLOR: [number, number, number] = [14, 165, 233]; // primary-500
+
+// Logical Hebrew in, left-to-right glyph order out; numbers and Latin runs keep their direction
+const RTL_TEXT = { isInputVisual: false, isOutputVisual: true, isInputRtl: true, isOutputRtl: false };
+
+let fontFiles: Promise<Record<FontStyle, string>> | null = null;
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Fetch the font files once per session; a failed fetch is retried on the next export */
+function loadFontFiles(): Promise<Record<FontStyle, string>> {
+  if (!fontFiles) {
+    fontFiles = Promise.all(
+      (Object.keys(FONT_FILES) as FontStyle[]).map(async (style) => {
+        const res = await fetch(FONT_FILES[style]);
+        if (!res.ok) throw new Error(`Failed to load ${FONT_FILES[style]} (${res.status})`);
+        return [style, toBase64(await res.arrayBuffer())] as const;
+      })
+    )
+      .then((entries) => Object.fromEntries(entries) as Record<FontStyle, string>)
+      .catch((err) => {
+        fontFiles = null;
+        throw err;
+      });
+  }
+  return fontFiles;
+}
+
+/** A4 document with the Hebrew font embedded and every text call laid out right-to-left */
+async function createHebrewDocument(orientation: 'portrait' | 'landscape'): Promise<jsPDF> {
+  const fonts = await loadFontFiles();
+  const doc = new jsPDF({ orientation, unit: 'mm', format: 'a4' });
+  for (const style of Object.keys(fonts) as FontStyle[]) {
+    doc.addFileToVFS(`${FONT_FAMILY}-${style}.ttf`, fonts[style]);
+    doc.addFont(`${FONT_FAMILY}-${style}.ttf`, FONT_FAMILY, style);
+  }
+  doc.setFont(FONT_FAMILY, 'normal');
+
+  // jspdf-autotable draws cell text without options, so RTL is applied to every call here
+  const drawText = doc.text.bind(doc);
+  doc.text = (text, x, y, options, transform) => drawText(text, x, y, { ...RTL_TEXT, ...options }, transform);
+  return doc;
+}
+
+/** Centered title and subtitle lines; returns the y where content starts */
+function drawHeader(doc: jsPDF, title: string, subtitles: string[]): number {
+  const center = doc.internal.pageSize.getWidth() / 2;
+  doc.setFont(FONT_FAMILY, 'bold');
+  doc.setFontSize(18);
+  doc.text(title, center, 18, { align: 'center' });
+
+  doc.setFont(FONT_FAMILY, 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  subtitles.forEach((line, i) => doc.text(line, center, 26 + i * 6, { align: 'center' }));
+  doc.setTextColor(0);
+  return 26 + subtitles.length * 6;
+}
+
+/** Page numbers and print time on every page, drawn once the page count is known */
+function drawFooters(doc: jsPDF) {
+  const pageCount = doc.getNumberOfPages();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const printedAt = format(new Date(), 'dd/MM/yyyy HH:mm');
+  doc.setFont(FONT_FAMILY, 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`${COMPANY_NAME} · עמוד ${page} מתוך ${pageCount} · הופק ${printedAt}`, width / 2, height - 8, {
+      align: 'center',
+    });
+  }
+  doc.setTextColor(0);
+}
+
+const tableStyles = {
+  styles: { font: FONT_FAMILY, fontSize: 9, cellPadding: 2.5, halign: 'right' as const, lineColor: 220, lineWidth: 0.1 },
+  headStyles: { font: FONT_FAMILY, fillColor: PRIMARY_COLOR, textColor: 255, halign: 'right' as const, fontStyle: 'bold' as const },
+};
+
+// ── Table export ────────────────────────────────────────────────────────────
 
 interface TableColumn {
   header: string;
@@ -15,7 +119,7 @@ interface ExportOptions {
   orientation?: 'portrait' | 'landscape';
 }
 
-export function exportTableToPDF({
+export async function exportTableToPDF({
   title,
   subtitle,
   columns,
@@ -23,59 +127,221 @@ export function exportTableToPDF({
   filename = 'report.pdf',
   orientation = 'portrait',
 }: ExportOptions) {
-  const doc = new jsPDF({ orientation, unit: 'mm', format: 'a4' });
-
-  // Title
-  doc.setFontSize(18);
-  doc.text(title, doc.internal.pageSize.getWidth() / 2, 20, { align: 'center' });
-
-  // Subtitle
-  if (subtitle) {
-    doc.setFontSize(12);
-    doc.setTextColor(100);
-    doc.text(subtitle, doc.internal.pageSize.getWidth() / 2, 28, { align: 'center' });
-    doc.setTextColor(0);
-  }
-
-  // Footer with company name
-  const startY = subtitle ? 35 : 28;
+  const doc = await createHebrewDocument(orientation);
+  const startY = drawHeader(doc, title, subtitle ? [subtitle] : []);
 
-  // Table
+  // First column on the right
+  const rtlColumns = [...columns].reverse();
   autoTable(doc, {
     startY,
-    head: [columns.map((c) => c.header)],
-    body: data.map((row) => columns.map((c) => String(row[c.dataKey] ?? ''))),
-    styles: {
-      fontSize: 9,
-      cellPadding: 3,
-      halign: 'right',
-    },
-    headStyles: {
-      fillColor: [14, 165, 233], // primary-500
-      textColor: 255,
-      halign: 'right',
-      fontStyle: 'bold',
-    },
+    head: [rtlColumns.map((c) => c.header)],
+    body: data.map((row) => rtlColumns.map((c) => String(row[c.dataKey] ?? ''))),
+    ...tableStyles,
     alternateRowStyles: {
       fillColor: [245, 247, 250],
     },
-    didDrawPage: (data) => {
-      // Page footer
-      const pageHeight = doc.internal.pageSize.getHeight();
-      doc.setFontSize(8);
-      doc.setTextColor(150);
-      doc.text(
-        `Yahalom CRM - Page ${data.pageNumber}`,
-        doc.internal.pageSize.getWidth() / 2,
-        pageHeight - 10,
-        { align: 'center' }
-      );
-    },
+    margin: { bottom: 16 },
   });
 
+  drawFooters(doc);
   doc.save(filename);
 }
 
+// ── Shift documents ─────────────────────────────────────────────────────────
+
+export interface PrintableShift {
+  date: string;
+  start_time: string;
+  end_time: string;
+  required_employees: number;
+  status?: string;
+  notes?: string | null;
+  assignments?: { employee_name: string; role?: string | null; status?: string | null }[];
+}
+
+export interface PrintableSite {
+  name: string;
+  company_name?: string | null;
+  address?: string | null;
+}
+
+const hhmm = (time: string) => time.slice(0, 5);
+const activeShifts = (shifts: PrintableShift[]) => shifts.filter((s) => s.status !== 'cancelled');
+const activeGuards = (shift: PrintableShift) => (shift.assignments || []).filter((a) => a.status !== 'cancelled');
+
+function siteSubtitle(site: PrintableSite): string {
+  return [site.company_name, site.address].filter(Boolean).join(' · ');
+}
+
+/**
+ * Weekly roster of one site, for posting at the guard booth: a row per shift
+ * time slot and a column per day with the assigned guards.
+ */
+export async function exportWeeklyRosterPDF(site: PrintableSite, weekStart: Date, shifts: PrintableShift[]) {
+  const doc = await createHebrewDocument('landscape');
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const startY = drawHeader(doc, `סידור עבודה שבועי - ${site.name}`, [
+    siteSubtitle(site),
+    `${format(days[0], 'd/M/yyyy')} - ${format(days[6], 'd/M/yyyy')}`,
+  ].filter(Boolean));
+
+  const slots = [...new Set(activeShifts(shifts).map((s) => `${hhmm(s.start_time)}-${hhmm(s.end_time)}`))].sort();
+  const body: RowInput[] = slots.map((slot) => {
+    const cells = days.map((day) => {
+      const date = format(day, 'yyyy-MM-dd');
+      return activeShifts(shifts)
+        .filter((s) => s.date === date && `${hhmm(s.start_time)}-${hhmm(s.end_time)}` === slot)
+        .map((s) => {
+          const names = activeGuards(s).map((a) => a.employee_name);
+          const missing = s.required_employees - names.length;
+          return [...names, ...(missing > 0 ? [`(חסרים ${missing})`] : [])].join('\n');
+        })
+        .join('\n');
+    });
+    return [...cells.reverse(), slot];
+  });
+
+  const head = [...days.map((d) => format(d, 'EEEE d/M', { locale: he })).reverse(), 'משמרת'];
+  autoTable(doc, {
+    startY,
+    head: [head],
+    body: body.length > 0 ? body : [[{ content: 'אין משמרות בשבוע זה', colSpan: 8, styles: { halign: 'center' } }]],
+    ...tableStyles,
+    styles: { ...tableStyles.styles, fontSize: 10, minCellHeight: 14, valign: 'middle' },
+    columnStyles: { 7: { fontStyle: 'bold', fillColor: [245, 247, 250], cellWidth: 28 } },
+    margin: { bottom: 16 },
+  });
+
+  drawFooters(doc);
+  doc.save(`roster-${site.name}-${format(weekStart, 'yyyy-MM-dd')}.pdf`);
+}
+
+// Blank lines at the bottom of the sign-in sheet for replacements and visitors
+const SPARE_SIGN_IN_ROWS = 3;
+
+/**
+ * Daily paper sign-in sheet of one site: assigned guards with their shift
+ * times, and empty columns for actual times and signatures.
+ */
+export async function exportSignInSheetPDF(site: PrintableSite, date: string, shifts: PrintableShift[]) {
+  const doc = await createHebrewDocument('portrait');
+  const day = new Date(`${date}T00:00:00`);
+  const startY = drawHeader(doc, `דף נוכחות יומי - ${site.name}`, [
+    siteSubtitle(site),
+    format(day, 'EEEE, d MMMM yyyy', { locale: he }),
+  ].filter(Boolean));
+
+  const dayShifts = activeShifts(shifts)
+    .filter((s) => s.date === date)
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+  // # | name | role | shift | in | signature | out | signature - written right to left
+  const rows: string[][] = [];
+  for (const shift of dayShifts) {
+    const slot = `${hhmm(shift.start_time)}-${hhmm(shift.end_time)}`;
+    const guards = activeGuards(shift);
+    guards.forEach((a) => rows.push([a.employee_name, a.role || '', slot]));
+    for (let i = guards.length; i < shift.required_employees; i++) rows.push(['', '', slot]);
+  }
+  for (let i = 0; i < SPARE_SIGN_IN_ROWS; i++) rows.push(['', '', '']);
+
+  const head = ['#', 'שם המאבטח', 'תפקיד', 'משמרת', 'שעת כניסה', 'חתימה', 'שעת יציאה', 'חתימה'];
+  autoTable(doc, {
+    startY,
+    head: [[...head].reverse()],
+    body: rows.map((row, i) => [String(i + 1), ...row, '', '', '', ''].reverse()),
+    ...tableStyles,
+    styles: { ...tableStyles.styles, fontSize: 10, minCellHeight: 11, valign: 'middle' },
+    columnStyles: {
+      0: { cellWidth: 24 },
+      1: { cellWidth: 18 },
+      2: { cellWidth: 24 },
+      3: { cellWidth: 18 },
+      7: { cellWidth: 8, halign: 'center' },
+    },
+    margin: { bottom: 16 },
+  });
+
+  // Sign-off line under the table
+  const finalY = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? startY;
+  let signOffY = finalY + 12;
+  if (signOffY > doc.internal.pageSize.getHeight() - 20) {
+    doc.addPage();
+    signOffY = 20;
+  }
+  doc.setFontSize(10);
+  doc.text('חתימת אחראי משמרת: ____________________', doc.internal.pageSize.getWidth() - 14, signOffY, { align: 'right' });
+
+  drawFooters(doc);
+  doc.save(`sign-in-${site.name}-${date}.pdf`);
+}
+
+// ── Checkpoint labels ───────────────────────────────────────────────────────
+
+export interface CheckpointLabel {
+  name: string;
+  location_notes?: string | null;
+  qr_payload: string;
+}
+
+// Six labels per A4 page (2 x 3), outlined with a dashed cutting line
+const LABEL_COLUMNS = 2;
+const LABEL_ROWS = 3;
+const LABEL_MARGIN = 12;
+const QR_SIZE = 52;
+
+/**
+ * Printable QR labels for a site's patrol checkpoints, to be stuck at each
+ * checkpoint and scanned from the Guard Panel.
+ */
+export async function exportCheckpointLabelsPDF(site: PrintableSite, labels: CheckpointLabel[]) {
+  const doc = await createHebrewDocument('portrait');
+  const images = await Promise.all(
+    labels.map((l) => QRCode.toDataURL(l.qr_payload, { errorCorrectionLevel: 'M', margin: 1, width: 512 }))
+  );
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const labelWidth = (pageWidth - LABEL_MARGIN * 2) / LABEL_COLUMNS;
+  const labelHeight = (pageHeight - LABEL_MARGIN * 2) / LABEL_ROWS;
+  const perPage = LABEL_COLUMNS * LABEL_ROWS;
+
+  labels.forEach((label, i) => {
+    if (i > 0 && i % perPage === 0) doc.addPage();
+    const slot = i % perPage;
+    // First label on the right, like the rest of the document
+    const x = pageWidth - LABEL_MARGIN - ((slot % LABEL_COLUMNS) + 1) * labelWidth;
+    const y = LABEL_MARGIN + Math.floor(slot / LABEL_COLUMNS) * labelHeight;
+    const center = x + labelWidth / 2;
+
+    doc.setDrawColor(180);
+    doc.setLineDashPattern([2, 2], 0);
+    doc.rect(x, y, labelWidth, labelHeight);
+    doc.setLineDashPattern([], 0);
+
+    doc.setFont(FONT_FAMILY, 'bold');
+    doc.setFontSize(14);
+    doc.text(label.name, center, y + 12, { align: 'center', maxWidth: labelWidth - 10 });
+
+    doc.addImage(images[i], 'PNG', center - QR_SIZE / 2, y + 18, QR_SIZE, QR_SIZE);
+
+    doc.setFont(FONT_FAMILY, 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text(site.name, center, y + QR_SIZE + 25, { align: 'center', maxWidth: labelWidth - 10 });
+    if (label.location_notes) {
+      doc.text(label.location_notes, center, y + QR_SIZE + 30, { align: 'center', maxWidth: labelWidth - 10 });
+    }
+    doc.setFontSize(7);
+    doc.text(`${COMPANY_NAME} · נקודת ביקורת - סרקו בפאנל המאבטח`, center, y + labelHeight - 5, { align: 'center' });
+    doc.setTextColor(0);
+  });
+
+  doc.save(`checkpoints-${site.name}.pdf`);
+}
+
+// ── Invoices ────────────────────────────────────────────────────────────────
+
 export function exportInvoiceToPDF(invoice: {
   invoice_number: string;
   company_name: string;
@@ -0,0 +1,9 @@
+// Date logic runs in the server's time zone, as set in the Dockerfile
+process.env.TZ = 'Asia/Jerusalem';
+
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.js'],
+  clearMocks: true,
+};
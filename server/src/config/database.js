@@ -555,8 +555,8 @@ function querySqlite(sql, params = []) {
   }
 }
 
-// --- PostgreSQL query ---
-async function queryPostgres(sql, params = []) {
+// --- PostgreSQL query (on the pool, or on a transaction's client) ---
+async function queryPostgres(sql, params = [], client = pool) {
   try {
     // Step 1: Convert SQLite date functions to PG equivalents
     let pgSql = convertSqliteToPostgres(sql);
@@ -572,7 +572,7 @@ async function queryPostgres(sql, params = []) {
     }
 
     // Step 3: Execute via pg pool
-    const result = await pool.query(pgSql, params);
+    const result = await client.query(pgSql, params);
     return { rows: result.rows, rowCount: result.rowCount };
   } catch (error) {
     console.error('Database error (PostgreSQL):', error.message);
@@ -583,6 +583,41 @@ async function queryPostgres(sql, params = []) {
   }
 }
 
+/**
+ * Run queries atomically: fn receives a query function bound to the
+ * transaction, which commits when fn resolves and rolls back when it throws.
+ * In SQLite mode fn must only await its own queries, since the connection
+ * is shared.
+ * @param {(tx: typeof query) => Promise<any>} fn
+ * @returns {Promise<any>} What fn resolved to
+ */
+const transaction = async (fn) => {
+  if (isPostgres) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn((sql, params = []) => queryPostgres(sql, params, client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  db.exec('BEGIN');
+  try {
+    const result = await fn(async (sql, params = []) => querySqlite(sql, params));
+    db.exec('COMMIT');
+    return result;
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+};
+
 // ============================================================
 // initializeDatabase() - create tables + seed admin
 // ============================================================
@@ -776,6 +811,37 @@ const initializeDatabase = async () => {
       )
     `);
 
+    // Date-specific availability blocks. Guards add them from their profile;
+    // inside a locked month they start as 'pending' (or 'pending_removal')
+    // until a manager approves.
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS employee_availability_blocks (
+        id TEXT PRIMARY KEY,
+        employee_id TEXT REFERENCES employees(id) ON DELETE CASCADE,
+        date TEXT NOT NULL,
+        start_time TEXT,
+        end_time TEXT,
+        reason TEXT,
+        status TEXT DEFAULT 'approved',
+        resolved_by TEXT,
+        resolved_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Weekly pattern changes submitted by guards, applied on manager approval
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS availability_pattern_requests (
+        id TEXT PRIMARY KEY,
+        employee_id TEXT REFERENCES employees(id) ON DELETE CASCADE,
+        pattern TEXT NOT NULL,
+        status TEXT DEFAULT 'pending',
+        resolved_by TEXT,
+        resolved_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // Shifts table
     await execDDL(`
       CREATE TABLE IF NOT EXISTS shifts (
@@ -811,6 +877,242 @@ const initializeDatabase = async () => {
       )
     `);
 
+    // Manager corrections of check-in/out punches (timesheet audit trail)
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS timesheet_corrections (
+        id TEXT PRIMARY KEY,
+        assignment_id TEXT REFERENCES shift_assignments(id) ON DELETE CASCADE,
+        employee_id TEXT REFERENCES employees(id),
+        field TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        reason TEXT NOT NULL,
+        corrected_by TEXT REFERENCES users(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Payroll months closed for corrections (month = YYYY-MM)
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS timesheet_locks (
+        id TEXT PRIMARY KEY,
+        month TEXT UNIQUE NOT NULL,
+        locked_by TEXT REFERENCES users(id),
+        locked_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Undoable bulk shift operations (bulk delete, week copy, template generation)
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS shift_operation_batches (
+        id TEXT PRIMARY KEY,
+        operation TEXT NOT NULL,
+        description TEXT,
+        created_shift_ids TEXT,
+        created_assignment_ids TEXT,
+        deleted_snapshot TEXT,
+        shift_count INTEGER DEFAULT 0,
+        created_by TEXT REFERENCES users(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        undone_at TEXT,
+        undone_by TEXT REFERENCES users(id)
+      )
+    `);
+
+    // Handover notes left at check-out for the next guard at the site
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS shift_handovers (
+        id TEXT PRIMARY KEY,
+        assignment_id TEXT UNIQUE REFERENCES shift_assignments(id) ON DELETE CASCADE,
+        shift_id TEXT REFERENCES shifts(id) ON DELETE CASCADE,
+        site_id TEXT REFERENCES sites(id),
+        employee_id TEXT REFERENCES employees(id),
+        open_issues TEXT,
+        keys_equipment TEXT,
+        visitors_on_site TEXT,
+        notes TEXT,
+        acknowledged_by TEXT REFERENCES employees(id),
+        acknowledged_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Guards raising a hand for open shifts (bidding mode), approved by a manager
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS shift_bids (
+        id TEXT PRIMARY KEY,
+        shift_id TEXT REFERENCES shifts(id) ON DELETE CASCADE,
+        employee_id TEXT REFERENCES employees(id),
+        status TEXT DEFAULT 'pending',
+        note TEXT,
+        assignment_id TEXT,
+        resolved_at TEXT,
+        resolved_by TEXT REFERENCES users(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(shift_id, employee_id)
+      )
+    `);
+
+    // Secret ICS subscription URLs: personal (site_id NULL) or per site
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS calendar_feeds (
+        id TEXT PRIMARY KEY,
+        token TEXT UNIQUE NOT NULL,
+        user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+        site_id TEXT REFERENCES sites(id) ON DELETE CASCADE,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        last_accessed_at TEXT,
+        revoked_at TEXT
+      )
+    `);
+
+    // Check-ins/outs made outside a site's geofence, pending a manager's approval
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS geofence_exceptions (
+        id TEXT PRIMARY KEY,
+        assignment_id TEXT REFERENCES shift_assignments(id) ON DELETE CASCADE,
+        employee_id TEXT REFERENCES employees(id),
+        site_id TEXT REFERENCES sites(id) ON DELETE SET NULL,
+        punch_type TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        latitude REAL,
+        longitude REAL,
+        distance_meters INTEGER,
+        allowed_meters INTEGER,
+        status TEXT DEFAULT 'pending',
+        resolution_note TEXT,
+        resolved_by TEXT REFERENCES users(id),
+        resolved_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Guards who never checked in, escalated by the no-show job; a manager
+    // fills the gap from the dashboard or dismisses the request
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS replacement_requests (
+        id TEXT PRIMARY KEY,
+        shift_id TEXT REFERENCES shifts(id) ON DELETE CASCADE,
+        assignment_id TEXT REFERENCES shift_assignments(id) ON DELETE CASCADE,
+        employee_id TEXT REFERENCES employees(id),
+        status TEXT DEFAULT 'open',
+        replacement_employee_id TEXT REFERENCES employees(id),
+        replacement_assignment_id TEXT REFERENCES shift_assignments(id) ON DELETE SET NULL,
+        resolved_by TEXT REFERENCES users(id),
+        resolved_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Responses to actions replayed by the offline guard app, keyed by the
+    // client's Idempotency-Key so a retry never applies an action twice
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        method TEXT,
+        path TEXT,
+        status_code INTEGER,
+        response_body TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (key, user_id)
+      )
+    `);
+
+    // Panic button alerts from the guard app, with the latest reported location
+    // and who acknowledged them so the guard sees that help is coming
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS sos_alerts (
+        id TEXT PRIMARY KEY,
+        employee_id TEXT REFERENCES employees(id),
+        user_id TEXT REFERENCES users(id),
+        assignment_id TEXT REFERENCES shift_assignments(id) ON DELETE SET NULL,
+        site_id TEXT REFERENCES sites(id),
+        incident_id TEXT REFERENCES incidents(id) ON DELETE SET NULL,
+        status TEXT DEFAULT 'active',
+        latitude REAL,
+        longitude REAL,
+        accuracy REAL,
+        location_updated_at TEXT,
+        acknowledged_by TEXT REFERENCES users(id),
+        acknowledged_at TEXT,
+        acknowledge_message TEXT,
+        resolved_by TEXT REFERENCES users(id),
+        resolved_at TEXT,
+        resolution TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Web Push subscriptions, one per browser/device. A push service answering
+    // 404/410 means the device unsubscribed, and its row is dropped on send
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+        endpoint TEXT UNIQUE NOT NULL,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        user_agent TEXT,
+        last_used_at TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Site post orders: each revision is a new version, the highest one is current
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS site_post_orders (
+        id TEXT PRIMARY KEY,
+        site_id TEXT REFERENCES sites(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        title TEXT,
+        content TEXT NOT NULL,
+        change_summary TEXT,
+        created_by TEXT REFERENCES users(id),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (site_id, version)
+      )
+    `);
+
+    // A guard's acknowledgement of one post order version
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS post_order_acknowledgements (
+        id TEXT PRIMARY KEY,
+        post_order_id TEXT REFERENCES site_post_orders(id) ON DELETE CASCADE,
+        employee_id TEXT REFERENCES employees(id) ON DELETE CASCADE,
+        assignment_id TEXT REFERENCES shift_assignments(id) ON DELETE SET NULL,
+        acknowledged_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (post_order_id, employee_id)
+      )
+    `);
+
+    // Pre-shift readiness checklist of a shift template or a site (template wins).
+    // items is a JSON [{ key, label }]; the guard's issued weapons and equipment
+    // are added to it when include_issued_items is set
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS readiness_checklists (
+        id TEXT PRIMARY KEY,
+        site_id TEXT UNIQUE REFERENCES sites(id) ON DELETE CASCADE,
+        template_id TEXT UNIQUE,
+        items TEXT NOT NULL DEFAULT '[]',
+        include_issued_items INTEGER DEFAULT 1,
+        updated_by TEXT REFERENCES users(id),
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // The guard's answers to the readiness checklist, submitted with the check-in
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS readiness_checks (
+        id TEXT PRIMARY KEY,
+        assignment_id TEXT UNIQUE REFERENCES shift_assignments(id) ON DELETE CASCADE,
+        employee_id TEXT REFERENCES employees(id),
+        answers TEXT NOT NULL,
+        failed_count INTEGER DEFAULT 0,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // Events table
     await execDDL(`
       CREATE TABLE IF NOT EXISTS events (
@@ -935,6 +1237,10 @@ const initializeDatabase = async () => {
     // Add google_calendar_event_id column to events/shifts if not exists
     await safeMigrate(`ALTER TABLE events ADD COLUMN google_calendar_event_id TEXT`);
     await safeMigrate(`ALTER TABLE shifts ADD COLUMN google_calendar_event_id TEXT`);
+    // Template a shift was generated from (its readiness checklist applies)
+    await safeMigrate(`ALTER TABLE shifts ADD COLUMN template_id TEXT`);
+    // Manager who created the shift, alerted first about its no-shows
+    await safeMigrate(`ALTER TABLE shifts ADD COLUMN created_by TEXT REFERENCES users(id)`);
 
     // --------------------------------------------------
     // Contractor tables (new)
@@ -1184,11 +1490,22 @@ const initializeDatabase = async () => {
       `ALTER TABLE patrol_logs ADD COLUMN status TEXT DEFAULT 'ok'`,
       `ALTER TABLE patrol_logs ADD COLUMN observation TEXT`,
       `ALTER TABLE patrol_logs ADD COLUMN checked_at TEXT DEFAULT CURRENT_TIMESTAMP`,
+      `ALTER TABLE patrol_logs ADD COLUMN method TEXT DEFAULT 'manual'`,
     ];
     for (const ddl of patrolMigrations) {
       await safeMigrate(ddl);
     }
 
+    // Migrate site_checkpoints: columns the checkpoint routes read and write
+    const checkpointMigrations = [
+      `ALTER TABLE site_checkpoints ADD COLUMN location_notes TEXT`,
+      `ALTER TABLE site_checkpoints ADD COLUMN check_interval_minutes INTEGER`,
+      `ALTER TABLE site_checkpoints ADD COLUMN is_active INTEGER DEFAULT 1`,
+    ];
+    for (const ddl of checkpointMigrations) {
+      await safeMigrate(ddl);
+    }
+
     // Migrate guard_locations: add columns that routes expect
     const guardLocMigrations = [
       `ALTER TABLE guard_locations ADD COLUMN shift_assignment_id TEXT`,
@@ -1202,11 +1519,55 @@ const initializeDatabase = async () => {
     const sitesMigrations = [
       `ALTER TABLE sites ADD COLUMN latitude REAL`,
       `ALTER TABLE sites ADD COLUMN longitude REAL`,
+      // JSON array of guard_certifications.cert_type values required at the site
+      `ALTER TABLE sites ADD COLUMN required_certifications TEXT`,
+      // Check-in geofence: radius around the site coordinates, or a JSON [[lat, lng], ...] polygon
+      `ALTER TABLE sites ADD COLUMN geofence_radius_meters INTEGER`,
+      `ALTER TABLE sites ADD COLUMN geofence_polygon TEXT`,
     ];
     for (const ddl of sitesMigrations) {
       await safeMigrate(ddl);
     }
 
+    // Migrate shift_assignments: punch location and geofence result (inside/outside/unknown)
+    const punchLocationMigrations = [
+      `ALTER TABLE shift_assignments ADD COLUMN check_in_latitude REAL`,
+      `ALTER TABLE shift_assignments ADD COLUMN check_in_longitude REAL`,
+      `ALTER TABLE shift_assignments ADD COLUMN check_in_distance_meters INTEGER`,
+      `ALTER TABLE shift_assignments ADD COLUMN check_in_zone TEXT`,
+      `ALTER TABLE shift_assignments ADD COLUMN check_out_latitude REAL`,
+      `ALTER TABLE shift_assignments ADD COLUMN check_out_longitude REAL`,
+      `ALTER TABLE shift_assignments ADD COLUMN check_out_distance_meters INTEGER`,
+      `ALTER TABLE shift_assignments ADD COLUMN check_out_zone TEXT`,
+    ];
+    for (const ddl of punchLocationMigrations) {
+      await safeMigrate(ddl);
+    }
+
+    // Migrate shift_assignments: late arrival alert stages (guard first, then managers)
+    await safeMigrate(`ALTER TABLE shift_assignments ADD COLUMN late_alert_sent_at TEXT`);
+    await safeMigrate(`ALTER TABLE shift_assignments ADD COLUMN no_show_escalated_at TEXT`);
+
+    // Migrate employees: preferred shift types (JSON array of morning/evening/night)
+    await safeMigrate(`ALTER TABLE employees ADD COLUMN preferred_shift_types TEXT`);
+    // Home coordinates, for proximity to site in guard suggestions and bid ranking
+    await safeMigrate(`ALTER TABLE employees ADD COLUMN home_latitude REAL`);
+    await safeMigrate(`ALTER TABLE employees ADD COLUMN home_longitude REAL`);
+    // Migrate users: Web Push category switches (JSON, see pushService); NULL = all on
+    await safeMigrate(`ALTER TABLE users ADD COLUMN push_preferences TEXT`);
+    // guard_ratings is written by /performance/rate with a 1-5 rating per shift/event
+    const ratingsMigrations = [
+      `ALTER TABLE guard_ratings ADD COLUMN rating REAL`,
+      `ALTER TABLE guard_ratings ADD COLUMN shift_id TEXT`,
+      `ALTER TABLE guard_ratings ADD COLUMN event_id TEXT`,
+      `ALTER TABLE guard_ratings ADD COLUMN comments TEXT`,
+    ];
+    for (const ddl of ratingsMigrations) {
+      await safeMigrate(ddl);
+    }
+    // Migrate contracts: billed rate per guard hour; NULL = monthly_value prorated per day
+    await safeMigrate(`ALTER TABLE contracts ADD COLUMN hourly_rate REAL`);
+
     // Migrate integration_settings: add google_maps_api_key
     await safeMigrate(`ALTER TABLE integration_settings ADD COLUMN google_maps_api_key TEXT`);
 
@@ -1307,6 +1668,27 @@ const initializeDatabase = async () => {
         updated_at TEXT DEFAULT CURRENT_TIMESTAMP
       )
     `);
+    // Rotation cycle (JSON, see autoShiftGenerator.normalizeRotation); NULL = fixed weekly template
+    await safeMigrate(`ALTER TABLE shift_templates ADD COLUMN rotation TEXT`);
+
+    // Shift swap requests: 'offer' gives a shift away (optionally to a named
+    // colleague), 'trade' exchanges it for one of the colleague's shifts
+    await execDDL(`
+      CREATE TABLE IF NOT EXISTS shift_swap_requests (
+        id TEXT PRIMARY KEY,
+        shift_id TEXT REFERENCES shifts(id) ON DELETE CASCADE,
+        requester_id TEXT REFERENCES employees(id),
+        target_employee_id TEXT REFERENCES employees(id),
+        target_shift_id TEXT REFERENCES shifts(id) ON DELETE CASCADE,
+        swap_type TEXT DEFAULT 'offer',
+        reason TEXT,
+        status TEXT DEFAULT 'pending',
+        resolved_at TEXT,
+        resolved_by TEXT REFERENCES users(id),
+        resolution_note TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
 
     await execDDL(`
       CREATE TABLE IF NOT EXISTS auto_generation_log (
@@ -1374,6 +1756,12 @@ const initializeDatabase = async () => {
       )
     `);
 
+    // Hours of Work and Rest Law check runs by default
+    await safeMigrate(`
+      INSERT INTO alert_config (id, alert_type, is_enabled) VALUES ('alert-work-hours', 'work_hours', 1)
+      ON CONFLICT (alert_type) DO NOTHING
+    `);
+
     await execDDL(`
       CREATE TABLE IF NOT EXISTS alert_escalations (
         id TEXT PRIMARY KEY,
@@ -1442,6 +1830,9 @@ const initializeDatabase = async () => {
     await execDDL(`CREATE INDEX IF NOT EXISTS idx_shifts_date ON shifts(date)`);
     await execDDL(`CREATE INDEX IF NOT EXISTS idx_events_date ON events(event_date)`);
     await execDDL(`CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status)`);
+    await execDDL(`CREATE INDEX IF NOT EXISTS idx_site_checkpoints_qr ON site_checkpoints(qr_code)`);
+    await execDDL(`CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id)`);
+    await execDDL(`CREATE INDEX IF NOT EXISTS idx_post_order_acks_employee ON post_order_acknowledgements(employee_id)`);
 
     // Create default admin user if not exists
     let adminExists;
@@ -1546,6 +1937,7 @@ initWithRetry();
 
 module.exports = {
   query,
+  transaction,
   generateUUID,
   initializeDatabase,
   convertSqliteToPostgres
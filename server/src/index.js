@@ -52,6 +52,9 @@ const sitesRoutes = require('./routes/sites');
 const automationRoutes = require('./routes/automation');
 const contractorsRoutes = require('./routes/contractors');
 const priorityRoutes = require('./routes/priority');
+const timesheetsRoutes = require('./routes/timesheets');
+const calendarRoutes = require('./routes/calendar');
+const pushRoutes = require('./routes/push');
 
 // Import scheduler
 const scheduler = require('./services/scheduler');
@@ -177,6 +180,9 @@ app.use('/api/documents', documentsRoutes);
 app.use('/api/automation', automationRoutes);
 app.use('/api/contractors', contractorsRoutes);
 app.use('/api/priority', priorityRoutes);
+app.use('/api/timesheets', timesheetsRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/push', pushRoutes);
 
 // MCP (Model Context Protocol) endpoint for AI agents (e.g. Hermes).
 // Gated by the MCP_API_TOKEN env var; disabled (503) when not configured.
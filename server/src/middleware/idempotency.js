@@ -0,0 +1,77 @@
+/**
+ * Idempotency for actions the guard app queues while offline (punches,
+ * patrol logs, incident reports). The client sends the same Idempotency-Key
+ * on every retry; the first response is stored and replayed for repeats, so
+ * a retry after a lost response never punches twice.
+ */
+const { query } = require('../config/database');
+
+// Offline actions older than this keep the server time instead
+const MAX_OFFLINE_HOURS = 48;
+// Tolerated clock skew for a device that is ahead of the server
+const MAX_FUTURE_MINUTES = 5;
+
+const idempotency = async (req, res, next) => {
+  const key = req.headers['idempotency-key'];
+  if (!key) return next();
+  if (typeof key !== 'string' || key.length > 100) {
+    return res.status(400).json({ error: 'מפתח ייחודיות לא תקין' });
+  }
+
+  try {
+    const claimed = await query(`
+      INSERT INTO idempotency_keys (key, user_id, method, path)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (key, user_id) DO NOTHING
+    `, [key, req.user.id, req.method, req.originalUrl]);
+
+    if (!claimed.rowCount) {
+      const existing = await query(
+        'SELECT status_code, response_body FROM idempotency_keys WHERE key = $1 AND user_id = $2',
+        [key, req.user.id]
+      );
+      const stored = existing.rows[0];
+      if (stored?.status_code) {
+        res.set('Idempotent-Replay', 'true');
+        return res.status(stored.status_code).json(JSON.parse(stored.response_body || '{}'));
+      }
+      return res.status(409).json({ error: 'הפעולה כבר בעיבוד', in_progress: true });
+    }
+  } catch (error) {
+    console.error('Idempotency check error:', error);
+    return next();
+  }
+
+  // Keep the response for replays; server errors release the key so a retry runs again
+  const json = res.json.bind(res);
+  res.json = (body) => {
+    const release = res.statusCode >= 500
+      ? query('DELETE FROM idempotency_keys WHERE key = $1 AND user_id = $2', [key, req.user.id])
+      : query(
+        'UPDATE idempotency_keys SET status_code = $3, response_body = $4 WHERE key = $1 AND user_id = $2',
+        [key, req.user.id, res.statusCode, JSON.stringify(body)]
+      );
+    release.catch(err => console.error('Idempotency store error:', err.message));
+    return json(body);
+  };
+  next();
+};
+
+/**
+ * Time an offline action actually happened, as sent by the client
+ * (ISO string), converted to the datetime('now') format. Returns null -
+ * meaning "use the server time" - when missing, invalid or out of range.
+ * @param {string} value
+ * @returns {string|null} 'YYYY-MM-DD HH:MM:SS' (UTC)
+ */
+function recordedAt(value) {
+  if (!value) return null;
+  const time = new Date(value);
+  if (isNaN(time.getTime())) return null;
+  const now = Date.now();
+  if (time.getTime() > now + MAX_FUTURE_MINUTES * 60000) return null;
+  if (time.getTime() < now - MAX_OFFLINE_HOURS * 3600000) return null;
+  return time.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+module.exports = { idempotency, recordedAt };
@@ -727,4 +727,21 @@ router.get('/intelligence/heatmap', requireManager, async (req, res) => {
   }
 });
 
+const workHoursCompliance = require('../services/workHoursCompliance');
+
+// GET /api/automation/intelligence/compliance - Hours of Work and Rest Law violations per employee
+router.get('/intelligence/compliance', requireManager, async (req, res) => {
+  try {
+    const { start_date, end_date } = req.query;
+    if (!start_date || !end_date || start_date > end_date) {
+      return res.status(400).json({ error: 'נדרש טווח תאריכים תקין' });
+    }
+    const compliance = await workHoursCompliance.analyzePeriod(start_date, end_date);
+    res.json({ compliance });
+  } catch (error) {
+    console.error('Intelligence compliance error:', error);
+    res.status(500).json({ error: 'שגיאה בבדיקת חוק שעות עבודה ומנוחה' });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,103 @@
+const express = require('express');
+const { authenticateToken, requireManager } = require('../middleware/auth');
+const calendarFeedService = require('../services/calendarFeedService');
+
+const router = express.Router();
+
+const feedPath = (token) => `/api/calendar/feed/${token}.ics`;
+
+// ICS subscription feed - public, the secret token in the URL is the credential
+router.get('/feed/:file', async (req, res) => {
+  try {
+    const token = req.params.file.replace(/\.ics$/, '');
+    const body = await calendarFeedService.render(token);
+    if (body === null) {
+      return res.status(404).json({ error: 'יומן לא נמצא או שהקישור בוטל' });
+    }
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="shifts.ics"');
+    res.set('Cache-Control', 'no-cache');
+    res.send(body);
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    res.status(500).json({ error: 'שגיאה בהפקת היומן' });
+  }
+});
+
+router.use(authenticateToken);
+
+// ===== Personal feed =====
+
+router.get('/my-feed', async (req, res) => {
+  try {
+    const feed = await calendarFeedService.getUserFeed(req.user.id);
+    res.json({ feed: feed && { ...feed, path: feedPath(feed.token) } });
+  } catch (error) {
+    console.error('Get calendar feed error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת קישור היומן' });
+  }
+});
+
+// Create a feed URL, or replace the current one (the old URL stops working)
+router.post('/my-feed', async (req, res) => {
+  try {
+    const feed = await calendarFeedService.rotateUserFeed(req.user.id);
+    res.status(201).json({ feed: { ...feed, path: feedPath(feed.token) }, message: 'נוצר קישור יומן חדש' });
+  } catch (error) {
+    console.error('Create calendar feed error:', error);
+    res.status(500).json({ error: 'שגיאה ביצירת קישור יומן' });
+  }
+});
+
+router.delete('/my-feed', async (req, res) => {
+  try {
+    const revoked = await calendarFeedService.revokeUserFeed(req.user.id);
+    if (!revoked) {
+      return res.status(404).json({ error: 'אין קישור יומן פעיל' });
+    }
+    res.json({ message: 'קישור היומן בוטל' });
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error);
+    res.status(500).json({ error: 'שגיאה בביטול קישור היומן' });
+  }
+});
+
+// ===== Site feeds (managers) =====
+
+router.get('/site-feeds', requireManager, async (req, res) => {
+  try {
+    const sites = await calendarFeedService.listSiteFeeds();
+    res.json({ sites: sites.map(s => ({ ...s, path: s.token ? feedPath(s.token) : null })) });
+  } catch (error) {
+    console.error('Get site calendar feeds error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת יומני אתרים' });
+  }
+});
+
+router.post('/site-feeds/:siteId', requireManager, async (req, res) => {
+  try {
+    const result = await calendarFeedService.rotateSiteFeed(req.params.siteId, req.user.id);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.status(201).json({ feed: { ...result, path: feedPath(result.token) }, message: 'נוצר קישור יומן לאתר' });
+  } catch (error) {
+    console.error('Create site calendar feed error:', error);
+    res.status(500).json({ error: 'שגיאה ביצירת יומן לאתר' });
+  }
+});
+
+router.delete('/site-feeds/:siteId', requireManager, async (req, res) => {
+  try {
+    const revoked = await calendarFeedService.revokeSiteFeed(req.params.siteId);
+    if (!revoked) {
+      return res.status(404).json({ error: 'אין קישור יומן פעיל לאתר' });
+    }
+    res.json({ message: 'קישור היומן של האתר בוטל' });
+  } catch (error) {
+    console.error('Revoke site calendar feed error:', error);
+    res.status(500).json({ error: 'שגיאה בביטול יומן האתר' });
+  }
+});
+
+module.exports = router;
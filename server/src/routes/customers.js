@@ -202,6 +202,13 @@ router.post('/:id/contacts', requireManager, [
   }
 });
 
+// Certification types a guard must hold to work a site: JSON array, null for none
+const toRequiredCertifications = (value) => {
+  if (!Array.isArray(value)) return null;
+  const types = [...new Set(value.filter(t => typeof t === 'string' && t.trim()).map(t => t.trim()))];
+  return types.length > 0 ? JSON.stringify(types) : null;
+};
+
 // Get sites for customer
 router.get('/:id/sites', async (req, res) => {
   try {
@@ -227,7 +234,7 @@ router.post('/:id/sites', requireManager, [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, address, city, requirements, requires_weapon, notes, latitude, longitude } = req.body;
+    const { name, address, city, requirements, requires_weapon, notes, latitude, longitude, required_certifications } = req.body;
 
     // Auto-geocode if no coordinates provided
     let lat = latitude ?? null;
@@ -242,10 +249,12 @@ router.post('/:id/sites', requireManager, [
 
     const siteId = db.generateUUID();
     const result = await db.query(`
-      INSERT INTO sites (id, customer_id, name, address, city, requirements, requires_weapon, notes, latitude, longitude)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      INSERT INTO sites (id, customer_id, name, address, city, requirements, requires_weapon, notes, latitude, longitude,
+                         required_certifications)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING *
-    `, [siteId, req.params.id, name, address, city, requirements, requires_weapon ? 1 : 0, notes, lat, lng]);
+    `, [siteId, req.params.id, name, address, city, requirements, requires_weapon ? 1 : 0, notes, lat, lng,
+        toRequiredCertifications(required_certifications)]);
 
     res.status(201).json({ site: result.rows[0] });
   } catch (error) {
@@ -257,15 +266,19 @@ router.post('/:id/sites', requireManager, [
 // Update site
 router.put('/:id/sites/:siteId', requireManager, async (req, res) => {
   try {
-    const { name, address, city, requirements, requires_weapon, notes, latitude, longitude } = req.body;
+    const { name, address, city, requirements, requires_weapon, notes, latitude, longitude, required_certifications } = req.body;
+    // Omitted certifications keep the site's current ones
     const result = await db.query(`
       UPDATE sites SET name = $1, address = $2, city = $3, requirements = $4,
-        requires_weapon = $5, notes = $6, latitude = $7, longitude = $8
-      WHERE id = $9 AND customer_id = $10
-      RETURNING *
-    `, [name, address, city, requirements, requires_weapon ? 1 : 0, notes, latitude ?? null, longitude ?? null, req.params.siteId, req.params.id]);
-    if (result.rows.length === 0) return res.status(404).json({ error: 'אתר לא נמצא' });
-    res.json({ site: result.rows[0] });
+        requires_weapon = $5, notes = $6, latitude = $7, longitude = $8,
+        required_certifications = CASE WHEN $9 = 1 THEN $10 ELSE required_certifications END
+      WHERE id = $11 AND customer_id = $12
+    `, [name, address, city, requirements, requires_weapon ? 1 : 0, notes, latitude ?? null, longitude ?? null,
+        required_certifications !== undefined ? 1 : 0, toRequiredCertifications(required_certifications),
+        req.params.siteId, req.params.id]);
+    if (!result.rowCount) return res.status(404).json({ error: 'אתר לא נמצא' });
+    const site = await db.query('SELECT * FROM sites WHERE id = $1', [req.params.siteId]);
+    res.json({ site: site.rows[0] });
   } catch (error) {
     console.error('Update site error:', error);
     res.status(500).json({ error: 'שגיאה בעדכון אתר' });
@@ -321,19 +334,38 @@ router.patch('/:id/sites/:siteId/coordinates', requireManager, async (req, res)
   }
 });
 
+// Set the check-in geofence of a site: radius in meters and/or a polygon (polygon wins)
+router.patch('/:id/sites/:siteId/geofence', requireManager, async (req, res) => {
+  try {
+    const geofenceService = require('../services/geofenceService');
+    const settings = geofenceService.normalizeSettings(req.body);
+    if (settings.error) return res.status(400).json({ error: settings.error });
+
+    const result = await db.query(
+      'UPDATE sites SET geofence_radius_meters = $1, geofence_polygon = $2 WHERE id = $3 AND customer_id = $4 RETURNING *',
+      [settings.radius, settings.polygon, req.params.siteId, req.params.id]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: 'אתר לא נמצא' });
+    res.json({ site: result.rows[0], message: 'גדר האתר עודכנה' });
+  } catch (error) {
+    console.error('Set geofence error:', error);
+    res.status(500).json({ error: 'שגיאה בעדכון גדר האתר' });
+  }
+});
+
 // Add contract to customer
 router.post('/:id/contracts', requireManager, [
   body('start_date').isDate().withMessage('נדרש תאריך התחלה')
 ], async (req, res) => {
   try {
-    const { start_date, end_date, monthly_value, terms, document_url, auto_renewal, renewal_reminder_days } = req.body;
+    const { start_date, end_date, monthly_value, hourly_rate, terms, document_url, auto_renewal, renewal_reminder_days } = req.body;
 
     const contractId = db.generateUUID();
     const result = await db.query(`
-      INSERT INTO contracts (id, customer_id, start_date, end_date, monthly_value, terms, document_url, auto_renewal, renewal_reminder_days)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      INSERT INTO contracts (id, customer_id, start_date, end_date, monthly_value, hourly_rate, terms, document_url, auto_renewal, renewal_reminder_days)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
       RETURNING *
-    `, [contractId, req.params.id, start_date, end_date, monthly_value || null, terms || null, document_url || null, auto_renewal !== false ? 1 : 0, renewal_reminder_days || 30]);
+    `, [contractId, req.params.id, start_date, end_date, monthly_value || null, hourly_rate || null, terms || null, document_url || null, auto_renewal !== false ? 1 : 0, renewal_reminder_days || 30]);
 
     res.status(201).json({ contract: result.rows[0] });
   } catch (error) {
@@ -3,6 +3,10 @@ const { body, validationResult } = require('express-validator');
 const bcrypt = require('bcryptjs');
 const db = require('../config/database');
 const { authenticateToken, requireRole, requireManager } = require('../middleware/auth');
+const availabilityService = require('../services/availabilityService');
+const workHoursCompliance = require('../services/workHoursCompliance');
+const timesheetService = require('../services/timesheetService');
+const laborCostService = require('../services/laborCostService');
 
 const toNull = (v) => v === undefined ? null : v;
 const toBool = (v) => v === undefined ? null : (v ? 1 : 0);
@@ -99,7 +103,17 @@ router.get('/available/:date', async (req, res) => {
 
     const result = await db.query(queryStr, params);
 
-    res.json({ employees: result.rows });
+    // Respect the weekly pattern and date blocks guards maintain themselves
+    const unavailable = await availabilityService.getUnavailableEmployeeIds(date, start_time, end_time);
+    const preferences = await availabilityService.getPreferredShiftTypes();
+    const shiftType = start_time ? availabilityService.shiftTypeOf(start_time) : null;
+
+    const employees = result.rows
+      .filter(e => !unavailable.has(e.id))
+      .map(e => ({ ...e, prefers_shift_type: !!shiftType && (preferences[e.id] || []).includes(shiftType) }))
+      .sort((a, b) => b.prefers_shift_type - a.prefers_shift_type);
+
+    res.json({ employees });
   } catch (error) {
     console.error('Get available employees error:', error);
     res.status(500).json({ error: 'שגיאה בטעינת עובדים זמינים' });
@@ -119,6 +133,435 @@ router.get('/trash/list', requireManager, async (req, res) => {
   }
 });
 
+// ── Self-service availability (MUST be before /:id routes) ──────────────────
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+
+async function getOwnEmployee(userId) {
+  const result = await db.query(
+    'SELECT id, first_name, last_name, preferred_shift_types FROM employees WHERE user_id = $1 AND deleted_at IS NULL',
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+async function notifyManagers(title, message, employeeId) {
+  const managers = await db.query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
+  for (const manager of managers.rows) {
+    await db.query(`
+      INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+      VALUES ($1, $2, 'availability_request', $3, $4, 'employee', $5)
+    `, [db.generateUUID(), manager.id, title, message, employeeId]);
+  }
+}
+
+// Certificates and licenses expiring within this many days show on the guard's home page
+const EXPIRY_REMINDER_DAYS = 60;
+
+// My schedule: upcoming shifts and events, and expiring certificates/licenses
+router.get('/me/schedule', async (req, res) => {
+  try {
+    const employee = await getOwnEmployee(req.user.id);
+    if (!employee) {
+      return res.status(404).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const horizon = `date('now', 'localtime', '+${EXPIRY_REMINDER_DAYS} days')`;
+    const [shifts, events, certifications, licenses] = await Promise.all([
+      db.query(`
+        SELECT sa.id as assignment_id, sa.shift_id, sa.status, sa.role,
+               s.date, s.start_time, s.end_time, s.requires_weapon,
+               si.name as site_name, si.address as site_address, c.company_name
+        FROM shift_assignments sa
+        JOIN shifts s ON sa.shift_id = s.id
+        LEFT JOIN sites si ON s.site_id = si.id
+        LEFT JOIN customers c ON s.customer_id = c.id
+        WHERE sa.employee_id = $1
+        AND s.date >= date('now', 'localtime') AND s.date <= date('now', 'localtime', '+30 days')
+        AND sa.status IN ('assigned', 'checked_in')
+        AND s.status NOT IN ('cancelled', 'completed')
+        ORDER BY s.date, s.start_time
+      `, [employee.id]),
+      db.query(`
+        SELECT ea.id as assignment_id, ea.role, ev.id as event_id, ev.event_name,
+               ev.event_date, ev.start_time, ev.end_time, ev.location
+        FROM event_assignments ea
+        JOIN events ev ON ea.event_id = ev.id
+        WHERE ea.employee_id = $1
+        AND ev.event_date >= date('now', 'localtime')
+        AND ev.status NOT IN ('completed', 'cancelled')
+        AND ev.deleted_at IS NULL
+        ORDER BY ev.event_date, ev.start_time
+      `, [employee.id]),
+      db.query(`
+        SELECT id, COALESCE(cert_name, name, cert_type, type) as name, expiry_date
+        FROM guard_certifications
+        WHERE employee_id = $1 AND expiry_date IS NOT NULL
+        AND expiry_date <= ${horizon}
+        ORDER BY expiry_date
+      `, [employee.id]),
+      db.query(`
+        SELECT id, weapon_license_expiry as expiry_date FROM employees
+        WHERE id = $1 AND weapon_license_expiry IS NOT NULL
+        AND weapon_license_expiry <= ${horizon}
+        UNION ALL
+        SELECT id, license_expiry as expiry_date FROM guard_weapons
+        WHERE employee_id = $1 AND status = 'assigned' AND license_expiry IS NOT NULL
+        AND license_expiry <= ${horizon}
+      `, [employee.id]),
+    ]);
+
+    const expiries = [
+      ...certifications.rows.map(c => ({ id: c.id, kind: 'certification', name: c.name, expiry_date: c.expiry_date })),
+      ...licenses.rows.map(l => ({
+        id: l.id,
+        kind: l.id === employee.id ? 'weapon_license' : 'weapon',
+        name: l.id === employee.id ? 'רישיון נשק' : 'רישיון כלי נשק',
+        expiry_date: l.expiry_date,
+      })),
+    ].sort((a, b) => a.expiry_date.localeCompare(b.expiry_date));
+
+    res.json({
+      employee_id: employee.id,
+      shifts: shifts.rows,
+      events: events.rows,
+      expiries,
+    });
+  } catch (error) {
+    console.error('Get my schedule error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת הלוח האישי' });
+  }
+});
+
+// Get my availability for a month: pattern, blocks, preferences and lock state
+router.get('/me/availability', async (req, res) => {
+  try {
+    const employee = await getOwnEmployee(req.user.id);
+    if (!employee) {
+      return res.status(404).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const month = /^\d{4}-\d{2}$/.test(req.query.month || '')
+      ? req.query.month
+      : new Date().toISOString().slice(0, 7);
+
+    const [pattern, pendingPattern, blocks, lock] = await Promise.all([
+      db.query('SELECT * FROM employee_availability WHERE employee_id = $1 ORDER BY day_of_week', [employee.id]),
+      db.query(
+        `SELECT * FROM availability_pattern_requests WHERE employee_id = $1 AND status = 'pending' ORDER BY created_at DESC LIMIT 1`,
+        [employee.id]
+      ),
+      db.query(`
+        SELECT * FROM employee_availability_blocks
+        WHERE employee_id = $1 AND date LIKE $2 AND status != 'rejected'
+        ORDER BY date, start_time
+      `, [employee.id, `${month}-%`]),
+      availabilityService.getLock(month),
+    ]);
+
+    let pendingPatternDays = null;
+    if (pendingPattern.rows[0]) {
+      try {
+        pendingPatternDays = JSON.parse(pendingPattern.rows[0].pattern);
+      } catch (e) { /* ignore */ }
+    }
+
+    res.json({
+      month,
+      lock,
+      pattern: pattern.rows,
+      pending_pattern: pendingPatternDays,
+      blocks: blocks.rows,
+      preferred_shift_types: availabilityService.parseShiftTypes(employee.preferred_shift_types),
+    });
+  } catch (error) {
+    console.error('Get my availability error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת זמינות' });
+  }
+});
+
+// Submit a new weekly pattern; applied once a manager approves
+router.put('/me/availability/pattern', async (req, res) => {
+  try {
+    const employee = await getOwnEmployee(req.user.id);
+    if (!employee) {
+      return res.status(404).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const { availability } = req.body;
+    if (!Array.isArray(availability)) {
+      return res.status(400).json({ error: 'נדרשת רשימת זמינות' });
+    }
+    const pattern = [];
+    for (const av of availability) {
+      const day = parseInt(av.day_of_week, 10);
+      if (!(day >= 0 && day <= 6)) {
+        return res.status(400).json({ error: 'יום בשבוע לא תקין' });
+      }
+      const hasHours = av.start_time || av.end_time;
+      if (hasHours && !(TIME_RE.test(av.start_time || '') && TIME_RE.test(av.end_time || ''))) {
+        return res.status(400).json({ error: 'שעות זמינות לא תקינות' });
+      }
+      pattern.push({
+        day_of_week: day,
+        is_available: av.is_available !== false,
+        start_time: hasHours ? av.start_time : null,
+        end_time: hasHours ? av.end_time : null,
+      });
+    }
+
+    // One open request per employee: a resubmission replaces it
+    await db.query(
+      `UPDATE availability_pattern_requests SET status = 'cancelled' WHERE employee_id = $1 AND status = 'pending'`,
+      [employee.id]
+    );
+    await db.query(
+      'INSERT INTO availability_pattern_requests (id, employee_id, pattern) VALUES ($1, $2, $3)',
+      [db.generateUUID(), employee.id, JSON.stringify(pattern)]
+    );
+
+    await notifyManagers(
+      'בקשת שינוי זמינות',
+      `${employee.first_name} ${employee.last_name} ביקש/ה לעדכן את הזמינות השבועית`,
+      employee.id
+    );
+
+    res.json({ message: 'הבקשה נשלחה לאישור מנהל', pending_pattern: pattern });
+  } catch (error) {
+    console.error('Submit availability pattern error:', error);
+    res.status(500).json({ error: 'שגיאה בשליחת הזמינות' });
+  }
+});
+
+// Set my preferred shift types (no approval needed)
+router.put('/me/availability/preferences', async (req, res) => {
+  try {
+    const employee = await getOwnEmployee(req.user.id);
+    if (!employee) {
+      return res.status(404).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const types = (req.body.preferred_shift_types || [])
+      .filter(t => availabilityService.SHIFT_TYPES.includes(t));
+    await db.query(
+      'UPDATE employees SET preferred_shift_types = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [JSON.stringify(types), employee.id]
+    );
+
+    res.json({ preferred_shift_types: types });
+  } catch (error) {
+    console.error('Set shift preferences error:', error);
+    res.status(500).json({ error: 'שגיאה בשמירת העדפות' });
+  }
+});
+
+// Block a date (or hours on it). Inside a locked month the block waits for approval.
+router.post('/me/availability/blocks', async (req, res) => {
+  try {
+    const employee = await getOwnEmployee(req.user.id);
+    if (!employee) {
+      return res.status(404).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const { date, start_time, end_time, reason } = req.body;
+    if (!DATE_RE.test(date || '')) {
+      return res.status(400).json({ error: 'תאריך לא תקין' });
+    }
+    if (date < new Date().toISOString().split('T')[0]) {
+      return res.status(400).json({ error: 'לא ניתן לחסום תאריך שעבר' });
+    }
+    const hasHours = start_time || end_time;
+    if (hasHours && !(TIME_RE.test(start_time || '') && TIME_RE.test(end_time || '') && start_time < end_time)) {
+      return res.status(400).json({ error: 'טווח שעות לא תקין' });
+    }
+
+    const locked = await availabilityService.isDateLocked(date);
+    const id = db.generateUUID();
+    await db.query(`
+      INSERT INTO employee_availability_blocks (id, employee_id, date, start_time, end_time, reason, status)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [id, employee.id, date, hasHours ? start_time : null, hasHours ? end_time : null, reason || null,
+        locked ? 'pending' : 'approved']);
+
+    if (locked) {
+      await notifyManagers(
+        'בקשת חסימת זמינות',
+        `${employee.first_name} ${employee.last_name} ביקש/ה לחסום את ${date} (חודש נעול)`,
+        employee.id
+      );
+    }
+
+    const result = await db.query('SELECT * FROM employee_availability_blocks WHERE id = $1', [id]);
+    res.status(201).json({
+      block: result.rows[0],
+      message: locked ? 'החודש נעול - הבקשה נשלחה לאישור מנהל' : 'התאריך נחסם',
+    });
+  } catch (error) {
+    console.error('Add availability block error:', error);
+    res.status(500).json({ error: 'שגיאה בחסימת תאריך' });
+  }
+});
+
+// Remove one of my blocks. Removing an approved block in a locked month needs approval.
+router.delete('/me/availability/blocks/:blockId', async (req, res) => {
+  try {
+    const employee = await getOwnEmployee(req.user.id);
+    if (!employee) {
+      return res.status(404).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const result = await db.query(
+      'SELECT * FROM employee_availability_blocks WHERE id = $1 AND employee_id = $2',
+      [req.params.blockId, employee.id]
+    );
+    const block = result.rows[0];
+    if (!block) {
+      return res.status(404).json({ error: 'חסימה לא נמצאה' });
+    }
+    if (block.status === 'pending_removal') {
+      return res.status(400).json({ error: 'הסרת החסימה כבר ממתינה לאישור' });
+    }
+
+    if (block.status === 'approved' && await availabilityService.isDateLocked(block.date)) {
+      await db.query(
+        `UPDATE employee_availability_blocks SET status = 'pending_removal' WHERE id = $1`,
+        [block.id]
+      );
+      await notifyManagers(
+        'בקשת ביטול חסימה',
+        `${employee.first_name} ${employee.last_name} ביקש/ה לבטל חסימה ב-${block.date} (חודש נעול)`,
+        employee.id
+      );
+      return res.json({ message: 'החודש נעול - ביטול החסימה נשלח לאישור מנהל', pending: true });
+    }
+
+    await db.query('DELETE FROM employee_availability_blocks WHERE id = $1', [block.id]);
+    res.json({ message: 'החסימה הוסרה' });
+  } catch (error) {
+    console.error('Remove availability block error:', error);
+    res.status(500).json({ error: 'שגיאה בהסרת חסימה' });
+  }
+});
+
+// Pending availability changes awaiting approval (managers)
+router.get('/availability-requests', requireManager, async (req, res) => {
+  try {
+    const [patterns, blocks] = await Promise.all([
+      db.query(`
+        SELECT r.*, e.first_name || ' ' || e.last_name as employee_name
+        FROM availability_pattern_requests r
+        JOIN employees e ON r.employee_id = e.id
+        WHERE r.status = 'pending'
+        ORDER BY r.created_at
+      `),
+      db.query(`
+        SELECT b.*, e.first_name || ' ' || e.last_name as employee_name
+        FROM employee_availability_blocks b
+        JOIN employees e ON b.employee_id = e.id
+        WHERE b.status IN ('pending', 'pending_removal')
+        ORDER BY b.date
+      `),
+    ]);
+
+    res.json({
+      patterns: patterns.rows.map(r => {
+        let pattern = [];
+        try {
+          pattern = JSON.parse(r.pattern);
+        } catch (e) { /* ignore */ }
+        return { ...r, pattern };
+      }),
+      blocks: blocks.rows,
+    });
+  } catch (error) {
+    console.error('Get availability requests error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת בקשות זמינות' });
+  }
+});
+
+// Approve/reject an availability change (managers)
+router.post('/availability-requests/:requestId/resolve', requireManager, async (req, res) => {
+  try {
+    const { type, approve } = req.body; // type: 'pattern' | 'block'
+    const { requestId } = req.params;
+    let employeeId;
+    let summary;
+
+    if (type === 'pattern') {
+      const result = await db.query(
+        `SELECT * FROM availability_pattern_requests WHERE id = $1 AND status = 'pending'`,
+        [requestId]
+      );
+      const request = result.rows[0];
+      if (!request) {
+        return res.status(404).json({ error: 'בקשה לא נמצאה' });
+      }
+      employeeId = request.employee_id;
+
+      if (approve) {
+        const pattern = JSON.parse(request.pattern);
+        await db.query('DELETE FROM employee_availability WHERE employee_id = $1', [employeeId]);
+        for (const av of pattern) {
+          await db.query(`
+            INSERT INTO employee_availability (id, employee_id, day_of_week, start_time, end_time, is_available)
+            VALUES ($1, $2, $3, $4, $5, $6)
+          `, [db.generateUUID(), employeeId, av.day_of_week, av.start_time, av.end_time, toBool(av.is_available ?? true)]);
+        }
+      }
+      await db.query(`
+        UPDATE availability_pattern_requests SET status = $1, resolved_by = $2, resolved_at = datetime('now')
+        WHERE id = $3
+      `, [approve ? 'approved' : 'rejected', req.user.id, requestId]);
+      summary = 'שינוי הזמינות השבועית';
+    } else if (type === 'block') {
+      const result = await db.query(
+        `SELECT * FROM employee_availability_blocks WHERE id = $1 AND status IN ('pending', 'pending_removal')`,
+        [requestId]
+      );
+      const block = result.rows[0];
+      if (!block) {
+        return res.status(404).json({ error: 'בקשה לא נמצאה' });
+      }
+      employeeId = block.employee_id;
+
+      if (block.status === 'pending_removal') {
+        if (approve) {
+          await db.query('DELETE FROM employee_availability_blocks WHERE id = $1', [block.id]);
+        } else {
+          await db.query(`UPDATE employee_availability_blocks SET status = 'approved' WHERE id = $1`, [block.id]);
+        }
+        summary = `ביטול החסימה ב-${block.date}`;
+      } else {
+        await db.query(`
+          UPDATE employee_availability_blocks SET status = $1, resolved_by = $2, resolved_at = datetime('now')
+          WHERE id = $3
+        `, [approve ? 'approved' : 'rejected', req.user.id, block.id]);
+        summary = `חסימת ${block.date}`;
+      }
+    } else {
+      return res.status(400).json({ error: 'סוג בקשה לא תקין' });
+    }
+
+    // Let the guard know
+    const empUser = await db.query('SELECT user_id FROM employees WHERE id = $1', [employeeId]);
+    if (empUser.rows[0]?.user_id) {
+      await db.query(`
+        INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+        VALUES ($1, $2, 'availability_request', $3, $4, 'employee', $5)
+      `, [db.generateUUID(), empUser.rows[0].user_id,
+          approve ? 'בקשת זמינות אושרה' : 'בקשת זמינות נדחתה',
+          `${summary} ${approve ? 'אושר/ה' : 'נדחה/תה'} על ידי מנהל`,
+          employeeId]);
+    }
+
+    res.json({ message: approve ? 'הבקשה אושרה' : 'הבקשה נדחתה' });
+  } catch (error) {
+    console.error('Resolve availability request error:', error);
+    res.status(500).json({ error: 'שגיאה בטיפול בבקשה' });
+  }
+});
+
 // Get single employee with all details
 router.get('/:id', async (req, res) => {
   try {
@@ -344,6 +787,14 @@ router.get('/:id/hours/:year/:month', async (req, res) => {
   try {
     const { id, year, month } = req.params;
 
+    // Guards see only their own hours and pay
+    if (req.user.role === 'employee') {
+      const own = await getOwnEmployee(req.user.id);
+      if (own?.id !== id) {
+        return res.status(403).json({ error: 'אין הרשאה לצפות בשעות של עובד אחר' });
+      }
+    }
+
     const monthStr = String(month).padStart(2, '0');
 
     const result = await db.query(`
@@ -372,9 +823,30 @@ router.get('/:id/hours/:year/:month', async (req, res) => {
       ORDER BY s.date
     `, [id, String(year), monthStr]);
 
+    const lastDay = new Date(Number(year), Number(month), 0).getDate();
+    const compliance = await workHoursCompliance.analyzeEmployee(
+      id, `${year}-${monthStr}-01`, `${year}-${monthStr}-${String(lastDay).padStart(2, '0')}`
+    );
+
+    // Estimated gross pay from the punches, split into payroll rate buckets
+    let pay = null;
+    const payMonth = `${year}-${monthStr}`;
+    if (timesheetService.isValidMonth(payMonth)) {
+      const [timesheet, rates] = await Promise.all([
+        timesheetService.getMonth(payMonth, { employeeId: id }),
+        db.query('SELECT hourly_rate, monthly_salary FROM employees WHERE id = $1', [id]),
+      ]);
+      const totals = timesheet.employees[0]?.totals;
+      if (totals && rates.rows[0]) {
+        pay = { buckets: totals, ...(await laborCostService.estimateGrossPay(rates.rows[0], totals)) };
+      }
+    }
+
     res.json({
       summary: result.rows[0],
-      shifts: shiftsResult.rows
+      shifts: shiftsResult.rows,
+      compliance,
+      pay
     });
   } catch (error) {
     console.error('Get employee hours error:', error);
@@ -1,6 +1,9 @@
 const express = require('express');
 const db = require('../config/database');
 const { authenticateToken, requireManager } = require('../middleware/auth');
+const { idempotency } = require('../middleware/idempotency');
+const sosService = require('../services/sosService');
+const pushService = require('../services/pushService');
 const { body, validationResult } = require('express-validator');
 const crypto = require('crypto');
 
@@ -95,6 +98,104 @@ router.get('/stats', async (req, res) => {
   }
 });
 
+// ===== SOS / Panic Button =====
+// MUST be before /:id routes
+
+router.get('/sos/settings', requireManager, async (req, res) => {
+  try {
+    res.json(await sosService.getSettings());
+  } catch (error) {
+    console.error('Get SOS settings error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת הגדרות כוננות' });
+  }
+});
+
+router.put('/sos/settings', requireManager, async (req, res) => {
+  try {
+    const result = await sosService.setSettings(req.body);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ ...result, message: 'רשימת הכוננות עודכנה' });
+  } catch (error) {
+    console.error('Update SOS settings error:', error);
+    res.status(500).json({ error: 'שגיאה בעדכון הגדרות כוננות' });
+  }
+});
+
+// Open alerts for the managers' blocking banner and the tracking map
+router.get('/sos/active', requireManager, async (req, res) => {
+  try {
+    res.json({ alerts: await sosService.listOpen() });
+  } catch (error) {
+    console.error('Get SOS alerts error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת קריאות מצוקה' });
+  }
+});
+
+// The guard's own alert, polled by the Guard Panel to show the acknowledgement
+router.get('/sos/mine', async (req, res) => {
+  try {
+    res.json({ alert: await sosService.getMine(req.user.id) });
+  } catch (error) {
+    console.error('Get my SOS alert error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת קריאת המצוקה' });
+  }
+});
+
+router.post('/sos', idempotency, async (req, res) => {
+  try {
+    const result = await sosService.trigger(req.user, req.body || {});
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.status(201).json({ ...result, message: 'קריאת המצוקה נשלחה למנהלים' });
+  } catch (error) {
+    console.error('Trigger SOS error:', error);
+    res.status(500).json({ error: 'שגיאה בשליחת קריאת מצוקה' });
+  }
+});
+
+router.post('/sos/:alertId/location', async (req, res) => {
+  try {
+    const result = await sosService.updateLocation(req.params.alertId, req.user, req.body || {});
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('SOS location error:', error);
+    res.status(500).json({ error: 'שגיאה בעדכון מיקום' });
+  }
+});
+
+router.post('/sos/:alertId/acknowledge', requireManager, async (req, res) => {
+  try {
+    const result = await sosService.acknowledge(req.params.alertId, req.user, req.body?.message);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ ...result, message: 'המאבטח עודכן שעזרה בדרך' });
+  } catch (error) {
+    console.error('Acknowledge SOS error:', error);
+    res.status(500).json({ error: 'שגיאה באישור קריאת המצוקה' });
+  }
+});
+
+// Managers close handled alerts; the guard may cancel their own (false alarm)
+router.post('/sos/:alertId/resolve', async (req, res) => {
+  try {
+    const result = await sosService.resolve(req.params.alertId, req.user, req.body?.resolution);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ ...result, message: 'קריאת המצוקה נסגרה' });
+  } catch (error) {
+    console.error('Resolve SOS error:', error);
+    res.status(500).json({ error: 'שגיאה בסגירת קריאת המצוקה' });
+  }
+});
+
 // Get single incident with updates
 router.get('/:id', async (req, res) => {
   try {
@@ -133,7 +234,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create incident
-router.post('/', incidentValidation, async (req, res) => {
+router.post('/', idempotency, incidentValidation, async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -179,6 +280,14 @@ router.post('/', incidentValidation, async (req, res) => {
             `${description?.substring(0, 100) || ''}${description?.length > 100 ? '...' : ''}`,
             id]);
       }
+      if (severity === 'critical') {
+        pushService.sendToManagers('critical_alerts', {
+          title: `אירוע אבטחה קריטי: ${title}`,
+          body: description?.substring(0, 100) || '',
+          url: '/incidents',
+          tag: `incident-${id}`,
+        }).catch(err => console.error('[Incident] Push alert failed:', err.message));
+      }
     }
 
     res.status(201).json({ incident });
@@ -1,11 +1,24 @@
 const express = require('express');
 const db = require('../config/database');
-const { authenticateToken, requireAdmin } = require('../middleware/auth');
+const { authenticateToken, requireAdmin, requireManager } = require('../middleware/auth');
+const { idempotency, recordedAt } = require('../middleware/idempotency');
 const crypto = require('crypto');
 
 const router = express.Router();
 router.use(authenticateToken);
 
+// Text encoded in a checkpoint's QR label: prefix + the checkpoint's secret code
+const QR_PREFIX = 'yahalom:checkpoint:';
+
+const newCheckpointCode = () => crypto.randomBytes(16).toString('hex');
+
+// Guards never see the codes - the only way to log a visit is to scan the label on site
+const withoutCode = (user) => (checkpoint) => {
+  if (user.role !== 'employee') return checkpoint;
+  const { qr_code, ...rest } = checkpoint;
+  return rest;
+};
+
 // Get checkpoints for a site
 router.get('/sites/:siteId/checkpoints', async (req, res) => {
   try {
@@ -14,13 +27,38 @@ router.get('/sites/:siteId/checkpoints', async (req, res) => {
       WHERE site_id = ? AND is_active = 1
       ORDER BY sort_order, name
     `, [req.params.siteId]);
-    res.json({ checkpoints: result.rows });
+    res.json({ checkpoints: result.rows.map(withoutCode(req.user)) });
   } catch (error) {
     console.error('Get checkpoints error:', error);
     res.status(500).json({ error: 'שגיאה בטעינת נקודות ביקורת' });
   }
 });
 
+// QR label contents for a site's checkpoints; checkpoints created before labels existed get a code now
+router.get('/sites/:siteId/checkpoints/labels', requireAdmin, async (req, res) => {
+  try {
+    const missing = await db.query(
+      'SELECT id FROM site_checkpoints WHERE site_id = ? AND qr_code IS NULL',
+      [req.params.siteId]
+    );
+    for (const row of missing.rows) {
+      await db.query('UPDATE site_checkpoints SET qr_code = ? WHERE id = ?', [newCheckpointCode(), row.id]);
+    }
+
+    const result = await db.query(`
+      SELECT id, name, description, location_notes, qr_code FROM site_checkpoints
+      WHERE site_id = ? AND is_active = 1
+      ORDER BY sort_order, name
+    `, [req.params.siteId]);
+    res.json({
+      labels: result.rows.map(({ qr_code, ...checkpoint }) => ({ ...checkpoint, qr_payload: QR_PREFIX + qr_code })),
+    });
+  } catch (error) {
+    console.error('Get checkpoint labels error:', error);
+    res.status(500).json({ error: 'שגיאה בהפקת תוויות QR' });
+  }
+});
+
 // Create checkpoint
 router.post('/sites/:siteId/checkpoints', requireAdmin, async (req, res) => {
   try {
@@ -28,9 +66,10 @@ router.post('/sites/:siteId/checkpoints', requireAdmin, async (req, res) => {
     const { name, description, location_notes, check_interval_minutes, sort_order } = req.body;
 
     await db.query(`
-      INSERT INTO site_checkpoints (id, site_id, name, description, location_notes, check_interval_minutes, sort_order)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [id, req.params.siteId, name, description || null, location_notes || null, check_interval_minutes || null, sort_order || 0]);
+      INSERT INTO site_checkpoints (id, site_id, name, description, location_notes, check_interval_minutes, sort_order, qr_code)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [id, req.params.siteId, name, description || null, location_notes || null, check_interval_minutes || null, sort_order || 0,
+        newCheckpointCode()]);
 
     const result = await db.query('SELECT * FROM site_checkpoints WHERE id = ?', [id]);
     res.status(201).json({ checkpoint: result.rows[0] });
@@ -60,6 +99,18 @@ router.put('/checkpoints/:id', requireAdmin, async (req, res) => {
   }
 });
 
+// Replace a checkpoint's code when its label was lost or copied; the old label stops working
+router.post('/checkpoints/:id/regenerate-code', requireAdmin, async (req, res) => {
+  try {
+    const result = await db.query('UPDATE site_checkpoints SET qr_code = ? WHERE id = ?', [newCheckpointCode(), req.params.id]);
+    if (!result.rowCount) return res.status(404).json({ error: 'נקודת ביקורת לא נמצאה' });
+    res.json({ message: 'הופק קוד חדש - יש להדפיס ולהחליף את התווית' });
+  } catch (error) {
+    console.error('Regenerate checkpoint code error:', error);
+    res.status(500).json({ error: 'שגיאה בהפקת קוד חדש' });
+  }
+});
+
 // Delete checkpoint
 router.delete('/checkpoints/:id', requireAdmin, async (req, res) => {
   try {
@@ -71,16 +122,17 @@ router.delete('/checkpoints/:id', requireAdmin, async (req, res) => {
   }
 });
 
-// Log a patrol checkpoint visit
-router.post('/log', async (req, res) => {
+// Manual patrol entry by a supervisor (guards log visits by scanning, below)
+router.post('/log', requireManager, idempotency, async (req, res) => {
   try {
     const id = crypto.randomUUID();
-    const { shift_assignment_id, employee_id, checkpoint_id, site_id, status, observation } = req.body;
+    const { shift_assignment_id, employee_id, checkpoint_id, site_id, status, observation, latitude, longitude } = req.body;
 
     await db.query(`
-      INSERT INTO patrol_logs (id, shift_assignment_id, employee_id, checkpoint_id, site_id, status, observation)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [id, shift_assignment_id || null, employee_id, checkpoint_id, site_id, status || 'ok', observation || null]);
+      INSERT INTO patrol_logs (id, shift_assignment_id, employee_id, checkpoint_id, site_id, status, observation, latitude, longitude, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')))
+    `, [id, shift_assignment_id || null, employee_id, checkpoint_id, site_id, status || 'ok', observation || null,
+        latitude ?? null, longitude ?? null, recordedAt(req.body.recorded_at)]);
 
     const result = await db.query('SELECT * FROM patrol_logs WHERE id = ?', [id]);
     res.status(201).json({ log: result.rows[0] });
@@ -90,6 +142,58 @@ router.post('/log', async (req, res) => {
   }
 });
 
+// Log a visit from a scanned checkpoint label; only counts at the site of the guard's own shift.
+// Scans queued offline are replayed with their original time and location.
+router.post('/scan', idempotency, async (req, res) => {
+  try {
+    const { code, shift_assignment_id, status, observation, latitude, longitude } = req.body;
+    if (typeof code !== 'string' || !code.startsWith(QR_PREFIX)) {
+      return res.status(400).json({ error: 'הקוד שנסרק אינו תווית נקודת ביקורת' });
+    }
+
+    const assignmentResult = await db.query(`
+      SELECT sa.id, sa.employee_id, sa.status, s.site_id
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON sa.employee_id = e.id
+      WHERE sa.id = ? AND e.user_id = ?
+    `, [shift_assignment_id, req.user.id]);
+    const assignment = assignmentResult.rows[0];
+    if (!assignment) {
+      return res.status(404).json({ error: 'המשמרת לא נמצאה' });
+    }
+    if (assignment.status !== 'checked_in') {
+      return res.status(400).json({ error: 'יש לבצע צ\'ק-אין לפני סריקת נקודות ביקורת' });
+    }
+
+    const checkpointResult = await db.query(
+      'SELECT id, site_id, name FROM site_checkpoints WHERE qr_code = ? AND is_active = 1',
+      [code.slice(QR_PREFIX.length)]
+    );
+    const checkpoint = checkpointResult.rows[0];
+    if (!checkpoint) {
+      return res.status(404).json({ error: 'תווית לא מזוהה - ייתכן שהוחלפה' });
+    }
+    if (checkpoint.site_id !== assignment.site_id) {
+      return res.status(400).json({ error: 'נקודת הביקורת שייכת לאתר אחר' });
+    }
+
+    const id = crypto.randomUUID();
+    await db.query(`
+      INSERT INTO patrol_logs (id, shift_assignment_id, employee_id, checkpoint_id, site_id, status, observation, latitude, longitude, method, checked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'qr', COALESCE(?, datetime('now')))
+    `, [id, assignment.id, assignment.employee_id, checkpoint.id, checkpoint.site_id,
+        status === 'issue_found' ? 'issue_found' : 'ok', observation || null,
+        latitude ?? null, longitude ?? null, recordedAt(req.body.recorded_at)]);
+
+    const result = await db.query('SELECT * FROM patrol_logs WHERE id = ?', [id]);
+    res.status(201).json({ log: { ...result.rows[0], checkpoint_name: checkpoint.name } });
+  } catch (error) {
+    console.error('Scan checkpoint error:', error);
+    res.status(500).json({ error: 'שגיאה ברישום סריקה' });
+  }
+});
+
 // Get patrol logs for a shift assignment
 router.get('/shift/:assignmentId', async (req, res) => {
   try {
@@ -129,7 +233,7 @@ router.get('/site/:siteId/today', async (req, res) => {
 
     res.json({
       logs: logs.rows,
-      checkpoints: checkpoints.rows,
+      checkpoints: checkpoints.rows.map(withoutCode(req.user)),
       total_checkpoints: checkpoints.rows.length,
       visited_today: new Set(logs.rows.map(l => l.checkpoint_id)).size
     });
@@ -0,0 +1,149 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const pushService = require('../services/pushService');
+const pushStandIn = require('../services/pushStandIn');
+
+const router = express.Router();
+
+const { standInEnabled } = pushService;
+
+// Stand-in push service receiver - public like a real push service, the
+// random device id in the URL is the credential
+router.post('/stand-in/:deviceId', express.raw({ type: '*/*', limit: '8kb' }), (req, res) => {
+  if (!standInEnabled) {
+    return res.status(404).json({ error: 'לא נמצא' });
+  }
+  const status = pushStandIn.receive(req.params.deviceId, req.body, req.headers);
+  res.status(status).end();
+});
+
+router.use(authenticateToken);
+
+// ===== Subscriptions =====
+
+router.get('/vapid-public-key', async (req, res) => {
+  try {
+    res.json({ publicKey: await pushService.getPublicKey() });
+  } catch (error) {
+    console.error('Get VAPID key error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת מפתח ההתראות' });
+  }
+});
+
+// This user's devices and category switches
+router.get('/settings', async (req, res) => {
+  try {
+    const [devices, preferences] = await Promise.all([
+      pushService.listDevices(req.user.id),
+      pushService.getPreferences(req.user.id),
+    ]);
+    const categories = Object.entries(pushService.CATEGORIES).map(([key, { label }]) => ({ key, label }));
+    res.json({ devices, preferences, categories });
+  } catch (error) {
+    console.error('Get push settings error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת הגדרות ההתראות' });
+  }
+});
+
+router.put('/preferences', async (req, res) => {
+  try {
+    const preferences = await pushService.setPreferences(req.user.id, req.body);
+    res.json({ preferences, message: 'הגדרות ההתראות נשמרו' });
+  } catch (error) {
+    console.error('Update push preferences error:', error);
+    res.status(500).json({ error: 'שגיאה בשמירת הגדרות ההתראות' });
+  }
+});
+
+// Register this browser; body is the PushSubscription as serialized by the browser
+router.post('/subscriptions', async (req, res) => {
+  try {
+    const result = await pushService.subscribe(req.user.id, req.body, req.get('user-agent'));
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.status(201).json({ subscription: result.subscription, message: 'התראות הופעלו במכשיר זה' });
+  } catch (error) {
+    console.error('Push subscribe error:', error);
+    res.status(500).json({ error: 'שגיאה בהפעלת התראות' });
+  }
+});
+
+router.delete('/subscriptions', async (req, res) => {
+  try {
+    const { endpoint } = req.body || {};
+    if (typeof endpoint !== 'string') {
+      return res.status(400).json({ error: 'חסר מזהה מכשיר' });
+    }
+    await pushService.unsubscribe(req.user.id, endpoint);
+    res.json({ message: 'התראות בוטלו במכשיר זה' });
+  } catch (error) {
+    console.error('Push unsubscribe error:', error);
+    res.status(500).json({ error: 'שגיאה בביטול התראות' });
+  }
+});
+
+// Send a test message to all of this user's devices
+router.post('/test', async (req, res) => {
+  try {
+    const devices = await pushService.listDevices(req.user.id);
+    if (devices.length === 0) {
+      return res.status(400).json({ error: 'לא הופעלו התראות באף מכשיר' });
+    }
+    const delivered = await pushService.sendToUser(req.user.id, 'critical_alerts', {
+      title: 'התראת בדיקה',
+      body: 'ההתראות פועלות במכשיר זה',
+      url: '/profile',
+      tag: 'push-test',
+    });
+    if (delivered === 0) {
+      return res.status(502).json({ error: 'ההתראה לא נמסרה - ייתכן שהמנוי פג, יש להפעיל מחדש' });
+    }
+    res.json({ delivered, message: `התראת בדיקה נשלחה ל-${delivered} מכשירים` });
+  } catch (error) {
+    console.error('Push test error:', error);
+    res.status(500).json({ error: 'שגיאה בשליחת התראת בדיקה' });
+  }
+});
+
+// ===== Stand-in devices (testing) =====
+
+router.use('/stand-in', (req, res, next) => {
+  if (!standInEnabled) {
+    return res.status(404).json({ error: 'לא נמצא' });
+  }
+  next();
+});
+
+// Subscribe a stand-in device for this user, delivered back to this server
+router.post('/stand-in', async (req, res) => {
+  try {
+    const result = await pushStandIn.createDevice(req.user.id, pushService.standInBaseUrl);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.status(201).json({ device: result.device, message: 'נוצר מכשיר בדיקה' });
+  } catch (error) {
+    console.error('Create push stand-in error:', error);
+    res.status(500).json({ error: 'שגיאה ביצירת מכשיר בדיקה' });
+  }
+});
+
+// Messages the stand-in device received, decrypted
+router.get('/stand-in/:deviceId', (req, res) => {
+  const device = pushStandIn.getDevice(req.user.id, req.params.deviceId);
+  if (!device) {
+    return res.status(404).json({ error: 'מכשיר בדיקה לא נמצא' });
+  }
+  res.json({ device });
+});
+
+// Simulate a browser that unsubscribed: further pushes get 410 Gone
+router.delete('/stand-in/:deviceId', (req, res) => {
+  if (!pushStandIn.expireDevice(req.user.id, req.params.deviceId)) {
+    return res.status(404).json({ error: 'מכשיר בדיקה לא נמצא' });
+  }
+  res.json({ message: 'מכשיר הבדיקה סומן כמנותק' });
+});
+
+module.exports = router;
@@ -455,9 +455,14 @@ router.get('/profit-loss', async (req, res) => {
     const totalProfit = totalRevenue - totalCost;
     const totalMargin = totalRevenue > 0 ? Math.round((totalProfit / totalRevenue) * 100) : 0;
 
+    // Projected cost vs contract revenue of the scheduled roster (same model as the Shifts page)
+    const laborCostService = require('../services/laborCostService');
+    const projection = await laborCostService.projectYear(targetYear);
+
     res.json({
       monthly: monthlyPL,
       customerProfitability,
+      projection,
       totals: {
         revenue: totalRevenue,
         labor_cost: totalLaborCost,
@@ -2,10 +2,20 @@ const express = require('express');
 const db = require('../config/database');
 const { authenticateToken, requireAdmin } = require('../middleware/auth');
 const crypto = require('crypto');
+const autoShiftGenerator = require('../services/autoShiftGenerator');
+const shiftBatchService = require('../services/shiftBatchService');
+const readinessService = require('../services/readinessService');
 
 const router = express.Router();
 router.use(authenticateToken);
 
+// Validate an optional rotation: undefined/null = fixed weekly template
+const resolveRotation = (rotation) => {
+  if (!rotation) return { value: null };
+  const normalized = autoShiftGenerator.normalizeRotation(rotation);
+  return normalized ? { value: normalized } : { error: 'הגדרת סבב לא תקינה' };
+};
+
 // Get all templates
 router.get('/', async (req, res) => {
   try {
@@ -54,10 +64,15 @@ router.post('/', requireAdmin, async (req, res) => {
     const id = crypto.randomUUID();
     const { name, customer_id, site_id, start_time, end_time, required_employees, requires_weapon, requires_vehicle, days_of_week, shift_type, default_notes, preferred_employees } = req.body;
 
+    const rotation = resolveRotation(req.body.rotation);
+    if (rotation.error) {
+      return res.status(400).json({ error: rotation.error });
+    }
+
     await db.query(`
-      INSERT INTO shift_templates (id, name, customer_id, site_id, start_time, end_time, required_employees, requires_weapon, requires_vehicle, days_of_week, shift_type, default_notes, preferred_employees)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `, [id, name, customer_id || null, site_id || null, start_time, end_time, required_employees || 1, requires_weapon ? 1 : 0, requires_vehicle ? 1 : 0, JSON.stringify(days_of_week || []), shift_type || 'regular', default_notes || null, JSON.stringify(preferred_employees || [])]);
+      INSERT INTO shift_templates (id, name, customer_id, site_id, start_time, end_time, required_employees, requires_weapon, requires_vehicle, days_of_week, shift_type, default_notes, preferred_employees, rotation)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [id, name, customer_id || null, site_id || null, start_time, end_time, required_employees || 1, requires_weapon ? 1 : 0, requires_vehicle ? 1 : 0, JSON.stringify(days_of_week || []), shift_type || 'regular', default_notes || null, JSON.stringify(preferred_employees || []), rotation.value ? JSON.stringify(rotation.value) : null]);
 
     const result = await db.query(`
       SELECT st.*, c.company_name, s.name as site_name
@@ -78,14 +93,20 @@ router.put('/:id', requireAdmin, async (req, res) => {
   try {
     const { name, customer_id, site_id, start_time, end_time, required_employees, requires_weapon, requires_vehicle, days_of_week, shift_type, default_notes, preferred_employees, is_active, auto_generate } = req.body;
 
+    const rotation = resolveRotation(req.body.rotation);
+    if (rotation.error) {
+      return res.status(400).json({ error: rotation.error });
+    }
+
     await db.query(`
       UPDATE shift_templates SET
         name = ?, customer_id = ?, site_id = ?, start_time = ?, end_time = ?,
         required_employees = ?, requires_weapon = ?, requires_vehicle = ?,
         days_of_week = ?, shift_type = ?, default_notes = ?,
-        preferred_employees = ?, is_active = ?, auto_generate = ?, updated_at = datetime('now')
+        preferred_employees = COALESCE(?, preferred_employees), is_active = ?,
+        auto_generate = COALESCE(?, auto_generate), rotation = ?, updated_at = datetime('now')
       WHERE id = ?
-    `, [name, customer_id, site_id, start_time, end_time, required_employees, requires_weapon ? 1 : 0, requires_vehicle ? 1 : 0, JSON.stringify(days_of_week || []), shift_type, default_notes, JSON.stringify(preferred_employees || []), is_active !== undefined ? (is_active ? 1 : 0) : 1, auto_generate ? 1 : 0, req.params.id]);
+    `, [name, customer_id, site_id, start_time, end_time, required_employees, requires_weapon ? 1 : 0, requires_vehicle ? 1 : 0, JSON.stringify(days_of_week || []), shift_type, default_notes, preferred_employees !== undefined ? JSON.stringify(preferred_employees || []) : null, is_active !== undefined ? (is_active ? 1 : 0) : 1, auto_generate !== undefined ? (auto_generate ? 1 : 0) : null, rotation.value ? JSON.stringify(rotation.value) : null, req.params.id]);
 
     const result = await db.query(`
       SELECT st.*, c.company_name, s.name as site_name
@@ -112,6 +133,27 @@ router.post('/:id/generate', requireAdmin, async (req, res) => {
     }
 
     const tmpl = template.rows[0];
+
+    // Rotation templates produce shifts and crew assignments for the cycle
+    if (tmpl.rotation) {
+      if (!start_date || !end_date || end_date < start_date) {
+        return res.status(400).json({ error: 'נדרש טווח תאריכים תקין' });
+      }
+      const result = await autoShiftGenerator.generateRotation(tmpl, start_date, end_date, { createdBy: req.user.id });
+      const batch = await shiftBatchService.record('generate_from_template', {
+        description: `יצירה מסבב "${tmpl.name}" ${start_date} - ${end_date} (${result.created} משמרות, ${result.assigned} שיבוצים)`,
+        userId: req.user.id,
+        createdShiftIds: result.shifts.map(s => s.id),
+        createdAssignmentIds: result.assignment_ids,
+      });
+      return res.json({
+        message: `נוצרו ${result.created} משמרות ו-${result.assigned} שיבוצים מסבב`
+          + (result.rejected.length > 0 ? ` (${result.rejected.length} שיבוצים נדחו בשל כללי שיבוץ)` : ''),
+        ...result,
+        ...batch
+      });
+    }
+
     const daysOfWeek = JSON.parse(tmpl.days_of_week || '[]');
     const createdShifts = [];
 
@@ -134,18 +176,25 @@ router.post('/:id/generate', requireAdmin, async (req, res) => {
         if (existing.rows.length === 0) {
           const shiftId = crypto.randomUUID();
           await db.query(`
-            INSERT INTO shifts (id, site_id, customer_id, date, start_time, end_time, required_employees, requires_weapon, requires_vehicle, notes)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-          `, [shiftId, tmpl.site_id, tmpl.customer_id, dateStr, tmpl.start_time, tmpl.end_time, tmpl.required_employees, tmpl.requires_weapon, tmpl.requires_vehicle, tmpl.default_notes]);
+            INSERT INTO shifts (id, site_id, customer_id, date, start_time, end_time, required_employees, requires_weapon, requires_vehicle, notes, template_id, created_by)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [shiftId, tmpl.site_id, tmpl.customer_id, dateStr, tmpl.start_time, tmpl.end_time, tmpl.required_employees, tmpl.requires_weapon, tmpl.requires_vehicle, tmpl.default_notes, tmpl.id, req.user.id]);
 
           createdShifts.push({ id: shiftId, date: dateStr });
         }
       }
     }
 
+    const batch = await shiftBatchService.record('generate_from_template', {
+      description: `יצירה מתבנית "${tmpl.name}" ${start_date} - ${end_date} (${createdShifts.length} משמרות)`,
+      userId: req.user.id,
+      createdShiftIds: createdShifts.map(s => s.id),
+    });
+
     res.json({
       message: `נוצרו ${createdShifts.length} משמרות מתבנית`,
-      shifts: createdShifts
+      shifts: createdShifts,
+      ...batch
     });
   } catch (error) {
     console.error('Generate shifts error:', error);
@@ -181,6 +230,33 @@ router.patch('/:id/auto-generate', requireAdmin, async (req, res) => {
   }
 });
 
+// Pre-shift readiness checklist; overrides the site's for shifts generated from the template
+router.get('/:id/readiness-checklist', async (req, res) => {
+  try {
+    res.json({ checklist: await readinessService.getChecklist({ templateId: req.params.id }) });
+  } catch (error) {
+    console.error('Get template readiness checklist error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת רשימת הכשירות' });
+  }
+});
+
+router.put('/:id/readiness-checklist', requireAdmin, async (req, res) => {
+  try {
+    const template = await db.query('SELECT id FROM shift_templates WHERE id = ?', [req.params.id]);
+    if (template.rows.length === 0) {
+      return res.status(404).json({ error: 'תבנית לא נמצאה' });
+    }
+    const result = await readinessService.saveChecklist({ templateId: req.params.id }, req.body, req.user.id);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ checklist: result.checklist, message: 'רשימת הכשירות נשמרה' });
+  } catch (error) {
+    console.error('Save template readiness checklist error:', error);
+    res.status(500).json({ error: 'שגיאה בשמירת רשימת הכשירות' });
+  }
+});
+
 // Delete template
 router.delete('/:id', requireAdmin, async (req, res) => {
   try {
@@ -2,11 +2,32 @@ const express = require('express');
 const { body, validationResult } = require('express-validator');
 const db = require('../config/database');
 const { authenticateToken, requireManager } = require('../middleware/auth');
+const { idempotency, recordedAt } = require('../middleware/idempotency');
 const whatsappHelper = require('../utils/whatsappHelper');
+const assignmentValidator = require('../services/assignmentValidator');
+const shiftBatchService = require('../services/shiftBatchService');
+const shiftHandoverService = require('../services/shiftHandoverService');
+const shiftBidService = require('../services/shiftBidService');
+const rosterSolver = require('../services/rosterSolver');
+const laborCostService = require('../services/laborCostService');
+const geofenceService = require('../services/geofenceService');
+const noShowService = require('../services/noShowService');
+const pushService = require('../services/pushService');
+const postOrderService = require('../services/postOrderService');
+const readinessService = require('../services/readinessService');
+const routeReplayService = require('../services/routeReplayService');
+const workHoursCompliance = require('../services/workHoursCompliance');
 
 const toNull = (v) => v === undefined ? null : v;
 const toBool = (v) => v === undefined ? null : (v ? 1 : 0);
 
+// GPS fixes less accurate than this are dropped from guard tracks
+const MAX_LOCATION_ACCURACY_METERS = 100;
+// Upper bound on points in one bulk location upload
+const MAX_LOCATION_BATCH = 500;
+// Roles that may punch in or out on a guard's behalf (as requireManager)
+const MANAGER_ROLES = ['admin', 'manager'];
+
 const router = express.Router();
 router.use(authenticateToken);
 
@@ -182,8 +203,9 @@ router.get('/guard-location-history/:assignmentId', requireManager, async (req,
       SELECT latitude, longitude, accuracy, recorded_at
       FROM guard_locations
       WHERE shift_assignment_id = $1
+      AND (accuracy IS NULL OR accuracy <= $2)
       ORDER BY recorded_at ASC
-    `, [req.params.assignmentId]);
+    `, [req.params.assignmentId, MAX_LOCATION_ACCURACY_METERS]);
 
     res.json(result.rows);
   } catch (error) {
@@ -192,6 +214,36 @@ router.get('/guard-location-history/:assignmentId', requireManager, async (req,
   }
 });
 
+// Checked-in assignments of a day, to pick a shift for route replay
+// MUST be before /:id route
+router.get('/replay-assignments', requireManager, async (req, res) => {
+  try {
+    const date = req.query.date;
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ error: 'תאריך לא תקין' });
+    }
+    res.json({ assignments: await routeReplayService.listAssignments(date) });
+  } catch (error) {
+    console.error('Replay assignments error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת משמרות' });
+  }
+});
+
+// Route replay of an assignment: GPS track, checkpoint scans and stops
+// MUST be before /:id route
+router.get('/replay/:assignmentId', requireManager, async (req, res) => {
+  try {
+    const replay = await routeReplayService.getReplay(req.params.assignmentId);
+    if (!replay) {
+      return res.status(404).json({ error: 'שיבוץ לא נמצא' });
+    }
+    res.json(replay);
+  } catch (error) {
+    console.error('Route replay error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת מסלול השומר' });
+  }
+});
+
 // Get my active assignment for today (for guard panel)
 // MUST be before /:id route
 router.get('/my-active-assignment', async (req, res) => {
@@ -207,8 +259,12 @@ router.get('/my-active-assignment', async (req, res) => {
     const employeeId = empResult.rows[0].id;
 
     const result = await db.query(`
-      SELECT sa.id as assignment_id, sa.shift_id, sa.status, sa.check_in_time, sa.check_out_time,
-             s.date, s.start_time, s.end_time,
+      SELECT sa.id as assignment_id, sa.shift_id, sa.employee_id, sa.status, sa.check_in_time, sa.check_out_time,
+             sa.check_in_zone,
+             (SELECT g.status FROM geofence_exceptions g
+              WHERE g.assignment_id = sa.id AND g.punch_type = 'check_in'
+              ORDER BY g.created_at DESC LIMIT 1) as check_in_approval,
+             s.date, s.start_time, s.end_time, s.site_id, s.customer_id, s.template_id,
              si.name as site_name, si.address as site_address,
              c.company_name as customer_name
       FROM shift_assignments sa
@@ -217,18 +273,68 @@ router.get('/my-active-assignment', async (req, res) => {
       LEFT JOIN customers c ON s.customer_id = c.id
       WHERE sa.employee_id = $1
       AND s.date = date('now', 'localtime')
-      AND sa.status IN ('assigned', 'checked_in')
+      AND sa.status IN ('assigned', 'no_show', 'checked_in')
       ORDER BY s.start_time ASC
       LIMIT 1
     `, [employeeId]);
 
-    res.json({ assignment: result.rows[0] || null });
+    const assignment = result.rows[0] || null;
+
+    // Once checked in, show what the previous guard at the site handed over
+    const handover = assignment?.status === 'checked_in'
+      ? await shiftHandoverService.getForIncoming(assignment)
+      : null;
+
+    // Site post orders, to acknowledge before checking in when revised
+    const post_order = assignment ? await postOrderService.getForAssignment(assignment) : null;
+
+    // Readiness checklist to go through before the check-in
+    const readiness = assignment && assignment.status !== 'checked_in'
+      ? await readinessService.getForAssignment(assignment)
+      : null;
+
+    res.json({ assignment, handover, post_order, readiness });
   } catch (error) {
     console.error('My active assignment error:', error);
     res.status(500).json({ error: 'שגיאה בשליפת המשמרת הפעילה' });
   }
 });
 
+// Get current user's upcoming assigned shifts (next 30 days)
+// MUST be before /:id route
+router.get('/my-upcoming', async (req, res) => {
+  try {
+    const empResult = await db.query(
+      'SELECT id FROM employees WHERE user_id = $1',
+      [req.user.id]
+    );
+    if (empResult.rows.length === 0) {
+      return res.json({ shifts: [] });
+    }
+    const employeeId = empResult.rows[0].id;
+
+    const result = await db.query(`
+      SELECT sa.id as assignment_id, sa.shift_id, sa.status, sa.role,
+             s.date, s.start_time, s.end_time, s.requires_weapon,
+             si.name as site_name, c.company_name
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      WHERE sa.employee_id = $1
+      AND s.date >= date('now', 'localtime') AND s.date <= date('now', 'localtime', '+30 days')
+      AND sa.status = 'assigned'
+      AND s.status NOT IN ('cancelled', 'completed')
+      ORDER BY s.date, s.start_time
+    `, [employeeId]);
+
+    res.json({ shifts: result.rows });
+  } catch (error) {
+    console.error('My upcoming shifts error:', error);
+    res.status(500).json({ error: 'שגיאה בשליפת המשמרות הקרובות' });
+  }
+});
+
 // Get open shifts (understaffed future shifts for self-assignment)
 // MUST be before /:id route
 router.get('/open', async (req, res) => {
@@ -272,7 +378,14 @@ router.get('/open', async (req, res) => {
       shifts = shifts.filter(s => !myShiftIds.has(s.shift_id));
     }
 
-    res.json({ shifts });
+    // In bidding mode guards see where they already raised a hand
+    const { mode } = await shiftBidService.getSettings();
+    if (mode === 'bidding' && employeeId) {
+      const myBids = await shiftBidService.getMyBids(employeeId);
+      shifts = shifts.map(s => ({ ...s, my_bid_status: myBids[s.shift_id] || null }));
+    }
+
+    res.json({ shifts, mode });
   } catch (error) {
     console.error('Open shifts error:', error);
     res.status(500).json({ error: 'שגיאה בשליפת משמרות פתוחות' });
@@ -306,6 +419,83 @@ router.get('/suggestions/guards', requireManager, async (req, res) => {
   }
 });
 
+// Pre-assignment validation for one or more candidate employees (MUST be before /:id route)
+router.post('/assignment-check', requireManager, async (req, res) => {
+  try {
+    const { shift_id, date, start_time, end_time, requires_weapon, site_id, employee_ids } = req.body;
+
+    if (!Array.isArray(employee_ids) || employee_ids.length === 0) {
+      return res.status(400).json({ error: 'נדרשים עובדים לבדיקה' });
+    }
+
+    let shift;
+    if (shift_id) {
+      shift = await assignmentValidator.loadShift(shift_id);
+      if (!shift) {
+        return res.status(404).json({ error: 'משמרת לא נמצאה' });
+      }
+    } else {
+      if (!date || !start_time || !end_time) {
+        return res.status(400).json({ error: 'נדרש תאריך, שעת התחלה ושעת סיום' });
+      }
+      let requiredCertifications = null;
+      if (site_id) {
+        const siteResult = await db.query('SELECT required_certifications FROM sites WHERE id = $1', [site_id]);
+        requiredCertifications = siteResult.rows[0]?.required_certifications || null;
+      }
+      shift = {
+        date,
+        start_time,
+        end_time,
+        requires_weapon: requires_weapon === true || requires_weapon === 'true' || requires_weapon === 1,
+        site_id: site_id || null,
+        required_certifications: requiredCertifications
+      };
+    }
+
+    const results = await assignmentValidator.validateMany(shift, employee_ids.slice(0, 50));
+    res.json({ results });
+  } catch (error) {
+    console.error('Assignment check error:', error);
+    res.status(500).json({ error: 'שגיאה בבדיקת השיבוץ' });
+  }
+});
+
+// Auto-fill proposal for a whole week (MUST be before /:id route)
+router.get('/auto-fill/proposal', requireManager, async (req, res) => {
+  try {
+    const { week_start } = req.query;
+    if (!week_start) {
+      return res.status(400).json({ error: 'נדרש תאריך תחילת שבוע' });
+    }
+
+    const result = await rosterSolver.proposeWeek(week_start);
+    res.json(result);
+  } catch (error) {
+    console.error('Auto-fill proposal error:', error);
+    res.status(500).json({ error: 'שגיאה בחישוב שיבוץ אוטומטי' });
+  }
+});
+
+// Labor cost vs contract revenue for a date range (MUST be before /:id route)
+router.get('/cost-projection', requireManager, async (req, res) => {
+  try {
+    const { start_date, end_date } = req.query;
+    if (!start_date || !end_date) {
+      return res.status(400).json({ error: 'נדרשים תאריך התחלה וסיום' });
+    }
+    if (end_date < start_date) {
+      return res.status(400).json({ error: 'תאריך הסיום לפני תאריך ההתחלה' });
+    }
+
+    const projection = await laborCostService.projectRange(start_date, end_date);
+    res.json(projection);
+  } catch (error) {
+    console.error('Cost projection error:', error);
+    res.status(500).json({ error: 'שגיאה בחישוב עלות המשמרות' });
+  }
+});
+
 // Self-assign to a shift
 router.post('/:shiftId/self-assign', async (req, res) => {
   try {
@@ -321,9 +511,15 @@ router.post('/:shiftId/self-assign', async (req, res) => {
     }
     const employee = empResult.rows[0];
 
+    // In bidding mode the shift stays open until a manager approves a bid
+    const { mode } = await shiftBidService.getSettings();
+    if (mode === 'bidding') {
+      return res.status(409).json({ error: 'המשמרות הפתוחות במצב הגשת מועמדות - יש להגיש בקשה', mode });
+    }
+
     // Check shift exists and is in the future
     const shiftResult = await db.query(
-      `SELECT s.*, si.name as site_name FROM shifts s LEFT JOIN sites si ON s.site_id = si.id WHERE s.id = $1`,
+      `SELECT s.*, si.name as site_name, si.required_certifications FROM shifts s LEFT JOIN sites si ON s.site_id = si.id WHERE s.id = $1`,
       [shiftId]
     );
     if (shiftResult.rows.length === 0) {
@@ -344,6 +540,13 @@ router.post('/:shiftId/self-assign', async (req, res) => {
       return res.status(400).json({ error: 'כבר משובץ למשמרת זו' });
     }
 
+    // Guards can't override compliance issues; only a manager can
+    const issues = await assignmentValidator.validate(shift, employee.id);
+    const blocking = issues.find(i => i.severity === 'error');
+    if (blocking) {
+      return res.status(400).json({ error: blocking.message, issues });
+    }
+
     // Check available slots
     const assignedCount = await db.query(
       `SELECT COUNT(*) as cnt FROM shift_assignments WHERE shift_id = $1 AND status != 'cancelled'`,
@@ -375,6 +578,124 @@ router.post('/:shiftId/self-assign', async (req, res) => {
   }
 });
 
+// ===== Open Shift Bidding =====
+
+// Open-shift mode and ranking weights (MUST be before /:id route)
+router.get('/bidding/settings', async (req, res) => {
+  try {
+    res.json(await shiftBidService.getSettings());
+  } catch (error) {
+    console.error('Get bidding settings error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת הגדרות משמרות פתוחות' });
+  }
+});
+
+router.put('/bidding/settings', requireManager, async (req, res) => {
+  try {
+    const result = await shiftBidService.setSettings({ mode: req.body.mode, weights: req.body.weights });
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ ...result, message: 'הגדרות משמרות פתוחות עודכנו' });
+  } catch (error) {
+    console.error('Update bidding settings error:', error);
+    res.status(500).json({ error: 'שגיאה בעדכון הגדרות משמרות פתוחות' });
+  }
+});
+
+// Pending bids grouped per shift, ranked by the configured rules
+router.get('/bids', requireManager, async (req, res) => {
+  try {
+    res.json(await shiftBidService.getRankedBids());
+  } catch (error) {
+    console.error('Get shift bids error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת בקשות למשמרות' });
+  }
+});
+
+// Approve winning bids in bulk; bidders left on filled shifts are notified
+router.post('/bids/approve', requireManager, async (req, res) => {
+  try {
+    const { bid_ids, note } = req.body;
+    if (!Array.isArray(bid_ids) || bid_ids.length === 0) {
+      return res.status(400).json({ error: 'נדרשים מזהי בקשות' });
+    }
+    const resolutionNote = typeof note === 'string' ? note.trim() : '';
+    const result = await shiftBidService.approve(bid_ids, req.user.id, { note: resolutionNote });
+
+    if (result.approved.length > 0) {
+      await db.query(`
+        INSERT INTO activity_log (id, user_id, entity_type, entity_id, action, changes)
+        VALUES (?, ?, 'shift_bid', NULL, 'bids_approved', ?)
+      `, [db.generateUUID(), req.user.id, JSON.stringify({
+        approved: result.approved.map(a => ({ shift_id: a.shift_id, assignment_id: a.assignment_id })),
+        rejected: result.rejected,
+        note: resolutionNote || null
+      })]);
+    }
+
+    res.json({
+      ...result,
+      message: `${result.approved.length} בקשות אושרו${result.failed.length ? `, ${result.failed.length} נכשלו` : ''}`
+    });
+  } catch (error) {
+    console.error('Approve shift bids error:', error);
+    res.status(500).json({ error: 'שגיאה באישור בקשות' });
+  }
+});
+
+router.post('/bids/reject', requireManager, async (req, res) => {
+  try {
+    const { bid_ids } = req.body;
+    if (!Array.isArray(bid_ids) || bid_ids.length === 0) {
+      return res.status(400).json({ error: 'נדרשים מזהי בקשות' });
+    }
+    const count = await shiftBidService.reject(bid_ids, req.user.id);
+    res.json({ rejected: count, message: `${count} בקשות נדחו` });
+  } catch (error) {
+    console.error('Reject shift bids error:', error);
+    res.status(500).json({ error: 'שגיאה בדחיית בקשות' });
+  }
+});
+
+// Raise a hand for an open shift
+router.post('/:shiftId/bid', async (req, res) => {
+  try {
+    const empResult = await db.query('SELECT id FROM employees WHERE user_id = $1', [req.user.id]);
+    if (empResult.rows.length === 0) {
+      return res.status(400).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const result = await shiftBidService.placeBid(req.params.shiftId, empResult.rows[0].id, req.body.note);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error, issues: result.issues });
+    }
+    res.status(201).json({ bid: result, message: 'הבקשה נשלחה לאישור מנהל' });
+  } catch (error) {
+    console.error('Place shift bid error:', error);
+    res.status(500).json({ error: 'שגיאה בהגשת בקשה למשמרת' });
+  }
+});
+
+// Withdraw a pending bid
+router.delete('/:shiftId/bid', async (req, res) => {
+  try {
+    const empResult = await db.query('SELECT id FROM employees WHERE user_id = $1', [req.user.id]);
+    if (empResult.rows.length === 0) {
+      return res.status(400).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+
+    const withdrawn = await shiftBidService.withdraw(req.params.shiftId, empResult.rows[0].id);
+    if (!withdrawn) {
+      return res.status(404).json({ error: 'לא נמצאה בקשה ממתינה' });
+    }
+    res.json({ message: 'הבקשה בוטלה' });
+  } catch (error) {
+    console.error('Withdraw shift bid error:', error);
+    res.status(500).json({ error: 'שגיאה בביטול הבקשה' });
+  }
+});
+
 // Bulk approve shifts - MUST be before /:id route
 router.post('/bulk-approve', requireManager, async (req, res) => {
   try {
@@ -398,10 +719,19 @@ router.post('/bulk-delete', requireManager, async (req, res) => {
     if (!shift_ids || !Array.isArray(shift_ids) || shift_ids.length === 0) {
       return res.status(400).json({ error: 'נדרשים מזהי משמרות' });
     }
+    // Snapshot first, so the whole delete can be undone
+    const deleted = await shiftBatchService.snapshot(shift_ids);
+
     const placeholders = shift_ids.map(() => '?').join(',');
     await db.query(`DELETE FROM shift_assignments WHERE shift_id IN (${placeholders})`, shift_ids);
     await db.query(`DELETE FROM shifts WHERE id IN (${placeholders})`, shift_ids);
-    res.json({ message: `${shift_ids.length} משמרות נמחקו`, count: shift_ids.length });
+
+    const batch = await shiftBatchService.record('bulk_delete', {
+      description: `מחיקת ${deleted.shifts.length} משמרות`,
+      userId: req.user.id,
+      deleted,
+    });
+    res.json({ message: `${shift_ids.length} משמרות נמחקו`, count: shift_ids.length, ...batch });
   } catch (error) {
     console.error('Bulk delete error:', error);
     res.status(500).json({ error: 'שגיאה במחיקת משמרות' });
@@ -438,6 +768,7 @@ router.post('/copy-week', requireManager, async (req, res) => {
     const dayOffset = Math.round((targetStart - sourceStart) / (1000 * 60 * 60 * 24));
 
     let created = 0;
+    const createdShiftIds = [];
     for (const shift of sourceShifts.rows) {
       // Calculate new date
       const shiftDate = new Date(shift.date);
@@ -454,10 +785,12 @@ router.post('/copy-week', requireManager, async (req, res) => {
       const newShiftId = crypto.randomUUID();
       await db.query(`
         INSERT INTO shifts (id, customer_id, site_id, date, start_time, end_time,
-                           required_employees, requires_weapon, requires_vehicle, notes, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft', datetime('now'), datetime('now'))
+                           required_employees, requires_weapon, requires_vehicle, notes, status, created_by, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft', ?, datetime('now'), datetime('now'))
       `, [newShiftId, shift.customer_id, shift.site_id, newDate, shift.start_time, shift.end_time,
-          shift.required_employees, shift.requires_weapon, shift.requires_vehicle, shift.notes]);
+          shift.required_employees, shift.requires_weapon, shift.requires_vehicle, shift.notes, req.user.id]);
+
+      createdShiftIds.push(newShiftId);
 
       // Copy assignments if employees exist
       if (shift.assigned_employees) {
@@ -473,10 +806,17 @@ router.post('/copy-week', requireManager, async (req, res) => {
       created++;
     }
 
+    const batch = await shiftBatchService.record('copy_week', {
+      description: `העתקת שבוע ${source_week_start} לשבוע ${target_week_start} (${created} משמרות)`,
+      userId: req.user.id,
+      createdShiftIds,
+    });
+
     res.json({
       message: `${created} משמרות הועתקו בהצלחה`,
       created,
-      source_count: sourceShifts.rows.length
+      source_count: sourceShifts.rows.length,
+      ...batch
     });
   } catch (error) {
     console.error('Copy week error:', error);
@@ -504,6 +844,7 @@ router.post('/generate-from-template/:templateId', requireManager, async (req, r
     const dayMap = { sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6 };
 
     let created = 0;
+    const createdShiftIds = [];
     for (const day of daysOfWeek) {
       const dayOffset = dayMap[day.toLowerCase()] ?? 0;
       const shiftDate = new Date(week_start);
@@ -519,11 +860,12 @@ router.post('/generate-from-template/:templateId', requireManager, async (req, r
       const shiftId = crypto.randomUUID();
       await db.query(`
         INSERT INTO shifts (id, customer_id, site_id, date, start_time, end_time,
-                           required_employees, requires_weapon, requires_vehicle, notes, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft', datetime('now'), datetime('now'))
+                           required_employees, requires_weapon, requires_vehicle, notes, status, created_by, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'draft', ?, datetime('now'), datetime('now'))
       `, [shiftId, tmpl.customer_id, tmpl.site_id, dateStr, tmpl.start_time, tmpl.end_time,
           tmpl.required_employees || 1, tmpl.requires_weapon || 0, tmpl.requires_vehicle || 0,
-          `נוצר מתבנית: ${tmpl.name}`]);
+          `נוצר מתבנית: ${tmpl.name}`, req.user.id]);
+      createdShiftIds.push(shiftId);
 
       // Assign preferred employees
       for (const empId of preferredEmployees) {
@@ -537,23 +879,271 @@ router.post('/generate-from-template/:templateId', requireManager, async (req, r
       created++;
     }
 
-    res.json({ message: `${created} משמרות נוצרו מתבנית`, created });
+    const batch = await shiftBatchService.record('generate_from_template', {
+      description: `יצירה מתבנית "${tmpl.name}" לשבוע ${week_start} (${created} משמרות)`,
+      userId: req.user.id,
+      createdShiftIds,
+    });
+
+    res.json({ message: `${created} משמרות נוצרו מתבנית`, created, ...batch });
   } catch (error) {
     console.error('Generate from template error:', error);
     res.status(500).json({ error: 'שגיאה ביצירה מתבנית' });
   }
 });
 
+// ===== Bulk Operation History (Undo) =====
+
+// Recent bulk operations with their undo state (MUST be before /:id route)
+router.get('/operations', requireManager, async (req, res) => {
+  try {
+    const result = await shiftBatchService.list(parseInt(req.query.limit) || 50);
+    res.json(result);
+  } catch (error) {
+    console.error('Get shift operations error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת היסטוריית הפעולות' });
+  }
+});
+
+// Configure how long bulk operations stay undoable
+router.put('/operations/undo-window', requireManager, async (req, res) => {
+  try {
+    const minutes = await shiftBatchService.setUndoWindow(req.body.minutes);
+    if (!minutes) {
+      return res.status(400).json({ error: 'חלון ביטול לא תקין (1 דקה עד שבוע)' });
+    }
+    res.json({ undo_window_minutes: minutes, message: 'חלון הביטול עודכן' });
+  } catch (error) {
+    console.error('Update undo window error:', error);
+    res.status(500).json({ error: 'שגיאה בעדכון חלון הביטול' });
+  }
+});
+
+// Undo a bulk operation
+router.post('/operations/:batchId/undo', requireManager, async (req, res) => {
+  try {
+    const result = await shiftBatchService.undo(req.params.batchId, req.user.id);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    const parts = [];
+    if (result.restored) parts.push(`${result.restored} משמרות שוחזרו`);
+    if (result.removed) parts.push(`${result.removed} משמרות הוסרו`);
+    res.json({ message: parts.length ? `הפעולה בוטלה: ${parts.join(', ')}` : 'הפעולה בוטלה', ...result });
+  } catch (error) {
+    console.error('Undo shift operation error:', error);
+    res.status(500).json({ error: 'שגיאה בביטול הפעולה' });
+  }
+});
+
+// ===== Shift Handovers =====
+
+// Incoming guard confirms reading the handover (MUST be before /:id route)
+router.post('/handovers/:handoverId/acknowledge', async (req, res) => {
+  try {
+    const empResult = await db.query('SELECT id FROM employees WHERE user_id = $1', [req.user.id]);
+    if (empResult.rows.length === 0) {
+      return res.status(403).json({ error: 'לא נמצא עובד מקושר למשתמש' });
+    }
+    const result = await shiftHandoverService.acknowledge(req.params.handoverId, empResult.rows[0].id);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ message: 'העברת המשמרת אושרה' });
+  } catch (error) {
+    console.error('Acknowledge handover error:', error);
+    res.status(500).json({ error: 'שגיאה באישור העברת המשמרת' });
+  }
+});
+
+// Handover chain of a site for a date range (defaults to the last 7 days)
+router.get('/handovers/site/:siteId', requireManager, async (req, res) => {
+  try {
+    const today = new Date();
+    const weekAgo = new Date(today);
+    weekAgo.setDate(today.getDate() - 7);
+    const toDate = (d) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    const startDate = req.query.start_date || toDate(weekAgo);
+    const endDate = req.query.end_date || toDate(today);
+
+    const handovers = await shiftHandoverService.getSiteChain(req.params.siteId, startDate, endDate);
+    res.json({ handovers, start_date: startDate, end_date: endDate });
+  } catch (error) {
+    console.error('Get site handovers error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת יומן העברת המשמרות' });
+  }
+});
+
+// ===== Geofence exceptions (MUST be before /:id route) =====
+
+// Out-of-zone check-ins/outs, pending by default
+router.get('/geofence-exceptions', requireManager, async (req, res) => {
+  try {
+    const { status = 'pending', employee_id, start_date, end_date } = req.query;
+    const exceptions = await geofenceService.listExceptions({
+      status: status === 'all' ? null : status,
+      employee_id,
+      start_date,
+      end_date,
+    });
+    res.json({ exceptions });
+  } catch (error) {
+    console.error('Get geofence exceptions error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת חריגות מיקום' });
+  }
+});
+
+// Out-of-zone punches per employee (defaults to the last 30 days)
+router.get('/geofence-exceptions/report', requireManager, async (req, res) => {
+  try {
+    const today = new Date();
+    const monthAgo = new Date(today);
+    monthAgo.setDate(today.getDate() - 30);
+    const toDate = (d) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    const startDate = req.query.start_date || toDate(monthAgo);
+    const endDate = req.query.end_date || toDate(today);
+
+    const report = await geofenceService.report(startDate, endDate);
+    res.json(report);
+  } catch (error) {
+    console.error('Geofence report error:', error);
+    res.status(500).json({ error: 'שגיאה בהפקת דוח חריגות מיקום' });
+  }
+});
+
+router.post('/geofence-exceptions/resolve', requireManager, async (req, res) => {
+  try {
+    const { exception_ids, approve, note } = req.body;
+    if (!Array.isArray(exception_ids) || exception_ids.length === 0) {
+      return res.status(400).json({ error: 'נדרשים מזהי חריגות' });
+    }
+    const count = await geofenceService.resolve(exception_ids, !!approve, req.user.id, note?.trim());
+    res.json({ resolved: count, message: approve ? `${count} דיווחים אושרו` : `${count} דיווחים נדחו` });
+  } catch (error) {
+    console.error('Resolve geofence exceptions error:', error);
+    res.status(500).json({ error: 'שגיאה בטיפול בחריגות מיקום' });
+  }
+});
+
+// ===== Late Arrivals & Replacements =====
+
+// Minutes after the shift start before the guard is reminded / managers are alerted
+router.get('/no-show/settings', requireManager, async (req, res) => {
+  try {
+    res.json(await noShowService.getSettings());
+  } catch (error) {
+    console.error('Get no-show settings error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת הגדרות אי-הגעה' });
+  }
+});
+
+router.put('/no-show/settings', requireManager, async (req, res) => {
+  try {
+    const result = await noShowService.setSettings(req.body);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ ...result, message: 'הגדרות אי-הגעה עודכנו' });
+  } catch (error) {
+    console.error('Update no-show settings error:', error);
+    res.status(500).json({ error: 'שגיאה בעדכון הגדרות אי-הגעה' });
+  }
+});
+
+// Open replacement requests opened by the no-show job
+router.get('/replacements', requireManager, async (req, res) => {
+  try {
+    res.json({ requests: await noShowService.listOpen() });
+  } catch (error) {
+    console.error('Get replacement requests error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת בקשות החלפה' });
+  }
+});
+
+router.post('/replacements/:requestId/assign', requireManager, async (req, res) => {
+  try {
+    const { employee_id, override_reason } = req.body;
+    if (!employee_id) {
+      return res.status(400).json({ error: 'נדרש עובד' });
+    }
+    const result = await noShowService.assignReplacement(req.params.requestId, employee_id, req.user, override_reason);
+    if (result.error) {
+      const { status, ...body } = result;
+      return res.status(status).json(body);
+    }
+    res.status(201).json({ ...result, message: 'המחליף שובץ ועודכן' });
+  } catch (error) {
+    console.error('Assign replacement error:', error);
+    res.status(500).json({ error: 'שגיאה בשיבוץ מחליף' });
+  }
+});
+
+router.post('/replacements/:requestId/dismiss', requireManager, async (req, res) => {
+  try {
+    const dismissed = await noShowService.dismiss(req.params.requestId, req.user.id);
+    if (!dismissed) {
+      return res.status(404).json({ error: 'בקשת ההחלפה לא נמצאה או כבר טופלה' });
+    }
+    res.json({ message: 'בקשת ההחלפה נסגרה' });
+  } catch (error) {
+    console.error('Dismiss replacement error:', error);
+    res.status(500).json({ error: 'שגיאה בסגירת בקשת ההחלפה' });
+  }
+});
+
 // ===== Shift Swap Requests =====
 
+// Colleagues and their upcoming shifts, for proposing a swap/trade (MUST be before /:id route)
+router.get('/swap-candidates/:shiftId', async (req, res) => {
+  try {
+    const empResult = await db.query('SELECT id FROM employees WHERE user_id = ?', [req.user.id]);
+    if (empResult.rows.length === 0) {
+      return res.status(400).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+    const employeeId = empResult.rows[0].id;
+
+    const colleagues = await db.query(`
+      SELECT id, first_name || ' ' || last_name as name, has_weapon_license
+      FROM employees
+      WHERE status = 'active' AND deleted_at IS NULL AND id != ?
+      ORDER BY first_name, last_name
+    `, [employeeId]);
+
+    const upcoming = await db.query(`
+      SELECT sa.employee_id, s.id as shift_id, s.date, s.start_time, s.end_time, si.name as site_name
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.date >= date('now', 'localtime') AND s.date <= date('now', 'localtime', '+30 days')
+      AND sa.status = 'assigned'
+      AND s.id != ?
+      ORDER BY s.date, s.start_time
+    `, [req.params.shiftId]);
+
+    const shiftsByEmployee = {};
+    for (const row of upcoming.rows) {
+      if (!shiftsByEmployee[row.employee_id]) shiftsByEmployee[row.employee_id] = [];
+      shiftsByEmployee[row.employee_id].push(row);
+    }
+
+    res.json({
+      colleagues: colleagues.rows.map(c => ({ ...c, upcoming_shifts: shiftsByEmployee[c.id] || [] }))
+    });
+  } catch (error) {
+    console.error('Swap candidates error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת עמיתים' });
+  }
+});
+
 // Request shift swap
 router.post('/swap-request', async (req, res) => {
   try {
-    const { shift_id, target_employee_id, reason } = req.body;
+    const { shift_id, target_employee_id, target_shift_id, reason } = req.body;
+    const swapType = target_shift_id ? 'trade' : 'offer';
 
     // Find employee_id for the current user
     const empResult = await db.query(
-      'SELECT id FROM employees WHERE user_id = ?',
+      'SELECT id, first_name, last_name FROM employees WHERE user_id = ?',
       [req.user.id]
     );
     const requesterId = empResult.rows.length > 0 ? empResult.rows[0].id : null;
@@ -564,21 +1154,65 @@ router.post('/swap-request', async (req, res) => {
     if (!shift_id) {
       return res.status(400).json({ error: 'נדרש מזהה משמרת' });
     }
+    if (swapType === 'trade' && !target_employee_id) {
+      return res.status(400).json({ error: 'להחלפה הדדית יש לבחור עמית' });
+    }
+    if (target_employee_id === requesterId) {
+      return res.status(400).json({ error: 'לא ניתן להחליף עם עצמך' });
+    }
 
     // Verify requester is assigned to this shift
     const assignment = await db.query(
-      'SELECT id FROM shift_assignments WHERE shift_id = ? AND employee_id = ?',
+      `SELECT sa.id, s.date FROM shift_assignments sa JOIN shifts s ON sa.shift_id = s.id
+       WHERE sa.shift_id = ? AND sa.employee_id = ?`,
       [shift_id, requesterId]
     );
     if (assignment.rows.length === 0) {
       return res.status(400).json({ error: 'אינך משובץ למשמרת זו' });
     }
+    if (assignment.rows[0].date < new Date().toISOString().split('T')[0]) {
+      return res.status(400).json({ error: 'לא ניתן להחליף משמרת שעברה' });
+    }
+
+    // In a trade the colleague must actually hold the shift offered in return
+    if (swapType === 'trade') {
+      const targetAssignment = await db.query(
+        'SELECT id FROM shift_assignments WHERE shift_id = ? AND employee_id = ?',
+        [target_shift_id, target_employee_id]
+      );
+      if (targetAssignment.rows.length === 0) {
+        return res.status(400).json({ error: 'העמית אינו משובץ למשמרת שנבחרה' });
+      }
+    }
+
+    const existing = await db.query(
+      `SELECT id FROM shift_swap_requests WHERE shift_id = ? AND requester_id = ? AND status = 'pending'`,
+      [shift_id, requesterId]
+    );
+    if (existing.rows.length > 0) {
+      return res.status(400).json({ error: 'כבר קיימת בקשת החלפה פתוחה למשמרת זו' });
+    }
 
     const id = db.generateUUID();
     await db.query(`
-      INSERT INTO shift_swap_requests (id, shift_id, requester_id, target_employee_id, reason)
-      VALUES (?, ?, ?, ?, ?)
-    `, [id, shift_id, requesterId, target_employee_id || null, reason || '']);
+      INSERT INTO shift_swap_requests (id, shift_id, requester_id, target_employee_id, target_shift_id, swap_type, reason)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [id, shift_id, requesterId, target_employee_id || null, target_shift_id || null, swapType, reason || '']);
+
+    // Let managers know there is something in the inbox
+    const requester = empResult.rows[0];
+    const managers = await db.query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
+    for (const manager of managers.rows) {
+      await db.query(`
+        INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+        VALUES (?, ?, 'swap_request', ?, ?, 'shift', ?)
+      `, [db.generateUUID(), manager.id,
+          'בקשת החלפת משמרת',
+          `${requester.first_name} ${requester.last_name} ${swapType === 'trade' ? 'מבקש/ת החלפה הדדית' : 'מציע/ה משמרת להחלפה'}`,
+          shift_id]);
+    }
+
+    whatsappHelper.notifySwapRequested(id).catch(err => console.error('[Shift] WhatsApp swap request failed:', err.message));
 
     res.json({ message: 'בקשת החלפה נשלחה', id });
   } catch (error) {
@@ -587,23 +1221,117 @@ router.post('/swap-request', async (req, res) => {
   }
 });
 
-// Get pending swap requests (managers)
+// Get my swap requests, sent and received (employee)
+router.get('/swap-requests/mine', async (req, res) => {
+  try {
+    const empResult = await db.query('SELECT id FROM employees WHERE user_id = ?', [req.user.id]);
+    if (empResult.rows.length === 0) {
+      return res.json({ swap_requests: [] });
+    }
+    const employeeId = empResult.rows[0].id;
+
+    const result = await db.query(`
+      SELECT sr.*,
+             e1.first_name || ' ' || e1.last_name as requester_name,
+             e2.first_name || ' ' || e2.last_name as target_name,
+             s.date, s.start_time, s.end_time, si.name as site_name,
+             ts.date as target_date, ts.start_time as target_start_time, ts.end_time as target_end_time,
+             tsi.name as target_site_name
+      FROM shift_swap_requests sr
+      JOIN employees e1 ON sr.requester_id = e1.id
+      LEFT JOIN employees e2 ON sr.target_employee_id = e2.id
+      JOIN shifts s ON sr.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN shifts ts ON sr.target_shift_id = ts.id
+      LEFT JOIN sites tsi ON ts.site_id = tsi.id
+      WHERE (sr.requester_id = ? OR sr.target_employee_id = ?)
+      AND (sr.status = 'pending' OR sr.created_at >= date('now', '-30 days'))
+      ORDER BY sr.created_at DESC
+    `, [employeeId, employeeId]);
+
+    res.json({ swap_requests: result.rows.map(r => ({ ...r, is_mine: r.requester_id === employeeId })) });
+  } catch (error) {
+    console.error('Get my swap requests error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת בקשות החלפה' });
+  }
+});
+
+// Withdraw my pending swap request (employee)
+router.post('/swap-requests/:requestId/cancel', async (req, res) => {
+  try {
+    const result = await db.query(`
+      UPDATE shift_swap_requests SET status = 'cancelled', resolved_at = datetime('now')
+      WHERE id = ? AND status = 'pending'
+      AND requester_id IN (SELECT id FROM employees WHERE user_id = ?)
+    `, [req.params.requestId, req.user.id]);
+
+    if (!result.rowCount) {
+      return res.status(404).json({ error: 'בקשה לא נמצאה' });
+    }
+    const request = await db.query('SELECT * FROM shift_swap_requests WHERE id = ?', [req.params.requestId]);
+    res.json({ request: request.rows[0], message: 'הבקשה בוטלה' });
+  } catch (error) {
+    console.error('Cancel swap error:', error);
+    res.status(500).json({ error: 'שגיאה בביטול בקשת החלפה' });
+  }
+});
+
+/**
+ * Eligibility of both sides of a swap: the incoming employee on the offered
+ * shift and, for a trade, the requester on the colleague's shift. Each side
+ * ignores the shift it is about to give up.
+ */
+async function swapEligibility(swapReq, incomingEmployeeId) {
+  const eligibility = { target: [], requester: [] };
+  if (incomingEmployeeId) {
+    const shift = await assignmentValidator.loadShift(swapReq.shift_id);
+    if (shift) {
+      eligibility.target = await assignmentValidator.validate(shift, incomingEmployeeId, {
+        ignoreShiftIds: swapReq.target_shift_id ? [swapReq.target_shift_id] : []
+      });
+    }
+  }
+  if (swapReq.swap_type === 'trade' && swapReq.target_shift_id) {
+    const targetShift = await assignmentValidator.loadShift(swapReq.target_shift_id);
+    if (targetShift) {
+      eligibility.requester = await assignmentValidator.validate(targetShift, swapReq.requester_id, {
+        ignoreShiftIds: [swapReq.shift_id]
+      });
+    }
+  }
+  return eligibility;
+}
+
+// Get swap requests with eligibility (managers)
 router.get('/swap-requests', requireManager, async (req, res) => {
   try {
+    const status = req.query.status || 'pending';
     const result = await db.query(`
       SELECT sr.*,
              e1.first_name || ' ' || e1.last_name as requester_name,
              e2.first_name || ' ' || e2.last_name as target_name,
-             s.date, s.start_time, s.end_time,
-             si.name as site_name
+             s.date, s.start_time, s.end_time, s.requires_weapon,
+             si.name as site_name,
+             ts.date as target_date, ts.start_time as target_start_time, ts.end_time as target_end_time,
+             tsi.name as target_site_name
       FROM shift_swap_requests sr
       JOIN employees e1 ON sr.requester_id = e1.id
       LEFT JOIN employees e2 ON sr.target_employee_id = e2.id
       JOIN shifts s ON sr.shift_id = s.id
       LEFT JOIN sites si ON s.site_id = si.id
-      WHERE sr.status = 'pending'
+      LEFT JOIN shifts ts ON sr.target_shift_id = ts.id
+      LEFT JOIN sites tsi ON ts.site_id = tsi.id
+      WHERE sr.status = ?
       ORDER BY sr.created_at DESC
-    `);
+      LIMIT 100
+    `, [status]);
+
+    if (status === 'pending') {
+      for (const swapReq of result.rows) {
+        swapReq.eligibility = await swapEligibility(swapReq, swapReq.target_employee_id);
+      }
+    }
+
     res.json({ swap_requests: result.rows });
   } catch (error) {
     console.error('Get swap requests error:', error);
@@ -615,33 +1343,119 @@ router.get('/swap-requests', requireManager, async (req, res) => {
 router.post('/swap-requests/:requestId/resolve', requireManager, async (req, res) => {
   try {
     const { requestId } = req.params;
-    const { approve } = req.body;
+    const { approve, replacement_employee_id, note } = req.body;
+    const resolutionNote = typeof note === 'string' ? note.trim() : '';
+
+    // A resolve that fails partway must leave both the assignments and the request untouched
+    const outcome = await db.transaction(async (tx) => {
+      const request = await tx('SELECT * FROM shift_swap_requests WHERE id = ?', [requestId]);
+      if (request.rows.length === 0) {
+        return { status: 404, body: { error: 'בקשה לא נמצאה' } };
+      }
 
-    const request = await db.query('SELECT * FROM shift_swap_requests WHERE id = ?', [requestId]);
-    if (request.rows.length === 0) {
-      return res.status(404).json({ error: 'בקשה לא נמצאה' });
-    }
+      const swapReq = request.rows[0];
+      if (swapReq.status !== 'pending') {
+        return { status: 400, body: { error: 'הבקשה כבר טופלה' } };
+      }
 
-    const swapReq = request.rows[0];
-    if (swapReq.status !== 'pending') {
-      return res.status(400).json({ error: 'הבקשה כבר טופלה' });
-    }
+      let incomingId = swapReq.target_employee_id;
+      let overridden = [];
+
+      if (approve) {
+        // An open offer is filled by whoever the manager picks
+        incomingId = incomingId || replacement_employee_id;
+        if (!incomingId) {
+          return { status: 400, body: { error: 'יש לבחור עובד מחליף' } };
+        }
+
+        const eligibility = await swapEligibility(swapReq, incomingId);
+        const issues = [...eligibility.target, ...eligibility.requester];
+        const blocking = issues.filter(i => i.severity === 'error' && !i.overridable);
+        if (blocking.length > 0) {
+          return { status: 400, body: { error: blocking[0].message, eligibility } };
+        }
+        overridden = issues.filter(i => i.severity === 'error');
+        if (overridden.length > 0 && !resolutionNote) {
+          return { status: 409, body: { error: 'ההחלפה חורגת מכללי השיבוץ ודורשת אישור חריגה', eligibility, requires_override: true } };
+        }
+
+        // Swap the assignments; a missing one means the roster changed since the request was made
+        const swapped = await tx(
+          'UPDATE shift_assignments SET employee_id = ? WHERE shift_id = ? AND employee_id = ?',
+          [incomingId, swapReq.shift_id, swapReq.requester_id]
+        );
+        if (!swapped.rowCount) {
+          throw Object.assign(new Error('העובד המבקש כבר אינו משובץ למשמרת'), { status: 409 });
+        }
+        if (swapReq.swap_type === 'trade' && swapReq.target_shift_id) {
+          const traded = await tx(
+            'UPDATE shift_assignments SET employee_id = ? WHERE shift_id = ? AND employee_id = ?',
+            [swapReq.requester_id, swapReq.target_shift_id, incomingId]
+          );
+          if (!traded.rowCount) {
+            throw Object.assign(new Error('העובד המחליף כבר אינו משובץ למשמרת שהוצעה בתמורה'), { status: 409 });
+          }
+        }
+      }
 
-    if (approve && swapReq.target_employee_id) {
-      // Swap the assignments
-      await db.query(
-        'UPDATE shift_assignments SET employee_id = ? WHERE shift_id = ? AND employee_id = ?',
-        [swapReq.target_employee_id, swapReq.shift_id, swapReq.requester_id]
+      const resolved = await tx(
+        `UPDATE shift_swap_requests SET status = ?, resolved_at = datetime('now'), resolved_by = ?,
+         target_employee_id = ?, resolution_note = ? WHERE id = ? AND status = 'pending'`,
+        [approve ? 'approved' : 'rejected', req.user.id, incomingId || null, resolutionNote || null, requestId]
       );
+      if (!resolved.rowCount) {
+        throw Object.assign(new Error('הבקשה כבר טופלה'), { status: 409 });
+      }
+
+      await tx(`
+        INSERT INTO activity_log (id, user_id, entity_type, entity_id, action, changes)
+        VALUES (?, ?, 'shift_swap', ?, ?, ?)
+      `, [db.generateUUID(), req.user.id, requestId, approve ? 'swap_approved' : 'swap_rejected', JSON.stringify({
+        shift_id: swapReq.shift_id,
+        target_shift_id: swapReq.target_shift_id,
+        requester_id: swapReq.requester_id,
+        target_employee_id: incomingId || null,
+        note: resolutionNote || null,
+        overridden: overridden.map(i => ({ code: i.code, message: i.message }))
+      })]);
+
+      // In-app notice to both parties
+      const parties = await tx(
+        'SELECT user_id FROM employees WHERE id IN (?, ?) AND user_id IS NOT NULL',
+        [swapReq.requester_id, incomingId || swapReq.requester_id]
+      );
+      for (const party of parties.rows) {
+        await tx(`
+          INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+          VALUES (?, ?, 'swap_request', ?, ?, 'shift', ?)
+        `, [db.generateUUID(), party.user_id,
+            approve ? 'בקשת החלפה אושרה' : 'בקשת החלפה נדחתה',
+            resolutionNote || (approve ? 'השיבוץ עודכן בהתאם' : 'השיבוץ נשאר ללא שינוי'),
+            swapReq.shift_id]);
+      }
+
+      return { parties: parties.rows };
+    });
+
+    if (outcome.status) {
+      return res.status(outcome.status).json(outcome.body);
     }
 
-    await db.query(
-      `UPDATE shift_swap_requests SET status = ?, resolved_at = datetime('now'), resolved_by = ? WHERE id = ?`,
-      [approve ? 'approved' : 'rejected', req.user.id, requestId]
-    );
+    whatsappHelper.notifySwapResolved(requestId).catch(err => console.error('[Shift] WhatsApp swap resolution failed:', err.message));
+    if (approve) {
+      pushService.sendToUsers(outcome.parties.map(p => p.user_id), 'assignment_changes', {
+        title: 'בקשת החלפה אושרה',
+        body: resolutionNote || 'השיבוץ עודכן בהתאם',
+        url: '/profile',
+        tag: `swap-${requestId}`,
+      }).catch(err => console.error('[Shift] Push swap resolution failed:', err.message));
+    }
 
     res.json({ message: approve ? 'בקשת החלפה אושרה' : 'בקשת החלפה נדחתה' });
   } catch (error) {
+    if (error.status) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Resolve swap error:', error);
     res.status(500).json({ error: 'שגיאה בטיפול בבקשת החלפה' });
   }
@@ -668,9 +1482,11 @@ router.get('/:id', async (req, res) => {
     const assignmentsResult = await db.query(`
       SELECT sa.*,
              e.first_name || ' ' || e.last_name as employee_name,
-             e.phone as employee_phone
+             e.phone as employee_phone,
+             rc.failed_count as readiness_failed_count, rc.answers as readiness_answers
       FROM shift_assignments sa
       JOIN employees e ON sa.employee_id = e.id
+      LEFT JOIN readiness_checks rc ON rc.assignment_id = sa.id
       WHERE sa.shift_id = $1
     `, [req.params.id]);
 
@@ -738,11 +1554,11 @@ router.post('/', requireManager, [
     const shiftId = db.generateUUID();
     const result = await db.query(`
       INSERT INTO shifts (id, site_id, customer_id, date, start_time, end_time,
-                         required_employees, requires_weapon, requires_vehicle, notes)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                         required_employees, requires_weapon, requires_vehicle, notes, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING *
     `, [shiftId, site_id, customer_id, date, start_time, end_time,
-        required_employees || 1, toBool(requires_weapon), toBool(requires_vehicle), toNull(notes)]);
+        required_employees || 1, toBool(requires_weapon), toBool(requires_vehicle), toNull(notes), req.user.id]);
 
     res.status(201).json({ shift: result.rows[0] });
   } catch (error) {
@@ -823,11 +1639,11 @@ router.post('/recurring', requireManager, [
         const recurringShiftId = db.generateUUID();
         const result = await db.query(`
           INSERT INTO shifts (id, site_id, customer_id, date, start_time, end_time,
-                             required_employees, requires_weapon, requires_vehicle, notes)
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                             required_employees, requires_weapon, requires_vehicle, notes, created_by)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
           RETURNING *
         `, [recurringShiftId, site_id, customer_id, dateStr, start_time, end_time,
-            required_employees || 1, toBool(requires_weapon), toBool(requires_vehicle), toNull(notes)]);
+            required_employees || 1, toBool(requires_weapon), toBool(requires_vehicle), toNull(notes), req.user.id]);
 
         createdShifts.push(result.rows[0]);
       }
@@ -847,7 +1663,7 @@ router.post('/:id/assign', requireManager, [
   body('employee_id').notEmpty().withMessage('נדרש עובד')
 ], async (req, res) => {
   try {
-    const { employee_id, role } = req.body;
+    const { employee_id, role, override_reason } = req.body;
 
     // Validate employee exists and is active
     const empCheck = await db.query(
@@ -871,22 +1687,22 @@ router.post('/:id/assign', requireManager, [
       return res.status(400).json({ error: 'העובד כבר משובץ למשמרת זו' });
     }
 
-    // Check for conflicts
-    const shiftResult = await db.query('SELECT date, start_time, end_time FROM shifts WHERE id = $1', [req.params.id]);
-    const shift = shiftResult.rows[0];
+    const shift = await assignmentValidator.loadShift(req.params.id);
+    if (!shift) {
+      return res.status(404).json({ error: 'משמרת לא נמצאה' });
+    }
 
-    const conflictResult = await db.query(`
-      SELECT s.id FROM shift_assignments sa
-      JOIN shifts s ON sa.shift_id = s.id
-      WHERE sa.employee_id = $1
-      AND s.date = $2
-      AND (
-        (s.start_time < $4 AND s.end_time > $3)
-      )
-    `, [employee_id, shift.date, shift.start_time, shift.end_time]);
+    // Conflict and compliance validation
+    const issues = await assignmentValidator.validate(shift, employee_id);
+    const blocking = issues.filter(i => i.severity === 'error' && !i.overridable);
+    if (blocking.length > 0) {
+      return res.status(400).json({ error: blocking[0].message, issues });
+    }
 
-    if (conflictResult.rows.length > 0) {
-      return res.status(400).json({ error: 'לעובד יש משמרת חופפת' });
+    const needsOverride = issues.filter(i => i.severity === 'error');
+    const overrideReason = typeof override_reason === 'string' ? override_reason.trim() : '';
+    if (needsOverride.length > 0 && !overrideReason) {
+      return res.status(409).json({ error: 'השיבוץ חורג מכללי השיבוץ ודורש אישור חריגה', issues, requires_override: true });
     }
 
     const assignmentId = db.generateUUID();
@@ -896,8 +1712,21 @@ router.post('/:id/assign', requireManager, [
       RETURNING *
     `, [assignmentId, req.params.id, employee_id, role || 'guard']);
 
+    if (needsOverride.length > 0) {
+      await db.query(`
+        INSERT INTO activity_log (id, user_id, entity_type, entity_id, action, changes)
+        VALUES ($1, $2, 'shift_assignment', $3, 'assignment_override', $4)
+      `, [db.generateUUID(), req.user.id, assignmentId, JSON.stringify({
+        shift_id: req.params.id,
+        employee_id,
+        reason: overrideReason,
+        issues: needsOverride.map(i => ({ code: i.code, message: i.message }))
+      })]);
+    }
+
     // Send WhatsApp assignment confirmation (non-blocking)
     whatsappHelper.sendAssignmentConfirmation(employee_id, req.params.id).catch(err => console.error('[Shift] WhatsApp assignment confirmation failed:', err.message));
+    pushService.notifyAssignment(employee_id, req.params.id, true).catch(err => console.error('[Shift] Push assignment notice failed:', err.message));
 
     res.status(201).json({ assignment: result.rows[0] });
   } catch (error) {
@@ -906,9 +1735,99 @@ router.post('/:id/assign', requireManager, [
   }
 });
 
+// Move an assignment to another shift. The assignment keeps its id, role
+// and punches; the rules are checked as for a new assignment, leaving out
+// the shift the guard is moving away from.
+router.post('/:id/assign/:assignmentId/move', requireManager, [
+  body('to_shift_id').notEmpty().withMessage('נדרשת משמרת יעד')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ error: errors.array()[0].msg });
+    }
+    const { to_shift_id, override_reason } = req.body;
+
+    const existing = await db.query(
+      'SELECT id, employee_id FROM shift_assignments WHERE id = $1 AND shift_id = $2',
+      [req.params.assignmentId, req.params.id]
+    );
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ error: 'שיבוץ לא נמצא' });
+    }
+    const employeeId = existing.rows[0].employee_id;
+    if (to_shift_id === req.params.id) {
+      return res.json({ assignment: existing.rows[0] });
+    }
+
+    const taken = await db.query(
+      'SELECT id FROM shift_assignments WHERE shift_id = $1 AND employee_id = $2',
+      [to_shift_id, employeeId]
+    );
+    if (taken.rows.length > 0) {
+      return res.status(400).json({ error: 'העובד כבר משובץ למשמרת זו' });
+    }
+
+    const shift = await assignmentValidator.loadShift(to_shift_id);
+    if (!shift) {
+      return res.status(404).json({ error: 'משמרת לא נמצאה' });
+    }
+
+    const issues = await assignmentValidator.validate(shift, employeeId, { ignoreShiftIds: [req.params.id] });
+    const blocking = issues.filter(i => i.severity === 'error' && !i.overridable);
+    if (blocking.length > 0) {
+      return res.status(400).json({ error: blocking[0].message, issues });
+    }
+
+    const needsOverride = issues.filter(i => i.severity === 'error');
+    const overrideReason = typeof override_reason === 'string' ? override_reason.trim() : '';
+    if (needsOverride.length > 0 && !overrideReason) {
+      return res.status(409).json({ error: 'השיבוץ חורג מכללי השיבוץ ודורש אישור חריגה', issues, requires_override: true });
+    }
+
+    const moved = await db.query(
+      'UPDATE shift_assignments SET shift_id = $3 WHERE id = $1 AND shift_id = $2',
+      [req.params.assignmentId, req.params.id, to_shift_id]
+    );
+    if (!moved.rowCount) {
+      return res.status(409).json({ error: 'השיבוץ השתנה בינתיים, נסה שוב' });
+    }
+
+    if (needsOverride.length > 0) {
+      await db.query(`
+        INSERT INTO activity_log (id, user_id, entity_type, entity_id, action, changes)
+        VALUES ($1, $2, 'shift_assignment', $3, 'assignment_override', $4)
+      `, [db.generateUUID(), req.user.id, req.params.assignmentId, JSON.stringify({
+        shift_id: to_shift_id,
+        from_shift_id: req.params.id,
+        employee_id: employeeId,
+        reason: overrideReason,
+        issues: needsOverride.map(i => ({ code: i.code, message: i.message }))
+      })]);
+    }
+
+    // Tell the guard about both shifts and offer the freed slot (non-blocking)
+    whatsappHelper.sendAssignmentConfirmation(employeeId, to_shift_id).catch(err => console.error('[Shift] WhatsApp assignment confirmation failed:', err.message));
+    pushService.notifyAssignment(employeeId, req.params.id, false)
+      .then(() => pushService.notifyAssignment(employeeId, to_shift_id, true))
+      .then(() => pushService.offerOpenShift(req.params.id))
+      .catch(err => console.error('[Shift] Push move notice failed:', err.message));
+
+    const result = await db.query('SELECT * FROM shift_assignments WHERE id = $1', [req.params.assignmentId]);
+    res.json({ assignment: result.rows[0] });
+  } catch (error) {
+    console.error('Move assignment error:', error);
+    res.status(500).json({ error: 'שגיאה בהעברת השיבוץ' });
+  }
+});
+
 // Remove employee from shift
 router.delete('/:id/assign/:assignmentId', requireManager, async (req, res) => {
   try {
+    const existing = await db.query(
+      'SELECT employee_id FROM shift_assignments WHERE id = $1 AND shift_id = $2',
+      [req.params.assignmentId, req.params.id]
+    );
     const result = await db.query(
       'DELETE FROM shift_assignments WHERE id = $1 AND shift_id = $2 RETURNING id',
       [req.params.assignmentId, req.params.id]
@@ -918,6 +1837,11 @@ router.delete('/:id/assign/:assignmentId', requireManager, async (req, res) => {
       return res.status(404).json({ error: 'שיבוץ לא נמצא' });
     }
 
+    // Tell the guard, and offer the freed slot to the others (non-blocking)
+    pushService.notifyAssignment(existing.rows[0]?.employee_id, req.params.id, false)
+      .then(() => pushService.offerOpenShift(req.params.id))
+      .catch(err => console.error('[Shift] Push unassign notice failed:', err.message));
+
     res.json({ message: 'שיבוץ הוסר בהצלחה' });
   } catch (error) {
     console.error('Remove from shift error:', error);
@@ -925,46 +1849,41 @@ router.delete('/:id/assign/:assignmentId', requireManager, async (req, res) => {
   }
 });
 
-// Employee check-in (with optional GPS location)
-router.post('/check-in/:assignmentId', async (req, res) => {
+// Employee check-in (with optional GPS location). Punches queued offline are
+// replayed with an Idempotency-Key and the time they were actually made.
+router.post('/check-in/:assignmentId', idempotency, async (req, res) => {
   try {
-    const { latitude, longitude } = req.body || {};
-    let distanceMeters = null;
-    let locationWarning = null;
-
-    // Calculate distance from site if location provided
-    if (latitude && longitude) {
-      try {
-        const siteResult = await db.query(`
-          SELECT si.latitude, si.longitude, si.geofence_radius_meters, si.name
-          FROM shift_assignments sa
-          JOIN shifts s ON sa.shift_id = s.id
-          JOIN sites si ON s.site_id = si.id
-          WHERE sa.id = $1 AND si.latitude IS NOT NULL
-        `, [req.params.assignmentId]);
-
-        if (siteResult.rows.length > 0 && siteResult.rows[0].latitude) {
-          const { calculateDistance } = require('../utils/geocoder');
-          const site = siteResult.rows[0];
-          distanceMeters = calculateDistance(latitude, longitude, site.latitude, site.longitude);
-          const radius = site.geofence_radius_meters || 1000;
-          if (distanceMeters > radius) {
-            locationWarning = `המרחק מהאתר ${site.name} הוא ${distanceMeters} מטר (מותר: ${radius} מטר)`;
-          }
-        }
-      } catch (e) { /* location check optional */ }
+    // Validate the location against the site geofence; out-of-zone punches need approval
+    const geofence = await geofenceService.checkPunch(req.params.assignmentId, req.body, req.user);
+    if (!geofence) {
+      return res.status(404).json({ error: 'שיבוץ לא נמצא' });
+    }
+    if (!geofence.self_punch && !MANAGER_ROLES.includes(req.user.role)) {
+      return res.status(403).json({ error: 'אין הרשאה לדווח עבור שיבוץ של עובד אחר' });
+    }
+
+    // New or revised site post orders are acknowledged before the first check-in
+    const postOrder = await postOrderService.checkInGate(req.params.assignmentId, geofence, req.body);
+    if (postOrder) {
+      return res.status(409).json({
+        error: 'יש לקרוא ולאשר את הוראות האתר לפני הכניסה למשמרת',
+        post_order: postOrder,
+        requires_post_order: true,
+      });
     }
 
     const result = await db.query(`
       UPDATE shift_assignments SET
         status = 'checked_in',
-        check_in_time = datetime('now'),
+        check_in_time = COALESCE($6, datetime('now')),
         check_in_latitude = $2,
         check_in_longitude = $3,
-        check_in_distance_meters = $4
+        check_in_distance_meters = $4,
+        check_in_zone = $5
       WHERE id = $1
       RETURNING *
-    `, [req.params.assignmentId, latitude ?? null, longitude ?? null, distanceMeters]);
+    `, [req.params.assignmentId, geofence.latitude, geofence.longitude, geofence.distance_meters, geofence.zone,
+        recordedAt(req.body?.recorded_at)]);
 
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'שיבוץ לא נמצא' });
@@ -977,9 +1896,21 @@ router.post('/check-in/:assignmentId', async (req, res) => {
       AND status = 'scheduled'
     `, [req.params.assignmentId]);
 
-    const response = { assignment: result.rows[0], message: 'דווח כניסה בהצלחה' };
-    if (locationWarning) response.location_warning = locationWarning;
-    if (distanceMeters !== null) response.distance_meters = distanceMeters;
+    // A late arrival closes the replacement request opened for them
+    await noShowService.onCheckIn(req.params.assignmentId);
+
+    // Readiness checklist answers; failed items alert the managers (non-blocking)
+    readinessService.record(req.params.assignmentId, geofence.employee_id, req.body?.readiness)
+      .catch(err => console.error('[Shift] Readiness check failed:', err.message));
+
+    const exception = await geofenceService.recordPunch(req.params.assignmentId, 'check_in', geofence);
+
+    const response = { assignment: result.rows[0], message: 'דווח כניסה בהצלחה', zone: geofence.zone };
+    if (exception) {
+      response.geofence_exception = exception;
+      response.location_warning = geofenceService.warningFor(geofence);
+    }
+    if (geofence.distance_meters !== null) response.distance_meters = geofence.distance_meters;
     res.json(response);
   } catch (error) {
     console.error('Check-in error:', error);
@@ -987,34 +1918,16 @@ router.post('/check-in/:assignmentId', async (req, res) => {
   }
 });
 
-// Employee check-out (with optional GPS location)
-router.post('/check-out/:assignmentId', async (req, res) => {
+// Employee check-out (with optional GPS location), replayable like check-in
+router.post('/check-out/:assignmentId', idempotency, async (req, res) => {
   try {
-    const { latitude, longitude } = req.body || {};
-    let distanceMeters = null;
-    let locationWarning = null;
-
-    // Calculate distance from site if location provided
-    if (latitude && longitude) {
-      try {
-        const siteResult = await db.query(`
-          SELECT si.latitude, si.longitude, si.geofence_radius_meters, si.name
-          FROM shift_assignments sa
-          JOIN shifts s ON sa.shift_id = s.id
-          JOIN sites si ON s.site_id = si.id
-          WHERE sa.id = $1 AND si.latitude IS NOT NULL
-        `, [req.params.assignmentId]);
-
-        if (siteResult.rows.length > 0 && siteResult.rows[0].latitude) {
-          const { calculateDistance } = require('../utils/geocoder');
-          const site = siteResult.rows[0];
-          distanceMeters = calculateDistance(latitude, longitude, site.latitude, site.longitude);
-          const radius = site.geofence_radius_meters || 1000;
-          if (distanceMeters > radius) {
-            locationWarning = `המרחק מהאתר ${site.name} הוא ${distanceMeters} מטר (מותר: ${radius} מטר)`;
-          }
-        }
-      } catch (e) { /* location check optional */ }
+    // Validate the location against the site geofence; out-of-zone punches need approval
+    const geofence = await geofenceService.checkPunch(req.params.assignmentId, req.body, req.user);
+    if (!geofence) {
+      return res.status(404).json({ error: 'שיבוץ לא נמצא' });
+    }
+    if (!geofence.self_punch && !MANAGER_ROLES.includes(req.user.role)) {
+      return res.status(403).json({ error: 'אין הרשאה לדווח עבור שיבוץ של עובד אחר' });
     }
 
     // Get check-in time to calculate hours
@@ -1028,24 +1941,27 @@ router.post('/check-out/:assignmentId', async (req, res) => {
     }
 
     const checkInTime = assignmentResult.rows[0].check_in_time;
+    const checkOutTime = recordedAt(req.body?.recorded_at);
     // Calculate hours using SQLite to avoid timezone issues
     const hoursResult = await db.query(
-      `SELECT ROUND((julianday(datetime('now')) - julianday($1)) * 24, 2) as hours`,
-      [checkInTime]
+      `SELECT ROUND((julianday(COALESCE($2, datetime('now'))) - julianday($1)) * 24, 2) as hours`,
+      [checkInTime, checkOutTime]
     );
     const actualHours = hoursResult.rows[0]?.hours || 0;
 
     const result = await db.query(`
       UPDATE shift_assignments SET
         status = 'checked_out',
-        check_out_time = datetime('now'),
+        check_out_time = COALESCE($7, datetime('now')),
         actual_hours = $2,
         check_out_latitude = $3,
         check_out_longitude = $4,
-        check_out_distance_meters = $5
+        check_out_distance_meters = $5,
+        check_out_zone = $6
       WHERE id = $1
       RETURNING *
-    `, [req.params.assignmentId, actualHours.toFixed(2), latitude ?? null, longitude ?? null, distanceMeters]);
+    `, [req.params.assignmentId, actualHours.toFixed(2), geofence.latitude, geofence.longitude, geofence.distance_meters, geofence.zone,
+        checkOutTime]);
 
     // Check if all assignments are checked out
     const shiftId = (await db.query('SELECT shift_id FROM shift_assignments WHERE id = $1', [req.params.assignmentId])).rows[0].shift_id;
@@ -1059,9 +1975,17 @@ router.post('/check-out/:assignmentId', async (req, res) => {
       await db.query("UPDATE shifts SET status = 'completed' WHERE id = $1", [shiftId]);
     }
 
-    const response = { assignment: result.rows[0], message: 'דווח יציאה בהצלחה' };
-    if (locationWarning) response.location_warning = locationWarning;
-    if (distanceMeters !== null) response.distance_meters = distanceMeters;
+    const handover = await shiftHandoverService.record(req.params.assignmentId, req.body?.handover);
+
+    const exception = await geofenceService.recordPunch(req.params.assignmentId, 'check_out', geofence);
+
+    const response = { assignment: result.rows[0], message: 'דווח יציאה בהצלחה', zone: geofence.zone };
+    if (handover) response.handover = handover;
+    if (exception) {
+      response.geofence_exception = exception;
+      response.location_warning = geofenceService.warningFor(geofence);
+    }
+    if (geofence.distance_meters !== null) response.distance_meters = geofence.distance_meters;
     res.json(response);
   } catch (error) {
     console.error('Check-out error:', error);
@@ -1181,7 +2105,7 @@ router.post('/:id/remind/:assignmentId', requireManager, async (req, res) => {
   }
 });
 
-// Guard location report (every 5 minutes from frontend)
+// Guard location report: a single point (batches go to /location-report/bulk)
 router.post('/location-report', async (req, res) => {
   try {
     const assignment_id = req.body.assignment_id || req.body.shift_assignment_id;
@@ -1218,6 +2142,67 @@ router.post('/location-report', async (req, res) => {
   }
 });
 
+// Guard location batch: points buffered on the device during the shift.
+// Each point carries its own id, so re-sending a batch whose response got
+// lost does not duplicate the track. Points after check-out are still
+// accepted, so the tail of the buffer can be flushed once the guard leaves.
+router.post('/location-report/bulk', async (req, res) => {
+  try {
+    const { assignment_id, points } = req.body;
+    if (!assignment_id || !Array.isArray(points)) {
+      return res.status(400).json({ error: 'חסרים פרמטרים' });
+    }
+    if (points.length > MAX_LOCATION_BATCH) {
+      return res.status(400).json({ error: `ניתן לשלוח עד ${MAX_LOCATION_BATCH} נקודות בבקשה` });
+    }
+
+    const assignment = await db.query(`
+      SELECT sa.id, sa.employee_id, sa.check_in_time, sa.check_out_time, s.site_id
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON sa.employee_id = e.id
+      WHERE sa.id = $1 AND e.user_id = $2 AND sa.status IN ('checked_in', 'checked_out')
+    `, [assignment_id, req.user.id]);
+
+    if (assignment.rows.length === 0) {
+      return res.status(403).json({ error: 'שיבוץ לא תקין או שהעובד לא בצ\'ק-אין' });
+    }
+    const { employee_id, site_id, check_in_time, check_out_time } = assignment.rows[0];
+    // Punch times are UTC, in SQLite or PostgreSQL form
+    const utcMs = (v) => workHoursCompliance.parsePunch(v)?.getTime() ?? NaN;
+    const from = check_in_time ? utcMs(check_in_time) : -Infinity;
+    const until = check_out_time ? utcMs(check_out_time) : Infinity;
+
+    let accepted = 0;
+    let duplicates = 0;
+    for (const point of points) {
+      const latitude = Number(point?.latitude);
+      const longitude = Number(point?.longitude);
+      const accuracy = point?.accuracy == null ? null : Number(point.accuracy);
+      const time = recordedAt(point?.recorded_at);
+      const valid = typeof point?.id === 'string' && point.id.length <= 64
+        && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 && !(latitude === 0 && longitude === 0)
+        && (accuracy === null || accuracy <= MAX_LOCATION_ACCURACY_METERS)
+        && time && utcMs(time) >= from && utcMs(time) <= until;
+      if (!valid) continue;
+
+      const inserted = await db.query(`
+        INSERT INTO guard_locations (id, shift_assignment_id, employee_id, site_id, latitude, longitude, accuracy, recorded_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        ON CONFLICT (id) DO NOTHING
+      `, [point.id, assignment_id, employee_id, site_id, latitude, longitude, accuracy, time]);
+      // A re-sent point is already stored
+      if (inserted.rowCount) accepted++;
+      else duplicates++;
+    }
+
+    res.json({ success: true, accepted, duplicates, rejected: points.length - accepted - duplicates });
+  } catch (error) {
+    console.error('Bulk location report error:', error);
+    res.status(500).json({ error: 'שגיאה בדיווח מיקום' });
+  }
+});
+
 // Delete shift (admin/manager only)
 router.delete('/:id', requireManager, async (req, res) => {
   try {
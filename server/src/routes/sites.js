@@ -2,6 +2,8 @@ const express = require('express');
 const { query, generateUUID } = require('../config/database');
 const { authenticateToken, requireManager } = require('../middleware/auth');
 const { geocodeAddress } = require('../utils/geocoder');
+const postOrderService = require('../services/postOrderService');
+const readinessService = require('../services/readinessService');
 
 const router = express.Router();
 router.use(authenticateToken);
@@ -76,4 +78,88 @@ router.post('/geocode-all', requireManager, async (req, res) => {
   }
 });
 
+// ===== Post orders =====
+
+// Guard acknowledges a post order version (the Guard Panel asks before check-in)
+router.post('/post-orders/:postOrderId/acknowledge', async (req, res) => {
+  try {
+    const employee = await query('SELECT id FROM employees WHERE user_id = $1', [req.user.id]);
+    if (employee.rows.length === 0) {
+      return res.status(404).json({ error: 'לא נמצא פרופיל עובד עבור המשתמש' });
+    }
+    const result = await postOrderService.acknowledge(
+      req.params.postOrderId, employee.rows[0].id, req.body?.assignment_id || null
+    );
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ acknowledgement: result.acknowledgement, message: 'אישרת את הוראות האתר' });
+  } catch (error) {
+    console.error('Acknowledge post order error:', error);
+    res.status(500).json({ error: 'שגיאה באישור הוראות האתר' });
+  }
+});
+
+// All versions of a site's post orders, newest (current) first
+router.get('/:siteId/post-orders', requireManager, async (req, res) => {
+  try {
+    res.json({ versions: await postOrderService.listVersions(req.params.siteId) });
+  } catch (error) {
+    console.error('Get post orders error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת הוראות האתר' });
+  }
+});
+
+// Publish a revision: guards must acknowledge it again at their next check-in
+router.post('/:siteId/post-orders', requireManager, async (req, res) => {
+  try {
+    const result = await postOrderService.publish(req.params.siteId, req.body, req.user.id);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.status(201).json({
+      post_order: result.postOrder,
+      message: `גרסה ${result.postOrder.version} של הוראות האתר פורסמה`,
+    });
+  } catch (error) {
+    console.error('Publish post order error:', error);
+    res.status(500).json({ error: 'שגיאה בפרסום הוראות האתר' });
+  }
+});
+
+// Guards of the site who have / haven't acknowledged the current version
+router.get('/:siteId/post-orders/acknowledgements', requireManager, async (req, res) => {
+  try {
+    res.json(await postOrderService.getAcknowledgementStatus(req.params.siteId));
+  } catch (error) {
+    console.error('Get post order acknowledgements error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת אישורי הוראות האתר' });
+  }
+});
+
+// ===== Readiness checklist =====
+
+// Pre-shift checklist of the site (shift templates can override it)
+router.get('/:siteId/readiness-checklist', requireManager, async (req, res) => {
+  try {
+    res.json({ checklist: await readinessService.getChecklist({ siteId: req.params.siteId }) });
+  } catch (error) {
+    console.error('Get readiness checklist error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת רשימת הכשירות' });
+  }
+});
+
+router.put('/:siteId/readiness-checklist', requireManager, async (req, res) => {
+  try {
+    const result = await readinessService.saveChecklist({ siteId: req.params.siteId }, req.body, req.user.id);
+    if (result.error) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ checklist: result.checklist, message: 'רשימת הכשירות נשמרה' });
+  } catch (error) {
+    console.error('Save readiness checklist error:', error);
+    res.status(500).json({ error: 'שגיאה בשמירת רשימת הכשירות' });
+  }
+});
+
 module.exports = router;
@@ -0,0 +1,196 @@
+const express = require('express');
+const db = require('../config/database');
+const { authenticateToken, requireManager, requireAdmin } = require('../middleware/auth');
+const timesheetService = require('../services/timesheetService');
+const workHoursCompliance = require('../services/workHoursCompliance');
+
+const router = express.Router();
+router.use(authenticateToken);
+router.use(requireManager);
+
+// Punch times are stored like datetime('now'): UTC 'YYYY-MM-DD HH:MM:SS'.
+// null or '' clears the punch; undefined means the value is not a valid time.
+const toPunch = (value) => {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') return undefined;
+  const d = new Date(value);
+  return isNaN(d) ? undefined : d.toISOString().replace('T', ' ').slice(0, 19);
+};
+
+// Get payroll export layout (must be before /:month routes)
+router.get('/payroll-layout', async (req, res) => {
+  try {
+    const layout = await timesheetService.getLayout();
+    const fields = Object.entries(timesheetService.PAYROLL_FIELDS).map(([key, label]) => ({ key, label }));
+    res.json({ layout, fields });
+  } catch (error) {
+    console.error('Get payroll layout error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת תבנית השכר' });
+  }
+});
+
+// Save payroll export layout
+router.put('/payroll-layout', async (req, res) => {
+  try {
+    const layout = await timesheetService.saveLayout(req.body);
+    if (!layout) {
+      return res.status(400).json({ error: 'יש לבחור לפחות עמודה אחת' });
+    }
+    res.json({ layout, message: 'תבנית השכר נשמרה' });
+  } catch (error) {
+    console.error('Save payroll layout error:', error);
+    res.status(500).json({ error: 'שגיאה בשמירת תבנית השכר' });
+  }
+});
+
+// Correction history of an assignment
+router.get('/assignments/:assignmentId/corrections', async (req, res) => {
+  try {
+    const result = await db.query(`
+      SELECT tc.*, u.first_name || ' ' || u.last_name as corrected_by_name
+      FROM timesheet_corrections tc
+      LEFT JOIN users u ON tc.corrected_by = u.id
+      WHERE tc.assignment_id = $1
+      ORDER BY tc.created_at DESC
+    `, [req.params.assignmentId]);
+    res.json({ corrections: result.rows });
+  } catch (error) {
+    console.error('Get timesheet corrections error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת היסטוריית תיקונים' });
+  }
+});
+
+// Correct the punches of an assignment (reason required, month must be open)
+router.patch('/assignments/:assignmentId', async (req, res) => {
+  try {
+    const { check_in_time, check_out_time, reason } = req.body;
+    if (!reason || !String(reason).trim()) {
+      return res.status(400).json({ error: 'יש לציין סיבת תיקון' });
+    }
+
+    const assignmentResult = await db.query(`
+      SELECT sa.id, sa.employee_id, sa.status, sa.check_in_time, sa.check_out_time, s.date
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      WHERE sa.id = $1
+    `, [req.params.assignmentId]);
+    const assignment = assignmentResult.rows[0];
+    if (!assignment) {
+      return res.status(404).json({ error: 'שיבוץ לא נמצא' });
+    }
+
+    if ((await timesheetService.getLock(assignment.date.slice(0, 7))).locked) {
+      return res.status(409).json({ error: 'החודש נעול לתיקונים' });
+    }
+
+    const updates = {
+      check_in_time: check_in_time !== undefined ? toPunch(check_in_time) : assignment.check_in_time,
+      check_out_time: check_out_time !== undefined ? toPunch(check_out_time) : assignment.check_out_time,
+    };
+    if (updates.check_in_time === undefined || updates.check_out_time === undefined) {
+      return res.status(400).json({ error: 'זמן החתמה לא תקין' });
+    }
+
+    const checkIn = workHoursCompliance.parsePunch(updates.check_in_time);
+    const checkOut = workHoursCompliance.parsePunch(updates.check_out_time);
+    if (checkOut && !checkIn) {
+      return res.status(400).json({ error: 'לא ניתן להזין יציאה ללא כניסה' });
+    }
+    let actualHours = null;
+    if (checkIn && checkOut) {
+      actualHours = (checkOut - checkIn) / (1000 * 60 * 60);
+      if (actualHours <= 0 || actualHours > 24) {
+        return res.status(400).json({ error: 'שעת היציאה חייבת להיות אחרי הכניסה ובתוך 24 שעות' });
+      }
+    }
+
+    const changed = ['check_in_time', 'check_out_time'].filter(f => updates[f] !== assignment[f]);
+    if (changed.length === 0) {
+      return res.status(400).json({ error: 'לא בוצע שינוי' });
+    }
+
+    for (const field of changed) {
+      await db.query(`
+        INSERT INTO timesheet_corrections (id, assignment_id, employee_id, field, old_value, new_value, reason, corrected_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `, [db.generateUUID(), assignment.id, assignment.employee_id, field, assignment[field], updates[field], String(reason).trim(), req.user.id]);
+    }
+
+    const status = checkOut ? 'checked_out' : checkIn ? 'checked_in' : assignment.status;
+    const result = await db.query(`
+      UPDATE shift_assignments SET check_in_time = $2, check_out_time = $3, actual_hours = $4, status = $5
+      WHERE id = $1
+      RETURNING *
+    `, [assignment.id, updates.check_in_time, updates.check_out_time, actualHours !== null ? actualHours.toFixed(2) : null, status]);
+
+    res.json({ assignment: result.rows[0], message: 'ההחתמה עודכנה' });
+  } catch (error) {
+    console.error('Correct timesheet punch error:', error);
+    res.status(500).json({ error: 'שגיאה בתיקון החתמה' });
+  }
+});
+
+// Monthly timesheet review
+router.get('/:month', async (req, res) => {
+  try {
+    if (!timesheetService.isValidMonth(req.params.month)) {
+      return res.status(400).json({ error: 'חודש לא תקין' });
+    }
+    res.json(await timesheetService.getMonth(req.params.month));
+  } catch (error) {
+    console.error('Get timesheet error:', error);
+    res.status(500).json({ error: 'שגיאה בטעינת דוח נוכחות' });
+  }
+});
+
+// Payroll rows plus the export layout
+router.get('/:month/payroll', async (req, res) => {
+  try {
+    if (!timesheetService.isValidMonth(req.params.month)) {
+      return res.status(400).json({ error: 'חודש לא תקין' });
+    }
+    const payroll = await timesheetService.getPayrollRows(req.params.month);
+    const layout = await timesheetService.getLayout();
+    res.json({ ...payroll, layout });
+  } catch (error) {
+    console.error('Get payroll export error:', error);
+    res.status(500).json({ error: 'שגיאה בהפקת קובץ שכר' });
+  }
+});
+
+// Lock a month. Refuses while punches are missing unless force is set
+router.post('/:month/lock', async (req, res) => {
+  try {
+    const { month } = req.params;
+    if (!timesheetService.isValidMonth(month)) {
+      return res.status(400).json({ error: 'חודש לא תקין' });
+    }
+
+    if (!req.body?.force) {
+      const { employees } = await timesheetService.getMonth(month);
+      const missing = employees.reduce((s, e) => s + e.missing_punches, 0);
+      if (missing > 0) {
+        return res.status(409).json({ error: `קיימות ${missing} החתמות חסרות בחודש`, missing_punches: missing });
+      }
+    }
+
+    await timesheetService.lock(month, req.user.id);
+    res.json({ lock: await timesheetService.getLock(month), message: 'החודש ננעל' });
+  } catch (error) {
+    console.error('Lock timesheet error:', error);
+    res.status(500).json({ error: 'שגיאה בנעילת החודש' });
+  }
+});
+
+// Reopen a locked month (admin only)
+router.delete('/:month/lock', requireAdmin, async (req, res) => {
+  try {
+    await timesheetService.unlock(req.params.month);
+    res.json({ lock: { locked: false }, message: 'החודש נפתח לתיקונים' });
+  } catch (error) {
+    console.error('Unlock timesheet error:', error);
+    res.status(500).json({ error: 'שגיאה בפתיחת החודש' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,57 @@
+jest.mock('../../config/database', () => ({ query: jest.fn() }));
+
+const { query } = require('../../config/database');
+const assignmentValidator = require('../assignmentValidator');
+
+const shift = (date, start_time = '08:00', end_time = '20:00', id = `shift-${date}`) =>
+  ({ id, date, start_time, end_time, site_name: 'אתר' });
+
+/** Answers the validator's queries: the employee, their other shifts, no config or certifications */
+function mockDatabase(others) {
+  const calls = [];
+  query.mockImplementation(async (sql, params) => {
+    calls.push({ sql, params });
+    if (sql.includes('FROM employees')) return { rows: [{ id: 'emp-1', has_weapon_license: 1 }] };
+    if (sql.includes('si.name as site_name') && sql.includes('FROM shift_assignments')) return { rows: others };
+    return { rows: [] };
+  });
+  return calls;
+}
+
+describe('assignmentValidator week window', () => {
+  test('a Sunday shift starts its own week', async () => {
+    const calls = mockDatabase([]);
+    await assignmentValidator.validate(shift('2026-10-18'), 'emp-1');
+
+    const others = calls.find(c => c.sql.includes('si.name as site_name'));
+    // The day before (rest period) through Saturday of the same week
+    expect(others.params.slice(1, 3)).toEqual(['2026-10-17', '2026-10-24']);
+  });
+
+  test('the previous Saturday does not count towards the weekly hours', async () => {
+    // 12 + 4 x 11 = 56 hours this week; with Saturday it would be 68
+    mockDatabase([
+      shift('2026-10-17'),
+      ...['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22'].map(d => shift(d, '08:00', '19:00')),
+    ]);
+    const issues = await assignmentValidator.validate(shift('2026-10-18'), 'emp-1');
+
+    expect(issues.map(i => i.code)).not.toContain('weekly_hours');
+  });
+
+  test('hours from Sunday to Saturday are added up', async () => {
+    mockDatabase(['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23'].map(d => shift(d)));
+    const issues = await assignmentValidator.validate(shift('2026-10-18'), 'emp-1');
+
+    const weekly = issues.find(i => i.code === 'weekly_hours');
+    expect(weekly).toBeDefined();
+    expect(weekly.message).toContain('72');
+  });
+
+  test('a shift crossing midnight overlaps the next morning', async () => {
+    mockDatabase([shift('2026-10-19', '06:00', '14:00')]);
+    const issues = await assignmentValidator.validate(shift('2026-10-18', '22:00', '07:00'), 'emp-1');
+
+    expect(issues.find(i => i.code === 'overlap')).toMatchObject({ severity: 'error', overridable: false });
+  });
+});
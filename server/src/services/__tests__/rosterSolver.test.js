@@ -0,0 +1,132 @@
+jest.mock('../../config/database', () => ({ query: jest.fn() }));
+jest.mock('../shiftIntelligence', () => ({ analyzeFatigueRisk: jest.fn() }));
+jest.mock('../availabilityService', () => ({
+  getUnavailableEmployeeIds: jest.fn(),
+  getPreferredShiftTypes: jest.fn(),
+  shiftTypeOf: jest.fn(() => 'morning'),
+}));
+
+const { query } = require('../../config/database');
+const shiftIntelligence = require('../shiftIntelligence');
+const availabilityService = require('../availabilityService');
+const rosterSolver = require('../rosterSolver');
+
+// Sunday 2026-10-18 to Saturday 2026-10-24
+const WEEK_START = '2026-10-18';
+
+const employee = (id, extra = {}) => ({ id, first_name: id, last_name: 'לוי', has_weapon_license: 0, ...extra });
+const openShift = (id, date, start_time = '08:00', end_time = '16:00', extra = {}) => ({
+  id, date, start_time, end_time, required_employees: 1, requires_weapon: 0, site_id: 'site-1',
+  company_name: 'לקוח', site_name: 'אתר', required_certifications: null, assigned_count: 0, ...extra,
+});
+
+/** Serves the solver's queries by their SQL; returns the recorded params */
+function mockData({ shifts = [], employees = [], certs = [], existing = [], familiarity = [] }) {
+  const params = {};
+  query.mockImplementation(async (sql, p) => {
+    if (sql.includes('system_config')) return { rows: [] };
+    if (sql.includes('FROM guard_certifications')) return { rows: certs };
+    if (sql.includes('FROM employees')) return { rows: employees };
+    if (sql.includes('GROUP BY sa.employee_id, s.site_id')) {
+      params.familiarity = p;
+      return { rows: familiarity };
+    }
+    if (sql.includes('FROM shift_assignments sa')) {
+      params.existing = p;
+      return { rows: existing };
+    }
+    if (sql.includes('FROM shifts s')) {
+      params.shifts = p;
+      return { rows: shifts };
+    }
+    return { rows: [] };
+  });
+  return params;
+}
+
+beforeEach(() => {
+  shiftIntelligence.analyzeFatigueRisk.mockResolvedValue([]);
+  availabilityService.getUnavailableEmployeeIds.mockResolvedValue(new Set());
+  availabilityService.getPreferredShiftTypes.mockResolvedValue({});
+});
+
+describe('proposeWeek date windows', () => {
+  test('the week runs Sunday to Saturday in local dates', async () => {
+    const params = mockData({ shifts: [openShift('sat', '2026-10-24')], employees: [employee('a')] });
+    await rosterSolver.proposeWeek(WEEK_START);
+
+    expect(params.shifts).toEqual(['2026-10-18', '2026-10-24']);
+    expect(params.existing).toEqual(['2026-10-17', '2026-10-25']);
+    expect(params.familiarity).toEqual(['2026-07-20', WEEK_START]);
+  });
+
+  test('Saturday shifts are proposed', async () => {
+    mockData({ shifts: [openShift('sat', '2026-10-24')], employees: [employee('a')] });
+    const result = await rosterSolver.proposeWeek(WEEK_START);
+
+    expect(result.proposals).toEqual([expect.objectContaining({ shift_id: 'sat', employee_id: 'a' })]);
+    expect(result.stats).toEqual({ open_slots: 1, filled: 1 });
+  });
+});
+
+describe('proposeWeek rules', () => {
+  test('keeps the minimum rest after a shift ending on the previous Saturday night', async () => {
+    mockData({
+      shifts: [openShift('sun', '2026-10-18', '06:00', '14:00')],
+      employees: [employee('a'), employee('b')],
+      existing: [{ employee_id: 'a', date: '2026-10-17', start_time: '16:00', end_time: '00:00' }],
+    });
+    const result = await rosterSolver.proposeWeek(WEEK_START);
+
+    expect(result.proposals.map(p => p.employee_id)).toEqual(['b']);
+  });
+
+  test('site certifications are required', async () => {
+    mockData({
+      shifts: [openShift('s1', '2026-10-19', '08:00', '16:00', { required_certifications: '["first_aid"]' })],
+      employees: [employee('a'), employee('b')],
+      certs: [{ employee_id: 'b', cert_type: 'first_aid', expiry_date: '2027-01-01' }],
+    });
+    const result = await rosterSolver.proposeWeek(WEEK_START);
+
+    expect(result.proposals.map(p => p.employee_id)).toEqual(['b']);
+  });
+
+  test('an expired certification leaves the slot unfilled', async () => {
+    mockData({
+      shifts: [openShift('s1', '2026-10-19', '08:00', '16:00', { required_certifications: '["first_aid"]' })],
+      employees: [employee('a')],
+      certs: [{ employee_id: 'a', cert_type: 'first_aid', expiry_date: '2026-10-01' }],
+    });
+    const result = await rosterSolver.proposeWeek(WEEK_START);
+
+    expect(result.proposals).toEqual([]);
+    expect(result.unfilled).toEqual([expect.objectContaining({ shift_id: 's1', missing: 1 })]);
+  });
+
+  test('prefers the guard with fewer hours this week', async () => {
+    mockData({
+      shifts: [openShift('s1', '2026-10-22')],
+      employees: [employee('a'), employee('b')],
+      existing: [{ employee_id: 'a', date: '2026-10-19', start_time: '08:00', end_time: '16:00' }],
+    });
+    const result = await rosterSolver.proposeWeek(WEEK_START);
+
+    expect(result.proposals[0].employee_id).toBe('b');
+  });
+
+  test('a guard is proposed once per shift and not for overlapping shifts', async () => {
+    mockData({
+      shifts: [
+        openShift('s1', '2026-10-20', '08:00', '16:00', { required_employees: 2 }),
+        openShift('s2', '2026-10-20', '12:00', '20:00'),
+      ],
+      employees: [employee('a'), employee('b')],
+    });
+    const result = await rosterSolver.proposeWeek(WEEK_START);
+
+    const s1 = result.proposals.filter(p => p.shift_id === 's1').map(p => p.employee_id).sort();
+    expect(s1).toEqual(['a', 'b']);
+    expect(result.unfilled).toEqual([expect.objectContaining({ shift_id: 's2' })]);
+  });
+});
@@ -0,0 +1,97 @@
+jest.mock('../../config/database', () => ({ query: jest.fn(), generateUUID: jest.fn() }));
+
+const { query } = require('../../config/database');
+const timesheetService = require('../timesheetService');
+
+/** Stored punch (UTC 'YYYY-MM-DD HH:MM:SS') of a local time */
+const punch = (local) => new Date(local).toISOString().replace('T', ' ').slice(0, 19);
+
+let nextId = 0;
+const row = (date, start_time, end_time, checkIn, checkOut, extra = {}) => ({
+  assignment_id: `a-${++nextId}`,
+  employee_id: 'emp-1',
+  status: 'completed',
+  check_in_time: checkIn ? punch(checkIn) : null,
+  check_out_time: checkOut ? punch(checkOut) : null,
+  shift_id: `s-${nextId}`,
+  date,
+  start_time,
+  end_time,
+  first_name: 'דנה',
+  last_name: 'לוי',
+  corrections: 0,
+  ...extra,
+});
+
+/** Serves the month's assignments, calendar exceptions and default config */
+function mockMonth(rows, exceptions = []) {
+  query.mockImplementation(async (sql) => {
+    if (sql.includes('FROM shift_assignments')) return { rows };
+    if (sql.includes('calendar_exceptions')) return { rows: exceptions };
+    return { rows: [] };
+  });
+}
+
+async function entries(rows, exceptions) {
+  mockMonth(rows, exceptions);
+  const month = await timesheetService.getMonth('2026-09');
+  return month.employees[0].entries;
+}
+
+describe('getMonth payroll buckets', () => {
+  test('a regular day is all regular hours', async () => {
+    const [entry] = await entries([row('2026-09-01', '08:00', '16:00', '2026-09-01T08:00', '2026-09-01T16:00')]);
+    expect(entry.buckets).toMatchObject({ total_hours: 8, regular_hours: 8, overtime_125_hours: 0, overtime_150_hours: 0 });
+  });
+
+  test('two hours beyond the regular day are at 125%, the rest at 150%', async () => {
+    const [entry] = await entries([row('2026-09-01', '07:00', '18:00', '2026-09-01T07:00', '2026-09-01T18:00')]);
+    expect(entry.buckets).toMatchObject({ total_hours: 11, regular_hours: 8, overtime_125_hours: 2, overtime_150_hours: 1 });
+  });
+
+  test('overtime is split across the shifts of a day in punch order', async () => {
+    const [morning, evening] = await entries([
+      row('2026-09-01', '06:00', '12:00', '2026-09-01T06:00', '2026-09-01T12:00'),
+      row('2026-09-01', '14:00', '19:00', '2026-09-01T14:00', '2026-09-01T19:00'),
+    ]);
+    expect(morning.buckets).toMatchObject({ regular_hours: 6, overtime_125_hours: 0 });
+    expect(evening.buckets).toMatchObject({ regular_hours: 2, overtime_125_hours: 2, overtime_150_hours: 1 });
+  });
+
+  test('a night day has seven regular hours', async () => {
+    const [entry] = await entries([row('2026-09-01', '22:00', '06:00', '2026-09-01T22:00', '2026-09-02T06:00')]);
+    expect(entry.buckets).toMatchObject({ total_hours: 8, regular_hours: 7, overtime_125_hours: 1, night_hours: 8 });
+  });
+
+  test('Shabbat hours start on Friday evening', async () => {
+    const [entry] = await entries([row('2026-09-04', '14:00', '22:00', '2026-09-04T14:00', '2026-09-04T22:00')]);
+    expect(entry.buckets.shabbat_hours).toBe(4);
+  });
+
+  test('a holiday counts like Shabbat unless it is a workday', async () => {
+    const shift = () => row('2026-09-22', '08:00', '16:00', '2026-09-22T08:00', '2026-09-22T16:00');
+    const [holiday] = await entries([shift()], [{ date: '2026-09-22', type: 'holiday', is_workday: 0 }]);
+    expect(holiday.buckets.shabbat_hours).toBe(8);
+
+    const [workday] = await entries([shift()], [{ date: '2026-09-22', type: 'holiday', is_workday: 1 }]);
+    expect(workday.buckets.shabbat_hours).toBe(0);
+  });
+});
+
+describe('getMonth missing punches', () => {
+  test('a shift without a check-out is reported and not paid', async () => {
+    mockMonth([row('2026-09-01', '08:00', '16:00', '2026-09-01T08:00', null)]);
+    const month = await timesheetService.getMonth('2026-09');
+    const [employee] = month.employees;
+
+    expect(employee.entries[0].missing).toEqual(['check_out']);
+    expect(employee.entries[0].buckets.total_hours).toBe(0);
+    expect(employee.missing_punches).toBe(1);
+    expect(employee.days_worked).toBe(0);
+  });
+
+  test('no-shows are not missing punches', async () => {
+    const [entry] = await entries([row('2026-09-01', '08:00', '16:00', null, null, { status: 'no_show' })]);
+    expect(entry.missing).toEqual([]);
+  });
+});
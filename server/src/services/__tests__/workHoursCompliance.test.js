@@ -0,0 +1,159 @@
+jest.mock('../../config/database', () => ({ query: jest.fn() }));
+
+const { query } = require('../../config/database');
+const workHoursCompliance = require('../workHoursCompliance');
+
+const EMPLOYEE = 'emp-1';
+
+// Sunday 2026-11-01 to Saturday 2026-11-07, clear of the daylight saving change
+const WEEK = ['2026-11-01', '2026-11-02', '2026-11-03', '2026-11-04', '2026-11-05', '2026-11-06', '2026-11-07'];
+
+const assignment = (date, start_time = '08:00', end_time = '16:00', extra = {}) =>
+  ({ employee_id: EMPLOYEE, shift_id: `shift-${date}-${start_time}`, date, start_time, end_time, ...extra });
+
+/** Serves the given assignments to the interval query, and default limits */
+function mockAssignments(rows, config = []) {
+  query.mockImplementation(async (sql) => {
+    if (sql.includes('system_config')) return { rows: config };
+    if (sql.includes('FROM shift_assignments')) return { rows };
+    return { rows: [] };
+  });
+}
+
+const codes = (result) => result.violations.map(v => v.code);
+
+// The rest check looks at breaks touching the week, so the neighbouring weeks are worked too
+const withNeighbours = (rows) => [assignment('2026-10-31'), ...rows, assignment('2026-11-08')];
+
+describe('night hours', () => {
+  test('counts the hours between 22:00 and 06:00', () => {
+    const start = new Date('2026-11-01T20:00:00');
+    const end = new Date('2026-11-02T08:00:00');
+    expect(workHoursCompliance.nightHours(start, end)).toBe(8);
+  });
+
+  test('a shift with under two night hours is not a night shift', () => {
+    expect(workHoursCompliance.isNightShift(new Date('2026-11-01T14:00:00'), new Date('2026-11-01T23:00:00'))).toBe(false);
+    expect(workHoursCompliance.isNightShift(new Date('2026-11-01T16:00:00'), new Date('2026-11-02T00:00:00'))).toBe(true);
+  });
+
+  test('punches are read as UTC', () => {
+    // Israel is UTC+2 in November
+    expect(workHoursCompliance.parsePunch('2026-11-01 06:00:00').getHours()).toBe(8);
+    expect(workHoursCompliance.parsePunch(null)).toBeNull();
+  });
+
+  test('PostgreSQL timestamps keep their offset and fraction', () => {
+    const expected = new Date('2026-11-01T06:00:00.123Z').getTime();
+    expect(workHoursCompliance.parsePunch('2026-11-01 06:00:00.123456+00').getTime()).toBe(expected);
+    expect(workHoursCompliance.parsePunch('2026-11-01 08:00:00.123+02:00').getTime()).toBe(expected);
+    expect(workHoursCompliance.parsePunch('2026-11-01T08:00:00.123+0200').getTime()).toBe(expected);
+    expect(workHoursCompliance.parsePunch('2026-11-01T06:00:00.123Z').getTime()).toBe(expected);
+    expect(workHoursCompliance.parsePunch('not a time')).toBeNull();
+  });
+});
+
+describe('weekly evaluation', () => {
+  test('a free Saturday gives the 36 hours of weekly rest', async () => {
+    mockAssignments(withNeighbours(WEEK.slice(0, 6).map(d => assignment(d))));
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, WEEK[0], WEEK[6]);
+
+    // Friday 16:00 to Sunday 08:00
+    expect(result.weeks[0].longest_rest_hours).toBe(40);
+    expect(codes(result)).not.toContain('weekly_rest');
+  });
+
+  test('working all seven days breaks the weekly rest', async () => {
+    mockAssignments(withNeighbours(WEEK.map(d => assignment(d))));
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, WEEK[0], WEEK[6]);
+
+    expect(codes(result)).toContain('weekly_rest');
+  });
+
+  test('hours above the weekly regular hours are overtime', async () => {
+    // Six 11-hour days: 66 hours, 24 above the 42 regular ones
+    mockAssignments(WEEK.slice(0, 6).map(d => assignment(d, '07:00', '18:00')));
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, WEEK[0], WEEK[6]);
+
+    expect(result.weeks[0].overtime_hours).toBe(24);
+    expect(codes(result)).toContain('overtime_cap');
+    expect(codes(result)).not.toContain('daily_hours');
+  });
+
+  test('daily overtime counts in a short week', async () => {
+    // Three 12-hour days: 36 hours in the week, but 4 overtime hours a day
+    mockAssignments(WEEK.slice(0, 3).map(d => assignment(d, '06:00', '18:00')));
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, WEEK[0], WEEK[6]);
+
+    expect(result.weeks[0].overtime_hours).toBe(12);
+    expect(codes(result)).not.toContain('overtime_cap');
+  });
+
+  test('a night shift has seven regular hours', async () => {
+    mockAssignments([assignment(WEEK[0], '22:00', '06:00')]);
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, WEEK[0], WEEK[6]);
+
+    expect(result.weeks[0].overtime_hours).toBe(1);
+    expect(result.night_shifts).toBe(1);
+  });
+
+  test('a shift is measured in real hours across the clock change', async () => {
+    // Clocks go back at 02:00 on 2026-10-25, so 22:00-06:00 is nine hours
+    mockAssignments([assignment('2026-10-24', '22:00', '06:00')]);
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, '2026-10-18', '2026-10-24');
+
+    expect(result.total_hours).toBe(9);
+    expect(result.weeks[0].week_start).toBe('2026-10-18');
+  });
+
+  test('more than the daily maximum is flagged', async () => {
+    mockAssignments([assignment(WEEK[1], '06:00', '19:00')]);
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, WEEK[0], WEEK[6]);
+
+    expect(result.violations).toEqual([expect.objectContaining({ code: 'daily_hours', date: WEEK[1] })]);
+  });
+
+  test('actual punches replace the schedule', async () => {
+    mockAssignments([assignment(WEEK[1], '08:00', '16:00', {
+      check_in_time: '2026-11-02 06:00:00',
+      check_out_time: '2026-11-02 17:00:00',
+    })]);
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, WEEK[0], WEEK[6]);
+
+    expect(result.total_hours).toBe(11);
+  });
+});
+
+describe('night rotation', () => {
+  const nights = (dates) => dates.map(d => assignment(d, '22:00', '06:00'));
+
+  test('night shifts in a third week running are flagged', async () => {
+    mockAssignments(nights(['2026-11-02', '2026-11-09', '2026-11-16']));
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, '2026-11-15', '2026-11-21');
+
+    expect(result.violations).toEqual([expect.objectContaining({ code: 'night_rotation', severity: 'warning' })]);
+  });
+
+  test('a week without nights resets the rotation', async () => {
+    mockAssignments(nights(['2026-11-02', '2026-11-16']));
+    const result = await workHoursCompliance.analyzeEmployee(EMPLOYEE, '2026-11-15', '2026-11-21');
+
+    expect(codes(result)).not.toContain('night_rotation');
+  });
+});
+
+describe('checkAssignment', () => {
+  test('reports only the violations the new shift introduces', async () => {
+    mockAssignments(withNeighbours(WEEK.slice(0, 6).map(d => assignment(d))));
+    const issues = await workHoursCompliance.checkAssignment({ id: 'new', ...assignment(WEEK[6]) }, EMPLOYEE);
+
+    expect(issues).toEqual([expect.objectContaining({ code: 'labor_weekly_rest', severity: 'error', overridable: true })]);
+  });
+
+  test('warn enforcement turns violations into warnings', async () => {
+    mockAssignments(withNeighbours(WEEK.slice(0, 6).map(d => assignment(d))), [{ key: 'labor_enforcement', value: 'warn' }]);
+    const issues = await workHoursCompliance.checkAssignment({ id: 'new', ...assignment(WEEK[6]) }, EMPLOYEE);
+
+    expect(issues.map(i => i.severity)).toEqual(['warning']);
+  });
+});
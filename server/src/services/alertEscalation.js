@@ -5,6 +5,7 @@
  */
 const db = require('../config/database');
 const crypto = require('crypto');
+const pushService = require('./pushService');
 
 class AlertEscalation {
   /**
@@ -99,6 +100,14 @@ class AlertEscalation {
       ]);
     }
 
+    // Same alert pushed to their devices, in case the app is closed
+    await pushService.sendToUsers(admins.rows.map(a => a.id), 'critical_alerts', {
+      title: `\u26A0\uFE0F אסקלציה: ${notification.title}`,
+      body: notification.message,
+      url: '/',
+      tag: `escalation-${notification.id}`,
+    });
+
     // 3. Try to send WhatsApp to admin users with phones
     try {
       const whatsappService = require('./whatsapp');
@@ -0,0 +1,264 @@
+/**
+ * Assignment Validator Service
+ * Pre-assignment conflict and compliance checks for shift assignments:
+ * overlaps, weapon license / certifications, rest period and weekly hours,
+ * plus the Hours of Work and Rest Law rules (workHoursCompliance).
+ */
+const { query } = require('../config/database');
+const workHoursCompliance = require('./workHoursCompliance');
+
+// Defaults, overridable through system_config (same keys)
+const DEFAULT_LIMITS = {
+  min_rest_hours: 8,
+  max_weekly_hours: 58,
+};
+
+const WEAPON_CERT_TYPES = ['weapon', 'firearm', 'armed_guard'];
+
+// ── Date Helpers ─────────────────────────────────────────────────────────────
+
+// Local calendar date; toISOString() would shift local midnight to the previous day
+function toDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Resolve a shift's start/end as Date objects. Shifts whose end time is not
+ * after the start time cross midnight and end on the following day.
+ */
+function shiftRange(date, startTime, endTime) {
+  const start = new Date(`${date}T${startTime}`);
+  const end = new Date(`${date}T${endTime}`);
+  if (end <= start) end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+function hoursBetween(a, b) {
+  return (b - a) / (1000 * 60 * 60);
+}
+
+// ── Assignment Validator Class ───────────────────────────────────────────────
+
+class AssignmentValidator {
+  /**
+   * Load the shift fields the validator needs
+   * @param {string} shiftId
+   * @returns {object|null}
+   */
+  async loadShift(shiftId) {
+    const result = await query(`
+      SELECT s.id, s.date, s.start_time, s.end_time, s.requires_weapon, s.site_id,
+             si.name as site_name, si.required_certifications
+      FROM shifts s
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.id = $1
+    `, [shiftId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Resolve the rest / weekly-hours limits currently in force
+   * @returns {{min_rest_hours: number, max_weekly_hours: number}}
+   */
+  async getLimits() {
+    return {
+      min_rest_hours: await this._getLimit('min_rest_hours'),
+      max_weekly_hours: await this._getLimit('max_weekly_hours'),
+    };
+  }
+
+  shiftRange(date, startTime, endTime) {
+    return shiftRange(date, startTime, endTime);
+  }
+
+  /**
+   * Whether an employee may carry a weapon on a given date, by license or certification
+   * @param {object} employee - { has_weapon_license, weapon_license_expiry }
+   * @param {Set<string>} validCertTypes - Cert types valid on that date
+   * @param {string} date - YYYY-MM-DD
+   */
+  hasWeaponClearance(employee, validCertTypes, date) {
+    const hasLicense = employee.has_weapon_license &&
+      (!employee.weapon_license_expiry || employee.weapon_license_expiry >= date);
+    return !!hasLicense || WEAPON_CERT_TYPES.some(t => validCertTypes.has(t));
+  }
+
+  async _getLimit(key) {
+    try {
+      const result = await query('SELECT value FROM system_config WHERE key = $1', [key]);
+      const value = parseFloat(result.rows[0]?.value);
+      if (!isNaN(value) && value > 0) return value;
+    } catch (e) { /* fall back to default */ }
+    return DEFAULT_LIMITS[key];
+  }
+
+  /**
+   * Validate assigning an employee to a shift
+   * @param {object} shift - { id?, date, start_time, end_time, requires_weapon, site_id?, required_certifications? }
+   * @param {string} employeeId
+   * @param {object} [options]
+   * @param {string[]} [options.ignoreShiftIds] - Shifts the employee is about to leave (swaps)
+   * @returns {Array<{code: string, severity: 'error'|'warning', message: string, overridable: boolean}>}
+   */
+  async validate(shift, employeeId, { ignoreShiftIds = [] } = {}) {
+    const issues = [];
+
+    const empResult = await query(
+      'SELECT id, has_weapon_license, weapon_license_expiry FROM employees WHERE id = $1',
+      [employeeId]
+    );
+    const employee = empResult.rows[0];
+    if (!employee) return issues;
+
+    const target = shiftRange(shift.date, shift.start_time, shift.end_time);
+
+    // ── 1. Load the employee's shifts around the target week ────────────
+    const shiftDate = new Date(shift.date + 'T00:00:00');
+    const weekStart = new Date(shiftDate);
+    weekStart.setDate(shiftDate.getDate() - shiftDate.getDay()); // Sunday
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekStart.getDate() + 6); // Saturday
+    const rangeStart = new Date(Math.min(weekStart, shiftDate - 24 * 60 * 60 * 1000));
+    const rangeEnd = new Date(Math.max(weekEnd, shiftDate.getTime() + 24 * 60 * 60 * 1000));
+
+    const othersResult = await query(`
+      SELECT s.id, s.date, s.start_time, s.end_time, si.name as site_name
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE sa.employee_id = $1
+      AND sa.status != 'cancelled'
+      AND s.date BETWEEN $2 AND $3
+      AND s.id != $4
+    `, [employeeId, toDateStr(rangeStart), toDateStr(rangeEnd), shift.id || '']);
+    const others = othersResult.rows.filter(o => !ignoreShiftIds.includes(o.id));
+
+    // ── 2. Overlaps and rest period ─────────────────────────────────────
+    const minRest = await this._getLimit('min_rest_hours');
+    let shortestRest = null;
+
+    for (const other of others) {
+      const range = shiftRange(other.date, other.start_time, other.end_time);
+
+      if (range.start < target.end && range.end > target.start) {
+        issues.push({
+          code: 'overlap',
+          severity: 'error',
+          message: `משמרת חופפת ב${other.site_name || 'אתר אחר'} (${other.date} ${other.start_time}-${other.end_time})`,
+          overridable: false,
+        });
+        continue;
+      }
+
+      const gap = range.end <= target.start
+        ? hoursBetween(range.end, target.start)
+        : hoursBetween(target.end, range.start);
+      if (shortestRest === null || gap < shortestRest) shortestRest = gap;
+    }
+
+    if (shortestRest !== null && shortestRest < minRest) {
+      issues.push({
+        code: 'rest_period',
+        severity: 'error',
+        message: `מנוחה של ${Math.round(shortestRest * 10) / 10} שעות בלבד בין משמרות (מינימום ${minRest})`,
+        overridable: true,
+      });
+    }
+
+    // ── 3. Weekly hours cap ─────────────────────────────────────────────
+    const maxWeekly = await this._getLimit('max_weekly_hours');
+    const weekStartStr = toDateStr(weekStart);
+    const weekEndStr = toDateStr(weekEnd);
+    let weeklyHours = hoursBetween(target.start, target.end);
+    for (const other of others) {
+      if (other.date < weekStartStr || other.date > weekEndStr) continue;
+      const range = shiftRange(other.date, other.start_time, other.end_time);
+      weeklyHours += hoursBetween(range.start, range.end);
+    }
+    if (weeklyHours > maxWeekly) {
+      issues.push({
+        code: 'weekly_hours',
+        severity: 'error',
+        message: `${Math.round(weeklyHours * 10) / 10} שעות בשבוע חורג מהמכסה (${maxWeekly})`,
+        overridable: true,
+      });
+    }
+
+    // ── 4. Weapon license ───────────────────────────────────────────────
+    const certs = await query(`
+      SELECT cert_type, cert_name, expiry_date
+      FROM guard_certifications
+      WHERE employee_id = $1 AND status = 'active'
+    `, [employeeId]);
+    const validCerts = certs.rows.filter(c => !c.expiry_date || c.expiry_date >= shift.date);
+    const validCertTypes = new Set(validCerts.map(c => c.cert_type));
+
+    if (shift.requires_weapon) {
+      if (!this.hasWeaponClearance(employee, validCertTypes, shift.date)) {
+        issues.push({
+          code: 'weapon_license',
+          severity: 'error',
+          message: employee.has_weapon_license
+            ? `רישיון הנשק פג תוקף (${employee.weapon_license_expiry})`
+            : 'המשמרת דורשת נשק ולעובד אין רישיון נשק',
+          overridable: true,
+        });
+      }
+    }
+
+    // ── 5. Site certifications ──────────────────────────────────────────
+    let requiredCerts = [];
+    try {
+      requiredCerts = JSON.parse(shift.required_certifications || '[]');
+    } catch (e) { /* ignore */ }
+
+    for (const certType of requiredCerts) {
+      if (validCertTypes.has(certType)) continue;
+      const expired = certs.rows.find(c => c.cert_type === certType);
+      issues.push({
+        code: 'certification',
+        severity: 'error',
+        message: expired
+          ? `הסמכה "${expired.cert_name || certType}" פגה (${expired.expiry_date})`
+          : `חסרה הסמכה נדרשת לאתר: ${certType}`,
+        overridable: true,
+      });
+    }
+
+    // Certifications expiring within a week of the shift
+    const soon = new Date(shiftDate);
+    soon.setDate(soon.getDate() + 7);
+    const soonStr = toDateStr(soon);
+    for (const cert of validCerts) {
+      if (cert.expiry_date && cert.expiry_date <= soonStr) {
+        issues.push({
+          code: 'certification_expiring',
+          severity: 'warning',
+          message: `הסמכה "${cert.cert_name || cert.cert_type}" פגה ב-${cert.expiry_date}`,
+          overridable: true,
+        });
+      }
+    }
+
+    // ── 6. Hours of Work and Rest Law ───────────────────────────────────
+    issues.push(...await workHoursCompliance.checkAssignment(shift, employeeId, { ignoreShiftIds }));
+
+    return issues;
+  }
+
+  /**
+   * Validate several candidate employees against the same shift
+   * @param {object} shift
+   * @param {string[]} employeeIds
+   * @returns {object} Map of employee_id → issues
+   */
+  async validateMany(shift, employeeIds) {
+    const results = {};
+    for (const employeeId of employeeIds) {
+      results[employeeId] = await this.validate(shift, employeeId);
+    }
+    return results;
+  }
+}
+
+module.exports = new AssignmentValidator();
@@ -1,11 +1,191 @@
 /**
  * Auto Shift Generator Service
- * Automatically creates shifts from templates that have auto_generate enabled
+ * Automatically creates shifts from templates that have auto_generate enabled.
+ * Templates are either a fixed weekly pattern (days_of_week) or a rotation:
+ * a multi-day cycle, anchored to a date, in which named crews take turns
+ * covering the template's slots (e.g. 4-on/4-off, 2-2-3, day/night swaps).
  */
 const { query, generateUUID } = require('../config/database');
 const holidayService = require('./holidayService');
+const availabilityService = require('./availabilityService');
+const assignmentValidator = require('./assignmentValidator');
+
+const MAX_CYCLE_DAYS = 56;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// ── Rotation Helpers ─────────────────────────────────────────────────────────
+
+function toDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function daysBetween(fromDateStr, toDateStr) {
+  const from = new Date(fromDateStr + 'T00:00:00');
+  const to = new Date(toDateStr + 'T00:00:00');
+  return Math.round((to - from) / (24 * 60 * 60 * 1000));
+}
+
+function parseRotation(raw) {
+  if (!raw) return null;
+  try {
+    return typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch (e) {
+    return null;
+  }
+}
 
 class AutoShiftGenerator {
+  /**
+   * Validate and clean a rotation definition
+   * @param {object} rotation - {
+   *   anchor_date: 'YYYY-MM-DD' (day 1 of the cycle),
+   *   cycle_days: number,
+   *   crews: [{ key, name, employee_ids: [] }],
+   *   slots: [{ key, name, start_time, end_time }],
+   *   schedule: [[crewKey | null per slot] per cycle day]
+   * }
+   * @returns {object|null} Normalized rotation, null when invalid
+   */
+  normalizeRotation(rotation) {
+    const r = parseRotation(rotation);
+    if (!r || !DATE_RE.test(r.anchor_date || '')) return null;
+
+    const cycleDays = parseInt(r.cycle_days, 10);
+    if (!(cycleDays >= 1 && cycleDays <= MAX_CYCLE_DAYS)) return null;
+
+    const crews = (Array.isArray(r.crews) ? r.crews : [])
+      .filter(c => c && c.key && String(c.name || '').trim())
+      .map(c => ({
+        key: String(c.key),
+        name: String(c.name).trim(),
+        employee_ids: [...new Set((Array.isArray(c.employee_ids) ? c.employee_ids : []).map(String))],
+      }));
+    const slots = (Array.isArray(r.slots) ? r.slots : [])
+      .filter(s => s && s.key && TIME_RE.test(s.start_time || '') && TIME_RE.test(s.end_time || ''))
+      .map(s => ({ key: String(s.key), name: String(s.name || '').trim(), start_time: s.start_time, end_time: s.end_time }));
+    if (crews.length === 0 || slots.length === 0) return null;
+
+    const crewKeys = new Set(crews.map(c => c.key));
+    const schedule = [];
+    for (let day = 0; day < cycleDays; day++) {
+      const row = Array.isArray(r.schedule?.[day]) ? r.schedule[day] : [];
+      schedule.push(slots.map((_, i) => (crewKeys.has(row[i]) ? row[i] : null)));
+    }
+
+    return { anchor_date: r.anchor_date, cycle_days: cycleDays, crews, slots, schedule };
+  }
+
+  /**
+   * Slots worked on a date and the crew covering each
+   * @param {object} rotation - Normalized rotation
+   * @param {string} dateStr - YYYY-MM-DD
+   * @returns {Array<{slot: object, crew: object, cycle_day: number}>}
+   */
+  rotationSlotsForDate(rotation, dateStr) {
+    const offset = daysBetween(rotation.anchor_date, dateStr);
+    const cycleDay = ((offset % rotation.cycle_days) + rotation.cycle_days) % rotation.cycle_days;
+    const row = rotation.schedule[cycleDay] || [];
+    return rotation.slots
+      .map((slot, i) => ({ slot, crew: rotation.crews.find(c => c.key === row[i]), cycle_day: cycleDay }))
+      .filter(x => x.crew);
+  }
+
+  /**
+   * Generate shifts and crew assignments from a rotation template
+   * @param {object} template - shift template row with a rotation
+   * @param {string} startDate - YYYY-MM-DD
+   * @param {string} endDate - YYYY-MM-DD
+   * @param {object} [options]
+   * @param {string} [options.createdBy] - manager generating the shifts, null for the scheduler
+   * @returns {{ created: number, skipped: number, assigned: number, shifts: Array, assignment_ids: string[], rejected: Array }}
+   */
+  async generateRotation(template, startDate, endDate, { createdBy = null } = {}) {
+    const rotation = this.normalizeRotation(template.rotation);
+    if (!rotation) throw new Error('Invalid rotation definition');
+
+    let created = 0;
+    let skipped = 0;
+    let assigned = 0;
+    const shifts = [];
+    const assignmentIds = [];
+    // Crew members the assignment rules kept out of a shift: { date, employee_id, message }
+    const rejected = [];
+
+    for (let d = new Date(startDate + 'T00:00:00'); toDateStr(d) <= endDate; d.setDate(d.getDate() + 1)) {
+      const dateStr = toDateStr(d);
+      const worked = this.rotationSlotsForDate(rotation, dateStr);
+      if (worked.length === 0) continue;
+
+      if (await holidayService.shouldSkipShift(dateStr)) {
+        skipped += worked.length;
+        continue;
+      }
+      const modifier = await holidayService.getStaffingModifier(dateStr);
+
+      for (const { slot, crew } of worked) {
+        // Reuse an existing shift in the same slot, so re-running only fills in the crew
+        // (templates without a site match shifts without a site)
+        const existing = await query(`
+          SELECT id FROM shifts
+          WHERE COALESCE(site_id, '') = COALESCE($1, '') AND date = $2 AND start_time = $3 AND end_time = $4
+        `, [template.site_id, dateStr, slot.start_time, slot.end_time]);
+
+        let shiftId = existing.rows[0]?.id;
+        if (shiftId) {
+          skipped++;
+        } else {
+          shiftId = generateUUID();
+          const required = Math.max(template.required_employees || 1, crew.employee_ids.length);
+          const notes = [template.default_notes, `${crew.name}${slot.name ? ` · ${slot.name}` : ''}`].filter(Boolean).join('\n');
+          await query(`
+            INSERT INTO shifts (id, site_id, customer_id, date, start_time, end_time,
+                               required_employees, requires_weapon, requires_vehicle, notes, status, template_id, created_by)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'scheduled', $11, $12)
+          `, [shiftId, template.site_id, template.customer_id, dateStr,
+              slot.start_time, slot.end_time,
+              Math.ceil(required * modifier),
+              template.requires_weapon || 0,
+              template.requires_vehicle || 0,
+              notes,
+              template.id,
+              createdBy]);
+          created++;
+          shifts.push({ id: shiftId, date: dateStr, start_time: slot.start_time, end_time: slot.end_time, crew: crew.name });
+        }
+
+        const shift = await assignmentValidator.loadShift(shiftId);
+        for (const empId of crew.employee_ids) {
+          try {
+            const current = await query(
+              "SELECT id FROM shift_assignments WHERE shift_id = $1 AND employee_id = $2 AND status != 'cancelled'",
+              [shiftId, empId]
+            );
+            if (current.rows.length > 0) continue;
+
+            // Same rules as a manual assignment; nobody is here to approve an override
+            const issues = await assignmentValidator.validate(shift, empId);
+            const blocking = issues.find(i => i.severity === 'error');
+            if (blocking) {
+              rejected.push({ date: dateStr, employee_id: empId, message: blocking.message });
+              continue;
+            }
+
+            const assignmentId = await this.tryAssignEmployee(shiftId, empId, dateStr, slot.start_time, slot.end_time);
+            if (assignmentId) {
+              assigned++;
+              assignmentIds.push(assignmentId);
+            }
+          } catch (e) {
+            // Assignment failed (conflict, etc.) - skip silently
+          }
+        }
+      }
+    }
+
+    return { created, skipped, assigned, shifts, assignment_ids: assignmentIds, rejected };
+  }
+
   /**
    * Generate shifts for a specific week from all auto-generate templates
    * @param {string} weekStartDate - ISO date string (YYYY-MM-DD) for the start of the target week (Sunday)
@@ -54,6 +234,25 @@ class AutoShiftGenerator {
    * @returns {{ created: number, skipped: number }}
    */
   async generateFromTemplate(template, weekStartDate, createdBy = null) {
+    if (template.rotation) {
+      const weekEnd = new Date(weekStartDate + 'T00:00:00');
+      weekEnd.setDate(weekEnd.getDate() + 6);
+      const result = await this.generateRotation(template, weekStartDate, toDateStr(weekEnd));
+      if (result.created > 0 || result.assigned > 0) {
+        await query(`
+          INSERT INTO auto_generation_log (id, type, source_id, generated_count, details, created_by)
+          VALUES ($1, 'template_shifts', $2, $3, $4, $5)
+        `, [generateUUID(), template.id, result.created, JSON.stringify({
+          template_name: template.name,
+          week_start: weekStartDate,
+          skipped: result.skipped,
+          assigned: result.assigned,
+          rejected: result.rejected
+        }), createdBy]);
+      }
+      return { created: result.created, skipped: result.skipped, assigned: result.assigned };
+    }
+
     const daysOfWeek = JSON.parse(template.days_of_week || '[]');
     const preferredEmployees = JSON.parse(template.preferred_employees || '[]');
     let created = 0;
@@ -96,14 +295,15 @@ class AutoShiftGenerator {
       const shiftId = generateUUID();
       await query(`
         INSERT INTO shifts (id, site_id, customer_id, date, start_time, end_time,
-                           required_employees, requires_weapon, requires_vehicle, notes, status)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'scheduled')
+                           required_employees, requires_weapon, requires_vehicle, notes, status, template_id)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'scheduled', $11)
       `, [shiftId, template.site_id, template.customer_id, dateStr,
           template.start_time, template.end_time,
           adjustedRequired,
           template.requires_weapon || 0,
           template.requires_vehicle || 0,
-          template.default_notes || null]);
+          template.default_notes || null,
+          template.id]);
 
       // Auto-assign preferred employees if available
       for (const empId of preferredEmployees) {
@@ -135,6 +335,7 @@ class AutoShiftGenerator {
 
   /**
    * Try to assign an employee to a shift (checks conflicts)
+   * @returns {string|false} New assignment id, false when not assigned
    */
   async tryAssignEmployee(shiftId, employeeId, date, startTime, endTime) {
     // Check employee exists and is active
@@ -152,15 +353,9 @@ class AutoShiftGenerator {
 
     if (conflict.rows.length > 0) return false;
 
-    // Check availability
-    const dayOfWeek = new Date(date + 'T00:00:00').getDay();
-    const avail = await query(`
-      SELECT is_available FROM employee_availability
-      WHERE employee_id = $1 AND day_of_week = $2
-    `, [employeeId, dayOfWeek]);
-
-    // If availability record exists and says not available, skip
-    if (avail.rows.length > 0 && !avail.rows[0].is_available) return false;
+    // Check availability (weekly pattern and date blocks)
+    const unavailable = await availabilityService.getUnavailableEmployeeIds(date, startTime, endTime);
+    if (unavailable.has(employeeId)) return false;
 
     // Assign
     const assignId = generateUUID();
@@ -169,7 +364,7 @@ class AutoShiftGenerator {
       VALUES ($1, $2, $3, 'guard', 'assigned')
     `, [assignId, shiftId, employeeId]);
 
-    return true;
+    return assignId;
   }
 
   /**
@@ -0,0 +1,155 @@
+/**
+ * Availability Service
+ * Guard availability: the recurring weekly pattern (employee_availability),
+ * date-specific blocks and preferred shift types. Availability for a month
+ * locks on a configurable day of the previous month; after that, changes
+ * guards make need manager approval.
+ */
+const { query } = require('../config/database');
+
+// Overridable through system_config key 'availability_lock_day'
+const DEFAULT_LOCK_DAY = 20;
+
+const SHIFT_TYPES = ['morning', 'evening', 'night'];
+
+// Block statuses that are in force for scheduling
+const ACTIVE_BLOCK_STATUSES = ['approved', 'pending_removal'];
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function localDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Classify a shift by its start time
+ * @param {string} startTime - HH:MM
+ * @returns {'morning'|'evening'|'night'}
+ */
+function shiftTypeOf(startTime) {
+  const hour = parseInt(String(startTime || '0').split(':')[0], 10);
+  if (hour >= 5 && hour < 13) return 'morning';
+  if (hour >= 13 && hour < 21) return 'evening';
+  return 'night';
+}
+
+function parseShiftTypes(raw) {
+  try {
+    const parsed = JSON.parse(raw || '[]');
+    return Array.isArray(parsed) ? parsed.filter(t => SHIFT_TYPES.includes(t)) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+// ── Availability Service Class ───────────────────────────────────────────────
+
+class AvailabilityService {
+  constructor() {
+    this.SHIFT_TYPES = SHIFT_TYPES;
+    this.ACTIVE_BLOCK_STATUSES = ACTIVE_BLOCK_STATUSES;
+  }
+
+  shiftTypeOf(startTime) {
+    return shiftTypeOf(startTime);
+  }
+
+  parseShiftTypes(raw) {
+    return parseShiftTypes(raw);
+  }
+
+  async getLockDay() {
+    try {
+      const result = await query('SELECT value FROM system_config WHERE key = $1', ['availability_lock_day']);
+      const value = parseInt(result.rows[0]?.value, 10);
+      if (value >= 1 && value <= 28) return value;
+    } catch (e) { /* fall back to default */ }
+    return DEFAULT_LOCK_DAY;
+  }
+
+  /**
+   * Lock state of a month
+   * @param {string} month - YYYY-MM
+   * @returns {{month: string, lock_day: number, lock_date: string, locked: boolean}}
+   */
+  async getLock(month) {
+    const lockDay = await this.getLockDay();
+    const [year, mon] = month.split('-').map(Number);
+    const lockDate = localDateStr(new Date(year, mon - 2, lockDay));
+    return {
+      month,
+      lock_day: lockDay,
+      lock_date: lockDate,
+      locked: localDateStr(new Date()) > lockDate,
+    };
+  }
+
+  async isDateLocked(date) {
+    return (await this.getLock(date.slice(0, 7))).locked;
+  }
+
+  /**
+   * Employees who are not available for a time window, by weekly pattern or
+   * by an approved date block
+   * @param {string} date - YYYY-MM-DD
+   * @param {string} startTime - HH:MM
+   * @param {string} endTime - HH:MM
+   * @returns {Set<string>} employee ids
+   */
+  async getUnavailableEmployeeIds(date, startTime, endTime) {
+    const unavailable = new Set();
+    const crossesMidnight = endTime && startTime && endTime <= startTime;
+    const windowEnd = crossesMidnight ? '24:00' : endTime;
+
+    // ── 1. Weekly pattern ───────────────────────────────────────────────
+    const dayOfWeek = new Date(date + 'T00:00:00').getDay();
+    const pattern = await query(`
+      SELECT employee_id, start_time, end_time, is_available
+      FROM employee_availability
+      WHERE day_of_week = $1
+    `, [dayOfWeek]);
+
+    for (const row of pattern.rows) {
+      if (!row.is_available) {
+        unavailable.add(row.employee_id);
+      } else if (row.start_time && row.end_time && startTime &&
+                 (startTime < row.start_time || (!crossesMidnight && endTime > row.end_time))) {
+        unavailable.add(row.employee_id);
+      }
+    }
+
+    // ── 2. Date blocks (whole day or overlapping hours) ─────────────────
+    const blocks = await query(`
+      SELECT employee_id, start_time, end_time
+      FROM employee_availability_blocks
+      WHERE date = $1 AND status IN ($2, $3)
+    `, [date, ...ACTIVE_BLOCK_STATUSES]);
+
+    for (const block of blocks.rows) {
+      if (!block.start_time || !block.end_time || !startTime ||
+          (block.start_time < windowEnd && block.end_time > startTime)) {
+        unavailable.add(block.employee_id);
+      }
+    }
+
+    return unavailable;
+  }
+
+  /**
+   * Preferred shift types of all employees that set any
+   * @returns {object} Map of employee_id → ['morning'|'evening'|'night']
+   */
+  async getPreferredShiftTypes() {
+    const result = await query(
+      `SELECT id, preferred_shift_types FROM employees WHERE preferred_shift_types IS NOT NULL AND preferred_shift_types != ''`
+    );
+    const map = {};
+    for (const row of result.rows) {
+      const types = parseShiftTypes(row.preferred_shift_types);
+      if (types.length > 0) map[row.id] = types;
+    }
+    return map;
+  }
+}
+
+module.exports = new AvailabilityService();
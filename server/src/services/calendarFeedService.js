@@ -0,0 +1,338 @@
+/**
+ * Calendar Feed Service
+ * iCalendar (ICS) subscription feeds behind secret, revocable URLs: a
+ * personal feed per user with their assigned shifts and events, and a feed
+ * per site with every shift there for managers. Calendar apps poll the URL,
+ * so the feed is rebuilt from the schedule on every request.
+ */
+const crypto = require('crypto');
+const { query, generateUUID } = require('../config/database');
+
+// Feeds cover this window around today
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 180;
+
+// Suggested polling interval for calendar apps
+const REFRESH_INTERVAL = 'PT1H';
+
+const PRODID = '-//Tzevet Yahalom//CRM Shifts//HE';
+const UID_DOMAIN = 'tzevet-yahalom';
+
+// ── ICS Helpers ──────────────────────────────────────────────────────────────
+
+function escapeText(value) {
+  return String(value ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold a content line at 75 octets (RFC 5545 §3.1), never inside a UTF-8 character */
+function foldLine(line) {
+  const parts = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function utcStamp(date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Local (server TZ) date + time range; end before start crosses midnight */
+function localRange(date, startTime, endTime) {
+  const start = new Date(`${date}T${startTime}`);
+  const end = new Date(`${date}T${endTime}`);
+  if (end <= start) end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+function dateOffset(days) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function buildCalendar(name, events) {
+  const now = utcStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Asia/Jerusalem',
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${utcStamp(event.start)}`,
+      `DTEND:${utcStamp(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push(`STATUS:${event.tentative ? 'TENTATIVE' : 'CONFIRMED'}`, 'END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function siteLocation(row) {
+  return [row.site_address, row.site_city].filter(Boolean).join(', ');
+}
+
+// ── Calendar Feed Service Class ──────────────────────────────────────────────
+
+class CalendarFeedService {
+  // ── 1. Feed tokens ─────────────────────────────────────────────────────
+
+  _newToken() {
+    return crypto.randomBytes(24).toString('hex');
+  }
+
+  /**
+   * Active personal feed of a user
+   * @param {string} userId
+   * @returns {object|null}
+   */
+  async getUserFeed(userId) {
+    const result = await query(
+      `SELECT id, token, created_at, last_accessed_at FROM calendar_feeds
+       WHERE user_id = $1 AND site_id IS NULL AND revoked_at IS NULL`,
+      [userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a personal feed, revoking the previous URL if there was one
+   * @param {string} userId
+   * @returns {object} New feed
+   */
+  async rotateUserFeed(userId) {
+    await this.revokeUserFeed(userId);
+    const id = generateUUID();
+    await query(
+      'INSERT INTO calendar_feeds (id, token, user_id) VALUES ($1, $2, $3)',
+      [id, this._newToken(), userId]
+    );
+    return this.getUserFeed(userId);
+  }
+
+  /**
+   * Revoke a user's personal feed; its URL stops working immediately
+   * @returns {boolean} false when there was no active feed
+   */
+  async revokeUserFeed(userId) {
+    const result = await query(
+      `UPDATE calendar_feeds SET revoked_at = datetime('now')
+       WHERE user_id = $1 AND site_id IS NULL AND revoked_at IS NULL`,
+      [userId]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Active site feeds, one row per site (sites without a feed included)
+   */
+  async listSiteFeeds() {
+    const result = await query(`
+      SELECT si.id as site_id, si.name as site_name, c.company_name,
+             f.id, f.token, f.created_at, f.last_accessed_at,
+             u.first_name || ' ' || u.last_name as created_by_name
+      FROM sites si
+      LEFT JOIN customers c ON si.customer_id = c.id
+      LEFT JOIN calendar_feeds f ON f.site_id = si.id AND f.revoked_at IS NULL
+      LEFT JOIN users u ON f.user_id = u.id
+      WHERE si.is_active = 1
+      ORDER BY c.company_name, si.name
+    `);
+    return result.rows;
+  }
+
+  /**
+   * Create (or replace) the feed of a site
+   * @param {string} siteId
+   * @param {string} userId - Manager creating the feed
+   * @returns {object} New feed, or { error, status }
+   */
+  async rotateSiteFeed(siteId, userId) {
+    const site = await query('SELECT id FROM sites WHERE id = $1', [siteId]);
+    if (site.rows.length === 0) return { error: 'אתר לא נמצא', status: 404 };
+
+    await this.revokeSiteFeed(siteId);
+    const id = generateUUID();
+    const token = this._newToken();
+    await query(
+      'INSERT INTO calendar_feeds (id, token, user_id, site_id) VALUES ($1, $2, $3, $4)',
+      [id, token, userId, siteId]
+    );
+    return { id, token, site_id: siteId };
+  }
+
+  async revokeSiteFeed(siteId) {
+    const result = await query(
+      `UPDATE calendar_feeds SET revoked_at = datetime('now') WHERE site_id = $1 AND revoked_at IS NULL`,
+      [siteId]
+    );
+    return result.rowCount > 0;
+  }
+
+  // ── 2. Rendering ───────────────────────────────────────────────────────
+
+  /**
+   * Render the ICS body for a feed token
+   * @param {string} token
+   * @returns {string|null} null when the token is unknown or revoked, or its
+   *   owner (the guard, or the manager who shared a site feed) was deactivated
+   */
+  async render(token) {
+    if (!token || !/^[a-f0-9]{48}$/.test(token)) return null;
+    const result = await query(`
+      SELECT cf.* FROM calendar_feeds cf
+      JOIN users u ON cf.user_id = u.id
+      WHERE cf.token = $1 AND cf.revoked_at IS NULL AND u.is_active = 1
+    `, [token]);
+    const feed = result.rows[0];
+    if (!feed) return null;
+
+    await query(`UPDATE calendar_feeds SET last_accessed_at = datetime('now') WHERE id = $1`, [feed.id]);
+    return feed.site_id ? this._renderSite(feed.site_id) : this._renderUser(feed.user_id);
+  }
+
+  async _renderUser(userId) {
+    const from = dateOffset(-PAST_DAYS);
+    const to = dateOffset(FUTURE_DAYS);
+
+    const empResult = await query('SELECT id, first_name FROM employees WHERE user_id = $1', [userId]);
+    const employee = empResult.rows[0];
+    if (!employee) return buildCalendar('המשמרות שלי - צוות יהלום', []);
+
+    const [shifts, events] = await Promise.all([
+      query(`
+        SELECT sa.id as assignment_id, sa.role, s.date, s.start_time, s.end_time, s.notes, s.status,
+               si.name as site_name, si.address as site_address, si.city as site_city,
+               c.company_name
+        FROM shift_assignments sa
+        JOIN shifts s ON sa.shift_id = s.id
+        LEFT JOIN sites si ON s.site_id = si.id
+        LEFT JOIN customers c ON s.customer_id = c.id
+        WHERE sa.employee_id = $1 AND sa.status != 'cancelled' AND s.status != 'cancelled'
+        AND s.date BETWEEN $2 AND $3
+        ORDER BY s.date, s.start_time
+      `, [employee.id, from, to]),
+      query(`
+        SELECT ea.id as assignment_id, ea.role, e.event_name, e.event_date, e.start_time, e.end_time,
+               e.location, e.address, e.notes, e.status
+        FROM event_assignments ea
+        JOIN events e ON ea.event_id = e.id
+        WHERE ea.employee_id = $1 AND ea.status != 'cancelled' AND e.status != 'cancelled'
+        AND e.event_date BETWEEN $2 AND $3
+        ORDER BY e.event_date, e.start_time
+      `, [employee.id, from, to]),
+    ]);
+
+    const items = shifts.rows.map(row => ({
+      uid: `shift-${row.assignment_id}`,
+      ...localRange(row.date, row.start_time, row.end_time),
+      summary: `משמרת - ${row.site_name || row.company_name || 'צוות יהלום'}`,
+      location: siteLocation(row),
+      description: [
+        row.company_name && `לקוח: ${row.company_name}`,
+        row.role && row.role !== 'guard' && `תפקיד: ${row.role}`,
+        row.notes,
+      ].filter(Boolean).join('\n'),
+      tentative: row.status === 'draft',
+    }));
+
+    for (const row of events.rows) {
+      items.push({
+        uid: `event-${row.assignment_id}`,
+        ...localRange(row.event_date, row.start_time, row.end_time),
+        summary: `אירוע - ${row.event_name}`,
+        location: [row.location, row.address].filter(Boolean).join(', '),
+        description: [row.role && `תפקיד: ${row.role}`, row.notes].filter(Boolean).join('\n'),
+        tentative: row.status === 'quote',
+      });
+    }
+
+    return buildCalendar(`המשמרות של ${employee.first_name} - צוות יהלום`, items);
+  }
+
+  async _renderSite(siteId) {
+    const from = dateOffset(-PAST_DAYS);
+    const to = dateOffset(FUTURE_DAYS);
+
+    const siteResult = await query(`
+      SELECT si.name, si.address as site_address, si.city as site_city, c.company_name
+      FROM sites si LEFT JOIN customers c ON si.customer_id = c.id
+      WHERE si.id = $1
+    `, [siteId]);
+    const site = siteResult.rows[0];
+    if (!site) return buildCalendar('אתר לא קיים', []);
+
+    const [shifts, assignments] = await Promise.all([
+      query(`
+        SELECT s.id, s.date, s.start_time, s.end_time, s.required_employees, s.notes, s.status
+        FROM shifts s
+        WHERE s.site_id = $1 AND s.status != 'cancelled' AND s.date BETWEEN $2 AND $3
+        ORDER BY s.date, s.start_time
+      `, [siteId, from, to]),
+      query(`
+        SELECT sa.shift_id, e.first_name || ' ' || e.last_name as name
+        FROM shift_assignments sa
+        JOIN shifts s ON sa.shift_id = s.id
+        JOIN employees e ON sa.employee_id = e.id
+        WHERE s.site_id = $1 AND s.status != 'cancelled' AND s.date BETWEEN $2 AND $3
+        AND sa.status != 'cancelled'
+        ORDER BY e.first_name, e.last_name
+      `, [siteId, from, to]),
+    ]);
+
+    // Guard names per shift, listed here rather than with GROUP_CONCAT (SQLite only)
+    const guards = new Map();
+    for (const row of assignments.rows) {
+      if (!guards.has(row.shift_id)) guards.set(row.shift_id, []);
+      guards.get(row.shift_id).push(row.name);
+    }
+
+    const items = shifts.rows.map(row => {
+      const names = guards.get(row.id) || [];
+      const missing = row.required_employees - names.length;
+      return {
+        uid: `site-shift-${row.id}`,
+        ...localRange(row.date, row.start_time, row.end_time),
+        summary: `${site.name} (${names.length}/${row.required_employees})${missing > 0 ? ' - חסר כוח אדם' : ''}`,
+        location: siteLocation(site),
+        description: [
+          `מאבטחים: ${names.join(', ') || 'טרם שובצו'}`,
+          row.notes,
+        ].filter(Boolean).join('\n'),
+        tentative: row.status === 'draft',
+      };
+    });
+
+    return buildCalendar(`${site.name} - משמרות`, items);
+  }
+}
+
+module.exports = new CalendarFeedService();
@@ -0,0 +1,354 @@
+/**
+ * Geofence Service
+ * Validates check-in/check-out coordinates against the site's geofence: a
+ * radius around the site coordinates, or a polygon drawn around the site.
+ * A punch outside the zone (or without a location at a fenced site) is still
+ * recorded, but opens an exception that a manager has to approve or reject.
+ */
+const { query, generateUUID } = require('../config/database');
+const { calculateDistance } = require('../utils/geocoder');
+
+// Radius for sites that have coordinates but no explicit geofence
+const DEFAULT_RADIUS_METERS = 1000;
+
+const PUNCH_LABELS = { check_in: 'כניסה', check_out: 'יציאה' };
+
+// ── Geometry ─────────────────────────────────────────────────────────────────
+
+/** [[lat, lng], ...] with at least 3 valid points, or null */
+function parsePolygon(value) {
+  if (!value) return null;
+  let points = value;
+  if (typeof value === 'string') {
+    try { points = JSON.parse(value); } catch { return null; }
+  }
+  if (!Array.isArray(points)) return null;
+  const valid = points
+    .map(p => (Array.isArray(p) ? [Number(p[0]), Number(p[1])] : null))
+    .filter(p => p && Number.isFinite(p[0]) && Number.isFinite(p[1])
+      && Math.abs(p[0]) <= 90 && Math.abs(p[1]) <= 180);
+  return valid.length >= 3 && valid.length === points.length ? valid : null;
+}
+
+/** Ray casting; fine for site-sized polygons where the earth is flat enough */
+function pointInPolygon(lat, lng, polygon) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses = (lngI > lng) !== (lngJ > lng)
+      && lat < ((latJ - latI) * (lng - lngI)) / (lngJ - lngI) + latI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function toCoordinate(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// ── Geofence Service Class ───────────────────────────────────────────────────
+
+class GeofenceService {
+  constructor() {
+    this.DEFAULT_RADIUS_METERS = DEFAULT_RADIUS_METERS;
+  }
+
+  // ── 1. Site configuration ──────────────────────────────────────────────
+
+  /**
+   * Validate geofence settings from the site form
+   * @param {object} input - { geofence_radius_meters, geofence_polygon }
+   * @returns {object} { radius, polygon } ready to store, or { error }
+   */
+  normalizeSettings(input = {}) {
+    let radius = null;
+    if (input.geofence_radius_meters !== null && input.geofence_radius_meters !== undefined && input.geofence_radius_meters !== '') {
+      radius = Math.round(Number(input.geofence_radius_meters));
+      if (!Number.isFinite(radius) || radius < 10 || radius > 50000) {
+        return { error: 'רדיוס הגדר חייב להיות בין 10 ל-50,000 מטר' };
+      }
+    }
+
+    let polygon = null;
+    const rawPolygon = input.geofence_polygon;
+    if (rawPolygon && !(Array.isArray(rawPolygon) && rawPolygon.length === 0)) {
+      polygon = parsePolygon(rawPolygon);
+      if (!polygon) return { error: 'פוליגון לא תקין - נדרשות לפחות 3 נקודות [קו רוחב, קו אורך]' };
+    }
+
+    return { radius, polygon: polygon ? JSON.stringify(polygon) : null };
+  }
+
+  /**
+   * Zone of a location relative to a site
+   * @param {object} site - { latitude, longitude, geofence_radius_meters, geofence_polygon }
+   * @returns {object} { fenced, zone: inside|outside|unknown, mode, distance_meters, allowed_meters }
+   */
+  evaluate(site, latitude, longitude) {
+    const polygon = parsePolygon(site.geofence_polygon);
+    const hasCenter = site.latitude !== null && site.latitude !== undefined
+      && site.longitude !== null && site.longitude !== undefined;
+    const mode = polygon ? 'polygon' : 'radius';
+    const allowed = polygon ? null : (site.geofence_radius_meters || DEFAULT_RADIUS_METERS);
+
+    if (!polygon && !hasCenter) {
+      return { fenced: false, zone: 'unknown', mode: null, distance_meters: null, allowed_meters: null };
+    }
+    if (latitude === null || longitude === null) {
+      return { fenced: true, zone: 'unknown', mode, distance_meters: null, allowed_meters: allowed };
+    }
+
+    const distance = hasCenter ? calculateDistance(latitude, longitude, site.latitude, site.longitude) : null;
+    const inside = polygon ? pointInPolygon(latitude, longitude, polygon) : distance <= allowed;
+    return { fenced: true, zone: inside ? 'inside' : 'outside', mode, distance_meters: distance, allowed_meters: allowed };
+  }
+
+  // ── 2. Punches ─────────────────────────────────────────────────────────
+
+  /**
+   * Check a check-in/out location against the geofence of the assignment's site
+   * @param {string} assignmentId
+   * @param {object} coords - { latitude, longitude } from the request body
+   * @param {object} user - req.user of the caller
+   * @returns {object|null} Geofence result with site/employee ids, null if the assignment is unknown
+   */
+  async checkPunch(assignmentId, coords, user) {
+    const result = await query(`
+      SELECT sa.employee_id, e.user_id as employee_user_id,
+             si.id as site_id, si.name as site_name, si.latitude, si.longitude,
+             si.geofence_radius_meters, si.geofence_polygon
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON sa.employee_id = e.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE sa.id = $1
+    `, [assignmentId]);
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const latitude = toCoordinate(coords?.latitude);
+    const longitude = toCoordinate(coords?.longitude);
+    const check = row.site_id
+      ? this.evaluate(row, latitude, longitude)
+      : { fenced: false, zone: 'unknown', mode: null, distance_meters: null, allowed_meters: null };
+
+    return {
+      ...check,
+      latitude,
+      longitude,
+      site_id: row.site_id,
+      site_name: row.site_name,
+      employee_id: row.employee_id,
+      // Only the assignment's guard or a manager may punch it
+      self_punch: row.employee_user_id === user.id,
+    };
+  }
+
+  /**
+   * Warning shown to the guard after an out-of-zone punch
+   * @returns {string|null}
+   */
+  warningFor(check) {
+    if (!check.fenced || check.zone === 'inside') return null;
+    if (check.zone === 'unknown') return 'לא התקבל מיקום - הדיווח נרשם וממתין לאישור מנהל';
+    const distance = check.distance_meters !== null ? ` (${check.distance_meters} מטר מהאתר)` : '';
+    return `הדיווח נרשם מחוץ לאזור האתר ${check.site_name}${distance} וממתין לאישור מנהל`;
+  }
+
+  /**
+   * Open an exception for a punch outside the zone and notify managers
+   * @param {string} assignmentId
+   * @param {'check_in'|'check_out'} punchType
+   * @param {object} check - Result of checkPunch
+   * @returns {object|null} { id, status } or null when no approval is needed
+   */
+  async recordPunch(assignmentId, punchType, check) {
+    // Punches a manager makes for a guard are reviewed like the guard's own
+    if (!check || !check.fenced || check.zone === 'inside') return null;
+
+    const id = generateUUID();
+    const reason = check.zone === 'unknown' ? 'no_location' : 'outside_zone';
+    await query(`
+      INSERT INTO geofence_exceptions
+        (id, assignment_id, employee_id, site_id, punch_type, reason, latitude, longitude, distance_meters, allowed_meters)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `, [id, assignmentId, check.employee_id, check.site_id, punchType, reason,
+        check.latitude, check.longitude, check.distance_meters, check.allowed_meters]);
+
+    const empResult = await query('SELECT first_name, last_name FROM employees WHERE id = $1', [check.employee_id]);
+    const employee = empResult.rows[0];
+    const name = employee ? `${employee.first_name} ${employee.last_name}` : 'עובד';
+    let detail = 'מחוץ לגדר האתר';
+    if (reason === 'no_location') detail = 'ללא מיקום';
+    else if (check.distance_meters !== null) detail = `${check.distance_meters} מטר מהאתר`;
+
+    const managers = await query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
+    for (const manager of managers.rows) {
+      await query(`
+        INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+        VALUES ($1, $2, 'geofence_exception', $3, $4, 'shift_assignment', $5)
+      `, [generateUUID(), manager.id,
+          `${PUNCH_LABELS[punchType]} מחוץ לאזור האתר`,
+          `${name} - ${check.site_name || 'אתר'} (${detail})`,
+          assignmentId]);
+    }
+
+    return { id, status: 'pending', reason };
+  }
+
+  // ── 3. Approvals ───────────────────────────────────────────────────────
+
+  /**
+   * Geofence exceptions with guard, site and shift details
+   * @param {object} filters - { status, employee_id, start_date, end_date }
+   */
+  async listExceptions(filters = {}) {
+    const where = ['1=1'];
+    const params = [];
+    if (filters.status) {
+      params.push(filters.status);
+      where.push(`g.status = $${params.length}`);
+    }
+    if (filters.employee_id) {
+      params.push(filters.employee_id);
+      where.push(`g.employee_id = $${params.length}`);
+    }
+    if (filters.start_date) {
+      params.push(filters.start_date);
+      where.push(`s.date >= $${params.length}`);
+    }
+    if (filters.end_date) {
+      params.push(filters.end_date);
+      where.push(`s.date <= $${params.length}`);
+    }
+
+    const result = await query(`
+      SELECT g.*, e.first_name || ' ' || e.last_name as employee_name,
+             si.name as site_name, c.company_name,
+             s.date, s.start_time, s.end_time,
+             CASE WHEN g.punch_type = 'check_in' THEN sa.check_in_time ELSE sa.check_out_time END as punch_time,
+             u.first_name || ' ' || u.last_name as resolved_by_name
+      FROM geofence_exceptions g
+      JOIN shift_assignments sa ON g.assignment_id = sa.id
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON g.employee_id = e.id
+      LEFT JOIN sites si ON g.site_id = si.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN users u ON g.resolved_by = u.id
+      WHERE ${where.join(' AND ')}
+      ORDER BY g.created_at DESC
+    `, params);
+    return result.rows;
+  }
+
+  /**
+   * Approve or reject pending exceptions and let the guards know
+   * @param {string[]} ids
+   * @param {boolean} approve
+   * @param {string} userId - Resolving manager
+   * @param {string} [note]
+   * @returns {number} Number of exceptions resolved
+   */
+  async resolve(ids, approve, userId, note) {
+    const status = approve ? 'approved' : 'rejected';
+    let resolved = 0;
+
+    for (const id of ids) {
+      // Only the call that moves it out of 'pending' resolves it and notifies the guard
+      const result = await query(`
+        UPDATE geofence_exceptions
+        SET status = $2, resolved_by = $3, resolved_at = datetime('now'), resolution_note = $4
+        WHERE id = $1 AND status = 'pending'
+      `, [id, status, userId, note || null]);
+      if (!result.rowCount) continue;
+      resolved++;
+
+      const exceptionResult = await query('SELECT * FROM geofence_exceptions WHERE id = $1', [id]);
+      const exception = exceptionResult.rows[0];
+
+      const empResult = await query('SELECT user_id FROM employees WHERE id = $1', [exception.employee_id]);
+      const employeeUserId = empResult.rows[0]?.user_id;
+      if (employeeUserId) {
+        await query(`
+          INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+          VALUES ($1, $2, 'geofence_exception', $3, $4, 'shift_assignment', $5)
+        `, [generateUUID(), employeeUserId,
+            approve ? `דיווח ה${PUNCH_LABELS[exception.punch_type]} אושר` : `דיווח ה${PUNCH_LABELS[exception.punch_type]} נדחה`,
+            note || (approve ? 'המנהל אישר את הדיווח מחוץ לאזור האתר' : 'המנהל דחה את הדיווח מחוץ לאזור האתר'),
+            exception.assignment_id]);
+      }
+    }
+
+    return resolved;
+  }
+
+  // ── 4. Report ──────────────────────────────────────────────────────────
+
+  /**
+   * Out-of-zone punches per employee for shifts in a date range
+   * @param {string} startDate - YYYY-MM-DD
+   * @param {string} endDate - YYYY-MM-DD
+   * @returns {object} { employees, exceptions }
+   */
+  async report(startDate, endDate) {
+    const [punches, exceptions] = await Promise.all([
+      query(`
+        SELECT e.id as employee_id, e.first_name || ' ' || e.last_name as employee_name,
+               SUM(CASE WHEN sa.check_in_time IS NOT NULL THEN 1 ELSE 0 END)
+                 + SUM(CASE WHEN sa.check_out_time IS NOT NULL THEN 1 ELSE 0 END) as punches
+        FROM shift_assignments sa
+        JOIN shifts s ON sa.shift_id = s.id
+        JOIN employees e ON sa.employee_id = e.id
+        WHERE s.date BETWEEN $1 AND $2 AND sa.check_in_time IS NOT NULL
+        GROUP BY e.id, e.first_name, e.last_name
+      `, [startDate, endDate]),
+      this.listExceptions({ start_date: startDate, end_date: endDate }),
+    ]);
+
+    const byEmployee = new Map();
+    for (const row of punches.rows) {
+      byEmployee.set(row.employee_id, {
+        employee_id: row.employee_id,
+        employee_name: row.employee_name,
+        punches: Number(row.punches) || 0,
+        out_of_zone: 0,
+        no_location: 0,
+        pending: 0,
+        approved: 0,
+        rejected: 0,
+        max_distance_meters: null,
+      });
+    }
+
+    for (const ex of exceptions) {
+      if (!byEmployee.has(ex.employee_id)) {
+        byEmployee.set(ex.employee_id, {
+          employee_id: ex.employee_id, employee_name: ex.employee_name, punches: 0,
+          out_of_zone: 0, no_location: 0, pending: 0, approved: 0, rejected: 0, max_distance_meters: null,
+        });
+      }
+      const entry = byEmployee.get(ex.employee_id);
+      if (ex.reason === 'no_location') entry.no_location++;
+      else entry.out_of_zone++;
+      entry[ex.status] = (entry[ex.status] || 0) + 1;
+      if (ex.distance_meters !== null && ex.distance_meters > (entry.max_distance_meters ?? -1)) {
+        entry.max_distance_meters = ex.distance_meters;
+      }
+    }
+
+    const employees = [...byEmployee.values()]
+      .map(entry => {
+        const flagged = entry.out_of_zone + entry.no_location;
+        return { ...entry, exception_rate: entry.punches > 0 ? Math.round((flagged / entry.punches) * 100) : null };
+      })
+      .sort((a, b) => (b.out_of_zone + b.no_location) - (a.out_of_zone + a.no_location)
+        || a.employee_name.localeCompare(b.employee_name, 'he'));
+
+    return { start_date: startDate, end_date: endDate, employees, exceptions };
+  }
+}
+
+module.exports = new GeofenceService();
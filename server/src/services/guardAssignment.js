@@ -4,6 +4,7 @@
  * team cohesion, and reliability factors.
  */
 const { query } = require('../config/database');
+const availabilityService = require('./availabilityService');
 
 // ── Haversine Distance (km) ──────────────────────────────────────────────────
 
@@ -122,20 +123,10 @@ class GuardAssignment {
 
     const conflictSet = new Set(conflicts.rows.map(r => r.employee_id));
 
-    // ── 7. Get availability for this day of week ──────────────────────────
-    const targetDayOfWeek = shiftDate.getDay();
-    const availability = await query(`
-      SELECT employee_id, is_available
-      FROM employee_availability
-      WHERE day_of_week = $1
-    `, [targetDayOfWeek]);
-
-    const unavailableSet = new Set();
-    for (const row of availability.rows) {
-      if (!row.is_available) {
-        unavailableSet.add(row.employee_id);
-      }
-    }
+    // ── 7. Availability (weekly pattern, date blocks, preferences) ────────
+    const unavailableSet = await availabilityService.getUnavailableEmployeeIds(date, startTime, endTime);
+    const preferredTypesMap = await availabilityService.getPreferredShiftTypes();
+    const shiftType = availabilityService.shiftTypeOf(startTime);
 
     // ── 8. Weapon requirement filter ──────────────────────────────────────
     let weaponValidSet = null;
@@ -283,6 +274,19 @@ class GuardAssignment {
         scoreBreakdown.preferred = 0;
       }
 
+      // Preferred shift type (+5 / -5 when the guard prefers other types)
+      const preferredTypes = preferredTypesMap[emp.id] || [];
+      if (preferredTypes.includes(shiftType)) {
+        score += 5;
+        scoreBreakdown.shift_preference = 5;
+        reasons.push('מעדיף סוג משמרת זה');
+      } else if (preferredTypes.length > 0) {
+        score -= 5;
+        scoreBreakdown.shift_preference = -5;
+      } else {
+        scoreBreakdown.shift_preference = 0;
+      }
+
       // Geographic proximity (0 to +15)
       let distanceKm = null;
       if (siteLat && siteLng && emp.home_latitude && emp.home_longitude) {
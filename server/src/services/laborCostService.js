@@ -0,0 +1,382 @@
+/**
+ * Labor Cost Service
+ * Projects what a roster costs against what the customer pays for it.
+ * Labor cost is the employee's hourly rate with premiums for overtime,
+ * night, Shabbat/weekend and holiday hours (holidays from calendar
+ * exceptions); open positions are costed at the median rate. Revenue comes
+ * from the customer's active contract: a billed hourly rate per guard hour,
+ * or the monthly value prorated per day over that day's shifts.
+ */
+const { query } = require('../config/database');
+const workHoursCompliance = require('./workHoursCompliance');
+const timesheetService = require('./timesheetService');
+
+// Pay multipliers, overridable through system_config (same keys).
+// Premiums stack on the base rate: an overtime hour on Shabbat night costs
+// base × (1 + 0.25 + (night - 1) + (weekend - 1)).
+const DEFAULT_MULTIPLIERS = {
+  labor_cost_overtime_125: 1.25,
+  labor_cost_overtime_150: 1.5,
+  labor_cost_night_multiplier: 1.25,
+  labor_cost_weekend_multiplier: 1.5,
+  labor_cost_holiday_multiplier: 1.5,
+};
+
+// First overtime hours are paid at 125%, the rest at 150%
+const OVERTIME_125_HOURS = 2;
+
+// Monthly salaries are converted to an hourly rate over a standard month
+const MONTHLY_HOURS = 176;
+
+// Rate above the median by this factor is flagged as expensive
+const HIGH_RATE_FACTOR = 1.25;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function addDays(dateStr, days) {
+  const d = new Date(dateStr + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return toDateStr(d);
+}
+
+function round2(n) {
+  return Math.round(n * 100) / 100;
+}
+
+function hoursBetween(a, b) {
+  return (b - a) / (1000 * 60 * 60);
+}
+
+function overlapHours(start, end, windowStart, windowEnd) {
+  const overlap = Math.min(end, windowEnd) - Math.max(start, windowStart);
+  return overlap > 0 ? overlap / (1000 * 60 * 60) : 0;
+}
+
+function shiftRange(date, startTime, endTime) {
+  const start = new Date(`${date}T${startTime}`);
+  const end = new Date(`${date}T${endTime}`);
+  if (end <= start) end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+function daysInMonth(dateStr) {
+  const [year, month] = dateStr.split('-').map(Number);
+  return new Date(year, month, 0).getDate();
+}
+
+function median(values) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function employeeRate(row) {
+  if (row.hourly_rate > 0) return parseFloat(row.hourly_rate);
+  if (row.monthly_salary > 0) return parseFloat(row.monthly_salary) / MONTHLY_HOURS;
+  return 0;
+}
+
+function withMargin(item) {
+  item.labor_cost = round2(item.labor_cost);
+  item.unfilled_cost = round2(item.unfilled_cost);
+  item.revenue = round2(item.revenue);
+  item.total_cost = round2(item.labor_cost + item.unfilled_cost);
+  item.margin = round2(item.revenue - item.total_cost);
+  item.margin_pct = item.revenue > 0 ? Math.round((item.margin / item.revenue) * 100) : null;
+  return item;
+}
+
+// ── Labor Cost Service Class ─────────────────────────────────────────────────
+
+class LaborCostService {
+  /**
+   * Pay multipliers currently in force
+   * @returns {object} DEFAULT_MULTIPLIERS keys
+   */
+  async getMultipliers() {
+    const multipliers = { ...DEFAULT_MULTIPLIERS };
+    try {
+      const keys = Object.keys(DEFAULT_MULTIPLIERS);
+      const result = await query(
+        `SELECT key, value FROM system_config WHERE key IN (${keys.map((_, i) => `$${i + 1}`).join(', ')})`,
+        keys
+      );
+      for (const row of result.rows) {
+        const value = parseFloat(row.value);
+        if (!isNaN(value) && value >= 1) multipliers[row.key] = value;
+      }
+    } catch (e) { /* fall back to defaults */ }
+    return multipliers;
+  }
+
+  /**
+   * Premium hours of an interval: night, Shabbat/weekend and holiday
+   */
+  _premiumHours(start, end, restWindows) {
+    let weekend = 0;
+    let holiday = 0;
+    for (const w of restWindows) {
+      const hours = overlapHours(start, end, w.start, w.end);
+      if (w.kind === 'holiday') holiday += hours;
+      else weekend += hours;
+    }
+    return { night: workHoursCompliance.nightHours(start, end), weekend, holiday };
+  }
+
+  _premiumCost(rate, premium, m) {
+    return rate * (
+      premium.night * (m.labor_cost_night_multiplier - 1) +
+      premium.weekend * (m.labor_cost_weekend_multiplier - 1) +
+      premium.holiday * (m.labor_cost_holiday_multiplier - 1)
+    );
+  }
+
+  /**
+   * Cost and revenue projection for every shift in a date range,
+   * rolled up per site and for the whole range
+   * @param {string} startDate - YYYY-MM-DD
+   * @param {string} endDate - YYYY-MM-DD
+   * @returns {{ shifts: Array, sites: Array, totals: object, multipliers: object }}
+   */
+  async projectRange(startDate, endDate) {
+    const m = await this.getMultipliers();
+    const limits = await workHoursCompliance.getLimits();
+    const restWindows = await timesheetService.getRestDayWindows(addDays(startDate, -1), addDays(endDate, 2));
+
+    const [shiftsResult, assignmentsResult, contractsResult, ratesResult] = await Promise.all([
+      query(`
+        SELECT s.id, s.date, s.start_time, s.end_time, s.required_employees, s.status,
+               s.site_id, s.customer_id, si.name as site_name, c.company_name
+        FROM shifts s
+        LEFT JOIN sites si ON s.site_id = si.id
+        LEFT JOIN customers c ON s.customer_id = c.id
+        WHERE s.date BETWEEN $1 AND $2 AND s.status != 'cancelled'
+        ORDER BY s.date, s.start_time
+      `, [startDate, endDate]),
+      query(`
+        SELECT sa.id, sa.shift_id, sa.employee_id, sa.check_in_time, sa.check_out_time,
+               s.date, s.start_time, s.end_time,
+               e.first_name || ' ' || e.last_name as employee_name, e.hourly_rate, e.monthly_salary
+        FROM shift_assignments sa
+        JOIN shifts s ON sa.shift_id = s.id
+        JOIN employees e ON sa.employee_id = e.id
+        WHERE s.date BETWEEN $1 AND $2 AND s.status != 'cancelled' AND sa.status != 'cancelled'
+      `, [startDate, endDate]),
+      query(`
+        SELECT customer_id, start_date, end_date, monthly_value, hourly_rate
+        FROM contracts
+        WHERE status = 'active' AND start_date <= $2 AND (end_date IS NULL OR end_date = '' OR end_date >= $1)
+        ORDER BY start_date DESC
+      `, [startDate, endDate]),
+      query(`SELECT hourly_rate, monthly_salary FROM employees WHERE status = 'active'`),
+    ]);
+
+    const medianRate = median(ratesResult.rows.map(employeeRate).filter(r => r > 0));
+
+    // ── 1. Shift skeletons ───────────────────────────────────────────────
+    const shifts = new Map();
+    for (const row of shiftsResult.rows) {
+      const { start, end } = shiftRange(row.date, row.start_time, row.end_time);
+      shifts.set(row.id, {
+        shift_id: row.id,
+        date: row.date,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        site_id: row.site_id,
+        site_name: row.site_name,
+        customer_id: row.customer_id,
+        company_name: row.company_name,
+        hours: round2(hoursBetween(start, end)),
+        required: row.required_employees || 1,
+        assigned: 0,
+        labor_cost: 0,
+        unfilled_cost: 0,
+        revenue: 0,
+        overtime_hours: 0,
+        premium_hours: 0,
+        flags: [],
+        _start: start,
+        _end: end,
+      });
+    }
+
+    // ── 2. Assigned labor, with the daily overtime split per employee ────
+    const days = {};
+    for (const row of assignmentsResult.rows) {
+      if (!shifts.has(row.shift_id)) continue;
+      const checkIn = workHoursCompliance.parsePunch(row.check_in_time);
+      const checkOut = workHoursCompliance.parsePunch(row.check_out_time);
+      const range = checkIn && checkOut && checkOut > checkIn
+        ? { start: checkIn, end: checkOut }
+        : shiftRange(row.date, row.start_time, row.end_time);
+      const key = `${row.employee_id}:${row.date}`;
+      if (!days[key]) days[key] = [];
+      days[key].push({ ...row, ...range });
+    }
+
+    for (const dayEntries of Object.values(days)) {
+      dayEntries.sort((a, b) => a.start - b.start);
+      const night = dayEntries.some(e => workHoursCompliance.isNightShift(e.start, e.end));
+      let regularLeft = night ? limits.labor_night_regular_hours : limits.labor_daily_regular_hours;
+      let overtime125Left = OVERTIME_125_HOURS;
+
+      for (const entry of dayEntries) {
+        const shift = shifts.get(entry.shift_id);
+        const rate = employeeRate(entry);
+        const hours = hoursBetween(entry.start, entry.end);
+        const regular = Math.min(hours, regularLeft);
+        const overtime125 = Math.min(hours - regular, overtime125Left);
+        const overtime150 = hours - regular - overtime125;
+        regularLeft -= regular;
+        overtime125Left -= overtime125;
+
+        const premium = this._premiumHours(entry.start, entry.end, restWindows);
+        shift.assigned++;
+        shift.labor_cost += rate * (regular + overtime125 * m.labor_cost_overtime_125 + overtime150 * m.labor_cost_overtime_150)
+          + this._premiumCost(rate, premium, m);
+        shift.overtime_hours = round2(shift.overtime_hours + overtime125 + overtime150);
+        shift.premium_hours = round2(shift.premium_hours + premium.night + premium.weekend + premium.holiday);
+
+        if (rate === 0) {
+          if (!shift.flags.includes('missing_rate')) shift.flags.push('missing_rate');
+        } else if (medianRate > 0 && rate > medianRate * HIGH_RATE_FACTOR && !shift.flags.includes('high_rate')) {
+          shift.flags.push('high_rate');
+        }
+      }
+    }
+
+    // ── 3. Open positions at the median rate ─────────────────────────────
+    for (const shift of shifts.values()) {
+      const open = Math.max(0, shift.required - shift.assigned);
+      if (open > 0) {
+        const premium = this._premiumHours(shift._start, shift._end, restWindows);
+        shift.unfilled_cost = open * (medianRate * shift.hours + this._premiumCost(medianRate, premium, m));
+        shift.flags.push('unfilled');
+      }
+      if (shift.overtime_hours > 0) shift.flags.push('overtime');
+    }
+
+    // ── 4. Contract revenue ──────────────────────────────────────────────
+    const contractFor = (customerId, date) => contractsResult.rows.find(c =>
+      c.customer_id === customerId && c.start_date <= date && (!c.end_date || c.end_date >= date)
+    );
+
+    // Monthly contracts: the day's share is split over that day's shifts by guard hours
+    const monthlyDays = {};
+    for (const shift of shifts.values()) {
+      const contract = shift.customer_id && contractFor(shift.customer_id, shift.date);
+      if (!contract) continue;
+      if (contract.hourly_rate > 0) {
+        shift.revenue = shift.required * shift.hours * parseFloat(contract.hourly_rate);
+      } else if (contract.monthly_value > 0) {
+        const key = `${shift.customer_id}:${shift.date}`;
+        if (!monthlyDays[key]) monthlyDays[key] = { contract, shifts: [] };
+        monthlyDays[key].shifts.push(shift);
+      }
+    }
+    for (const { contract, shifts: dayShifts } of Object.values(monthlyDays)) {
+      const dayRevenue = parseFloat(contract.monthly_value) / daysInMonth(dayShifts[0].date);
+      const guardHours = dayShifts.reduce((sum, s) => sum + s.required * s.hours, 0);
+      for (const shift of dayShifts) {
+        shift.revenue = guardHours > 0 ? dayRevenue * (shift.required * shift.hours) / guardHours : 0;
+      }
+    }
+
+    // ── 5. Roll up ───────────────────────────────────────────────────────
+    const empty = () => ({ labor_cost: 0, unfilled_cost: 0, revenue: 0, hours: 0, shift_count: 0, flagged: 0 });
+    const sites = new Map();
+    const totals = empty();
+    const shiftList = [];
+    for (const shift of shifts.values()) {
+      delete shift._start;
+      delete shift._end;
+      withMargin(shift);
+      if (shift.revenue > 0 && shift.margin < 0) shift.flags.push('negative_margin');
+      shiftList.push(shift);
+
+      const siteKey = shift.site_id || 'none';
+      if (!sites.has(siteKey)) {
+        sites.set(siteKey, { site_id: shift.site_id, site_name: shift.site_name, company_name: shift.company_name, ...empty() });
+      }
+      for (const target of [sites.get(siteKey), totals]) {
+        target.labor_cost += shift.labor_cost;
+        target.unfilled_cost += shift.unfilled_cost;
+        target.revenue += shift.revenue;
+        target.hours += shift.hours * shift.required;
+        target.shift_count++;
+        if (shift.flags.length > 0) target.flagged++;
+      }
+    }
+
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      shifts: shiftList,
+      sites: [...sites.values()].map(s => withMargin({ ...s, hours: round2(s.hours) })).sort((a, b) => a.margin - b.margin),
+      totals: withMargin({ ...totals, hours: round2(totals.hours) }),
+      multipliers: m,
+    };
+  }
+
+  /**
+   * Projected monthly cost and revenue for a year (scheduled shifts), for
+   * the profit-loss report
+   * @param {number|string} year
+   * @returns {{ monthly: Array, customers: Array }}
+   */
+  async projectYear(year) {
+    const projection = await this.projectRange(`${year}-01-01`, `${year}-12-31`);
+    const months = new Map();
+    const customers = new Map();
+    for (const shift of projection.shifts) {
+      const month = shift.date.slice(0, 7);
+      if (!months.has(month)) months.set(month, { month, labor_cost: 0, unfilled_cost: 0, revenue: 0 });
+      const customerKey = shift.customer_id || 'none';
+      if (!customers.has(customerKey)) {
+        customers.set(customerKey, { customer_id: shift.customer_id, company_name: shift.company_name, labor_cost: 0, unfilled_cost: 0, revenue: 0 });
+      }
+      for (const target of [months.get(month), customers.get(customerKey)]) {
+        target.labor_cost += shift.labor_cost;
+        target.unfilled_cost += shift.unfilled_cost;
+        target.revenue += shift.revenue;
+      }
+    }
+    return {
+      monthly: [...months.values()].map(withMargin).sort((a, b) => a.month.localeCompare(b.month)),
+      customers: [...customers.values()].map(withMargin).sort((a, b) => a.margin - b.margin),
+    };
+  }
+
+  /**
+   * Estimated gross pay of a month's worked hours, by rate bucket: the
+   * overtime split of the timesheet, with night and Shabbat/holiday premiums
+   * stacked on top as in the labor cost projection.
+   * @param {object} employee - { hourly_rate, monthly_salary }
+   * @param {object} totals - Timesheet buckets (timesheetService.getMonth)
+   * @returns {{hourly_rate: number, lines: Array, total: number}}
+   */
+  async estimateGrossPay(employee, totals) {
+    const m = await this.getMultipliers();
+    const rate = employeeRate(employee);
+    const lines = [
+      { bucket: 'regular', hours: totals.regular_hours, multiplier: 1 },
+      { bucket: 'overtime_125', hours: totals.overtime_125_hours, multiplier: m.labor_cost_overtime_125 },
+      { bucket: 'overtime_150', hours: totals.overtime_150_hours, multiplier: m.labor_cost_overtime_150 },
+      { bucket: 'night_premium', hours: totals.night_hours, multiplier: round2(m.labor_cost_night_multiplier - 1) },
+      { bucket: 'shabbat_premium', hours: totals.shabbat_hours, multiplier: round2(m.labor_cost_weekend_multiplier - 1) },
+    ].map(line => ({ ...line, amount: round2(line.hours * rate * line.multiplier) }));
+
+    return {
+      hourly_rate: round2(rate),
+      lines,
+      total: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+    };
+  }
+}
+
+module.exports = new LaborCostService();
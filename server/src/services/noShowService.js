@@ -0,0 +1,359 @@
+/**
+ * No-Show Service
+ * Watches assignments that should have started: a guard who has not checked
+ * in a few minutes after the start gets a reminder, and if there is still no
+ * check-in the shift's manager is alerted, the assignment is marked no_show
+ * and a replacement request opens on the operations dashboard. A manager
+ * fills it with one click from the guard suggestions, or dismisses it.
+ */
+const { query, transaction, generateUUID } = require('../config/database');
+const assignmentValidator = require('./assignmentValidator');
+const whatsappHelper = require('../utils/whatsappHelper');
+const pushService = require('./pushService');
+
+const SETTINGS_KEY = 'no_show_settings';
+
+// Minutes after the shift start: remind the guard, then escalate to managers
+const DEFAULT_SETTINGS = {
+  late_after_minutes: 10,
+  escalate_after_minutes: 25,
+};
+const MAX_MINUTES = 240;
+
+// Web Push category and app page per notification type
+const PUSH = {
+  late_arrival: { category: 'shift_reminders', url: '/guard-panel' },
+  no_show: { category: 'critical_alerts', url: '/' },
+  replacement_assignment: { category: 'assignment_changes', url: '/guard-panel' },
+};
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function localDate(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function placeOf(row) {
+  return row.site_name || row.company_name || 'אתר';
+}
+
+async function notify(userId, type, title, message, entityType, entityId) {
+  await query(`
+    INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+  `, [generateUUID(), userId, type, title, message, entityType, entityId]);
+  if (PUSH[type]) {
+    await pushService.sendToUser(userId, PUSH[type].category, { title, body: message, url: PUSH[type].url, tag: `${type}-${entityId}` });
+  }
+}
+
+// ── No-Show Service Class ────────────────────────────────────────────────────
+
+class NoShowService {
+  constructor() {
+    this.DEFAULT_SETTINGS = DEFAULT_SETTINGS;
+  }
+
+  // ── 1. Settings ────────────────────────────────────────────────────────
+
+  /**
+   * Escalation thresholds currently in force
+   * @returns {{ late_after_minutes: number, escalate_after_minutes: number }}
+   */
+  async getSettings() {
+    const settings = { ...DEFAULT_SETTINGS };
+    try {
+      const result = await query('SELECT value FROM system_config WHERE key = $1', [SETTINGS_KEY]);
+      const parsed = JSON.parse(result.rows[0]?.value || '{}');
+      for (const key of Object.keys(DEFAULT_SETTINGS)) {
+        const minutes = parseInt(parsed[key]);
+        if (!isNaN(minutes) && minutes >= 0 && minutes <= MAX_MINUTES) settings[key] = minutes;
+      }
+    } catch (e) { /* fall back to defaults */ }
+    return settings;
+  }
+
+  /**
+   * Update the escalation thresholds
+   * @param {object} input - { late_after_minutes, escalate_after_minutes }
+   * @returns {object} Saved settings, or { error, status }
+   */
+  async setSettings(input) {
+    const current = await this.getSettings();
+    const next = {};
+    for (const key of Object.keys(DEFAULT_SETTINGS)) {
+      const minutes = input[key] === undefined ? current[key] : parseInt(input[key]);
+      if (isNaN(minutes) || minutes < 0 || minutes > MAX_MINUTES) {
+        return { error: `מספר הדקות חייב להיות בין 0 ל-${MAX_MINUTES}`, status: 400 };
+      }
+      next[key] = minutes;
+    }
+    if (next.escalate_after_minutes <= next.late_after_minutes) {
+      return { error: 'ההסלמה למנהלים חייבת להיות אחרי התזכורת למאבטח', status: 400 };
+    }
+
+    await query(`
+      INSERT INTO system_config (id, key, value) VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `, [generateUUID(), SETTINGS_KEY, JSON.stringify(next)]);
+    return next;
+  }
+
+  // ── 2. Detection job ───────────────────────────────────────────────────
+
+  /**
+   * Scheduler entry point: remind late guards and escalate no-shows
+   * @returns {object} Run counts for the automation log
+   */
+  async run() {
+    const settings = await this.getSettings();
+    const now = new Date();
+    const yesterday = new Date(now);
+    yesterday.setDate(now.getDate() - 1);
+
+    // Yesterday too, for overnight shifts that are still running
+    const result = await query(`
+      SELECT sa.id as assignment_id, sa.employee_id, sa.shift_id,
+             sa.late_alert_sent_at, sa.no_show_escalated_at,
+             e.first_name, e.last_name, e.phone, e.user_id,
+             s.date, s.start_time, s.end_time, s.created_by,
+             c.company_name, si.name as site_name
+      FROM shift_assignments sa
+      JOIN employees e ON sa.employee_id = e.id
+      JOIN shifts s ON sa.shift_id = s.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.date BETWEEN $1 AND $2
+        AND s.status != 'cancelled'
+        AND sa.status = 'assigned'
+        AND sa.check_in_time IS NULL
+        AND sa.no_show_escalated_at IS NULL
+    `, [localDate(yesterday), localDate(now)]);
+
+    let reminded = 0;
+    let escalated = 0;
+    for (const row of result.rows) {
+      const { start, end } = assignmentValidator.shiftRange(row.date, row.start_time, row.end_time);
+      if (now >= end) continue;
+      const minutesLate = Math.floor((now - start) / 60000);
+      if (minutesLate < settings.late_after_minutes) continue;
+
+      if (!row.late_alert_sent_at) {
+        await this.remindGuard(row, minutesLate);
+        reminded++;
+      }
+      if (minutesLate >= settings.escalate_after_minutes) {
+        await this.escalate(row, minutesLate);
+        escalated++;
+      }
+    }
+
+    return {
+      processed: result.rows.length,
+      created: escalated,
+      details: `${reminded} guards reminded, ${escalated} no-shows escalated`,
+    };
+  }
+
+  /**
+   * First stage: in-app and WhatsApp reminder to the guard
+   */
+  async remindGuard(row, minutesLate) {
+    await query(`UPDATE shift_assignments SET late_alert_sent_at = datetime('now') WHERE id = $1`, [row.assignment_id]);
+
+    if (row.user_id) {
+      await notify(row.user_id, 'late_arrival', 'לא בוצע צ\'ק-אין',
+        `המשמרת ב${placeOf(row)} התחילה ב-${row.start_time}. יש לבצע צ'ק-אין או לעדכן את המנהל`,
+        'shift_assignment', row.assignment_id);
+    }
+
+    await whatsappHelper.safeSend(row.phone, `שלום ${row.first_name},
+המשמרת שלך ב${placeOf(row)} התחילה ב-${row.start_time} (לפני ${minutesLate} דקות) ועדיין לא בוצע צ'ק-אין.
+אם את/ה בדרך - בצע/י צ'ק-אין עם ההגעה. אם לא תגיע/י - עדכן/י את המנהל מיד.
+
+צוות יהלום`);
+  }
+
+  /**
+   * Second stage: alert the shift's manager, mark the no-show and open a
+   * replacement request. Shifts without an active manager of their own alert
+   * the managers, and admins only when there is no manager.
+   */
+  async escalate(row, minutesLate) {
+    // Skip if the guard checked in since the job loaded the row
+    const updated = await query(`
+      UPDATE shift_assignments SET status = 'no_show', no_show_escalated_at = datetime('now')
+      WHERE id = $1 AND status = 'assigned' AND check_in_time IS NULL
+    `, [row.assignment_id]);
+    if (!updated.rowCount) return null;
+
+    const requestId = generateUUID();
+    await query(`
+      INSERT INTO replacement_requests (id, shift_id, assignment_id, employee_id)
+      VALUES ($1, $2, $3, $4)
+    `, [requestId, row.shift_id, row.assignment_id, row.employee_id]);
+
+    let managers = await query(
+      `SELECT id, phone FROM users WHERE id = $1 AND role IN ('admin', 'manager') AND is_active = 1`,
+      [row.created_by]
+    );
+    if (managers.rows.length === 0) {
+      managers = await query(`SELECT id, phone FROM users WHERE role = 'manager' AND is_active = 1`);
+    }
+    if (managers.rows.length === 0) {
+      managers = await query(`SELECT id, phone FROM users WHERE role = 'admin' AND is_active = 1`);
+    }
+
+    const name = `${row.first_name} ${row.last_name}`;
+    for (const manager of managers.rows) {
+      await notify(manager.id, 'no_show', `אי הגעה: ${name}`,
+        `${name} לא ביצע/ה צ'ק-אין למשמרת ${row.start_time}-${row.end_time} ב${placeOf(row)} (${minutesLate} דקות איחור). נדרש מחליף`,
+        'replacement_request', requestId);
+      await whatsappHelper.safeSend(manager.phone, `התראת אי-הגעה! 🚨
+${name} לא הגיע/ה למשמרת ${row.start_time}-${row.end_time} ב${placeOf(row)}.
+${minutesLate} דקות מתחילת המשמרת, ללא צ'ק-אין ולאחר תזכורת.
+נפתחה בקשת החלפה בדשבורד המבצעי.
+
+צוות יהלום CRM`);
+    }
+
+    return requestId;
+  }
+
+  /**
+   * Close the open replacement request when the guard finally checks in
+   * @param {string} assignmentId
+   */
+  async onCheckIn(assignmentId) {
+    await query(`
+      UPDATE replacement_requests SET status = 'guard_arrived', resolved_at = datetime('now')
+      WHERE assignment_id = $1 AND status = 'open'
+    `, [assignmentId]);
+  }
+
+  // ── 3. Replacement requests ────────────────────────────────────────────
+
+  /**
+   * Open replacement requests with shift, site and absent guard details
+   */
+  async listOpen() {
+    const result = await query(`
+      SELECT r.id, r.shift_id, r.assignment_id, r.employee_id, r.created_at,
+             e.first_name || ' ' || e.last_name as employee_name, e.phone,
+             s.date, s.start_time, s.end_time, s.requires_weapon,
+             si.name as site_name, si.address as site_address, c.company_name
+      FROM replacement_requests r
+      JOIN shifts s ON r.shift_id = s.id
+      JOIN employees e ON r.employee_id = e.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      WHERE r.status = 'open'
+      ORDER BY s.date, s.start_time
+    `);
+    return result.rows;
+  }
+
+  /**
+   * Assign a replacement guard and notify them right away
+   * @param {string} requestId
+   * @param {string} employeeId - Replacement guard
+   * @param {object} user - Acting manager
+   * @param {string} [overrideReason] - Required when the assignment breaks an overridable rule
+   * @returns {object} { assignment } or { error, status, issues?, requires_override? }
+   */
+  async assignReplacement(requestId, employeeId, user, overrideReason) {
+    const reqResult = await query('SELECT * FROM replacement_requests WHERE id = $1', [requestId]);
+    const request = reqResult.rows[0];
+    if (!request) return { error: 'בקשת ההחלפה לא נמצאה', status: 404 };
+    if (request.status !== 'open') return { error: 'בקשת ההחלפה כבר טופלה', status: 409 };
+
+    const empResult = await query(
+      'SELECT id, first_name, phone, user_id, status FROM employees WHERE id = $1 AND deleted_at IS NULL',
+      [employeeId]
+    );
+    const employee = empResult.rows[0];
+    if (!employee) return { error: 'העובד לא נמצא', status: 400 };
+    if (employee.status !== 'active') return { error: 'העובד אינו פעיל', status: 400 };
+
+    const existing = await query(
+      'SELECT id FROM shift_assignments WHERE shift_id = $1 AND employee_id = $2',
+      [request.shift_id, employeeId]
+    );
+    if (existing.rows.length > 0) return { error: 'העובד כבר משובץ למשמרת זו', status: 400 };
+
+    const shift = await assignmentValidator.loadShift(request.shift_id);
+    if (!shift) return { error: 'משמרת לא נמצאה', status: 404 };
+
+    const issues = await assignmentValidator.validate(shift, employeeId);
+    const blocking = issues.filter(i => i.severity === 'error' && !i.overridable);
+    if (blocking.length > 0) return { error: blocking[0].message, status: 400, issues };
+
+    const needsOverride = issues.filter(i => i.severity === 'error');
+    const reason = typeof overrideReason === 'string' ? overrideReason.trim() : '';
+    if (needsOverride.length > 0 && !reason) {
+      return { error: 'השיבוץ חורג מכללי השיבוץ ודורש אישור חריגה', status: 409, issues, requires_override: true };
+    }
+
+    // Claim the request and assign together, so two managers cannot both fill it
+    const assignmentId = generateUUID();
+    const assignment = await transaction(async (tx) => {
+      const claimed = await tx(`
+        UPDATE replacement_requests
+        SET status = 'filled', replacement_employee_id = $2, resolved_by = $3, resolved_at = datetime('now')
+        WHERE id = $1 AND status = 'open'
+      `, [requestId, employeeId, user.id]);
+      if (!claimed.rowCount) return null;
+
+      const inserted = await tx(`
+        INSERT INTO shift_assignments (id, shift_id, employee_id, role)
+        VALUES ($1, $2, $3, 'guard')
+        RETURNING *
+      `, [assignmentId, request.shift_id, employeeId]);
+      await tx('UPDATE replacement_requests SET replacement_assignment_id = $1 WHERE id = $2', [assignmentId, requestId]);
+
+      if (needsOverride.length > 0) {
+        await tx(`
+          INSERT INTO activity_log (id, user_id, entity_type, entity_id, action, changes)
+          VALUES ($1, $2, 'shift_assignment', $3, 'assignment_override', $4)
+        `, [generateUUID(), user.id, assignmentId, JSON.stringify({
+          shift_id: request.shift_id,
+          employee_id: employeeId,
+          reason,
+          issues: needsOverride.map(i => ({ code: i.code, message: i.message })),
+        })]);
+      }
+      return inserted.rows[0];
+    });
+    if (!assignment) return { error: 'בקשת ההחלפה כבר טופלה', status: 409 };
+
+    const place = shift.site_name || 'אתר';
+    if (employee.user_id) {
+      await notify(employee.user_id, 'replacement_assignment', 'שובצת למשמרת דחופה',
+        `החלפה ב${place} - ${shift.date} ${shift.start_time}-${shift.end_time}. יש להגיע בהקדם`,
+        'shift_assignment', assignmentId);
+    }
+    await whatsappHelper.safeSend(employee.phone, `שלום ${employee.first_name},
+שובצת כמחליף/ה למשמרת שכבר התחילה 🚨
+📍 ${place}
+📅 ${shift.date} | ⏰ ${shift.start_time}-${shift.end_time}
+נא להגיע בהקדם ולבצע צ'ק-אין עם ההגעה.
+
+צוות יהלום`);
+
+    return { assignment };
+  }
+
+  /**
+   * Close a request without a replacement (covered some other way)
+   * @returns {boolean} false when the request is not open
+   */
+  async dismiss(requestId, userId) {
+    const result = await query(`
+      UPDATE replacement_requests SET status = 'dismissed', resolved_by = $2, resolved_at = datetime('now')
+      WHERE id = $1 AND status = 'open'
+    `, [requestId, userId]);
+    return result.rowCount > 0;
+  }
+}
+
+module.exports = new NoShowService();
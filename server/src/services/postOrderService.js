@@ -0,0 +1,208 @@
+/**
+ * Post Order Service
+ * Standing instructions of a site (access rules, emergency contacts, patrol
+ * expectations) kept as versioned documents. Publishing a revision adds a new
+ * version; guards must acknowledge the current version before their first
+ * check-in at the site and again after every revision.
+ */
+const { query, generateUUID } = require('../config/database');
+
+const MAX_CONTENT_LENGTH = 20000;
+
+// Guards counted for a site in the manager view: assigned there within this window
+const ROSTER_WINDOW_DAYS = 30;
+
+// ── Post Order Service Class ─────────────────────────────────────────────────
+
+class PostOrderService {
+  /**
+   * Current (highest) version of a site's post orders
+   * @returns {object|null}
+   */
+  async getCurrent(siteId) {
+    const result = await query(`
+      SELECT po.*, u.first_name || ' ' || u.last_name as created_by_name
+      FROM site_post_orders po
+      LEFT JOIN users u ON po.created_by = u.id
+      WHERE po.site_id = $1
+      ORDER BY po.version DESC
+      LIMIT 1
+    `, [siteId]);
+    return result.rows[0] || null;
+  }
+
+  /** All versions of a site, newest first, with how many guards acknowledged each */
+  async listVersions(siteId) {
+    const result = await query(`
+      SELECT po.*, u.first_name || ' ' || u.last_name as created_by_name,
+             (SELECT COUNT(*) FROM post_order_acknowledgements a WHERE a.post_order_id = po.id) as acknowledged_count
+      FROM site_post_orders po
+      LEFT JOIN users u ON po.created_by = u.id
+      WHERE po.site_id = $1
+      ORDER BY po.version DESC
+    `, [siteId]);
+    return result.rows;
+  }
+
+  /**
+   * Publish a new version of a site's post orders
+   * @param {object} data - { title, content, change_summary }
+   * @returns {object} { postOrder } or { error, status }
+   */
+  async publish(siteId, data, userId) {
+    const content = typeof data?.content === 'string' ? data.content.trim() : '';
+    if (!content) {
+      return { error: 'יש להזין את תוכן הוראות האתר', status: 400 };
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return { error: 'הוראות האתר ארוכות מדי', status: 400 };
+    }
+
+    const site = await query('SELECT id FROM sites WHERE id = $1', [siteId]);
+    if (site.rows.length === 0) {
+      return { error: 'אתר לא נמצא', status: 404 };
+    }
+
+    const current = await this.getCurrent(siteId);
+    const id = generateUUID();
+    await query(`
+      INSERT INTO site_post_orders (id, site_id, version, title, content, change_summary, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      id, siteId, (current?.version || 0) + 1,
+      data.title?.trim() || null, content, data.change_summary?.trim() || null, userId,
+    ]);
+
+    const result = await query('SELECT * FROM site_post_orders WHERE id = $1', [id]);
+    return { postOrder: result.rows[0] };
+  }
+
+  /**
+   * Record a guard's acknowledgement of a version; repeating it is harmless.
+   * Only guards assigned to the site within ROSTER_WINDOW_DAYS may acknowledge.
+   * @returns {object} { acknowledgement } or { error, status }
+   */
+  async acknowledge(postOrderId, employeeId, assignmentId = null) {
+    const postOrder = await query('SELECT id, site_id FROM site_post_orders WHERE id = $1', [postOrderId]);
+    if (postOrder.rows.length === 0) {
+      return { error: 'הוראות האתר לא נמצאו', status: 404 };
+    }
+
+    const assigned = await query(`
+      SELECT sa.id FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      WHERE sa.employee_id = $1 AND s.site_id = $2
+      AND s.date >= date('now', 'localtime', '-${ROSTER_WINDOW_DAYS} days')
+      AND s.date <= date('now', 'localtime', '+${ROSTER_WINDOW_DAYS} days')
+      AND s.status != 'cancelled'
+    `, [employeeId, postOrder.rows[0].site_id]);
+    const ids = assigned.rows.map(a => a.id);
+    if (ids.length === 0 || (assignmentId && !ids.includes(assignmentId))) {
+      return { error: 'אינך משובץ לאתר זה', status: 403 };
+    }
+
+    await query(`
+      INSERT INTO post_order_acknowledgements (id, post_order_id, employee_id, assignment_id)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (post_order_id, employee_id) DO NOTHING
+    `, [generateUUID(), postOrderId, employeeId, assignmentId]);
+
+    const result = await query(
+      'SELECT * FROM post_order_acknowledgements WHERE post_order_id = $1 AND employee_id = $2',
+      [postOrderId, employeeId]
+    );
+    return { acknowledgement: result.rows[0] };
+  }
+
+  /**
+   * Current post orders of the assignment's site, for the guard's panel
+   * @param {object} assignment - { assignment_id, employee_id, site_id }
+   * @returns {object|null} Post order with acknowledged_at (null when pending)
+   */
+  async getForAssignment(assignment) {
+    if (!assignment?.site_id) return null;
+    const current = await this.getCurrent(assignment.site_id);
+    if (!current) return null;
+
+    const ack = await query(
+      'SELECT acknowledged_at FROM post_order_acknowledgements WHERE post_order_id = $1 AND employee_id = $2',
+      [current.id, assignment.employee_id]
+    );
+    return {
+      id: current.id,
+      version: current.version,
+      title: current.title,
+      content: current.content,
+      change_summary: current.change_summary,
+      created_at: current.created_at,
+      acknowledged_at: ack.rows[0]?.acknowledged_at || null,
+    };
+  }
+
+  /**
+   * Check-in gate. Records the acknowledgement sent with the punch, then
+   * returns the current post orders if the guard still has not acknowledged
+   * them. Managers punching for a guard are not asked. The gate goes by the
+   * time the server receives the punch, not the device's recorded_at, so a
+   * punch replayed from the offline queue is held like any other until the
+   * guard acknowledges the version that was current by then.
+   * @param {object} punch - checkPunch() result: { site_id, employee_id, self_punch }
+   * @param {object} body - Check-in body: { post_order_id }
+   * @returns {object|null} Post order still to acknowledge, or null
+   */
+  async checkInGate(assignmentId, punch, body) {
+    if (!punch.site_id || !punch.self_punch) return null;
+    const current = await this.getCurrent(punch.site_id);
+    if (!current) return null;
+
+    if (body?.post_order_id) {
+      const sent = await query(
+        'SELECT id FROM site_post_orders WHERE id = $1 AND site_id = $2',
+        [body.post_order_id, punch.site_id]
+      );
+      if (sent.rows.length > 0) {
+        await this.acknowledge(body.post_order_id, punch.employee_id, assignmentId);
+      }
+    }
+
+    const pending = await this.getForAssignment({ site_id: punch.site_id, employee_id: punch.employee_id });
+    return pending && !pending.acknowledged_at ? pending : null;
+  }
+
+  /**
+   * Who has and hasn't acknowledged a site's current version: guards
+   * assigned to the site within ROSTER_WINDOW_DAYS before or after today
+   * @returns {object} { post_order, acknowledged, pending }
+   */
+  async getAcknowledgementStatus(siteId) {
+    const current = await this.getCurrent(siteId);
+    if (!current) return { post_order: null, acknowledged: [], pending: [] };
+
+    const result = await query(`
+      SELECT e.id as employee_id, e.first_name || ' ' || e.last_name as employee_name, e.phone,
+             MIN(CASE WHEN s.date >= date('now', 'localtime') THEN s.date END) as next_shift_date,
+             (SELECT a.acknowledged_at FROM post_order_acknowledgements a
+              WHERE a.post_order_id = $2 AND a.employee_id = e.id) as acknowledged_at,
+             (SELECT MAX(po.version) FROM post_order_acknowledgements a
+              JOIN site_post_orders po ON a.post_order_id = po.id
+              WHERE po.site_id = $1 AND a.employee_id = e.id) as last_acknowledged_version
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON sa.employee_id = e.id
+      WHERE s.site_id = $1
+      AND s.date >= date('now', 'localtime', '-${ROSTER_WINDOW_DAYS} days')
+      AND s.date <= date('now', 'localtime', '+${ROSTER_WINDOW_DAYS} days')
+      AND s.status != 'cancelled'
+      GROUP BY e.id, e.first_name, e.last_name, e.phone
+      ORDER BY e.first_name, e.last_name
+    `, [siteId, current.id]);
+
+    return {
+      post_order: current,
+      acknowledged: result.rows.filter(r => r.acknowledged_at),
+      pending: result.rows.filter(r => !r.acknowledged_at),
+    };
+  }
+}
+
+module.exports = new PostOrderService();
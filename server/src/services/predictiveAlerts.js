@@ -1,13 +1,15 @@
 /**
  * Predictive Alerts Service (Smart Alert Engine)
  * Runs daily checks for expiring certifications, overworked employees,
- * unpaid invoices, expiring contracts, and weapon license expirations.
+ * unpaid invoices, expiring contracts, weapon license expirations and
+ * Hours of Work and Rest Law violations in the current and next week.
  *
  * Uses configurable thresholds from alert_config table.
  * Supports alert muting, severity levels, and configurable dedup windows.
  */
 const db = require('../config/database');
 const crypto = require('crypto');
+const workHoursCompliance = require('./workHoursCompliance');
 
 class PredictiveAlerts {
   /**
@@ -151,6 +153,7 @@ class PredictiveAlerts {
       'unpaid_invoices': '_check_unpaid_invoices',
       'contract_expiry': '_check_contract_expiry',
       'weapon_license': '_check_weapon_license',
+      'work_hours': '_check_work_hours',
     };
 
     for (const config of configs) {
@@ -372,6 +375,44 @@ class PredictiveAlerts {
       return { error: e.message };
     }
   }
+
+  /**
+   * Hours of Work and Rest Law violations in the current and next week
+   */
+  async _check_work_hours(config) {
+    try {
+      const toDateStr = (d) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+      const start = new Date();
+      start.setDate(start.getDate() - start.getDay());
+      const end = new Date(start);
+      end.setDate(end.getDate() + 13);
+
+      const { employees } = await workHoursCompliance.analyzePeriod(toDateStr(start), toDateStr(end));
+      const violating = employees.filter(e => e.violations.some(v => v.severity === 'error'));
+
+      let created = 0;
+      for (const emp of violating) {
+        // Check dedup
+        if (await this._isDuplicate(config, emp.employee_id)) continue;
+
+        const errors = emp.violations.filter(v => v.severity === 'error');
+        const severity = errors.some(v => v.code === 'weekly_rest' || v.code === 'daily_hours') ? 'critical' : 'warning';
+        const notified = await this._notifyManagers(
+          config,
+          `חריגה מחוק שעות עבודה: ${emp.employee_name}`,
+          `${emp.employee_name}: ${errors.map(v => v.message).join('; ')}`,
+          'employee',
+          emp.employee_id,
+          severity
+        );
+        if (notified > 0) created++;
+      }
+      return { checked: employees.length, created };
+    } catch (e) {
+      console.error('[PredictiveAlerts] Work hours check failed:', e.message);
+      return { error: e.message };
+    }
+  }
 }
 
 module.exports = new PredictiveAlerts();
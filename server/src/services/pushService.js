@@ -0,0 +1,365 @@
+/**
+ * Push Service
+ * Web Push delivery to the guard app and the managers' browsers, so shift
+ * reminders and alerts reach a phone even when the app is closed. Every
+ * browser/device that opted in holds a subscription; the server signs its
+ * messages with VAPID keys it generates once and keeps in system_config.
+ *
+ * Messages are sorted into categories that each user can switch off in the
+ * Profile page. Delivery is best-effort and never fails the caller: the in-app
+ * notification and WhatsApp remain the record.
+ */
+const axios = require('axios');
+const webPush = require('web-push');
+const { query, generateUUID } = require('../config/database');
+
+const VAPID_KEY = 'vapid_keys';
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:admin@tzevet-yahalom.co.il';
+// Alerts are worthless a day later; reminders are re-sent by the next run anyway
+const TTL_SECONDS = 12 * 60 * 60;
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+// The local stand-in push endpoint (see pushStandIn) is for testing; production enables it explicitly
+const STAND_IN_ENABLED = process.env.NODE_ENV !== 'production' || process.env.PUSH_STAND_IN === 'true';
+// Origin the stand-in endpoints point back at
+const STAND_IN_BASE_URL = process.env.PUSH_STAND_IN_URL || `http://127.0.0.1:${process.env.PORT || 5000}`;
+
+const CATEGORIES = {
+  shift_reminders: { label: 'תזכורות משמרת', urgency: 'normal' },
+  assignment_changes: { label: 'שינויי שיבוץ', urgency: 'normal' },
+  open_shifts: { label: 'הצעות למשמרות פתוחות', urgency: 'low' },
+  critical_alerts: { label: 'התראות קריטיות', urgency: 'high' },
+};
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function placeOf(row) {
+  return row.site_name || row.company_name || 'משמרת';
+}
+
+function parsePreferences(value) {
+  let saved = {};
+  try {
+    saved = JSON.parse(value || '{}') || {};
+  } catch (e) { /* corrupt value - treat as defaults */ }
+  const preferences = {};
+  for (const category of Object.keys(CATEGORIES)) {
+    preferences[category] = saved[category] !== false;
+  }
+  return preferences;
+}
+
+function validSubscription(subscription) {
+  const endpoint = subscription?.endpoint;
+  const keys = subscription?.keys;
+  if (typeof endpoint !== 'string' || endpoint.length > 1000) return null;
+  // Browser push services are always https; plain http is only this server's own stand-in,
+  // so a subscription cannot make the server post to an arbitrary internal address
+  const standIn = STAND_IN_ENABLED && endpoint.startsWith(`${STAND_IN_BASE_URL}/api/push/stand-in/`)
+    && /^[0-9a-f]+$/.test(endpoint.slice(`${STAND_IN_BASE_URL}/api/push/stand-in/`.length));
+  if (!endpoint.startsWith('https://') && !standIn) return null;
+  if (typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') return null;
+  return { endpoint, p256dh: keys.p256dh, auth: keys.auth };
+}
+
+// ── Push Service Class ───────────────────────────────────────────────────────
+
+class PushService {
+  constructor() {
+    this.CATEGORIES = CATEGORIES;
+    this.standInEnabled = STAND_IN_ENABLED;
+    this.standInBaseUrl = STAND_IN_BASE_URL;
+    this._vapid = null;
+  }
+
+  // ── 1. Keys ────────────────────────────────────────────────────────────
+
+  /**
+   * VAPID key pair: VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY when set, otherwise
+   * generated on first use and stored. Replacing the keys invalidates every
+   * existing subscription, so they are never rotated automatically.
+   */
+  async getVapidKeys() {
+    if (this._vapid) return this._vapid;
+
+    if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+      this._vapid = { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+      return this._vapid;
+    }
+
+    const result = await query('SELECT value FROM system_config WHERE key = $1', [VAPID_KEY]);
+    try {
+      const stored = JSON.parse(result.rows[0]?.value || 'null');
+      if (stored?.publicKey && stored?.privateKey) {
+        this._vapid = stored;
+        return this._vapid;
+      }
+    } catch (e) { /* regenerate below */ }
+
+    const keys = webPush.generateVAPIDKeys();
+    // Another request may have generated keys meanwhile - the first one wins
+    await query(`
+      INSERT INTO system_config (id, key, value) VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO NOTHING
+    `, [generateUUID(), VAPID_KEY, JSON.stringify(keys)]);
+    const saved = await query('SELECT value FROM system_config WHERE key = $1', [VAPID_KEY]);
+    this._vapid = JSON.parse(saved.rows[0].value);
+    console.log('[Push] Generated VAPID keys');
+    return this._vapid;
+  }
+
+  async getPublicKey() {
+    const { publicKey } = await this.getVapidKeys();
+    return publicKey;
+  }
+
+  // ── 2. Subscriptions and preferences ───────────────────────────────────
+
+  /**
+   * Register this browser for the user. An endpoint already registered to
+   * someone else (shared device, new login) moves to the current user.
+   * @returns {object} { subscription } or { error, status }
+   */
+  async subscribe(userId, input, userAgent) {
+    const subscription = validSubscription(input);
+    if (!subscription) {
+      return { error: 'פרטי המנוי להתראות אינם תקינים', status: 400 };
+    }
+
+    const count = await query(
+      'SELECT COUNT(*) as count FROM push_subscriptions WHERE user_id = $1 AND endpoint != $2',
+      [userId, subscription.endpoint]
+    );
+    if (parseInt(count.rows[0].count) >= MAX_SUBSCRIPTIONS_PER_USER) {
+      return { error: `ניתן להפעיל התראות בעד ${MAX_SUBSCRIPTIONS_PER_USER} מכשירים`, status: 400 };
+    }
+
+    await query(`
+      INSERT INTO push_subscriptions (id, user_id, endpoint, p256dh, auth, user_agent)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (endpoint) DO UPDATE SET user_id = excluded.user_id, p256dh = excluded.p256dh,
+        auth = excluded.auth, user_agent = excluded.user_agent
+    `, [generateUUID(), userId, subscription.endpoint, subscription.p256dh, subscription.auth,
+        userAgent ? String(userAgent).slice(0, 300) : null]);
+
+    const result = await query(
+      'SELECT id, user_agent, last_used_at, created_at FROM push_subscriptions WHERE endpoint = $1',
+      [subscription.endpoint]
+    );
+    return { subscription: result.rows[0] };
+  }
+
+  /** @returns {boolean} Whether a subscription of this user was removed */
+  async unsubscribe(userId, endpoint) {
+    const result = await query(
+      'DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2',
+      [userId, endpoint]
+    );
+    return result.rowCount > 0;
+  }
+
+  async listDevices(userId) {
+    const result = await query(`
+      SELECT id, endpoint, user_agent, last_used_at, created_at
+      FROM push_subscriptions WHERE user_id = $1
+      ORDER BY created_at DESC
+    `, [userId]);
+    return result.rows;
+  }
+
+  /** @returns {Object<string, boolean>} Switch per category; all on by default */
+  async getPreferences(userId) {
+    const result = await query('SELECT push_preferences FROM users WHERE id = $1', [userId]);
+    return parsePreferences(result.rows[0]?.push_preferences);
+  }
+
+  async setPreferences(userId, input) {
+    const current = await this.getPreferences(userId);
+    const preferences = { ...current };
+    for (const category of Object.keys(CATEGORIES)) {
+      if (typeof input?.[category] === 'boolean') preferences[category] = input[category];
+    }
+    await query('UPDATE users SET push_preferences = $2 WHERE id = $1', [userId, JSON.stringify(preferences)]);
+    return preferences;
+  }
+
+  // ── 3. Delivery ────────────────────────────────────────────────────────
+
+  /**
+   * Push a message to every device of a user who has the category on.
+   * Subscriptions the push service reports as gone are deleted.
+   * @param {object} message - { title, body, url, tag }
+   * @returns {number} Devices the message was handed to
+   */
+  async sendToUser(userId, category, message) {
+    if (!userId || !CATEGORIES[category]) return 0;
+    try {
+      const preferences = await this.getPreferences(userId);
+      if (!preferences[category]) return 0;
+
+      const subscriptions = await query(
+        'SELECT id, endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = $1',
+        [userId]
+      );
+      if (subscriptions.rows.length === 0) return 0;
+
+      const { publicKey, privateKey } = await this.getVapidKeys();
+      const payload = JSON.stringify({
+        title: message.title,
+        body: message.body || '',
+        url: message.url || '/',
+        tag: message.tag || category,
+        critical: category === 'critical_alerts',
+      });
+      const options = {
+        vapidDetails: { subject: VAPID_SUBJECT, publicKey, privateKey },
+        TTL: TTL_SECONDS,
+        urgency: CATEGORIES[category].urgency,
+      };
+
+      let delivered = 0;
+      for (const sub of subscriptions.rows) {
+        try {
+          await this._deliver({ endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } }, payload, options);
+          await query(`UPDATE push_subscriptions SET last_used_at = datetime('now') WHERE id = $1`, [sub.id]);
+          delivered++;
+        } catch (err) {
+          if (err.statusCode === 404 || err.statusCode === 410) {
+            await query('DELETE FROM push_subscriptions WHERE id = $1', [sub.id]);
+          } else {
+            console.error(`[Push] Delivery failed (${err.statusCode || err.message})`);
+          }
+        }
+      }
+      return delivered;
+    } catch (error) {
+      console.error('[Push] sendToUser error:', error.message);
+      return 0;
+    }
+  }
+
+  /** web-push only speaks https, so the plain-http stand-in gets the same request via axios */
+  async _deliver(subscription, payload, options) {
+    if (subscription.endpoint.startsWith('https://')) {
+      return webPush.sendNotification(subscription, payload, options);
+    }
+    const request = webPush.generateRequestDetails(subscription, payload, options);
+    const response = await axios.post(request.endpoint, request.body, {
+      headers: request.headers,
+      timeout: 10000,
+      validateStatus: () => true,
+    });
+    if (response.status >= 300) {
+      throw Object.assign(new Error(`Push endpoint answered ${response.status}`), { statusCode: response.status });
+    }
+  }
+
+  async sendToUsers(userIds, category, message) {
+    let delivered = 0;
+    for (const userId of new Set(userIds.filter(Boolean))) {
+      delivered += await this.sendToUser(userId, category, message);
+    }
+    return delivered;
+  }
+
+  /** Push to the user behind an employee record, if they have one */
+  async sendToEmployee(employeeId, category, message) {
+    if (!employeeId) return 0;
+    const result = await query('SELECT user_id FROM employees WHERE id = $1', [employeeId]);
+    return this.sendToUser(result.rows[0]?.user_id, category, message);
+  }
+
+  async sendToManagers(category, message) {
+    const managers = await query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
+    return this.sendToUsers(managers.rows.map(m => m.id), category, message);
+  }
+
+  // ── 4. Messages ────────────────────────────────────────────────────────
+
+  /**
+   * Shift reminders for today (dayOffset 0) or tomorrow (1), sent alongside
+   * the WhatsApp reminders of the scheduler.
+   * @returns {number} Devices reached
+   */
+  async remindShifts(dayOffset) {
+    const day = dayOffset === 0 ? `date('now', 'localtime')` : `date('now', 'localtime', '+1 day')`;
+    const result = await query(`
+      SELECT sa.id, e.user_id, s.date, s.start_time, s.end_time,
+             c.company_name, si.name as site_name
+      FROM shift_assignments sa
+      JOIN employees e ON sa.employee_id = e.id
+      JOIN shifts s ON sa.shift_id = s.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.date = ${day}
+      AND sa.status = 'assigned'
+      AND e.user_id IS NOT NULL
+    `);
+
+    let delivered = 0;
+    for (const row of result.rows) {
+      delivered += await this.sendToUser(row.user_id, 'shift_reminders', {
+        title: dayOffset === 0 ? 'משמרת היום' : 'משמרת מחר',
+        body: `${placeOf(row)} · ${row.start_time}-${row.end_time}`,
+        url: '/guard-panel',
+        tag: `shift-reminder-${row.id}`,
+      });
+    }
+    return delivered;
+  }
+
+  /** Tell a guard they were added to or removed from a shift */
+  async notifyAssignment(employeeId, shiftId, assigned) {
+    const result = await query(`
+      SELECT s.date, s.start_time, s.end_time, c.company_name, si.name as site_name
+      FROM shifts s
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.id = $1
+    `, [shiftId]);
+    const shift = result.rows[0];
+    if (!shift) return 0;
+
+    return this.sendToEmployee(employeeId, 'assignment_changes', {
+      title: assigned ? 'שובצת למשמרת' : 'הוסרת ממשמרת',
+      body: `${placeOf(shift)} · ${shift.date} ${shift.start_time}-${shift.end_time}`,
+      url: assigned ? '/guard-panel' : '/shifts',
+      tag: `assignment-${shiftId}`,
+    });
+  }
+
+  /**
+   * Offer a shift that has open slots to the guards not already on it.
+   * Only upcoming shifts are offered; past or full shifts are ignored.
+   * @returns {number} Devices reached
+   */
+  async offerOpenShift(shiftId) {
+    const result = await query(`
+      SELECT s.id, s.date, s.start_time, s.end_time, s.required_employees,
+             c.company_name, si.name as site_name,
+             (SELECT COUNT(*) FROM shift_assignments sa WHERE sa.shift_id = s.id AND sa.status != 'cancelled') as assigned_count
+      FROM shifts s
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.id = $1 AND s.date >= date('now', 'localtime') AND s.status IN ('scheduled', 'in_progress')
+    `, [shiftId]);
+    const shift = result.rows[0];
+    if (!shift || shift.required_employees <= parseInt(shift.assigned_count)) return 0;
+
+    const guards = await query(`
+      SELECT DISTINCT e.user_id
+      FROM employees e
+      JOIN push_subscriptions ps ON ps.user_id = e.user_id
+      WHERE e.status = 'active' AND e.deleted_at IS NULL
+      AND e.id NOT IN (SELECT employee_id FROM shift_assignments WHERE shift_id = $1 AND status != 'cancelled')
+    `, [shiftId]);
+
+    return this.sendToUsers(guards.rows.map(g => g.user_id), 'open_shifts', {
+      title: 'משמרת פתוחה',
+      body: `${placeOf(shift)} · ${shift.date} ${shift.start_time}-${shift.end_time}`,
+      url: '/open-shifts',
+      tag: `open-shift-${shiftId}`,
+    });
+  }
+}
+
+module.exports = new PushService();
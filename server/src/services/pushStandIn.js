@@ -0,0 +1,134 @@
+/**
+ * Push Stand-in
+ * Local replacement for a browser push service, for testing push delivery
+ * without a real browser. A stand-in device is a subscription whose endpoint
+ * points back at this server; messages sent to it are decrypted (RFC 8291,
+ * aes128gcm) with keys the stand-in holds, and kept in memory for inspection.
+ * Expiring a device makes the endpoint answer 410 Gone like a browser that
+ * unsubscribed, which exercises the cleanup path of pushService.
+ *
+ * Devices live only in memory: after a restart their endpoints answer 410 and
+ * the leftover subscriptions are removed on the next send.
+ */
+const crypto = require('crypto');
+const pushService = require('./pushService');
+
+const MAX_DEVICES = 50;
+const MAX_MESSAGES = 50;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function hmac(key, data) {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/** Decrypt a single-record aes128gcm body with the device's keys */
+function decrypt(device, body) {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const sharedSecret = device.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'), device.ecdh.getPublicKey(), serverPublicKey, Buffer.from([1]),
+  ]);
+  const ikm = hmac(hmac(device.authSecret, sharedSecret), keyInfo);
+  const prk = hmac(salt, ikm);
+  const contentKey = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  // Plaintext is followed by a 0x02 delimiter and optional zero padding
+  return padded.subarray(0, padded.lastIndexOf(2)).toString('utf8');
+}
+
+function summary(device) {
+  return { id: device.id, endpoint: device.endpoint, expired: device.expired, created_at: device.createdAt };
+}
+
+// ── Push Stand-in Class ──────────────────────────────────────────────────────
+
+class PushStandIn {
+  constructor() {
+    this.devices = new Map();
+  }
+
+  /**
+   * Subscribe a new stand-in device for the user.
+   * @param {string} baseUrl - Origin this server is reachable at
+   * @returns {object} { device } or { error, status }
+   */
+  async createDevice(userId, baseUrl) {
+    if (this.devices.size >= MAX_DEVICES) {
+      this.devices.delete(this.devices.keys().next().value);
+    }
+
+    const id = crypto.randomBytes(12).toString('hex');
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.generateKeys();
+    const authSecret = crypto.randomBytes(16);
+    const endpoint = `${baseUrl}/api/push/stand-in/${id}`;
+
+    const result = await pushService.subscribe(userId, {
+      endpoint,
+      keys: { p256dh: ecdh.getPublicKey().toString('base64url'), auth: authSecret.toString('base64url') },
+    }, 'push stand-in');
+    if (result.error) return result;
+
+    const device = { id, userId, endpoint, ecdh, authSecret, expired: false, messages: [], createdAt: new Date().toISOString() };
+    this.devices.set(id, device);
+    return { device: summary(device) };
+  }
+
+  /**
+   * Accept a push for a device, as a push service would.
+   * @returns {number} HTTP status to answer with
+   */
+  receive(id, body, headers) {
+    const device = this.devices.get(id);
+    if (!device || device.expired) return 410;
+    if (!Buffer.isBuffer(body) || body.length < 21 + 65 + 16) return 400;
+
+    let message;
+    try {
+      const text = decrypt(device, body);
+      try {
+        message = JSON.parse(text);
+      } catch (e) {
+        message = text;
+      }
+    } catch (error) {
+      return 400;
+    }
+
+    device.messages.unshift({
+      received_at: new Date().toISOString(),
+      ttl: headers.ttl ? parseInt(headers.ttl) : null,
+      urgency: headers.urgency || 'normal',
+      topic: headers.topic || null,
+      message,
+    });
+    device.messages.length = Math.min(device.messages.length, MAX_MESSAGES);
+    return 201;
+  }
+
+  /** A user's own device with the messages it received, newest first */
+  getDevice(userId, id) {
+    const device = this.devices.get(id);
+    if (!device || device.userId !== userId) return null;
+    return { ...summary(device), messages: device.messages };
+  }
+
+  /** Make the endpoint answer 410 Gone from now on */
+  expireDevice(userId, id) {
+    const device = this.devices.get(id);
+    if (!device || device.userId !== userId) return false;
+    device.expired = true;
+    return true;
+  }
+}
+
+module.exports = new PushStandIn();
@@ -0,0 +1,222 @@
+/**
+ * Readiness Service
+ * Pre-shift checklist the guard confirms before checking in: fixed items
+ * (uniform, radio...) configured per shift template or per site, plus the
+ * weapons and equipment issued to the guard. The answers are stored with
+ * the assignment, and any failed item alerts the shift managers.
+ */
+const { query, generateUUID } = require('../config/database');
+const pushService = require('./pushService');
+
+// Used when neither the shift template nor the site has its own checklist
+const DEFAULT_ITEMS = [
+  { key: 'uniform', label: 'מדים תקניים ותג זיהוי' },
+  { key: 'radio', label: 'מכשיר קשר טעון ותקין' },
+];
+const MAX_ITEMS = 20;
+const ANSWER_KINDS = ['item', 'weapon', 'equipment'];
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function parseItems(value) {
+  try {
+    const items = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(items) ? items : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/** Serial numbers are compared without spaces, dashes and case */
+function normalizeSerial(value) {
+  return String(value || '').replace(/[\s-]/g, '').toUpperCase();
+}
+
+function toChecklist(row, source) {
+  return {
+    id: row?.id || null,
+    source,
+    items: row ? parseItems(row.items) : DEFAULT_ITEMS,
+    include_issued_items: row ? !!row.include_issued_items : true,
+  };
+}
+
+// ── Readiness Service Class ──────────────────────────────────────────────────
+
+class ReadinessService {
+  constructor() {
+    this.DEFAULT_ITEMS = DEFAULT_ITEMS;
+  }
+
+  /**
+   * Trimmed checklist items, keys filled in from the position
+   * @returns {Array|null} null when the input is not a list
+   */
+  normalizeItems(items) {
+    if (!Array.isArray(items)) return null;
+    return items
+      .map((item, i) => ({
+        key: String(item?.key || `item_${i + 1}`).slice(0, 40),
+        label: typeof item?.label === 'string' ? item.label.trim().slice(0, 200) : '',
+      }))
+      .filter(item => item.label)
+      .slice(0, MAX_ITEMS);
+  }
+
+  /**
+   * Checklist configured for a site or a shift template
+   * @param {object} scope - { siteId } or { templateId }
+   * @returns {object} Checklist, the default one when nothing is configured
+   */
+  async getChecklist(scope) {
+    const column = scope.templateId ? 'template_id' : 'site_id';
+    const result = await query(
+      `SELECT * FROM readiness_checklists WHERE ${column} = $1`,
+      [scope.templateId || scope.siteId]
+    );
+    return toChecklist(result.rows[0], result.rows[0] ? (scope.templateId ? 'template' : 'site') : 'default');
+  }
+
+  /**
+   * Create or replace the checklist of a site or a shift template
+   * @param {object} scope - { siteId } or { templateId }
+   * @param {object} data - { items, include_issued_items }
+   * @returns {object} { checklist } or { error, status }
+   */
+  async saveChecklist(scope, data, userId) {
+    const items = this.normalizeItems(data?.items);
+    if (!items) {
+      return { error: 'רשימת פריטים לא תקינה', status: 400 };
+    }
+    const column = scope.templateId ? 'template_id' : 'site_id';
+    const includeIssued = data.include_issued_items === false ? 0 : 1;
+
+    const existing = await query(
+      `SELECT id FROM readiness_checklists WHERE ${column} = $1`,
+      [scope.templateId || scope.siteId]
+    );
+    if (existing.rows.length > 0) {
+      await query(`
+        UPDATE readiness_checklists
+        SET items = $2, include_issued_items = $3, updated_by = $4, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `, [existing.rows[0].id, JSON.stringify(items), includeIssued, userId]);
+    } else {
+      await query(`
+        INSERT INTO readiness_checklists (id, ${column}, items, include_issued_items, updated_by)
+        VALUES ($1, $2, $3, $4, $5)
+      `, [generateUUID(), scope.templateId || scope.siteId, JSON.stringify(items), includeIssued, userId]);
+    }
+
+    return { checklist: await this.getChecklist(scope) };
+  }
+
+  /**
+   * Checklist in force for an assignment: its shift template's, else its
+   * site's, else the default one
+   * @param {object} assignment - { template_id, site_id }
+   * @returns {object|null} null when the checklist has nothing to confirm
+   */
+  async getForAssignment(assignment) {
+    let checklist = null;
+    if (assignment.template_id) {
+      checklist = await this.getChecklist({ templateId: assignment.template_id });
+    }
+    if ((!checklist || checklist.source === 'default') && assignment.site_id) {
+      checklist = await this.getChecklist({ siteId: assignment.site_id });
+    }
+    checklist = checklist || toChecklist(null, 'default');
+    return checklist.items.length > 0 || checklist.include_issued_items ? checklist : null;
+  }
+
+  /**
+   * Store the guard's answers sent with the check-in and alert the managers
+   * about failed items. Weapon answers carry the serial number the guard
+   * read off the weapon; one that does not match the issued weapon fails.
+   * A replayed check-in keeps the first answers.
+   * @param {object} readiness - { answers: [{ key, label, kind, ok, value, note }] }
+   * @returns {object|null} { failed } or null when nothing was sent
+   */
+  async record(assignmentId, employeeId, readiness) {
+    if (!Array.isArray(readiness?.answers) || readiness.answers.length === 0) return null;
+
+    const weapons = await query(
+      `SELECT id, serial_number FROM guard_weapons WHERE employee_id = $1 AND status = 'assigned'`,
+      [employeeId]
+    );
+    const serials = new Map(weapons.rows.map(w => [w.id, normalizeSerial(w.serial_number)]));
+
+    const answers = readiness.answers.slice(0, MAX_ITEMS * 3).map(answer => {
+      const kind = ANSWER_KINDS.includes(answer?.kind) ? answer.kind : 'item';
+      const result = {
+        key: String(answer?.key || '').slice(0, 60),
+        label: String(answer?.label || '').slice(0, 200),
+        kind,
+        ok: !!answer?.ok,
+        note: typeof answer?.note === 'string' ? answer.note.trim().slice(0, 500) || null : null,
+      };
+      if (kind === 'weapon') {
+        const issued = serials.get(answer.item_id);
+        result.value = String(answer.value || '').slice(0, 60);
+        if (issued && normalizeSerial(result.value) !== issued) {
+          result.ok = false;
+          result.note = result.note || 'המספר הסידורי אינו תואם לנשק שהונפק';
+        }
+      }
+      return result;
+    });
+    const failed = answers.filter(a => !a.ok);
+
+    const inserted = await query(`
+      INSERT INTO readiness_checks (id, assignment_id, employee_id, answers, failed_count)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (assignment_id) DO NOTHING
+    `, [generateUUID(), assignmentId, employeeId, JSON.stringify(answers), failed.length]);
+
+    if (inserted.rowCount && failed.length > 0) {
+      await this.notifyFailed(assignmentId, failed);
+    }
+    return { failed: failed.length };
+  }
+
+  /** The stored answers of an assignment, or null */
+  async getCheck(assignmentId) {
+    const result = await query('SELECT * FROM readiness_checks WHERE assignment_id = $1', [assignmentId]);
+    const row = result.rows[0];
+    return row ? { ...row, answers: parseItems(row.answers) } : null;
+  }
+
+  /** Tell the shift managers what the guard reported missing or faulty */
+  async notifyFailed(assignmentId, failed) {
+    const result = await query(`
+      SELECT e.first_name, e.last_name, s.id as shift_id, s.start_time, s.end_time,
+             si.name as site_name, c.company_name
+      FROM shift_assignments sa
+      JOIN employees e ON sa.employee_id = e.id
+      JOIN shifts s ON sa.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      WHERE sa.id = $1
+    `, [assignmentId]);
+    const row = result.rows[0];
+    if (!row) return;
+
+    const name = `${row.first_name} ${row.last_name}`;
+    const title = `חוסר בכשירות למשמרת: ${name}`;
+    const message = `${name} דיווח/ה בתחילת המשמרת ${row.start_time}-${row.end_time} ב${row.site_name || row.company_name || 'אתר'}: `
+      + failed.map(f => (f.note ? `${f.label} (${f.note})` : f.label)).join(', ');
+
+    const managers = await query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
+    for (const manager of managers.rows) {
+      await query(`
+        INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+        VALUES ($1, $2, 'readiness_failed', $3, $4, 'shift', $5)
+      `, [generateUUID(), manager.id, title, message, row.shift_id]);
+    }
+    await pushService.sendToManagers('critical_alerts', {
+      title, body: message, url: '/shifts', tag: `readiness-${assignmentId}`,
+    });
+  }
+}
+
+module.exports = new ReadinessService();
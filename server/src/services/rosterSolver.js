@@ -0,0 +1,262 @@
+/**
+ * Roster Solver Service
+ * Proposes assignments for every open slot in a week. Greedy fill, hardest
+ * shifts first, under the same hard rules the assign route enforces
+ * (overlap, rest, weekly hours, weapon, certifications) plus availability,
+ * scored by fatigue, fairness of hours, site familiarity and shift preference.
+ */
+const { query } = require('../config/database');
+const assignmentValidator = require('./assignmentValidator');
+const shiftIntelligence = require('./shiftIntelligence');
+const availabilityService = require('./availabilityService');
+
+// Local calendar date; toISOString() would shift local midnight to the previous day
+function toDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function hoursBetween(a, b) {
+  return (b - a) / (1000 * 60 * 60);
+}
+
+// ── Roster Solver Class ──────────────────────────────────────────────────────
+
+class RosterSolver {
+  /**
+   * Build an assignment proposal for a week. Nothing is written.
+   * @param {string} weekStart - Sunday (YYYY-MM-DD)
+   * @returns {{week_start: string, proposals: Array, unfilled: Array, stats: object}}
+   */
+  async proposeWeek(weekStart) {
+    const start = new Date(weekStart + 'T00:00:00');
+    const end = new Date(start);
+    end.setDate(start.getDate() + 6);
+    const weekEnd = toDateStr(end);
+    const before = new Date(start);
+    before.setDate(start.getDate() - 1);
+    const after = new Date(end);
+    after.setDate(end.getDate() + 1);
+
+    const { min_rest_hours: minRest, max_weekly_hours: maxWeekly } = await assignmentValidator.getLimits();
+
+    // ── 1. Open shifts in the week ───────────────────────────────────────
+    const shiftsResult = await query(`
+      SELECT s.id, s.date, s.start_time, s.end_time, s.required_employees, s.requires_weapon, s.site_id,
+             c.company_name, si.name as site_name, si.required_certifications,
+             (SELECT COUNT(*) FROM shift_assignments WHERE shift_id = s.id AND status != 'cancelled') as assigned_count
+      FROM shifts s
+      LEFT JOIN customers c ON s.customer_id = c.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.date BETWEEN $1 AND $2
+      AND s.status NOT IN ('cancelled', 'completed')
+      ORDER BY s.date, s.start_time
+    `, [weekStart, weekEnd]);
+
+    const openShifts = shiftsResult.rows
+      .map(s => ({ ...s, missing: (s.required_employees || 1) - (parseInt(s.assigned_count) || 0) }))
+      .filter(s => s.missing > 0);
+
+    if (openShifts.length === 0) {
+      return { week_start: weekStart, proposals: [], unfilled: [], stats: { open_slots: 0, filled: 0 } };
+    }
+
+    // ── 2. Candidates ────────────────────────────────────────────────────
+    const employeesResult = await query(`
+      SELECT id, first_name, last_name, has_weapon_license, weapon_license_expiry
+      FROM employees
+      WHERE status = 'active' AND deleted_at IS NULL
+    `);
+    const employees = employeesResult.rows;
+
+    const certsResult = await query(`
+      SELECT employee_id, cert_type, expiry_date
+      FROM guard_certifications
+      WHERE status = 'active'
+    `);
+    const certsByEmployee = {};
+    for (const c of certsResult.rows) {
+      if (!certsByEmployee[c.employee_id]) certsByEmployee[c.employee_id] = [];
+      certsByEmployee[c.employee_id].push(c);
+    }
+    const validCertTypes = (employeeId, date) => new Set(
+      (certsByEmployee[employeeId] || [])
+        .filter(c => !c.expiry_date || c.expiry_date >= date)
+        .map(c => c.cert_type)
+    );
+
+    // ── 3. Availability (weekly pattern + date blocks) and preferences ───
+    for (const shift of openShifts) {
+      shift.unavailable = await availabilityService.getUnavailableEmployeeIds(shift.date, shift.start_time, shift.end_time);
+    }
+    const preferredTypes = await availabilityService.getPreferredShiftTypes();
+
+    // ── 4. Existing commitments (week ± 1 day for rest/overlap) ──────────
+    const existingResult = await query(`
+      SELECT sa.employee_id, s.date, s.start_time, s.end_time
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      WHERE s.date BETWEEN $1 AND $2
+      AND sa.status != 'cancelled'
+    `, [toDateStr(before), toDateStr(after)]);
+
+    const commitments = {};
+    const weeklyHours = {};
+    for (const row of existingResult.rows) {
+      const range = assignmentValidator.shiftRange(row.date, row.start_time, row.end_time);
+      if (!commitments[row.employee_id]) commitments[row.employee_id] = [];
+      commitments[row.employee_id].push(range);
+      if (row.date >= weekStart && row.date <= weekEnd) {
+        weeklyHours[row.employee_id] = (weeklyHours[row.employee_id] || 0) + hoursBetween(range.start, range.end);
+      }
+    }
+
+    // ── 5. Site familiarity (last 90 days) ───────────────────────────────
+    const since = new Date(start);
+    since.setDate(start.getDate() - 90);
+    const familiarityResult = await query(`
+      SELECT sa.employee_id, s.site_id, COUNT(*) as shift_count
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      WHERE s.date >= $1 AND s.date < $2
+      AND s.site_id IS NOT NULL
+      AND sa.status != 'cancelled'
+      GROUP BY sa.employee_id, s.site_id
+    `, [toDateStr(since), weekStart]);
+    const familiarity = {};
+    for (const row of familiarityResult.rows) {
+      familiarity[`${row.employee_id}:${row.site_id}`] = parseInt(row.shift_count) || 0;
+    }
+
+    // ── 6. Fatigue risk from shift intelligence ──────────────────────────
+    const fatigue = await shiftIntelligence.analyzeFatigueRisk({ weekStart, persist: false });
+    const fatigueMap = {};
+    for (const f of fatigue) fatigueMap[f.employee_id] = f.risk_level;
+
+    // ── 7. Eligibility (hard rules) ──────────────────────────────────────
+    const isEligible = (emp, shift, range) => {
+      if (fatigueMap[emp.id] === 'high') return false;
+      if (shift.unavailable.has(emp.id)) return false;
+
+      const certTypes = validCertTypes(emp.id, shift.date);
+      if (shift.requires_weapon && !assignmentValidator.hasWeaponClearance(emp, certTypes, shift.date)) return false;
+
+      let requiredCerts = [];
+      try {
+        requiredCerts = JSON.parse(shift.required_certifications || '[]');
+      } catch (e) { /* ignore */ }
+      if (requiredCerts.some(c => !certTypes.has(c))) return false;
+
+      if ((weeklyHours[emp.id] || 0) + hoursBetween(range.start, range.end) > maxWeekly) return false;
+
+      for (const other of commitments[emp.id] || []) {
+        if (other.start < range.end && other.end > range.start) return false;
+        const gap = other.end <= range.start
+          ? hoursBetween(other.end, range.start)
+          : hoursBetween(range.end, other.start);
+        if (gap < minRest) return false;
+      }
+      return true;
+    };
+
+    // ── 8. Greedy fill, scarcest shifts first ────────────────────────────
+    for (const shift of openShifts) {
+      shift.range = assignmentValidator.shiftRange(shift.date, shift.start_time, shift.end_time);
+      shift.candidateCount = employees.filter(e => isEligible(e, shift, shift.range)).length;
+    }
+    const ordered = [...openShifts].sort((a, b) =>
+      (a.candidateCount - a.missing) - (b.candidateCount - b.missing) ||
+      a.date.localeCompare(b.date) ||
+      a.start_time.localeCompare(b.start_time)
+    );
+
+    const proposals = [];
+    const unfilled = [];
+
+    for (const shift of ordered) {
+      const taken = new Set();
+      for (let slot = 0; slot < shift.missing; slot++) {
+        let best = null;
+
+        for (const emp of employees) {
+          if (taken.has(emp.id) || !isEligible(emp, shift, shift.range)) continue;
+
+          const reasons = [];
+          let score = 50;
+
+          // Fairness: fewer hours this week ranks higher (0 to +30)
+          const hours = weeklyHours[emp.id] || 0;
+          const fairness = Math.round(30 * (1 - Math.min(1, hours / maxWeekly)));
+          score += fairness;
+          reasons.push(hours === 0 ? 'ללא משמרות השבוע' : `${Math.round(hours)} שעות השבוע`);
+
+          // Site familiarity (0 to +15)
+          const known = shift.site_id ? familiarity[`${emp.id}:${shift.site_id}`] || 0 : 0;
+          if (known > 0) {
+            score += Math.min(15, 5 + known);
+            reasons.push('היכרות עם האתר');
+          }
+
+          // Preferred shift type (+5)
+          if ((preferredTypes[emp.id] || []).includes(availabilityService.shiftTypeOf(shift.start_time))) {
+            score += 5;
+            reasons.push('מעדיף סוג משמרת זה');
+          }
+
+          // Fatigue
+          if (fatigueMap[emp.id] === 'medium') {
+            score -= 15;
+            reasons.push('סיכון עייפות בינוני');
+          }
+
+          if (!best || score > best.score) best = { emp, score, reasons };
+        }
+
+        if (!best) {
+          unfilled.push({
+            shift_id: shift.id,
+            date: shift.date,
+            start_time: shift.start_time,
+            end_time: shift.end_time,
+            site_name: shift.site_name,
+            company_name: shift.company_name,
+            missing: shift.missing - slot,
+          });
+          break;
+        }
+
+        taken.add(best.emp.id);
+        if (!commitments[best.emp.id]) commitments[best.emp.id] = [];
+        commitments[best.emp.id].push(shift.range);
+        weeklyHours[best.emp.id] = (weeklyHours[best.emp.id] || 0) + hoursBetween(shift.range.start, shift.range.end);
+
+        proposals.push({
+          shift_id: shift.id,
+          date: shift.date,
+          start_time: shift.start_time,
+          end_time: shift.end_time,
+          site_name: shift.site_name,
+          company_name: shift.company_name,
+          requires_weapon: !!shift.requires_weapon,
+          employee_id: best.emp.id,
+          employee_name: `${best.emp.first_name} ${best.emp.last_name}`,
+          score: best.score,
+          reasons: best.reasons,
+        });
+      }
+    }
+
+    proposals.sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+    const openSlots = openShifts.reduce((sum, s) => sum + s.missing, 0);
+
+    console.log(`[RosterSolver] Week ${weekStart}: ${proposals.length}/${openSlots} slots proposed`);
+
+    return {
+      week_start: weekStart,
+      proposals,
+      unfilled,
+      stats: { open_slots: openSlots, filled: proposals.length },
+    };
+  }
+}
+
+module.exports = new RosterSolver();
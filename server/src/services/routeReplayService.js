@@ -0,0 +1,150 @@
+/**
+ * Route Replay Service
+ * Everything needed to review a guard's shift on the map after the fact: the
+ * GPS track reported while checked in, the checkpoint scans from the patrol
+ * log, and the periods the guard stayed in one spot.
+ */
+const { query } = require('../config/database');
+const { calculateDistance } = require('../utils/geocoder');
+const workHoursCompliance = require('./workHoursCompliance');
+
+// Fixes less accurate than this are left off the track (same as the history route)
+const MAX_ACCURACY_METERS = 100;
+
+// A stop: the guard stayed within this radius for at least this long
+const STOP_RADIUS_METERS = 40;
+const MIN_STOP_MINUTES = 10;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Milliseconds of a stored UTC timestamp, in SQLite or PostgreSQL form */
+function utcMs(value) {
+  return workHoursCompliance.parsePunch(value)?.getTime() ?? NaN;
+}
+
+/**
+ * Group consecutive points that stay within STOP_RADIUS_METERS of their
+ * running centre; groups lasting MIN_STOP_MINUTES or more are stops
+ * @param {Array} points - Track points ordered by recorded_at
+ * @returns {Array} [{ latitude, longitude, started_at, ended_at, minutes, points }]
+ */
+function detectStops(points) {
+  const stops = [];
+  let cluster = null;
+
+  const close = () => {
+    if (!cluster) return;
+    const minutes = Math.round((utcMs(cluster.ended_at) - utcMs(cluster.started_at)) / 60000);
+    if (minutes >= MIN_STOP_MINUTES) {
+      stops.push({
+        latitude: cluster.latitude,
+        longitude: cluster.longitude,
+        started_at: cluster.started_at,
+        ended_at: cluster.ended_at,
+        minutes,
+        points: cluster.count,
+      });
+    }
+  };
+
+  for (const point of points) {
+    if (cluster && calculateDistance(cluster.latitude, cluster.longitude, point.latitude, point.longitude) <= STOP_RADIUS_METERS) {
+      cluster.count++;
+      cluster.latitude += (point.latitude - cluster.latitude) / cluster.count;
+      cluster.longitude += (point.longitude - cluster.longitude) / cluster.count;
+      cluster.ended_at = point.recorded_at;
+      continue;
+    }
+    close();
+    cluster = {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      started_at: point.recorded_at,
+      ended_at: point.recorded_at,
+      count: 1,
+    };
+  }
+  close();
+  return stops;
+}
+
+// ── Route Replay Service Class ───────────────────────────────────────────────
+
+class RouteReplayService {
+  /**
+   * Assignments of a day that were checked in, for picking a shift to replay
+   * @param {string} date - YYYY-MM-DD
+   */
+  async listAssignments(date) {
+    const result = await query(`
+      SELECT sa.id as assignment_id, sa.status, sa.check_in_time, sa.check_out_time,
+             e.first_name || ' ' || e.last_name as employee_name,
+             s.date, s.start_time, s.end_time, si.name as site_name, c.company_name,
+             (SELECT COUNT(*) FROM guard_locations gl WHERE gl.shift_assignment_id = sa.id) as point_count,
+             (SELECT COUNT(*) FROM patrol_logs pl WHERE pl.shift_assignment_id = sa.id) as scan_count
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON sa.employee_id = e.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      WHERE s.date = $1
+      AND sa.check_in_time IS NOT NULL
+      ORDER BY s.start_time, e.first_name
+    `, [date]);
+    return result.rows;
+  }
+
+  /**
+   * Track, checkpoint scans and stops of one assignment
+   * @returns {object|null} { assignment, points, scans, stops }, null when not found
+   */
+  async getReplay(assignmentId) {
+    const assignmentResult = await query(`
+      SELECT sa.id as assignment_id, sa.employee_id, sa.status, sa.check_in_time, sa.check_out_time,
+             sa.check_in_latitude, sa.check_in_longitude, sa.check_out_latitude, sa.check_out_longitude,
+             e.first_name || ' ' || e.last_name as employee_name,
+             s.date, s.start_time, s.end_time, s.site_id,
+             si.name as site_name, si.latitude as site_latitude, si.longitude as site_longitude,
+             c.company_name
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON sa.employee_id = e.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      WHERE sa.id = $1
+    `, [assignmentId]);
+    const assignment = assignmentResult.rows[0];
+    if (!assignment) return null;
+
+    const pointsResult = await query(`
+      SELECT latitude, longitude, accuracy, recorded_at
+      FROM guard_locations
+      WHERE shift_assignment_id = $1
+      AND latitude IS NOT NULL AND longitude IS NOT NULL
+      AND (accuracy IS NULL OR accuracy <= $2)
+      ORDER BY recorded_at ASC
+    `, [assignmentId, MAX_ACCURACY_METERS]);
+    const points = pointsResult.rows.map(p => ({ ...p, latitude: Number(p.latitude), longitude: Number(p.longitude) }));
+
+    // Scans without their own location are placed at the checkpoint
+    const scansResult = await query(`
+      SELECT pl.id, pl.checkpoint_id, pl.status, pl.observation, pl.method, pl.checked_at,
+             COALESCE(pl.latitude, sc.latitude) as latitude,
+             COALESCE(pl.longitude, sc.longitude) as longitude,
+             sc.name as checkpoint_name
+      FROM patrol_logs pl
+      LEFT JOIN site_checkpoints sc ON pl.checkpoint_id = sc.id
+      WHERE pl.shift_assignment_id = $1
+      ORDER BY pl.checked_at ASC
+    `, [assignmentId]);
+
+    return {
+      assignment,
+      points,
+      scans: scansResult.rows,
+      stops: detectStops(points),
+    };
+  }
+}
+
+module.exports = new RouteReplayService();
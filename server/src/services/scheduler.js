@@ -5,10 +5,11 @@
  * Phase 2: DB-backed config, per-job logging, retry logic, enable/disable toggles
  */
 const cron = require('node-cron');
-const crypto = require('crypto');
 const { query, db, generateUUID } = require('../config/database');
 const whatsappHelper = require('../utils/whatsappHelper');
 const googleHelper = require('../utils/googleHelper');
+const pushService = require('./pushService');
+const noShowService = require('./noShowService');
 
 class Scheduler {
   constructor() {
@@ -466,7 +467,9 @@ class Scheduler {
 
     // Every day at 07:00 - Send shift reminders for today
     await this.addJob('0 7 * * *', 'daily-shift-reminders', async () => {
-      return await this.sendTodayShiftReminders();
+      const pushed = await pushService.remindShifts(0);
+      const result = await this.sendTodayShiftReminders();
+      return { ...result, details: `${result.details}; ${pushed} push reminders` };
     });
 
     // Every day at 07:15 - Predictive alerts
@@ -479,7 +482,9 @@ class Scheduler {
 
     // Every day at 20:00 - Send tomorrow shift reminders
     await this.addJob('0 20 * * *', 'tomorrow-shift-reminders', async () => {
-      return await this.sendTomorrowShiftReminders();
+      const pushed = await pushService.remindShifts(1);
+      const result = await this.sendTomorrowShiftReminders();
+      return { ...result, details: `${result.details}; ${pushed} push reminders` };
     });
 
     // Every day at 09:00 - Check overdue invoices (notify admins)
@@ -522,10 +527,11 @@ class Scheduler {
       return await this.checkUnresolvedIncidents();
     });
 
-    // Every 15 minutes - Check for guard no-shows
-    await this.addJob('*/15 * * * *', 'guard-no-show-check', async () => {
+    // Every 5 minutes - Remind late guards, escalate no-shows to managers
+    await this.addJob('*/5 * * * *', 'guard-no-show-check', async () => {
       return await this.checkGuardNoShows();
     });
+    await this.seedJobConfig('guard-no-show-check', 'איחורים ואי-הגעה', 'תזכורת למאבטח שלא ביצע צ\'ק-אין, הסלמה למנהלים ופתיחת בקשת החלפה', '*/5 * * * *', 'monitoring');
 
     // Every day at 03:00 - Cleanup old guard location data
     await this.addJob('0 3 * * *', 'guard-location-cleanup', async () => {
@@ -554,7 +560,8 @@ class Scheduler {
     await this.addJob('0 2 * * *', 'log-cleanup', async () => {
       const result = await query(`DELETE FROM automation_run_log WHERE started_at < datetime('now', '-30 days')`);
       const result2 = await query(`DELETE FROM auto_generation_log WHERE created_at < datetime('now', '-30 days')`);
-      const deleted = (result.rowCount || 0) + (result2.rowCount || 0);
+      const result3 = await query(`DELETE FROM idempotency_keys WHERE created_at < datetime('now', '-7 days')`);
+      const deleted = (result.rowCount || 0) + (result2.rowCount || 0) + (result3.rowCount || 0);
       return { processed: deleted, details: `Deleted ${deleted} old log entries` };
     });
     await this.seedJobConfig('log-cleanup', 'ניקוי לוגים', 'מחיקת לוגי אוטומציה ישנים (30+ ימים)', '0 2 * * *', 'maintenance');
@@ -1095,69 +1102,10 @@ class Scheduler {
   }
 
   /**
-   * Check for guard no-shows (shift started 15+ min ago, no check-in)
+   * Check for late guards and no-shows (thresholds in noShowService settings)
    */
   async checkGuardNoShows() {
-    const result = await query(`
-      SELECT sa.id as assignment_id, sa.employee_id, sa.shift_id,
-             e.first_name, e.last_name, e.phone,
-             s.date, s.start_time, s.end_time,
-             c.company_name, si.name as site_name, si.address as site_address
-      FROM shift_assignments sa
-      JOIN employees e ON sa.employee_id = e.id
-      JOIN shifts s ON sa.shift_id = s.id
-      LEFT JOIN customers c ON s.customer_id = c.id
-      LEFT JOIN sites si ON s.site_id = si.id
-      WHERE s.date = date('now', 'localtime')
-      AND sa.status = 'assigned'
-      AND sa.check_in_time IS NULL
-      AND time('now', 'localtime') > time(s.start_time, '+15 minutes')
-      AND time('now', 'localtime') < time(s.end_time)
-    `);
-
-    if (result.rows.length === 0) return { processed: 0, details: 'No guard no-shows' };
-
-    console.log(`[CRON] Found ${result.rows.length} guard no-shows`);
-
-    for (const ns of result.rows) {
-      const admins = await query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
-      for (const admin of admins.rows) {
-        const notifId = crypto.randomUUID();
-        await query(`
-          INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
-          VALUES (?, ?, 'no_show', ?, ?, 'shift_assignment', ?)
-        `, [notifId, admin.id,
-            `אי הגעה: ${ns.first_name} ${ns.last_name}`,
-            `${ns.first_name} ${ns.last_name} לא ביצע/ה צ'ק-אין למשמרת ${ns.start_time}-${ns.end_time} ב${ns.site_name || ns.company_name || 'אתר'}`,
-            ns.assignment_id]);
-      }
-
-      await query(`UPDATE shift_assignments SET status = 'no_show' WHERE id = ?`, [ns.assignment_id]);
-    }
-
-    if (!whatsappHelper.isConfigured()) {
-      return { processed: result.rows.length, created: result.rows.length, details: `${result.rows.length} no-shows detected (WhatsApp not configured)` };
-    }
-
-    const admins = await query(`
-      SELECT phone FROM users WHERE role IN ('admin', 'manager') AND phone IS NOT NULL AND is_active = 1
-    `);
-
-    let summary = `התראת אי-הגעה! 🚨\n\n`;
-    for (const ns of result.rows) {
-      summary += `• ${ns.first_name} ${ns.last_name}\n`;
-      summary += `  ${ns.site_name || ns.company_name || 'משמרת'} | ${ns.start_time}-${ns.end_time}\n\n`;
-    }
-    summary += `סה"כ: ${result.rows.length} מאבטחים\nצוות יהלום CRM`;
-
-    let sent = 0;
-    for (const admin of admins.rows) {
-      await whatsappHelper.safeSend(admin.phone, summary);
-      sent++;
-      await this.delay(500);
-    }
-
-    return { processed: result.rows.length, created: result.rows.length, details: `${result.rows.length} no-shows detected, ${sent} admins notified` };
+    return await noShowService.run();
   }
 
   /**
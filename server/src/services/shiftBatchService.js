@@ -0,0 +1,301 @@
+/**
+ * Shift Batch Service
+ * Bulk shift operations (bulk delete, week copy, template generation) are
+ * recorded as batches so they can be undone for a configurable window:
+ * deleted shifts and assignments are restored from a snapshot of their rows
+ * and of the rows the delete cascades to, created ones are removed again.
+ */
+const { query, transaction, generateUUID } = require('../config/database');
+
+const UNDO_WINDOW_KEY = 'shift_undo_window_minutes';
+const DEFAULT_UNDO_WINDOW_MINUTES = 30;
+const MAX_UNDO_WINDOW_MINUTES = 7 * 24 * 60;
+
+const OPERATIONS = ['bulk_delete', 'copy_week', 'generate_from_template'];
+
+function parseJson(value, fallback) {
+  try {
+    return value ? JSON.parse(value) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+}
+
+// Tables whose rows are deleted along with a shift or an assignment (ON DELETE CASCADE),
+// in the order they are restored
+const DEPENDENTS = [
+  { table: 'shift_bids', shiftColumns: ['shift_id'], assignmentColumns: [] },
+  { table: 'shift_swap_requests', shiftColumns: ['shift_id', 'target_shift_id'], assignmentColumns: [] },
+  { table: 'shift_handovers', shiftColumns: ['shift_id'], assignmentColumns: ['assignment_id'] },
+  { table: 'replacement_requests', shiftColumns: ['shift_id'], assignmentColumns: ['assignment_id'] },
+  { table: 'geofence_exceptions', shiftColumns: [], assignmentColumns: ['assignment_id'] },
+  { table: 'readiness_checks', shiftColumns: [], assignmentColumns: ['assignment_id'] },
+  { table: 'timesheet_corrections', shiftColumns: [], assignmentColumns: ['assignment_id'] },
+];
+
+// Links to an assignment that a delete clears (ON DELETE SET NULL)
+const ASSIGNMENT_LINKS = [
+  { table: 'sos_alerts', column: 'assignment_id' },
+  { table: 'post_order_acknowledgements', column: 'assignment_id' },
+  { table: 'replacement_requests', column: 'replacement_assignment_id' },
+];
+
+/**
+ * Rows of a dependent table that belong to the given shifts or assignments
+ * @returns {{ sql: string, params: string[] }|null} null when nothing can match
+ */
+function dependentQuery(select, { table, shiftColumns, assignmentColumns }, shiftIds, assignmentIds) {
+  const params = [];
+  const list = (values) => values.map(v => `$${params.push(v)}`).join(', ');
+  const where = [
+    ...(shiftIds.length > 0 ? shiftColumns.map(c => `${c} IN (${list(shiftIds)})`) : []),
+    ...(assignmentIds.length > 0 ? assignmentColumns.map(c => `${c} IN (${list(assignmentIds)})`) : []),
+  ];
+  return where.length > 0 ? { sql: `SELECT ${select} FROM ${table} WHERE ${where.join(' OR ')}`, params } : null;
+}
+
+class ShiftBatchService {
+  constructor() {
+    this.OPERATIONS = OPERATIONS;
+  }
+
+  // ── 1. Undo Window ─────────────────────────────────────────────────────────
+
+  /**
+   * Minutes after an operation during which it can still be undone
+   */
+  async getUndoWindow() {
+    const result = await query('SELECT value FROM system_config WHERE key = $1', [UNDO_WINDOW_KEY]);
+    const minutes = parseInt(result.rows[0]?.value);
+    return minutes > 0 ? minutes : DEFAULT_UNDO_WINDOW_MINUTES;
+  }
+
+  /**
+   * @param {number} minutes - 1 minute up to a week
+   * @returns {number|null} Saved window, null when out of range
+   */
+  async setUndoWindow(minutes) {
+    const value = parseInt(minutes);
+    if (!(value >= 1 && value <= MAX_UNDO_WINDOW_MINUTES)) return null;
+    await query(`
+      INSERT INTO system_config (id, key, value) VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `, [generateUUID(), UNDO_WINDOW_KEY, String(value)]);
+    return value;
+  }
+
+  // ── 2. Recording ───────────────────────────────────────────────────────────
+
+  /**
+   * Full rows of shifts, their assignments and the rows deleting them would
+   * cascade to, taken before a delete
+   * @param {string[]} shiftIds
+   * @returns {{ shifts: object[], assignments: object[], dependents: Object<string, object[]>, links: object[] }}
+   */
+  async snapshot(shiftIds) {
+    if (!shiftIds || shiftIds.length === 0) return { shifts: [], assignments: [], dependents: {}, links: [] };
+    const placeholders = shiftIds.map((_, i) => `$${i + 1}`).join(', ');
+    const shifts = await query(`SELECT * FROM shifts WHERE id IN (${placeholders})`, shiftIds);
+    const assignments = await query(`SELECT * FROM shift_assignments WHERE shift_id IN (${placeholders})`, shiftIds);
+    const assignmentIds = assignments.rows.map(a => a.id);
+
+    const dependents = {};
+    for (const dependent of DEPENDENTS) {
+      const q = dependentQuery('*', dependent, shiftIds, assignmentIds);
+      const rows = q ? (await query(q.sql, q.params)).rows : [];
+      if (rows.length > 0) dependents[dependent.table] = rows;
+    }
+
+    const links = [];
+    for (const { table, column } of ASSIGNMENT_LINKS) {
+      const q = dependentQuery(`id, ${column} as assignment_id`,
+        { table, shiftColumns: [], assignmentColumns: [column] }, [], assignmentIds);
+      if (!q) continue;
+      const rows = await query(q.sql, q.params);
+      links.push(...rows.rows.map(r => ({ table, column, id: r.id, assignment_id: r.assignment_id })));
+    }
+
+    return { shifts: shifts.rows, assignments: assignments.rows, dependents, links };
+  }
+
+  /**
+   * Record a bulk operation as an undoable batch
+   * @param {string} operation - one of OPERATIONS
+   * @param {object} data
+   * @param {string} data.description - human readable summary (Hebrew)
+   * @param {string} [data.userId]
+   * @param {string[]} [data.createdShiftIds]
+   * @param {string[]} [data.createdAssignmentIds] - assignments added to shifts that already existed
+   * @param {object} [data.deleted] - snapshot of deleted rows, see snapshot()
+   * @returns {{ batch_id: string, undo_expires_at: string }|null} null when nothing changed
+   */
+  async record(operation, { description, userId = null, createdShiftIds = [], createdAssignmentIds = [], deleted = null }) {
+    const deletedCount = deleted ? deleted.shifts.length : 0;
+    if (createdShiftIds.length === 0 && createdAssignmentIds.length === 0 && deletedCount === 0) return null;
+
+    const id = generateUUID();
+    const createdAt = new Date();
+    await query(`
+      INSERT INTO shift_operation_batches
+        (id, operation, description, created_shift_ids, created_assignment_ids, deleted_snapshot, shift_count, created_by, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [id, operation, description,
+        JSON.stringify(createdShiftIds), JSON.stringify(createdAssignmentIds),
+        deleted ? JSON.stringify(deleted) : null,
+        createdShiftIds.length + deletedCount, userId, createdAt.toISOString()]);
+
+    const windowMinutes = await this.getUndoWindow();
+    return {
+      batch_id: id,
+      undo_expires_at: new Date(createdAt.getTime() + windowMinutes * 60000).toISOString(),
+    };
+  }
+
+  // ── 3. History ─────────────────────────────────────────────────────────────
+
+  /**
+   * Recent batches, newest first, with whether each can still be undone
+   * @param {number} [limit]
+   */
+  async list(limit = 50) {
+    const windowMinutes = await this.getUndoWindow();
+    const result = await query(`
+      SELECT b.id, b.operation, b.description, b.shift_count, b.created_at, b.undone_at,
+             b.created_assignment_ids,
+             u.first_name || ' ' || u.last_name as created_by_name,
+             uu.first_name || ' ' || uu.last_name as undone_by_name
+      FROM shift_operation_batches b
+      LEFT JOIN users u ON b.created_by = u.id
+      LEFT JOIN users uu ON b.undone_by = uu.id
+      ORDER BY b.created_at DESC
+      LIMIT $1
+    `, [limit]);
+
+    const now = Date.now();
+    const batches = result.rows.map(({ created_assignment_ids, ...b }) => {
+      const expiresAt = new Date(new Date(b.created_at).getTime() + windowMinutes * 60000);
+      return {
+        ...b,
+        assignment_count: parseJson(created_assignment_ids, []).length,
+        undo_expires_at: expiresAt.toISOString(),
+        can_undo: !b.undone_at && expiresAt.getTime() > now,
+      };
+    });
+    return { batches, undo_window_minutes: windowMinutes };
+  }
+
+  // ── 4. Undo ────────────────────────────────────────────────────────────────
+
+  async _insertRows(table, rows, run = query) {
+    let inserted = 0;
+    for (const row of rows) {
+      const columns = Object.keys(row);
+      const result = await run(`
+        INSERT INTO ${table} (${columns.join(', ')})
+        VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+        ON CONFLICT (id) DO NOTHING
+      `, columns.map(c => row[c]));
+      if (result.rowCount !== 0) inserted++;
+    }
+    return inserted;
+  }
+
+  /**
+   * Revert a batch: restore deleted rows, remove created ones
+   * @param {string} batchId
+   * @param {string} userId
+   * @returns {{ restored: number, removed: number }|{ error: string, status: number }}
+   */
+  async undo(batchId, userId) {
+    const result = await query('SELECT * FROM shift_operation_batches WHERE id = $1', [batchId]);
+    const batch = result.rows[0];
+    if (!batch) return { error: 'הפעולה לא נמצאה', status: 404 };
+    if (batch.undone_at) return { error: 'הפעולה כבר בוטלה', status: 409 };
+
+    const windowMinutes = await this.getUndoWindow();
+    if (new Date(batch.created_at).getTime() + windowMinutes * 60000 < Date.now()) {
+      return { error: 'חלון הזמן לביטול הפעולה הסתיים', status: 409 };
+    }
+
+    // Claim the batch first, so concurrent undos cannot both restore it
+    const claim = await query(`
+      UPDATE shift_operation_batches SET undone_at = $1, undone_by = $2 WHERE id = $3 AND undone_at IS NULL
+    `, [new Date().toISOString(), userId, batchId]);
+    if (!claim.rowCount) return { error: 'הפעולה כבר בוטלה', status: 409 };
+    const release = () => query(
+      'UPDATE shift_operation_batches SET undone_at = NULL, undone_by = NULL WHERE id = $1',
+      [batchId]
+    );
+
+    const shiftIds = parseJson(batch.created_shift_ids, []);
+    const assignmentIds = parseJson(batch.created_assignment_ids, []);
+
+    // Removing created shifts must not erase real attendance
+    if (shiftIds.length > 0 || assignmentIds.length > 0) {
+      const ids = [...shiftIds, ...assignmentIds];
+      const shiftPh = shiftIds.map((_, i) => `$${i + 1}`).join(', ') || 'NULL';
+      const assignPh = assignmentIds.map((_, i) => `$${shiftIds.length + i + 1}`).join(', ') || 'NULL';
+      const punched = await query(`
+        SELECT COUNT(*) as count FROM shift_assignments
+        WHERE (shift_id IN (${shiftPh}) OR id IN (${assignPh})) AND check_in_time IS NOT NULL
+      `, ids);
+      if (parseInt(punched.rows[0].count) > 0) {
+        await release();
+        return { error: 'לא ניתן לבטל: עובדים כבר החתימו כניסה במשמרות שנוצרו', status: 409 };
+      }
+
+      // Nor silently take bids, requests or reports made since with it
+      const affected = await query(`
+        SELECT id FROM shift_assignments WHERE shift_id IN (${shiftPh}) OR id IN (${assignPh})
+      `, ids);
+      const affectedIds = affected.rows.map(a => a.id);
+      for (const dependent of DEPENDENTS) {
+        const q = dependentQuery('COUNT(*) as count', dependent, shiftIds, affectedIds);
+        const linked = q ? await query(q.sql, q.params) : null;
+        if (linked && parseInt(linked.rows[0].count) > 0) {
+          await release();
+          return { error: 'לא ניתן לבטל: קיימות בקשות או רשומות שנוספו למשמרות שנוצרו', status: 409 };
+        }
+      }
+    }
+
+    let removed = 0;
+    let restored = 0;
+    try {
+      await transaction(async (tx) => {
+        if (assignmentIds.length > 0) {
+          const ph = assignmentIds.map((_, i) => `$${i + 1}`).join(', ');
+          await tx(`DELETE FROM shift_assignments WHERE id IN (${ph})`, assignmentIds);
+        }
+        if (shiftIds.length > 0) {
+          const ph = shiftIds.map((_, i) => `$${i + 1}`).join(', ');
+          await tx(`DELETE FROM shift_assignments WHERE shift_id IN (${ph})`, shiftIds);
+          const deleted = await tx(`DELETE FROM shifts WHERE id IN (${ph})`, shiftIds);
+          removed = deleted.rowCount ?? shiftIds.length;
+        }
+
+        const snapshot = parseJson(batch.deleted_snapshot, null);
+        if (snapshot) {
+          restored = await this._insertRows('shifts', snapshot.shifts || [], tx);
+          await this._insertRows('shift_assignments', snapshot.assignments || [], tx);
+          for (const { table } of DEPENDENTS) {
+            await this._insertRows(table, snapshot.dependents?.[table] || [], tx);
+          }
+          for (const link of snapshot.links || []) {
+            await tx(
+              `UPDATE ${link.table} SET ${link.column} = $1 WHERE id = $2 AND ${link.column} IS NULL`,
+              [link.assignment_id, link.id]
+            );
+          }
+        }
+      });
+    } catch (error) {
+      await release();
+      throw error;
+    }
+
+    return { restored, removed };
+  }
+}
+
+module.exports = new ShiftBatchService();
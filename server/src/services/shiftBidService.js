@@ -0,0 +1,499 @@
+/**
+ * Shift Bid Service
+ * Bidding mode for open shifts: guards raise a hand instead of taking the
+ * shift on the spot, bids are ranked by configurable rules (seniority, weekly
+ * hours deficit, rating, proximity to the site) and a manager approves the
+ * winners. The shift stays open until then; when it fills up the remaining
+ * bidders are notified that it went to someone else.
+ */
+const { query, transaction, generateUUID } = require('../config/database');
+const assignmentValidator = require('./assignmentValidator');
+const workHoursCompliance = require('./workHoursCompliance');
+const pushService = require('./pushService');
+
+const MODE_KEY = 'open_shift_mode';
+const WEIGHTS_KEY = 'open_shift_bid_weights';
+
+// 'first_come' assigns on self-assign, 'bidding' collects bids for approval
+const MODES = ['first_come', 'bidding'];
+const DEFAULT_MODE = 'first_come';
+
+// Relative weight of each ranking rule (0 turns a rule off)
+const DEFAULT_WEIGHTS = {
+  seniority: 1,
+  hours_deficit: 1,
+  rating: 1,
+  proximity: 1,
+};
+const MAX_WEIGHT = 5;
+
+// Seniority counts in full from this many years
+const SENIORITY_FULL_YEARS = 10;
+
+// Guards living this far from the site or more get no proximity credit
+const PROXIMITY_MAX_KM = 50;
+
+// Factor used when a guard has no data for a rule (no rating, no home address)
+const NEUTRAL_FACTOR = 0.5;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function haversineDistance(lat1, lon1, lat2, lon2) {
+  const R = 6371;
+  const toRad = (deg) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function weekBounds(dateStr) {
+  const d = new Date(dateStr + 'T00:00:00');
+  const start = new Date(d);
+  start.setDate(d.getDate() - d.getDay()); // Sunday
+  const end = new Date(start);
+  end.setDate(start.getDate() + 6);
+  const fmt = (x) => `${x.getFullYear()}-${String(x.getMonth() + 1).padStart(2, '0')}-${String(x.getDate()).padStart(2, '0')}`;
+  return { start: fmt(start), end: fmt(end) };
+}
+
+function clamp01(n) {
+  return Math.max(0, Math.min(1, n));
+}
+
+function round1(n) {
+  return Math.round(n * 10) / 10;
+}
+
+function today() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// ── Shift Bid Service Class ──────────────────────────────────────────────────
+
+class ShiftBidService {
+  constructor() {
+    this.MODES = MODES;
+    this.DEFAULT_WEIGHTS = DEFAULT_WEIGHTS;
+  }
+
+  // ── 1. Settings ────────────────────────────────────────────────────────
+
+  /**
+   * Open-shift mode and ranking weights currently in force
+   * @returns {{ mode: string, weights: object }}
+   */
+  async getSettings() {
+    const settings = { mode: DEFAULT_MODE, weights: { ...DEFAULT_WEIGHTS } };
+    try {
+      const result = await query(
+        'SELECT key, value FROM system_config WHERE key IN ($1, $2)',
+        [MODE_KEY, WEIGHTS_KEY]
+      );
+      for (const row of result.rows) {
+        if (row.key === MODE_KEY && MODES.includes(row.value)) settings.mode = row.value;
+        if (row.key === WEIGHTS_KEY) {
+          const parsed = JSON.parse(row.value || '{}');
+          for (const rule of Object.keys(DEFAULT_WEIGHTS)) {
+            const weight = parseFloat(parsed[rule]);
+            if (!isNaN(weight) && weight >= 0 && weight <= MAX_WEIGHT) settings.weights[rule] = weight;
+          }
+        }
+      }
+    } catch (e) { /* fall back to defaults */ }
+    return settings;
+  }
+
+  /**
+   * Update the open-shift mode and/or ranking weights
+   * @param {{ mode?: string, weights?: object }} input
+   * @returns {object} Saved settings, or { error, status }
+   */
+  async setSettings({ mode, weights }) {
+    if (mode !== undefined && !MODES.includes(mode)) {
+      return { error: 'מצב משמרות פתוחות לא תקין', status: 400 };
+    }
+    let cleanWeights = null;
+    if (weights !== undefined) {
+      cleanWeights = {};
+      for (const rule of Object.keys(DEFAULT_WEIGHTS)) {
+        const weight = parseFloat(weights?.[rule] ?? DEFAULT_WEIGHTS[rule]);
+        if (isNaN(weight) || weight < 0 || weight > MAX_WEIGHT) {
+          return { error: `משקל כלל חייב להיות בין 0 ל-${MAX_WEIGHT}`, status: 400 };
+        }
+        cleanWeights[rule] = weight;
+      }
+    }
+
+    const upsert = (key, value) => query(`
+      INSERT INTO system_config (id, key, value) VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `, [generateUUID(), key, value]);
+
+    if (mode !== undefined) await upsert(MODE_KEY, mode);
+    if (cleanWeights) await upsert(WEIGHTS_KEY, JSON.stringify(cleanWeights));
+    return this.getSettings();
+  }
+
+  // ── 2. Guard side ──────────────────────────────────────────────────────
+
+  /**
+   * Raise a hand for an open shift (re-bidding revives a withdrawn bid)
+   * @param {string} shiftId
+   * @param {string} employeeId
+   * @param {string} [note]
+   * @returns {object} Bid, or { error, status, issues? }
+   */
+  async placeBid(shiftId, employeeId, note) {
+    const shiftResult = await query(
+      `SELECT s.*, si.required_certifications FROM shifts s LEFT JOIN sites si ON s.site_id = si.id WHERE s.id = $1`,
+      [shiftId]
+    );
+    const shift = shiftResult.rows[0];
+    if (!shift) return { error: 'משמרת לא נמצאה', status: 404 };
+    if (shift.date < today()) return { error: 'לא ניתן להגיש מועמדות למשמרת שעברה', status: 400 };
+
+    const assigned = await query(
+      `SELECT employee_id FROM shift_assignments WHERE shift_id = $1 AND status != 'cancelled'`,
+      [shiftId]
+    );
+    if (assigned.rows.some(r => r.employee_id === employeeId)) {
+      return { error: 'כבר משובץ למשמרת זו', status: 400 };
+    }
+    if (assigned.rows.length >= shift.required_employees) {
+      return { error: 'אין מקומות פנויים במשמרת זו', status: 400 };
+    }
+
+    // Hard conflicts disqualify right away; overridable ones are left to the manager
+    const issues = await assignmentValidator.validate(shift, employeeId);
+    const blocking = issues.find(i => i.severity === 'error' && !i.overridable);
+    if (blocking) return { error: blocking.message, status: 400, issues };
+
+    const cleanNote = typeof note === 'string' && note.trim() ? note.trim() : null;
+    await query(`
+      INSERT INTO shift_bids (id, shift_id, employee_id, status, note)
+      VALUES ($1, $2, $3, 'pending', $4)
+      ON CONFLICT (shift_id, employee_id) DO UPDATE SET
+        status = 'pending', note = excluded.note, created_at = CURRENT_TIMESTAMP,
+        resolved_at = NULL, resolved_by = NULL
+    `, [generateUUID(), shiftId, employeeId, cleanNote]);
+
+    const saved = await query('SELECT * FROM shift_bids WHERE shift_id = $1 AND employee_id = $2', [shiftId, employeeId]);
+    return saved.rows[0];
+  }
+
+  /**
+   * Withdraw a pending bid
+   * @returns {boolean} false when there was no pending bid
+   */
+  async withdraw(shiftId, employeeId) {
+    const result = await query(`
+      UPDATE shift_bids SET status = 'withdrawn', resolved_at = datetime('now')
+      WHERE shift_id = $1 AND employee_id = $2 AND status = 'pending'
+    `, [shiftId, employeeId]);
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Bid status per shift for a guard (upcoming shifts only)
+   * @param {string} employeeId
+   * @returns {object} Map of shift_id → status
+   */
+  async getMyBids(employeeId) {
+    const result = await query(`
+      SELECT b.shift_id, b.status
+      FROM shift_bids b
+      JOIN shifts s ON b.shift_id = s.id
+      WHERE b.employee_id = $1 AND s.date >= date('now', 'localtime')
+    `, [employeeId]);
+    const bids = {};
+    for (const row of result.rows) bids[row.shift_id] = row.status;
+    return bids;
+  }
+
+  // ── 3. Ranking ─────────────────────────────────────────────────────────
+
+  /**
+   * Upcoming shifts with pending bids, each with its bidders ranked by score
+   * @returns {{ shifts: Array, weights: object }}
+   */
+  async getRankedBids() {
+    const { weights } = await this.getSettings();
+    const weightSum = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+    const bidsResult = await query(`
+      SELECT b.id, b.shift_id, b.employee_id, b.note, b.created_at,
+             e.first_name || ' ' || e.last_name as employee_name, e.hire_date,
+             e.home_latitude, e.home_longitude,
+             s.date, s.start_time, s.end_time, s.required_employees, s.requires_weapon, s.site_id,
+             si.name as site_name, si.latitude as site_latitude, si.longitude as site_longitude,
+             si.required_certifications, c.company_name,
+             (SELECT COUNT(*) FROM shift_assignments sa WHERE sa.shift_id = s.id AND sa.status != 'cancelled') as assigned_count
+      FROM shift_bids b
+      JOIN shifts s ON b.shift_id = s.id
+      JOIN employees e ON b.employee_id = e.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN customers c ON s.customer_id = c.id
+      WHERE b.status = 'pending' AND s.date >= date('now', 'localtime') AND s.status != 'cancelled'
+      ORDER BY s.date, s.start_time, b.created_at
+    `);
+    if (bidsResult.rows.length === 0) return { shifts: [], weights };
+
+    const ratings = await query('SELECT employee_id, AVG(rating) as avg_rating FROM guard_ratings WHERE rating IS NOT NULL GROUP BY employee_id');
+    const ratingMap = {};
+    for (const row of ratings.rows) ratingMap[row.employee_id] = parseFloat(row.avg_rating) || 0;
+
+    const limits = await workHoursCompliance.getLimits();
+    const weekHoursCache = {};
+    const weekHours = async (employeeId, date) => {
+      const { start, end } = weekBounds(date);
+      const key = `${start}:${employeeId}`;
+      if (weekHoursCache[key] === undefined) {
+        const rows = await query(`
+          SELECT s.date, s.start_time, s.end_time
+          FROM shift_assignments sa
+          JOIN shifts s ON sa.shift_id = s.id
+          WHERE sa.employee_id = $1 AND sa.status != 'cancelled' AND s.date BETWEEN $2 AND $3
+        `, [employeeId, start, end]);
+        weekHoursCache[key] = rows.rows.reduce((sum, r) => {
+          const range = assignmentValidator.shiftRange(r.date, r.start_time, r.end_time);
+          return sum + (range.end - range.start) / (1000 * 60 * 60);
+        }, 0);
+      }
+      return weekHoursCache[key];
+    };
+
+    const shifts = new Map();
+    for (const bid of bidsResult.rows) {
+      if (!shifts.has(bid.shift_id)) {
+        shifts.set(bid.shift_id, {
+          shift_id: bid.shift_id,
+          date: bid.date,
+          start_time: bid.start_time,
+          end_time: bid.end_time,
+          site_name: bid.site_name,
+          company_name: bid.company_name,
+          required_employees: bid.required_employees,
+          assigned_count: bid.assigned_count,
+          slots_available: Math.max(0, bid.required_employees - bid.assigned_count),
+          bids: [],
+        });
+      }
+
+      const factors = {};
+      const details = {};
+
+      const years = bid.hire_date
+        ? (new Date(bid.date) - new Date(bid.hire_date)) / (365.25 * 24 * 60 * 60 * 1000)
+        : 0;
+      factors.seniority = clamp01(years / SENIORITY_FULL_YEARS);
+      details.seniority_years = round1(Math.max(0, years));
+
+      const scheduled = await weekHours(bid.employee_id, bid.date);
+      const target = limits.labor_weekly_regular_hours;
+      factors.hours_deficit = clamp01((target - scheduled) / target);
+      details.week_hours = round1(scheduled);
+
+      const rating = ratingMap[bid.employee_id];
+      factors.rating = rating ? clamp01(rating / 5) : NEUTRAL_FACTOR;
+      details.avg_rating = rating ? round1(rating) : null;
+
+      let distanceKm = null;
+      if (bid.site_latitude && bid.site_longitude && bid.home_latitude && bid.home_longitude) {
+        distanceKm = round1(haversineDistance(bid.home_latitude, bid.home_longitude, bid.site_latitude, bid.site_longitude));
+        factors.proximity = 1 - clamp01(distanceKm / PROXIMITY_MAX_KM);
+      } else {
+        factors.proximity = NEUTRAL_FACTOR;
+      }
+      details.distance_km = distanceKm;
+
+      const score = weightSum > 0
+        ? Object.keys(weights).reduce((sum, rule) => sum + weights[rule] * factors[rule], 0) / weightSum * 100
+        : 0;
+
+      const issues = await assignmentValidator.validate({ ...bid, id: bid.shift_id }, bid.employee_id);
+
+      shifts.get(bid.shift_id).bids.push({
+        id: bid.id,
+        employee_id: bid.employee_id,
+        employee_name: bid.employee_name,
+        note: bid.note,
+        created_at: bid.created_at,
+        score: Math.round(score),
+        factors: Object.fromEntries(Object.entries(factors).map(([rule, f]) => [rule, Math.round(f * 100) / 100])),
+        ...details,
+        issues,
+      });
+    }
+
+    // Highest score first; earlier bid breaks ties
+    const result = [...shifts.values()];
+    for (const shift of result) {
+      shift.bids.sort((a, b) => b.score - a.score || a.created_at.localeCompare(b.created_at));
+      shift.bids.forEach((bid, i) => { bid.rank = i + 1; });
+    }
+    return { shifts: result, weights };
+  }
+
+  // ── 4. Manager decisions ───────────────────────────────────────────────
+
+  /**
+   * Approve winning bids: assign the bidders, then close the bidding on
+   * shifts that are now full and notify the remaining bidders
+   * @param {string[]} bidIds
+   * @param {string} userId - Approving manager
+   * @param {object} [options]
+   * @param {string} [options.note] - Override reason for overridable violations
+   * @returns {{ approved: Array, failed: Array, rejected: number }}
+   */
+  async approve(bidIds, userId, { note } = {}) {
+    const approved = [];
+    const failed = [];
+    const touchedShifts = new Set();
+
+    const bids = await this._loadPending(bidIds);
+    for (const bidId of bidIds) {
+      const bid = bids.find(b => b.bid_id === bidId);
+      if (!bid) {
+        failed.push({ bid_id: bidId, error: 'הבקשה כבר טופלה' });
+        continue;
+      }
+
+      const issues = await assignmentValidator.validate(bid, bid.employee_id);
+      const blocking = issues.find(i => i.severity === 'error' && (!i.overridable || !note));
+      if (blocking) {
+        failed.push({ bid_id: bidId, employee_name: bid.employee_name, error: blocking.message });
+        continue;
+      }
+
+      // Claim the bid and fill the slot together, so concurrent approvals cannot overfill the shift
+      const assignmentId = generateUUID();
+      const error = await transaction(async (tx) => {
+        const count = await tx(
+          `SELECT COUNT(*) as cnt FROM shift_assignments WHERE shift_id = $1 AND status != 'cancelled'`,
+          [bid.shift_id]
+        );
+        if (count.rows[0].cnt >= bid.required_employees) return 'המשמרת כבר מאוישת';
+
+        const claimed = await tx(`
+          UPDATE shift_bids SET status = 'approved', assignment_id = $2, resolved_at = datetime('now'), resolved_by = $3
+          WHERE id = $1 AND status = 'pending'
+        `, [bidId, assignmentId, userId]);
+        if (!claimed.rowCount) return 'הבקשה כבר טופלה';
+
+        await tx(
+          `INSERT INTO shift_assignments (id, shift_id, employee_id, status) VALUES ($1, $2, $3, 'assigned')`,
+          [assignmentId, bid.shift_id, bid.employee_id]
+        );
+        return null;
+      });
+      if (error) {
+        failed.push({ bid_id: bidId, employee_name: bid.employee_name, error });
+        continue;
+      }
+
+      await this._notify(bid, 'בקשתך למשמרת אושרה', 'שובצת למשמרת');
+      approved.push({ bid_id: bidId, shift_id: bid.shift_id, employee_name: bid.employee_name, assignment_id: assignmentId });
+      touchedShifts.add(bid.shift_id);
+    }
+
+    let rejected = 0;
+    for (const shiftId of touchedShifts) {
+      rejected += await this._closeIfFull(shiftId, userId);
+    }
+    return { approved, failed, rejected };
+  }
+
+  /**
+   * Reject bids explicitly and notify the bidders
+   * @returns {number} Bids rejected
+   */
+  async reject(bidIds, userId) {
+    const bids = await this._loadPending(bidIds);
+    let rejected = 0;
+    for (const bid of bids) {
+      const result = await query(`
+        UPDATE shift_bids SET status = 'rejected', resolved_at = datetime('now'), resolved_by = $2
+        WHERE id = $1 AND status = 'pending'
+      `, [bid.bid_id, userId]);
+      if (!result.rowCount) continue;
+      rejected++;
+
+      // Only say the shift went to someone else when another bid actually won it
+      const awarded = await query(
+        `SELECT id FROM shift_bids WHERE shift_id = $1 AND status = 'approved' LIMIT 1`,
+        [bid.shift_id]
+      );
+      await this._notify(bid, 'בקשתך למשמרת לא אושרה',
+        awarded.rows.length > 0 ? 'המשמרת שובצה לעובד אחר' : 'הבקשה נדחתה על ידי המנהל');
+    }
+    return rejected;
+  }
+
+  /**
+   * Pending bids with the shift fields the validator needs (`id` is the shift id)
+   */
+  async _loadPending(bidIds) {
+    if (!Array.isArray(bidIds) || bidIds.length === 0) return [];
+    const placeholders = bidIds.map((_, i) => `$${i + 1}`).join(', ');
+    const result = await query(`
+      SELECT b.id as bid_id, b.shift_id, b.employee_id, e.user_id, e.first_name || ' ' || e.last_name as employee_name,
+             s.id, s.date, s.start_time, s.end_time, s.required_employees, s.requires_weapon, s.site_id,
+             si.name as site_name, si.required_certifications
+      FROM shift_bids b
+      JOIN employees e ON b.employee_id = e.id
+      JOIN shifts s ON b.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE b.id IN (${placeholders}) AND b.status = 'pending'
+    `, bidIds);
+    return result.rows;
+  }
+
+  async _closeIfFull(shiftId, userId) {
+    const count = await query(`
+      SELECT s.required_employees,
+             (SELECT COUNT(*) FROM shift_assignments sa WHERE sa.shift_id = s.id AND sa.status != 'cancelled') as assigned_count
+      FROM shifts s WHERE s.id = $1
+    `, [shiftId]);
+    const shift = count.rows[0];
+    if (!shift || shift.assigned_count < shift.required_employees) return 0;
+
+    const losers = await query(`
+      SELECT b.id, b.shift_id, e.user_id, s.date, s.start_time, s.end_time, si.name as site_name
+      FROM shift_bids b
+      JOIN employees e ON b.employee_id = e.id
+      JOIN shifts s ON b.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE b.shift_id = $1 AND b.status = 'pending'
+    `, [shiftId]);
+    for (const bid of losers.rows) {
+      await query(
+        `UPDATE shift_bids SET status = 'rejected', resolved_at = datetime('now'), resolved_by = $2 WHERE id = $1`,
+        [bid.id, userId]
+      );
+      await this._notify(bid, 'בקשתך למשמרת לא אושרה', 'המשמרת שובצה לעובד אחר');
+    }
+    return losers.rows.length;
+  }
+
+  async _notify(bid, title, outcome) {
+    if (!bid.user_id) return;
+    await query(`
+      INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+      VALUES ($1, $2, 'shift_bid', $3, $4, 'shift', $5)
+    `, [generateUUID(), bid.user_id, title,
+        `${outcome}: ${bid.date} ${bid.start_time}-${bid.end_time}${bid.site_name ? ` (${bid.site_name})` : ''}`,
+        bid.shift_id]);
+    await pushService.sendToUser(bid.user_id, 'assignment_changes', {
+      title,
+      body: `${outcome}: ${bid.date} ${bid.start_time}-${bid.end_time}`,
+      url: '/open-shifts',
+      tag: `shift-bid-${bid.shift_id}`,
+    });
+  }
+}
+
+module.exports = new ShiftBidService();
@@ -0,0 +1,154 @@
+/**
+ * Shift Handover Service
+ * Structured handover notes written by a guard at check-out (open issues,
+ * keys/equipment handed over, visitors still on site) and shown to the next
+ * guard who checks in at the same site. The notes of a site form a chain
+ * that managers can review and export for the customer.
+ */
+const { query, generateUUID } = require('../config/database');
+const workHoursCompliance = require('./workHoursCompliance');
+
+const HANDOVER_FIELDS = ['open_issues', 'keys_equipment', 'visitors_on_site', 'notes'];
+
+// A handover is offered to guards checking in up to this long after it was written
+const HANDOVER_LOOKBACK_HOURS = 24;
+
+class ShiftHandoverService {
+  constructor() {
+    this.HANDOVER_FIELDS = HANDOVER_FIELDS;
+  }
+
+  /**
+   * Trimmed handover fields, null when nothing was filled in
+   * @param {object} input
+   * @returns {object|null}
+   */
+  normalize(input) {
+    if (!input || typeof input !== 'object') return null;
+    const fields = {};
+    for (const key of HANDOVER_FIELDS) {
+      const value = typeof input[key] === 'string' ? input[key].trim() : '';
+      fields[key] = value || null;
+    }
+    return HANDOVER_FIELDS.some(key => fields[key]) ? fields : null;
+  }
+
+  /**
+   * Save the handover written at check-out of an assignment
+   * @param {string} assignmentId
+   * @param {object} input - { open_issues, keys_equipment, visitors_on_site, notes }
+   * @returns {object|null} Saved handover, null when empty
+   */
+  async record(assignmentId, input) {
+    const fields = this.normalize(input);
+    if (!fields) return null;
+
+    const assignment = await query(`
+      SELECT sa.employee_id, sa.shift_id, s.site_id
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      WHERE sa.id = $1
+    `, [assignmentId]);
+    if (assignment.rows.length === 0) return null;
+    const { employee_id, shift_id, site_id } = assignment.rows[0];
+
+    const id = generateUUID();
+    await query(`
+      INSERT INTO shift_handovers (id, assignment_id, shift_id, site_id, employee_id,
+                                   open_issues, keys_equipment, visitors_on_site, notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (assignment_id) DO UPDATE SET
+        open_issues = excluded.open_issues, keys_equipment = excluded.keys_equipment,
+        visitors_on_site = excluded.visitors_on_site, notes = excluded.notes
+    `, [id, assignmentId, shift_id, site_id, employee_id,
+        fields.open_issues, fields.keys_equipment, fields.visitors_on_site, fields.notes]);
+
+    const saved = await query('SELECT * FROM shift_handovers WHERE assignment_id = $1', [assignmentId]);
+    return saved.rows[0];
+  }
+
+  /**
+   * Latest handover left at the site for a guard who is checked in there
+   * @param {object} assignment - { assignment_id, site_id, check_in_time }
+   * @returns {object|null}
+   */
+  async getForIncoming(assignment) {
+    const checkIn = workHoursCompliance.parsePunch(assignment?.check_in_time);
+    if (!assignment?.site_id || !checkIn) return null;
+    // Same UTC "YYYY-MM-DD HH:MM:SS" form as created_at, so both databases compare it as text
+    const since = new Date(checkIn.getTime() - HANDOVER_LOOKBACK_HOURS * 60 * 60 * 1000)
+      .toISOString().replace('T', ' ').slice(0, 19);
+    const result = await query(`
+      SELECT h.*, e.first_name || ' ' || e.last_name as from_name,
+             ae.first_name || ' ' || ae.last_name as acknowledged_by_name,
+             s.date as shift_date, s.start_time as shift_start_time, s.end_time as shift_end_time
+      FROM shift_handovers h
+      JOIN shifts s ON h.shift_id = s.id
+      LEFT JOIN employees e ON h.employee_id = e.id
+      LEFT JOIN employees ae ON h.acknowledged_by = ae.id
+      WHERE h.site_id = $1 AND h.assignment_id != $2
+      AND h.created_at >= $3
+      ORDER BY h.created_at DESC
+      LIMIT 1
+    `, [assignment.site_id, assignment.assignment_id, since]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Incoming guard confirms reading a handover (first reader is kept)
+   * @param {string} handoverId
+   * @param {string} employeeId
+   * @returns {{ acknowledged: true }|{ error: string, status: number }}
+   */
+  async acknowledge(handoverId, employeeId) {
+    const handover = await query('SELECT id, site_id FROM shift_handovers WHERE id = $1', [handoverId]);
+    if (handover.rows.length === 0) return { error: 'העברת המשמרת לא נמצאה', status: 404 };
+
+    // Only a guard checked in at the site who is being shown this handover may confirm it
+    const assignments = await query(`
+      SELECT sa.id as assignment_id, s.site_id, sa.check_in_time
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      WHERE sa.employee_id = $1 AND s.site_id = $2 AND sa.status = 'checked_in'
+    `, [employeeId, handover.rows[0].site_id]);
+    let incoming = false;
+    for (const assignment of assignments.rows) {
+      if ((await this.getForIncoming(assignment))?.id === handoverId) {
+        incoming = true;
+        break;
+      }
+    }
+    if (!incoming) return { error: 'רק המאבטח הנכנס באתר יכול לאשר את העברת המשמרת', status: 403 };
+
+    await query(`
+      UPDATE shift_handovers SET acknowledged_by = $2, acknowledged_at = datetime('now')
+      WHERE id = $1 AND acknowledged_by IS NULL
+    `, [handoverId, employeeId]);
+    return { acknowledged: true };
+  }
+
+  /**
+   * Handover chain of a site, oldest first
+   * @param {string} siteId
+   * @param {string} startDate - YYYY-MM-DD (shift date)
+   * @param {string} endDate - YYYY-MM-DD (shift date)
+   */
+  async getSiteChain(siteId, startDate, endDate) {
+    const result = await query(`
+      SELECT h.*, e.first_name || ' ' || e.last_name as from_name,
+             ae.first_name || ' ' || ae.last_name as acknowledged_by_name,
+             s.date as shift_date, s.start_time as shift_start_time, s.end_time as shift_end_time,
+             sa.check_out_time
+      FROM shift_handovers h
+      JOIN shifts s ON h.shift_id = s.id
+      LEFT JOIN shift_assignments sa ON h.assignment_id = sa.id
+      LEFT JOIN employees e ON h.employee_id = e.id
+      LEFT JOIN employees ae ON h.acknowledged_by = ae.id
+      WHERE h.site_id = $1 AND s.date >= $2 AND s.date <= $3
+      ORDER BY h.created_at ASC
+    `, [siteId, startDate, endDate]);
+    return result.rows;
+  }
+}
+
+module.exports = new ShiftHandoverService();
@@ -6,6 +6,11 @@
 const db = require('../config/database');
 const crypto = require('crypto');
 
+// Local calendar date; toISOString() would shift local midnight to the previous day
+function toDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
 class ShiftIntelligence {
 
   /**
@@ -71,9 +76,20 @@ class ShiftIntelligence {
    * Find employees approaching fatigue thresholds in current week (Sun-Sat).
    * Checks: total shifts, consecutive shifts with <8h gap, total weekly hours.
    * Flags if: shifts > 5, rest gap < 8h, or weekly hours > 50.
+   * @param {object} [options]
+   * @param {string} [options.weekStart] - Sunday (YYYY-MM-DD) of another week to analyze
+   * @param {boolean} [options.persist=true] - Save high-risk results to shift_analytics
    */
-  async analyzeFatigueRisk() {
+  async analyzeFatigueRisk({ weekStart = null, persist = true } = {}) {
     try {
+      let weekRange = `date('now', 'weekday 0', '-6 days') AND date('now', 'weekday 6')`;
+      const rangeParams = [];
+      if (weekStart) {
+        const end = new Date(weekStart + 'T00:00:00');
+        end.setDate(end.getDate() + 6);
+        rangeParams.push(weekStart, toDateStr(end));
+      }
+
       // Get all employees with shifts this week
       const employees = await db.query(`
         SELECT
@@ -89,12 +105,12 @@ class ShiftIntelligence {
         FROM employees e
         JOIN shift_assignments sa ON sa.employee_id = e.id
         JOIN shifts s ON sa.shift_id = s.id
-        WHERE s.date BETWEEN date('now', 'weekday 0', '-6 days') AND date('now', 'weekday 6')
+        WHERE s.date BETWEEN ${weekStart ? '$1 AND $2' : weekRange}
         AND sa.status NOT IN ('cancelled', 'no_show')
         AND e.status = 'active'
         GROUP BY e.id
         ORDER BY weekly_shifts DESC
-      `);
+      `, rangeParams);
 
       const fatigueResults = [];
 
@@ -105,10 +121,10 @@ class ShiftIntelligence {
           FROM shift_assignments sa
           JOIN shifts s ON sa.shift_id = s.id
           WHERE sa.employee_id = $1
-          AND s.date BETWEEN date('now', 'weekday 0', '-6 days') AND date('now', 'weekday 6')
+          AND s.date BETWEEN ${weekStart ? '$2 AND $3' : weekRange}
           AND sa.status NOT IN ('cancelled', 'no_show')
           ORDER BY s.date, s.start_time
-        `, [emp.employee_id]);
+        `, [emp.employee_id, ...rangeParams]);
 
         let minRestGap = 999;
         for (let i = 1; i < shifts.rows.length; i++) {
@@ -160,7 +176,7 @@ class ShiftIntelligence {
 
       // Save fatigue results
       const today = new Date().toISOString().split('T')[0];
-      for (const f of fatigueResults.filter(f => f.risk_level === 'high')) {
+      for (const f of fatigueResults.filter(f => persist && f.risk_level === 'high')) {
         await db.query(`
           INSERT INTO shift_analytics (id, analysis_date, analysis_type, employee_id, details, severity)
           VALUES ($1, $2, 'fatigue', $3, $4, $5)
@@ -0,0 +1,342 @@
+/**
+ * SOS Service
+ * Panic button of the guard app. Triggering opens a critical incident tied to
+ * the guard's assignment and site, alerts every manager in the app and the
+ * on-call list by WhatsApp, and keeps the guard's location updated on the
+ * alert while it is open. A manager acknowledges the alert so the guard sees
+ * that help is coming, and resolves it once the situation is over.
+ */
+const { query, generateUUID } = require('../config/database');
+const whatsappHelper = require('../utils/whatsappHelper');
+const pushService = require('./pushService');
+
+const SETTINGS_KEY = 'sos_settings';
+const MAX_ON_CALL = 10;
+// A resolved alert stays on the guard's panel this long
+const RESOLVED_VISIBLE_MINUTES = 10;
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function localDate(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function localTime(d) {
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+function mapLink(latitude, longitude) {
+  return latitude != null && longitude != null ? `https://maps.google.com/?q=${latitude},${longitude}` : null;
+}
+
+function validCoordinates(location) {
+  const latitude = parseFloat(location?.latitude);
+  const longitude = parseFloat(location?.longitude);
+  if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  const accuracy = parseFloat(location.accuracy);
+  return { latitude, longitude, accuracy: isNaN(accuracy) ? null : accuracy };
+}
+
+async function notify(userId, title, message, alertId) {
+  await query(`
+    INSERT INTO notifications (id, user_id, type, title, message, related_entity_type, related_entity_id)
+    VALUES ($1, $2, 'sos', $3, $4, 'sos_alert', $5)
+  `, [generateUUID(), userId, title, message, alertId]);
+  await pushService.sendToUser(userId, 'critical_alerts', { title, body: message, url: '/', tag: `sos-${alertId}` });
+}
+
+async function addIncidentUpdate(incidentId, userId, text) {
+  if (!incidentId) return;
+  await query(`
+    INSERT INTO incident_updates (id, incident_id, user_id, update_text)
+    VALUES ($1, $2, $3, $4)
+  `, [generateUUID(), incidentId, userId, text]);
+  await query(`UPDATE incidents SET updated_at = datetime('now') WHERE id = $1`, [incidentId]);
+}
+
+const ALERT_SELECT = `
+  SELECT a.*,
+         e.first_name || ' ' || e.last_name as employee_name, e.phone as employee_phone,
+         si.name as site_name, si.address as site_address, c.company_name,
+         ack.first_name || ' ' || ack.last_name as acknowledged_by_name
+  FROM sos_alerts a
+  JOIN employees e ON a.employee_id = e.id
+  LEFT JOIN sites si ON a.site_id = si.id
+  LEFT JOIN customers c ON si.customer_id = c.id
+  LEFT JOIN users ack ON a.acknowledged_by = ack.id
+`;
+
+// ── SOS Service Class ────────────────────────────────────────────────────────
+
+class SosService {
+  // ── 1. Settings ────────────────────────────────────────────────────────
+
+  /**
+   * On-call phones that get the WhatsApp alert. When empty, the phones of
+   * the managers (or admins when there are none) are used.
+   * @returns {{ on_call_phones: string[] }}
+   */
+  async getSettings() {
+    try {
+      const result = await query('SELECT value FROM system_config WHERE key = $1', [SETTINGS_KEY]);
+      const parsed = JSON.parse(result.rows[0]?.value || '{}');
+      if (Array.isArray(parsed.on_call_phones)) {
+        return { on_call_phones: parsed.on_call_phones.filter(p => typeof p === 'string' && p) };
+      }
+    } catch (e) { /* fall back to defaults */ }
+    return { on_call_phones: [] };
+  }
+
+  /**
+   * @param {object} input - { on_call_phones: string[] }
+   * @returns {object} Saved settings, or { error, status }
+   */
+  async setSettings(input) {
+    const phones = Array.isArray(input?.on_call_phones) ? input.on_call_phones : [];
+    const cleaned = [...new Set(phones.map(p => String(p).replace(/[^\d+]/g, '')).filter(Boolean))];
+    if (cleaned.length > MAX_ON_CALL) {
+      return { error: `ניתן להגדיר עד ${MAX_ON_CALL} מספרי כוננות`, status: 400 };
+    }
+    if (cleaned.some(p => p.replace('+', '').length < 9)) {
+      return { error: 'מספר טלפון לא תקין ברשימת הכוננות', status: 400 };
+    }
+
+    const settings = { on_call_phones: cleaned };
+    await query(`
+      INSERT INTO system_config (id, key, value) VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `, [generateUUID(), SETTINGS_KEY, JSON.stringify(settings)]);
+    return settings;
+  }
+
+  async onCallPhones() {
+    const { on_call_phones } = await this.getSettings();
+    if (on_call_phones.length > 0) return on_call_phones;
+
+    let managers = await query(`SELECT phone FROM users WHERE role = 'manager' AND is_active = 1 AND phone IS NOT NULL`);
+    if (managers.rows.length === 0) {
+      managers = await query(`SELECT phone FROM users WHERE role = 'admin' AND is_active = 1 AND phone IS NOT NULL`);
+    }
+    return managers.rows.map(m => m.phone);
+  }
+
+  // ── 2. Guard side ──────────────────────────────────────────────────────
+
+  async get(alertId) {
+    const result = await query(`${ALERT_SELECT} WHERE a.id = $1`, [alertId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Press of the panic button. A guard with an open alert gets that alert
+   * back (with the new location) rather than a second one.
+   * @param {object} user - The guard
+   * @param {object} input - { assignment_id?, latitude?, longitude?, accuracy? }
+   * @returns {object} { alert } or { error, status }
+   */
+  async trigger(user, input) {
+    const empResult = await query(
+      'SELECT id, first_name, last_name, phone FROM employees WHERE user_id = $1',
+      [user.id]
+    );
+    const employee = empResult.rows[0];
+    if (!employee) return { error: 'המשתמש אינו מקושר לעובד', status: 403 };
+
+    const location = validCoordinates(input);
+    const open = await query(
+      `SELECT id FROM sos_alerts WHERE employee_id = $1 AND status IN ('active', 'acknowledged') ORDER BY created_at DESC LIMIT 1`,
+      [employee.id]
+    );
+    if (open.rows[0]) {
+      if (location) await this.updateLocation(open.rows[0].id, user, location);
+      return { alert: await this.get(open.rows[0].id) };
+    }
+
+    let assignment = null;
+    if (input.assignment_id) {
+      const result = await query(`
+        SELECT sa.id, s.id as shift_id, s.site_id, s.customer_id,
+               si.name as site_name, si.address as site_address, c.company_name
+        FROM shift_assignments sa
+        JOIN shifts s ON sa.shift_id = s.id
+        LEFT JOIN sites si ON s.site_id = si.id
+        LEFT JOIN customers c ON s.customer_id = c.id
+        WHERE sa.id = $1 AND sa.employee_id = $2
+      `, [input.assignment_id, employee.id]);
+      assignment = result.rows[0] || null;
+    }
+
+    const name = `${employee.first_name} ${employee.last_name}`;
+    const place = assignment ? (assignment.site_name || assignment.company_name || 'אתר') : 'מיקום לא ידוע';
+    const link = location ? mapLink(location.latitude, location.longitude) : null;
+    const now = new Date();
+
+    const incidentId = generateUUID();
+    await query(`
+      INSERT INTO incidents (id, site_id, customer_id, shift_id, reported_by, incident_type, severity, title,
+        description, location_details, incident_date, incident_time)
+      VALUES ($1, $2, $3, $4, $5, 'sos', 'critical', $6, $7, $8, $9, $10)
+    `, [incidentId, assignment?.site_id || null, assignment?.customer_id || null, assignment?.shift_id || null,
+        employee.id, `קריאת מצוקה: ${name}`, `${name} הפעיל/ה את לחצן המצוקה ב${place}`,
+        location ? `${location.latitude}, ${location.longitude}` : null, localDate(now), localTime(now)]);
+
+    const alertId = generateUUID();
+    await query(`
+      INSERT INTO sos_alerts (id, employee_id, user_id, assignment_id, site_id, incident_id,
+        latitude, longitude, accuracy, location_updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, ${location ? "datetime('now')" : 'NULL'})
+    `, [alertId, employee.id, user.id, assignment?.id || null, assignment?.site_id || null, incidentId,
+        location?.latitude ?? null, location?.longitude ?? null, location?.accuracy ?? null]);
+    if (location && assignment) await this.recordTrack(assignment, employee.id, location);
+
+    // The alert is on record; reaching the responders must not hold up the guard's screen
+    this.alertResponders({ alertId, employee, name, place, assignment, link })
+      .catch(err => console.error('[SOS] Alerting responders failed:', err.message));
+
+    return { alert: await this.get(alertId) };
+  }
+
+  /**
+   * Notify the managers (in-app and push) and message the on-call phones
+   * about a new alert
+   */
+  async alertResponders({ alertId, employee, name, place, assignment, link }) {
+    const managers = await query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
+    for (const manager of managers.rows) {
+      await notify(manager.id, `🔴 קריאת מצוקה: ${name}`,
+        `${name} הפעיל/ה את לחצן המצוקה ב${place}${employee.phone ? ` · ${employee.phone}` : ''}`, alertId);
+    }
+
+    for (const phone of await this.onCallPhones()) {
+      await whatsappHelper.safeSend(phone, `🚨 קריאת מצוקה! 🚨
+${name} הפעיל/ה את לחצן המצוקה.
+📍 ${place}${assignment?.site_address ? ` - ${assignment.site_address}` : ''}${link ? `\n🗺️ ${link}` : ''}${employee.phone ? `\n📞 ${employee.phone}` : ''}
+
+יש לאשר את הקריאה במערכת כדי שהמאבטח יידע שעזרה בדרך.
+צוות יהלום CRM`);
+    }
+  }
+
+  async recordTrack(assignment, employeeId, location) {
+    await query(`
+      INSERT INTO guard_locations (id, shift_assignment_id, employee_id, site_id, latitude, longitude, accuracy, recorded_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, datetime('now'))
+    `, [generateUUID(), assignment.id, employeeId, assignment.site_id, location.latitude, location.longitude, location.accuracy]);
+  }
+
+  /**
+   * High-frequency location updates from the guard while the alert is open
+   * @returns {object} { ok } or { error, status }
+   */
+  async updateLocation(alertId, user, input) {
+    const location = validCoordinates(input);
+    if (!location) return { error: 'מיקום לא תקין', status: 400 };
+
+    const result = await query(
+      `SELECT id, employee_id, assignment_id, site_id FROM sos_alerts
+       WHERE id = $1 AND user_id = $2 AND status IN ('active', 'acknowledged')`,
+      [alertId, user.id]
+    );
+    const alert = result.rows[0];
+    if (!alert) return { error: 'קריאת המצוקה אינה פעילה', status: 404 };
+
+    await query(`
+      UPDATE sos_alerts SET latitude = $2, longitude = $3, accuracy = $4, location_updated_at = datetime('now')
+      WHERE id = $1
+    `, [alertId, location.latitude, location.longitude, location.accuracy]);
+    if (alert.assignment_id) {
+      await this.recordTrack({ id: alert.assignment_id, site_id: alert.site_id }, alert.employee_id, location);
+    }
+    return { ok: true };
+  }
+
+  /**
+   * The guard's open alert, or one resolved in the last few minutes so the
+   * panel can show how it ended
+   */
+  async getMine(userId) {
+    // Same UTC "YYYY-MM-DD HH:MM:SS" form as resolved_at, so both databases compare it as text
+    const since = new Date(Date.now() - RESOLVED_VISIBLE_MINUTES * 60000).toISOString().replace('T', ' ').slice(0, 19);
+    const result = await query(`
+      ${ALERT_SELECT}
+      WHERE a.user_id = $1
+      AND (a.status IN ('active', 'acknowledged') OR a.resolved_at > $2)
+      ORDER BY a.created_at DESC LIMIT 1
+    `, [userId, since]);
+    return result.rows[0] || null;
+  }
+
+  // ── 3. Manager side ────────────────────────────────────────────────────
+
+  /**
+   * Alerts not yet resolved, newest first
+   */
+  async listOpen() {
+    const result = await query(`
+      ${ALERT_SELECT}
+      WHERE a.status IN ('active', 'acknowledged')
+      ORDER BY a.created_at DESC
+    `);
+    return result.rows;
+  }
+
+  /**
+   * Tell the guard that help is on the way
+   * @param {string} alertId
+   * @param {object} user - Acknowledging manager
+   * @param {string} [message] - e.g. "ניידת בדרך, 5 דקות"
+   * @returns {object} { alert } or { error, status }
+   */
+  async acknowledge(alertId, user, message) {
+    if (message != null && typeof message !== 'string') return { error: 'הודעה לא תקינה', status: 400 };
+    const text = (message || '').trim().slice(0, 300) || null;
+    const updated = await query(`
+      UPDATE sos_alerts SET status = 'acknowledged', acknowledged_by = $2, acknowledged_at = datetime('now'),
+        acknowledge_message = $3
+      WHERE id = $1 AND status = 'active'
+    `, [alertId, user.id, text]);
+    if (!updated.rowCount) return { error: 'הקריאה כבר אושרה או נסגרה', status: 409 };
+
+    const alert = await this.get(alertId);
+    await notify(alert.user_id, 'עזרה בדרך', `${alert.acknowledged_by_name} קיבל/ה את קריאת המצוקה${text ? `: ${text}` : ''}`, alertId);
+    await whatsappHelper.safeSend(alert.employee_phone, `✅ קריאת המצוקה התקבלה - עזרה בדרך.
+${alert.acknowledged_by_name}${text ? `: ${text}` : ''}
+
+צוות יהלום CRM`);
+    await addIncidentUpdate(alert.incident_id, user.id, `קריאת המצוקה אושרה${text ? `: ${text}` : ''}`);
+    return { alert };
+  }
+
+  /**
+   * Close the alert: by a manager once handled, or by the guard as a false alarm
+   * @returns {object} { alert } or { error, status }
+   */
+  async resolve(alertId, user, resolution) {
+    if (resolution != null && typeof resolution !== 'string') return { error: 'סיכום לא תקין', status: 400 };
+    const alert = await this.get(alertId);
+    if (!alert) return { error: 'קריאת מצוקה לא נמצאה', status: 404 };
+    const isOwner = alert.user_id === user.id;
+    if (!isOwner && !['admin', 'manager'].includes(user.role)) {
+      return { error: 'אין הרשאה לסגור את הקריאה', status: 403 };
+    }
+
+    const text = (resolution || '').trim().slice(0, 500) || (isOwner ? 'בוטל ע"י המאבטח' : null);
+    const updated = await query(`
+      UPDATE sos_alerts SET status = 'resolved', resolved_by = $2, resolved_at = datetime('now'), resolution = $3
+      WHERE id = $1 AND status IN ('active', 'acknowledged')
+    `, [alertId, user.id, text]);
+    if (!updated.rowCount) return { error: 'הקריאה כבר נסגרה', status: 409 };
+
+    await addIncidentUpdate(alert.incident_id, user.id, `קריאת המצוקה נסגרה${text ? `: ${text}` : ''}`);
+    if (isOwner && !alert.acknowledged_at) {
+      // False alarm before anyone answered: let the managers stand down
+      const managers = await query(`SELECT id FROM users WHERE role IN ('admin', 'manager') AND is_active = 1`);
+      for (const manager of managers.rows) {
+        await notify(manager.id, `קריאת המצוקה של ${alert.employee_name} בוטלה`, text, alertId);
+      }
+    }
+    return { alert: await this.get(alertId) };
+  }
+}
+
+module.exports = new SosService();
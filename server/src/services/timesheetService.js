@@ -0,0 +1,350 @@
+/**
+ * Timesheet Service
+ * Monthly timesheets built from check-in/out punches: missing-punch
+ * detection, month locking and payroll hour buckets. Every worked hour is
+ * split into regular / 125% / 150% by the daily overtime rules; night and
+ * Shabbat/holiday hours are reported on top of that split.
+ */
+const { query, generateUUID } = require('../config/database');
+const workHoursCompliance = require('./workHoursCompliance');
+const holidayService = require('./holidayService');
+
+// The first hours beyond the regular day are paid at 125%, the rest at 150%
+const OVERTIME_125_HOURS = 2;
+
+// Shabbat / holiday window: from this time on the eve to this time on the day.
+// Overridable through system_config (same keys)
+const DEFAULT_REST_DAY = {
+  payroll_rest_day_start: '18:00',
+  payroll_rest_day_end: '20:00',
+};
+
+// Fields available to payroll export layouts
+const PAYROLL_FIELDS = {
+  id_number: 'ת.ז.',
+  first_name: 'שם פרטי',
+  last_name: 'שם משפחה',
+  full_name: 'שם מלא',
+  month: 'חודש',
+  days_worked: 'ימי עבודה',
+  total_hours: 'סה"כ שעות',
+  regular_hours: 'שעות רגילות',
+  overtime_125_hours: 'שעות 125%',
+  overtime_150_hours: 'שעות 150%',
+  night_hours: 'שעות לילה',
+  shabbat_hours: 'שעות שבת/חג',
+  hourly_rate: 'תעריף שעתי',
+  missing_punches: 'החתמות חסרות',
+};
+
+const DEFAULT_LAYOUT = {
+  delimiter: ',',
+  columns: [
+    'id_number', 'full_name', 'days_worked', 'total_hours', 'regular_hours',
+    'overtime_125_hours', 'overtime_150_hours', 'night_hours', 'shabbat_hours',
+  ].map(key => ({ key, header: PAYROLL_FIELDS[key] })),
+};
+
+const LAYOUT_CONFIG_KEY = 'payroll_export_layout';
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function toDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function addDays(dateStr, days) {
+  const d = new Date(dateStr + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return toDateStr(d);
+}
+
+function round2(n) {
+  return Math.round(n * 100) / 100;
+}
+
+function overlapHours(start, end, windowStart, windowEnd) {
+  const overlap = Math.min(end, windowEnd) - Math.max(start, windowStart);
+  return overlap > 0 ? overlap / (1000 * 60 * 60) : 0;
+}
+
+function monthRange(month) {
+  const [year, mon] = month.split('-').map(Number);
+  const lastDay = new Date(year, mon, 0).getDate();
+  return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, '0')}` };
+}
+
+function emptyBuckets() {
+  return { total_hours: 0, regular_hours: 0, overtime_125_hours: 0, overtime_150_hours: 0, night_hours: 0, shabbat_hours: 0 };
+}
+
+function addBuckets(target, source) {
+  for (const key of Object.keys(target)) target[key] = round2(target[key] + source[key]);
+}
+
+// ── Timesheet Service Class ──────────────────────────────────────────────────
+
+class TimesheetService {
+  constructor() {
+    this.PAYROLL_FIELDS = PAYROLL_FIELDS;
+  }
+
+  isValidMonth(month) {
+    return /^\d{4}-(0[1-9]|1[0-2])$/.test(month || '');
+  }
+
+  /**
+   * Lock state of a payroll month
+   * @param {string} month - YYYY-MM
+   * @returns {{locked: boolean, locked_at?: string, locked_by_name?: string}}
+   */
+  async getLock(month) {
+    const result = await query(`
+      SELECT tl.locked_at, u.first_name || ' ' || u.last_name as locked_by_name
+      FROM timesheet_locks tl
+      LEFT JOIN users u ON tl.locked_by = u.id
+      WHERE tl.month = $1
+    `, [month]);
+    return result.rows[0] ? { locked: true, ...result.rows[0] } : { locked: false };
+  }
+
+  async lock(month, userId) {
+    await query(
+      'INSERT INTO timesheet_locks (id, month, locked_by) VALUES ($1, $2, $3) ON CONFLICT (month) DO NOTHING',
+      [generateUUID(), month, userId]
+    );
+  }
+
+  async unlock(month) {
+    await query('DELETE FROM timesheet_locks WHERE month = $1', [month]);
+  }
+
+  async _getRestDayWindow() {
+    const window = { ...DEFAULT_REST_DAY };
+    try {
+      const keys = Object.keys(DEFAULT_REST_DAY);
+      const result = await query('SELECT key, value FROM system_config WHERE key IN ($1, $2)', keys);
+      for (const row of result.rows) {
+        if (/^\d{2}:\d{2}$/.test(row.value || '')) window[row.key] = row.value;
+      }
+    } catch (e) { /* fall back to defaults */ }
+    return window;
+  }
+
+  /**
+   * Shabbat and holiday windows touching a date range
+   * @returns {Array<{start: Date, end: Date, kind: 'shabbat'|'holiday'}>}
+   */
+  async getRestDayWindows(startDate, endDate) {
+    const window = await this._getRestDayWindow();
+    const holidays = new Set(
+      (await holidayService.getExceptionsForRange(startDate, endDate))
+        .filter(h => h.type === 'holiday' && !h.is_workday)
+        .map(h => h.date)
+    );
+
+    const windows = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const isSaturday = new Date(date + 'T00:00:00').getDay() === 6;
+      if (!isSaturday && !holidays.has(date)) continue;
+      windows.push({
+        start: new Date(`${addDays(date, -1)}T${window.payroll_rest_day_start}`),
+        end: new Date(`${date}T${window.payroll_rest_day_end}`),
+        kind: holidays.has(date) ? 'holiday' : 'shabbat',
+      });
+    }
+    return windows;
+  }
+
+  /**
+   * Review data for a month: every assignment up to today with its punches,
+   * missing punches and payroll buckets, grouped by employee
+   * @param {string} month - YYYY-MM
+   * @param {object} [options] - { employeeId } to limit the month to one employee
+   * @returns {{month: string, lock: object, employees: Array}}
+   */
+  async getMonth(month, { employeeId } = {}) {
+    const { start, end } = monthRange(month);
+    const result = await query(`
+      SELECT sa.id as assignment_id, sa.employee_id, sa.status, sa.check_in_time, sa.check_out_time,
+             s.id as shift_id, s.date, s.start_time, s.end_time, si.name as site_name,
+             e.first_name, e.last_name, e.id_number, e.hourly_rate,
+             (SELECT COUNT(*) FROM timesheet_corrections tc WHERE tc.assignment_id = sa.id) as corrections
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      JOIN employees e ON sa.employee_id = e.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      WHERE s.date BETWEEN $1 AND $2
+      AND s.date <= date('now', 'localtime')
+      AND sa.status != 'cancelled'
+      AND s.status != 'cancelled'
+      ${employeeId ? 'AND sa.employee_id = $3' : ''}
+      ORDER BY e.first_name, e.last_name, s.date, s.start_time
+    `, employeeId ? [start, end, employeeId] : [start, end]);
+
+    const limits = await workHoursCompliance.getLimits();
+    const restWindows = await this.getRestDayWindows(addDays(start, -1), addDays(end, 2));
+    const now = new Date();
+
+    // ── 1. Punches and missing punches per assignment ───────────────────
+    const entries = result.rows.map(row => {
+      const checkIn = workHoursCompliance.parsePunch(row.check_in_time);
+      const checkOut = workHoursCompliance.parsePunch(row.check_out_time);
+      const scheduledEnd = new Date(`${row.date}T${row.end_time}`);
+      if (row.end_time <= row.start_time) scheduledEnd.setDate(scheduledEnd.getDate() + 1);
+
+      // Punches are only missing once the shift was due to end
+      const missing = [];
+      if (row.status !== 'no_show' && scheduledEnd < now) {
+        if (!checkIn) missing.push('check_in');
+        if (!checkOut) missing.push('check_out');
+      }
+
+      return {
+        assignment_id: row.assignment_id,
+        employee_id: row.employee_id,
+        shift_id: row.shift_id,
+        date: row.date,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        site_name: row.site_name,
+        status: row.status,
+        check_in_time: row.check_in_time,
+        check_out_time: row.check_out_time,
+        corrected: parseInt(row.corrections) > 0,
+        missing,
+        _row: row,
+        _start: checkIn,
+        _end: checkIn && checkOut && checkOut > checkIn ? checkOut : null,
+        buckets: emptyBuckets(),
+      };
+    });
+
+    // ── 2. Daily overtime split, in punch order within each work day ────
+    const days = {};
+    for (const entry of entries) {
+      if (!entry._end) continue;
+      const key = `${entry.employee_id}:${entry.date}`;
+      if (!days[key]) days[key] = [];
+      days[key].push(entry);
+    }
+
+    for (const dayEntries of Object.values(days)) {
+      dayEntries.sort((a, b) => a._start - b._start);
+      const night = dayEntries.some(e => workHoursCompliance.isNightShift(e._start, e._end));
+      let regularLeft = night ? limits.labor_night_regular_hours : limits.labor_daily_regular_hours;
+      let overtime125Left = OVERTIME_125_HOURS;
+
+      for (const entry of dayEntries) {
+        const hours = (entry._end - entry._start) / (1000 * 60 * 60);
+        const regular = Math.min(hours, regularLeft);
+        const overtime125 = Math.min(hours - regular, overtime125Left);
+        regularLeft -= regular;
+        overtime125Left -= overtime125;
+
+        entry.buckets = {
+          total_hours: round2(hours),
+          regular_hours: round2(regular),
+          overtime_125_hours: round2(overtime125),
+          overtime_150_hours: round2(hours - regular - overtime125),
+          night_hours: round2(workHoursCompliance.nightHours(entry._start, entry._end)),
+          shabbat_hours: round2(restWindows.reduce((s, w) => s + overlapHours(entry._start, entry._end, w.start, w.end), 0)),
+        };
+      }
+    }
+
+    // ── 3. Group by employee ────────────────────────────────────────────
+    const byEmployee = new Map();
+    for (const entry of entries) {
+      const row = entry._row;
+      if (!byEmployee.has(entry.employee_id)) {
+        byEmployee.set(entry.employee_id, {
+          employee_id: entry.employee_id,
+          first_name: row.first_name,
+          last_name: row.last_name,
+          full_name: `${row.first_name} ${row.last_name}`,
+          id_number: row.id_number,
+          hourly_rate: row.hourly_rate,
+          totals: emptyBuckets(),
+          days_worked: 0,
+          missing_punches: 0,
+          entries: [],
+        });
+      }
+      const employee = byEmployee.get(entry.employee_id);
+      addBuckets(employee.totals, entry.buckets);
+      employee.missing_punches += entry.missing.length;
+      delete entry._row;
+      delete entry._start;
+      delete entry._end;
+      employee.entries.push(entry);
+    }
+
+    for (const employee of byEmployee.values()) {
+      employee.days_worked = new Set(employee.entries.filter(e => e.buckets.total_hours > 0).map(e => e.date)).size;
+    }
+
+    return {
+      month,
+      lock: await this.getLock(month),
+      employees: [...byEmployee.values()],
+    };
+  }
+
+  /**
+   * Payroll rows for a month, one per employee, keyed by PAYROLL_FIELDS
+   * @param {string} month - YYYY-MM
+   */
+  async getPayrollRows(month) {
+    const { employees, lock } = await this.getMonth(month);
+    const rows = employees.map(e => ({
+      id_number: e.id_number,
+      first_name: e.first_name,
+      last_name: e.last_name,
+      full_name: e.full_name,
+      month,
+      days_worked: e.days_worked,
+      ...e.totals,
+      hourly_rate: e.hourly_rate,
+      missing_punches: e.missing_punches,
+    }));
+    return { month, locked: lock.locked, rows };
+  }
+
+  /**
+   * Export column layout for the payroll bureau
+   * @returns {{delimiter: string, columns: Array<{key: string, header: string}>}}
+   */
+  async getLayout() {
+    try {
+      const result = await query('SELECT value FROM system_config WHERE key = $1', [LAYOUT_CONFIG_KEY]);
+      const layout = JSON.parse(result.rows[0]?.value || 'null');
+      if (layout && Array.isArray(layout.columns) && layout.columns.length > 0) return layout;
+    } catch (e) { /* fall back to default */ }
+    return DEFAULT_LAYOUT;
+  }
+
+  /**
+   * Save an export layout, dropping unknown fields
+   * @param {object} layout - { delimiter, columns: [{ key, header }] }
+   * @returns {object|null} Saved layout, null when no valid column is left
+   */
+  async saveLayout(layout) {
+    const columns = (Array.isArray(layout?.columns) ? layout.columns : [])
+      .filter(c => c && PAYROLL_FIELDS[c.key])
+      .map(c => ({ key: c.key, header: String(c.header || PAYROLL_FIELDS[c.key]).trim() || PAYROLL_FIELDS[c.key] }));
+    if (columns.length === 0) return null;
+
+    const saved = {
+      delimiter: [',', ';', '\t', '|'].includes(layout.delimiter) ? layout.delimiter : ',',
+      columns,
+    };
+    await query(`
+      INSERT INTO system_config (id, key, value) VALUES ($1, $2, $3)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `, [generateUUID(), LAYOUT_CONFIG_KEY, JSON.stringify(saved)]);
+    return saved;
+  }
+}
+
+module.exports = new TimesheetService();
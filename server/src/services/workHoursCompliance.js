@@ -0,0 +1,412 @@
+/**
+ * Work Hours Compliance Service
+ * Checks schedules against the Hours of Work and Rest Law: daily maximum,
+ * overtime cap, 36 hours of weekly rest and night-shift rules (7 regular
+ * hours per night shift, no night work in three consecutive weeks).
+ * Worked shifts use actual check-in/out times, future shifts the schedule.
+ */
+const { query } = require('../config/database');
+
+// Defaults, overridable through system_config (same keys)
+const DEFAULT_LIMITS = {
+  labor_daily_max_hours: 12,
+  labor_daily_regular_hours: 8,
+  labor_night_regular_hours: 7,
+  labor_weekly_regular_hours: 42,
+  labor_weekly_overtime_cap: 16,
+  labor_weekly_rest_hours: 36,
+};
+
+// 'block' turns violations into overridable errors at assignment time, 'warn' into warnings
+const DEFAULT_ENFORCEMENT = 'block';
+
+// A shift with at least this many hours between 22:00 and 06:00 is a night shift
+const NIGHT_MIN_HOURS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Date Helpers ─────────────────────────────────────────────────────────────
+
+function toDateStr(d) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function addDays(dateStr, days) {
+  const d = new Date(dateStr + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return toDateStr(d);
+}
+
+function weekStartOf(dateStr) {
+  const d = new Date(dateStr + 'T00:00:00');
+  d.setDate(d.getDate() - d.getDay()); // Sunday
+  return toDateStr(d);
+}
+
+function hoursBetween(a, b) {
+  return (b - a) / (1000 * 60 * 60);
+}
+
+function round1(n) {
+  return Math.round(n * 10) / 10;
+}
+
+function shiftRange(date, startTime, endTime) {
+  const start = new Date(`${date}T${startTime}`);
+  const end = new Date(`${date}T${endTime}`);
+  if (end <= start) end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+/** Hours of an interval that fall between 22:00 and 06:00 */
+function nightHours(start, end) {
+  let total = 0;
+  const cursor = new Date(start);
+  cursor.setHours(0, 0, 0, 0);
+  cursor.setDate(cursor.getDate() - 1);
+  while (cursor < end) {
+    const nightStart = new Date(cursor);
+    nightStart.setHours(22, 0, 0, 0);
+    const nightEnd = new Date(nightStart.getTime() + 8 * 60 * 60 * 1000);
+    const overlap = Math.min(end, nightEnd) - Math.max(start, nightStart);
+    if (overlap > 0) total += overlap / (1000 * 60 * 60);
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return total;
+}
+
+/**
+ * Parse a punch time. Check-in/out are stored by datetime('now'): UTC without
+ * a zone designator on SQLite, "YYYY-MM-DD HH:MM:SS.ffffff+00" on PostgreSQL.
+ */
+function parsePunch(value) {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value) ? null : value;
+  const match = String(value).trim()
+    .match(/^(\d{4}-\d\d-\d\d)[T ](\d\d:\d\d(?::\d\d)?)(?:\.(\d+))?\s*(Z|[+-]\d\d(?::?\d\d)?)?$/i);
+  if (!match) return null;
+  const [, date, time, fraction = '', zone] = match;
+  // Date.parse only takes milliseconds and ±HH:MM offsets
+  const millis = fraction ? `.${fraction.slice(0, 3).padEnd(3, '0')}` : '';
+  let offset = 'Z';
+  if (zone && zone.toUpperCase() !== 'Z') {
+    const digits = zone.slice(1).replace(':', '');
+    offset = `${zone[0]}${digits.slice(0, 2)}:${digits.slice(2) || '00'}`;
+  }
+  const d = new Date(`${date}T${time}${millis}${offset}`);
+  return isNaN(d) ? null : d;
+}
+
+/**
+ * Work interval of an assignment: actual times once worked, otherwise the schedule
+ */
+function toInterval(row) {
+  let range = null;
+  const start = parsePunch(row.check_in_time);
+  const end = parsePunch(row.check_out_time);
+  if (start && end && end > start) range = { start, end };
+  if (!range) range = shiftRange(row.date, row.start_time, row.end_time);
+  return {
+    shift_id: row.shift_id,
+    date: row.date,
+    start: range.start,
+    end: range.end,
+    night: nightHours(range.start, range.end) >= NIGHT_MIN_HOURS,
+  };
+}
+
+// ── Work Hours Compliance Class ──────────────────────────────────────────────
+
+class WorkHoursCompliance {
+  parsePunch(value) {
+    return parsePunch(value);
+  }
+
+  nightHours(start, end) {
+    return nightHours(start, end);
+  }
+
+  isNightShift(start, end) {
+    return nightHours(start, end) >= NIGHT_MIN_HOURS;
+  }
+
+  /**
+   * Resolve the limits and enforcement mode currently in force
+   * @returns {object} DEFAULT_LIMITS keys plus enforcement
+   */
+  async getLimits() {
+    const limits = { ...DEFAULT_LIMITS, enforcement: DEFAULT_ENFORCEMENT };
+    try {
+      const keys = [...Object.keys(DEFAULT_LIMITS), 'labor_enforcement'];
+      const result = await query(
+        `SELECT key, value FROM system_config WHERE key IN (${keys.map((_, i) => `$${i + 1}`).join(', ')})`,
+        keys
+      );
+      for (const row of result.rows) {
+        if (row.key === 'labor_enforcement') {
+          if (row.value === 'block' || row.value === 'warn') limits.enforcement = row.value;
+          continue;
+        }
+        const value = parseFloat(row.value);
+        if (!isNaN(value) && value > 0) limits[row.key] = value;
+      }
+    } catch (e) { /* fall back to defaults */ }
+    return limits;
+  }
+
+  /**
+   * Load work intervals per employee
+   * @returns {object} Map of employee_id → sorted intervals
+   */
+  async _loadIntervals(startDate, endDate, employeeId = null) {
+    const params = [startDate, endDate];
+    let employeeFilter = '';
+    if (employeeId) {
+      params.push(employeeId);
+      employeeFilter = 'AND sa.employee_id = $3';
+    }
+    const result = await query(`
+      SELECT sa.employee_id, sa.check_in_time, sa.check_out_time,
+             s.id as shift_id, s.date, s.start_time, s.end_time
+      FROM shift_assignments sa
+      JOIN shifts s ON sa.shift_id = s.id
+      WHERE s.date BETWEEN $1 AND $2
+      AND sa.status NOT IN ('cancelled', 'no_show')
+      AND s.status != 'cancelled'
+      ${employeeFilter}
+    `, params);
+
+    const byEmployee = {};
+    for (const row of result.rows) {
+      if (!byEmployee[row.employee_id]) byEmployee[row.employee_id] = [];
+      byEmployee[row.employee_id].push(toInterval(row));
+    }
+    for (const list of Object.values(byEmployee)) list.sort((a, b) => a.start - b.start);
+    return byEmployee;
+  }
+
+  /**
+   * Evaluate one week (Sunday-Saturday) of an employee's intervals
+   * @param {Array} intervals - Sorted, covering at least two days around the week
+   * @param {string} weekStart - Sunday (YYYY-MM-DD)
+   * @param {object} limits
+   * @param {boolean} nightInPriorWeeks - Night shifts in each of the two previous weeks
+   * @returns {object|null} Week summary, null when nothing was worked
+   */
+  _evaluateWeek(intervals, weekStart, limits, nightInPriorWeeks = false) {
+    const weekEnd = addDays(weekStart, 6);
+    const inWeek = intervals.filter(i => i.date >= weekStart && i.date <= weekEnd);
+    if (inWeek.length === 0) return null;
+
+    const violations = [];
+
+    // ── 1. Daily hours and daily overtime ───────────────────────────────
+    const days = {};
+    for (const i of inWeek) {
+      if (!days[i.date]) days[i.date] = { hours: 0, night: false };
+      days[i.date].hours += hoursBetween(i.start, i.end);
+      days[i.date].night = days[i.date].night || i.night;
+    }
+
+    let total = 0;
+    let dailyOvertime = 0;
+    for (const [date, day] of Object.entries(days)) {
+      total += day.hours;
+      const regular = day.night ? limits.labor_night_regular_hours : limits.labor_daily_regular_hours;
+      dailyOvertime += Math.max(0, day.hours - regular);
+      if (day.hours > limits.labor_daily_max_hours) {
+        violations.push({
+          code: 'daily_hours',
+          severity: 'error',
+          date,
+          message: `${round1(day.hours)} שעות ביום ${date} (מקסימום ${limits.labor_daily_max_hours})`,
+        });
+      }
+    }
+
+    // ── 2. Weekly overtime cap ──────────────────────────────────────────
+    const overtime = Math.max(dailyOvertime, total - limits.labor_weekly_regular_hours);
+    if (overtime > limits.labor_weekly_overtime_cap) {
+      violations.push({
+        code: 'overtime_cap',
+        severity: 'error',
+        date: weekStart,
+        message: `${round1(overtime)} שעות נוספות בשבוע ${weekStart} (מקסימום ${limits.labor_weekly_overtime_cap})`,
+      });
+    }
+
+    // ── 3. Weekly rest: longest break touching the week ─────────────────
+    const windowStart = new Date(weekStart + 'T00:00:00');
+    const windowEnd = new Date(windowStart.getTime() + 7 * DAY_MS);
+    let longestRest = 0;
+    let lastEnd = new Date(windowStart.getTime() - 2 * DAY_MS);
+    for (const i of [...intervals, { start: new Date(windowEnd.getTime() + 2 * DAY_MS), end: null }]) {
+      if (i.start > lastEnd && i.start > windowStart && lastEnd < windowEnd) {
+        longestRest = Math.max(longestRest, hoursBetween(lastEnd, i.start));
+      }
+      if (i.end && i.end > lastEnd) lastEnd = i.end;
+    }
+    if (longestRest < limits.labor_weekly_rest_hours) {
+      violations.push({
+        code: 'weekly_rest',
+        severity: 'error',
+        date: weekStart,
+        message: `מנוחה שבועית רצופה של ${round1(longestRest)} שעות בלבד בשבוע ${weekStart} (נדרש ${limits.labor_weekly_rest_hours})`,
+      });
+    }
+
+    // ── 4. Night rotation: not three weeks running ──────────────────────
+    const nightShifts = inWeek.filter(i => i.night).length;
+    if (nightShifts > 0 && nightInPriorWeeks) {
+      violations.push({
+        code: 'night_rotation',
+        severity: 'warning',
+        date: weekStart,
+        message: `משמרות לילה שלושה שבועות ברציפות (עד שבוע ${weekStart})`,
+      });
+    }
+
+    return {
+      week_start: weekStart,
+      total_hours: round1(total),
+      overtime_hours: round1(Math.max(0, overtime)),
+      night_shifts: nightShifts,
+      longest_rest_hours: round1(longestRest),
+      violations,
+    };
+  }
+
+  /**
+   * Evaluate the given weeks for one employee's intervals
+   */
+  _evaluateWeeks(intervals, weekStarts, limits) {
+    const hasNight = (ws) => {
+      const we = addDays(ws, 6);
+      return intervals.some(i => i.night && i.date >= ws && i.date <= we);
+    };
+    const weeks = [];
+    for (const ws of weekStarts) {
+      const nightInPrior = hasNight(addDays(ws, -7)) && hasNight(addDays(ws, -14));
+      const week = this._evaluateWeek(intervals, ws, limits, nightInPrior);
+      if (week) weeks.push(week);
+    }
+    return weeks;
+  }
+
+  _weekStarts(startDate, endDate) {
+    const starts = [];
+    for (let ws = weekStartOf(startDate); ws <= endDate; ws = addDays(ws, 7)) starts.push(ws);
+    return starts;
+  }
+
+  _summarize(weeks) {
+    return {
+      weeks,
+      violations: weeks.flatMap(w => w.violations),
+      total_hours: round1(weeks.reduce((s, w) => s + w.total_hours, 0)),
+      overtime_hours: round1(weeks.reduce((s, w) => s + w.overtime_hours, 0)),
+      night_shifts: weeks.reduce((s, w) => s + w.night_shifts, 0),
+    };
+  }
+
+  /**
+   * Violations per employee for every week touching a period
+   * @param {string} startDate - YYYY-MM-DD
+   * @param {string} endDate - YYYY-MM-DD
+   * @returns {{start_date, end_date, limits, employees: Array, summary: object}}
+   */
+  async analyzePeriod(startDate, endDate) {
+    const limits = await this.getLimits();
+    const weekStarts = this._weekStarts(startDate, endDate);
+    const loadStart = addDays(weekStarts[0], -16);
+    const loadEnd = addDays(weekStarts[weekStarts.length - 1], 8);
+
+    const byEmployee = await this._loadIntervals(loadStart, loadEnd);
+    const ids = Object.keys(byEmployee);
+    const names = {};
+    if (ids.length > 0) {
+      const result = await query(
+        `SELECT id, first_name || ' ' || last_name as name FROM employees WHERE id IN (${ids.map((_, i) => `$${i + 1}`).join(', ')})`,
+        ids
+      );
+      for (const row of result.rows) names[row.id] = row.name;
+    }
+
+    const employees = [];
+    for (const employeeId of ids) {
+      const weeks = this._evaluateWeeks(byEmployee[employeeId], weekStarts, limits);
+      if (weeks.length === 0) continue;
+      employees.push({ employee_id: employeeId, employee_name: names[employeeId] || '', ...this._summarize(weeks) });
+    }
+    employees.sort((a, b) =>
+      b.violations.filter(v => v.severity === 'error').length - a.violations.filter(v => v.severity === 'error').length ||
+      b.violations.length - a.violations.length ||
+      b.total_hours - a.total_hours
+    );
+
+    const withViolations = employees.filter(e => e.violations.length > 0);
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      limits,
+      employees,
+      summary: {
+        employees_checked: employees.length,
+        employees_with_violations: withViolations.length,
+        violations: withViolations.reduce((s, e) => s + e.violations.length, 0),
+      },
+    };
+  }
+
+  /**
+   * Compliance of one employee over a period (e.g. a payroll month)
+   * @param {string} employeeId
+   * @param {string} startDate - YYYY-MM-DD
+   * @param {string} endDate - YYYY-MM-DD
+   */
+  async analyzeEmployee(employeeId, startDate, endDate) {
+    const limits = await this.getLimits();
+    const weekStarts = this._weekStarts(startDate, endDate);
+    const byEmployee = await this._loadIntervals(
+      addDays(weekStarts[0], -16),
+      addDays(weekStarts[weekStarts.length - 1], 8),
+      employeeId
+    );
+    return this._summarize(this._evaluateWeeks(byEmployee[employeeId] || [], weekStarts, limits));
+  }
+
+  /**
+   * Violations an assignment would introduce, in assignment-validator format
+   * @param {object} shift - { id?, date, start_time, end_time }
+   * @param {string} employeeId
+   * @param {object} [options]
+   * @param {string[]} [options.ignoreShiftIds] - Shifts the employee is about to leave (swaps)
+   * @returns {Array<{code: string, severity: 'error'|'warning', message: string, overridable: boolean}>}
+   */
+  async checkAssignment(shift, employeeId, { ignoreShiftIds = [] } = {}) {
+    const limits = await this.getLimits();
+    const weekStart = weekStartOf(shift.date);
+    const byEmployee = await this._loadIntervals(addDays(weekStart, -16), addDays(weekStart, 8), employeeId);
+    const before = (byEmployee[employeeId] || [])
+      .filter(i => i.shift_id !== shift.id && !ignoreShiftIds.includes(i.shift_id));
+
+    const added = toInterval({ shift_id: shift.id, date: shift.date, start_time: shift.start_time, end_time: shift.end_time });
+    const after = [...before, added].sort((a, b) => a.start - b.start);
+
+    const existing = new Set(
+      this._evaluateWeeks(before, [weekStart], limits).flatMap(w => w.violations).map(v => `${v.code}:${v.date}`)
+    );
+
+    return this._evaluateWeeks(after, [weekStart], limits)
+      .flatMap(w => w.violations)
+      .filter(v => !existing.has(`${v.code}:${v.date}`))
+      .map(v => ({
+        code: `labor_${v.code}`,
+        severity: limits.enforcement === 'block' && v.severity === 'error' ? 'error' : 'warning',
+        message: `חוק שעות עבודה ומנוחה: ${v.message}`,
+        overridable: true,
+      }));
+  }
+}
+
+module.exports = new WorkHoursCompliance();
@@ -192,6 +192,85 @@ ${lead.contact_name} (${lead.company_name || '-'})
     }
   }
 
+  async _loadSwap(swapId) {
+    const result = await query(`
+      SELECT sr.*,
+             e1.first_name as requester_first_name, e1.last_name as requester_last_name, e1.phone as requester_phone,
+             e2.first_name as target_first_name, e2.last_name as target_last_name, e2.phone as target_phone,
+             s.date, s.start_time, s.end_time, si.name as site_name,
+             ts.date as target_date, ts.start_time as target_start_time, ts.end_time as target_end_time,
+             tsi.name as target_site_name
+      FROM shift_swap_requests sr
+      JOIN employees e1 ON sr.requester_id = e1.id
+      LEFT JOIN employees e2 ON sr.target_employee_id = e2.id
+      JOIN shifts s ON sr.shift_id = s.id
+      LEFT JOIN sites si ON s.site_id = si.id
+      LEFT JOIN shifts ts ON sr.target_shift_id = ts.id
+      LEFT JOIN sites tsi ON ts.site_id = tsi.id
+      WHERE sr.id = ?
+    `, [swapId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Tell the named colleague that a swap/trade was proposed to them
+   */
+  async notifySwapRequested(swapId) {
+    try {
+      if (!await this.isConfigured()) return;
+      const swap = await this._loadSwap(swapId);
+      if (!swap || !swap.target_phone) return;
+
+      const tradeLine = swap.swap_type === 'trade' && swap.target_date
+        ? `\nבתמורה למשמרת שלך: ${swap.target_date} ${swap.target_start_time}-${swap.target_end_time}${swap.target_site_name ? ` (${swap.target_site_name})` : ''}`
+        : '';
+
+      const message = `שלום ${swap.target_first_name}! 🔄
+${swap.requester_first_name} ${swap.requester_last_name} ${swap.swap_type === 'trade' ? 'מציע/ה להחליף איתך משמרת' : 'מציע/ה לך את המשמרת שלו/ה'}:
+📅 ${swap.date} 🕐 ${swap.start_time}-${swap.end_time}${swap.site_name ? `\n📍 ${swap.site_name}` : ''}${tradeLine}
+
+הבקשה ממתינה לאישור מנהל.
+צוות יהלום`;
+
+      await this.safeSend(swap.target_phone, message);
+    } catch (error) {
+      console.error('WhatsApp notifySwapRequested error:', error.message);
+    }
+  }
+
+  /**
+   * Tell both parties how the manager resolved a swap request
+   */
+  async notifySwapResolved(swapId) {
+    try {
+      if (!await this.isConfigured()) return;
+      const swap = await this._loadSwap(swapId);
+      if (!swap) return;
+
+      const approved = swap.status === 'approved';
+      const shiftLine = `📅 ${swap.date} 🕐 ${swap.start_time}-${swap.end_time}${swap.site_name ? `\n📍 ${swap.site_name}` : ''}`;
+      const noteLine = swap.resolution_note ? `\nהערת מנהל: ${swap.resolution_note}` : '';
+
+      await this.safeSend(swap.requester_phone, `שלום ${swap.requester_first_name},
+בקשת ההחלפה שלך ${approved ? 'אושרה ✅' : 'נדחתה ❌'}
+${shiftLine}${noteLine}
+
+צוות יהלום`);
+
+      if (swap.target_phone) {
+        const body = approved
+          ? `שובצת במקום ${swap.requester_first_name} ${swap.requester_last_name}:\n${shiftLine}`
+          : `בקשת ההחלפה עם ${swap.requester_first_name} ${swap.requester_last_name} נדחתה.`;
+        await this.safeSend(swap.target_phone, `שלום ${swap.target_first_name},
+${body}${noteLine}
+
+צוות יהלום`);
+      }
+    } catch (error) {
+      console.error('WhatsApp notifySwapResolved error:', error.message);
+    }
+  }
+
   /**
    * Handle incoming WhatsApp message - log and auto-reply
    */